@@ -0,0 +1,107 @@
+/*
+ * Comportamento mínimo das telas do PAT reproduzido nas fixtures:
+ * dropdowns .dtp-select, busca de tarefas via API local, spinner .dtp-block-ui
+ * e abas que só renderizam os comentários depois do clique (como o React do PAT).
+ */
+var patFixture = (function () {
+    function configurarDropdowns() {
+        document.querySelectorAll('.dtp-select').forEach(function (select) {
+            var toggle = select.querySelector('.dtp-select-toggle');
+            var opcoes = select.querySelector('.dtp-select-options');
+            toggle.addEventListener('click', function () {
+                opcoes.classList.toggle('aberto');
+            });
+            opcoes.querySelectorAll('.dtp-select-option').forEach(function (opcao) {
+                opcao.addEventListener('click', function () {
+                    toggle.value = opcao.value;
+                    toggle.textContent = opcao.textContent;
+                    opcoes.classList.remove('aberto');
+                });
+            });
+        });
+    }
+
+    function bloquear(ativo) {
+        var bloqueio = document.querySelector('.dtp-block-ui');
+        if (!bloqueio) {
+            bloqueio = document.createElement('div');
+            bloqueio.className = 'dtp-block-ui';
+            document.body.appendChild(bloqueio);
+        }
+        bloqueio.classList.toggle('blocked', ativo);
+    }
+
+    function renderizarTarefas(tarefas) {
+        var tbody = document.querySelector('#tableConsultarTarefasEC tbody');
+        var vazio = document.querySelector('#tableConsultarTarefasEC .dtp-table-empty');
+        tbody.innerHTML = '';
+        if (vazio) vazio.remove();
+
+        tarefas.forEach(function (tarefa) {
+            var linha = document.createElement('tr');
+            linha.className = 'dtp-table-wrapper-row';
+            [tarefa.protocolo, tarefa.servico, tarefa.status, tarefa.data].forEach(function (valor) {
+                var coluna = document.createElement('td');
+                coluna.textContent = valor;
+                linha.appendChild(coluna);
+            });
+            tbody.appendChild(linha);
+        });
+
+        if (tarefas.length === 0) {
+            var mensagem = document.createElement('div');
+            mensagem.className = 'dtp-table-empty';
+            mensagem.textContent = 'Nenhum registro encontrado';
+            document.querySelector('#tableConsultarTarefasEC').appendChild(mensagem);
+        }
+
+        document.querySelector('.dtp-pagination-info').textContent = tarefas.length > 0
+            ? '1 - ' + tarefas.length + ' de ' + tarefas.length
+            : '0 - 0 de 0';
+    }
+
+    function consultarTarefas() {
+        configurarDropdowns();
+
+        document.querySelector('.buscar button').addEventListener('click', function () {
+            var params = new URLSearchParams({
+                status: document.querySelector('#filtro-entidade-conveniada-status').value,
+                dataInicial: document.querySelector('#filtro-entidade-conveniada-data-inicial').value,
+                dataFinal: document.querySelector('#filtro-entidade-conveniada-data-final').value
+            });
+
+            bloquear(true);
+            fetch('/fixtures/api/tarefas?' + params.toString())
+                .then(function (resposta) { return resposta.json(); })
+                .then(renderizarTarefas)
+                .finally(function () { bloquear(false); });
+        });
+    }
+
+    function detalharTarefa() {
+        // O PAT mantém o bloqueio enquanto carrega a tarefa; os scrapers esperam ele aparecer e sumir
+        setTimeout(function () { bloquear(false); }, 3500);
+
+        document.querySelectorAll('.dtp-nav-tabs a').forEach(function (aba) {
+            aba.addEventListener('click', function (evento) {
+                evento.preventDefault();
+                var id = aba.getAttribute('href').slice(1);
+                var painel = document.getElementById(id);
+
+                document.querySelectorAll('.dtp-nav-tabs li').forEach(function (li) { li.classList.remove('active'); });
+                document.querySelectorAll('.tab-pane').forEach(function (p) { p.classList.remove('active'); });
+                aba.parentElement.classList.add('active');
+                painel.classList.add('active');
+
+                var template = document.getElementById('comentarios-' + id);
+                if (template && !painel.hasChildNodes()) {
+                    setTimeout(function () {
+                        painel.appendChild(template.content.cloneNode(true));
+                    }, 600);
+                }
+            });
+        });
+    }
+
+    return { consultarTarefas: consultarTarefas, detalharTarefa: detalharTarefa };
+})();
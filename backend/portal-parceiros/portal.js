@@ -0,0 +1,342 @@
+/**
+ * Portal do parceiro
+ *
+ * Rotas (hash): #/entrar/<token> troca o link mágico pela sessão, #/ lista os processos,
+ * #/processos/<id> mostra o processo. A sessão fica no localStorage.
+ */
+
+const API = '/api/v1/portal-parceiros';
+const CHAVE_SESSAO = 'portalParceiroSessao';
+const CHAVE_DESTINO = 'portalParceiroDestino';
+
+const STATUS_INSS = {
+    NOVO: 'Novo',
+    PENDENTE: 'Pendente',
+    EM_ANALISE: 'Em análise',
+    CUMPRIMENTO_DE_EXIGENCIA: 'Exigência',
+    CONCLUIDA: 'Concluído',
+    CANCELADA: 'Cancelado',
+};
+
+const TIPOS_AGENDAMENTO = {
+    PERICIA: 'Perícia médica',
+    AVALIACAO_SOCIAL: 'Avaliação social',
+};
+
+let processos = [];
+
+// =============== UTILITÁRIOS ===============
+
+function el(tag, atributos, ...filhos) {
+    const elemento = document.createElement(tag);
+    Object.entries(atributos || {}).forEach(([nome, valor]) => {
+        if (valor === undefined || valor === null || valor === false) return;
+        if (nome === 'className') elemento.className = valor;
+        else if (nome.startsWith('on')) elemento.addEventListener(nome.substring(2).toLowerCase(), valor);
+        else elemento.setAttribute(nome, valor);
+    });
+    filhos.flat().forEach((filho) => {
+        if (filho === undefined || filho === null || filho === false) return;
+        elemento.appendChild(typeof filho === 'string' || typeof filho === 'number' ? document.createTextNode(String(filho)) : filho);
+    });
+    return elemento;
+}
+
+function formatarData(valor) {
+    if (!valor) return '-';
+    // Datas sem hora (DATE) chegam como meia-noite UTC: usar só a parte da data
+    const [ano, mes, dia] = String(valor).substring(0, 10).split('-');
+    return `${dia}/${mes}/${ano}`;
+}
+
+function formatarDataHora(valor) {
+    return valor ? new Date(valor).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+}
+
+function seloStatus(processo) {
+    if (processo.classeFinal === 'DEFERIDO') return el('span', { className: 'selo deferido' }, 'Deferido');
+    if (processo.classeFinal === 'INDEFERIDO') return el('span', { className: 'selo indeferido' }, 'Indeferido');
+    const exigencia = processo.statusInss === 'CUMPRIMENTO_DE_EXIGENCIA';
+    return el('span', { className: exigencia ? 'selo exigencia' : 'selo' }, STATUS_INSS[processo.statusInss] || processo.statusInss);
+}
+
+function exibirMensagem(texto, tipo) {
+    const caixa = document.getElementById('mensagem');
+    caixa.textContent = texto;
+    caixa.className = `mensagem ${tipo || 'sucesso'}`;
+}
+
+function limparMensagem() {
+    document.getElementById('mensagem').className = 'mensagem oculto';
+}
+
+function mostrarTela(id) {
+    ['tela-login', 'tela-processos', 'tela-processo'].forEach((tela) => {
+        document.getElementById(tela).classList.toggle('oculto', tela !== id);
+    });
+    document.getElementById('botao-sair').classList.toggle('oculto', id === 'tela-login');
+}
+
+// =============== API ===============
+
+async function chamarApi(caminho, opcoes) {
+    const sessao = localStorage.getItem(CHAVE_SESSAO);
+    const resposta = await fetch(`${API}${caminho}`, {
+        ...opcoes,
+        headers: {
+            ...((opcoes && opcoes.headers) || {}),
+            ...(sessao ? { Authorization: `Bearer ${sessao}` } : {}),
+        },
+    });
+
+    const dados = await resposta.json().catch(() => ({}));
+    if (resposta.status === 401 && sessao) {
+        sair(dados.message || 'Sessão expirada, peça um novo link de acesso');
+        throw new Error(dados.message || 'Sessão expirada');
+    }
+    if (!resposta.ok || dados.success === false) {
+        throw new Error(dados.message || `Erro ${resposta.status}`);
+    }
+    return dados;
+}
+
+function sair(motivo) {
+    localStorage.removeItem(CHAVE_SESSAO);
+    processos = [];
+    mostrarTela('tela-login');
+    if (motivo) exibirMensagem(motivo, 'erro');
+    if (location.hash.startsWith('#/processos/')) sessionStorage.setItem(CHAVE_DESTINO, location.hash);
+}
+
+// =============== TELAS ===============
+
+async function solicitarAcesso(evento) {
+    evento.preventDefault();
+    const botao = evento.target.querySelector('button');
+    botao.disabled = true;
+
+    try {
+        const dados = await chamarApi('/acesso', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ contato: document.getElementById('campo-contato').value }),
+        });
+        exibirMensagem(dados.message);
+    } catch (error) {
+        exibirMensagem(error.message, 'erro');
+    } finally {
+        botao.disabled = false;
+    }
+}
+
+async function entrar(token) {
+    try {
+        const dados = await chamarApi('/entrar', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token }),
+        });
+        localStorage.setItem(CHAVE_SESSAO, dados.token);
+        exibirMensagem(`Bem-vindo(a), ${dados.parceiro.nome}!`);
+    } catch (error) {
+        mostrarTela('tela-login');
+        exibirMensagem(error.message, 'erro');
+        history.replaceState(null, '', '#/');
+        return;
+    }
+
+    // Tira o token da barra de endereço (e do histórico)
+    const destino = sessionStorage.getItem(CHAVE_DESTINO) || '#/';
+    sessionStorage.removeItem(CHAVE_DESTINO);
+    history.replaceState(null, '', destino);
+    await navegar();
+}
+
+async function carregarProcessos() {
+    mostrarTela('tela-processos');
+    const lista = document.getElementById('lista-processos');
+    lista.replaceChildren(el('p', { className: 'vazio' }, 'Carregando...'));
+
+    try {
+        const dados = await chamarApi('/processos');
+        processos = dados.processos;
+        renderizarProcessos();
+    } catch (error) {
+        lista.replaceChildren(el('p', { className: 'vazio' }, error.message));
+    }
+}
+
+function renderizarProcessos() {
+    const busca = document.getElementById('campo-busca').value.trim().toLowerCase();
+    const filtrados = processos.filter((p) => !busca
+        || (p.nomeSegurado || '').toLowerCase().includes(busca)
+        || (p.protocolo || '').includes(busca));
+
+    const lista = document.getElementById('lista-processos');
+    if (filtrados.length === 0) {
+        lista.replaceChildren(el('p', { className: 'vazio' }, processos.length === 0
+            ? 'Nenhum processo com a sua etiqueta ainda.'
+            : 'Nenhum processo encontrado.'));
+        return;
+    }
+
+    lista.replaceChildren(el('table', {},
+        el('thead', {}, el('tr', {},
+            el('th', {}, 'Cliente'), el('th', {}, 'Protocolo'), el('th', {}, 'Benefício'),
+            el('th', {}, 'Situação'), el('th', {}, 'Pendências'), el('th', {}, 'Próximo agendamento'))),
+        el('tbody', {}, filtrados.map((p) => el('tr', {
+            className: 'clicavel',
+            onClick: () => { location.hash = `#/processos/${p.id}`; },
+        },
+            el('td', {}, p.nomeSegurado, el('br'), el('small', { className: 'vazio' }, p.cpfMascarado)),
+            el('td', {}, p.protocolo),
+            el('td', {}, p.tipoBeneficio),
+            el('td', {}, seloStatus(p)),
+            el('td', {}, p.exigenciasAbertas > 0 ? `${p.exigenciasAbertas} exigência(s)` : '-'),
+            el('td', {}, formatarData(p.proximoAgendamento)))))));
+}
+
+async function carregarProcesso(id) {
+    mostrarTela('tela-processo');
+    const detalhe = document.getElementById('detalhe-processo');
+    detalhe.replaceChildren(el('p', { className: 'vazio' }, 'Carregando...'));
+
+    try {
+        const dados = await chamarApi(`/processos/${encodeURIComponent(id)}`);
+        renderizarProcesso(dados.processo);
+    } catch (error) {
+        detalhe.replaceChildren(el('div', { className: 'mensagem erro' }, error.message));
+    }
+}
+
+function renderizarProcesso(processo) {
+    const resumo = el('section', { className: 'cartao' },
+        el('h2', {}, processo.nomeSegurado, ' ', seloStatus(processo)),
+        el('p', {}, `CPF: ${processo.cpfMascarado || '-'} | Protocolo: ${processo.protocolo}`),
+        el('p', {}, `Benefício: ${processo.tipoBeneficio} | DER: ${formatarData(processo.der)}`),
+        el('p', { className: 'vazio' }, `Atualizado em ${formatarDataHora(processo.atualizadoEm)}`));
+
+    const exigencias = el('section', { className: 'cartao' },
+        el('h2', {}, 'Exigências em aberto'),
+        processo.exigencias.length === 0
+            ? el('p', { className: 'vazio' }, 'Nenhuma exigência em aberto.')
+            : processo.exigencias.map((exigencia) => el('div', {},
+                el('h3', {}, `Prazo: ${formatarData(exigencia.prazo)}`),
+                el('p', {}, exigencia.resumo),
+                exigencia.checklist.length > 0
+                    ? el('ul', { className: 'checklist' }, exigencia.checklist.map((item) =>
+                        el('li', {}, item.enviado ? '✅ ' : '⬜ ', item.item)))
+                    : null)));
+
+    const agendamentos = el('section', { className: 'cartao' },
+        el('h2', {}, 'Próximos agendamentos'),
+        processo.agendamentos.length === 0
+            ? el('p', { className: 'vazio' }, 'Nenhum agendamento.')
+            : el('ul', {}, processo.agendamentos.map((a) => el('li', {},
+                `${TIPOS_AGENDAMENTO[a.tipo] || a.tipo} em ${formatarData(a.data)}${a.hora ? ` às ${a.hora.substring(0, 5)}` : ''}`,
+                a.unidade ? ` - ${a.unidade}` : '',
+                a.endereco ? ` (${a.endereco})` : '',
+                a.urlComprovante ? [' - ', el('a', { href: a.urlComprovante, target: '_blank', rel: 'noopener' }, 'baixar comprovante')] : null))));
+
+    const historico = el('section', { className: 'cartao' },
+        el('h2', {}, 'Histórico de status'),
+        processo.historico.length === 0
+            ? el('p', { className: 'vazio' }, 'Sem mudanças de status registradas.')
+            : el('table', {}, el('tbody', {}, processo.historico.map((h) => el('tr', {},
+                el('td', {}, formatarDataHora(h.data)),
+                el('td', {}, STATUS_INSS[h.statusNovo] || h.statusNovo))))));
+
+    document.getElementById('detalhe-processo').replaceChildren(
+        resumo, exigencias, formularioEnvio(processo), agendamentos, historico);
+}
+
+function formularioEnvio(processo) {
+    const opcoes = [el('option', { value: '' }, 'Outro documento')];
+    processo.exigencias.forEach((exigencia) => {
+        exigencia.checklist.forEach((item) => {
+            opcoes.push(el('option', { value: JSON.stringify({ exigenciaId: exigencia.id, item: item.item }) },
+                `${item.enviado ? '✅ ' : ''}${item.item}`));
+        });
+    });
+
+    const seletor = el('select', {}, opcoes);
+    const arquivo = el('input', { type: 'file', accept: 'application/pdf,image/*', multiple: true, required: true });
+    const botao = el('button', { type: 'submit' }, 'Enviar');
+
+    const formulario = el('form', {
+        onSubmit: async (evento) => {
+            evento.preventDefault();
+            const escolha = seletor.value ? JSON.parse(seletor.value) : {};
+            botao.disabled = true;
+
+            try {
+                for (const file of Array.from(arquivo.files)) {
+                    const parametros = new URLSearchParams({ nome: file.name });
+                    if (escolha.exigenciaId) parametros.set('exigenciaId', escolha.exigenciaId);
+                    if (escolha.item) parametros.set('item', escolha.item);
+
+                    await chamarApi(`/processos/${processo.id}/documentos?${parametros}`, {
+                        method: 'POST',
+                        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+                        body: file,
+                    });
+                }
+                exibirMensagem('Documento(s) enviado(s) ao escritório. Obrigado!');
+                await carregarProcesso(processo.id);
+            } catch (error) {
+                exibirMensagem(error.message, 'erro');
+                botao.disabled = false;
+            }
+        },
+    }, seletor, arquivo, botao);
+
+    const enviados = processo.documentosEnviados.length === 0 ? null : el('div', {},
+        el('h3', {}, 'Já enviados por você'),
+        el('ul', {}, processo.documentosEnviados.map((d) => el('li', {},
+            `${d.nomeArquivo}${d.tipoDocumento ? ` (${d.tipoDocumento})` : ''} - ${formatarDataHora(d.enviadoEm)}`))));
+
+    return el('section', { className: 'cartao' },
+        el('h2', {}, 'Enviar documentos'),
+        el('p', { className: 'vazio' }, 'PDF ou foto legível. Escolha o item da exigência que o documento atende.'),
+        formulario,
+        enviados);
+}
+
+// =============== NAVEGAÇÃO ===============
+
+async function navegar() {
+    const rota = location.hash.replace(/^#/, '') || '/';
+
+    const entrada = rota.match(/^\/entrar\/([0-9a-f]+)$/);
+    if (entrada) {
+        await entrar(entrada[1]);
+        return;
+    }
+
+    if (!localStorage.getItem(CHAVE_SESSAO)) {
+        if (rota.startsWith('/processos/')) sessionStorage.setItem(CHAVE_DESTINO, location.hash);
+        mostrarTela('tela-login');
+        return;
+    }
+
+    const processo = rota.match(/^\/processos\/([0-9a-f-]+)$/i);
+    if (processo) {
+        await carregarProcesso(processo[1]);
+    } else {
+        await carregarProcessos();
+    }
+}
+
+document.getElementById('form-acesso').addEventListener('submit', solicitarAcesso);
+document.getElementById('campo-busca').addEventListener('input', renderizarProcessos);
+document.getElementById('botao-voltar').addEventListener('click', () => { location.hash = '#/'; });
+document.getElementById('botao-sair').addEventListener('click', () => {
+    sair();
+    history.replaceState(null, '', '#/');
+});
+window.addEventListener('hashchange', () => {
+    limparMensagem();
+    navegar();
+});
+
+navegar();
@@ -34,6 +34,73 @@ interface Config {
         model: string;
         captchaModel: string;
     };
+    llm: {
+        provider: 'gemini' | 'openai' | 'ollama' | 'fake';
+        baseUrl: string;
+        model: string;
+        apiKey: string;
+        embeddingModel: string;
+    };
+    regras: {
+        confiancaMinima: number;
+    };
+    alertas: {
+        whatsappAdmin: string;
+        emailAdmin: string;
+    };
+    whatsapp: {
+        usuarioCentral: string;
+        intervaloEnvioMs: number;
+        maxMensagensPorMinuto: number;
+        intervaloPorNumeroSegundos: number;
+        validadeMensagemHoras: number;
+        saudeToleranciaMinutos: number;
+        saudeMaxFalhasEnvio: number;
+        maxSessoes: number;
+    };
+    email: {
+        host: string;
+        port: number;
+        seguro: boolean;
+        usuario: string;
+        senha: string;
+        remetente: string;
+    };
+    sms: {
+        url: string;
+        token: string;
+        campoTelefone: string;
+        campoMensagem: string;
+        remetente: string;
+        maxCaracteres: number;
+    };
+    lembretes: {
+        horarioInicio: string;
+        horarioFim: string;
+        fimDeSemana: 'enviar' | 'antecipar' | 'adiar';
+    };
+    comparecimento: {
+        cron: string;
+        maxTentativas: number;
+    };
+    portal: {
+        url: string;
+        validadeLinkMinutos: number;
+        validadeSessaoDias: number;
+        tamanhoMaximoUploadMb: number;
+    };
+    classificacaoDocumentos: {
+        ativo: boolean;
+        confiancaMinima: number;
+    };
+    pacoteInss: {
+        tamanhoMaximoMb: number;
+    };
+    cofre: {
+        chaveMestra: string;
+        arquivoChave: string;
+        chavesAnteriores: string[];
+    };
     jwt: {
         secret: string;
         expiresIn: string;
@@ -50,6 +117,21 @@ interface Config {
         bucketId: string;
         bucketName: string;
     };
+    armazenamento: {
+        driver: 'local' | 'backblaze' | 's3';
+        urlDownload: string;
+        segredoLinks: string;
+        validadeLinkHoras: number;
+        diretorioLocal: string;
+        tamanhoMaximoUploadMb: number;
+        s3: {
+            endpoint: string;
+            regiao: string;
+            bucket: string;
+            accessKeyId: string;
+            secretAccessKey: string;
+        };
+    };
 }
 
 const config: Config = {
@@ -82,6 +164,94 @@ const config: Config = {
         model: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
         captchaModel: process.env.GEMINI_CAPTCHA_MODEL || 'gemini-2.0-flash-lite', // Modelo específico para CAPTCHA fallback
     },
+    llm: {
+        // Provedor padrão quando o usuário não escolheu um (gemini | openai | ollama | fake)
+        provider: (process.env.LLM_PROVIDER as Config['llm']['provider']) || 'gemini',
+        baseUrl: process.env.LLM_BASE_URL || '',
+        model: process.env.LLM_MODEL || '',
+        apiKey: process.env.LLM_API_KEY || '',
+        // Modelo de embeddings para busca de exemplos similares (vazio = padrão do provedor)
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL || '',
+    },
+    regras: {
+        // Confiança mínima para o motor de regras dispensar o LLM
+        confiancaMinima: parseFloat(process.env.REGRAS_CONFIANCA_MINIMA || '0.9'),
+    },
+    alertas: {
+        // WhatsApp do admin para alertas operacionais (ex.: seletores do PAT quebrados); vazio = só log
+        whatsappAdmin: process.env.ALERTAS_WHATSAPP_ADMIN || '',
+        // E-mail do admin para quedas da sessão WhatsApp central/legada (escritórios recebem no e-mail do cadastro)
+        emailAdmin: process.env.ALERTAS_EMAIL_ADMIN || '',
+    },
+    whatsapp: {
+        // Usuário da extensão cuja sessão envia as mensagens do sistema; vazio = sessão legada (.wwebjs_auth/session)
+        usuarioCentral: process.env.WHATSAPP_USUARIO_CENTRAL || '',
+        // Limite de envio por sessão (cada escritório tem o seu)
+        intervaloEnvioMs: parseInt(process.env.WHATSAPP_INTERVALO_ENVIO_MS || '2000', 10),
+        maxMensagensPorMinuto: parseInt(process.env.WHATSAPP_MAX_MENSAGENS_POR_MINUTO || '20', 10),
+        // Outbox: intervalo mínimo entre mensagens para o mesmo número e validade de mensagens não enviadas
+        intervaloPorNumeroSegundos: parseInt(process.env.WHATSAPP_INTERVALO_POR_NUMERO_SEGUNDOS || '30', 10),
+        validadeMensagemHoras: parseInt(process.env.WHATSAPP_VALIDADE_MENSAGEM_HORAS || '48', 10),
+        // Saúde da sessão: minutos fora do ar antes de alertar e falhas de envio seguidas que deixam a sessão instável
+        saudeToleranciaMinutos: parseInt(process.env.WHATSAPP_SAUDE_TOLERANCIA_MINUTOS || '5', 10),
+        saudeMaxFalhasEnvio: parseInt(process.env.WHATSAPP_SAUDE_MAX_FALHAS_ENVIO || '3', 10),
+        // Sessões iniciadas ao mesmo tempo (central incluída): cada uma é um Chromium no servidor
+        maxSessoes: parseInt(process.env.WHATSAPP_MAX_SESSOES || '10', 10),
+    },
+    email: {
+        // SMTP para notificações por e-mail; sem host, o canal fica desativado
+        host: process.env.SMTP_HOST || '',
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        seguro: process.env.SMTP_SECURE === 'true',
+        usuario: process.env.SMTP_USER || '',
+        senha: process.env.SMTP_PASSWORD || '',
+        remetente: process.env.SMTP_FROM || 'INSS Manager <notificacoes@localhost>',
+    },
+    sms: {
+        // Gateway HTTP genérico: POST JSON com telefone e mensagem; sem URL, o canal fica desativado
+        url: process.env.SMS_GATEWAY_URL || '',
+        token: process.env.SMS_GATEWAY_TOKEN || '',
+        campoTelefone: process.env.SMS_GATEWAY_CAMPO_TELEFONE || 'telefone',
+        campoMensagem: process.env.SMS_GATEWAY_CAMPO_MENSAGEM || 'mensagem',
+        remetente: process.env.SMS_REMETENTE || '',
+        maxCaracteres: parseInt(process.env.SMS_MAX_CARACTERES || '480', 10),
+    },
+    lembretes: {
+        // Padrões das políticas de lembrete (utils/politicasLembrete.ts): janela de envio e fim de semana
+        horarioInicio: process.env.LEMBRETES_HORARIO_INICIO || '08:00',
+        horarioFim: process.env.LEMBRETES_HORARIO_FIM || '20:00',
+        fimDeSemana: (process.env.LEMBRETES_FIM_DE_SEMANA as Config['lembretes']['fimDeSemana']) || 'antecipar',
+    },
+    comparecimento: {
+        // Conferência no PAT, a partir do dia seguinte, se o segurado compareceu à perícia/avaliação social
+        cron: process.env.COMPARECIMENTO_CRON || '0 10 * * 1-5',
+        // Dias seguidos sem o PAT atualizar o status antes de desistir (fica para conferência manual)
+        maxTentativas: parseInt(process.env.COMPARECIMENTO_MAX_TENTATIVAS || '5', 10),
+    },
+    portal: {
+        // Portal do parceiro (login por link mágico enviado por WhatsApp ou e-mail)
+        url: process.env.PORTAL_PARCEIROS_URL || 'http://localhost:3000/portal',
+        validadeLinkMinutos: parseInt(process.env.PORTAL_VALIDADE_LINK_MINUTOS || '15', 10),
+        validadeSessaoDias: parseInt(process.env.PORTAL_VALIDADE_SESSAO_DIAS || '7', 10),
+        tamanhoMaximoUploadMb: parseInt(process.env.PORTAL_TAMANHO_MAXIMO_UPLOAD_MB || '15', 10),
+    },
+    classificacaoDocumentos: {
+        // OCR + IA nos documentos recebidos dos clientes (tipo, nome, CPF, datas, CIDs)
+        ativo: process.env.CLASSIFICACAO_DOCUMENTOS_ATIVO !== 'false',
+        // Abaixo disso a IA não vincula o documento ao item da exigência sozinha
+        confiancaMinima: parseFloat(process.env.CLASSIFICACAO_DOCUMENTOS_CONFIANCA_MINIMA || '0.7'),
+    },
+    pacoteInss: {
+        // Tamanho máximo de cada arquivo anexado no INSS; o pacote da exigência é dividido em volumes abaixo disso
+        tamanhoMaximoMb: parseFloat(process.env.PACOTE_INSS_TAMANHO_MAXIMO_MB || '5'),
+    },
+    cofre: {
+        // Chave mestra do cofre de credenciais (32 bytes em base64 ou hex); sem ela, lida do arquivo
+        chaveMestra: process.env.COFRE_CHAVE_MESTRA || '',
+        arquivoChave: process.env.COFRE_ARQUIVO_CHAVE || '.cofre/chave-mestra',
+        // Chaves substituídas, mantidas até `npm run cofre:rotacionar` recifrar tudo com a atual
+        chavesAnteriores: (process.env.COFRE_CHAVES_ANTERIORES || '').split(',').map(c => c.trim()).filter(Boolean),
+    },
     jwt: {
         secret: process.env.JWT_SECRET || 'seu_segredo_super_secreto',
         expiresIn: process.env.JWT_EXPIRES_IN || '7d',
@@ -98,6 +268,26 @@ const config: Config = {
         bucketId: process.env.BACKBLAZE_BUCKET_ID || '',
         bucketName: process.env.BACKBLAZE_BUCKET_NAME || '',
     },
+    armazenamento: {
+        // Onde ficam comprovantes e documentos; sem ARMAZENAMENTO_DRIVER, Backblaze se configurado, senão disco
+        driver: (process.env.ARMAZENAMENTO_DRIVER as Config['armazenamento']['driver'])
+            || (process.env.BACKBLAZE_APPLICATION_KEY_ID ? 'backblaze' : 'local'),
+        // Links assinados de download (/api/v1/arquivos/:id) enviados por WhatsApp, e-mail e Tramitação
+        urlDownload: process.env.ARMAZENAMENTO_URL_DOWNLOAD || 'http://localhost:3000/api/v1/arquivos',
+        // Obrigatório e exclusivo dos links (nunca o JWT_SECRET): sem ele o servidor não inicia
+        segredoLinks: process.env.ARMAZENAMENTO_SEGREDO_LINKS || '',
+        validadeLinkHoras: parseInt(process.env.ARMAZENAMENTO_VALIDADE_LINK_HORAS || '168', 10),
+        diretorioLocal: process.env.ARMAZENAMENTO_DIRETORIO_LOCAL || 'storage/arquivos',
+        // Upload de documentos das exigências pelo escritório (/api/v1/exigencias-itens)
+        tamanhoMaximoUploadMb: parseInt(process.env.ARMAZENAMENTO_TAMANHO_MAXIMO_UPLOAD_MB || '15', 10),
+        s3: {
+            endpoint: process.env.ARMAZENAMENTO_S3_ENDPOINT || '',
+            regiao: process.env.ARMAZENAMENTO_S3_REGIAO || 'us-east-1',
+            bucket: process.env.ARMAZENAMENTO_S3_BUCKET || '',
+            accessKeyId: process.env.ARMAZENAMENTO_S3_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.ARMAZENAMENTO_S3_SECRET_ACCESS_KEY || '',
+        },
+    },
 };
 
 export default config;
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
-import { InssWorker } from '../workers/InssWorker';
+import inssWorker from '../workers/InssWorker';
+import sincronizacaoFilaService, { CONTA_PAT_WORKER } from '../services/SincronizacaoFilaService';
 import logger from '../utils/logger';
 import database from '../database';
 
@@ -167,10 +168,44 @@ class AdminController {
      */
     async runWorker(req: Request, res: Response): Promise<void> {
         try {
-            logger.info('Worker INSS iniciado via painel admin');
+            // Dry-run: vira job da fila do PAT; o relatório sai em GET /api/v1/admin/worker/jobs/:jobId
+            if (req.body?.dryRun === true) {
+                const ativo = await sincronizacaoFilaService.buscarJobAtivo(null, 'worker');
+                if (ativo) {
+                    res.status(400).json({
+                        success: false,
+                        message: 'Já existe uma simulação do worker na fila ou em andamento',
+                        data: {
+                            jobId: ativo.id,
+                        },
+                    });
+                    return;
+                }
 
-            // Executar worker de forma assíncrona
-            const worker = new InssWorker();
+                const agora = new Date();
+                const jobId = await sincronizacaoFilaService.criarJob({
+                    usuarioId: null,
+                    contaPat: CONTA_PAT_WORKER,
+                    tokenPat: '',
+                    dataInicio: agora,
+                    dataFim: agora,
+                    forcarExecucao: false,
+                    dryRun: true,
+                    tipo: 'worker',
+                });
+                logger.info(`Worker INSS enfileirado em dry-run via painel admin (job ${jobId})`);
+
+                res.status(202).json({
+                    success: true,
+                    message: 'Simulação enfileirada. Nada será gravado no Tramitação, WhatsApp ou banco.',
+                    data: {
+                        jobId,
+                    },
+                });
+                return;
+            }
+
+            logger.info('Worker INSS iniciado via painel admin');
 
             // Responder imediatamente e executar em background
             res.json({
@@ -181,8 +216,8 @@ class AdminController {
                 },
             });
 
-            // Executar em background
-            worker.runManual().catch((error) => {
+            // Executar em background (mesma instância do cron: não roda duas vezes ao mesmo tempo)
+            inssWorker.runManual().catch((error) => {
                 logger.error('Erro ao executar worker:', error);
             });
         } catch (error: any) {
@@ -195,6 +230,36 @@ class AdminController {
         }
     }
 
+    /**
+     * GET /api/v1/admin/worker/jobs/:jobId
+     * Status do job do worker; com o dry-run concluído, o relatório por protocolo em data.worker
+     */
+    async getWorkerJob(req: Request, res: Response): Promise<void> {
+        try {
+            const job = await sincronizacaoFilaService.obterJob(req.params.jobId);
+
+            if (!job || job.tipo !== 'worker') {
+                res.status(404).json({
+                    success: false,
+                    message: 'Job não encontrado',
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: job,
+            });
+        } catch (error: any) {
+            logger.error('Erro ao obter job do worker:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Erro ao obter job do worker',
+                error: error.message,
+            });
+        }
+    }
+
     /**
      * GET /api/v1/admin/logs
      * Retorna últimas linhas dos logs
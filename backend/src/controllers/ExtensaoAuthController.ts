@@ -4,6 +4,8 @@ import auditLogger from '../utils/auditLogger';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import config from '../config';
+import { isLLMProviderValido, LLM_PROVIDERS } from '../services/llm';
+import cofreCredenciaisService, { NomeCredencial } from '../services/CofreCredenciaisService';
 
 interface UsuarioExtensao {
     id: string;
@@ -134,8 +136,7 @@ export class ExtensaoAuthController {
             // Buscar usuário
             const resultado = await Database.query(
                 `SELECT id, email, nome, senha_hash, licenca_valida_ate, 
-                        gemini_api_key, tramitacao_api_token, tramitacao_email, tramitacao_senha,
-                        pat_token, pat_token_timestamp
+                        tramitacao_email, pat_token_timestamp
                 FROM usuarios_extensao 
                 WHERE email = $1`,
                 [email.toLowerCase()]
@@ -185,6 +186,8 @@ export class ExtensaoAuthController {
             // Log de auditoria
             auditLogger.logAuth('Login realizado', usuario.id, usuario.email);
 
+            const segredos = await cofreCredenciaisService.configuradas(usuario.id);
+
             return {
                 success: true,
                 token,
@@ -193,9 +196,9 @@ export class ExtensaoAuthController {
                     email: usuario.email,
                     nome: usuario.nome,
                     licencaValidaAte: usuario.licenca_valida_ate,
-                    temGeminiApiKey: !!usuario.gemini_api_key,
-                    temTramitacaoApiToken: !!usuario.tramitacao_api_token,
-                    temPatToken: !!usuario.pat_token
+                    temGeminiApiKey: segredos.has('gemini_api_key'),
+                    temTramitacaoApiToken: segredos.has('tramitacao_api_token'),
+                    temPatToken: segredos.has('pat_token')
                 }
             };
         } catch (error: any) {
@@ -227,8 +230,8 @@ export class ExtensaoAuthController {
 
             // Buscar configurações
             const resultado = await Database.query(
-                `SELECT gemini_api_key, tramitacao_api_token, tramitacao_email, tramitacao_senha,
-                        pat_token, pat_token_timestamp, licenca_valida_ate
+                `SELECT tramitacao_email, pat_token_timestamp, licenca_valida_ate,
+                        llm_provider, llm_base_url, llm_model, conta_pat
                 FROM usuarios_extensao 
                 WHERE id = $1`,
                 [decoded.userId]
@@ -242,6 +245,7 @@ export class ExtensaoAuthController {
             }
 
             const configs = resultado[0];
+            const segredos = await cofreCredenciaisService.configuradas(decoded.userId);
 
             // ⚠️ SEGURANÇA: NUNCA retornar dados sensíveis para o client-side
             // Retornar apenas flags booleanos indicando se está configurado
@@ -249,13 +253,19 @@ export class ExtensaoAuthController {
                 success: true,
                 config: {
                     // Apenas flags booleanos - NUNCA os valores reais
-                    temGeminiApiKey: !!configs.gemini_api_key,
-                    temTramitacaoApiToken: !!configs.tramitacao_api_token,
+                    temGeminiApiKey: segredos.has('gemini_api_key'),
+                    temTramitacaoApiToken: segredos.has('tramitacao_api_token'),
                     temTramitacaoEmail: !!configs.tramitacao_email,
-                    temTramitacaoSenha: !!configs.tramitacao_senha,
-                    temPatToken: !!configs.pat_token,
+                    temTramitacaoSenha: segredos.has('tramitacao_senha'),
+                    temPatToken: segredos.has('pat_token'),
                     patTokenTimestamp: configs.pat_token_timestamp || null, // Timestamp é seguro
-                    licencaValidaAte: configs.licenca_valida_ate
+                    contaPat: configs.conta_pat || null, // CPF do login do PAT (define a sessão do navegador na fila)
+                    licencaValidaAte: configs.licenca_valida_ate,
+                    // Provedor/URL/modelo não são segredos - apenas a API key vira flag
+                    llmProvider: configs.llm_provider || config.llm.provider,
+                    llmBaseUrl: configs.llm_base_url || null,
+                    llmModel: configs.llm_model || null,
+                    temLlmApiKey: segredos.has('llm_api_key')
                 }
             };
         } catch (error: any) {
@@ -282,6 +292,11 @@ export class ExtensaoAuthController {
         tramitacaoEmail?: string;
         tramitacaoSenha?: string;
         patToken?: string;
+        contaPat?: string;
+        llmProvider?: string;
+        llmBaseUrl?: string;
+        llmModel?: string;
+        llmApiKey?: string;
     }): Promise<{
         success: boolean;
         message?: string;
@@ -306,44 +321,75 @@ export class ExtensaoAuthController {
                 };
             }
 
+            if (configs.llmProvider !== undefined && configs.llmProvider && !isLLMProviderValido(configs.llmProvider)) {
+                return {
+                    success: false,
+                    message: `Provedor de LLM inválido. Use: ${LLM_PROVIDERS.join(', ')}`
+                };
+            }
+
+            const contaPat = configs.contaPat !== undefined ? (configs.contaPat || '').replace(/\D/g, '') : undefined;
+            if (contaPat && contaPat.length !== 11) {
+                return {
+                    success: false,
+                    message: 'Conta do PAT deve ser o CPF do login (11 dígitos)'
+                };
+            }
+
+            // Segredos vão para o cofre (cifrados); o resto fica em usuarios_extensao
+            const segredos = ([
+                ['gemini_api_key', configs.geminiApiKey],
+                ['tramitacao_api_token', configs.tramitacaoApiToken],
+                ['tramitacao_senha', configs.tramitacaoSenha],
+                ['pat_token', configs.patToken],
+                ['llm_api_key', configs.llmApiKey],
+            ] as [NomeCredencial, string | undefined][]).filter(([, valor]) => valor !== undefined);
+
             // Montar query de atualização dinâmica
             const updates: string[] = [];
             const values: any[] = [];
             let paramIndex = 1;
 
-            if (configs.geminiApiKey !== undefined) {
-                updates.push(`gemini_api_key = $${paramIndex++}`);
-                values.push(configs.geminiApiKey || null);
+            if (configs.tramitacaoEmail !== undefined) {
+                updates.push(`tramitacao_email = $${paramIndex++}`);
+                values.push(configs.tramitacaoEmail || null);
             }
 
-            if (configs.tramitacaoApiToken !== undefined) {
-                updates.push(`tramitacao_api_token = $${paramIndex++}`);
-                values.push(configs.tramitacaoApiToken || null);
+            if (configs.patToken !== undefined) {
+                updates.push(`pat_token_timestamp = NOW()`);
             }
 
-            if (configs.tramitacaoEmail !== undefined) {
-                updates.push(`tramitacao_email = $${paramIndex++}`);
-                values.push(configs.tramitacaoEmail || null);
+            if (contaPat !== undefined) {
+                updates.push(`conta_pat = $${paramIndex++}`);
+                values.push(contaPat || null);
             }
 
-            if (configs.tramitacaoSenha !== undefined) {
-                updates.push(`tramitacao_senha = $${paramIndex++}`);
-                values.push(configs.tramitacaoSenha || null);
+            if (configs.llmProvider !== undefined) {
+                updates.push(`llm_provider = $${paramIndex++}`);
+                values.push(configs.llmProvider || null);
             }
 
-            if (configs.patToken !== undefined) {
-                updates.push(`pat_token = $${paramIndex++}`);
-                updates.push(`pat_token_timestamp = NOW()`);
-                values.push(configs.patToken || null);
+            if (configs.llmBaseUrl !== undefined) {
+                updates.push(`llm_base_url = $${paramIndex++}`);
+                values.push(configs.llmBaseUrl || null);
             }
 
-            if (updates.length === 0) {
+            if (configs.llmModel !== undefined) {
+                updates.push(`llm_model = $${paramIndex++}`);
+                values.push(configs.llmModel || null);
+            }
+
+            if (updates.length === 0 && segredos.length === 0) {
                 return {
                     success: false,
                     message: 'Nenhuma configuração fornecida'
                 };
             }
 
+            for (const [nome, valor] of segredos) {
+                await cofreCredenciaisService.gravar(decoded.userId, nome, valor, 'extensao');
+            }
+
             updates.push(`atualizado_em = NOW()`);
             values.push(decoded.userId);
 
@@ -351,11 +397,9 @@ export class ExtensaoAuthController {
                 UPDATE usuarios_extensao 
                 SET ${updates.join(', ')}
                 WHERE id = $${paramIndex}
-                RETURNING gemini_api_key, tramitacao_api_token, tramitacao_email, tramitacao_senha,
-                          pat_token, pat_token_timestamp
             `;
 
-            const resultado = await Database.query(query, values);
+            await Database.query(query, values);
 
             // Configurações atualizadas silenciosamente
 
@@ -365,8 +409,6 @@ export class ExtensaoAuthController {
                 camposAtualizados
             });
 
-            const configAtualizado = resultado[0];
-
             // ⚠️ SEGURANÇA: NUNCA retornar dados sensíveis para o client-side
             // Retornar apenas flags booleanos indicando se foi atualizado
             return {
@@ -1,69 +1,59 @@
+import os from 'os';
 import { SincronizacaoInssService } from '../services/SincronizacaoInssService';
+import puppeteerService from '../services/PuppeteerService';
+import comparecimentoAgendamentosService from '../services/ComparecimentoAgendamentosService';
+import inssWorker from '../workers/InssWorker';
+import sincronizacaoFilaService, {
+    JobAdquirido,
+    JobSincronizacao,
+    ResultadoSincronizacao,
+} from '../services/SincronizacaoFilaService';
+import { LLMProviderConfig } from '../services/llm';
+import cofreCredenciaisService, { NOMES_CREDENCIAIS } from '../services/CofreCredenciaisService';
+import Database from '../database';
 import logger from '../utils/logger';
 import auditLogger from '../utils/auditLogger';
 
-// Gerador simples de UUID v4
-function uuidv4(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-        const r = Math.random() * 16 | 0;
-        const v = c === 'x' ? r : (r & 0x3 | 0x8);
-        return v.toString(16);
-    });
+export interface ConfigSincronizacaoUsuario {
+    patToken?: string;
+    geminiApiKey?: string;
+    tramitacaoApiToken?: string;
+    tramitacaoEmail?: string;
+    tramitacaoSenha?: string;
+    llm?: LLMProviderConfig;
 }
 
-interface JobStatus {
-    jobId: string;
-    status: 'running' | 'completed' | 'failed' | 'pending';
-    progress?: {
-        total: number;
-        processados: number;
-        sucesso: number;
-        erros: number;
-    };
-    resultado?: {
-        protocolosProcessados: number;
-        clientesCriados: number;
-        clientesAtualizados: number;
-        notificacoesEnviadas: number;
-        erros: string[];
-        protocolosComErro?: string[];
-    };
-    erro?: string;
-    dataInicio?: string;
-    dataFim?: string;
-    iniciadoEm?: Date;
-    finalizadoEm?: Date;
-}
+// O navegador (puppeteerService) é único por processo: um job por vez, mesmo com vários controllers
+let processandoFila = false;
 
 /**
  * Controller para sincronização INSS
- * Gerencia jobs de sincronização assíncronos
+ * Enfileira jobs na fila durável (SincronizacaoFilaService) e executa os jobs
+ * deste processo um de cada vez, renovando o lease enquanto roda
  */
 export class SincronizacaoInssController {
-    private jobs: Map<string, JobStatus> = new Map();
     private sincronizacaoService: SincronizacaoInssService;
+    private readonly workerId = `${os.hostname()}:${process.pid}`;
+    private readonly intervaloFilaMs = 30 * 1000;
+    private timerFila: NodeJS.Timeout | null = null;
 
     constructor() {
         this.sincronizacaoService = new SincronizacaoInssService(
-            (jobId: string, progress: any) => this.atualizarProgresso(jobId, progress),
-            (jobId: string, resultado: any) => this.finalizarJob(jobId, resultado),
-            (jobId: string, erro: string) => this.falharJob(jobId, erro)
+            (jobId: string, resultado: ResultadoSincronizacao) => this.finalizarJob(jobId, resultado),
+            (jobId: string, erro: string, retentar?: boolean) => this.falharJob(jobId, erro, retentar),
+            (jobId: string) => this.cancelarJob(jobId)
         );
     }
 
     /**
-     * Inicia uma nova sincronização
+     * Enfileira uma nova sincronização e dispara o processamento da fila
+     * @param dryRun processa os protocolos sem escrever no Tramitação, WhatsApp ou armazenamento de arquivos
      */
     async iniciarSincronizacao(
         tokenPat: string,
-        forcarExecucao: boolean = false,
-        userId?: string,
-        userConfig?: {
-            geminiApiKey?: string;
-            tramitacaoApiToken?: string;
-            tramitacaoEmail?: string;
-            tramitacaoSenha?: string;
-        }
+        forcarExecucao: boolean,
+        userId: string,
+        dryRun: boolean = false
     ): Promise<{
         success: boolean;
         message?: string;
@@ -72,73 +62,43 @@ export class SincronizacaoInssController {
         dataFim?: string;
     }> {
         try {
-            // Limpar jobs travados (running/pending há mais de 30 minutos)
-            this.limparJobsTravados();
-
-            // Verificar se já existe uma sincronização rodando hoje
-            if (!forcarExecucao) {
-                const hoje = new Date().toISOString().split('T')[0];
-                const agora = Date.now();
-                const jobsHoje = Array.from(this.jobs.values()).filter(job => {
-                    if (!job.iniciadoEm) return false;
-                    const dataJob = job.iniciadoEm.toISOString().split('T')[0];
-                    const tempoDecorrido = agora - job.iniciadoEm.getTime();
-                    const estaTravado = tempoDecorrido > 30 * 60 * 1000; // 30 minutos
-
-                    // Ignorar jobs travados
-                    if (estaTravado) return false;
-
-                    return dataJob === hoje && (job.status === 'running' || job.status === 'pending');
-                });
-
-                if (jobsHoje.length > 0) {
-                    return {
-                        success: false,
-                        message: 'Já existe uma sincronização em andamento hoje. Use forcarExecucao=true para executar mesmo assim.'
-                    };
-                }
+            // Jobs órfãos (processo reiniciado) voltam para a fila antes de verificar duplicidade
+            await sincronizacaoFilaService.recuperarJobsOrfaos();
+
+            // Verificar se já existe uma sincronização pendente ou rodando para esta conta
+            const jobAtivo = await sincronizacaoFilaService.buscarJobAtivo(userId);
+            if (jobAtivo && !forcarExecucao) {
+                return {
+                    success: false,
+                    message: 'Já existe uma sincronização em andamento. Use forcarExecucao=true para enfileirar outra mesmo assim.',
+                    jobId: jobAtivo.id
+                };
             }
 
             // Calcular datas (ontem e hoje, ou última sexta até hoje se segunda)
             const { dataInicio, dataFim } = this.calcularDatas();
 
-            // Criar novo job
-            const jobId = uuidv4();
-            const job: JobStatus & { userId?: string } = {
-                jobId,
-                status: 'pending',
-                dataInicio: dataInicio.toISOString(),
-                dataFim: dataFim.toISOString(),
-                iniciadoEm: new Date(),
-                userId // Armazenar userId para logs de auditoria
-            };
-
-            this.jobs.set(jobId, job);
-
-            // Atualizar status para 'running' imediatamente com progresso inicial
-            job.status = 'running';
-            job.progress = {
-                total: 0,
-                processados: 0,
-                sucesso: 0,
-                erros: 0
-            };
-            this.jobs.set(jobId, job);
+            const jobId = await sincronizacaoFilaService.criarJob({
+                usuarioId: userId,
+                contaPat: await sincronizacaoFilaService.contaPatDoUsuario(userId),
+                tokenPat,
+                dataInicio,
+                dataFim,
+                forcarExecucao,
+                dryRun
+            });
 
             // Log de auditoria
-            auditLogger.logSync('Sincronização INSS iniciada', userId, undefined, {
+            auditLogger.logSync(dryRun ? 'Simulação de sincronização INSS iniciada' : 'Sincronização INSS iniciada', userId, undefined, {
                 jobId,
                 dataInicio: dataInicio.toISOString(),
                 dataFim: dataFim.toISOString(),
-                forcarExecucao
+                forcarExecucao,
+                dryRun
             });
 
-            // Iniciar sincronização de forma assíncrona com configurações do usuário
-            this.sincronizacaoService.executarSincronizacao(jobId, tokenPat, dataInicio, dataFim, userId, userConfig)
-                .catch((error: any) => {
-                    logger.error(`❌ Erro na sincronização ${jobId}: ${error.message}`, error);
-                    this.falharJob(jobId, error.message);
-                });
+            // Processar a fila de forma assíncrona (se outro job da conta estiver rodando, este espera)
+            this.processarFila();
 
             return {
                 success: true,
@@ -156,10 +116,217 @@ export class SincronizacaoInssController {
     }
 
     /**
-     * Obtém o status de um job
+     * Obtém o status de um job do usuário (null se não existe ou é de outro usuário)
+     */
+    async obterStatus(jobId: string, userId: string): Promise<JobSincronizacao | null> {
+        const job = await sincronizacaoFilaService.obterJob(jobId, userId);
+        // Jobs 'worker' são do painel admin (GET /api/v1/admin/worker/jobs/:jobId)
+        return job && job.tipo !== 'worker' ? job : null;
+    }
+
+    /**
+     * Pede o cancelamento de um job do usuário
+     */
+    async solicitarCancelamento(jobId: string, userId: string): Promise<{ success: boolean; message: string }> {
+        const status = await sincronizacaoFilaService.solicitarCancelamento(jobId, userId);
+        if (!status) {
+            return { success: false, message: 'Job não encontrado ou já finalizado' };
+        }
+
+        auditLogger.logSync('Cancelamento de sincronização INSS solicitado', userId, undefined, { jobId });
+        return {
+            success: true,
+            message: status === 'cancelled'
+                ? 'Sincronização cancelada'
+                : 'Cancelamento solicitado. A sincronização para após o protocolo atual.'
+        };
+    }
+
+    /**
+     * Recoloca na fila um job falho ou cancelado, continuando do último protocolo processado
+     */
+    async retomarSincronizacao(jobId: string, userId: string, tokenPat?: string): Promise<{ success: boolean; message: string }> {
+        const retomado = await sincronizacaoFilaService.retomarJob(jobId, userId, tokenPat);
+        if (!retomado) {
+            return { success: false, message: 'Job não encontrado ou não pode ser retomado (apenas falhos ou cancelados)' };
+        }
+
+        auditLogger.logSync('Sincronização INSS retomada', userId, undefined, { jobId });
+        this.processarFila();
+        return { success: true, message: 'Sincronização retomada' };
+    }
+
+    /**
+     * Carrega as credenciais do usuário da extensão
+     * ⚠️ SEGURANÇA: credenciais vêm apenas do banco (segredos do cofre), nunca do body da requisição
+     */
+    async carregarConfigUsuario(userId: string): Promise<ConfigSincronizacaoUsuario | null> {
+        const resultado = await Database.query(
+            `SELECT tramitacao_email, llm_provider, llm_base_url, llm_model
+             FROM usuarios_extensao 
+             WHERE id = $1`,
+            [userId]
+        );
+
+        if (resultado.length === 0) {
+            return null;
+        }
+
+        const configs = resultado[0];
+        const segredos = await cofreCredenciaisService.lerVarias(userId, NOMES_CREDENCIAIS, 'sincronizacao');
+        return {
+            patToken: segredos.pat_token,
+            geminiApiKey: segredos.gemini_api_key,
+            tramitacaoApiToken: segredos.tramitacao_api_token,
+            tramitacaoEmail: configs.tramitacao_email || undefined,
+            tramitacaoSenha: segredos.tramitacao_senha,
+            llm: {
+                provider: configs.llm_provider || undefined,
+                baseUrl: configs.llm_base_url || undefined,
+                model: configs.llm_model || undefined,
+                apiKey: segredos.llm_api_key
+            }
+        };
+    }
+
+    /**
+     * Verifica a fila periodicamente (jobs reagendados com backoff e jobs órfãos de outro processo)
+     */
+    iniciarWorkerFila(): void {
+        if (this.timerFila) {
+            return;
+        }
+
+        this.timerFila = setInterval(() => this.processarFila(), this.intervaloFilaMs);
+        this.timerFila.unref();
+        this.processarFila();
+    }
+
+    /**
+     * Executa os jobs disponíveis na fila, um de cada vez
+     */
+    async processarFila(): Promise<void> {
+        if (processandoFila) {
+            return;
+        }
+        processandoFila = true;
+
+        try {
+            await sincronizacaoFilaService.recuperarJobsOrfaos();
+
+            let job = await sincronizacaoFilaService.adquirirProximoJob(this.workerId);
+            while (job) {
+                await this.executarJob(job);
+                job = await sincronizacaoFilaService.adquirirProximoJob(this.workerId);
+            }
+        } catch (error: any) {
+            logger.error(`❌ Erro ao processar fila de sincronização: ${error.message}`, error);
+        } finally {
+            processandoFila = false;
+        }
+    }
+
+    private async executarJob(job: JobAdquirido): Promise<void> {
+        // Renovar o lease enquanto o job roda; se o processo morrer, o job volta para a fila
+        // Lease perdido (outro processo assumiu o job): a execução daqui para no próximo protocolo
+        const leasePerdido = new AbortController();
+        const renovacao = setInterval(() => {
+            sincronizacaoFilaService.renovarLease(job.id, this.workerId)
+                .then((ativo) => {
+                    if (!ativo && !leasePerdido.signal.aborted) {
+                        logger.warn(`⚠️ [Job ${job.id}] Lease perdido para outro processo. Interrompendo a execução deste processo.`);
+                        leasePerdido.abort();
+                    }
+                })
+                .catch((error: any) => logger.warn(`⚠️ [Job ${job.id}] Erro ao renovar lease: ${error.message}`));
+        }, (sincronizacaoFilaService.LEASE_SEGUNDOS * 1000) / 3);
+
+        try {
+            if (job.tipo === 'worker') {
+                await this.executarWorker(job, leasePerdido.signal);
+                return;
+            }
+
+            if (!job.usuarioId) {
+                await this.falharJob(job.id, 'Job sem usuário da extensão', false);
+                return;
+            }
+
+            if (job.tipo === 'comparecimento') {
+                await this.executarComparecimento(job, job.usuarioId, leasePerdido.signal);
+                return;
+            }
+
+            const userConfig = await this.carregarConfigUsuario(job.usuarioId);
+            if (!userConfig) {
+                await this.falharJob(job.id, 'Usuário da extensão não encontrado', false);
+                return;
+            }
+
+            await this.sincronizacaoService.executarSincronizacao(
+                job.id,
+                job.tokenPat,
+                job.dataInicio,
+                job.dataFim,
+                job.usuarioId, // Sessão WhatsApp específica do usuário
+                userConfig,
+                job.dryRun,
+                leasePerdido.signal
+            );
+        } catch (error: any) {
+            logger.error(`❌ Erro na sincronização ${job.id}: ${error.message}`, error);
+            if (!leasePerdido.signal.aborted) {
+                await this.falharJob(job.id, error.message, true);
+            }
+        } finally {
+            clearInterval(renovacao);
+        }
+    }
+
+    /**
+     * Conferência de comparecimento do escritório: navegador próprio, logado com o token do PAT do job
+     */
+    private async executarComparecimento(job: JobAdquirido, usuarioId: string, interromper: AbortSignal): Promise<void> {
+        try {
+            await puppeteerService.initialize();
+            try {
+                await puppeteerService.login(job.tokenPat);
+            } catch (error: any) {
+                // Token expirado não se resolve sozinho: o próximo cron enfileira de novo
+                await this.falharJob(job.id, `Login no PAT falhou: ${error.message}`, false);
+                return;
+            }
+
+            const page = puppeteerService.getPage();
+            if (!page) {
+                throw new Error('Aba do PAT indisponível após o login');
+            }
+
+            const resumo = await comparecimentoAgendamentosService.processar(usuarioId, page, interromper);
+            if (!interromper.aborted) {
+                const userId = await sincronizacaoFilaService.concluirJob(job.id, resumo);
+                auditLogger.logSync('Conferência de comparecimento concluída', userId, undefined, { jobId: job.id, ...resumo });
+            }
+        } finally {
+            await puppeteerService.close().catch(() => { });
+        }
+    }
+
+    /**
+     * Worker INSS pedido pelo painel admin: o fluxo do cron, com o login do PAT do .env
+     * No dry-run, o relatório do que teria sido feito em cada protocolo fica no resultado do job
+     * Usa a instância do cron: com o worker já em execução, o dry-run não roda e o job falha
      */
-    async obterStatus(jobId: string): Promise<JobStatus | null> {
-        return this.jobs.get(jobId) || null;
+    private async executarWorker(job: JobAdquirido, interromper: AbortSignal): Promise<void> {
+        const protocolos = await inssWorker.runManual({ dryRun: job.dryRun });
+        if (job.dryRun && protocolos === null) {
+            await this.falharJob(job.id, 'Worker INSS já está em execução', false);
+            return;
+        }
+        if (!interromper.aborted) {
+            await sincronizacaoFilaService.concluirJob(job.id, { protocolos: protocolos || [] });
+            logger.info(`✅ [Job ${job.id}] Worker INSS concluído${job.dryRun ? ` (dry-run, ${protocolos?.length || 0} protocolo(s))` : ''}`);
+        }
     }
 
     /**
@@ -204,91 +371,43 @@ export class SincronizacaoInssController {
         */
     }
 
-    /**
-     * Atualiza o progresso de um job
-     */
-    private atualizarProgresso(jobId: string, progress: any): void {
-        const job = this.jobs.get(jobId);
-        if (job) {
-            job.status = 'running';
-            job.progress = progress;
-            this.jobs.set(jobId, job);
-        }
-    }
-
     /**
      * Finaliza um job com sucesso
      */
-    private finalizarJob(jobId: string, resultado: any): void {
-        const job = this.jobs.get(jobId);
-        if (job) {
-            job.status = 'completed';
-            job.resultado = resultado;
-            job.finalizadoEm = new Date();
-            this.jobs.set(jobId, job);
-
-            // Log de auditoria
-            const userId = (job as any).userId;
-            auditLogger.logSync('Sincronização INSS concluída', userId, undefined, {
-                jobId,
-                protocolosProcessados: resultado?.protocolosProcessados || 0,
-                clientesCriados: resultado?.clientesCriados || 0,
-                clientesAtualizados: resultado?.clientesAtualizados || 0,
-                notificacoesEnviadas: resultado?.notificacoesEnviadas || 0,
-                erros: resultado?.erros?.length || 0
-            });
-        }
+    private async finalizarJob(jobId: string, resultado: ResultadoSincronizacao): Promise<void> {
+        const userId = await sincronizacaoFilaService.concluirJob(jobId, resultado);
+
+        // Log de auditoria
+        auditLogger.logSync('Sincronização INSS concluída', userId, undefined, {
+            jobId,
+            protocolosProcessados: resultado?.protocolosProcessados || 0,
+            clientesCriados: resultado?.clientesCriados || 0,
+            clientesAtualizados: resultado?.clientesAtualizados || 0,
+            notificacoesEnviadas: resultado?.notificacoesEnviadas || 0,
+            erros: resultado?.erros?.length || 0
+        });
     }
 
     /**
-     * Marca um job como falho
+     * Marca um job como falho (ou reagenda com backoff se o erro for temporário)
      */
-    private falharJob(jobId: string, erro: string): void {
-        const job = this.jobs.get(jobId);
-        if (job) {
-            job.status = 'failed';
-            job.erro = erro;
-            job.finalizadoEm = new Date();
-            this.jobs.set(jobId, job);
-
-            // Log de auditoria
-            const userId = (job as any).userId;
-            auditLogger.logSync('Sincronização INSS falhou', userId, undefined, {
-                jobId,
-                erro
-            });
-        }
+    private async falharJob(jobId: string, erro: string, retentar: boolean = false): Promise<void> {
+        const { status, usuarioId } = await sincronizacaoFilaService.falharJob(jobId, erro, retentar);
+
+        // Log de auditoria
+        auditLogger.logSync(status === 'pending' ? 'Sincronização INSS reagendada após erro' : 'Sincronização INSS falhou', usuarioId, undefined, {
+            jobId,
+            erro
+        });
     }
 
     /**
-     * Limpa jobs travados (running/pending há mais de 30 minutos)
+     * Marca um job como cancelado (o executor parou após o pedido de cancelamento)
      */
-    private limparJobsTravados(): void {
-        const agora = Date.now();
-        const jobsParaLimpar: string[] = [];
+    private async cancelarJob(jobId: string): Promise<void> {
+        const userId = await sincronizacaoFilaService.marcarCancelado(jobId);
 
-        for (const [jobId, job] of this.jobs.entries()) {
-            if (!job.iniciadoEm) continue;
-
-            const tempoDecorrido = agora - job.iniciadoEm.getTime();
-            const estaTravado = tempoDecorrido > 30 * 60 * 1000; // 30 minutos
-
-            if ((job.status === 'running' || job.status === 'pending') && estaTravado) {
-                jobsParaLimpar.push(jobId);
-                logger.warn(`🧹 Limpando job travado: ${jobId} (${Math.round(tempoDecorrido / 1000 / 60)} minutos)`);
-            }
-        }
-
-        for (const jobId of jobsParaLimpar) {
-            const job = this.jobs.get(jobId);
-            if (job) {
-                job.status = 'failed';
-                job.erro = 'Job travado - timeout após 30 minutos';
-                job.finalizadoEm = new Date();
-                this.jobs.set(jobId, job);
-            }
-        }
+        // Log de auditoria
+        auditLogger.logSync('Sincronização INSS cancelada', userId, undefined, { jobId });
     }
 }
-
-
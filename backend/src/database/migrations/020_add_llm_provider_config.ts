@@ -0,0 +1,42 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 020: Adicionar configuração de provedor de LLM por usuário
+ * Permite escolher entre Gemini, endpoint compatível com OpenAI ou Ollama local
+ */
+export async function addLLMProviderConfig(): Promise<void> {
+    try {
+        logger.info('📦 Migration 020: Adicionando configuração de provedor de LLM...');
+
+        await database.query(`
+            ALTER TABLE usuarios_extensao
+            ADD COLUMN IF NOT EXISTS llm_provider VARCHAR(30),
+            ADD COLUMN IF NOT EXISTS llm_base_url TEXT,
+            ADD COLUMN IF NOT EXISTS llm_model VARCHAR(100),
+            ADD COLUMN IF NOT EXISTS llm_api_key TEXT
+        `);
+
+        // Comentários nas colunas
+        await database.query(`
+            COMMENT ON COLUMN usuarios_extensao.llm_provider IS 'Provedor de LLM: gemini, openai (compatível) ou ollama (vazio = LLM_PROVIDER do .env)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN usuarios_extensao.llm_base_url IS 'URL base do endpoint (ex: http://localhost:11434 para Ollama)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN usuarios_extensao.llm_model IS 'Modelo a ser usado (vazio = padrão do provedor)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN usuarios_extensao.llm_api_key IS 'API key do provedor OpenAI-compatível (Gemini continua em gemini_api_key)'
+        `);
+
+        logger.info('✅ Migration 020 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 020: ${error.message}`, error);
+        throw error;
+    }
+}
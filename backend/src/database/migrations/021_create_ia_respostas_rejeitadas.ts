@@ -0,0 +1,46 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 021: Tabela de respostas da IA rejeitadas na validação de schema
+ * Guarda o texto bruto devolvido pelo provedor para auditoria de classificações erradas
+ */
+export async function createIARespostasRejeitadasTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 021: Criando tabela ia_respostas_rejeitadas...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS ia_respostas_rejeitadas (
+                id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+                protocolo_inss VARCHAR(50) NOT NULL,
+                provedor VARCHAR(30) NOT NULL,
+                tentativa INTEGER NOT NULL DEFAULT 1,
+                resposta_bruta TEXT NOT NULL,
+                erros_validacao JSONB NOT NULL DEFAULT '[]',
+                reparada BOOLEAN DEFAULT false,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_ia_rejeitadas_protocolo ON ia_respostas_rejeitadas(protocolo_inss)
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_ia_rejeitadas_created ON ia_respostas_rejeitadas(created_at DESC)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN ia_respostas_rejeitadas.tentativa IS '1 = resposta original, 2 = resposta ao prompt de reparo'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN ia_respostas_rejeitadas.reparada IS 'Se true, a tentativa seguinte passou na validação'
+        `);
+
+        logger.info('✅ Migration 021 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 021: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,45 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 022: Embeddings e correções humanas no histórico da IA
+ * - embedding/embedding_modelo: vetor do texto bruto para busca de exemplos similares
+ * - *_original: classificação feita pela IA antes da correção da equipe
+ */
+export async function addEmbeddingsIAHistorico(): Promise<void> {
+    try {
+        logger.info('📦 Migration 022: Adicionando embeddings ao histórico da IA...');
+
+        await database.query(`
+            ALTER TABLE exigencias_ia_historico
+            ADD COLUMN IF NOT EXISTS embedding REAL[],
+            ADD COLUMN IF NOT EXISTS embedding_modelo VARCHAR(100),
+            ADD COLUMN IF NOT EXISTS classe_final_original VARCHAR(50),
+            ADD COLUMN IF NOT EXISTS motivo_ia_original TEXT
+        `);
+
+        // Exemplos elegíveis para few-shot: confirmados por alguém da equipe
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_exigencias_ia_revisados
+            ON exigencias_ia_historico(embedding_modelo, validado_em DESC)
+            WHERE validado = true AND validado_por IS NOT NULL
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN exigencias_ia_historico.embedding IS 'Vetor do texto_bruto (gerado sob demanda para análises revisadas)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN exigencias_ia_historico.embedding_modelo IS 'Modelo que gerou o embedding (ex: gemini:text-embedding-004)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN exigencias_ia_historico.classe_final_original IS 'Classe retornada pela IA antes da correção manual'
+        `);
+
+        logger.info('✅ Migration 022 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 022: ${error.message}`, error);
+        throw error;
+    }
+}
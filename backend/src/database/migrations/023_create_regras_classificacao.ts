@@ -0,0 +1,81 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 023: Regras declarativas de classificação de despachos do INSS
+ * Avaliadas antes do LLM (utils/motorRegras.ts); editáveis por administradores
+ */
+export async function createRegrasClassificacaoTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 023: Criando tabela regras_classificacao...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS regras_classificacao (
+                id SERIAL PRIMARY KEY,
+                nome VARCHAR(100) NOT NULL UNIQUE,
+                descricao TEXT,
+                classe_final VARCHAR(30) NOT NULL CHECK (classe_final IN (
+                    'DEFERIDO', 'INDEFERIDO', 'EXIGENCIA', 'PERICIA', 'RECURSO',
+                    'CANCELADO', 'EM_ANALISE', 'PENDENTE', 'DUPLICADO'
+                )),
+                prioridade INTEGER NOT NULL DEFAULT 0,
+                confianca DECIMAL(3,2) NOT NULL DEFAULT 0.90 CHECK (confianca >= 0 AND confianca <= 1),
+                escopo VARCHAR(20) NOT NULL DEFAULT 'ultimo_card' CHECK (escopo IN ('ultimo_card', 'todos_cards')),
+                padroes_todos TEXT[] NOT NULL DEFAULT '{}',
+                padroes_qualquer TEXT[] NOT NULL DEFAULT '{}',
+                padroes_excluir TEXT[] NOT NULL DEFAULT '{}',
+                motivo TEXT,
+                documentos TEXT[],
+                prazo_dias_padrao INTEGER,
+                tipo_indeferimento VARCHAR(10) CHECK (tipo_indeferimento IN ('CULPA', 'MERITO', 'AUTO')),
+                ativo BOOLEAN NOT NULL DEFAULT true,
+                atualizado_por UUID REFERENCES usuarios(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_regras_classificacao_ativo ON regras_classificacao(ativo, prioridade DESC)
+        `);
+
+        // Regras iniciais: casos inequívocos que hoje vão para o LLM
+        await database.query(`
+            INSERT INTO regras_classificacao
+                (nome, descricao, classe_final, prioridade, confianca, escopo, padroes_todos, padroes_qualquer, padroes_excluir, motivo, prazo_dias_padrao, tipo_indeferimento)
+            VALUES
+                ('Processo duplicado', 'Requerimento já existente', 'DUPLICADO', 100, 0.99, 'todos_cards',
+                    '{}', ARRAY['ja existe requerimento', 'processo duplicado', 'duplicidade'], '{}',
+                    'Processo Duplicado, consultar número correto', NULL, NULL),
+                ('Cancelado/excluído', 'Requerimento cancelado ou excluído', 'CANCELADO', 90, 0.95, 'ultimo_card',
+                    '{}', ARRAY['requerimento cancelado', 'tarefa cancelada', 'cancelamento do requerimento', 'exclusao do requerimento'], '{}',
+                    NULL, NULL, NULL),
+                ('Indeferido', 'Despacho de indeferimento; tipo calculado por palavras-chave', 'INDEFERIDO', 80, 0.95, 'ultimo_card',
+                    '{}', ARRAY['indeferido', 'indeferimento'], ARRAY['recurso'],
+                    NULL, NULL, 'AUTO'),
+                ('Deferido/concedido', 'Benefício concedido', 'DEFERIDO', 70, 0.95, 'ultimo_card',
+                    '{}', ARRAY['deferido', 'beneficio concedido', 'concessao do beneficio'], ARRAY['indeferido', 'indeferimento'],
+                    'Requerimento deferido. Benefício concedido.', NULL, NULL),
+                ('Perícia/avaliação agendada', 'Agendamento de perícia médica ou avaliação social', 'PERICIA', 60, 0.92, 'ultimo_card',
+                    '{}', ARRAY['pericia agendada', 'avaliacao social agendada', 'pericia medica agendada', 'agendamento de pericia'], '{}',
+                    NULL, NULL, NULL),
+                ('Exigência com prazo', 'Carta de exigência com documentos e prazo', 'EXIGENCIA', 50, 0.92, 'ultimo_card',
+                    ARRAY['exigencia'], ARRAY['prazo', 'apresentar', 'documentos'], ARRAY['exigencia cumprida', 'cumprimento de exigencia'],
+                    NULL, 30, NULL)
+            ON CONFLICT (nome) DO NOTHING
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN regras_classificacao.padroes_todos IS 'Todos devem aparecer (texto sem acento, início de palavra; /regex/ para expressão regular)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN regras_classificacao.confianca IS 'Abaixo de REGRAS_CONFIANCA_MINIMA a regra não evita a chamada ao LLM'
+        `);
+
+        logger.info('✅ Migration 023 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 023: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,92 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 024: Fila durável de sincronização INSS
+ * Jobs e protocolos ficam no banco: sobrevivem a reinícios, permitem retomar do
+ * último protocolo e garantem uma única sessão de navegador por conta do PAT
+ */
+export async function createSincronizacaoJobsTables(): Promise<void> {
+    try {
+        logger.info('📦 Migration 024: Criando tabelas sincronizacao_jobs e sincronizacao_itens...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS sincronizacao_jobs (
+                id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+                usuario_id UUID REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                conta_pat VARCHAR(100) NOT NULL,
+                token_pat TEXT NOT NULL,
+                status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+                    'pending', 'running', 'completed', 'failed', 'cancelled'
+                )),
+                data_inicio TIMESTAMP NOT NULL,
+                data_fim TIMESTAMP NOT NULL,
+                forcar_execucao BOOLEAN NOT NULL DEFAULT false,
+                tentativas INTEGER NOT NULL DEFAULT 0,
+                max_tentativas INTEGER NOT NULL DEFAULT 3,
+                proxima_tentativa_em TIMESTAMP,
+                lease_dono VARCHAR(100),
+                lease_ate TIMESTAMP,
+                cancelamento_solicitado BOOLEAN NOT NULL DEFAULT false,
+                progresso JSONB,
+                resultado JSONB,
+                erro TEXT,
+                iniciado_em TIMESTAMP,
+                finalizado_em TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_sincronizacao_jobs_fila ON sincronizacao_jobs(status, proxima_tentativa_em, created_at)
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_sincronizacao_jobs_usuario ON sincronizacao_jobs(usuario_id, created_at DESC)
+        `);
+
+        // Uma sessão de navegador por conta do PAT: no máximo um job rodando por conta
+        await database.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_sincronizacao_jobs_conta_running
+            ON sincronizacao_jobs(conta_pat) WHERE status = 'running'
+        `);
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS sincronizacao_itens (
+                id SERIAL PRIMARY KEY,
+                job_id UUID NOT NULL REFERENCES sincronizacao_jobs(id) ON DELETE CASCADE,
+                protocolo VARCHAR(50) NOT NULL,
+                ordem INTEGER NOT NULL,
+                status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+                    'pending', 'running', 'done', 'skipped', 'failed'
+                )),
+                tentativas INTEGER NOT NULL DEFAULT 0,
+                proxima_tentativa_em TIMESTAMP,
+                ultimo_erro TEXT,
+                resultado JSONB,
+                processado_em TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (job_id, protocolo)
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_sincronizacao_itens_job ON sincronizacao_itens(job_id, status, ordem)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.conta_pat IS 'Conta do PAT que usa o navegador (hoje o usuário da extensão)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.lease_ate IS 'Job running com lease vencido é considerado órfão e volta para pending'
+        `);
+
+        logger.info('✅ Migration 024 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 024: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,50 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 025: Registro de efeitos da sincronização INSS
+ * Cada efeito colateral (nota, etiquetas, atividade, WhatsApp, comprovante) fica registrado
+ * por protocolo e hash do estado do card no INSS. Reprocessar o mesmo estado não repete efeitos.
+ */
+export async function createSincronizacaoEfeitosTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 025: Criando tabela sincronizacao_efeitos...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS sincronizacao_efeitos (
+                id SERIAL PRIMARY KEY,
+                protocolo VARCHAR(50) NOT NULL,
+                hash_card VARCHAR(64) NOT NULL,
+                tipo VARCHAR(30) NOT NULL CHECK (tipo IN (
+                    'nota', 'etiquetas', 'atividade', 'whatsapp', 'comprovante', 'protocolo_processado'
+                )),
+                chave VARCHAR(255) NOT NULL DEFAULT '',
+                referencia TEXT,
+                job_id UUID REFERENCES sincronizacao_jobs(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (protocolo, hash_card, tipo, chave)
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_sincronizacao_efeitos_protocolo ON sincronizacao_efeitos(protocolo, created_at DESC)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_efeitos.hash_card IS 'SHA-256 do status e dos últimos cards do protocolo no momento do efeito'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_efeitos.chave IS 'Diferencia efeitos do mesmo tipo no protocolo (ex.: tipo e data do agendamento, destinatário)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_efeitos.referencia IS 'Identificador do efeito no destino (ID da nota/atividade, ID do documento do comprovante)'
+        `);
+
+        logger.info('✅ Migration 025 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 025: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,26 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 026: Modo dry-run na fila de sincronização INSS
+ * Jobs em dry-run processam os protocolos sem escrever no Tramitação, WhatsApp ou Backblaze
+ */
+export async function addSincronizacaoDryRun(): Promise<void> {
+    try {
+        logger.info('📦 Migration 026: Adicionando dry_run em sincronizacao_jobs...');
+
+        await database.query(`
+            ALTER TABLE sincronizacao_jobs
+            ADD COLUMN IF NOT EXISTS dry_run BOOLEAN NOT NULL DEFAULT false
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.dry_run IS 'Simulação: efeitos externos só são registrados no resultado (resultado.simulacao)'
+        `);
+
+        logger.info('✅ Migration 026 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 026: ${error.message}`, error);
+        throw error;
+    }
+}
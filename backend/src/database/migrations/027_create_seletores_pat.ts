@@ -0,0 +1,45 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 027: Seletores do PAT
+ * Estratégias de seletor por campo lógico (substituem os padrões do código sem redeploy)
+ * e o estado de drift: qual estratégia funcionou por último e quando a principal falhou.
+ */
+export async function createSeletoresPatTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 027: Criando tabela seletores_pat...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS seletores_pat (
+                id SERIAL PRIMARY KEY,
+                campo VARCHAR(100) UNIQUE NOT NULL,
+                estrategias JSONB,
+                ultima_estrategia INTEGER,
+                ultimo_match_em TIMESTAMP,
+                primario_falhou_em TIMESTAMP,
+                alertado_em TIMESTAMP,
+                atualizado_por UUID REFERENCES usuarios(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN seletores_pat.estrategias IS 'Lista ordenada de estratégias (xpath, css, texto, aria); NULL = padrões do código'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN seletores_pat.ultima_estrategia IS 'Índice da última estratégia que encontrou o elemento (-1 = nenhuma)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN seletores_pat.primario_falhou_em IS 'Quando a estratégia principal parou de encontrar o elemento (NULL = funcionando)'
+        `);
+
+        logger.info('✅ Migration 027 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 027: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,152 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 028: Outbox de mensagens WhatsApp
+ * Todos os produtores (sincronização, lembretes, alertas) enfileiram aqui; um worker envia,
+ * retenta com backoff, respeita o intervalo por número e acompanha os acks do whatsapp-web.js.
+ * A antiga tabela notificacoes_whatsapp vira notificacoes_whatsapp_legado (linhas copiadas para
+ * o outbox) e o nome passa a ser uma view sobre o outbox.
+ */
+export async function createWhatsAppOutboxTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 028: Criando tabela whatsapp_outbox...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS whatsapp_outbox (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID REFERENCES usuarios_extensao(id) ON DELETE SET NULL,
+                origem VARCHAR(30) NOT NULL DEFAULT 'sistema',
+                tipo VARCHAR(50) NOT NULL,
+                processo_id UUID REFERENCES processos(id) ON DELETE SET NULL,
+                exigencia_id UUID REFERENCES exigencias(id) ON DELETE SET NULL,
+                parceiro_id INTEGER,
+                cidade VARCHAR(100),
+                telefone_destino VARCHAR(20) NOT NULL,
+                mensagem TEXT NOT NULL,
+                status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+                    'pending', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled'
+                )),
+                tentativas INTEGER NOT NULL DEFAULT 0,
+                max_tentativas INTEGER NOT NULL DEFAULT 5,
+                proxima_tentativa_em TIMESTAMP,
+                lease_dono VARCHAR(100),
+                lease_ate TIMESTAMP,
+                whatsapp_mensagem_id VARCHAR(200),
+                ack INTEGER,
+                ultimo_erro TEXT,
+                enviada_em TIMESTAMP,
+                entregue_em TIMESTAMP,
+                lida_em TIMESTAMP,
+                resposta TEXT,
+                confirmacao_recebida BOOLEAN NOT NULL DEFAULT false,
+                data_confirmacao TIMESTAMP,
+                lembretes_enviados INTEGER NOT NULL DEFAULT 0,
+                ultimo_lembrete TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_fila ON whatsapp_outbox(status, proxima_tentativa_em, created_at)
+        `);
+
+        // Intervalo mínimo por número: última mensagem enviada para o telefone
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_whatsapp_outbox_telefone ON whatsapp_outbox(telefone_destino, enviada_em DESC)
+        `);
+
+        await database.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_outbox_mensagem_id
+            ON whatsapp_outbox(whatsapp_mensagem_id) WHERE whatsapp_mensagem_id IS NOT NULL
+        `);
+
+        // Tabela antiga (migrations SQL 011/015): copiar as linhas e liberar o nome para a view
+        const legado = await database.query(`
+            SELECT 1 FROM information_schema.tables
+            WHERE table_schema = current_schema() AND table_name = 'notificacoes_whatsapp' AND table_type = 'BASE TABLE'
+        `);
+
+        if (legado.length > 0) {
+            logger.info('   Copiando notificacoes_whatsapp para o outbox...');
+
+            // Não enviadas não voltam para a fila: eram do N8N e podem estar desatualizadas
+            await database.query(`
+                INSERT INTO whatsapp_outbox (
+                    id, origem, tipo, processo_id, exigencia_id, parceiro_id, cidade, telefone_destino, mensagem,
+                    status, tentativas, ultimo_erro, enviada_em, resposta, confirmacao_recebida, data_confirmacao,
+                    created_at, updated_at
+                )
+                SELECT
+                    id, 'legado', tipo, processo_id, exigencia_id, parceiro_id, cidade, telefone_destino, mensagem,
+                    CASE WHEN enviada THEN 'sent' ELSE 'cancelled' END,
+                    COALESCE(tentativas, 0),
+                    CASE WHEN enviada THEN erro ELSE COALESCE(erro, 'Migrada de notificacoes_whatsapp sem envio') END,
+                    data_envio, resposta, COALESCE(confirmacao_recebida, false), data_confirmacao,
+                    created_at, updated_at
+                FROM notificacoes_whatsapp
+                ON CONFLICT (id) DO NOTHING
+            `);
+
+            await database.query(`
+                SELECT setval(pg_get_serial_sequence('whatsapp_outbox', 'id'), GREATEST((SELECT MAX(id) FROM whatsapp_outbox), 1))
+            `);
+
+            await database.query('DROP VIEW IF EXISTS v_notificacoes_pendentes');
+            await database.query('ALTER TABLE notificacoes_whatsapp RENAME TO notificacoes_whatsapp_legado');
+        }
+
+        // Nome antigo continua legível (exigencias.routes, relatórios) com as colunas de antes
+        await database.query(`
+            CREATE OR REPLACE VIEW notificacoes_whatsapp AS
+            SELECT
+                id, processo_id, exigencia_id, parceiro_id, tipo, telefone_destino, cidade, mensagem,
+                status IN ('sent', 'delivered', 'read') AS enviada,
+                enviada_em AS data_envio,
+                resposta, confirmacao_recebida, data_confirmacao, tentativas,
+                ultimo_erro AS erro,
+                lembretes_enviados, ultimo_lembrete,
+                status, ack, usuario_id, origem,
+                created_at, updated_at
+            FROM whatsapp_outbox
+        `);
+
+        await database.query(`
+            CREATE OR REPLACE VIEW v_notificacoes_pendentes AS
+            SELECT
+                o.id,
+                o.tipo,
+                o.telefone_destino,
+                o.cidade,
+                o.mensagem,
+                o.tentativas,
+                o.status,
+                o.proxima_tentativa_em,
+                p.protocolo_inss,
+                p.nome_segurado,
+                p.cpf_segurado,
+                e.prazo AS prazo_exigencia,
+                e.resumo_exigencia,
+                o.created_at
+            FROM whatsapp_outbox o
+            LEFT JOIN processos p ON p.id = o.processo_id
+            LEFT JOIN exigencias e ON e.id = o.exigencia_id
+            WHERE o.status IN ('pending', 'sending')
+            ORDER BY o.created_at ASC
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN whatsapp_outbox.usuario_id IS 'Sessão WhatsApp que envia (escritório); NULL = sessão central'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN whatsapp_outbox.ack IS 'Último ack do whatsapp-web.js: -1 erro, 1 servidor, 2 entregue, 3 lida, 4 reproduzida'
+        `);
+
+        logger.info('✅ Migration 028 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 028: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,85 @@
+import database from '../index';
+import logger from '../../utils/logger';
+import { createTarefasTable, createDocumentosTable } from './002_add_workflow_tables';
+
+/**
+ * Migration 029: Mensagens WhatsApp recebidas
+ * Respostas dos clientes/parceiros às notificações: confirmações por palavra-chave e documentos
+ * enviados como anexo (viram documentos + tarefa ANEXAR_DOCUMENTO). Cada mensagem é tratada uma vez.
+ */
+export async function createWhatsAppMensagensRecebidasTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 029: Criando tabela whatsapp_mensagens_recebidas...');
+
+        // Anexos recebidos viram documentos e tarefas (tabelas da migration 002)
+        await createTarefasTable();
+        await createDocumentosTable();
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS whatsapp_mensagens_recebidas (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID REFERENCES usuarios_extensao(id) ON DELETE SET NULL,
+                whatsapp_mensagem_id VARCHAR(200) NOT NULL UNIQUE,
+                telefone_origem VARCHAR(20) NOT NULL,
+                texto TEXT,
+                tem_midia BOOLEAN NOT NULL DEFAULT false,
+                mimetype VARCHAR(100),
+                notificacao_id INTEGER REFERENCES whatsapp_outbox(id) ON DELETE SET NULL,
+                processo_id UUID REFERENCES processos(id) ON DELETE SET NULL,
+                exigencia_id UUID REFERENCES exigencias(id) ON DELETE SET NULL,
+                documento_id UUID REFERENCES documentos(id) ON DELETE SET NULL,
+                tarefa_id UUID REFERENCES tarefas(id) ON DELETE SET NULL,
+                acao VARCHAR(20) CHECK (acao IN ('CONFIRMACAO', 'DOCUMENTO', 'RESPOSTA', 'SEM_VINCULO', 'ERRO')),
+                erro TEXT,
+                recebida_em TIMESTAMP NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_whatsapp_recebidas_telefone ON whatsapp_mensagens_recebidas(telefone_origem, recebida_em DESC)
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_whatsapp_recebidas_processo ON whatsapp_mensagens_recebidas(processo_id)
+        `);
+
+        // Confirmação de documentos é uma linha por exigência (ON CONFLICT (exigencia_id) em WhatsAppOutboxService)
+        const confirmacoes = await database.query(`SELECT to_regclass('confirmacoes_documentos') AS tabela`);
+        if (confirmacoes[0]?.tabela) {
+            await database.query(`
+                DELETE FROM confirmacoes_documentos c
+                USING confirmacoes_documentos mais_recente
+                WHERE c.exigencia_id = mais_recente.exigencia_id AND c.id < mais_recente.id
+            `);
+
+            await database.query(`
+                CREATE UNIQUE INDEX IF NOT EXISTS idx_confirmacoes_documentos_exigencia ON confirmacoes_documentos(exigencia_id)
+            `);
+        } else {
+            await database.query(`
+                CREATE TABLE IF NOT EXISTS confirmacoes_documentos (
+                    id SERIAL PRIMARY KEY,
+                    exigencia_id UUID UNIQUE REFERENCES exigencias(id) ON DELETE CASCADE,
+                    parceiro_enviou BOOLEAN DEFAULT false,
+                    data_envio_parceiro TIMESTAMP,
+                    documentos_recebidos BOOLEAN DEFAULT false,
+                    data_recebimento TIMESTAMP,
+                    verificado_por_id UUID REFERENCES usuarios(id),
+                    data_verificacao TIMESTAMP,
+                    observacao TEXT,
+                    created_at TIMESTAMP DEFAULT NOW()
+                )
+            `);
+        }
+
+        await database.query(`
+            COMMENT ON COLUMN whatsapp_mensagens_recebidas.acao IS 'CONFIRMACAO (palavra-chave), DOCUMENTO (anexo salvo), RESPOSTA (texto livre), SEM_VINCULO (telefone sem notificação), ERRO'
+        `);
+
+        logger.info('✅ Migration 029 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 029: ${error.message}`, error);
+        throw error;
+    }
+}
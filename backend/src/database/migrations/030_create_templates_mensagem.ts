@@ -0,0 +1,35 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 030: Templates de mensagens por escritório
+ * Substituem, por evento, os textos padrão de WhatsApp e notas do Tramitação (utils/templatesMensagem.ts).
+ * Sem linha para o evento, vale o padrão do código.
+ */
+export async function createTemplatesMensagemTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 030: Criando tabela templates_mensagem...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS templates_mensagem (
+                id SERIAL PRIMARY KEY,
+                user_id UUID NOT NULL REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                evento VARCHAR(60) NOT NULL,
+                titulo TEXT,
+                conteudo TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (user_id, evento)
+            )
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN templates_mensagem.titulo IS 'Título da nota do Tramitação (eventos NOTA_*); NULL = título padrão'
+        `);
+
+        logger.info('✅ Migration 030 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 030: ${error.message}`, error);
+        throw error;
+    }
+}
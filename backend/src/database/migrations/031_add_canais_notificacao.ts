@@ -0,0 +1,48 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 031: Canais de notificação (WhatsApp, e-mail, SMS)
+ * Canal preferido por parceiro (parceiros_config) e por cliente (contatos_clientes, chave = CPF).
+ * Cliente sem linha em contatos_clientes não recebe notificações diretas.
+ */
+export async function addCanaisNotificacao(): Promise<void> {
+    try {
+        logger.info('📦 Migration 031: Adicionando canais de notificação...');
+
+        await database.query(`
+            ALTER TABLE parceiros_config
+            ADD COLUMN IF NOT EXISTS canal_preferido VARCHAR(10) NOT NULL DEFAULT 'whatsapp'
+                CHECK (canal_preferido IN ('whatsapp', 'email', 'sms'))
+        `);
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS contatos_clientes (
+                id SERIAL PRIMARY KEY,
+                cpf VARCHAR(11) NOT NULL UNIQUE,
+                nome VARCHAR(255),
+                canal_preferido VARCHAR(10) NOT NULL DEFAULT 'whatsapp'
+                    CHECK (canal_preferido IN ('whatsapp', 'email', 'sms')),
+                telefone VARCHAR(20),
+                email VARCHAR(255),
+                ativo BOOLEAN NOT NULL DEFAULT true,
+                observacoes TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN parceiros_config.canal_preferido IS 'whatsapp, email ou sms; sem o contato/canal configurado, cai para WhatsApp'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN contatos_clientes.cpf IS 'CPF do segurado, só dígitos (processos.cpf_segurado)'
+        `);
+
+        logger.info('✅ Migration 031 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 031: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,104 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 032: Políticas de lembrete e registro de lembretes enviados
+ * politicas_lembrete substitui os padrões do código (utils/politicasLembrete.ts) por evento e benefício.
+ * lembretes_enviados registra cada etapa (D-30, D-7, D-1...) por exigência/agendamento e data do evento,
+ * no lugar de agendamentos.ultimo_lembrete_30d/7d e exigencias.ultimo_lembrete_enviado (migrados e removidos).
+ */
+export async function createPoliticasLembreteTables(): Promise<void> {
+    try {
+        logger.info('📦 Migration 032: Criando tabelas politicas_lembrete e lembretes_enviados...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS politicas_lembrete (
+                id SERIAL PRIMARY KEY,
+                evento VARCHAR(30) NOT NULL CHECK (evento IN ('EXIGENCIA', 'PERICIA', 'AVALIACAO_SOCIAL')),
+                tipo_beneficio VARCHAR(50) NOT NULL DEFAULT '*',
+                etapas JSONB NOT NULL,
+                fim_de_semana VARCHAR(10) CHECK (fim_de_semana IN ('enviar', 'antecipar', 'adiar')),
+                horario_inicio VARCHAR(5),
+                horario_fim VARCHAR(5),
+                atualizado_por UUID REFERENCES usuarios(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (evento, tipo_beneficio)
+            )
+        `);
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS lembretes_enviados (
+                id SERIAL PRIMARY KEY,
+                evento VARCHAR(30) NOT NULL,
+                entidade_id UUID NOT NULL,
+                data_referencia DATE NOT NULL,
+                dias_antes INTEGER NOT NULL,
+                status VARCHAR(10) NOT NULL DEFAULT 'ENVIADO' CHECK (status IN ('ENVIADO', 'PULADO')),
+                destinatarios INTEGER NOT NULL DEFAULT 0,
+                motivo TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (evento, entidade_id, data_referencia, dias_antes)
+            )
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN politicas_lembrete.tipo_beneficio IS 'processos.tipo_beneficio ou * (todos os benefícios do evento)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN politicas_lembrete.etapas IS 'Lista de { dias, template? }: dias antes da data do evento (0 = no dia)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN lembretes_enviados.data_referencia IS 'Prazo da exigência ou data do agendamento; remarcação gera novas etapas'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN lembretes_enviados.status IS 'ENVIADO ou PULADO (exigência cumprida, agendamento cancelado, etapa atrasada)'
+        `);
+
+        // Migrar o histórico das colunas antigas e removê-las
+        const colunas = await database.query(`
+            SELECT table_name, column_name
+            FROM information_schema.columns
+            WHERE (table_name = 'agendamentos' AND column_name IN ('ultimo_lembrete_30d', 'ultimo_lembrete_7d'))
+               OR (table_name = 'exigencias' AND column_name = 'ultimo_lembrete_enviado')
+        `);
+        const existe = (tabela: string, coluna: string) =>
+            colunas.some((c: any) => c.table_name === tabela && c.column_name === coluna);
+
+        for (const dias of [30, 7]) {
+            const coluna = `ultimo_lembrete_${dias}d`;
+            if (!existe('agendamentos', coluna)) continue;
+
+            await database.query(`
+                INSERT INTO lembretes_enviados (evento, entidade_id, data_referencia, dias_antes, created_at)
+                SELECT tipo, id, data_agendamento, ${dias}, ${coluna}
+                FROM agendamentos
+                WHERE ${coluna} IS NOT NULL
+                ON CONFLICT DO NOTHING
+            `);
+            await database.query(`DROP INDEX IF EXISTS idx_agendamentos_lembrete_${dias}d`);
+            await database.query(`ALTER TABLE agendamentos DROP COLUMN ${coluna}`);
+        }
+
+        if (existe('exigencias', 'ultimo_lembrete_enviado')) {
+            // O lembrete antigo saía todo dia nos 7 dias antes do prazo: vale como a etapa do dia em que saiu
+            await database.query(`
+                INSERT INTO lembretes_enviados (evento, entidade_id, data_referencia, dias_antes, created_at)
+                SELECT 'EXIGENCIA', id, prazo, GREATEST(prazo - ultimo_lembrete_enviado::date, 0), ultimo_lembrete_enviado
+                FROM exigencias
+                WHERE ultimo_lembrete_enviado IS NOT NULL
+                ON CONFLICT DO NOTHING
+            `);
+            await database.query('DROP INDEX IF EXISTS idx_exigencias_lembrete');
+            await database.query('ALTER TABLE exigencias DROP COLUMN ultimo_lembrete_enviado');
+        }
+
+        logger.info('✅ Migration 032 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 032: ${error.message}`, error);
+        throw error;
+    }
+}
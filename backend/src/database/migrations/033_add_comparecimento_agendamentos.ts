@@ -0,0 +1,51 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 033: Acompanhamento do comparecimento a perícias e avaliações sociais
+ * Depois da data, o agendamento é conferido no PAT e vira CUMPRIDO ou NAO_COMPARECEU;
+ * a falta gera tarefa URGENTE de remarcação (tarefa_remarcacao_id).
+ */
+export async function addComparecimentoAgendamentos(): Promise<void> {
+    try {
+        logger.info('📦 Migration 033: Adicionando acompanhamento de comparecimento aos agendamentos...');
+
+        const tabela = await database.query(`SELECT to_regclass('public.agendamentos') AS existe`);
+        if (!tabela[0]?.existe) {
+            logger.warn('⚠️ Migration 033: tabela agendamentos não existe (migrations/017_sistema_agendamentos_pericia_avaliacao.sql), pulando');
+            return;
+        }
+
+        await database.query('ALTER TABLE agendamentos DROP CONSTRAINT IF EXISTS agendamentos_status_check');
+        await database.query(`
+            ALTER TABLE agendamentos
+            ADD CONSTRAINT agendamentos_status_check
+                CHECK (status IN ('AGENDADO', 'REMARCADO', 'CANCELADO', 'CUMPRIDO', 'NAO_COMPARECEU'))
+        `);
+
+        await database.query(`
+            ALTER TABLE agendamentos
+            ADD COLUMN IF NOT EXISTS comparecimento_verificado_em TIMESTAMP,
+            ADD COLUMN IF NOT EXISTS comparecimento_tentativas INTEGER NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS tarefa_remarcacao_id UUID
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_agendamentos_comparecimento ON agendamentos(data_agendamento, comparecimento_verificado_em)
+                WHERE status = 'AGENDADO'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN agendamentos.comparecimento_verificado_em IS 'Última conferência do comparecimento no PAT (depois da data do agendamento)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN agendamentos.tarefa_remarcacao_id IS 'Tarefa URGENTE de remarcação criada quando o segurado não compareceu'
+        `);
+
+        logger.info('✅ Migration 033 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 033: ${error.message}`, error);
+        throw error;
+    }
+}
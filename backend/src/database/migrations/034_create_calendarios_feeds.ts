@@ -0,0 +1,63 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 034: Feeds de calendário (iCalendar)
+ * calendarios_feeds guarda o token secreto da URL de cada feed: do escritório (parceiro_id NULL)
+ * ou de um parceiro do escritório. processos passa a registrar o escritório que sincronizou
+ * o protocolo e o parceiro identificado pelas etiquetas (PARCEIRO:NOME) do Tramitação.
+ */
+export async function createCalendariosFeedsTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 034: Criando tabela calendarios_feeds...');
+
+        await database.query(`
+            ALTER TABLE processos
+            ADD COLUMN IF NOT EXISTS usuario_extensao_id UUID REFERENCES usuarios_extensao(id) ON DELETE SET NULL,
+            ADD COLUMN IF NOT EXISTS parceiro_id INTEGER REFERENCES parceiros_config(id) ON DELETE SET NULL
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_processos_usuario_extensao ON processos(usuario_extensao_id)
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_processos_parceiro ON processos(parceiro_id)
+        `);
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS calendarios_feeds (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID NOT NULL REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                parceiro_id INTEGER REFERENCES parceiros_config(id) ON DELETE CASCADE,
+                token VARCHAR(64) NOT NULL UNIQUE,
+                descricao VARCHAR(255),
+                ativo BOOLEAN NOT NULL DEFAULT true,
+                ultimo_acesso_em TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_calendarios_feeds_usuario ON calendarios_feeds(usuario_id)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN calendarios_feeds.token IS 'Segredo da URL do feed (/api/v1/calendarios/<token>.ics); revogar = ativo false'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN calendarios_feeds.parceiro_id IS 'NULL = feed do escritório; preenchido = só os processos do parceiro'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN processos.parceiro_id IS 'Parceiro identificado pela etiqueta PARCEIRO:NOME na última sincronização'
+        `);
+
+        logger.info('✅ Migration 034 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 034: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,71 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 035: Saúde das sessões WhatsApp
+ * whatsapp_sessoes_eventos guarda o histórico de conexões, quedas, logouts e falhas de envio de
+ * cada sessão. O outbox ganha o status 'paused': mensagens da sessão fora do ar esperam a
+ * reconexão sem gastar tentativas e são reenviadas quando ela volta.
+ */
+export async function createWhatsAppSaudeTables(): Promise<void> {
+    try {
+        logger.info('📦 Migration 035: Criando tabela whatsapp_sessoes_eventos...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS whatsapp_sessoes_eventos (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                tipo VARCHAR(30) NOT NULL,
+                detalhe TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_whatsapp_sessoes_eventos_usuario
+            ON whatsapp_sessoes_eventos(usuario_id, created_at DESC)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN whatsapp_sessoes_eventos.usuario_id IS 'Sessão do escritório; NULL = sessão legada (.wwebjs_auth/session)'
+        `);
+
+        await database.query('ALTER TABLE whatsapp_outbox DROP CONSTRAINT IF EXISTS whatsapp_outbox_status_check');
+        await database.query(`
+            ALTER TABLE whatsapp_outbox
+            ADD CONSTRAINT whatsapp_outbox_status_check CHECK (status IN (
+                'pending', 'paused', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled'
+            ))
+        `);
+
+        // Pausadas continuam pendentes de envio
+        await database.query(`
+            CREATE OR REPLACE VIEW v_notificacoes_pendentes AS
+            SELECT
+                o.id,
+                o.tipo,
+                o.telefone_destino,
+                o.cidade,
+                o.mensagem,
+                o.tentativas,
+                o.status,
+                o.proxima_tentativa_em,
+                p.protocolo_inss,
+                p.nome_segurado,
+                p.cpf_segurado,
+                e.prazo AS prazo_exigencia,
+                e.resumo_exigencia,
+                o.created_at
+            FROM whatsapp_outbox o
+            LEFT JOIN processos p ON p.id = o.processo_id
+            LEFT JOIN exigencias e ON e.id = o.exigencia_id
+            WHERE o.status IN ('pending', 'paused', 'sending')
+            ORDER BY o.created_at ASC
+        `);
+
+        logger.info('✅ Migration 035 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 035: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,52 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 036: Portal do parceiro
+ * portal_parceiros_links guarda os links mágicos de acesso (só o hash do token, uso único).
+ * documentos.enviado_por_parceiro_id marca os documentos enviados pelo parceiro no portal.
+ */
+export async function createPortalParceirosTables(): Promise<void> {
+    try {
+        logger.info('📦 Migration 036: Criando tabela portal_parceiros_links...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS portal_parceiros_links (
+                id SERIAL PRIMARY KEY,
+                parceiro_id INTEGER NOT NULL REFERENCES parceiros_config(id) ON DELETE CASCADE,
+                token_hash VARCHAR(64) NOT NULL UNIQUE,
+                canal VARCHAR(10) NOT NULL,
+                destino VARCHAR(255) NOT NULL,
+                expira_em TIMESTAMP NOT NULL,
+                usado_em TIMESTAMP,
+                ip VARCHAR(45),
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_portal_parceiros_links_parceiro
+            ON portal_parceiros_links(parceiro_id, created_at DESC)
+        `);
+
+        await database.query(`
+            ALTER TABLE parceiros_config
+            ADD COLUMN IF NOT EXISTS portal_ultimo_acesso_em TIMESTAMP
+        `);
+
+        await database.query(`
+            ALTER TABLE documentos
+            ADD COLUMN IF NOT EXISTS enviado_por_parceiro_id INTEGER REFERENCES parceiros_config(id) ON DELETE SET NULL
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN parceiros_config.incluir_link_processo IS
+            'Se true, inclui na mensagem o link do processo no portal do parceiro'
+        `);
+
+        logger.info('✅ Migration 036 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 036: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,89 @@
+import database from '../index';
+import logger from '../../utils/logger';
+import cofreCredenciaisService, { NOMES_CREDENCIAIS } from '../../services/CofreCredenciaisService';
+
+/**
+ * Migration 037: Cofre de credenciais
+ * credenciais_cofre guarda os segredos dos escritórios cifrados em envelope (ver CofreCredenciaisService)
+ * e credenciais_cofre_acessos registra quem leu ou alterou cada um. Os valores em texto puro de
+ * usuarios_extensao vão para o cofre e as colunas ficam vazias; o token do PAT da fila é cifrado.
+ */
+export async function createCredenciaisCofreTables(): Promise<void> {
+    try {
+        logger.info('📦 Migration 037: Criando tabelas credenciais_cofre e credenciais_cofre_acessos...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS credenciais_cofre (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID NOT NULL REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                nome VARCHAR(50) NOT NULL,
+                chave_mestra_id VARCHAR(16) NOT NULL,
+                chave_dados_cifrada TEXT NOT NULL,
+                valor_cifrado TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (usuario_id, nome)
+            )
+        `);
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS credenciais_cofre_acessos (
+                id SERIAL PRIMARY KEY,
+                usuario_id UUID REFERENCES usuarios_extensao(id) ON DELETE CASCADE,
+                nome VARCHAR(50),
+                acao VARCHAR(10) NOT NULL CHECK (acao IN ('LEITURA', 'GRAVACAO', 'REMOCAO', 'ROTACAO')),
+                origem VARCHAR(50) NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_credenciais_cofre_acessos_usuario
+            ON credenciais_cofre_acessos(usuario_id, created_at DESC)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN credenciais_cofre.chave_mestra_id IS 'Início do SHA-256 da chave mestra que cifrou a chave de dados'
+        `);
+
+        // Segredos em texto puro → cofre
+        const usuarios = await database.query(`
+            SELECT id, ${NOMES_CREDENCIAIS.join(', ')}
+            FROM usuarios_extensao
+            WHERE ${NOMES_CREDENCIAIS.map(nome => `${nome} IS NOT NULL`).join(' OR ')}
+        `);
+
+        for (const usuario of usuarios) {
+            for (const nome of NOMES_CREDENCIAIS) {
+                if (usuario[nome]) {
+                    await cofreCredenciaisService.gravar(usuario.id, nome, usuario[nome], 'migracao');
+                }
+            }
+            await database.query(`
+                UPDATE usuarios_extensao
+                SET ${NOMES_CREDENCIAIS.map(nome => `${nome} = NULL`).join(', ')}
+                WHERE id = $1
+            `, [usuario.id]);
+        }
+
+        for (const nome of NOMES_CREDENCIAIS) {
+            await database.query(`COMMENT ON COLUMN usuarios_extensao.${nome} IS 'Obsoleta: o valor fica no cofre (credenciais_cofre)'`);
+        }
+
+        const jobs = await database.query(`
+            SELECT id, token_pat FROM sincronizacao_jobs WHERE token_pat NOT LIKE 'cofre:v1:%'
+        `);
+
+        for (const job of jobs) {
+            await database.query(
+                'UPDATE sincronizacao_jobs SET token_pat = $2 WHERE id = $1',
+                [job.id, cofreCredenciaisService.cifrarTexto(job.token_pat, 'sincronizacao_jobs.token_pat')]
+            );
+        }
+
+        logger.info(`✅ Migration 037 executada com sucesso! (${usuarios.length} escritório(s) e ${jobs.length} job(s) migrados para o cofre)`);
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 037: ${error.message}`, error);
+        throw error;
+    }
+}
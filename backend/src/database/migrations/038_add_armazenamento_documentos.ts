@@ -0,0 +1,94 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+// URL pública antiga do Backblaze: {downloadUrl}/file/{bucket}/{chave}
+const URL_PUBLICA_B2 = '^https?://[^/]+/file/[^/]+/';
+
+/**
+ * Migration 038: Armazenamento privado de arquivos
+ * documentos passa a indexar todo arquivo guardado (comprovantes do PAT inclusive): driver,
+ * chave no driver (caminho_arquivo), tipo MIME e origem. processo_id fica opcional para
+ * comprovantes de protocolos ainda sem processo. agendamentos.comprovante_documento_id aponta
+ * para o PDF do comprovante, servido por link assinado em vez da URL pública do bucket.
+ */
+export async function addArmazenamentoDocumentos(): Promise<void> {
+    try {
+        logger.info('📦 Migration 038: Adicionando armazenamento privado em documentos e agendamentos...');
+
+        await database.query(`
+            ALTER TABLE documentos
+            ADD COLUMN IF NOT EXISTS armazenamento VARCHAR(20) NOT NULL DEFAULT 'backblaze'
+                CHECK (armazenamento IN ('local', 'backblaze', 's3')),
+            ADD COLUMN IF NOT EXISTS content_type VARCHAR(100),
+            ADD COLUMN IF NOT EXISTS origem VARCHAR(20)
+                CHECK (origem IN ('COMPROVANTE', 'WHATSAPP', 'PORTAL'))
+        `);
+
+        await database.query('ALTER TABLE documentos ALTER COLUMN processo_id DROP NOT NULL');
+        await database.query('ALTER TABLE documentos ALTER COLUMN armazenamento DROP DEFAULT');
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_documentos_hash ON documentos(hash_arquivo)
+        `);
+
+        // Documentos já gravados no Backblaze guardavam a URL pública: fica só a chave
+        await database.query(`
+            UPDATE documentos
+            SET caminho_arquivo = regexp_replace(caminho_arquivo, '${URL_PUBLICA_B2}', ''),
+                origem = COALESCE(origem, CASE WHEN enviado_por_parceiro_id IS NOT NULL THEN 'PORTAL' ELSE 'WHATSAPP' END),
+                content_type = COALESCE(content_type, CASE lower(substring(nome_arquivo from '\\.([^.]+)$'))
+                    WHEN 'pdf' THEN 'application/pdf'
+                    WHEN 'jpg' THEN 'image/jpeg'
+                    WHEN 'jpeg' THEN 'image/jpeg'
+                    WHEN 'png' THEN 'image/png'
+                    WHEN 'webp' THEN 'image/webp'
+                    WHEN 'heic' THEN 'image/heic'
+                END)
+            WHERE caminho_arquivo ~ '${URL_PUBLICA_B2}'
+        `);
+
+        await database.query(`
+            ALTER TABLE agendamentos
+            ADD COLUMN IF NOT EXISTS comprovante_documento_id UUID REFERENCES documentos(id) ON DELETE SET NULL
+        `);
+
+        // Comprovantes já enviados ao Backblaze entram em documentos
+        const agendamentos = await database.query(`
+            SELECT id, processo_id, protocolo_inss, tipo, url_comprovante
+            FROM agendamentos
+            WHERE comprovante_documento_id IS NULL AND url_comprovante ~ '${URL_PUBLICA_B2}'
+        `);
+
+        for (const agendamento of agendamentos) {
+            const chave = String(agendamento.url_comprovante).replace(new RegExp(URL_PUBLICA_B2), '');
+            const documento = await database.query(`
+                INSERT INTO documentos (processo_id, nome_arquivo, tipo_documento, caminho_arquivo, armazenamento, content_type, origem)
+                VALUES ($1, $2, $3, $4, 'backblaze', 'application/pdf', 'COMPROVANTE')
+                RETURNING id
+            `, [
+                agendamento.processo_id,
+                chave.split('/').pop() || `comprovante-${agendamento.protocolo_inss}.pdf`,
+                `Comprovante de ${agendamento.tipo === 'PERICIA' ? 'perícia' : 'avaliação social'}`,
+                chave,
+            ]);
+
+            await database.query(
+                'UPDATE agendamentos SET comprovante_documento_id = $2 WHERE id = $1',
+                [agendamento.id, documento[0].id]
+            );
+        }
+
+        await database.query(`
+            COMMENT ON COLUMN documentos.caminho_arquivo IS 'Chave do arquivo no armazenamento (documentos.armazenamento)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN agendamentos.url_comprovante IS 'Link enviado nas mensagens; expira. O arquivo fica em comprovante_documento_id'
+        `);
+
+        logger.info(`✅ Migration 038 executada com sucesso! (${agendamentos.length} comprovante(s) indexado(s); torne o bucket do Backblaze privado)`);
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 038: ${error.message}`, error);
+        throw error;
+    }
+}
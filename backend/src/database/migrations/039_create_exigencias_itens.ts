@@ -0,0 +1,103 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 039: Checklist de documentos das exigências
+ * Cada documento pedido na exigência vira um item (PENDENTE → RECEBIDO → VALIDADO → ANEXADO_INSS)
+ * e documentos.exigencia_item_id liga o arquivo ao item que ele atende. Substitui a etiqueta
+ * manual "Documentos Entregues": processos com a etiqueta têm os itens marcados como recebidos.
+ */
+export async function createExigenciasItensTable(): Promise<void> {
+    try {
+        logger.info('📦 Migration 039: Criando tabela exigencias_itens...');
+
+        await database.query(`
+            CREATE TABLE IF NOT EXISTS exigencias_itens (
+                id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+                exigencia_id UUID NOT NULL REFERENCES exigencias(id) ON DELETE CASCADE,
+                descricao TEXT NOT NULL,
+                ordem INTEGER NOT NULL DEFAULT 0,
+                status VARCHAR(20) NOT NULL DEFAULT 'PENDENTE'
+                    CHECK (status IN ('PENDENTE', 'RECEBIDO', 'VALIDADO', 'ANEXADO_INSS')),
+                observacao TEXT,
+                recebido_em TIMESTAMP,
+                validado_em TIMESTAMP,
+                validado_por VARCHAR(255),
+                anexado_inss_em TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (exigencia_id, descricao)
+            )
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_exigencias_itens_exigencia ON exigencias_itens(exigencia_id, ordem)
+        `);
+
+        await database.query(`
+            ALTER TABLE documentos
+            ADD COLUMN IF NOT EXISTS exigencia_item_id UUID REFERENCES exigencias_itens(id) ON DELETE SET NULL
+        `);
+
+        // Upload do escritório (extensão/API) é uma nova origem de arquivo
+        await database.query('ALTER TABLE documentos DROP CONSTRAINT IF EXISTS documentos_origem_check');
+        await database.query(`
+            ALTER TABLE documentos ADD CONSTRAINT documentos_origem_check
+            CHECK (origem IN ('COMPROVANTE', 'WHATSAPP', 'PORTAL', 'ESCRITORIO'))
+        `);
+
+        // Itens das exigências já registradas
+        await database.query(`
+            INSERT INTO exigencias_itens (exigencia_id, descricao, ordem)
+            SELECT e.id, trim(item.descricao), item.ordem - 1
+            FROM exigencias e
+            CROSS JOIN LATERAL unnest(e.itens_pendentes) WITH ORDINALITY AS item(descricao, ordem)
+            WHERE trim(item.descricao) <> ''
+            ON CONFLICT (exigencia_id, descricao) DO NOTHING
+        `);
+
+        // Documentos recebidos com o item informado (portal) passam a apontar para ele
+        await database.query(`
+            UPDATE documentos d
+            SET exigencia_item_id = i.id
+            FROM exigencias_itens i
+            WHERE d.exigencia_item_id IS NULL
+              AND i.exigencia_id = d.exigencia_id
+              AND i.descricao = d.tipo_documento
+        `);
+
+        await database.query(`
+            UPDATE exigencias_itens i
+            SET status = 'RECEBIDO', recebido_em = d.primeiro_envio
+            FROM (
+                SELECT exigencia_item_id, MIN(created_at) AS primeiro_envio
+                FROM documentos
+                WHERE exigencia_item_id IS NOT NULL
+                GROUP BY exigencia_item_id
+            ) d
+            WHERE d.exigencia_item_id = i.id AND i.status = 'PENDENTE'
+        `);
+
+        // Etiqueta manual "Documentos Entregues" → itens recebidos
+        const tags = await database.query(`
+            SELECT 1 FROM information_schema.columns WHERE table_name = 'processos' AND column_name = 'tags'
+        `);
+        if (tags.length > 0) {
+            await database.query(`
+                UPDATE exigencias_itens i
+                SET status = 'RECEBIDO', recebido_em = NOW(), observacao = 'Etiqueta "Documentos Entregues"'
+                FROM exigencias e
+                JOIN processos p ON p.id = e.processo_id
+                WHERE i.exigencia_id = e.id
+                  AND i.status = 'PENDENTE'
+                  AND e.status IN ('PENDENTE', 'EM_ANDAMENTO')
+                  AND p.tags @> ARRAY['Documentos Entregues']::TEXT[]
+            `);
+        }
+
+        logger.info('✅ Migration 039 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 039: ${error.message}`, error);
+        throw error;
+    }
+}
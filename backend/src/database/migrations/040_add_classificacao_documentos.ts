@@ -0,0 +1,37 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 040: Classificação dos documentos enviados pelos clientes
+ * Arquivos recebidos (WhatsApp, portal, escritório) passam por OCR e IA: tipo detectado,
+ * dados extraídos (nome, CPF, datas, CIDs), texto do OCR e alerta de CPF diferente do segurado.
+ * classificacao_status nulo = arquivo que não é classificado (comprovantes do PAT).
+ */
+export async function addClassificacaoDocumentos(): Promise<void> {
+    try {
+        logger.info('📦 Migration 040: Adicionando classificação de documentos...');
+
+        await database.query(`
+            ALTER TABLE documentos
+            ADD COLUMN IF NOT EXISTS classificacao_status VARCHAR(20)
+                CHECK (classificacao_status IN ('PENDENTE', 'CLASSIFICADO', 'SEM_TEXTO', 'ERRO')),
+            ADD COLUMN IF NOT EXISTS tipo_detectado VARCHAR(30),
+            ADD COLUMN IF NOT EXISTS dados_extraidos JSONB,
+            ADD COLUMN IF NOT EXISTS texto_ocr TEXT,
+            ADD COLUMN IF NOT EXISTS ocr_confianca NUMERIC(5, 2),
+            ADD COLUMN IF NOT EXISTS cpf_divergente BOOLEAN NOT NULL DEFAULT false,
+            ADD COLUMN IF NOT EXISTS classificacao_erro TEXT,
+            ADD COLUMN IF NOT EXISTS classificado_em TIMESTAMP
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_documentos_classificacao_pendente
+            ON documentos(created_at) WHERE classificacao_status = 'PENDENTE'
+        `);
+
+        logger.info('✅ Migration 040 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 040: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,29 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 041: Pacotes de documentos para o INSS
+ * O PDF montado a partir dos documentos da exigência (capa + itens na ordem do checklist) é
+ * guardado em documentos com origem PACOTE_INSS, um registro por volume.
+ */
+export async function addOrigemPacoteInss(): Promise<void> {
+    try {
+        logger.info('📦 Migration 041: Adicionando origem PACOTE_INSS em documentos...');
+
+        await database.query('ALTER TABLE documentos DROP CONSTRAINT IF EXISTS documentos_origem_check');
+        await database.query(`
+            ALTER TABLE documentos ADD CONSTRAINT documentos_origem_check
+            CHECK (origem IN ('COMPROVANTE', 'WHATSAPP', 'PORTAL', 'ESCRITORIO', 'PACOTE_INSS'))
+        `);
+
+        await database.query(`
+            CREATE INDEX IF NOT EXISTS idx_documentos_pacote_inss
+            ON documentos(exigencia_id, created_at) WHERE origem = 'PACOTE_INSS'
+        `);
+
+        logger.info('✅ Migration 041 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 041: ${error.message}`, error);
+        throw error;
+    }
+}
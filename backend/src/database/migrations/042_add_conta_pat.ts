@@ -0,0 +1,31 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 042: Conta do PAT por escritório
+ * CPF de quem entra no PAT (gov.br). Escritórios que usam o mesmo login dividem a sessão do
+ * navegador: a fila roda no máximo um job por conta. Sem CPF informado, a conta é o próprio usuário.
+ */
+export async function addContaPat(): Promise<void> {
+    try {
+        logger.info('📦 Migration 042: Adicionando conta do PAT em usuarios_extensao...');
+
+        await database.query(`
+            ALTER TABLE usuarios_extensao
+            ADD COLUMN IF NOT EXISTS conta_pat VARCHAR(11)
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN usuarios_extensao.conta_pat IS 'CPF do login do PAT (vazio = conta própria do usuário)'
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.conta_pat IS 'Conta do PAT que usa o navegador: CPF do login ou, sem ele, o usuário da extensão'
+        `);
+
+        logger.info('✅ Migration 042 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 042: ${error.message}`, error);
+        throw error;
+    }
+}
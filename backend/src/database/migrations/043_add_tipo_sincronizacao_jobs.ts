@@ -0,0 +1,34 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 043: Tipos de job na fila do PAT
+ * Além da sincronização, a conferência de comparecimento às perícias/avaliações sociais roda
+ * como job da fila: navegador próprio, token do PAT do escritório e a mesma regra de um job
+ * por conta do PAT.
+ */
+export async function addTipoSincronizacaoJobs(): Promise<void> {
+    try {
+        logger.info('📦 Migration 043: Adicionando tipo em sincronizacao_jobs...');
+
+        await database.query(`
+            ALTER TABLE sincronizacao_jobs
+            ADD COLUMN IF NOT EXISTS tipo VARCHAR(20) NOT NULL DEFAULT 'sincronizacao'
+        `);
+
+        await database.query('ALTER TABLE sincronizacao_jobs DROP CONSTRAINT IF EXISTS sincronizacao_jobs_tipo_check');
+        await database.query(`
+            ALTER TABLE sincronizacao_jobs ADD CONSTRAINT sincronizacao_jobs_tipo_check
+            CHECK (tipo IN ('sincronizacao', 'comparecimento'))
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.tipo IS 'sincronizacao (protocolos do período) ou comparecimento (agendamentos vencidos do escritório)'
+        `);
+
+        logger.info('✅ Migration 043 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 043: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,49 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 044: Sessão que enviou cada mensagem do outbox
+ * Sem sessão própria conectada, o escritório envia pela central: a resposta chega na sessão que
+ * enviou, e é por ela (não pelo usuario_id) que a entrada acha a notificação respondida.
+ */
+export async function addSessaoEnvioWhatsApp(): Promise<void> {
+    try {
+        logger.info('📦 Migration 044: Adicionando sessão de envio em whatsapp_outbox...');
+
+        await database.query(`
+            ALTER TABLE whatsapp_outbox
+            ADD COLUMN IF NOT EXISTS sessao_envio VARCHAR(100)
+        `);
+
+        // Mensagens já enviadas: melhor estimativa é a sessão do próprio escritório
+        await database.query(`
+            UPDATE whatsapp_outbox
+            SET sessao_envio = COALESCE(usuario_id::text, 'legada')
+            WHERE sessao_envio IS NULL AND enviada_em IS NOT NULL
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN whatsapp_outbox.sessao_envio IS 'Sessão WhatsApp que enviou: id do usuário dono da sessão ou ''legada'''
+        `);
+
+        await database.query(`
+            CREATE OR REPLACE VIEW notificacoes_whatsapp AS
+            SELECT
+                id, processo_id, exigencia_id, parceiro_id, tipo, telefone_destino, cidade, mensagem,
+                status IN ('sent', 'delivered', 'read') AS enviada,
+                enviada_em AS data_envio,
+                resposta, confirmacao_recebida, data_confirmacao, tentativas,
+                ultimo_erro AS erro,
+                lembretes_enviados, ultimo_lembrete,
+                status, ack, usuario_id, origem,
+                created_at, updated_at,
+                sessao_envio
+            FROM whatsapp_outbox
+        `);
+
+        logger.info('✅ Migration 044 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 044: ${error.message}`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,28 @@
+import database from '../index';
+import logger from '../../utils/logger';
+
+/**
+ * Migration 045: Execução do worker INSS como job da fila do PAT
+ * O dry-run pedido pelo painel admin não roda mais dentro da requisição: vira um job 'worker'
+ * (sem usuário da extensão; usa a conta do PAT do .env) e o relatório fica no resultado do job.
+ */
+export async function addTipoWorkerSincronizacaoJobs(): Promise<void> {
+    try {
+        logger.info('📦 Migration 045: Adicionando tipo worker em sincronizacao_jobs...');
+
+        await database.query('ALTER TABLE sincronizacao_jobs DROP CONSTRAINT IF EXISTS sincronizacao_jobs_tipo_check');
+        await database.query(`
+            ALTER TABLE sincronizacao_jobs ADD CONSTRAINT sincronizacao_jobs_tipo_check
+            CHECK (tipo IN ('sincronizacao', 'comparecimento', 'worker'))
+        `);
+
+        await database.query(`
+            COMMENT ON COLUMN sincronizacao_jobs.tipo IS 'sincronizacao (protocolos do período), comparecimento (agendamentos vencidos do escritório) ou worker (worker INSS pedido pelo painel admin)'
+        `);
+
+        logger.info('✅ Migration 045 executada com sucesso!');
+    } catch (error: any) {
+        logger.error(`❌ Erro ao executar migration 045: ${error.message}`, error);
+        throw error;
+    }
+}
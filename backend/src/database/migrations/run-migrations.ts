@@ -13,6 +13,32 @@ import { addTramitacaoCredentials } from './018_add_tramitacao_credentials';
 import { addWhatsAppConfig } from './019_add_whatsapp_config';
 import { createPadroesEtiquetasTable } from './011_create_padroes_etiquetas_table';
 import { createParceirosConfigTable } from './012_create_parceiros_config_table';
+import { addLLMProviderConfig } from './020_add_llm_provider_config';
+import { createIARespostasRejeitadasTable } from './021_create_ia_respostas_rejeitadas';
+import { addEmbeddingsIAHistorico } from './022_add_embeddings_ia_historico';
+import { createRegrasClassificacaoTable } from './023_create_regras_classificacao';
+import { createSincronizacaoJobsTables } from './024_create_sincronizacao_jobs';
+import { createSincronizacaoEfeitosTable } from './025_create_sincronizacao_efeitos';
+import { addSincronizacaoDryRun } from './026_add_sincronizacao_dry_run';
+import { createSeletoresPatTable } from './027_create_seletores_pat';
+import { createWhatsAppOutboxTable } from './028_create_whatsapp_outbox';
+import { createWhatsAppMensagensRecebidasTable } from './029_create_whatsapp_mensagens_recebidas';
+import { createTemplatesMensagemTable } from './030_create_templates_mensagem';
+import { addCanaisNotificacao } from './031_add_canais_notificacao';
+import { createPoliticasLembreteTables } from './032_create_politicas_lembrete';
+import { addComparecimentoAgendamentos } from './033_add_comparecimento_agendamentos';
+import { createCalendariosFeedsTable } from './034_create_calendarios_feeds';
+import { createWhatsAppSaudeTables } from './035_create_whatsapp_saude';
+import { createPortalParceirosTables } from './036_create_portal_parceiros';
+import { createCredenciaisCofreTables } from './037_create_credenciais_cofre';
+import { addArmazenamentoDocumentos } from './038_add_armazenamento_documentos';
+import { createExigenciasItensTable } from './039_create_exigencias_itens';
+import { addClassificacaoDocumentos } from './040_add_classificacao_documentos';
+import { addOrigemPacoteInss } from './041_add_origem_pacote_inss';
+import { addContaPat } from './042_add_conta_pat';
+import { addTipoSincronizacaoJobs } from './043_add_tipo_sincronizacao_jobs';
+import { addSessaoEnvioWhatsApp } from './044_add_sessao_envio_whatsapp';
+import { addTipoWorkerSincronizacaoJobs } from './045_add_tipo_worker_sincronizacao_jobs';
 import logger from '../../utils/logger';
 import database from '../index';
 
@@ -40,6 +66,32 @@ async function runMigrations(): Promise<void> {
         await addWhatsAppConfig(); // Configurações de WhatsApp personalizadas
         await createPadroesEtiquetasTable(); // Padrões de etiquetas por escritório (SaaS)
         await createParceirosConfigTable(); // Configuração de parceiros (SaaS)
+        await addLLMProviderConfig(); // Provedor de LLM por usuário (Gemini/OpenAI/Ollama)
+        await createIARespostasRejeitadasTable(); // Auditoria de respostas da IA fora do schema
+        await addEmbeddingsIAHistorico(); // Embeddings + correções humanas para exemplos few-shot
+        await createRegrasClassificacaoTable(); // Motor de regras antes do LLM
+        await createSincronizacaoJobsTables(); // Fila durável da sincronização INSS
+        await createSincronizacaoEfeitosTable(); // Registro de efeitos por protocolo (reprocessamento idempotente)
+        await addSincronizacaoDryRun(); // Simulação (dry-run) da sincronização INSS
+        await createSeletoresPatTable(); // Seletores do PAT editáveis e detecção de drift
+        await createWhatsAppOutboxTable(); // Outbox de mensagens WhatsApp (envio com retentativas e acks)
+        await createWhatsAppMensagensRecebidasTable(); // Respostas e documentos recebidos pelo WhatsApp
+        await createTemplatesMensagemTable(); // Textos de WhatsApp e notas editáveis por escritório
+        await addCanaisNotificacao(); // Canal preferido (WhatsApp, e-mail, SMS) de parceiros e clientes
+        await createPoliticasLembreteTables(); // Políticas de lembrete (etapas, horário, fim de semana) e lembretes enviados
+        await addComparecimentoAgendamentos(); // Comparecimento a perícias/avaliações (CUMPRIDO ou NAO_COMPARECEU)
+        await createCalendariosFeedsTable(); // Feeds iCalendar por escritório e parceiro
+        await createWhatsAppSaudeTables(); // Histórico de saúde das sessões WhatsApp e mensagens pausadas no outbox
+        await createPortalParceirosTables(); // Links de acesso ao portal do parceiro e documentos enviados por ele
+        await createCredenciaisCofreTables(); // Cofre de credenciais cifradas dos escritórios e registro de acessos
+        await addArmazenamentoDocumentos(); // Documentos como índice dos arquivos guardados (local, B2, S3) e comprovantes privados
+        await createExigenciasItensTable(); // Checklist de documentos das exigências (pendente, recebido, validado, anexado no INSS)
+        await addClassificacaoDocumentos(); // OCR + IA nos documentos recebidos (tipo, dados extraídos, CPF divergente)
+        await addOrigemPacoteInss(); // PDF da exigência pronto para anexar no INSS (capa + itens, em volumes)
+        await addContaPat(); // Conta (CPF do login) do PAT: escritórios com o mesmo login não rodam em paralelo
+        await addTipoSincronizacaoJobs(); // Conferência de comparecimento como job da fila do PAT
+        await addSessaoEnvioWhatsApp(); // Sessão que enviou cada mensagem (respostas voltam por ela)
+        await addTipoWorkerSincronizacaoJobs(); // Dry-run do worker INSS (painel admin) como job da fila
 
         logger.info('Todas as migrations executadas com sucesso!');
         process.exit(0);
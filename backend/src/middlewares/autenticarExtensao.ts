@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExtensaoAuthController } from '../controllers/ExtensaoAuthController';
+import logger from '../utils/logger';
+
+const authController = new ExtensaoAuthController();
+
+/**
+ * Middleware de Autenticação da Extensão
+ * Verifica o token do escritório (usuário da extensão) e anexa userId e userEmail à requisição
+ */
+export const autenticarExtensao = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ success: false, message: 'Token não fornecido' });
+            return;
+        }
+
+        const token = authHeader.substring(7);
+        const resultado = await authController.verificarToken(token);
+
+        if (!resultado.valid || !resultado.userId) {
+            res.status(401).json({ success: false, message: 'Token inválido' });
+            return;
+        }
+
+        (req as any).userId = resultado.userId;
+        (req as any).userEmail = resultado.email;
+        next();
+    } catch (error: any) {
+        logger.error(`[Extensão] Erro de autenticação em ${req.method} ${req.baseUrl}: ${error.message}`);
+        res.status(401).json({ success: false, message: 'Erro de autenticação' });
+    }
+};
@@ -42,8 +42,18 @@ export const authenticate = async (
             email: string;
             nome: string;
             perfil: PerfilUsuario;
+            tipo?: string;
         };
 
+        // Tokens da extensão e do portal do parceiro têm `tipo` e não valem nas rotas da equipe
+        if (decoded.tipo !== undefined || !decoded.id || !decoded.perfil) {
+            res.status(401).json({
+                success: false,
+                message: 'Token inválido',
+            });
+            return;
+        }
+
         // 3. Anexar dados do usuário à requisição
         (req as AuthRequest).user = decoded;
 
@@ -31,9 +31,16 @@ router.post('/token/renew', (req, res) => AdminController.renewToken(req, res));
 /**
  * POST /api/v1/admin/worker/run
  * Executar worker INSS manualmente
+ * Body: { dryRun?: boolean } - dryRun enfileira um job e retorna o jobId
  */
 router.post('/worker/run', (req, res) => AdminController.runWorker(req, res));
 
+/**
+ * GET /api/v1/admin/worker/jobs/:jobId
+ * Status do job do worker e, no dry-run concluído, o relatório por protocolo
+ */
+router.get('/worker/jobs/:jobId', (req, res) => AdminController.getWorkerJob(req, res));
+
 /**
  * GET /api/v1/admin/logs?type=all&lines=50
  * Obter últimas linhas dos logs
@@ -0,0 +1,90 @@
+/**
+ * Rotas de download dos arquivos guardados (comprovantes e documentos)
+ * O bucket é privado: o arquivo só sai por link assinado, que expira
+ */
+
+import { Router, Request, Response } from 'express';
+import armazenamentoService from '../services/armazenamento';
+import classificacaoDocumentosService from '../services/ClassificacaoDocumentosService';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/v1/arquivos/:id/link?validadeHoras=
+ * Novo link assinado para um documento dos processos do escritório
+ */
+router.get('/:id/link', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        if (!UUID.test(id) || !(await armazenamentoService.podeAcessar(id, (req as any).userId))) {
+            return res.status(404).json({ success: false, message: 'Arquivo não encontrado' });
+        }
+
+        const validadeHoras = Number(req.query.validadeHoras);
+        const link = Number.isInteger(validadeHoras) && validadeHoras > 0
+            ? armazenamentoService.gerarLink(id, Math.min(validadeHoras, 24 * 30))
+            : armazenamentoService.gerarLink(id);
+
+        res.json({ success: true, ...link });
+    } catch (error: any) {
+        logger.error(`[Arquivos] Erro ao gerar link: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/arquivos/:id/classificar
+ * Refaz OCR + IA de um documento recebido (tipo, dados extraídos, CPF, item da exigência)
+ */
+router.post('/:id/classificar', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        if (!UUID.test(id) || !(await armazenamentoService.podeAcessar(id, (req as any).userId))) {
+            return res.status(404).json({ success: false, message: 'Arquivo não encontrado' });
+        }
+
+        const classificacao = await classificacaoDocumentosService.classificar(id);
+        if (!classificacao) {
+            return res.status(404).json({ success: false, message: 'Arquivo não encontrado' });
+        }
+
+        res.json({ success: classificacao.status === 'CLASSIFICADO', classificacao });
+    } catch (error: any) {
+        logger.error(`[Arquivos] Erro ao classificar arquivo ${req.params.id}: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * GET /api/v1/arquivos/:id?expira=&assinatura=
+ * Download pelo link assinado (público enquanto o link valer)
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { expira, assinatura } = req.query;
+
+        if (!UUID.test(id) || !armazenamentoService.verificarLink(id, String(expira || ''), String(assinatura || ''))) {
+            return res.status(403).json({ success: false, message: 'Link inválido ou expirado' });
+        }
+
+        const arquivo = await armazenamentoService.ler(id);
+        if (!arquivo) {
+            return res.status(404).json({ success: false, message: 'Arquivo não encontrado' });
+        }
+
+        res.set('Content-Type', arquivo.contentType);
+        res.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(arquivo.nomeArquivo)}`);
+        res.set('Cache-Control', 'private, no-store');
+        res.send(arquivo.dados);
+    } catch (error: any) {
+        logger.error(`[Arquivos] Erro ao baixar arquivo ${req.params.id}: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao baixar arquivo' });
+    }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+/**
+ * Rotas dos feeds de calendário (iCalendar) do escritório e dos parceiros
+ */
+
+import { Router, Request, Response } from 'express';
+import calendariosService, { FeedCalendario } from '../services/CalendariosService';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// URL pública do feed, para assinar no Google Agenda, Outlook ou iPhone
+const comUrl = (req: Request, feed: FeedCalendario) => {
+    const protocolo = String(req.headers['x-forwarded-proto'] || req.protocol).split(',')[0];
+    return {
+        ...feed,
+        url: `${protocolo}://${req.get('host')}${req.baseUrl}/${feed.token}.ics`,
+    };
+};
+
+/**
+ * GET /api/v1/calendarios/feeds
+ * Feeds ativos do escritório
+ */
+router.get('/feeds', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const feeds = await calendariosService.listarFeeds((req as any).userId);
+        res.json({ success: true, feeds: feeds.map(feed => comUrl(req, feed)) });
+    } catch (error: any) {
+        logger.error(`[Calendarios] Erro ao listar feeds: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/calendarios/feeds
+ * Body: { parceiroId?, descricao? } (sem parceiroId = feed do escritório)
+ */
+router.post('/feeds', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { parceiroId, descricao } = req.body || {};
+
+        if (parceiroId !== undefined && parceiroId !== null) {
+            const id = Number(parceiroId);
+            if (!Number.isInteger(id) || !(await calendariosService.parceiroPertenceAoUsuario(userId, id))) {
+                return res.status(404).json({ success: false, message: 'Parceiro não encontrado' });
+            }
+        }
+
+        const feed = await calendariosService.criarFeed(userId, parceiroId ? Number(parceiroId) : null, descricao);
+        res.status(201).json({ success: true, feed: comUrl(req, feed) });
+    } catch (error: any) {
+        logger.error(`[Calendarios] Erro ao criar feed: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * DELETE /api/v1/calendarios/feeds/:id
+ * Revoga o feed (a URL para de funcionar)
+ */
+router.delete('/feeds/:id', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const revogado = await calendariosService.revogar((req as any).userId, Number(req.params.id));
+
+        if (!revogado) {
+            return res.status(404).json({ success: false, message: 'Feed não encontrado' });
+        }
+
+        res.json({ success: true, message: 'Feed revogado' });
+    } catch (error: any) {
+        logger.error(`[Calendarios] Erro ao revogar feed: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * GET /api/v1/calendarios/:token.ics
+ * Feed iCalendar (público; o token da URL é o segredo)
+ */
+router.get('/:token.ics', async (req: Request, res: Response) => {
+    try {
+        const ics = await calendariosService.gerarFeed(req.params.token);
+
+        if (!ics) {
+            return res.status(404).json({ success: false, message: 'Feed não encontrado' });
+        }
+
+        res.set('Content-Type', 'text/calendar; charset=utf-8');
+        res.set('Content-Disposition', 'inline; filename="inss.ics"');
+        res.set('Cache-Control', 'private, max-age=300');
+        res.send(ics);
+    } catch (error: any) {
+        logger.error(`[Calendarios] Erro ao gerar feed: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao gerar calendário' });
+    }
+});
+
+export default router;
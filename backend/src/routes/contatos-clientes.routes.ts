@@ -0,0 +1,75 @@
+/**
+ * Rotas do contato e canal preferido dos clientes (WhatsApp, e-mail ou SMS)
+ */
+
+import { Router, Request, Response } from 'express';
+import contatosClientesService from '../services/ContatosClientesService';
+import canaisNotificacaoService from '../services/canais';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
+import logger from '../utils/logger';
+
+const router = Router();
+
+/**
+ * GET /api/v1/contatos-clientes/canais
+ * Canais configurados no servidor (os demais caem para WhatsApp)
+ */
+router.get('/canais', autenticarExtensao, (req: Request, res: Response) => {
+    res.json({ success: true, canais: canaisNotificacaoService.canaisDisponiveis() });
+});
+
+/**
+ * GET /api/v1/contatos-clientes/:cpf
+ */
+router.get('/:cpf', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const contato = await contatosClientesService.buscarPorCpf(req.params.cpf);
+
+        if (!contato) {
+            return res.status(404).json({ success: false, message: 'Contato não cadastrado' });
+        }
+
+        res.json({ success: true, contato });
+    } catch (error: any) {
+        logger.error(`[ContatosClientes] Erro ao buscar: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * PUT /api/v1/contatos-clientes/:cpf
+ * Body: { nome?, canalPreferido, telefone?, email?, ativo?, observacoes? }
+ */
+router.put('/:cpf', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const { nome, canalPreferido, telefone, email, ativo, observacoes } = req.body;
+        const contato = await contatosClientesService.salvar(req.params.cpf, {
+            nome, canalPreferido, telefone, email, ativo, observacoes,
+        });
+
+        res.json({ success: true, message: 'Contato salvo', contato });
+    } catch (error: any) {
+        logger.error(`[ContatosClientes] Erro ao salvar: ${error.message}`);
+        res.status(400).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * DELETE /api/v1/contatos-clientes/:cpf
+ */
+router.delete('/:cpf', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const excluido = await contatosClientesService.excluir(req.params.cpf);
+
+        if (!excluido) {
+            return res.status(404).json({ success: false, message: 'Contato não cadastrado' });
+        }
+
+        res.json({ success: true, message: 'Contato excluído' });
+    } catch (error: any) {
+        logger.error(`[ContatosClientes] Erro ao excluir: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+export default router;
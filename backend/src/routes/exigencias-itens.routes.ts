@@ -0,0 +1,182 @@
+/**
+ * Rotas do checklist de documentos das exigências (extensão/API do escritório)
+ * Itens: PENDENTE → RECEBIDO → VALIDADO → ANEXADO_INSS; com todos validados a exigência é cumprida
+ * O pacote junta os documentos dos itens em PDF pronto para anexar no INSS
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import config from '../config';
+import exigenciasItensService, { STATUS_ITEM_EXIGENCIA, StatusItemExigencia } from '../services/ExigenciasItensService';
+import documentosRecebidosService, { EXTENSOES_DOCUMENTO } from '../services/DocumentosRecebidosService';
+import pacoteInssService from '../services/PacoteInssService';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Exigência de um processo do escritório (processoId fica em res.locals)
+const exigenciaDoEscritorio = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { exigenciaId, itemId } = req.params;
+        if (!UUID.test(exigenciaId) || (itemId !== undefined && !UUID.test(itemId))) {
+            return res.status(404).json({ success: false, message: 'Exigência não encontrada' });
+        }
+
+        const processoId = await exigenciasItensService.buscarProcessoDoUsuario(exigenciaId, (req as any).userId);
+        if (!processoId) {
+            return res.status(404).json({ success: false, message: 'Exigência não encontrada' });
+        }
+
+        res.locals.processoId = processoId;
+        next();
+    } catch (error: any) {
+        logger.error(`[Exigências Itens] Erro ao buscar exigência: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+};
+
+/**
+ * GET /api/v1/exigencias-itens/:exigenciaId
+ * Checklist da exigência com os arquivos (links assinados) de cada item
+ */
+router.get('/:exigenciaId', autenticarExtensao, exigenciaDoEscritorio, async (req: Request, res: Response) => {
+    try {
+        const itens = await exigenciasItensService.listar(req.params.exigenciaId);
+        res.json({ success: true, itens });
+    } catch (error: any) {
+        logger.error(`[Exigências Itens] Erro ao listar itens: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/exigencias-itens/:exigenciaId
+ * Body: { descricao } ou { itens: string[] } — documentos pedidos que a IA não listou
+ */
+router.post('/:exigenciaId', autenticarExtensao, exigenciaDoEscritorio, async (req: Request, res: Response) => {
+    try {
+        const { descricao, itens } = req.body || {};
+        const descricoes: string[] = Array.isArray(itens)
+            ? itens.filter((item: unknown) => typeof item === 'string')
+            : typeof descricao === 'string' ? [descricao] : [];
+
+        if (descricoes.every(item => !item.trim())) {
+            return res.status(400).json({ success: false, message: 'Informe a descrição do documento' });
+        }
+
+        await exigenciasItensService.adicionarItens(req.params.exigenciaId, descricoes);
+        res.status(201).json({ success: true, itens: await exigenciasItensService.listar(req.params.exigenciaId) });
+    } catch (error: any) {
+        logger.error(`[Exigências Itens] Erro ao adicionar itens: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/exigencias-itens/:exigenciaId/pacote
+ * Monta o PDF para anexar no INSS (capa + imagens e PDFs na ordem do checklist, em volumes abaixo do limite)
+ */
+router.post('/:exigenciaId/pacote', autenticarExtensao, exigenciaDoEscritorio, async (req: Request, res: Response) => {
+    try {
+        const pacote = await pacoteInssService.gerar(req.params.exigenciaId);
+        if (!pacote) {
+            return res.status(404).json({ success: false, message: 'Exigência não encontrada' });
+        }
+
+        res.status(201).json({ success: true, pacote });
+    } catch (error: any) {
+        logger.error(`[Exigências Itens] Erro ao gerar pacote: ${error.message}`);
+        res.status(400).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * PATCH /api/v1/exigencias-itens/:exigenciaId/:itemId
+ * Body: { status: 'PENDENTE' | 'RECEBIDO' | 'VALIDADO' | 'ANEXADO_INSS', observacao? }
+ */
+router.patch('/:exigenciaId/:itemId', autenticarExtensao, exigenciaDoEscritorio, async (req: Request, res: Response) => {
+    try {
+        const { status, observacao } = req.body || {};
+        if (!STATUS_ITEM_EXIGENCIA.includes(status)) {
+            return res.status(400).json({
+                success: false,
+                message: `Status inválido. Use: ${STATUS_ITEM_EXIGENCIA.join(', ')}`,
+            });
+        }
+
+        const resultado = await exigenciasItensService.atualizarStatus(
+            req.params.exigenciaId,
+            req.params.itemId,
+            status as StatusItemExigencia,
+            (req as any).userEmail || (req as any).userId,
+            typeof observacao === 'string' ? observacao : null
+        );
+
+        if (!resultado) {
+            return res.status(404).json({ success: false, message: 'Item não encontrado' });
+        }
+
+        res.json({
+            success: true,
+            message: resultado.exigenciaCumprida ? 'Todos os documentos validados: exigência cumprida' : 'Item atualizado',
+            ...resultado,
+        });
+    } catch (error: any) {
+        logger.error(`[Exigências Itens] Erro ao atualizar item: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/exigencias-itens/:exigenciaId/:itemId/documentos?nome=
+ * Corpo: o arquivo (PDF ou imagem), com o Content-Type dele
+ */
+router.post(
+    '/:exigenciaId/:itemId/documentos',
+    autenticarExtensao,
+    exigenciaDoEscritorio,
+    express.raw({ type: () => true, limit: `${config.armazenamento.tamanhoMaximoUploadMb}mb` }),
+    async (req: Request, res: Response) => {
+        try {
+            const { exigenciaId, itemId } = req.params;
+            if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+                return res.status(400).json({ success: false, message: 'Arquivo não enviado' });
+            }
+
+            const mimetype = (req.headers['content-type'] || '').split(';')[0].trim();
+            if (!EXTENSOES_DOCUMENTO[mimetype]) {
+                return res.status(400).json({ success: false, message: 'Envie o documento em PDF ou imagem (JPG, PNG, WEBP, HEIC)' });
+            }
+
+            const item = await exigenciasItensService.buscarItem(exigenciaId, itemId);
+            if (!item) {
+                return res.status(404).json({ success: false, message: 'Item não encontrado' });
+            }
+
+            const responsavel = (req as any).userEmail || 'o escritório';
+            const nome = typeof req.query.nome === 'string' ? req.query.nome.trim() : '';
+
+            const documento = await documentosRecebidosService.registrar({
+                processoId: res.locals.processoId,
+                exigenciaId,
+                exigenciaItemId: item.id,
+                dados: req.body,
+                mimetype,
+                nomeArquivo: nome || `escritorio-${Date.now()}.${EXTENSOES_DOCUMENTO[mimetype]}`,
+                tipoDocumento: item.descricao,
+                origem: 'ESCRITORIO',
+                remetente: responsavel,
+                observacoes: `Enviado por ${responsavel}: ${item.descricao}`,
+            });
+
+            res.status(201).json({ success: true, documento });
+        } catch (error: any) {
+            logger.error(`[Exigências Itens] Erro ao enviar documento: ${error.message}`);
+            res.status(500).json({ success: false, message: error.message });
+        }
+    }
+);
+
+export default router;
@@ -31,7 +31,9 @@ router.get('/', authenticate, async (req, res) => {
                 p.tags,
                 u.nome as responsavel_nome,
                 (SELECT COUNT(*) FROM notificacoes_whatsapp nw WHERE nw.exigencia_id = e.id AND nw.enviada = true) as notificacoes_enviadas,
-                (p.tags @> ARRAY['Documentos Entregues']::TEXT[]) as documentos_entregues
+                -- Documentos entregues: checklist sem item pendente (ver /exigencias-itens)
+                (EXISTS (SELECT 1 FROM exigencias_itens i WHERE i.exigencia_id = e.id)
+                    AND NOT EXISTS (SELECT 1 FROM exigencias_itens i WHERE i.exigencia_id = e.id AND i.status = 'PENDENTE')) as documentos_entregues
             FROM exigencias e
             INNER JOIN processos p ON e.processo_id = p.id
             LEFT JOIN usuarios u ON p.responsavel_entrada_id = u.id
@@ -48,7 +50,8 @@ router.get('/', authenticate, async (req, res) => {
         }
 
         if (documentos_entregues === 'true') {
-            query += ` AND p.tags @> ARRAY['Documentos Entregues']::TEXT[]`;
+            query += ` AND EXISTS (SELECT 1 FROM exigencias_itens i WHERE i.exigencia_id = e.id)
+                AND NOT EXISTS (SELECT 1 FROM exigencias_itens i WHERE i.exigencia_id = e.id AND i.status = 'PENDENTE')`;
         }
 
         if (cidade) {
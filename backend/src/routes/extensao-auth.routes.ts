@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { ExtensaoAuthController } from '../controllers/ExtensaoAuthController';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
 import logger from '../utils/logger';
 import config from '../config';
 
@@ -154,7 +155,12 @@ router.get('/config', async (req: Request, res: Response) => {
  *   "tramitacaoApiToken": "...",
  *   "tramitacaoEmail": "...",
  *   "tramitacaoSenha": "...",
- *   "patToken": "..."
+ *   "patToken": "...",
+ *   "contaPat": "CPF do login do PAT (escritórios com o mesmo login não sincronizam em paralelo)",
+ *   "llmProvider": "gemini" | "openai" | "ollama",
+ *   "llmBaseUrl": "...",
+ *   "llmModel": "...",
+ *   "llmApiKey": "..."
  * }
  */
 router.put('/config', async (req: Request, res: Response) => {
@@ -168,14 +174,22 @@ router.put('/config', async (req: Request, res: Response) => {
             });
         }
 
-        const { geminiApiKey, tramitacaoApiToken, tramitacaoEmail, tramitacaoSenha, patToken } = req.body;
+        const {
+            geminiApiKey, tramitacaoApiToken, tramitacaoEmail, tramitacaoSenha, patToken, contaPat,
+            llmProvider, llmBaseUrl, llmModel, llmApiKey
+        } = req.body;
 
         const resultado = await controller.atualizarConfig(token, {
             geminiApiKey,
             tramitacaoApiToken,
             tramitacaoEmail,
             tramitacaoSenha,
-            patToken
+            patToken,
+            contaPat,
+            llmProvider,
+            llmBaseUrl,
+            llmModel,
+            llmApiKey
         });
 
         if (resultado.success) {
@@ -304,18 +318,48 @@ router.put('/config/whatsapp', async (req: Request, res: Response) => {
     }
 });
 
+// Rotas /whatsapp/*: cada usuário só opera a própria sessão
+router.use('/whatsapp', autenticarExtensao);
+
+/**
+ * GET /api/v1/extensao/config/acessos?limite=50
+ * Registro de acessos às credenciais do usuário no cofre (quem leu, gravou ou rotacionou e quando)
+ */
+router.get('/config/acessos', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const cofreCredenciaisService = (await import('../services/CofreCredenciaisService')).default;
+        const limite = Math.min(parseInt(String(req.query.limite || '50'), 10) || 50, 500);
+
+        const acessos = await cofreCredenciaisService.listarAcessos((req as any).userId, limite);
+        res.json({ success: true, acessos });
+    } catch (error: any) {
+        logger.error(`Erro ao listar acessos ao cofre: ${error.message}`);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao listar acessos às credenciais',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
 /**
  * GET /api/v1/extensao/whatsapp/status
- * Retorna status da conexão WhatsApp Central
+ * Retorna status da sessão WhatsApp do usuário autenticado e a saúde dela
+ * (uptime, último envio, falhas seguidas, mensagens pausadas, alerta para o banner e histórico de eventos)
  */
 router.get('/whatsapp/status', async (req: Request, res: Response) => {
     try {
         const whatsappService = (await import('../services/WhatsAppService')).default;
-        const status = await whatsappService.obterStatus();
+        const saudeWhatsAppService = (await import('../services/SaudeWhatsAppService')).default;
+        const userId = (req as any).userId;
+
+        const status = await whatsappService.sessao(userId).obterStatus();
+        const saude = await saudeWhatsAppService.obterSaude(userId);
 
         res.json({
             success: true,
-            status
+            status,
+            saude
         });
     } catch (error: any) {
         logger.error(`Erro ao obter status do WhatsApp: ${error.message}`);
@@ -329,16 +373,24 @@ router.get('/whatsapp/status', async (req: Request, res: Response) => {
 
 /**
  * GET /api/v1/extensao/whatsapp/qr-code
- * Retorna QR Code da instância Central (para Admin conectar)
+ * Retorna QR Code da sessão do usuário autenticado (para conectar o número do escritório)
  */
 router.get('/whatsapp/qr-code', async (req: Request, res: Response) => {
     try {
         const whatsappService = (await import('../services/WhatsAppService')).default;
+        const userId = (req as any).userId;
+
+        const motivo = await whatsappService.motivoRecusaSessao(userId);
+        if (motivo) {
+            return res.status(403).json({ success: false, message: motivo });
+        }
+
+        const sessao = whatsappService.sessao(userId);
 
         // Garante inicialização
-        await whatsappService.inicializar();
+        await sessao.inicializar();
 
-        const qrData = whatsappService.obterQrCode();
+        const qrData = sessao.obterQrCode();
 
         if (!qrData || !qrData.qr) {
             return res.json({
@@ -367,17 +419,23 @@ router.get('/whatsapp/qr-code', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/extensao/whatsapp/inicializar
- * Inicializa a instância Central
+ * Inicializa a sessão do usuário autenticado
  */
 router.post('/whatsapp/inicializar', async (req: Request, res: Response) => {
     try {
         const whatsappService = (await import('../services/WhatsAppService')).default;
+        const userId = (req as any).userId;
+
+        const motivo = await whatsappService.motivoRecusaSessao(userId);
+        if (motivo) {
+            return res.status(403).json({ success: false, message: motivo });
+        }
 
-        await whatsappService.inicializar();
+        await whatsappService.sessao(userId).inicializar();
 
         return res.json({
             success: true,
-            message: 'WhatsApp Central inicializado'
+            message: 'WhatsApp inicializado'
         });
     } catch (error: any) {
         logger.error(`[Extensao] ❌ Erro ao inicializar WhatsApp: ${error.message}`, error);
@@ -391,7 +449,7 @@ router.post('/whatsapp/inicializar', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/extensao/whatsapp/testar-envio
- * Testa envio de mensagem usando a instância Central
+ * Testa envio de mensagem usando a sessão do usuário autenticado
  */
 router.post('/whatsapp/testar-envio', async (req: Request, res: Response) => {
     try {
@@ -406,18 +464,18 @@ router.post('/whatsapp/testar-envio', async (req: Request, res: Response) => {
 
         const whatsappService = (await import('../services/WhatsAppService')).default;
 
-        // Envia usando a central
-        const enviado = await whatsappService.enviar(telefone, mensagem);
+        // Envia pelo número do próprio escritório (sem fallback para a central)
+        const enviado = await whatsappService.sessao((req as any).userId).enviar(telefone, mensagem);
 
         if (enviado) {
             res.json({
                 success: true,
-                message: 'Mensagem enviada com sucesso via Central!'
+                message: 'Mensagem enviada com sucesso!'
             });
         } else {
             res.status(500).json({
                 success: false,
-                message: 'Falha ao enviar mensagem. Verifique se o WhatsApp Central está conectado.'
+                message: 'Falha ao enviar mensagem. Verifique se o seu WhatsApp está conectado.'
             });
         }
     } catch (error: any) {
@@ -432,13 +490,21 @@ router.post('/whatsapp/testar-envio', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/extensao/whatsapp/desconectar
- * Desconecta WhatsApp e limpa sessão (Admin only)
+ * Desconecta o WhatsApp do usuário autenticado e limpa a sessão dele
  */
 router.post('/whatsapp/desconectar', async (req: Request, res: Response) => {
     try {
         const whatsappService = (await import('../services/WhatsAppService')).default;
+        const userId = (req as any).userId;
+
+        // Reinicializar abre um Chromium novo: mesma regra do QR Code
+        const motivo = await whatsappService.motivoRecusaSessao(userId);
+        if (motivo) {
+            await whatsappService.sessao(userId).desconectar();
+            return res.status(403).json({ success: false, message: motivo });
+        }
 
-        await whatsappService.reinicializar();
+        await whatsappService.sessao(userId).reinicializar();
 
         return res.json({
             success: true,
@@ -0,0 +1,167 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middlewares/auth';
+import aiLearningService from '../services/AILearningService';
+import { CLASSES_FINAIS } from '../services/llm';
+import logger from '../utils/logger';
+import config from '../config';
+
+const router = Router();
+
+/**
+ * Rotas de revisão das análises da IA (equipe do escritório)
+ * Análises confirmadas ou corrigidas aqui viram exemplos few-shot nas próximas sincronizações
+ */
+router.use(authenticate);
+
+/**
+ * GET /api/v1/ia/analises?protocolo=&classe=&pendentes=true&limite=50
+ * Lista análises do histórico para revisão
+ */
+router.get('/analises', async (req: AuthRequest, res: Response) => {
+    try {
+        const { protocolo, classe, pendentes, limite } = req.query;
+
+        const analises = await aiLearningService.listarAnalises({
+            protocolo: protocolo as string | undefined,
+            classeFinal: classe as string | undefined,
+            pendentes: pendentes === 'true',
+            limite: limite ? parseInt(limite as string, 10) : undefined
+        });
+
+        res.json({
+            success: true,
+            data: analises
+        });
+    } catch (error: any) {
+        logger.error(`[IA Revisão] Erro ao listar análises: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao listar análises',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * POST /api/v1/ia/analises/:id/validar
+ * Confirma (ou marca como incorreta) a classificação feita pela IA
+ * Body: { validado: boolean, observacoes?: string }
+ */
+router.post('/analises/:id/validar', async (req: AuthRequest, res: Response) => {
+    try {
+        const { validado, observacoes } = req.body;
+
+        if (typeof validado !== 'boolean') {
+            return res.status(400).json({
+                success: false,
+                message: 'Campo "validado" (boolean) é obrigatório'
+            });
+        }
+
+        const ok = await aiLearningService.validarAnalise(req.params.id, validado, req.user!.id, observacoes);
+
+        if (!ok) {
+            return res.status(500).json({
+                success: false,
+                message: 'Erro ao validar análise'
+            });
+        }
+
+        res.json({
+            success: true,
+            message: validado ? 'Análise confirmada' : 'Análise marcada como incorreta'
+        });
+    } catch (error: any) {
+        logger.error(`[IA Revisão] Erro ao validar análise: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao validar análise',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/ia/analises/:id/correcao
+ * Corrige uma classificação errada da IA
+ * Body: { classe_final, motivo_ia, documentos_exigidos?: string[], observacoes?: string }
+ */
+router.put('/analises/:id/correcao', async (req: AuthRequest, res: Response) => {
+    try {
+        const { classe_final, motivo_ia, documentos_exigidos, observacoes } = req.body;
+
+        if (!CLASSES_FINAIS.includes(classe_final)) {
+            return res.status(400).json({
+                success: false,
+                message: `classe_final inválida. Use: ${CLASSES_FINAIS.join(', ')}`
+            });
+        }
+
+        if (typeof motivo_ia !== 'string' || !motivo_ia.trim()) {
+            return res.status(400).json({
+                success: false,
+                message: 'motivo_ia é obrigatório'
+            });
+        }
+
+        if (documentos_exigidos !== undefined && documentos_exigidos !== null && !Array.isArray(documentos_exigidos)) {
+            return res.status(400).json({
+                success: false,
+                message: 'documentos_exigidos deve ser uma lista'
+            });
+        }
+
+        const ok = await aiLearningService.corrigirAnalise(
+            req.params.id,
+            {
+                classeFinal: classe_final,
+                motivoIA: motivo_ia.trim(),
+                documentosExigidos: documentos_exigidos
+            },
+            req.user!.id,
+            observacoes
+        );
+
+        if (!ok) {
+            return res.status(404).json({
+                success: false,
+                message: 'Análise não encontrada'
+            });
+        }
+
+        res.json({
+            success: true,
+            message: 'Classificação corrigida. Será usada como exemplo nas próximas sincronizações.'
+        });
+    } catch (error: any) {
+        logger.error(`[IA Revisão] Erro ao corrigir análise: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao corrigir análise',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * GET /api/v1/ia/estatisticas
+ * Estatísticas do sistema de aprendizado
+ */
+router.get('/estatisticas', async (_req: AuthRequest, res: Response) => {
+    try {
+        const estatisticas = await aiLearningService.obterEstatisticas();
+        res.json({
+            success: true,
+            data: estatisticas
+        });
+    } catch (error: any) {
+        logger.error(`[IA Revisão] Erro ao obter estatísticas: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao obter estatísticas',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+export default router;
@@ -16,6 +16,16 @@ import extensaoUpdateRoutes from './extensao-update.routes';
 import extensaoCodeRoutes from './extensao-code.routes';
 import extensaoConfigRoutes from './extensao-config.routes';
 import systemRoutes from './system.routes';
+import iaAprendizadoRoutes from './ia-aprendizado.routes';
+import regrasClassificacaoRoutes from './regras-classificacao.routes';
+import seletoresPatRoutes from './seletores-pat.routes';
+import templatesMensagemRoutes from './templates-mensagem.routes';
+import contatosClientesRoutes from './contatos-clientes.routes';
+import politicasLembreteRoutes from './politicas-lembrete.routes';
+import calendariosRoutes from './calendarios.routes';
+import portalParceirosRoutes from './portal-parceiros.routes';
+import arquivosRoutes from './arquivos.routes';
+import exigenciasItensRoutes from './exigencias-itens.routes';
 
 const router = Router();
 
@@ -81,6 +91,36 @@ router.use('/parceiros', parceirosRoutes);
 // Rotas de cidades
 router.use('/cidades', cidadesRoutes);
 
+// Rotas de revisão das análises da IA (exemplos few-shot)
+router.use('/ia', iaAprendizadoRoutes);
+
+// Rotas do motor de regras de classificação (apenas admin)
+router.use('/regras-classificacao', regrasClassificacaoRoutes);
+
+// Rotas dos seletores do PAT e alertas de drift (apenas admin)
+router.use('/seletores-pat', seletoresPatRoutes);
+
+// Rotas dos templates de mensagens (WhatsApp e notas) por escritório
+router.use('/templates-mensagem', templatesMensagemRoutes);
+
+// Rotas do contato e canal preferido (WhatsApp, e-mail, SMS) dos clientes
+router.use('/contatos-clientes', contatosClientesRoutes);
+
+// Rotas das políticas de lembrete (etapas, horário e fim de semana; apenas admin)
+router.use('/politicas-lembrete', politicasLembreteRoutes);
+
+// Rotas dos feeds de calendário (iCalendar) do escritório e dos parceiros
+router.use('/calendarios', calendariosRoutes);
+
+// Rotas do portal do parceiro (link mágico, processos da etiqueta PARCEIRO:NOME e envio de documentos)
+router.use('/portal-parceiros', portalParceirosRoutes);
+
+// Rotas de download de comprovantes e documentos (links assinados que expiram)
+router.use('/arquivos', arquivosRoutes);
+
+// Rotas do checklist de documentos das exigências (pendente, recebido, validado, anexado no INSS)
+router.use('/exigencias-itens', exigenciasItensRoutes);
+
 // Rotas de sincronização INSS
 router.use('/inss', inssSincronizacaoRoutes);
 
@@ -4,12 +4,13 @@ import { ExtensaoAuthController } from '../controllers/ExtensaoAuthController';
 import logger from '../utils/logger';
 import config from '../config';
 import jwt from 'jsonwebtoken';
-import Database from '../database';
 
 const router = Router();
 const controller = new SincronizacaoInssController();
 const authController = new ExtensaoAuthController();
 
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Middleware para autenticar usuário da extensão
  */
@@ -52,41 +53,32 @@ function authenticateExtensao(req: Request, res: Response, next: any) {
  * Body:
  * {
  *   "tokenPat": "AT-xxx...", // Token PAT extraído do navegador (opcional se já está nas configs)
- *   "forcarExecucao": false  // Opcional: força execução mesmo se já executou hoje
+ *   "forcarExecucao": false, // Opcional: força execução mesmo se já executou hoje
+ *   "dryRun": false          // Opcional: simula sem escrever no Tramitação, WhatsApp ou armazenamento de arquivos
  * }
+ *
+ * Em dry-run o relatório por protocolo (etiquetas, notas, atividades e mensagens)
+ * vem em resultado.simulacao no GET /api/v1/inss/status/:jobId
  */
 router.post('/sincronizar', authenticateExtensao, async (req: Request, res: Response) => {
     try {
-        const { tokenPat, forcarExecucao } = req.body;
+        const { tokenPat, forcarExecucao, dryRun } = req.body;
         const userId = (req as any).userId;
 
         // ⚠️ SEGURANÇA: Buscar credenciais diretamente do banco (não do client-side)
         // Credenciais são obtidas apenas do banco, nunca do body da requisição
-        const token = req.headers.authorization?.replace('Bearer ', '') || '';
-
-        // Buscar credenciais do banco de dados diretamente
-        const decoded = jwt.verify(token, config.jwt.secret) as any;
-        const Database = (await import('../database')).default;
-
-        const resultadoConfig = await Database.query(
-            `SELECT gemini_api_key, tramitacao_api_token, tramitacao_email, tramitacao_senha, pat_token
-             FROM usuarios_extensao 
-             WHERE id = $1`,
-            [decoded.userId]
-        );
+        const configs = await controller.carregarConfigUsuario(userId);
 
-        if (resultadoConfig.length === 0) {
+        if (!configs) {
             return res.status(401).json({
                 success: false,
                 message: 'Usuário não encontrado'
             });
         }
 
-        const configs = resultadoConfig[0];
-
         // ⚠️ SEGURANÇA: Token PAT vem apenas do body (capturado do navegador) ou do banco
         // Nunca aceitar credenciais do body, apenas token PAT
-        const tokenPatFinal = tokenPat || configs.pat_token;
+        const tokenPatFinal = tokenPat || configs.patToken;
 
         if (!tokenPatFinal) {
             return res.status(400).json({
@@ -96,33 +88,28 @@ router.post('/sincronizar', authenticateExtensao, async (req: Request, res: Resp
         }
 
         // ⚠️ SEGURANÇA: Verificar se tem credenciais obrigatórias
-        if (!configs.tramitacao_api_token) {
+        if (!configs.tramitacaoApiToken) {
             return res.status(400).json({
                 success: false,
                 message: 'Token do Tramitação é obrigatório. Configure nas configurações da extensão.'
             });
         }
 
-        logger.info(`🔄 Iniciando sincronização INSS via API para usuário ${userId}...`);
+        logger.info(`🔄 Iniciando ${dryRun === true ? 'simulação (dry-run) da ' : ''}sincronização INSS via API para usuário ${userId}...`);
 
         // ⚠️ SEGURANÇA: Usar credenciais APENAS do banco, nunca do client-side
-        // Iniciar sincronização de forma assíncrona com configurações do banco
+        // O job é enfileirado; as credenciais são lidas do banco quando ele começa a rodar
         const resultado = await controller.iniciarSincronizacao(
             tokenPatFinal,
-            forcarExecucao,
+            forcarExecucao === true,
             userId, // Passar userId para usar sessão WhatsApp específica do usuário
-            {
-                geminiApiKey: configs.gemini_api_key || undefined,
-                tramitacaoApiToken: configs.tramitacao_api_token,
-                tramitacaoEmail: configs.tramitacao_email || undefined,
-                tramitacaoSenha: configs.tramitacao_senha || undefined
-            }
+            dryRun === true
         );
 
         if (resultado.success) {
             res.json({
                 success: true,
-                message: 'Sincronização iniciada com sucesso',
+                message: dryRun === true ? 'Simulação (dry-run) iniciada com sucesso' : 'Sincronização iniciada com sucesso',
                 jobId: resultado.jobId,
                 dataInicio: resultado.dataInicio,
                 dataFim: resultado.dataFim
@@ -130,7 +117,8 @@ router.post('/sincronizar', authenticateExtensao, async (req: Request, res: Resp
         } else {
             res.status(400).json({
                 success: false,
-                message: resultado.message
+                message: resultado.message,
+                jobId: resultado.jobId
             });
         }
     } catch (error: any) {
@@ -146,12 +134,13 @@ router.post('/sincronizar', authenticateExtensao, async (req: Request, res: Resp
 /**
  * GET /api/v1/inss/status/:jobId
  * 
- * Retorna o status de uma sincronização em andamento
+ * Retorna o status de uma sincronização (lido da fila durável)
+ * Requer autenticação da extensão; só o dono do job o enxerga
  */
-router.get('/status/:jobId', async (req: Request, res: Response) => {
+router.get('/status/:jobId', authenticateExtensao, async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params;
-        const status = await controller.obterStatus(jobId);
+        const status = UUID.test(jobId) ? await controller.obterStatus(jobId, (req as any).userId) : null;
 
         if (!status) {
             return res.status(404).json({
@@ -173,6 +162,52 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/v1/inss/jobs/:jobId/cancelar
+ * 
+ * Cancela uma sincronização pendente ou pede a parada de uma em andamento
+ * (o protocolo atual é concluído antes de parar)
+ */
+router.post('/jobs/:jobId/cancelar', authenticateExtensao, async (req: Request, res: Response) => {
+    try {
+        const resultado = await controller.solicitarCancelamento(req.params.jobId, (req as any).userId);
+
+        res.status(resultado.success ? 200 : 404).json(resultado);
+    } catch (error: any) {
+        logger.error(`❌ Erro ao cancelar sincronização: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao cancelar sincronização',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * POST /api/v1/inss/jobs/:jobId/retomar
+ * 
+ * Recoloca na fila uma sincronização falha ou cancelada, continuando do último protocolo processado
+ * 
+ * Body:
+ * {
+ *   "tokenPat": "AT-xxx..." // Opcional: token novo (o do job pode ter expirado)
+ * }
+ */
+router.post('/jobs/:jobId/retomar', authenticateExtensao, async (req: Request, res: Response) => {
+    try {
+        const resultado = await controller.retomarSincronizacao(req.params.jobId, (req as any).userId, req.body?.tokenPat);
+
+        res.status(resultado.success ? 200 : 404).json(resultado);
+    } catch (error: any) {
+        logger.error(`❌ Erro ao retomar sincronização: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao retomar sincronização',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
 export default router;
 
 
@@ -1,17 +1,19 @@
 /**
  * ROTAS DE NOTIFICAÇÕES WHATSAPP
- * Para N8N consumir e enviar mensagens
+ * As mensagens ficam em whatsapp_outbox e são enviadas pelo worker do WhatsAppOutboxService;
+ * N8N consulta as mensagens e registra confirmações
  */
 
 import { Router } from 'express';
 import database from '../database';
 import logger from '../utils/logger';
+import whatsappOutboxService from '../services/WhatsAppOutboxService';
 
 const router = Router();
 
 /**
  * GET /api/v1/notificacoes/whatsapp/pendentes
- * Lista notificações WhatsApp pendentes (para N8N consumir)
+ * Lista notificações WhatsApp ainda na fila do outbox
  */
 router.get('/whatsapp/pendentes', async (req, res) => {
     try {
@@ -48,14 +50,14 @@ router.post('/whatsapp/:id/marcar-enviada', async (req, res) => {
     try {
         const { id } = req.params;
 
-        await database.getPool().query(
-            `UPDATE notificacoes_whatsapp 
-       SET enviada = true, 
-           data_envio = NOW(),
-           updated_at = NOW()
-       WHERE id = $1`,
-            [id]
-        );
+        const marcada = await whatsappOutboxService.marcarEnviada(parseInt(id, 10));
+
+        if (!marcada) {
+            return res.status(404).json({
+                success: false,
+                error: 'Notificação não encontrada ou já enviada'
+            });
+        }
 
         logger.info(`[NotificacoesAPI] Notificação ${id} marcada como enviada`);
 
@@ -78,18 +80,11 @@ router.post('/whatsapp/:id/erro', async (req, res) => {
         const { id } = req.params;
         const { erro } = req.body;
 
-        await database.getPool().query(
-            `UPDATE notificacoes_whatsapp 
-       SET tentativas = tentativas + 1,
-           erro = $2,
-           updated_at = NOW()
-       WHERE id = $1`,
-            [id, erro]
-        );
+        const retentar = await whatsappOutboxService.registrarFalha(parseInt(id, 10), erro || 'Erro não informado');
 
         logger.warn(`[NotificacoesAPI] Erro ao enviar notificação ${id}: ${erro}`);
 
-        res.json({ success: true });
+        res.json({ success: true, retentar });
     } catch (error) {
         logger.error('[NotificacoesAPI] Erro ao registrar erro:', error);
         res.status(500).json({
@@ -108,34 +103,13 @@ router.post('/whatsapp/:id/confirmacao', async (req, res) => {
         const { id } = req.params;
         const { resposta } = req.body;
 
-        await database.getPool().query(
-            `UPDATE notificacoes_whatsapp 
-       SET confirmacao_recebida = true,
-           data_confirmacao = NOW(),
-           resposta = $2,
-           updated_at = NOW()
-       WHERE id = $1`,
-            [id, resposta]
-        );
+        const registrada = await whatsappOutboxService.registrarConfirmacao(parseInt(id, 10), resposta);
 
-        // Se confirmou que enviou, criar registro
-        if (resposta?.toLowerCase().includes('enviado')) {
-            const notif = await database.getPool().query(
-                `SELECT exigencia_id FROM notificacoes_whatsapp WHERE id = $1`,
-                [id]
-            );
-
-            if (notif.rows[0]?.exigencia_id) {
-                await database.getPool().query(
-                    `INSERT INTO confirmacoes_documentos (exigencia_id, parceiro_enviou, data_envio_parceiro)
-           VALUES ($1, true, NOW())
-           ON CONFLICT (exigencia_id) DO UPDATE 
-           SET parceiro_enviou = true, data_envio_parceiro = NOW()`,
-                    [notif.rows[0].exigencia_id]
-                );
-
-                logger.info(`[NotificacoesAPI] Parceiro confirmou envio de documentos para exigência ${notif.rows[0].exigencia_id}`);
-            }
+        if (!registrada) {
+            return res.status(404).json({
+                success: false,
+                error: 'Notificação não encontrada'
+            });
         }
 
         res.json({ success: true });
@@ -277,29 +251,16 @@ router.get('/whatsapp/buscar-por-telefone', async (req, res) => {
             });
         }
 
-        const result = await database.getPool().query(
-            `SELECT nw.id, nw.processo_id, nw.exigencia_id, nw.tipo, 
-              nw.telefone_destino, nw.cidade, nw.mensagem, 
-              nw.enviada, nw.data_envio,
-              nw.confirmacao_recebida, nw.data_confirmacao
-       FROM notificacoes_whatsapp nw
-       WHERE nw.telefone_destino = $1
-         AND ($2::text IS NULL OR (
-           CASE WHEN $2 = 'ENVIADA' THEN nw.enviada = true
-                WHEN $2 = 'CONFIRMADA' THEN nw.confirmacao_recebida = true
-                ELSE true
-           END
-         ))
-       ORDER BY nw.created_at DESC 
-       LIMIT 1`,
-            [telefone, status || null]
+        const notificacao = await whatsappOutboxService.buscarPorTelefone(
+            String(telefone),
+            status === 'ENVIADA' || status === 'CONFIRMADA' ? status : null
         );
 
-        logger.info(`[NotificacoesAPI] Busca telefone ${telefone}: ${result.rows.length} encontradas`);
+        logger.info(`[NotificacoesAPI] Busca telefone ${telefone}: ${notificacao ? 1 : 0} encontradas`);
 
         res.json({
             success: true,
-            data: result.rows[0] || null
+            data: notificacao
         });
     } catch (error) {
         logger.error('[NotificacoesAPI] Erro ao buscar por telefone:', error);
@@ -321,7 +282,7 @@ router.get('/whatsapp/sem-confirmacao', async (req, res) => {
         const result = await database.getPool().query(
             `SELECT nw.id, nw.processo_id, nw.exigencia_id, nw.tipo,
               nw.telefone_destino, nw.cidade, nw.mensagem,
-              nw.data_envio, nw.tentativas,
+              nw.data_envio, nw.tentativas, nw.status,
               EXTRACT(DAY FROM (nw.created_at + INTERVAL '10 days' - CURRENT_TIMESTAMP)) as dias_restantes
        FROM notificacoes_whatsapp nw
        WHERE nw.enviada = true
@@ -357,7 +318,7 @@ router.post('/whatsapp/:id/lembrete', async (req, res) => {
         const { id } = req.params;
 
         const result = await database.getPool().query(
-            `UPDATE notificacoes_whatsapp
+            `UPDATE whatsapp_outbox
        SET lembretes_enviados = lembretes_enviados + 1,
            ultimo_lembrete = CURRENT_TIMESTAMP,
            updated_at = CURRENT_TIMESTAMP
@@ -388,5 +349,32 @@ router.post('/whatsapp/:id/lembrete', async (req, res) => {
     }
 });
 
+/**
+ * GET /api/v1/notificacoes/whatsapp/:id
+ * Situação de uma mensagem do outbox (fila, tentativas, entregue, lida)
+ */
+router.get('/whatsapp/:id(\\d+)', async (req, res) => {
+    try {
+        const mensagem = await whatsappOutboxService.obterMensagem(parseInt(req.params.id, 10));
+
+        if (!mensagem) {
+            return res.status(404).json({
+                success: false,
+                error: 'Notificação não encontrada'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: mensagem
+        });
+    } catch (error) {
+        logger.error('[NotificacoesAPI] Erro ao buscar notificação:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Erro ao buscar notificação'
+        });
+    }
+});
 
 export default router;
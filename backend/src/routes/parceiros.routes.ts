@@ -94,6 +94,7 @@ router.post('/', autenticar, async (req: Request, res: Response) => {
             nomeCompleto,
             telefone,
             email,
+            canalPreferido,
             notificarExigencia,
             notificarDeferido,
             notificarIndeferido,
@@ -120,6 +121,7 @@ router.post('/', autenticar, async (req: Request, res: Response) => {
             nomeCompleto,
             telefone,
             email,
+            canalPreferido: canalPreferido ?? 'whatsapp',
             notificarExigencia: notificarExigencia ?? true,
             notificarDeferido: notificarDeferido ?? true,
             notificarIndeferido: notificarIndeferido ?? true,
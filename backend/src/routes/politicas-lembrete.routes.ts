@@ -0,0 +1,152 @@
+import { Router, Response } from 'express';
+import { format } from 'date-fns';
+import { authenticate, authorize, AuthRequest } from '../middlewares/auth';
+import { PerfilUsuario } from '@inss-manager/shared';
+import politicasLembreteService from '../services/PoliticasLembreteService';
+import { TODOS_BENEFICIOS, dataEnvioEtapa } from '../utils/politicasLembrete';
+import logger from '../utils/logger';
+import config from '../config';
+
+const router = Router();
+
+/**
+ * Rotas das políticas de lembrete (etapas D-N, horário e fim de semana por evento e benefício)
+ * Apenas perfil 'admin' pode listar e editar
+ */
+router.use(authenticate);
+router.use(authorize([PerfilUsuario.ADMIN]));
+
+/**
+ * GET /api/v1/politicas-lembrete
+ * Lista a política em uso de cada evento e as políticas específicas por benefício
+ */
+router.get('/', async (_req: AuthRequest, res: Response) => {
+    try {
+        const politicas = await politicasLembreteService.listar();
+        res.json({
+            success: true,
+            data: politicas
+        });
+    } catch (error: any) {
+        logger.error(`[PoliticasLembrete] Erro ao listar políticas: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao listar políticas de lembrete',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/politicas-lembrete/:evento
+ * Substitui a política do evento (EXIGENCIA, PERICIA, AVALIACAO_SOCIAL), vale em até 1 minuto
+ * Body: { tipoBeneficio?: string (padrão *), etapas: [{ dias, template? }], fimDeSemana?, horarioInicio?, horarioFim? }
+ */
+router.put('/:evento', async (req: AuthRequest, res: Response) => {
+    try {
+        const { evento } = req.params;
+        if (!politicasLembreteService.eventoExiste(evento)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Evento de lembrete não encontrado'
+            });
+        }
+
+        const { tipoBeneficio, ...politica } = req.body || {};
+        const erros = politicasLembreteService.validar(politica);
+        if (erros.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Política inválida',
+                erros
+            });
+        }
+
+        await politicasLembreteService.salvar(evento, tipoBeneficio || TODOS_BENEFICIOS, politica, req.user?.id);
+        res.json({
+            success: true,
+            message: 'Política de lembrete atualizada'
+        });
+    } catch (error: any) {
+        logger.error(`[PoliticasLembrete] Erro ao atualizar política: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao atualizar política de lembrete',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * DELETE /api/v1/politicas-lembrete/:evento?tipoBeneficio=BPC
+ * Remove a política do benefício (sem tipoBeneficio: a do evento, que volta ao padrão do código)
+ */
+router.delete('/:evento', async (req: AuthRequest, res: Response) => {
+    try {
+        const { evento } = req.params;
+        if (!politicasLembreteService.eventoExiste(evento)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Evento de lembrete não encontrado'
+            });
+        }
+
+        await politicasLembreteService.restaurarPadrao(evento, (req.query.tipoBeneficio as string) || TODOS_BENEFICIOS);
+        res.json({
+            success: true,
+            message: 'Política de lembrete restaurada'
+        });
+    } catch (error: any) {
+        logger.error(`[PoliticasLembrete] Erro ao restaurar política: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao restaurar política de lembrete',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * GET /api/v1/politicas-lembrete/:evento/calendario?data=2026-11-20&tipoBeneficio=BPC
+ * Em que dia sai cada etapa para um evento na data informada (com o tratamento de fim de semana)
+ */
+router.get('/:evento/calendario', async (req: AuthRequest, res: Response) => {
+    try {
+        const { evento } = req.params;
+        if (!politicasLembreteService.eventoExiste(evento)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Evento de lembrete não encontrado'
+            });
+        }
+
+        const data = new Date(`${req.query.data}T00:00:00`);
+        if (!req.query.data || isNaN(data.getTime())) {
+            return res.status(400).json({
+                success: false,
+                message: 'Informe data no formato yyyy-MM-dd'
+            });
+        }
+
+        const politica = await politicasLembreteService.obter(evento, req.query.tipoBeneficio as string | undefined);
+        res.json({
+            success: true,
+            data: {
+                politica,
+                etapas: politica.etapas.map(etapa => ({
+                    ...etapa,
+                    envio: format(dataEnvioEtapa(data, etapa, politica.fimDeSemana), 'yyyy-MM-dd')
+                }))
+            }
+        });
+    } catch (error: any) {
+        logger.error(`[PoliticasLembrete] Erro ao montar calendário: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao montar calendário de lembretes',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+export default router;
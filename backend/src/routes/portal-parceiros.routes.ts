@@ -0,0 +1,144 @@
+/**
+ * Rotas do portal do parceiro (login por link mágico, processos da etiqueta PARCEIRO:NOME)
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import portalParceirosService from '../services/PortalParceirosService';
+import config from '../config';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Middleware de autenticação (sessão do portal, não da extensão)
+const autenticar = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            return res.status(401).json({ success: false, message: 'Token não fornecido' });
+        }
+
+        const token = authHeader.substring(7);
+        const resultado = await portalParceirosService.verificarToken(token);
+
+        if (!resultado.valid || !resultado.parceiroId) {
+            return res.status(401).json({ success: false, message: 'Sessão expirada, peça um novo link de acesso' });
+        }
+
+        (req as any).parceiroId = resultado.parceiroId;
+        next();
+    } catch (error: any) {
+        logger.error(`[Portal Parceiros] Erro de autenticação: ${error.message}`);
+        res.status(401).json({ success: false, message: 'Erro de autenticação' });
+    }
+};
+
+/**
+ * POST /api/v1/portal-parceiros/acesso
+ * Body: { contato } (telefone ou e-mail cadastrado pelo escritório)
+ */
+router.post('/acesso', async (req: Request, res: Response) => {
+    try {
+        const { contato } = req.body || {};
+        if (!contato || typeof contato !== 'string') {
+            return res.status(400).json({ success: false, message: 'Informe o telefone ou o e-mail' });
+        }
+
+        await portalParceirosService.solicitarAcesso(contato, req.ip);
+
+        // Mesma resposta com ou sem cadastro
+        res.json({
+            success: true,
+            message: 'Se o contato estiver cadastrado, você receberá o link de acesso em instantes',
+        });
+    } catch (error: any) {
+        logger.error(`[Portal Parceiros] Erro ao solicitar acesso: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao solicitar acesso' });
+    }
+});
+
+/**
+ * POST /api/v1/portal-parceiros/entrar
+ * Body: { token } (do link mágico)
+ */
+router.post('/entrar', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body || {};
+        const sessao = await portalParceirosService.entrar(typeof token === 'string' ? token : '');
+
+        if (!sessao) {
+            return res.status(401).json({ success: false, message: 'Link inválido, expirado ou já utilizado' });
+        }
+
+        res.json({ success: true, ...sessao });
+    } catch (error: any) {
+        logger.error(`[Portal Parceiros] Erro ao entrar: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao entrar no portal' });
+    }
+});
+
+/**
+ * GET /api/v1/portal-parceiros/processos
+ */
+router.get('/processos', autenticar, async (req: Request, res: Response) => {
+    try {
+        const processos = await portalParceirosService.listarProcessos((req as any).parceiroId);
+        res.json({ success: true, processos });
+    } catch (error: any) {
+        logger.error(`[Portal Parceiros] Erro ao listar processos: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao listar processos' });
+    }
+});
+
+/**
+ * GET /api/v1/portal-parceiros/processos/:id
+ */
+router.get('/processos/:id', autenticar, async (req: Request, res: Response) => {
+    try {
+        const processo = await portalParceirosService.detalharProcesso((req as any).parceiroId, req.params.id);
+
+        if (!processo) {
+            return res.status(404).json({ success: false, message: 'Processo não encontrado' });
+        }
+
+        res.json({ success: true, processo });
+    } catch (error: any) {
+        logger.error(`[Portal Parceiros] Erro ao detalhar processo: ${error.message}`);
+        res.status(500).json({ success: false, message: 'Erro ao carregar o processo' });
+    }
+});
+
+/**
+ * POST /api/v1/portal-parceiros/processos/:id/documentos?nome=&exigenciaId=&item=
+ * Corpo: o arquivo (PDF ou imagem), com o Content-Type dele
+ */
+router.post(
+    '/processos/:id/documentos',
+    autenticar,
+    express.raw({ type: () => true, limit: `${config.portal.tamanhoMaximoUploadMb}mb` }),
+    async (req: Request, res: Response) => {
+        try {
+            if (!Buffer.isBuffer(req.body)) {
+                return res.status(400).json({ success: false, message: 'Arquivo não enviado' });
+            }
+
+            const documento = await portalParceirosService.enviarDocumento((req as any).parceiroId, req.params.id, {
+                dados: req.body,
+                mimetype: req.headers['content-type'] || '',
+                nomeArquivo: typeof req.query.nome === 'string' ? req.query.nome : '',
+                exigenciaId: typeof req.query.exigenciaId === 'string' ? req.query.exigenciaId : null,
+                item: typeof req.query.item === 'string' ? req.query.item : null,
+            });
+
+            if (!documento) {
+                return res.status(404).json({ success: false, message: 'Processo não encontrado' });
+            }
+
+            res.status(201).json({ success: true, documento });
+        } catch (error: any) {
+            logger.error(`[Portal Parceiros] Erro ao enviar documento: ${error.message}`);
+            res.status(400).json({ success: false, message: error.message });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,177 @@
+import { Router, Response } from 'express';
+import { authenticate, authorize, AuthRequest } from '../middlewares/auth';
+import { PerfilUsuario } from '@inss-manager/shared';
+import regrasClassificacaoService from '../services/RegrasClassificacaoService';
+import logger from '../utils/logger';
+import config from '../config';
+
+const router = Router();
+
+/**
+ * Rotas das regras de classificação de despachos (motor de regras antes do LLM)
+ * Apenas perfil 'admin' pode listar e editar
+ */
+router.use(authenticate);
+router.use(authorize([PerfilUsuario.ADMIN]));
+
+/**
+ * GET /api/v1/regras-classificacao
+ * Lista todas as regras (ativas e inativas)
+ */
+router.get('/', async (_req: AuthRequest, res: Response) => {
+    try {
+        const regras = await regrasClassificacaoService.listar();
+        res.json({
+            success: true,
+            data: regras
+        });
+    } catch (error: any) {
+        logger.error(`[Regras] Erro ao listar regras: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao listar regras',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * POST /api/v1/regras-classificacao
+ * Cria uma regra
+ * Body: { nome, classeFinal, prioridade?, confianca?, escopo?, padroesTodos?, padroesQualquer?,
+ *         padroesExcluir?, motivo?, documentos?, prazoDiasPadrao?, tipoIndeferimento?, ativo? }
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const erros = regrasClassificacaoService.validar(req.body);
+        if (erros.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Regra inválida',
+                erros
+            });
+        }
+
+        const regra = await regrasClassificacaoService.criar(req.body, req.user?.id);
+        res.status(201).json({
+            success: true,
+            data: regra
+        });
+    } catch (error: any) {
+        if (error.code === '23505') {
+            return res.status(409).json({
+                success: false,
+                message: 'Já existe uma regra com este nome'
+            });
+        }
+        logger.error(`[Regras] Erro ao criar regra: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao criar regra',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/regras-classificacao/:id
+ * Atualiza campos de uma regra (mesmos campos do POST, todos opcionais)
+ */
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const erros = regrasClassificacaoService.validar(req.body, true);
+        if (erros.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Regra inválida',
+                erros
+            });
+        }
+
+        const regra = await regrasClassificacaoService.atualizar(parseInt(req.params.id, 10), req.body, req.user?.id);
+        if (!regra) {
+            return res.status(404).json({
+                success: false,
+                message: 'Regra não encontrada ou nenhum campo informado'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: regra
+        });
+    } catch (error: any) {
+        logger.error(`[Regras] Erro ao atualizar regra: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao atualizar regra',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * DELETE /api/v1/regras-classificacao/:id
+ * Remove uma regra (para apenas desligar, use PUT com { ativo: false })
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const removida = await regrasClassificacaoService.remover(parseInt(req.params.id, 10));
+        if (!removida) {
+            return res.status(404).json({
+                success: false,
+                message: 'Regra não encontrada'
+            });
+        }
+
+        res.json({
+            success: true,
+            message: 'Regra removida'
+        });
+    } catch (error: any) {
+        logger.error(`[Regras] Erro ao remover regra: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao remover regra',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * POST /api/v1/regras-classificacao/testar
+ * Aplica as regras ativas sobre cards de exemplo, sem chamar o LLM
+ * Body: { cards: [{ data: "DD/MM/YYYY", texto: "..." }] } ou { texto: "..." }
+ */
+router.post('/testar', async (req: AuthRequest, res: Response) => {
+    try {
+        const { cards, texto } = req.body;
+        const cardsTeste = Array.isArray(cards) ? cards : texto ? [{ data: new Date(), texto }] : [];
+
+        if (cardsTeste.length === 0 || cardsTeste.some((card: any) => typeof card?.texto !== 'string')) {
+            return res.status(400).json({
+                success: false,
+                message: 'Informe "cards" (lista com data e texto) ou "texto"'
+            });
+        }
+
+        const resultado = await regrasClassificacaoService.testar(cardsTeste);
+        res.json({
+            success: true,
+            data: {
+                resultado,
+                dispensaLLM: !!resultado && resultado.confianca >= config.regras.confiancaMinima,
+                confiancaMinima: config.regras.confiancaMinima
+            }
+        });
+    } catch (error: any) {
+        logger.error(`[Regras] Erro ao testar regras: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao testar regras',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+export default router;
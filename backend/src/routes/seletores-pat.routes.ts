@@ -0,0 +1,106 @@
+import { Router, Response } from 'express';
+import { authenticate, authorize, AuthRequest } from '../middlewares/auth';
+import { PerfilUsuario } from '@inss-manager/shared';
+import seletoresPatService from '../services/SeletoresPatService';
+import logger from '../utils/logger';
+import config from '../config';
+
+const router = Router();
+
+/**
+ * Rotas dos seletores do PAT (estratégias por campo e estado de drift)
+ * Apenas perfil 'admin' pode listar e editar
+ */
+router.use(authenticate);
+router.use(authorize([PerfilUsuario.ADMIN]));
+
+/**
+ * GET /api/v1/seletores-pat
+ * Lista os campos com as estratégias em uso, os padrões do código e o estado de drift
+ */
+router.get('/', async (_req: AuthRequest, res: Response) => {
+    try {
+        const seletores = await seletoresPatService.listar();
+        res.json({
+            success: true,
+            data: seletores
+        });
+    } catch (error: any) {
+        logger.error(`[SeletoresPat] Erro ao listar seletores: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao listar seletores',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * PUT /api/v1/seletores-pat/:campo
+ * Substitui as estratégias do campo (a primeira é a principal), vale em até 1 minuto
+ * Body: { estrategias: [{ tipo: 'xpath' | 'css' | 'texto' | 'aria', valor, escopo?, subir?, irmao?, alvo? }] }
+ */
+router.put('/:campo', async (req: AuthRequest, res: Response) => {
+    try {
+        const { campo } = req.params;
+        if (!seletoresPatService.campoExiste(campo)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Campo de seletor não encontrado'
+            });
+        }
+
+        const erros = seletoresPatService.validar(req.body?.estrategias);
+        if (erros.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Estratégias inválidas',
+                erros
+            });
+        }
+
+        await seletoresPatService.atualizar(campo, req.body.estrategias, req.user?.id);
+        res.json({
+            success: true,
+            message: 'Seletor atualizado'
+        });
+    } catch (error: any) {
+        logger.error(`[SeletoresPat] Erro ao atualizar seletor: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao atualizar seletor',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+/**
+ * DELETE /api/v1/seletores-pat/:campo
+ * Volta o campo para as estratégias padrão do código
+ */
+router.delete('/:campo', async (req: AuthRequest, res: Response) => {
+    try {
+        const { campo } = req.params;
+        if (!seletoresPatService.campoExiste(campo)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Campo de seletor não encontrado'
+            });
+        }
+
+        await seletoresPatService.restaurarPadrao(campo, req.user?.id);
+        res.json({
+            success: true,
+            message: 'Seletor restaurado para o padrão'
+        });
+    } catch (error: any) {
+        logger.error(`[SeletoresPat] Erro ao restaurar seletor: ${error.message}`, error);
+        res.status(500).json({
+            success: false,
+            message: 'Erro ao restaurar seletor',
+            error: config.env === 'development' ? error.message : undefined
+        });
+    }
+});
+
+export default router;
@@ -159,7 +159,7 @@ router.post('/discovery/test', async (req: Request, res: Response) => {
  * Use as rotas autenticadas em extensao-auth.routes.ts:
  * - GET  /api/v1/extensao/whatsapp/status
  * - GET  /api/v1/extensao/whatsapp/qr-code
- * - POST /api/v1/extensao/whatsapp/limpar-sessao
+ * - POST /api/v1/extensao/whatsapp/desconectar
  * - POST /api/v1/extensao/whatsapp/testar-envio
  */
 
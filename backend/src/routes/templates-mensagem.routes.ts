@@ -0,0 +1,148 @@
+/**
+ * Rotas dos templates de mensagens (WhatsApp e notas do Tramitação)
+ *
+ * Cada escritório (usuário da extensão) edita os textos dos seus eventos.
+ * Eventos e variáveis disponíveis: GET /api/v1/templates-mensagem
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import templatesMensagemService from '../services/TemplatesMensagemService';
+import whatsappOutboxService from '../services/WhatsAppOutboxService';
+import { autenticarExtensao } from '../middlewares/autenticarExtensao';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Evento da URL precisa existir
+const validarEvento = (req: Request, res: Response, next: NextFunction) => {
+    if (!templatesMensagemService.eventoExiste(req.params.evento)) {
+        return res.status(404).json({ success: false, message: `Evento desconhecido: ${req.params.evento}` });
+    }
+    next();
+};
+
+/**
+ * GET /api/v1/templates-mensagem
+ * Lista os eventos com o template atual, o padrão e as variáveis disponíveis
+ */
+router.get('/', autenticarExtensao, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const templates = await templatesMensagemService.listar(userId);
+
+        res.json({ success: true, templates, total: templates.length });
+    } catch (error: any) {
+        logger.error(`[TemplatesMensagem] Erro ao listar: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * PUT /api/v1/templates-mensagem/:evento
+ * Substitui o template do evento
+ * Body: { conteudo, titulo? } (titulo só para eventos NOTA_*)
+ */
+router.put('/:evento', autenticarExtensao, validarEvento, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { evento } = req.params;
+        const { titulo, conteudo } = req.body;
+
+        const erros = templatesMensagemService.validar(evento, { titulo, conteudo });
+        if (erros.length > 0) {
+            return res.status(400).json({ success: false, message: 'Template inválido', erros });
+        }
+
+        await templatesMensagemService.salvar(userId, evento, { titulo, conteudo });
+        const preview = await templatesMensagemService.preview(evento, userId);
+
+        res.json({ success: true, message: 'Template atualizado', preview });
+    } catch (error: any) {
+        logger.error(`[TemplatesMensagem] Erro ao salvar: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * DELETE /api/v1/templates-mensagem/:evento
+ * Volta o evento para o template padrão
+ */
+router.delete('/:evento', autenticarExtensao, validarEvento, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        await templatesMensagemService.restaurarPadrao(userId, req.params.evento);
+
+        res.json({ success: true, message: 'Template padrão restaurado' });
+    } catch (error: any) {
+        logger.error(`[TemplatesMensagem] Erro ao restaurar: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/templates-mensagem/:evento/preview
+ * Renderiza com os dados de exemplo o template informado (ou o atual)
+ * Body: { conteudo?, titulo?, dados? }
+ */
+router.post('/:evento/preview', autenticarExtensao, validarEvento, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { evento } = req.params;
+        const { titulo, conteudo, dados } = req.body;
+
+        if (conteudo !== undefined) {
+            const erros = templatesMensagemService.validar(evento, { titulo, conteudo });
+            if (erros.length > 0) {
+                return res.status(400).json({ success: false, message: 'Template inválido', erros });
+            }
+        }
+
+        const preview = await templatesMensagemService.preview(evento, userId, conteudo !== undefined ? { titulo, conteudo } : undefined, dados);
+        res.json({ success: true, preview });
+    } catch (error: any) {
+        logger.error(`[TemplatesMensagem] Erro no preview: ${error.message}`);
+        res.status(400).json({ success: false, message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/templates-mensagem/:evento/testar-envio
+ * Envia pelo WhatsApp do escritório o preview do template (o informado ou o atual)
+ * Body: { telefone, conteudo?, titulo? }
+ */
+router.post('/:evento/testar-envio', autenticarExtensao, validarEvento, async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).userId;
+        const { evento } = req.params;
+        const { telefone, titulo, conteudo } = req.body;
+
+        if (!telefone) {
+            return res.status(400).json({ success: false, message: 'telefone é obrigatório' });
+        }
+
+        if (conteudo !== undefined) {
+            const erros = templatesMensagemService.validar(evento, { titulo, conteudo });
+            if (erros.length > 0) {
+                return res.status(400).json({ success: false, message: 'Template inválido', erros });
+            }
+        }
+
+        const preview = await templatesMensagemService.preview(evento, userId, conteudo !== undefined ? { titulo, conteudo } : undefined);
+        const mensagem = preview.titulo ? `*${preview.titulo}*\n\n${preview.texto}` : preview.texto;
+
+        const id = await whatsappOutboxService.enfileirar({
+            telefone,
+            mensagem,
+            usuarioId: userId,
+            origem: 'teste',
+            tipo: 'TESTE_TEMPLATE',
+        });
+
+        res.json({ success: true, message: 'Mensagem de teste enfileirada', id, preview });
+    } catch (error: any) {
+        logger.error(`[TemplatesMensagem] Erro no envio de teste: ${error.message}`);
+        res.status(500).json({ success: false, message: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,147 @@
+/**
+ * Avaliação offline da classificação de despachos do INSS
+ *
+ * Reexecuta o corpus (backend/corpus/classificacao/casos) pelo motor de regras e/ou
+ * pelo LLM e imprime precisão/recall por classe, comparando com o último baseline.
+ * Nada é gravado no histórico da IA.
+ *
+ * Uso:
+ *   npm run avaliar:classificacao                        # motor de regras (sem LLM)
+ *   npm run avaliar:classificacao -- --modo ia           # só o LLM (LLM_PROVIDER do .env)
+ *   npm run avaliar:classificacao -- --modo completo     # regras + LLM, como na sincronização
+ *
+ * Opções:
+ *   --atualizar-baseline   grava o resultado como novo baseline do modo
+ *   --com-exemplos         usa exemplos few-shot do banco (desligado: o corpus pode ter vindo do histórico)
+ *   --falhar-em-regressao  sai com código 1 se algum caso que acertava passar a errar
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import Database from '../database';
+import { AIService } from '../services/AIService';
+import regrasClassificacaoService from '../services/RegrasClassificacaoService';
+import { CLASSES_FINAIS, criarProvedorLLM } from '../services/llm';
+import {
+    CasoCorpus,
+    ModoAvaliacao,
+    PredicaoCaso,
+    RelatorioAvaliacao,
+    calcularMetricas,
+    carregarCorpus,
+    compararComBaseline,
+    formatarRelatorio,
+} from '../utils/avaliacaoCorpus';
+
+const DIRETORIO_CORPUS = path.resolve(__dirname, '../../corpus/classificacao');
+const MODOS: ModoAvaliacao[] = ['regras', 'ia', 'completo'];
+
+function lerArgumentos() {
+    const args = process.argv.slice(2);
+    const indiceModo = args.indexOf('--modo');
+    const modo = (indiceModo >= 0 ? args[indiceModo + 1] : 'regras') as ModoAvaliacao;
+
+    if (!MODOS.includes(modo)) {
+        throw new Error(`Modo inválido: ${modo}. Use: ${MODOS.join(', ')}`);
+    }
+
+    return {
+        modo,
+        atualizarBaseline: args.includes('--atualizar-baseline'),
+        comExemplos: args.includes('--com-exemplos'),
+        falharEmRegressao: args.includes('--falhar-em-regressao'),
+    };
+}
+
+async function classificarPorRegras(casos: CasoCorpus[]): Promise<Map<string, PredicaoCaso>> {
+    const regras = await regrasClassificacaoService.obterRegrasAtivas();
+    console.log(`📏 ${regras.length} regra(s) ativa(s)\n`);
+
+    const predicoes = new Map<string, PredicaoCaso>();
+    for (const caso of casos) {
+        const resultado = await regrasClassificacaoService.testar(caso.cards.slice(-3), regras);
+        // Abaixo da confiança mínima a sincronização chamaria o LLM: conta como "sem regra"
+        if (resultado && resultado.confianca >= config.regras.confiancaMinima) {
+            predicoes.set(caso.id, { ...resultado, origem: `regra:${resultado.regraNome}` });
+        }
+    }
+    return predicoes;
+}
+
+async function classificarPorIA(
+    casos: CasoCorpus[],
+    modo: ModoAvaliacao,
+    comExemplos: boolean
+): Promise<Map<string, PredicaoCaso>> {
+    const aiService = new AIService(
+        undefined,
+        criarProvedorLLM({ geminiApiKey: config.gemini.apiKey }),
+        { usarRegras: modo === 'completo', usarExemplos: comExemplos, registrarHistorico: false }
+    );
+
+    if (!aiService.isConfigured()) {
+        throw new Error(`Provedor de LLM "${aiService.getProviderNome()}" não configurado (verifique LLM_* no .env)`);
+    }
+    console.log(`🤖 Provedor: ${aiService.getProviderNome()}\n`);
+
+    const predicoes = new Map<string, PredicaoCaso>();
+    for (const [indice, caso] of casos.entries()) {
+        console.log(`   [${indice + 1}/${casos.length}] ${caso.id}`);
+        const resultado = await aiService.analisarTextoInss(caso.cards, `corpus-${caso.id}`);
+        // O AIService devolve EM_ANALISE com confiança 0 quando o LLM falha
+        predicoes.set(caso.id, resultado.confianca === 0 && resultado.classe_final === 'EM_ANALISE'
+            ? { ...resultado, erro: resultado.motivo_ia }
+            : resultado);
+    }
+    console.log('');
+    return predicoes;
+}
+
+async function avaliarClassificacao() {
+    let codigoSaida = 0;
+
+    try {
+        const { modo, atualizarBaseline, comExemplos, falharEmRegressao } = lerArgumentos();
+        const casos = carregarCorpus(path.join(DIRETORIO_CORPUS, 'casos'), CLASSES_FINAIS);
+        console.log(`📚 ${casos.length} caso(s) no corpus | modo: ${modo}\n`);
+
+        const predicoes = modo === 'regras'
+            ? await classificarPorRegras(casos)
+            : await classificarPorIA(casos, modo, comExemplos);
+
+        const relatorio = calcularMetricas(modo, casos, predicoes);
+
+        const arquivoBaseline = path.join(DIRETORIO_CORPUS, 'baselines', `${modo}.json`);
+        const baseline: RelatorioAvaliacao | null = fs.existsSync(arquivoBaseline)
+            ? JSON.parse(fs.readFileSync(arquivoBaseline, 'utf8'))
+            : null;
+        const diferenca = baseline ? compararComBaseline(relatorio, baseline) : null;
+
+        console.log(formatarRelatorio(relatorio, diferenca).join('\n'));
+
+        if (!baseline) {
+            console.log(`\nℹ️  Nenhum baseline para o modo "${modo}". Use --atualizar-baseline para criar.`);
+        }
+
+        if (atualizarBaseline) {
+            fs.mkdirSync(path.dirname(arquivoBaseline), { recursive: true });
+            fs.writeFileSync(arquivoBaseline, `${JSON.stringify(relatorio, null, 2)}\n`);
+            console.log(`\n💾 Baseline atualizado: ${path.relative(process.cwd(), arquivoBaseline)}`);
+        }
+
+        if (falharEmRegressao && diferenca && diferenca.regressoes.length > 0) {
+            console.error(`\n❌ ${diferenca.regressoes.length} regressão(ões) em relação ao baseline`);
+            codigoSaida = 1;
+        }
+    } catch (error: any) {
+        console.error('❌ Erro:', error.message);
+        codigoSaida = 1;
+    } finally {
+        await Database.close();
+        process.exit(codigoSaida);
+    }
+}
+
+avaliarClassificacao();
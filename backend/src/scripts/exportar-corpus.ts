@@ -0,0 +1,97 @@
+/**
+ * Exporta análises revisadas pela equipe para o corpus de avaliação
+ *
+ * Lê as análises confirmadas/corrigidas de exigencias_ia_historico, anonimiza
+ * CPF, NIT, telefones, e-mails e nomes e grava um caso JSON por análise em
+ * backend/corpus/classificacao/casos. Casos já exportados não são sobrescritos
+ * (podem ter sido ajustados à mão).
+ *
+ * O histórico não guarda prazo nem tipo de indeferimento: preencha
+ * esperado.data_evento / esperado.tipo_indeferimento nos casos exportados quando quiser avaliá-los.
+ *
+ * Uso:
+ *   npm run corpus:exportar
+ *   npm run corpus:exportar -- --limite 500 --classe EXIGENCIA
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import Database from '../database';
+import aiLearningService from '../services/AILearningService';
+import { CasoCorpus, separarCardsTextoBruto } from '../utils/avaliacaoCorpus';
+import { anonimizarTexto, pseudonimo } from '../utils/anonimizacao';
+
+const DIRETORIO_CASOS = path.resolve(__dirname, '../../corpus/classificacao/casos');
+
+function lerArgumento(nome: string): string | undefined {
+    const args = process.argv.slice(2);
+    const indice = args.indexOf(nome);
+    return indice >= 0 ? args[indice + 1] : undefined;
+}
+
+function formatarData(data: Date): string {
+    return `${String(data.getDate()).padStart(2, '0')}/${String(data.getMonth() + 1).padStart(2, '0')}/${data.getFullYear()}`;
+}
+
+async function exportarCorpus() {
+    let codigoSaida = 0;
+
+    try {
+        const limite = parseInt(lerArgumento('--limite') || '200', 10);
+        const classe = lerArgumento('--classe');
+
+        const analises = await aiLearningService.listarRevisadasParaCorpus(limite, classe);
+        console.log(`📋 ${analises.length} análise(s) revisada(s) encontrada(s)\n`);
+
+        fs.mkdirSync(DIRETORIO_CASOS, { recursive: true });
+        let exportados = 0;
+        let existentes = 0;
+
+        for (const analise of analises) {
+            const id = `hist-${pseudonimo(analise.id)}`;
+            const arquivo = path.join(DIRETORIO_CASOS, `${id}.json`);
+            if (fs.existsSync(arquivo)) {
+                existentes++;
+                continue;
+            }
+
+            const nomesConhecidos = analise.nome_segurado ? [analise.nome_segurado] : [];
+            const cards = separarCardsTextoBruto(analise.texto_bruto, formatarData(new Date(analise.created_at)))
+                .map(card => ({
+                    data: card.data,
+                    texto: anonimizarTexto(card.texto, nomesConhecidos)
+                        .split(analise.protocolo_inss).join('000000000'),
+                }));
+
+            const caso: CasoCorpus = {
+                id,
+                origem: 'historico',
+                cards,
+                esperado: {
+                    classe_final: analise.classe_final,
+                },
+            };
+            if (analise.documentos_exigidos && analise.documentos_exigidos.length > 0) {
+                caso.esperado.documentos_exigidos = analise.documentos_exigidos.map(
+                    (documento: string) => anonimizarTexto(documento, nomesConhecidos)
+                );
+            }
+
+            fs.writeFileSync(arquivo, `${JSON.stringify(caso, null, 2)}\n`);
+            exportados++;
+        }
+
+        console.log(`✅ ${exportados} caso(s) exportado(s), ${existentes} já existia(m)`);
+        console.log(`📁 ${path.relative(process.cwd(), DIRETORIO_CASOS)}`);
+        console.log('\n⚠️  Revise os textos antes de versionar: a anonimização de nomes é heurística.');
+    } catch (error: any) {
+        console.error('❌ Erro:', error.message);
+        codigoSaida = 1;
+    } finally {
+        await Database.close();
+        process.exit(codigoSaida);
+    }
+}
+
+exportarCorpus();
@@ -0,0 +1,51 @@
+/**
+ * Rotação das chaves do cofre de credenciais
+ *
+ * Troca da chave mestra:
+ *   1. gere a nova chave (openssl rand -base64 32) e coloque em COFRE_CHAVE_MESTRA
+ *   2. mova a chave antiga para COFRE_CHAVES_ANTERIORES
+ *   3. rode este script: as chaves de dados passam a ser cifradas com a chave nova
+ *   4. retire a chave antiga de COFRE_CHAVES_ANTERIORES
+ *
+ * Com --chaves-dados, cada segredo também ganha uma chave de dados nova (recifra o valor).
+ *
+ * Uso:
+ *   npm run cofre:rotacionar
+ *   npm run cofre:rotacionar -- --chaves-dados
+ *   npm run cofre:rotacionar -- --chaves-dados --usuario <id do escritório>
+ */
+
+import 'dotenv/config';
+import Database from '../database';
+import cofreCredenciaisService from '../services/CofreCredenciaisService';
+
+function lerArgumento(nome: string): string | undefined {
+    const args = process.argv.slice(2);
+    const indice = args.indexOf(nome);
+    return indice >= 0 ? args[indice + 1] : undefined;
+}
+
+async function rotacionarCofre() {
+    let codigoSaida = 0;
+
+    try {
+        const { credenciais, jobs } = await cofreCredenciaisService.rotacionarChaveMestra();
+        console.log(`🔑 Chave mestra: ${credenciais} credencial(is) e ${jobs} job(s) recifrado(s)`);
+
+        if (process.argv.includes('--chaves-dados')) {
+            const usuario = lerArgumento('--usuario');
+            const trocadas = await cofreCredenciaisService.rotacionarChavesDados(usuario);
+            console.log(`🔑 Chaves de dados: ${trocadas} segredo(s) recifrado(s)${usuario ? ` do escritório ${usuario}` : ''}`);
+        }
+
+        console.log('\n✅ Rotação concluída. As chaves de COFRE_CHAVES_ANTERIORES já podem ser removidas.');
+    } catch (error: any) {
+        console.error('❌ Erro:', error.message);
+        codigoSaida = 1;
+    } finally {
+        await Database.close();
+        process.exit(codigoSaida);
+    }
+}
+
+rotacionarCofre();
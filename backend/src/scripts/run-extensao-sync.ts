@@ -146,7 +146,7 @@ async function executarSincronizacao(options: SyncOptions) {
     let jobFinalizado = false;
 
     while (!jobFinalizado) {
-        const status = await sincronizacaoController.obterStatus(jobId);
+        const status = await sincronizacaoController.obterStatus(jobId, login.user.id);
         if (!status) {
             throw new Error('Job não encontrado. Verifique os logs do servidor.');
         }
@@ -13,6 +13,9 @@
  *    - EXTENSAO_TRAMITACAO_TOKEN (opcional)
  * 
  * 2. Execute: npm run simular-extensao
+ *    - --forcar: enfileira mesmo com outra sincronização em andamento
+ *    - --dry-run: processa os protocolos reais sem escrever no Tramitação, WhatsApp ou armazenamento de arquivos
+ *      e imprime o relatório por protocolo (etiquetas, notas, atividades e mensagens)
  * 
  * Este script simula exatamente o que a extensão faz ao clicar no botão de sincronização.
  */
@@ -63,6 +66,7 @@ interface StatusResponse {
             clientesAtualizados: number;
             notificacoesEnviadas: number;
             erros: string[];
+            simulacao?: Array<{ protocolo: string; efeitos: Array<{ tipo: string;[campo: string]: any }> }>;
         };
         erro?: string;
     };
@@ -139,14 +143,20 @@ async function atualizarConfig(
     logger.info('[Simulação] ✅ Configurações atualizadas!');
 }
 
-async function iniciarSincronizacao(token: string, patToken: string, forcarExecucao: boolean = false): Promise<string> {
-    logger.info('[Simulação] 🚀 Iniciando sincronização INSS...');
+async function iniciarSincronizacao(
+    token: string,
+    patToken: string,
+    forcarExecucao: boolean = false,
+    dryRun: boolean = false
+): Promise<string> {
+    logger.info(`[Simulação] 🚀 Iniciando sincronização INSS${dryRun ? ' (dry-run)' : ''}...`);
 
     const response = await axios.post<SyncResponse>(
         `${BASE_URL}/inss/sincronizar`,
         {
             tokenPat: patToken,
-            forcarExecucao
+            forcarExecucao,
+            dryRun
         },
         {
             headers: {
@@ -163,7 +173,36 @@ async function iniciarSincronizacao(token: string, patToken: string, forcarExecu
     return response.data.jobId;
 }
 
-async function monitorarStatus(jobId: string): Promise<void> {
+function imprimirRelatorioSimulacao(
+    jobId: string,
+    simulacao: Array<{ protocolo: string; efeitos: Array<{ tipo: string;[campo: string]: any }> }>
+): void {
+    logger.info(`[Job ${jobId}] 🧪 Relatório do dry-run (nada foi gravado):`);
+
+    for (const { protocolo, efeitos } of simulacao) {
+        logger.info(`\n📋 Protocolo ${protocolo}: ${efeitos.length} efeito(s)`);
+
+        for (const efeito of efeitos) {
+            switch (efeito.tipo) {
+                case 'etiquetas':
+                    logger.info(`  🏷️ Etiquetas: +[${efeito.adicionadas.join(', ')}] -[${efeito.removidas.join(', ')}]`);
+                    break;
+                case 'nota':
+                    logger.info(`  📝 Nota "${efeito.titulo}":\n${efeito.texto}`);
+                    break;
+                case 'whatsapp':
+                    logger.info(`  📱 WhatsApp para ${efeito.telefone}:\n${efeito.mensagem}`);
+                    break;
+                default: {
+                    const { tipo, ...dados } = efeito;
+                    logger.info(`  • ${tipo}: ${JSON.stringify(dados)}`);
+                }
+            }
+        }
+    }
+}
+
+async function monitorarStatus(token: string, jobId: string): Promise<void> {
     logger.info(`[Simulação] 👀 Monitorando job ${jobId}...`);
 
     let concluido = false;
@@ -172,7 +211,11 @@ async function monitorarStatus(jobId: string): Promise<void> {
 
     while (!concluido && tentativas < maxTentativas) {
         try {
-            const response = await axios.get<StatusResponse>(`${BASE_URL}/inss/status/${jobId}`);
+            const response = await axios.get<StatusResponse>(`${BASE_URL}/inss/status/${jobId}`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`
+                }
+            });
 
             if (!response.data.success || !response.data.status) {
                 throw new Error('Status não disponível');
@@ -208,6 +251,10 @@ async function monitorarStatus(jobId: string): Promise<void> {
                         logger.warn(`[Job ${jobId}] ⚠️ Erros durante execução:`);
                         status.resultado.erros.forEach(erro => logger.warn(`  - ${erro}`));
                     }
+
+                    if (status.resultado.simulacao) {
+                        imprimirRelatorioSimulacao(jobId, status.resultado.simulacao);
+                    }
                 }
             } else if (status.status === 'failed') {
                 throw new Error(status.erro || 'Job falhou sem detalhes');
@@ -270,10 +317,11 @@ async function main() {
 
         // 4. Iniciar Sincronização
         const forcarExecucao = process.argv.includes('--forcar');
-        const jobId = await iniciarSincronizacao(token, patToken, forcarExecucao);
+        const dryRun = process.argv.includes('--dry-run');
+        const jobId = await iniciarSincronizacao(token, patToken, forcarExecucao, dryRun);
 
         // 5. Monitorar Status
-        await monitorarStatus(jobId);
+        await monitorarStatus(token, jobId);
 
         logger.info('\n========================================');
         logger.info('✅ SIMULAÇÃO CONCLUÍDA COM SUCESSO!');
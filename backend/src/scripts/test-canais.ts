@@ -0,0 +1,74 @@
+/**
+ * Envia uma notificação de teste por e-mail e/ou SMS (sem banco nem WhatsApp)
+ *
+ * Para o e-mail basta um SMTP de captura local:
+ *   docker run -p 1025:1025 -p 8025:8025 axllent/mailpit
+ *   SMTP_HOST=localhost SMTP_PORT=1025 npm run test:canais -- --email=teste@exemplo.com
+ *   (mensagem e anexo em http://localhost:8025)
+ *
+ * Uso: npm run test:canais -- [--email=destino] [--sms=5577999998888] [--anexo=https://.../comprovante.pdf]
+ */
+
+import { CanalEmail, CanalSms, ContatoNotificacao, NotificacaoCanal } from '../services/canais';
+import logger from '../utils/logger';
+
+function argumento(nome: string): string | undefined {
+    const arg = process.argv.find(a => a.startsWith(`--${nome}=`));
+    return arg ? arg.substring(nome.length + 3) : undefined;
+}
+
+async function main(): Promise<void> {
+    const email = argumento('email');
+    const sms = argumento('sms');
+    const anexo = argumento('anexo');
+
+    if (!email && !sms) {
+        logger.error('Informe --email=destino e/ou --sms=telefone');
+        process.exit(1);
+    }
+
+    const notificacao: NotificacaoCanal = {
+        assunto: 'Teste de notificação - INSS Manager',
+        mensagem: [
+            '⏰ *LEMBRETE: PERÍCIA MÉDICA PRÓXIMA* ⏰',
+            '',
+            '*Cliente*: Maria da Silva',
+            '*Data e Hora*: 20/11/2026 às 09:30',
+            '*Unidade*: APS Vitória da Conquista',
+            '',
+            '_Mensagem de teste dos canais de notificação_',
+        ].join('\n'),
+        anexos: anexo ? [{ nomeArquivo: 'comprovante-teste.pdf', url: anexo, contentType: 'application/pdf' }] : [],
+        origem: 'teste',
+        tipo: 'TESTE_CANAL',
+    };
+
+    const envios: Array<{ canal: CanalEmail | CanalSms; contato: ContatoNotificacao }> = [];
+    if (email) {
+        envios.push({ canal: new CanalEmail(), contato: { tipo: 'CLIENTE', nome: 'Teste', canal: 'email', email } });
+    }
+    if (sms) {
+        envios.push({ canal: new CanalSms(), contato: { tipo: 'CLIENTE', nome: 'Teste', canal: 'sms', telefone: sms } });
+    }
+
+    let falhas = 0;
+    for (const { canal, contato } of envios) {
+        if (!canal.estaConfigurado()) {
+            logger.error(`❌ Canal ${canal.tipo} não configurado (veja SMTP_* / SMS_GATEWAY_* no .env)`);
+            falhas++;
+            continue;
+        }
+
+        try {
+            await canal.enviar(contato, notificacao);
+            logger.info(`✅ ${canal.tipo}: enviado`);
+        } catch (error: any) {
+            logger.error(`❌ ${canal.tipo}: ${error.message}`);
+            falhas++;
+        }
+    }
+
+    process.exit(falhas > 0 ? 1 : 0);
+}
+
+main();
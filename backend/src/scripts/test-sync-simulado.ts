@@ -4,6 +4,9 @@
  * Simula todo o fluxo da plataforma com dados fictícios,
  * sem necessidade de PAT Token real.
  * 
+ * Para testar prompts, etiquetas e parceiros com dados reais do PAT sem tocar
+ * no Tramitação/WhatsApp, use o dry-run: npm run simular:extensao -- --dry-run
+ * 
  * Uso: npx tsx src/scripts/test-sync-simulado.ts
  */
 
@@ -908,11 +908,11 @@ async function testarFluxoCompleto() {
                             cpf: detalhes.cpf.replace(/\D/g, '')
                         };
 
-                        // Extrair detalhes completos (incluindo download do PDF e upload para Backblaze)
+                        // Extrair detalhes completos (incluindo download do PDF e gravação no armazenamento)
                         const detalhesAgendamentoTeste = await agendamentosService.extrairDetalhesAgendamento(page, agendamentoTeste);
 
                         if (detalhesAgendamentoTeste && detalhesAgendamentoTeste.urlComprovante) {
-                            logger.info(`🧪 [TESTE] ✅ PDF baixado e enviado para Backblaze: ${detalhesAgendamentoTeste.urlComprovante}`);
+                            logger.info(`🧪 [TESTE] ✅ PDF baixado e guardado no armazenamento: ${detalhesAgendamentoTeste.urlComprovante}`);
 
                             // Cadastrar atividade no Tramitação (como no fluxo normal)
                             const atividadeCriada = await tramitacaoSyncService.cadastrarAtividade(
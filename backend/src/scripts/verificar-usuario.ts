@@ -4,6 +4,7 @@
 
 import Database from '../database';
 import logger from '../utils/logger';
+import cofreCredenciaisService from '../services/CofreCredenciaisService';
 
 async function verificarEAtualizarUsuario() {
     try {
@@ -11,8 +12,7 @@ async function verificarEAtualizarUsuario() {
 
         // Buscar usuário
         const usuarios = await Database.query(
-            `SELECT id, email, nome, gemini_api_key, tramitacao_api_token, 
-                    tramitacao_email, tramitacao_senha, pat_token, licenca_valida_ate
+            `SELECT id, email, nome, tramitacao_email, licenca_valida_ate
              FROM usuarios_extensao 
              WHERE email = $1`,
             ['gerald.morais.0192@gmail.com']
@@ -25,6 +25,7 @@ async function verificarEAtualizarUsuario() {
         }
 
         const usuario = usuarios[0];
+        const segredos = await cofreCredenciaisService.configuradas(usuario.id);
         logger.info('✅ Usuário encontrado!');
         logger.info(`   ID: ${usuario.id}`);
         logger.info(`   Nome: ${usuario.nome}`);
@@ -32,25 +33,25 @@ async function verificarEAtualizarUsuario() {
         logger.info(`   Licença válida até: ${usuario.licenca_valida_ate}`);
         logger.info('');
         logger.info('📋 Configurações atuais:');
-        logger.info(`   Gemini API Key: ${usuario.gemini_api_key ? '✅ Configurado' : '❌ Não configurado'}`);
-        logger.info(`   Tramitação API Token: ${usuario.tramitacao_api_token ? '✅ Configurado' : '❌ Não configurado'}`);
+        logger.info(`   Gemini API Key: ${segredos.has('gemini_api_key') ? '✅ Configurado' : '❌ Não configurado'}`);
+        logger.info(`   Tramitação API Token: ${segredos.has('tramitacao_api_token') ? '✅ Configurado' : '❌ Não configurado'}`);
         logger.info(`   Tramitação Email: ${usuario.tramitacao_email || '❌ Não configurado'}`);
-        logger.info(`   Tramitação Senha: ${usuario.tramitacao_senha ? '✅ Configurado' : '❌ Não configurado'}`);
-        logger.info(`   PAT Token: ${usuario.pat_token ? '✅ Configurado' : '❌ Não configurado'}`);
+        logger.info(`   Tramitação Senha: ${segredos.has('tramitacao_senha') ? '✅ Configurado' : '❌ Não configurado'}`);
+        logger.info(`   PAT Token: ${segredos.has('pat_token') ? '✅ Configurado' : '❌ Não configurado'}`);
         logger.info('');
 
         // Atualizar credenciais do Tramitação se não configuradas
-        if (!usuario.tramitacao_email || !usuario.tramitacao_senha) {
+        if (!usuario.tramitacao_email || !segredos.has('tramitacao_senha')) {
             logger.info('🔧 Atualizando credenciais do Tramitação...');
 
             await Database.query(
                 `UPDATE usuarios_extensao 
                  SET tramitacao_email = $1, 
-                     tramitacao_senha = $2,
                      atualizado_em = NOW()
-                 WHERE email = $3`,
-                ['gerald.morais.0192@gmail.com', 'Bb200330**', 'gerald.morais.0192@gmail.com']
+                 WHERE email = $2`,
+                ['gerald.morais.0192@gmail.com', 'gerald.morais.0192@gmail.com']
             );
+            await cofreCredenciaisService.gravar(usuario.id, 'tramitacao_senha', 'Bb200330**', 'script');
 
             logger.info('✅ Credenciais do Tramitação atualizadas!');
             logger.info('   Email: gerald.morais.0192@gmail.com');
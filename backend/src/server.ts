@@ -1,10 +1,12 @@
 import express, { Application, Request, Response, NextFunction } from 'express';
+import path from 'path';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import config from './config';
 import logger from './utils/logger';
 import database from './database';
+import armazenamentoService from './services/armazenamento';
 
 // Importar rotas
 import apiRoutes from './routes';
@@ -151,6 +153,9 @@ class Server {
         // API routes v1
         this.app.use('/api/v1', apiRoutes);
 
+        // Portal do parceiro (página estática; a API fica em /api/v1/portal-parceiros)
+        this.app.use('/portal', express.static(path.join(__dirname, '../portal-parceiros')));
+
         // Root redirect
         this.app.get('/', (req: Request, res: Response) => {
             res.json({
@@ -216,6 +221,9 @@ class Server {
 
     public async start(): Promise<void> {
         try {
+            // Segredo dos links assinados de download: obrigatório e exclusivo
+            armazenamentoService.validarConfiguracao();
+
             // Testar conexão com banco de dados (não-bloqueante em desenvolvimento)
             const dbConnected = await database.testConnection();
             if (!dbConnected) {
@@ -299,9 +307,8 @@ class Server {
         logger.info('Encerrando servidor...');
 
         try {
-            // WhatsApp Service agora gerencia múltiplas sessões por usuário
-            // Não há necessidade de desconectar globalmente no shutdown
-            // Cada sessão será limpa quando o usuário desconectar
+            // WhatsApp Service gerencia uma sessão por usuário da extensão
+            // e encerra todas elas nos próprios handlers de SIGINT/SIGTERM
 
             await database.close();
             logger.info('Conexões fechadas com sucesso');
@@ -317,14 +324,38 @@ class Server {
 const server = new Server();
 server.start();
 
-// Inicializar WhatsApp Service automaticamente
+// Inicializar WhatsApp Service automaticamente (sessão central e sessões salvas dos escritórios)
 (async () => {
+    // Saúde das sessões: registrada antes da inicialização para acompanhar a primeira conexão
+    const saudeWhatsAppService = (await import('./services/SaudeWhatsAppService')).default;
+    saudeWhatsAppService.iniciar();
+
     try {
         const whatsappService = (await import('./services/WhatsAppService')).default;
-        await whatsappService.inicializar();
+        await whatsappService.inicializarSessoesSalvas();
     } catch (error) {
         logger.error('Erro ao inicializar WhatsApp Service no startup', error);
     }
+
+    // Outbox: envia as mensagens enfileiradas (espera as sessões conectarem)
+    const whatsappOutboxService = (await import('./services/WhatsAppOutboxService')).default;
+    whatsappOutboxService.iniciarWorker();
+
+    // Respostas e documentos enviados pelos clientes às notificações
+    const whatsappEntradaService = (await import('./services/WhatsAppEntradaService')).default;
+    whatsappEntradaService.iniciar();
+
+    // Conferência de comparecimento às perícias/avaliações sociais que já passaram
+    const comparecimentoAgendamentosService = (await import('./services/ComparecimentoAgendamentosService')).default;
+    comparecimentoAgendamentosService.iniciar();
+
+    // Fila da sincronização INSS: jobs interrompidos (reinício do servidor) e reagendados com backoff
+    const { SincronizacaoInssController } = await import('./controllers/SincronizacaoInssController');
+    new SincronizacaoInssController().iniciarWorkerFila();
+
+    // OCR + IA dos documentos enviados pelos clientes (tipo, dados extraídos, vínculo com a exigência)
+    const classificacaoDocumentosService = (await import('./services/ClassificacaoDocumentosService')).default;
+    classificacaoDocumentosService.iniciar();
 })();
 
 export default server.app;
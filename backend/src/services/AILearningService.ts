@@ -6,12 +6,16 @@
  * Funcionalidades:
  * 1. Registrar todas as análises feitas pela IA
  * 2. Buscar exemplos similares para usar como contexto
- * 3. Validar análises para melhorar aprendizado
+ * 3. Validar/corrigir análises para melhorar aprendizado
  * 4. Usar exemplos mais relevantes nos prompts (sem exceder tokens)
+ *
+ * Apenas análises confirmadas por alguém da equipe (validarAnalise/corrigirAnalise)
+ * são usadas como exemplos few-shot.
  */
 
 import Database from '../database';
 import logger from '../utils/logger';
+import { LLMProvider } from './llm';
 
 interface ExigenciaHistorico {
     id: string;
@@ -25,7 +29,7 @@ interface ExigenciaHistorico {
     created_at: Date;
 }
 
-interface ExemploSimilar {
+export interface ExemploSimilar {
     texto_bruto: string;
     classe_final: string;
     motivo_ia: string;
@@ -33,7 +37,20 @@ interface ExemploSimilar {
     similaridade: number;
 }
 
+/**
+ * Filtro SQL dos exemplos elegíveis para few-shot (revisados por humanos)
+ * Registros antigos gravados com validado = true automaticamente não têm validado_por
+ */
+const FILTRO_REVISADOS = 'validado = true AND validado_por IS NOT NULL';
+
 class AILearningService {
+    // Similaridade de cosseno mínima para um exemplo entrar no prompt
+    private readonly SIMILARIDADE_MINIMA = 0.75;
+    // Quantidade de embeddings pendentes gerados por busca (evita rajada de chamadas)
+    private readonly LOTE_EMBEDDINGS = 20;
+    // Máximo de exemplos revisados comparados em memória
+    private readonly MAX_CANDIDATOS = 500;
+
     /**
      * Registra uma análise de exigência no histórico (Logger robusto de dataset)
      * Tratamento de erro silencioso: NUNCA trava o fluxo principal
@@ -68,7 +85,7 @@ class AILearningService {
                 INSERT INTO exigencias_ia_historico (
                     protocolo_inss, texto_bruto, classe_final, motivo_ia,
                     documentos_exigidos, confianca, validado
-                ) VALUES ($1, $2, $3, $4, $5, $6, true)
+                ) VALUES ($1, $2, $3, $4, $5, $6, false)
                 RETURNING id
             `, [
                 dados.protocolo,
@@ -93,26 +110,85 @@ class AILearningService {
     }
 
     /**
-     * Busca exemplos similares de exigências anteriores
-     * Usa busca full-text e similaridade de palavras-chave
+     * Registra uma resposta da IA que falhou na validação de schema
+     * Guarda o texto bruto para auditar classificações erradas
+     * Tratamento de erro silencioso: NUNCA trava o fluxo principal
+     */
+    async registrarRespostaRejeitada(dados: {
+        protocolo: string;
+        provedor: string;
+        tentativa: number;
+        respostaBruta: string;
+        erros: string[];
+    }): Promise<string | null> {
+        try {
+            const result = await Database.query(`
+                INSERT INTO ia_respostas_rejeitadas (
+                    protocolo_inss, provedor, tentativa, resposta_bruta, erros_validacao
+                ) VALUES ($1, $2, $3, $4, $5)
+                RETURNING id
+            `, [
+                dados.protocolo,
+                dados.provedor,
+                dados.tentativa,
+                dados.respostaBruta || '',
+                JSON.stringify(dados.erros)
+            ]);
+
+            const id = result[0]?.id;
+            logger.warn(`[AILearning] 🚫 Resposta da IA rejeitada registrada: Protocolo ${dados.protocolo} (tentativa ${dados.tentativa}, ID: ${id})`);
+            return id || null;
+        } catch (error: any) {
+            logger.warn(`[AILearning] ⚠️ Erro ao registrar resposta rejeitada (não crítico, continuando): ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Marca uma rejeição como reparada (a tentativa seguinte passou na validação)
+     */
+    async marcarRejeicaoReparada(id: string): Promise<void> {
+        try {
+            await Database.query(
+                'UPDATE ia_respostas_rejeitadas SET reparada = true WHERE id = $1',
+                [id]
+            );
+        } catch (error: any) {
+            logger.warn(`[AILearning] ⚠️ Erro ao marcar rejeição como reparada: ${error.message}`);
+        }
+    }
+
+    /**
+     * Busca exemplos similares de exigências anteriores revisadas pela equipe
+     * Usa embeddings do provedor quando disponíveis; senão, busca full-text por palavras-chave
      * 
      * @param textoBruto Texto da exigência atual
      * @param limite Máximo de exemplos a retornar (padrão: 5)
      * @param minConfianca Confiança mínima dos exemplos (padrão: 0.7)
+     * @param provider Provedor de LLM usado para gerar os embeddings
      * @returns Array de exemplos similares ordenados por relevância
      */
     async buscarExemplosSimilares(
         textoBruto: string,
         limite: number = 5,
-        minConfianca: number = 0.7
+        minConfianca: number = 0.7,
+        provider?: LLMProvider
     ): Promise<ExemploSimilar[]> {
+        if (provider?.gerarEmbedding && provider.modeloEmbedding && provider.isConfigured()) {
+            try {
+                return await this.buscarExemplosPorEmbedding(textoBruto, limite, provider);
+            } catch (error: any) {
+                logger.warn(`[AILearning] ⚠️ Busca por embedding falhou, usando palavras-chave: ${error.message}`);
+            }
+        }
+
         try {
             // Extrair palavras-chave do texto (remover stopwords comuns)
             const palavrasChave = this.extrairPalavrasChave(textoBruto);
 
             if (palavrasChave.length === 0) {
-                logger.warn('[AILearning] ⚠️ Nenhuma palavra-chave extraída, retornando exemplos gerais');
-                return await this.buscarExemplosGerais(limite, minConfianca);
+                logger.warn('[AILearning] ⚠️ Nenhuma palavra-chave extraída, sem exemplos');
+                return [];
             }
 
             // Buscar usando similaridade de texto (PostgreSQL tsvector)
@@ -125,77 +201,128 @@ class AILearningService {
                     confianca,
                     ts_rank(
                         to_tsvector('portuguese', texto_bruto),
-                        plainto_tsquery('portuguese', $1)
+                        to_tsquery('portuguese', $1)
                     ) as similaridade
                 FROM exigencias_ia_historico
                 WHERE 
                     confianca >= $2
-                    AND (validado = true OR validado IS NULL)
-                    AND to_tsvector('portuguese', texto_bruto) @@ plainto_tsquery('portuguese', $1)
+                    AND ${FILTRO_REVISADOS}
+                    AND to_tsvector('portuguese', texto_bruto) @@ to_tsquery('portuguese', $1)
                 ORDER BY similaridade DESC, confianca DESC, created_at DESC
                 LIMIT $3
             `;
 
-            const termosBusca = palavrasChave.join(' & ');
+            const termosBusca = palavrasChave.join(' | ');
             const result = await Database.query(query, [termosBusca, minConfianca, limite]);
 
-            const exemplos: ExemploSimilar[] = result.map((row: any) => ({
-                texto_bruto: row.texto_bruto,
-                classe_final: row.classe_final,
-                motivo_ia: row.motivo_ia,
-                documentos_exigidos: Array.isArray(row.documentos_exigidos)
-                    ? row.documentos_exigidos
-                    : JSON.parse(row.documentos_exigidos || '[]'),
-                similaridade: parseFloat(row.similaridade) || 0
-            }));
-
-            logger.info(`[AILearning] ✅ ${exemplos.length} exemplo(s) similar(es) encontrado(s)`);
+            const exemplos: ExemploSimilar[] = result.map((row: any) => this.mapearExemplo(row, parseFloat(row.similaridade) || 0));
+
+            logger.info(`[AILearning] ✅ ${exemplos.length} exemplo(s) similar(es) encontrado(s) por palavras-chave`);
             return exemplos;
 
         } catch (error: any) {
             logger.error(`[AILearning] ❌ Erro ao buscar exemplos similares: ${error.message}`);
-            // Fallback: buscar exemplos gerais
-            return await this.buscarExemplosGerais(limite, minConfianca);
+            return [];
         }
     }
 
     /**
-     * Busca exemplos gerais (quando não há similaridade específica)
+     * Busca por similaridade de cosseno entre o embedding do texto atual
+     * e os embeddings das análises revisadas (gerados sob demanda)
      */
-    private async buscarExemplosGerais(
-        limite: number = 5,
-        minConfianca: number = 0.7
+    private async buscarExemplosPorEmbedding(
+        textoBruto: string,
+        limite: number,
+        provider: LLMProvider
     ): Promise<ExemploSimilar[]> {
-        try {
-            const result = await Database.query(`
-                SELECT 
-                    texto_bruto,
-                    classe_final,
-                    motivo_ia,
-                    documentos_exigidos,
-                    confianca,
-                    0.5 as similaridade
-                FROM exigencias_ia_historico
-                WHERE 
-                    confianca >= $1
-                    AND (validado = true OR validado IS NULL)
-                ORDER BY confianca DESC, created_at DESC
-                LIMIT $2
-            `, [minConfianca, limite]);
-
-            return result.map((row: any) => ({
-                texto_bruto: row.texto_bruto,
-                classe_final: row.classe_final,
-                motivo_ia: row.motivo_ia,
-                documentos_exigidos: Array.isArray(row.documentos_exigidos)
-                    ? row.documentos_exigidos
-                    : JSON.parse(row.documentos_exigidos || '[]'),
-                similaridade: 0.5
-            }));
-        } catch (error: any) {
-            logger.error(`[AILearning] ❌ Erro ao buscar exemplos gerais: ${error.message}`);
+        const modelo = provider.modeloEmbedding as string;
+
+        await this.gerarEmbeddingsPendentes(provider);
+
+        const vetorAtual = await provider.gerarEmbedding!(this.textoParaEmbedding(textoBruto));
+        if (vetorAtual.length === 0) {
             return [];
         }
+
+        const candidatos = await Database.query(`
+            SELECT texto_bruto, classe_final, motivo_ia, documentos_exigidos, embedding
+            FROM exigencias_ia_historico
+            WHERE ${FILTRO_REVISADOS}
+              AND embedding_modelo = $1
+              AND embedding IS NOT NULL
+            ORDER BY validado_em DESC
+            LIMIT $2
+        `, [modelo, this.MAX_CANDIDATOS]);
+
+        const exemplos = candidatos
+            .map((row: any) => this.mapearExemplo(row, this.similaridadeCosseno(vetorAtual, row.embedding || [])))
+            .filter((exemplo: ExemploSimilar) => exemplo.similaridade >= this.SIMILARIDADE_MINIMA)
+            .sort((a: ExemploSimilar, b: ExemploSimilar) => b.similaridade - a.similaridade)
+            .slice(0, limite);
+
+        logger.info(`[AILearning] ✅ ${exemplos.length} exemplo(s) revisado(s) similar(es) encontrado(s) (${modelo})`);
+        return exemplos;
+    }
+
+    /**
+     * Gera embeddings das análises revisadas que ainda não têm vetor para o modelo atual
+     * Processa um lote por chamada para não atrasar a sincronização
+     */
+    private async gerarEmbeddingsPendentes(provider: LLMProvider): Promise<void> {
+        const modelo = provider.modeloEmbedding as string;
+
+        const pendentes = await Database.query(`
+            SELECT id, texto_bruto
+            FROM exigencias_ia_historico
+            WHERE ${FILTRO_REVISADOS}
+              AND (embedding IS NULL OR embedding_modelo IS DISTINCT FROM $1)
+            ORDER BY validado_em DESC
+            LIMIT $2
+        `, [modelo, this.LOTE_EMBEDDINGS]);
+
+        for (const pendente of pendentes) {
+            const vetor = await provider.gerarEmbedding!(this.textoParaEmbedding(pendente.texto_bruto));
+            await Database.query(
+                'UPDATE exigencias_ia_historico SET embedding = $1, embedding_modelo = $2 WHERE id = $3',
+                [vetor, modelo, pendente.id]
+            );
+        }
+
+        if (pendentes.length > 0) {
+            logger.info(`[AILearning] 🧮 ${pendentes.length} embedding(s) gerado(s) para análises revisadas`);
+        }
+    }
+
+    private textoParaEmbedding(texto: string): string {
+        // Limite conservador para caber na janela dos modelos de embedding
+        return (texto || '').substring(0, 8000);
+    }
+
+    private similaridadeCosseno(a: number[], b: number[]): number {
+        if (a.length === 0 || a.length !== b.length) {
+            return 0;
+        }
+        let produto = 0;
+        let normaA = 0;
+        let normaB = 0;
+        for (let i = 0; i < a.length; i++) {
+            produto += a[i] * b[i];
+            normaA += a[i] * a[i];
+            normaB += b[i] * b[i];
+        }
+        return normaA && normaB ? produto / (Math.sqrt(normaA) * Math.sqrt(normaB)) : 0;
+    }
+
+    private mapearExemplo(row: any, similaridade: number): ExemploSimilar {
+        return {
+            texto_bruto: row.texto_bruto,
+            classe_final: row.classe_final,
+            motivo_ia: row.motivo_ia,
+            documentos_exigidos: Array.isArray(row.documentos_exigidos)
+                ? row.documentos_exigidos
+                : JSON.parse(row.documentos_exigidos || '[]'),
+            similaridade
+        };
     }
 
     /**
@@ -254,6 +381,120 @@ class AILearningService {
         }
     }
 
+    /**
+     * Corrige uma classificação errada da IA
+     * A análise corrigida passa a ser um exemplo revisado (usado nas próximas sincronizações)
+     * e a classificação original da IA fica preservada em *_original
+     */
+    async corrigirAnalise(
+        historicoId: string,
+        correcao: {
+            classeFinal: string;
+            motivoIA: string;
+            documentosExigidos?: string[] | null;
+        },
+        corrigidoPor: string,
+        observacoes?: string
+    ): Promise<boolean> {
+        try {
+            const result = await Database.query(`
+                UPDATE exigencias_ia_historico
+                SET 
+                    classe_final_original = COALESCE(classe_final_original, classe_final),
+                    motivo_ia_original = COALESCE(motivo_ia_original, motivo_ia),
+                    classe_final = $1,
+                    motivo_ia = $2,
+                    documentos_exigidos = $3,
+                    confianca = 1.0,
+                    validado = true,
+                    validado_por = $4,
+                    validado_em = NOW(),
+                    observacoes_validacao = $5,
+                    updated_at = NOW()
+                WHERE id = $6
+                RETURNING id
+            `, [
+                correcao.classeFinal,
+                correcao.motivoIA,
+                correcao.documentosExigidos && correcao.documentosExigidos.length > 0 ? correcao.documentosExigidos : null,
+                corrigidoPor,
+                observacoes || null,
+                historicoId
+            ]);
+
+            if (result.length === 0) {
+                return false;
+            }
+
+            logger.info(`[AILearning] ✏️ Análise ${historicoId} corrigida para ${correcao.classeFinal}`);
+            return true;
+        } catch (error: any) {
+            logger.error(`[AILearning] ❌ Erro ao corrigir análise: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Lista análises do histórico para revisão da equipe
+     */
+    async listarAnalises(filtros: {
+        protocolo?: string;
+        classeFinal?: string;
+        pendentes?: boolean;
+        limite?: number;
+    } = {}): Promise<any[]> {
+        const condicoes: string[] = [];
+        const valores: any[] = [];
+
+        if (filtros.protocolo) {
+            valores.push(filtros.protocolo);
+            condicoes.push(`protocolo_inss = $${valores.length}`);
+        }
+        if (filtros.classeFinal) {
+            valores.push(filtros.classeFinal);
+            condicoes.push(`classe_final = $${valores.length}`);
+        }
+        if (filtros.pendentes) {
+            condicoes.push('validado_por IS NULL');
+        }
+
+        valores.push(Math.min(filtros.limite || 50, 200));
+
+        return Database.query(`
+            SELECT 
+                id, protocolo_inss, texto_bruto, classe_final, motivo_ia, documentos_exigidos,
+                confianca, validado, validado_por, validado_em, observacoes_validacao,
+                classe_final_original, motivo_ia_original, created_at
+            FROM exigencias_ia_historico
+            ${condicoes.length > 0 ? `WHERE ${condicoes.join(' AND ')}` : ''}
+            ORDER BY created_at DESC
+            LIMIT $${valores.length}
+        `, valores);
+    }
+
+    /**
+     * Lista análises revisadas pela equipe com o nome do segurado
+     * Usado para exportar o corpus de avaliação (o nome serve apenas para anonimizar o texto)
+     */
+    async listarRevisadasParaCorpus(limite: number, classeFinal?: string): Promise<any[]> {
+        const valores: any[] = [limite];
+        if (classeFinal) {
+            valores.push(classeFinal);
+        }
+
+        return Database.query(`
+            SELECT
+                h.id, h.protocolo_inss, h.texto_bruto, h.classe_final, h.documentos_exigidos,
+                h.created_at, p.nome_segurado
+            FROM exigencias_ia_historico h
+            LEFT JOIN processos p ON p.protocolo_inss = h.protocolo_inss
+            WHERE ${FILTRO_REVISADOS}
+            ${classeFinal ? 'AND h.classe_final = $2' : ''}
+            ORDER BY h.validado_em DESC
+            LIMIT $1
+        `, valores);
+    }
+
     /**
      * Formata exemplos similares para incluir no prompt da IA
      * Limita tamanho para não exceder tokens
@@ -263,7 +504,7 @@ class AILearningService {
             return '';
         }
 
-        let texto = '\n\nEXEMPLOS DE ANÁLISES SIMILARES (para referência):\n\n';
+        let texto = '\n\nEXEMPLOS DE ANÁLISES SIMILARES REVISADAS PELA EQUIPE (para referência):\n\n';
         let tokensUsados = 0;
 
         for (const exemplo of exemplos) {
@@ -271,6 +512,7 @@ class AILearningService {
 Exemplo ${exemplos.indexOf(exemplo) + 1}:
 Texto: "${exemplo.texto_bruto.substring(0, 200)}..."
 Classe: ${exemplo.classe_final}
+Motivo: ${exemplo.motivo_ia}
 Documentos: ${exemplo.documentos_exigidos.join(', ')}
 ---
 `;
@@ -302,7 +544,7 @@ Documentos: ${exemplo.documentos_exigidos.join(', ')}
             const stats = await Database.query(`
                 SELECT 
                     COUNT(*) as total,
-                    COUNT(*) FILTER (WHERE validado = true) as validadas,
+                    COUNT(*) FILTER (WHERE ${FILTRO_REVISADOS}) as validadas,
                     AVG(confianca) as confianca_media
                 FROM exigencias_ia_historico
             `);
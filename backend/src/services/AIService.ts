@@ -1,57 +1,91 @@
 import config from '../config';
 import logger from '../utils/logger';
-import aiLearningService from './AILearningService';
-
-interface ResultadoAnaliseIA {
-    classe_final:
-    | 'DEFERIDO'
-    | 'INDEFERIDO'
-    | 'EXIGENCIA'
-    | 'PERICIA'
-    | 'RECURSO'
-    | 'CANCELADO'
-    | 'EM_ANALISE'
-    | 'PENDENTE'
-    | 'DUPLICADO';
+import aiLearningService, { ExemploSimilar } from './AILearningService';
+import regrasClassificacaoService from './RegrasClassificacaoService';
+import {
+    LLMProvider,
+    criarProvedorLLM,
+    CLASSES_FINAIS,
+    RespostaAnaliseIA,
+    respostaAnaliseSchema,
+    respostaAnaliseJsonSchema,
+    RespostaClassificacaoDocumento,
+    respostaClassificacaoDocumentoSchema,
+    respostaClassificacaoDocumentoJsonSchema,
+    TIPOS_DOCUMENTO_CLIENTE,
+    formatarErrosZod,
+} from './llm';
+
+export interface ResultadoAnaliseIA {
+    classe_final: typeof CLASSES_FINAIS[number];
     motivo_ia: string;
     documentos_exigidos?: string[];
     data_evento?: Date;
     confianca: number;
     tipo_indeferimento?: 'CULPA' | 'MERITO'; // Novo campo: classificação do tipo de indeferimento
+    origem?: 'regra' | 'ia'; // Quem classificou: motor de regras ou LLM
+    regra?: string; // Nome da regra que disparou (quando origem = 'regra')
+}
+
+export interface OpcoesAIService {
+    /** Aplica o motor de regras antes do LLM (padrão: true) */
+    usarRegras?: boolean;
+    /** Busca exemplos few-shot revisados no histórico (padrão: true) */
+    usarExemplos?: boolean;
+    /** Grava análises e respostas rejeitadas no banco (padrão: true; desligado na avaliação offline) */
+    registrarHistorico?: boolean;
 }
 
 /**
  * Serviço de Inteligência Artificial
  * Responsável por analisar textos do INSS e extrair informações estruturadas
- * usando o Google Gemini AI
+ * usando o provedor de LLM configurado (Gemini, OpenAI-compatível, Ollama ou fake)
  */
 export class AIService {
-    private apiKey: string;
-    private model: string;
-    private captchaModel: string;
+    private provider: LLMProvider;
+    private opcoes: Required<OpcoesAIService>;
 
-    constructor(apiKey?: string) {
+    /**
+     * @param apiKey API key do Gemini (usada quando nenhum provedor é informado)
+     * @param provider Provedor de LLM já configurado (ex: escolhido pelo usuário ou fake em testes)
+     * @param opcoes Liga/desliga etapas da análise (regras, exemplos, gravação no histórico)
+     */
+    constructor(apiKey?: string, provider?: LLMProvider, opcoes: OpcoesAIService = {}) {
         // ⚠️ SEGURANÇA: NUNCA usar fallback de API key padrão em produção
         // API key deve ser sempre fornecida pelo usuário
         // Warnings só serão exibidos quando o serviço for realmente usado sem credenciais
-        this.apiKey = apiKey || '';
-        this.model = config.gemini.model || 'gemini-2.0-flash';
-        this.captchaModel = config.gemini.captchaModel || 'gemini-2.0-flash-lite';
+        this.provider = provider || criarProvedorLLM({ geminiApiKey: apiKey || '' });
+        this.opcoes = {
+            usarRegras: opcoes.usarRegras ?? true,
+            usarExemplos: opcoes.usarExemplos ?? true,
+            registrarHistorico: opcoes.registrarHistorico ?? true,
+        };
     }
 
     /**
      * Define uma nova API key dinamicamente
-     * Útil para usar credenciais específicas de cada usuário
+     * Útil para usar credenciais específicas de cada usuário (apenas provedor Gemini)
      */
     setApiKey(apiKey: string): void {
         if (!apiKey || apiKey.trim() === '') {
             logger.warn('[AIService] Tentativa de definir API key vazia, mantendo atual');
             return;
         }
-        this.apiKey = apiKey.trim();
+        if (this.provider.nome !== 'gemini') {
+            logger.warn(`[AIService] API key do Gemini ignorada: provedor atual é ${this.provider.nome}`);
+            return;
+        }
+        this.provider = criarProvedorLLM({ provider: 'gemini', geminiApiKey: apiKey.trim() });
         logger.info('[AIService] API key atualizada dinamicamente');
     }
 
+    /**
+     * Nome do provedor de LLM em uso
+     */
+    getProviderNome(): string {
+        return this.provider.nome;
+    }
+
     /**
      * Analisa o texto bruto extraído do INSS
      * @param textoInss Texto completo da página de detalhes do protocolo INSS OU array dos últimos 3 cards com contexto
@@ -80,6 +114,35 @@ export class AIService {
                 textoParaAnalise = textoInss;
             }
 
+            // Motor de regras: casos comuns classificados sem chamar o LLM
+            const cards = Array.isArray(textoInss) ? textoInss.slice(-3) : [{ data: new Date(), texto: textoInss }];
+            const porRegra = this.opcoes.usarRegras ? await regrasClassificacaoService.classificar(cards) : null;
+            if (porRegra && porRegra.confianca >= config.regras.confiancaMinima) {
+                const resultadoRegra: ResultadoAnaliseIA = {
+                    classe_final: porRegra.classe_final as ResultadoAnaliseIA['classe_final'],
+                    motivo_ia: this.normalizarMotivo(porRegra.motivo_ia),
+                    documentos_exigidos: porRegra.documentos_exigidos,
+                    data_evento: porRegra.data_evento,
+                    confianca: porRegra.confianca,
+                    tipo_indeferimento: porRegra.tipo_indeferimento,
+                    origem: 'regra',
+                    regra: porRegra.regraNome,
+                };
+
+                logger.info(
+                    `[AIService] 📏 Protocolo ${protocolo} classificado pela regra "${porRegra.regraNome}": ${resultadoRegra.classe_final} (confiança: ${resultadoRegra.confianca}) - LLM não chamado`
+                );
+
+                this.registrarNoHistorico(protocolo, textoParaAnalise, resultadoRegra);
+
+                return resultadoRegra;
+            }
+            if (porRegra) {
+                logger.info(
+                    `[AIService] 📏 Regra "${porRegra.regraNome}" disparou com confiança ${porRegra.confianca} (< ${config.regras.confiancaMinima}), consultando IA`
+                );
+            }
+
             // Verificar se é menor de 18 anos
             let ehMenor = false;
             if (dataNascimento) {
@@ -99,92 +162,26 @@ export class AIService {
                 }
             }
 
-            // 🔥 DESATIVADO: Busca de exemplos similares (Zero-Shot Learning)
-            // Focando em análise pura sem viés de exemplos passados
-            // logger.info('[AIService] 🔍 Buscando exemplos similares no histórico...');
-            // const exemplosSimilares = await aiLearningService.buscarExemplosSimilares(textoParaAnalise, 3, 0.7);
-            const exemplosSimilares: any[] = []; // Array vazio - não usar exemplos
-
-            // Prompt otimizado para Gemini (Zero-Shot: sem exemplos)
-            const prompt = this.buildPrompt(textoParaAnalise, protocolo, exemplosSimilares, ehMenor);
-
-            // Chamada à API do Google Gemini
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        contents: [
-                            {
-                                parts: [
-                                    {
-                                        text: prompt,
-                                    },
-                                ],
-                            },
-                        ],
-                        generationConfig: {
-                            temperature: 0.1, // Temperatura muito baixa para respostas consistentes
-                            topK: 20,
-                            topP: 0.8,
-                            maxOutputTokens: 2048,
-                            responseMimeType: 'application/json', // Forçar resposta JSON
-                        },
-                        safetySettings: [
-                            {
-                                category: 'HARM_CATEGORY_HARASSMENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_HATE_SPEECH',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                        ],
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error(`Gemini API error: ${response.statusText}`);
+            // Busca de exemplos similares (Few-Shot): apenas análises revisadas pela equipe
+            let exemplosSimilares: ExemploSimilar[] = [];
+            if (this.opcoes.usarExemplos) {
+                logger.info('[AIService] 🔍 Buscando exemplos similares no histórico...');
+                exemplosSimilares = await aiLearningService.buscarExemplosSimilares(textoParaAnalise, 3, 0.7, this.provider);
             }
 
-            const data: any = await response.json();
-            const textoResposta =
-                data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+            // Prompt otimizado (Zero-Shot quando não há exemplos revisados)
+            const prompt = this.buildPrompt(textoParaAnalise, protocolo, exemplosSimilares, ehMenor);
 
-            // Parse da resposta JSON do Gemini
-            const resultado = this.parseRespostaIA(textoResposta);
+            // Geração + validação pelo schema (com uma tentativa de reparo)
+            const resultado = await this.gerarAnaliseValidada(prompt, protocolo);
 
             logger.info(
                 `[AIService] Protocolo ${protocolo} analisado: ${resultado.classe_final} (confiança: ${resultado.confianca})`
             );
 
             // 🔥 Registrar análise no histórico para dataset futuro (Zero-Shot Learning)
-            // Tratamento silencioso: não travar fluxo principal se falhar
             const textoBrutoCompleto = Array.isArray(textoInss) ? textoParaAnalise : textoInss;
-            aiLearningService.registrarAnalise({
-                protocolo,
-                textoBruto: textoBrutoCompleto, // Texto completo garantido
-                classeFinal: resultado.classe_final,
-                motivoIA: resultado.motivo_ia,
-                documentosExigidos: resultado.documentos_exigidos || [],
-                confianca: resultado.confianca
-            }).catch((error) => {
-                // Erro já tratado silenciosamente no AILearningService
-                // Apenas logar aqui para visibilidade
-                logger.debug(`[AIService] Dataset não salvo (não crítico): ${error.message}`);
-            });
+            this.registrarNoHistorico(protocolo, textoBrutoCompleto, resultado);
 
             return resultado;
         } catch (error) {
@@ -200,9 +197,32 @@ export class AIService {
     }
 
     /**
-     * Constrói o prompt otimizado para o Gemini
+     * Registra a análise no histórico (dataset de aprendizado)
+     * Tratamento silencioso: não travar fluxo principal se falhar
+     */
+    private registrarNoHistorico(protocolo: string, textoBruto: string, resultado: ResultadoAnaliseIA): void {
+        if (!this.opcoes.registrarHistorico) {
+            return;
+        }
+
+        aiLearningService.registrarAnalise({
+            protocolo,
+            textoBruto, // Texto completo garantido
+            classeFinal: resultado.classe_final,
+            motivoIA: resultado.motivo_ia,
+            documentosExigidos: resultado.documentos_exigidos || [],
+            confianca: resultado.confianca
+        }).catch((error) => {
+            // Erro já tratado silenciosamente no AILearningService
+            // Apenas logar aqui para visibilidade
+            logger.debug(`[AIService] Dataset não salvo (não crítico): ${error.message}`);
+        });
+    }
+
+    /**
+     * Constrói o prompt de análise (independente do provedor)
      */
-    private buildPrompt(textoInss: string, protocolo: string, exemplosSimilares: any[] = [], ehMenor: boolean = false): string {
+    private buildPrompt(textoInss: string, protocolo: string, exemplosSimilares: ExemploSimilar[] = [], ehMenor: boolean = false): string {
         return `Você é um assistente jurídico especializado em análise de processos previdenciários do INSS com 10 anos de experiência.
 
 Analise o texto abaixo, extraído do sistema INSS (protocolo ${protocolo}), e retorne APENAS um objeto JSON válido (sem blocos markdown, sem explicações adicionais).
@@ -422,6 +442,7 @@ ATENÇÃO ESPECIAL:
 - Confiança deve refletir clareza do texto (texto ambíguo = confiança baixa)
 - **CRÍTICO:** Se classe_final for INDEFERIDO, SEMPRE classificar tipo_indeferimento como CULPA ou MERITO
 
+${aiLearningService.formatarExemplosParaPrompt(exemplosSimilares)}
 TEXTO DO INSS:
 ---
 ${textoInss}
@@ -432,61 +453,132 @@ Retorne APENAS o JSON limpo, sem blocos de código markdown, sem explicações.
     }
 
     /**
-     * Faz o parse da resposta JSON da IA
+     * Chama o provedor pedindo JSON no formato do schema e valida o retorno
+     * Se a resposta for inválida, registra o texto bruto e tenta reparar uma vez
+     * Lança erro se o reparo também falhar (o chamador cai no fallback EM_ANALISE)
      */
-    private parseRespostaIA(textoResposta: string): ResultadoAnaliseIA {
-        try {
-            // Remove possíveis blocos de markdown ```json ... ```
-            let jsonText = textoResposta.trim();
+    private async gerarAnaliseValidada(prompt: string, protocolo: string): Promise<ResultadoAnaliseIA> {
+        const gerar = (texto: string) => this.provider.gerar({
+            prompt: texto,
+            temperatura: 0.1, // Temperatura muito baixa para respostas consistentes
+            maxTokens: 2048,
+            json: true, // Forçar resposta JSON
+            schema: respostaAnaliseJsonSchema,
+        });
+
+        const textoResposta = await gerar(prompt);
+        const validacao = this.validarRespostaIA(textoResposta);
+        if (validacao.sucesso) {
+            return this.normalizarResultado(validacao.dados);
+        }
 
-            if (jsonText.startsWith('```json')) {
-                jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-            } else if (jsonText.startsWith('```')) {
-                jsonText = jsonText.replace(/```\n?/g, '');
+        logger.warn(
+            `[AIService] ⚠️ Resposta fora do schema para protocolo ${protocolo}: ${validacao.erros.join('; ')}. Tentando reparo...`
+        );
+        const idRejeicao = this.opcoes.registrarHistorico
+            ? await aiLearningService.registrarRespostaRejeitada({
+                protocolo,
+                provedor: this.provider.nome,
+                tentativa: 1,
+                respostaBruta: textoResposta,
+                erros: validacao.erros,
+            })
+            : null;
+
+        const textoReparado = await gerar(this.buildPromptReparo(prompt, textoResposta, validacao.erros));
+        const validacaoReparo = this.validarRespostaIA(textoReparado);
+        if (validacaoReparo.sucesso) {
+            logger.info(`[AIService] 🔧 Resposta reparada com sucesso para protocolo ${protocolo}`);
+            if (idRejeicao) {
+                await aiLearningService.marcarRejeicaoReparada(idRejeicao);
             }
+            return this.normalizarResultado(validacaoReparo.dados);
+        }
 
-            const parsed = JSON.parse(jsonText);
+        if (this.opcoes.registrarHistorico) {
+            await aiLearningService.registrarRespostaRejeitada({
+                protocolo,
+                provedor: this.provider.nome,
+                tentativa: 2,
+                respostaBruta: textoReparado,
+                erros: validacaoReparo.erros,
+            });
+        }
+        throw new Error(`Resposta da IA inválida após reparo: ${validacaoReparo.erros.join('; ')}`);
+    }
 
-            // Conversão de data_evento para Date se existir
-            if (parsed.data_evento) {
-                parsed.data_evento = new Date(parsed.data_evento);
-            }
+    /**
+     * Prompt de reparo: reenvia o pedido original com a resposta rejeitada e os erros de validação
+     */
+    private buildPromptReparo(promptOriginal: string, respostaInvalida: string, erros: string[]): string {
+        return `${promptOriginal}
 
-            parsed.motivo_ia = this.normalizarMotivo(parsed.motivo_ia);
+---
+ATENÇÃO: sua resposta anterior NÃO seguiu o formato obrigatório.
 
-            if (Array.isArray(parsed.documentos_exigidos)) {
-                const documentosNormalizados = this.normalizarDocumentos(
-                    parsed.documentos_exigidos
-                );
-                parsed.documentos_exigidos =
-                    documentosNormalizados.length > 0
-                        ? documentosNormalizados
-                        : null;
-            }
+RESPOSTA ANTERIOR:
+${respostaInvalida.substring(0, 2000)}
 
-            // Validar tipo_indeferimento se presente
-            if (parsed.tipo_indeferimento && !['CULPA', 'MERITO'].includes(parsed.tipo_indeferimento)) {
-                logger.warn(`[AIService] ⚠️ tipo_indeferimento inválido: ${parsed.tipo_indeferimento}. Removendo.`);
-                delete parsed.tipo_indeferimento;
-            }
+ERROS DE VALIDAÇÃO:
+${erros.map(erro => `- ${erro}`).join('\n')}
 
-            // Validação básica
-            if (!parsed.classe_final || !parsed.motivo_ia) {
-                throw new Error('Resposta da IA incompleta');
+Corrija APENAS os problemas listados e retorne novamente o JSON completo, sem blocos de código markdown, sem explicações.`;
+    }
+
+    /**
+     * Faz o parse da resposta JSON da IA e valida contra o schema
+     */
+    private validarRespostaIA(
+        textoResposta: string
+    ): { sucesso: true; dados: RespostaAnaliseIA } | { sucesso: false; erros: string[] } {
+        // Remove possíveis blocos de markdown ```json ... ```
+        let jsonText = (textoResposta || '').trim();
+        if (jsonText.startsWith('```')) {
+            jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(jsonText);
+        } catch (error: any) {
+            return { sucesso: false, erros: [`JSON inválido: ${error.message}`] };
+        }
+
+        const resultado = respostaAnaliseSchema.safeParse(parsed);
+        if (!resultado.success) {
+            return { sucesso: false, erros: formatarErrosZod(resultado.error) };
+        }
+        return { sucesso: true, dados: resultado.data };
+    }
+
+    /**
+     * Converte a resposta validada no resultado usado pelo restante do sistema
+     */
+    private normalizarResultado(dados: RespostaAnaliseIA): ResultadoAnaliseIA {
+        const resultado: ResultadoAnaliseIA = {
+            classe_final: dados.classe_final,
+            motivo_ia: this.normalizarMotivo(dados.motivo_ia),
+            confianca: dados.confianca,
+            origem: 'ia',
+        };
+
+        if (Array.isArray(dados.documentos_exigidos)) {
+            const documentosNormalizados = this.normalizarDocumentos(dados.documentos_exigidos);
+            if (documentosNormalizados.length > 0) {
+                resultado.documentos_exigidos = documentosNormalizados;
             }
+        }
 
-            return parsed;
-        } catch (error) {
-            logger.error('[AIService] Erro ao fazer parse da resposta da IA:', error);
-            logger.error('[AIService] Resposta recebida:', textoResposta);
+        // Conversão de data_evento para Date se existir
+        if (dados.data_evento) {
+            resultado.data_evento = new Date(dados.data_evento);
+        }
 
-            // Fallback
-            return {
-                classe_final: 'EM_ANALISE',
-                motivo_ia: 'Erro ao interpretar resposta da IA',
-                confianca: 0,
-            };
+        if (dados.tipo_indeferimento) {
+            resultado.tipo_indeferimento = dados.tipo_indeferimento;
         }
+
+        return resultado;
     }
 
     private normalizarMotivo(motivo?: string): string {
@@ -591,7 +683,7 @@ Retorne APENAS o JSON limpo, sem blocos de código markdown, sem explicações.
      * Valida se a API está configurada corretamente
      */
     isConfigured(): boolean {
-        return !!this.apiKey && this.apiKey !== 'your-google-gemini-api-key';
+        return this.provider.isConfigured();
     }
 
     /**
@@ -654,58 +746,11 @@ Exemplo COMPLEXA:
 
 Retorne APENAS uma das palavras: SIMPLES, MEDIA ou COMPLEXA (sem aspas, sem explicações).`;
 
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        contents: [
-                            {
-                                parts: [
-                                    {
-                                        text: prompt,
-                                    },
-                                ],
-                            },
-                        ],
-                        generationConfig: {
-                            temperature: 0.1,
-                            topK: 20,
-                            topP: 0.8,
-                            maxOutputTokens: 10,
-                        },
-                        safetySettings: [
-                            {
-                                category: 'HARM_CATEGORY_HARASSMENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_HATE_SPEECH',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                        ],
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error(`Gemini API error: ${response.statusText}`);
-            }
-
-            const data: any = await response.json();
-            const textoResposta =
-                data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+            const textoResposta = await this.provider.gerar({
+                prompt,
+                temperatura: 0.1,
+                maxTokens: 10,
+            });
 
             const complexidade = textoResposta.trim().toUpperCase();
 
@@ -729,16 +774,12 @@ Retorne APENAS uma das palavras: SIMPLES, MEDIA ou COMPLEXA (sem aspas, sem expl
      */
     async solveCaptcha(imagemBuffer: Buffer): Promise<string | null> {
         try {
-            if (!this.apiKey) {
-                logger.warn('[AIService] ⚠️ Gemini API Key não configurada. Não é possível usar fallback de CAPTCHA.');
+            if (!this.provider.isConfigured()) {
+                logger.warn(`[AIService] ⚠️ Provedor ${this.provider.nome} não configurado. Não é possível usar fallback de CAPTCHA.`);
                 return null;
             }
 
-            logger.info('[AIService] 🤖 Chamando Gemini Flash Lite para resolver CAPTCHA...');
-
-            // Converter Buffer para base64
-            const base64Image = imagemBuffer.toString('base64');
-            const mimeType = 'image/png';
+            logger.info(`[AIService] 🤖 Chamando ${this.provider.nome} (visão) para resolver CAPTCHA...`);
 
             // Prompt otimizado para CAPTCHA
             const prompt = `Analise esta imagem de CAPTCHA e retorne APENAS o texto de 4 caracteres que aparece na imagem.
@@ -752,68 +793,14 @@ REGRAS CRÍTICAS:
 Exemplo de resposta válida: "A3B7"
 Exemplo de resposta inválida: "O texto é A3B7" ou "A 3 B 7"`;
 
-            // Chamada à API do Gemini com suporte a imagem
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${this.captchaModel}:generateContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        contents: [
-                            {
-                                parts: [
-                                    {
-                                        text: prompt,
-                                    },
-                                    {
-                                        inline_data: {
-                                            mime_type: mimeType,
-                                            data: base64Image,
-                                        },
-                                    },
-                                ],
-                            },
-                        ],
-                        generationConfig: {
-                            temperature: 0.1, // Baixa temperatura para respostas consistentes
-                            topK: 1,
-                            topP: 0.1,
-                            maxOutputTokens: 10, // CAPTCHA tem apenas 4 caracteres
-                        },
-                        safetySettings: [
-                            {
-                                category: 'HARM_CATEGORY_HARASSMENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_HATE_SPEECH',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                            {
-                                category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-                                threshold: 'BLOCK_NONE',
-                            },
-                        ],
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                logger.error(`[AIService] ❌ Gemini API error: ${response.status} ${response.statusText}`);
-                logger.error(`[AIService] Resposta: ${errorText}`);
-                return null;
-            }
-
-            const data: any = await response.json();
-            const textoResposta =
-                data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+            // Chamada ao provedor com suporte a imagem
+            const textoResposta = await this.provider.gerar({
+                prompt,
+                tarefa: 'visao',
+                imagem: { data: imagemBuffer, mimeType: 'image/png' },
+                temperatura: 0.1, // Baixa temperatura para respostas consistentes
+                maxTokens: 10, // CAPTCHA tem apenas 4 caracteres
+            });
 
             // Limpar e validar resposta
             let textoLimpo = textoResposta.trim().toUpperCase();
@@ -823,14 +810,14 @@ Exemplo de resposta inválida: "O texto é A3B7" ou "A 3 B 7"`;
 
             // Validar se tem 4 caracteres
             if (textoLimpo.length === 4 && !textoLimpo.includes('ERRO')) {
-                logger.info(`[AIService] ✅ Gemini resolveu CAPTCHA: "${textoLimpo}"`);
+                logger.info(`[AIService] ✅ ${this.provider.nome} resolveu CAPTCHA: "${textoLimpo}"`);
                 return textoLimpo;
             } else {
-                logger.warn(`[AIService] ⚠️ Gemini retornou resposta inválida: "${textoResposta}" (limpo: "${textoLimpo}")`);
+                logger.warn(`[AIService] ⚠️ ${this.provider.nome} retornou resposta inválida: "${textoResposta}" (limpo: "${textoLimpo}")`);
                 return null;
             }
         } catch (error: any) {
-            logger.error(`[AIService] ❌ Erro ao resolver CAPTCHA com Gemini: ${error.message}`);
+            logger.error(`[AIService] ❌ Erro ao resolver CAPTCHA com ${this.provider.nome}: ${error.message}`);
             logger.error(`[AIService] Stack: ${error.stack}`);
             return null;
         }
@@ -849,8 +836,8 @@ Exemplo de resposta inválida: "O texto é A3B7" ou "A 3 B 7"`;
         etiquetasEscritorio: string[]
     ): Promise<{ etiqueta: string | null; confianca: number; explicacao: string }> {
         try {
-            if (!this.apiKey) {
-                logger.warn('[AIService] API Key não configurada para classificação de etiquetas');
+            if (!this.provider.isConfigured()) {
+                logger.warn('[AIService] Provedor de IA não configurado para classificação de etiquetas');
                 return { etiqueta: null, confianca: 0, explicacao: 'API Key não disponível' };
             }
 
@@ -888,29 +875,11 @@ Se nenhuma etiqueta corresponder adequadamente, retorne:
   "explicacao": "Nenhuma etiqueta compatível encontrada"
 }`;
 
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        contents: [{ parts: [{ text: prompt }] }],
-                        generationConfig: {
-                            temperature: 0.1,
-                            topK: 1,
-                            topP: 0.1,
-                            maxOutputTokens: 200,
-                        },
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error(`Gemini API error: ${response.statusText}`);
-            }
-
-            const data: any = await response.json();
-            let textoResposta = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+            let textoResposta = await this.provider.gerar({
+                prompt,
+                temperatura: 0.1,
+                maxTokens: 200,
+            });
 
             // Limpar markdown se existir
             textoResposta = textoResposta.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
@@ -948,7 +917,7 @@ Se nenhuma etiqueta corresponder adequadamente, retorne:
      */
     async sugerirEtiquetaBeneficio(nomeInss: string): Promise<string> {
         try {
-            if (!this.apiKey) {
+            if (!this.provider.isConfigured()) {
                 // Fallback: normalizar o nome diretamente
                 return nomeInss.toUpperCase()
                     .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
@@ -976,27 +945,12 @@ Se nenhuma etiqueta corresponder adequadamente, retorne:
 
 Retorne APENAS a etiqueta sugerida, sem explicação.`;
 
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        contents: [{ parts: [{ text: prompt }] }],
-                        generationConfig: {
-                            temperature: 0.2,
-                            maxOutputTokens: 50,
-                        },
-                    }),
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error('API error');
-            }
-
-            const data: any = await response.json();
-            const sugestao = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
+            const resposta = await this.provider.gerar({
+                prompt,
+                temperatura: 0.2,
+                maxTokens: 50,
+            });
+            const sugestao = resposta.trim();
 
             // Limpar e validar
             const etiquetaLimpa = sugestao.toUpperCase()
@@ -1013,6 +967,97 @@ Retorne APENAS a etiqueta sugerida, sem explicação.`;
                 .substring(0, 20);
         }
     }
+
+    /**
+     * 📄 Classifica um documento enviado pelo cliente (RG, CPF, laudo, CadÚnico...) e extrai os dados principais
+     * @param textoOcr Texto reconhecido pelo OCR (vazio para PDFs e imagens ilegíveis)
+     * @param itensPendentes Itens do checklist da exigência que o documento pode atender
+     * @param arquivo Arquivo original, enviado ao modelo de visão quando o OCR não trouxe texto suficiente
+     * @returns null se o provedor não estiver configurado ou a resposta continuar inválida após o reparo
+     */
+    async classificarDocumento(
+        textoOcr: string,
+        itensPendentes: string[],
+        arquivo?: { data: Buffer; mimeType: string }
+    ): Promise<RespostaClassificacaoDocumento | null> {
+        try {
+            if (!this.provider.isConfigured()) {
+                logger.warn('[AIService] Provedor de IA não configurado para classificação de documentos');
+                return null;
+            }
+
+            const usarArquivo = !!arquivo && textoOcr.trim().length < 80;
+            const prompt = `Você é assistente de um escritório de direito previdenciário. Um cliente enviou um documento para cumprir uma exigência do INSS.
+
+**Tipos de documento:** ${TIPOS_DOCUMENTO_CLIENTE.join(', ')}
+- COMPROVANTE_RESIDENCIA: conta de luz, água, telefone, contrato de aluguel
+- LAUDO_MEDICO: laudo, atestado ou relatório médico (extraia os CIDs, ex: F32.2, M54.5)
+- CADUNICO: folha resumo ou comprovante de inscrição no Cadastro Único
+
+**Itens pendentes da exigência:**
+${itensPendentes.length > 0 ? itensPendentes.map((item, i) => `${i + 1}. ${item}`).join('\n') : '(nenhum)'}
+
+${usarArquivo ? '**O documento está anexado.**' : `**TEXTO DO DOCUMENTO (OCR, pode ter erros):**
+---
+${textoOcr.substring(0, 6000)}
+---`}
+
+**Regras:**
+- nome e cpf são do titular do documento (cpf só com números); null se não aparecerem
+- datas no formato YYYY-MM-DD (nascimento, emissão, validade, data do laudo)
+- item_exigencia: copie EXATAMENTE o item da lista que o documento atende, ou null se nenhum
+- confianca entre 0 e 1
+
+Retorne APENAS o JSON, sem markdown.`;
+
+            const gerar = (texto: string) => this.provider.gerar({
+                prompt: texto,
+                tarefa: usarArquivo ? 'visao' : 'texto',
+                imagem: usarArquivo ? arquivo : undefined,
+                temperatura: 0.1,
+                maxTokens: 1024,
+                json: true,
+                schema: respostaClassificacaoDocumentoJsonSchema,
+            });
+
+            const resposta = await gerar(prompt);
+            const validacao = this.validarClassificacaoDocumento(resposta);
+            if (validacao.sucesso) {
+                return validacao.dados;
+            }
+
+            logger.warn(`[AIService] ⚠️ Classificação de documento fora do schema: ${validacao.erros.join('; ')}. Tentando reparo...`);
+            const reparo = this.validarClassificacaoDocumento(await gerar(this.buildPromptReparo(prompt, resposta, validacao.erros)));
+            if (reparo.sucesso) {
+                return reparo.dados;
+            }
+
+            logger.error(`[AIService] ❌ Classificação de documento inválida após reparo: ${reparo.erros.join('; ')}`);
+            return null;
+        } catch (error: any) {
+            logger.error(`[AIService] ❌ Erro ao classificar documento com ${this.provider.nome}: ${error.message}`);
+            return null;
+        }
+    }
+
+    private validarClassificacaoDocumento(
+        textoResposta: string
+    ): { sucesso: true; dados: RespostaClassificacaoDocumento } | { sucesso: false; erros: string[] } {
+        const jsonText = (textoResposta || '').replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(jsonText);
+        } catch (error: any) {
+            return { sucesso: false, erros: [`JSON inválido: ${error.message}`] };
+        }
+
+        const resultado = respostaClassificacaoDocumentoSchema.safeParse(parsed);
+        if (!resultado.success) {
+            return { sucesso: false, erros: formatarErrosZod(resultado.error) };
+        }
+        return { sucesso: true, dados: resultado.data };
+    }
 }
 
 export default new AIService();
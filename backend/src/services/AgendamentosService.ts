@@ -4,7 +4,9 @@
 
 import logger from '../utils/logger';
 import PuppeteerService from './PuppeteerService';
-import backblazeService from './BackblazeService';
+import armazenamentoService, { ComprovanteArmazenado } from './armazenamento';
+import type { ServicoArmazenamento } from './simulacao/servicos';
+import seletoresPatService from './SeletoresPatService';
 import { Page } from 'puppeteer';
 import { parse, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -16,7 +18,7 @@ export interface Agendamento {
     hora: string; // Formato HH:mm
     unidade: string; // Ex: "APS ITAPETINGA"
     endereco?: string;
-    status: 'AGENDADO' | 'REMARCADO' | 'CANCELADO' | 'CUMPRIDO';
+    status: 'AGENDADO' | 'REMARCADO' | 'CANCELADO' | 'CUMPRIDO' | 'NAO_COMPARECEU';
     etapa: string; // Ex: "Aguardando comparecimento"
     protocolo: string;
     cpf: string;
@@ -25,7 +27,9 @@ export interface Agendamento {
 
 export interface AgendamentoDetalhado extends Agendamento {
     servico: string; // Ex: "Avaliação Social BPC/LOAS - Inicial (Presencial)"
-    urlComprovante?: string; // URL para baixar PDF do comprovante
+    urlComprovante?: string; // Link assinado para baixar PDF do comprovante (expira)
+    comprovanteDocumentoId?: string; // PDF do comprovante em documentos
+    statusDetalhe?: string; // Status na tela de detalhes (ex: "Cumprido", "Não compareceu")
 }
 
 class AgendamentosService {
@@ -40,41 +44,20 @@ class AgendamentosService {
         try {
             logger.info(`[AgendamentosService] Extraindo avaliações sociais para protocolo ${protocolo}`);
 
-            // XPath da tabela de avaliações sociais
-            const xpathTabela = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[7]/div[3]/div[2]/div[1]/div/table/tbody';
+            // Tabela e etapa pelo registro de seletores (estratégia principal + fallbacks)
+            const tabela = await seletoresPatService.localizar(page, 'avaliacao_social.tabela');
+            if (!tabela) {
+                return [];
+            }
 
-            // XPath da etapa (para verificar se falta)
-            const xpathEtapa = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[7]/div[2]/div';
+            // Etapa (para verificar se falta)
+            const etapa = await seletoresPatService.lerTexto(page, 'avaliacao_social.etapa');
 
-            const agendamentos = await page.evaluate((xpathTabela, xpathEtapa, protocolo, cpf) => {
+            const agendamentos = await tabela.evaluate((tbody, etapa, protocolo, cpf) => {
                 const agendamentos: any[] = [];
 
-                // Buscar tabela
-                const tabela = document.evaluate(
-                    xpathTabela,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLTableSectionElement;
-
-                if (!tabela) {
-                    return agendamentos;
-                }
-
-                // Buscar etapa
-                const etapaElement = document.evaluate(
-                    xpathEtapa,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLElement;
-
-                const etapa = etapaElement?.textContent?.trim() || '';
-
                 // Extrair linhas da tabela
-                const linhas = tabela.querySelectorAll('tr');
+                const linhas = tbody.querySelectorAll('tr');
 
                 linhas.forEach((linha) => {
                     const colunas = linha.querySelectorAll('td');
@@ -128,7 +111,8 @@ class AgendamentosService {
 
                     // Determinar status
                     let status: string = 'AGENDADO';
-                    if (statusTexto.includes('REMARCADO')) status = 'REMARCADO';
+                    if (/N[ÃA]O COMPARECEU|N[ÃA]O CUMPRIDO|AUSENTE|FALTOU/.test(statusTexto.toUpperCase())) status = 'NAO_COMPARECEU';
+                    else if (statusTexto.includes('REMARCADO')) status = 'REMARCADO';
                     else if (statusTexto.includes('CANCELADO')) status = 'CANCELADO';
                     else if (statusTexto.includes('CUMPRIDO')) status = 'CUMPRIDO';
                     else if (statusTexto.includes('AGENDADO')) status = 'AGENDADO';
@@ -148,7 +132,8 @@ class AgendamentosService {
                 });
 
                 return agendamentos;
-            }, xpathTabela, xpathEtapa, protocolo, cpf);
+            }, etapa, protocolo, cpf);
+            await tabela.dispose();
 
             // Converter strings de data para Date
             const agendamentosFormatados: Agendamento[] = agendamentos.map((ag: any) => {
@@ -185,41 +170,20 @@ class AgendamentosService {
         try {
             logger.info(`[AgendamentosService] Extraindo perícias médicas para protocolo ${protocolo}`);
 
-            // XPath da tabela de perícias
-            const xpathTabela = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[8]/div[3]/div[2]/div[1]/div/table/tbody';
+            // Tabela e etapa pelo registro de seletores (estratégia principal + fallbacks)
+            const tabela = await seletoresPatService.localizar(page, 'pericia.tabela');
+            if (!tabela) {
+                return [];
+            }
 
-            // XPath da etapa (para verificar se falta)
-            const xpathEtapa = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[8]/div[2]/div';
+            // Etapa (para verificar se falta)
+            const etapa = await seletoresPatService.lerTexto(page, 'pericia.etapa');
 
-            const agendamentos = await page.evaluate((xpathTabela, xpathEtapa, protocolo, cpf) => {
+            const agendamentos = await tabela.evaluate((tbody, etapa, protocolo, cpf) => {
                 const agendamentos: any[] = [];
 
-                // Buscar tabela
-                const tabela = document.evaluate(
-                    xpathTabela,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLTableSectionElement;
-
-                if (!tabela) {
-                    return agendamentos;
-                }
-
-                // Buscar etapa
-                const etapaElement = document.evaluate(
-                    xpathEtapa,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLElement;
-
-                const etapa = etapaElement?.textContent?.trim() || '';
-
                 // Extrair linhas da tabela
-                const linhas = tabela.querySelectorAll('tr');
+                const linhas = tbody.querySelectorAll('tr');
 
                 linhas.forEach((linha) => {
                     const colunas = linha.querySelectorAll('td');
@@ -273,7 +237,8 @@ class AgendamentosService {
 
                     // Determinar status
                     let status: string = 'AGENDADO';
-                    if (statusTexto.includes('REMARCADO')) status = 'REMARCADO';
+                    if (/N[ÃA]O COMPARECEU|N[ÃA]O CUMPRIDO|AUSENTE|FALTOU/.test(statusTexto.toUpperCase())) status = 'NAO_COMPARECEU';
+                    else if (statusTexto.includes('REMARCADO')) status = 'REMARCADO';
                     else if (statusTexto.includes('CANCELADO')) status = 'CANCELADO';
                     else if (statusTexto.includes('CUMPRIDO')) status = 'CUMPRIDO';
                     else if (statusTexto.includes('AGENDADO')) status = 'AGENDADO';
@@ -293,7 +258,8 @@ class AgendamentosService {
                 });
 
                 return agendamentos;
-            }, xpathTabela, xpathEtapa, protocolo, cpf);
+            }, etapa, protocolo, cpf);
+            await tabela.dispose();
 
             // Converter strings de data para Date
             const agendamentosFormatados: Agendamento[] = agendamentos.map((ag: any) => {
@@ -321,10 +287,13 @@ class AgendamentosService {
 
     /**
      * Extrai detalhes completos de um agendamento (clicando no botão Detalhar dentro do card)
+     * Com baixarComprovante = false o PDF não é baixado nem guardado de novo
+     * `armazenamento` substitui o armazenamento de arquivos (ex.: simulação); processoId vincula o PDF ao processo
      */
     async extrairDetalhesAgendamento(
         page: Page,
-        agendamento: Agendamento
+        agendamento: Agendamento,
+        opcoes: { baixarComprovante?: boolean; armazenamento?: ServicoArmazenamento; processoId?: string | null } = {}
     ): Promise<AgendamentoDetalhado | null> {
         try {
             logger.info(`[AgendamentosService] Extraindo detalhes do agendamento ${agendamento.id}`);
@@ -396,10 +365,11 @@ class AgendamentosService {
                 }
             }
 
-            // Determinar XPath da tabela baseado no tipo
-            const xpathTabela = agendamento.tipo === 'AVALIACAO_SOCIAL'
-                ? '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[7]/div[3]/div[2]/div[1]/div/table/tbody'
-                : '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[8]/div[3]/div[2]/div[1]/div/table/tbody';
+            // Localizar a tabela baseado no tipo (registro de seletores)
+            const tabela = await seletoresPatService.localizar(
+                page,
+                agendamento.tipo === 'AVALIACAO_SOCIAL' ? 'avaliacao_social.tabela' : 'pericia.tabela'
+            );
 
             // Variável para armazenar a página de detalhes (pode ser nova aba ou mesma página)
             let paginaDetalhes: Page = page;
@@ -410,22 +380,9 @@ class AgendamentosService {
             logger.info(`[AgendamentosService] 🔍 Procurando botão "Detalhar" para agendamento de ${dataFormatada} às ${agendamento.hora}...`);
 
             // Encontrar o índice da linha que corresponde a este agendamento
-            const linhaIndexEncontrado = await page.evaluate((xpathTabela, dataFormatada, horaFormatada, linhaIndex) => {
-                // Buscar tabela
-                const tabela = document.evaluate(
-                    xpathTabela,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLTableSectionElement;
-
-                if (!tabela) {
-                    return -1;
-                }
-
+            const linhaIndexEncontrado = !tabela ? -1 : await tabela.evaluate((tbody, dataFormatada, horaFormatada, linhaIndex) => {
                 // Buscar linha específica (por índice ou por data/hora)
-                const linhas = tabela.querySelectorAll('tr');
+                const linhas = tbody.querySelectorAll('tr');
 
                 if (linhaIndex !== undefined && linhaIndex >= 0 && linhaIndex < linhas.length) {
                     // Verificar se a linha no índice corresponde à data/hora
@@ -453,7 +410,7 @@ class AgendamentosService {
                 }
 
                 return -1;
-            }, xpathTabela, dataFormatada, agendamento.hora, agendamento.linhaIndex);
+            }, dataFormatada, agendamento.hora, agendamento.linhaIndex);
 
             if (linhaIndexEncontrado === -1) {
                 logger.warn(`[AgendamentosService] ⚠️ Linha não encontrada para ${dataFormatada} às ${agendamento.hora}, tentando URL direta...`);
@@ -472,24 +429,13 @@ class AgendamentosService {
                 }
             } else {
                 // Linha encontrada, clicar no botão
-                // Clicar no botão da linha específica usando XPath direto
-                const xpathBotao = `${xpathTabela}/tr[${linhaIndexEncontrado + 1}]/td[4]/button`;
+                // Clicar no botão da linha específica (4ª coluna da linha dentro da tabela localizada)
+                const seletorBotao = `:scope > tr:nth-of-type(${linhaIndexEncontrado + 1}) > td:nth-of-type(4) > button`;
+                const botaoElement = tabela ? await tabela.$(seletorBotao) : null;
                 logger.info(`[AgendamentosService] Clicando no botão da linha ${linhaIndexEncontrado + 1}...`);
 
                 // Primeiro, verificar informações do botão
-                const infoBotao = await page.evaluate((xpath) => {
-                    const botao = document.evaluate(
-                        xpath,
-                        document,
-                        null,
-                        XPathResult.FIRST_ORDERED_NODE_TYPE,
-                        null
-                    ).singleNodeValue as HTMLElement;
-
-                    if (!botao) {
-                        return { encontrado: false };
-                    }
-
+                const infoBotao = !botaoElement ? { encontrado: false } : await botaoElement.evaluate((botao) => {
                     const estilo = window.getComputedStyle(botao);
                     const onclick = botao.getAttribute('onclick') || '';
                     const href = (botao.closest('a') as HTMLAnchorElement)?.href || '';
@@ -500,24 +446,14 @@ class AgendamentosService {
                         onclick: onclick.substring(0, 200),
                         href: href
                     };
-                }, xpathBotao);
+                });
 
                 logger.info(`[AgendamentosService] Informações do botão: ${JSON.stringify(infoBotao)}`);
 
-                if (!infoBotao.encontrado) {
+                if (!botaoElement || !infoBotao.encontrado) {
                     throw new Error(`Botão "Detalhar" não encontrado na linha ${linhaIndexEncontrado + 1}`);
                 }
 
-                // Usar Puppeteer para encontrar e clicar no botão diretamente
-                // Primeiro, encontrar o elemento usando XPath
-                const elementos = await page.$x(xpathBotao);
-
-                if (elementos.length === 0) {
-                    throw new Error(`Botão "Detalhar" não encontrado no XPath: ${xpathBotao}`);
-                }
-
-                const botaoElement = elementos[0] as any;
-
                 // Scroll para o botão
                 await botaoElement.scrollIntoView();
                 await page.waitForTimeout(500);
@@ -762,8 +698,25 @@ class AgendamentosService {
                 return null;
             }
 
-            // Baixar PDF clicando no botão "Gerar comprovante" e fazer upload para Backblaze B2
-            let urlComprovantePublica: string | null = null;
+            // Atualizar dados do agendamento com detalhes extraídos
+            const agendamentoAtualizado: AgendamentoDetalhado = {
+                ...agendamento,
+                servico: detalhes.servico || agendamento.unidade || '',
+                endereco: detalhes.endereco || agendamento.endereco,
+                // Atualizar hora e unidade se encontrados nos detalhes
+                hora: detalhes.hora || agendamento.hora,
+                unidade: detalhes.unidade || agendamento.unidade,
+                statusDetalhe: detalhes.status || undefined
+            };
+
+            // Comprovante já guardado numa sincronização anterior
+            if (opcoes.baixarComprovante === false) {
+                logger.info(`[AgendamentosService] ⏭️ Comprovante já enviado anteriormente, pulando download`);
+                return agendamentoAtualizado;
+            }
+
+            // Baixar PDF clicando no botão "Gerar comprovante" e guardar no armazenamento
+            let comprovante: ComprovanteArmazenado | null = null;
             try {
                 const tipoTexto = agendamento.tipo === 'PERICIA' ? 'pericia' : 'avaliacao';
                 const fileName = `comprovante-${tipoTexto}-${agendamento.id}-${agendamento.protocolo}.pdf`;
@@ -1026,31 +979,22 @@ class AgendamentosService {
                     logger.warn(`[AgendamentosService] ⚠️ PDF muito pequeno (${bufferSize} bytes), pode estar corrompido`);
                 }
 
-                logger.info(`[AgendamentosService] 📦 PDF baixado e validado (${(bufferSize / 1024).toFixed(2)} KB), fazendo upload para Backblaze...`);
+                logger.info(`[AgendamentosService] 📦 PDF baixado e validado (${(bufferSize / 1024).toFixed(2)} KB), guardando...`);
 
-                // Fazer upload para Backblaze
-                urlComprovantePublica = await backblazeService.uploadPDF(bufferFinal, fileName);
+                comprovante = await (opcoes.armazenamento || armazenamentoService).salvarComprovante(bufferFinal, fileName, opcoes.processoId);
 
-                if (urlComprovantePublica) {
-                    logger.info(`[AgendamentosService] ✅ Comprovante disponível publicamente: ${urlComprovantePublica}`);
+                if (comprovante) {
+                    logger.info(`[AgendamentosService] ✅ Comprovante guardado (documento ${comprovante.documentoId})`);
                 } else {
-                    throw new Error('Falha ao fazer upload para Backblaze');
+                    throw new Error('Falha ao guardar o comprovante');
                 }
             } catch (error: any) {
                 logger.error(`[AgendamentosService] ❌ Erro ao processar comprovante: ${error.message}`);
-                urlComprovantePublica = null;
+                comprovante = null;
             }
 
-            // Atualizar dados do agendamento com detalhes extraídos
-            const agendamentoAtualizado: AgendamentoDetalhado = {
-                ...agendamento,
-                servico: detalhes.servico || agendamento.unidade || '',
-                endereco: detalhes.endereco || agendamento.endereco,
-                // Atualizar hora e unidade se encontrados nos detalhes
-                hora: detalhes.hora || agendamento.hora,
-                unidade: detalhes.unidade || agendamento.unidade,
-                urlComprovante: urlComprovantePublica || undefined
-            };
+            agendamentoAtualizado.urlComprovante = comprovante?.url || undefined;
+            agendamentoAtualizado.comprovanteDocumentoId = comprovante?.documentoId || undefined;
 
             return agendamentoAtualizado;
         } catch (error: any) {
@@ -1060,7 +1004,21 @@ class AgendamentosService {
     }
 
     /**
-     * Filtra apenas agendamentos AGENDADOS (ignora REMARCADO, CANCELADO, CUMPRIDO)
+     * Status do agendamento a partir do texto do PAT (tabela ou tela de detalhes)
+     * @returns null quando o texto não indica nenhum status conhecido
+     */
+    classificarStatus(texto: string): Agendamento['status'] | null {
+        const textoUpper = texto.toUpperCase();
+        if (/N[ÃA]O COMPARECEU|N[ÃA]O CUMPRIDO|AUSENTE|FALTOU/.test(textoUpper)) return 'NAO_COMPARECEU';
+        if (textoUpper.includes('REMARCADO')) return 'REMARCADO';
+        if (textoUpper.includes('CANCELADO')) return 'CANCELADO';
+        if (textoUpper.includes('CUMPRIDO') || textoUpper.includes('REALIZADO')) return 'CUMPRIDO';
+        if (textoUpper.includes('AGENDADO')) return 'AGENDADO';
+        return null;
+    }
+
+    /**
+     * Filtra apenas agendamentos AGENDADOS (ignora REMARCADO, CANCELADO, CUMPRIDO, NAO_COMPARECEU)
      */
     filtrarAgendados(agendamentos: Agendamento[]): Agendamento[] {
         const agendados = agendamentos.filter(ag => ag.status === 'AGENDADO');
@@ -1081,17 +1039,7 @@ class AgendamentosService {
             const tiposParaAgendar: Array<'PERICIA' | 'AVALIACAO_SOCIAL'> = [];
 
             // Verificar botão de agendar Perícia
-            const xpathBtnAgendarPericia = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[8]/div[1]/button';
-            const temBtnPericia = await page.evaluate((xpath) => {
-                const element = document.evaluate(
-                    xpath,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLElement;
-                return element !== null && element.textContent?.includes('Agendar');
-            }, xpathBtnAgendarPericia);
+            const temBtnPericia = (await seletoresPatService.lerTexto(page, 'pericia.botao_agendar')).includes('Agendar');
 
             if (temBtnPericia) {
                 logger.info('[AgendamentosService] Botão "Agendar" encontrado para PERÍCIA');
@@ -1099,17 +1047,7 @@ class AgendamentosService {
             }
 
             // Verificar botão de agendar Avaliação Social
-            const xpathBtnAgendarAvaliacao = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[7]/div[1]/button';
-            const temBtnAvaliacao = await page.evaluate((xpath) => {
-                const element = document.evaluate(
-                    xpath,
-                    document,
-                    null,
-                    XPathResult.FIRST_ORDERED_NODE_TYPE,
-                    null
-                ).singleNodeValue as HTMLElement;
-                return element !== null && element.textContent?.includes('Agendar');
-            }, xpathBtnAgendarAvaliacao);
+            const temBtnAvaliacao = (await seletoresPatService.lerTexto(page, 'avaliacao_social.botao_agendar')).includes('Agendar');
 
             if (temBtnAvaliacao) {
                 logger.info('[AgendamentosService] Botão "Agendar" encontrado para AVALIAÇÃO SOCIAL');
@@ -0,0 +1,266 @@
+/**
+ * Serviço de Calendários (feeds iCalendar)
+ *
+ * Cada feed é uma URL secreta (/api/v1/calendarios/<token>.ics) assinada no Google Agenda,
+ * Outlook ou iPhone. O feed do escritório traz os processos sincronizados por ele; o feed de um
+ * parceiro traz só os processos com a etiqueta PARCEIRO:NOME dele (processos.parceiro_id).
+ *
+ * Perícias e avaliações sociais usam UID por processo e tipo: a remarcação atualiza o mesmo
+ * evento e o cancelamento o marca como cancelado, sem duplicar na agenda.
+ */
+
+import crypto from 'crypto';
+import { subDays } from 'date-fns';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import armazenamentoService from './armazenamento';
+import { EventoCalendario, gerarCalendario } from '../utils/icalendar';
+
+export interface FeedCalendario {
+    id: number;
+    usuarioId: string;
+    parceiroId: number | null;
+    parceiroNome: string | null;
+    token: string;
+    descricao: string | null;
+    ativo: boolean;
+    ultimoAcessoEm: Date | null;
+    createdAt: Date;
+}
+
+const FUSO_HORARIO = 'America/Sao_Paulo';
+const DESLOCAMENTO = '-0300';
+const DOMINIO_UID = 'calendario.inss-manager';
+const LINK_PAT = 'https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/';
+const DIAS_HISTORICO = 60;
+const DURACAO_AGENDAMENTO_MINUTOS = 60;
+const EPOCA_SEQUENCIA = Date.UTC(2020, 0, 1);
+
+export class CalendariosService {
+    /**
+     * Cria o feed do escritório (sem parceiro) ou de um parceiro do escritório
+     */
+    async criarFeed(usuarioId: string, parceiroId?: number | null, descricao?: string | null): Promise<FeedCalendario> {
+        const token = crypto.randomBytes(24).toString('hex');
+
+        const resultado = await Database.query(`
+            INSERT INTO calendarios_feeds (usuario_id, parceiro_id, token, descricao)
+            VALUES ($1, $2, $3, $4)
+            RETURNING id
+        `, [usuarioId, parceiroId || null, token, descricao || null]);
+
+        logger.info(`[Calendarios] Feed ${resultado[0].id} criado (escritório ${usuarioId}${parceiroId ? `, parceiro ${parceiroId}` : ''})`);
+        const feeds = await this.listarFeeds(usuarioId);
+        return feeds.find(feed => feed.id === resultado[0].id)!;
+    }
+
+    async listarFeeds(usuarioId: string): Promise<FeedCalendario[]> {
+        const resultado = await Database.query(`
+            SELECT f.*, COALESCE(p.nome_completo, p.nome_etiqueta) AS parceiro_nome
+            FROM calendarios_feeds f
+            LEFT JOIN parceiros_config p ON p.id = f.parceiro_id
+            WHERE f.usuario_id = $1 AND f.ativo = true
+            ORDER BY f.created_at
+        `, [usuarioId]);
+
+        return resultado.map((row: any) => this.mapearFeed(row));
+    }
+
+    /**
+     * Revoga o feed: a URL antiga deixa de responder
+     */
+    async revogar(usuarioId: string, feedId: number): Promise<boolean> {
+        const resultado = await Database.query(`
+            UPDATE calendarios_feeds
+            SET ativo = false, updated_at = NOW()
+            WHERE id = $1 AND usuario_id = $2 AND ativo = true
+            RETURNING id
+        `, [feedId, usuarioId]);
+
+        return resultado.length > 0;
+    }
+
+    async parceiroPertenceAoUsuario(usuarioId: string, parceiroId: number): Promise<boolean> {
+        const resultado = await Database.query(
+            'SELECT 1 FROM parceiros_config WHERE id = $1 AND user_id = $2',
+            [parceiroId, usuarioId]
+        );
+        return resultado.length > 0;
+    }
+
+    /**
+     * Conteúdo .ics do feed; null se o token não existe ou foi revogado
+     */
+    async gerarFeed(token: string): Promise<string | null> {
+        const feeds = await Database.query(`
+            SELECT f.*, u.nome AS escritorio_nome, COALESCE(p.nome_completo, p.nome_etiqueta) AS parceiro_nome
+            FROM calendarios_feeds f
+            JOIN usuarios_extensao u ON u.id = f.usuario_id
+            LEFT JOIN parceiros_config p ON p.id = f.parceiro_id
+            WHERE f.token = $1 AND f.ativo = true
+        `, [token]);
+
+        if (feeds.length === 0) return null;
+        const feed = feeds[0];
+
+        await Database.query(
+            'UPDATE calendarios_feeds SET ultimo_acesso_em = NOW() WHERE id = $1',
+            [feed.id]
+        );
+
+        const doParceiro = feed.parceiro_id !== null;
+        const filtro = this.filtroProcessos(feed);
+        const desde = subDays(new Date(), DIAS_HISTORICO);
+
+        const agendamentos = await this.buscarAgendamentos(filtro.condicao, filtro.parametros, desde);
+        const exigencias = await this.buscarExigencias(filtro.condicao, filtro.parametros, desde);
+
+        const eventos = [
+            ...agendamentos.map(row => this.eventoAgendamento(row, doParceiro)),
+            ...exigencias.map(row => this.eventoExigencia(row, doParceiro)),
+        ];
+
+        const nome = doParceiro
+            ? `INSS - ${feed.parceiro_nome}`
+            : `INSS - ${feed.escritorio_nome || 'Escritório'}`;
+
+        return gerarCalendario({ nome, fusoHorario: FUSO_HORARIO, deslocamento: DESLOCAMENTO, eventos });
+    }
+
+    /**
+     * Processos do feed: do parceiro, ou do escritório (processos sem escritório registrado,
+     * sincronizados antes da migration 034, só entram no feed do escritório central, se configurado)
+     */
+    private filtroProcessos(feed: any): { condicao: string; parametros: any[] } {
+        if (feed.parceiro_id !== null) {
+            return { condicao: 'p.parceiro_id = $1', parametros: [feed.parceiro_id] };
+        }
+
+        const central = config.whatsapp.usuarioCentral;
+        const incluiSemEscritorio = !!central && central === feed.usuario_id;
+        return {
+            condicao: incluiSemEscritorio
+                ? '(p.usuario_extensao_id = $1 OR p.usuario_extensao_id IS NULL)'
+                : 'p.usuario_extensao_id = $1',
+            parametros: [feed.usuario_id],
+        };
+    }
+
+    /**
+     * Agendamento vigente de cada processo e tipo: o mais recente que não foi remarcado
+     */
+    private async buscarAgendamentos(condicao: string, parametros: any[], desde: Date): Promise<any[]> {
+        return Database.query(`
+            SELECT * FROM (
+                SELECT DISTINCT ON (a.processo_id, a.tipo)
+                    a.*, p.nome_segurado, p.tipo_beneficio
+                FROM agendamentos a
+                JOIN processos p ON p.id = a.processo_id
+                WHERE ${condicao}
+                ORDER BY a.processo_id, a.tipo, (a.status = 'REMARCADO'), a.updated_at DESC
+            ) vigentes
+            WHERE data_agendamento >= $${parametros.length + 1}
+            ORDER BY data_agendamento
+        `, [...parametros, desde]);
+    }
+
+    private async buscarExigencias(condicao: string, parametros: any[], desde: Date): Promise<any[]> {
+        return Database.query(`
+            SELECT e.*, p.nome_segurado, p.protocolo_inss, p.tipo_beneficio
+            FROM exigencias e
+            JOIN processos p ON p.id = e.processo_id
+            WHERE ${condicao}
+              AND e.prazo >= $${parametros.length + 1}
+            ORDER BY e.prazo
+        `, [...parametros, desde]);
+    }
+
+    private eventoAgendamento(row: any, doParceiro: boolean): EventoCalendario {
+        const tipoTexto = row.tipo === 'PERICIA' ? 'Perícia médica' : 'Avaliação social';
+        const cancelado = row.status === 'REMARCADO' || row.status === 'CANCELADO';
+        const [hora, minuto] = String(row.hora_agendamento || '00:00').split(':').map(Number);
+        const data = new Date(row.data_agendamento);
+        const inicio = new Date(data.getFullYear(), data.getMonth(), data.getDate(), hora || 0, minuto || 0);
+
+        const descricao = [
+            `Segurado: ${row.nome_segurado}`,
+            `Protocolo: ${row.protocolo_inss}`,
+            `Benefício: ${row.tipo_beneficio}`,
+            row.servico ? `Serviço: ${row.servico}` : null,
+            row.status === 'NAO_COMPARECEU' ? 'Situação: não compareceu' : null,
+            row.url_comprovante || row.comprovante_documento_id
+                ? `Comprovante: ${armazenamentoService.linkOuUrl(row.comprovante_documento_id, row.url_comprovante)}`
+                : null,
+            !doParceiro ? `PAT: ${LINK_PAT}${row.protocolo_inss}` : null,
+        ].filter(Boolean).join('\n');
+
+        return {
+            uid: `agendamento-${row.processo_id}-${row.tipo.toLowerCase()}@${DOMINIO_UID}`,
+            resumo: `${tipoTexto} - ${row.nome_segurado}`,
+            inicio,
+            duracaoMinutos: DURACAO_AGENDAMENTO_MINUTOS,
+            local: [row.unidade, row.endereco].filter(Boolean).join(' - ') || undefined,
+            descricao,
+            status: cancelado ? 'CANCELLED' : 'CONFIRMED',
+            sequencia: this.sequencia(row.updated_at),
+            atualizadoEm: new Date(row.updated_at),
+            alarmes: [
+                { antecedenciaMinutos: 24 * 60, descricao: `${tipoTexto} amanhã - ${row.nome_segurado}` },
+                { antecedenciaMinutos: 2 * 60, descricao: `${tipoTexto} em 2 horas - ${row.nome_segurado}` },
+            ],
+        };
+    }
+
+    private eventoExigencia(row: any, doParceiro: boolean): EventoCalendario {
+        const cumprida = row.status === 'CUMPRIDA';
+        const itens: string[] = row.itens_pendentes || [];
+
+        const descricao = [
+            `Segurado: ${row.nome_segurado}`,
+            `Protocolo: ${row.protocolo_inss}`,
+            `Benefício: ${row.tipo_beneficio}`,
+            `Exigência: ${row.resumo_exigencia}`,
+            itens.length > 0 ? `Pendências:\n${itens.map(item => `- ${item}`).join('\n')}` : null,
+            !doParceiro ? `PAT: ${LINK_PAT}${row.protocolo_inss}` : null,
+        ].filter(Boolean).join('\n');
+
+        return {
+            uid: `exigencia-${row.id}@${DOMINIO_UID}`,
+            resumo: `${cumprida ? '✅ ' : ''}Prazo de exigência - ${row.nome_segurado}`,
+            inicio: new Date(row.prazo),
+            diaInteiro: true,
+            descricao,
+            status: 'CONFIRMED',
+            sequencia: this.sequencia(row.updated_at),
+            atualizadoEm: new Date(row.updated_at),
+            alarmes: cumprida ? [] : [
+                { antecedenciaMinutos: 3 * 24 * 60, descricao: `Exigência vence em 3 dias - ${row.nome_segurado}` },
+                { antecedenciaMinutos: 24 * 60, descricao: `Exigência vence amanhã - ${row.nome_segurado}` },
+            ],
+        };
+    }
+
+    /**
+     * SEQUENCE cresce a cada updated_at (segundos desde 2020, cabe em inteiro de 32 bits)
+     */
+    private sequencia(atualizadoEm: Date | string): number {
+        return Math.max(0, Math.floor((new Date(atualizadoEm).getTime() - EPOCA_SEQUENCIA) / 1000));
+    }
+
+    private mapearFeed(row: any): FeedCalendario {
+        return {
+            id: row.id,
+            usuarioId: row.usuario_id,
+            parceiroId: row.parceiro_id,
+            parceiroNome: row.parceiro_nome || null,
+            token: row.token,
+            descricao: row.descricao,
+            ativo: row.ativo,
+            ultimoAcessoEm: row.ultimo_acesso_em,
+            createdAt: row.created_at,
+        };
+    }
+}
+
+export default new CalendariosService();
@@ -0,0 +1,317 @@
+/**
+ * Classificação dos documentos enviados pelos clientes (RG, CPF, comprovante de residência, laudo, CadÚnico)
+ *
+ * Cada arquivo recebido (DocumentosRecebidosService) entra com classificacao_status PENDENTE e o
+ * worker o passa pelo OCR (utils/ocr-ensemble) e pela IA do escritório: tipo do documento, nome,
+ * CPF, datas e CIDs. Sem item informado por quem enviou, o documento é vinculado ao item pendente
+ * do checklist que a IA reconheceu; CPF diferente do segurado vira alerta na tarefa de anexar.
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import { ocrDocumento } from '../utils/ocr-ensemble';
+import { AIService } from './AIService';
+import { criarProvedorLLM, LLMProviderNome, RespostaClassificacaoDocumento } from './llm';
+import armazenamentoService from './armazenamento';
+import exigenciasItensService from './ExigenciasItensService';
+import cofreCredenciaisService from './CofreCredenciaisService';
+
+export type StatusClassificacaoDocumento = 'PENDENTE' | 'CLASSIFICADO' | 'SEM_TEXTO' | 'ERRO';
+
+export interface ClassificacaoDocumento {
+    documentoId: string;
+    status: StatusClassificacaoDocumento;
+    tipoDocumento: RespostaClassificacaoDocumento['tipo_documento'] | null;
+    nome: string | null;
+    cpf: string | null;
+    datas: RespostaClassificacaoDocumento['datas'];
+    cids: string[];
+    confianca: number | null;
+    ocrConfianca: number | null;
+    cpfDivergente: boolean;
+    /** Item do checklist vinculado pela classificação (null se já vinha informado ou não houve correspondência) */
+    exigenciaItemId: string | null;
+}
+
+// Documentos de terceiros são comuns aqui (conta de luz no nome do pai, por exemplo)
+const TIPOS_SEM_CONFERENCIA_CPF = ['COMPROVANTE_RESIDENCIA', 'OUTRO'];
+
+const CPF_NO_TEXTO = /\b\d{3}\.?\d{3}\.?\d{3}[-.\s]?\d{2}\b/g;
+
+export class ClassificacaoDocumentosService {
+    private timerWorker: NodeJS.Timeout | null = null;
+    private processando = false;
+    private readonly intervaloWorkerMs = 30 * 1000;
+
+    /**
+     * Inicia o worker (uma vez por processo); OCR é pesado, então um documento por vez
+     */
+    iniciar(): void {
+        if (this.timerWorker) {
+            return;
+        }
+        if (!config.classificacaoDocumentos.ativo) {
+            logger.info('[Classificação Documentos] Desativada (CLASSIFICACAO_DOCUMENTOS_ATIVO=false)');
+            return;
+        }
+
+        this.timerWorker = setInterval(() => this.processarPendentes(), this.intervaloWorkerMs);
+        this.timerWorker.unref();
+        this.processarPendentes();
+    }
+
+    /**
+     * Adianta a próxima rodada do worker (documento acabou de chegar)
+     */
+    agendar(): void {
+        if (this.timerWorker) {
+            setImmediate(() => this.processarPendentes());
+        }
+    }
+
+    /**
+     * Classifica os documentos pendentes, do mais antigo para o mais novo
+     */
+    async processarPendentes(): Promise<void> {
+        if (this.processando) {
+            return;
+        }
+        this.processando = true;
+
+        try {
+            let pendentes: { id: string }[];
+            do {
+                pendentes = await Database.query(`
+                    SELECT id FROM documentos
+                    WHERE classificacao_status = 'PENDENTE'
+                    ORDER BY created_at
+                    LIMIT 5
+                `);
+
+                for (const documento of pendentes) {
+                    await this.classificar(documento.id);
+                }
+            } while (pendentes.length > 0);
+        } catch (error: any) {
+            logger.error(`[Classificação Documentos] ❌ Erro no worker: ${error.message}`);
+        } finally {
+            this.processando = false;
+        }
+    }
+
+    /**
+     * OCR + IA de um documento; erros ficam registrados no próprio documento (status ERRO)
+     * @returns null se o documento não existir
+     */
+    async classificar(documentoId: string): Promise<ClassificacaoDocumento | null> {
+        const resultado = await Database.query(`
+            SELECT d.id, d.exigencia_id, d.exigencia_item_id, d.tarefa_id, d.nome_arquivo, d.cpf_divergente,
+                   p.cpf_segurado, p.usuario_extensao_id
+            FROM documentos d
+            LEFT JOIN processos p ON p.id = d.processo_id
+            WHERE d.id = $1
+        `, [documentoId]);
+
+        if (resultado.length === 0) {
+            return null;
+        }
+        const documento = resultado[0];
+
+        try {
+            const arquivo = await armazenamentoService.ler(documentoId);
+            if (!arquivo) {
+                return this.gravar(documento, 'ERRO', null, null, '', null, false, 'Arquivo não encontrado');
+            }
+
+            const ehImagem = arquivo.contentType.startsWith('image/');
+            const ocr = ehImagem ? await ocrDocumento(arquivo.dados) : null;
+            const texto = ocr?.texto || '';
+
+            const aiService = await this.criarAIService(documento.usuario_extensao_id || config.whatsapp.usuarioCentral || null);
+            // PDF vai inteiro só para o Gemini (os outros provedores aceitam apenas imagem)
+            const anexo = ehImagem || aiService.getProviderNome() === 'gemini'
+                ? { data: arquivo.dados, mimeType: arquivo.contentType }
+                : undefined;
+
+            const itensPendentes: { id: string; descricao: string }[] = documento.exigencia_id && !documento.exigencia_item_id
+                ? await Database.query(`
+                    SELECT id, descricao FROM exigencias_itens
+                    WHERE exigencia_id = $1 AND status = 'PENDENTE'
+                    ORDER BY ordem
+                `, [documento.exigencia_id])
+                : [];
+
+            if (!texto && !anexo) {
+                return this.gravar(documento, 'SEM_TEXTO', null, ocr?.confianca ?? null, '', null, false, 'PDF sem texto e provedor sem leitura de PDF');
+            }
+
+            const resposta = await aiService.classificarDocumento(texto, itensPendentes.map(item => item.descricao), anexo);
+
+            const cpfDivergente = this.cpfDivergente(documento.cpf_segurado, resposta, texto);
+            // Reclassificação não repete o alerta
+            if (cpfDivergente && !documento.cpf_divergente) {
+                await this.alertarCpfDivergente(documento, resposta?.cpf || null);
+            }
+
+            let itemVinculado: string | null = null;
+            if (resposta?.item_exigencia && resposta.confianca >= config.classificacaoDocumentos.confiancaMinima) {
+                const item = itensPendentes.find(candidato => this.normalizar(candidato.descricao) === this.normalizar(resposta.item_exigencia!));
+                if (item) {
+                    await Database.query(`
+                        UPDATE documentos SET exigencia_item_id = $2, tipo_documento = $3 WHERE id = $1
+                    `, [documentoId, item.id, item.descricao]);
+                    await exigenciasItensService.marcarRecebido(item.id);
+                    itemVinculado = item.id;
+                    logger.info(`[Classificação Documentos] 🔗 Documento ${documentoId} vinculado ao item "${item.descricao}"`);
+                }
+            }
+
+            if (!resposta) {
+                return this.gravar(documento, 'ERRO', null, ocr?.confianca ?? null, texto, itemVinculado, cpfDivergente, 'IA indisponível ou resposta inválida');
+            }
+
+            logger.info(`[Classificação Documentos] 📄 Documento ${documentoId}: ${resposta.tipo_documento} (confiança ${resposta.confianca})`);
+            return this.gravar(documento, 'CLASSIFICADO', resposta, ocr?.confianca ?? null, texto, itemVinculado, cpfDivergente, null);
+        } catch (error: any) {
+            logger.error(`[Classificação Documentos] ❌ Erro ao classificar documento ${documentoId}: ${error.message}`);
+            return this.gravar(documento, 'ERRO', null, null, '', null, false, error.message);
+        }
+    }
+
+    /**
+     * IA do escritório dono do processo (provedor e chaves do cofre); sem escritório, a do .env
+     */
+    private async criarAIService(usuarioId: string | null): Promise<AIService> {
+        if (!usuarioId) {
+            return new AIService();
+        }
+
+        const resultado = await Database.query(
+            'SELECT llm_provider, llm_base_url, llm_model FROM usuarios_extensao WHERE id = $1',
+            [usuarioId]
+        );
+        const configs = resultado[0] || {};
+        const segredos = await cofreCredenciaisService.lerVarias(usuarioId, ['gemini_api_key', 'llm_api_key'], 'classificacao_documentos');
+        const provider: LLMProviderNome | undefined = configs.llm_provider || undefined;
+
+        if (!segredos.gemini_api_key && (!provider || provider === 'gemini')) {
+            return new AIService();
+        }
+
+        return new AIService(
+            segredos.gemini_api_key,
+            criarProvedorLLM({
+                provider,
+                baseUrl: configs.llm_base_url || undefined,
+                model: configs.llm_model || undefined,
+                apiKey: segredos.llm_api_key,
+                geminiApiKey: segredos.gemini_api_key,
+            })
+        );
+    }
+
+    /**
+     * CPF do documento (da IA ou, sem ela, encontrado no texto) diferente do CPF do segurado
+     * Documento com vários CPFs (CadÚnico, certidão) só diverge se nenhum deles for o do segurado
+     */
+    private cpfDivergente(cpfSegurado: string | null, resposta: RespostaClassificacaoDocumento | null, texto: string): boolean {
+        const segurado = (cpfSegurado || '').replace(/\D/g, '');
+        if (segurado.length !== 11 || (resposta && TIPOS_SEM_CONFERENCIA_CPF.includes(resposta.tipo_documento))) {
+            return false;
+        }
+
+        const encontrados = [resposta?.cpf || '', ...(texto.match(CPF_NO_TEXTO) || [])]
+            .map(cpf => cpf.replace(/\D/g, ''))
+            .filter(cpf => cpf.length === 11);
+
+        return encontrados.length > 0 && !encontrados.includes(segurado);
+    }
+
+    /**
+     * Alerta na tarefa ANEXAR_DOCUMENTO para o administrativo conferir antes de anexar no INSS
+     */
+    private async alertarCpfDivergente(documento: any, cpf: string | null): Promise<void> {
+        logger.warn(`[Classificação Documentos] ⚠️ Documento ${documento.id} com CPF diferente do segurado`);
+
+        if (!documento.tarefa_id) {
+            return;
+        }
+
+        await Database.query(`
+            UPDATE tarefas
+            SET descricao = COALESCE(descricao, '') || $2, updated_at = NOW()
+            WHERE id = $1
+        `, [
+            documento.tarefa_id,
+            `\n⚠️ O documento "${documento.nome_arquivo}" tem CPF ${cpf ? `${cpf} ` : ''}diferente do segurado. Conferir antes de anexar.`,
+        ]);
+    }
+
+    private async gravar(
+        documento: any,
+        status: StatusClassificacaoDocumento,
+        resposta: RespostaClassificacaoDocumento | null,
+        ocrConfianca: number | null,
+        texto: string,
+        exigenciaItemId: string | null,
+        cpfDivergente: boolean,
+        erro: string | null
+    ): Promise<ClassificacaoDocumento> {
+        const classificacao: ClassificacaoDocumento = {
+            documentoId: documento.id,
+            status,
+            tipoDocumento: resposta?.tipo_documento || null,
+            nome: resposta?.nome || null,
+            cpf: resposta?.cpf ? resposta.cpf.replace(/\D/g, '') : null,
+            datas: resposta?.datas || [],
+            cids: resposta?.cids || [],
+            confianca: resposta?.confianca ?? null,
+            ocrConfianca,
+            cpfDivergente,
+            exigenciaItemId,
+        };
+
+        await Database.query(`
+            UPDATE documentos
+            SET classificacao_status = $2,
+                tipo_detectado = $3,
+                dados_extraidos = $4,
+                texto_ocr = $5,
+                ocr_confianca = $6,
+                cpf_divergente = $7,
+                classificacao_erro = $8,
+                classificado_em = NOW()
+            WHERE id = $1
+        `, [
+            documento.id,
+            status,
+            classificacao.tipoDocumento,
+            resposta ? JSON.stringify({
+                nome: classificacao.nome,
+                cpf: classificacao.cpf,
+                datas: classificacao.datas,
+                cids: classificacao.cids,
+                itemSugerido: resposta.item_exigencia || null,
+                confianca: classificacao.confianca,
+            }) : null,
+            texto || null,
+            ocrConfianca,
+            cpfDivergente,
+            erro,
+        ]);
+
+        return classificacao;
+    }
+
+    private normalizar(texto: string): string {
+        return texto
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
+
+export default new ClassificacaoDocumentosService();
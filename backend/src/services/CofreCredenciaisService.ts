@@ -0,0 +1,338 @@
+/**
+ * Cofre de credenciais dos escritórios (chave do Gemini, token e senha do Tramitação, token do PAT...)
+ *
+ * Criptografia em envelope (AES-256-GCM): cada segredo tem a sua chave de dados, e a chave de dados
+ * é guardada cifrada com a chave mestra (COFRE_CHAVE_MESTRA ou arquivo COFRE_ARQUIVO_CHAVE).
+ * Um dump do banco sem a chave mestra não revela nenhum segredo.
+ *
+ * Rotação: a chave mestra nova vai em COFRE_CHAVE_MESTRA, a antiga em COFRE_CHAVES_ANTERIORES e
+ * `npm run cofre:rotacionar` recifra as chaves de dados (e, com --chaves-dados, os próprios segredos).
+ *
+ * Toda leitura, gravação, remoção e rotação fica em credenciais_cofre_acessos.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+
+export type NomeCredencial = 'gemini_api_key' | 'tramitacao_api_token' | 'tramitacao_senha' | 'pat_token' | 'llm_api_key';
+
+export const NOMES_CREDENCIAIS: NomeCredencial[] = ['gemini_api_key', 'tramitacao_api_token', 'tramitacao_senha', 'pat_token', 'llm_api_key'];
+
+export type AcaoCofre = 'LEITURA' | 'GRAVACAO' | 'REMOCAO' | 'ROTACAO';
+
+export interface AcessoCofre {
+    nome: NomeCredencial | null;
+    acao: AcaoCofre;
+    origem: string;
+    data: Date;
+}
+
+interface ChaveMestra {
+    id: string;
+    chave: Buffer;
+}
+
+const ALGORITMO = 'aes-256-gcm';
+const TAMANHO_IV = 12;
+const TAMANHO_TAG = 16;
+// Valores cifrados fora da tabela do cofre (ex.: token do PAT na fila de sincronização)
+const PREFIXO_ENVELOPE = 'cofre:v1:';
+
+export class CofreCredenciaisService {
+    private chaves: { atual: ChaveMestra; todas: Map<string, ChaveMestra> } | null = null;
+
+    /**
+     * Grava (ou, com valor vazio, remove) o segredo do escritório
+     * @param origem quem gravou, para o registro de acessos (ex.: 'extensao', 'migracao')
+     */
+    async gravar(usuarioId: string, nome: NomeCredencial, valor: string | null | undefined, origem: string): Promise<void> {
+        if (!valor) {
+            const removido = await Database.query(
+                'DELETE FROM credenciais_cofre WHERE usuario_id = $1 AND nome = $2 RETURNING id',
+                [usuarioId, nome]
+            );
+            if (removido.length > 0) {
+                await this.registrarAcessos(usuarioId, [nome], 'REMOCAO', origem);
+            }
+            return;
+        }
+
+        const { atual } = this.carregarChaves();
+        const cifrado = this.cifrarEnvelope(valor, atual, this.contexto(usuarioId, nome));
+
+        await Database.query(`
+            INSERT INTO credenciais_cofre (usuario_id, nome, chave_mestra_id, chave_dados_cifrada, valor_cifrado)
+            VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT (usuario_id, nome) DO UPDATE SET
+                chave_mestra_id = EXCLUDED.chave_mestra_id,
+                chave_dados_cifrada = EXCLUDED.chave_dados_cifrada,
+                valor_cifrado = EXCLUDED.valor_cifrado,
+                updated_at = NOW()
+        `, [usuarioId, nome, atual.id, cifrado.chaveDados, cifrado.valor]);
+
+        await this.registrarAcessos(usuarioId, [nome], 'GRAVACAO', origem);
+    }
+
+    async ler(usuarioId: string, nome: NomeCredencial, origem: string): Promise<string | null> {
+        const valores = await this.lerVarias(usuarioId, [nome], origem);
+        return valores[nome] ?? null;
+    }
+
+    /**
+     * Segredos do escritório decifrados (só os que estão configurados)
+     */
+    async lerVarias(usuarioId: string, nomes: NomeCredencial[], origem: string): Promise<Partial<Record<NomeCredencial, string>>> {
+        const linhas = await Database.query(`
+            SELECT nome, chave_mestra_id, chave_dados_cifrada, valor_cifrado
+            FROM credenciais_cofre
+            WHERE usuario_id = $1 AND nome = ANY($2)
+        `, [usuarioId, nomes]);
+
+        const valores: Partial<Record<NomeCredencial, string>> = {};
+        for (const linha of linhas) {
+            valores[linha.nome as NomeCredencial] = this.decifrarEnvelope(
+                linha.chave_mestra_id, linha.chave_dados_cifrada, linha.valor_cifrado,
+                this.contexto(usuarioId, linha.nome)
+            );
+        }
+
+        if (linhas.length > 0) {
+            await this.registrarAcessos(usuarioId, Object.keys(valores) as NomeCredencial[], 'LEITURA', origem);
+        }
+        return valores;
+    }
+
+    /**
+     * Quais segredos o escritório configurou (sem decifrar nem registrar leitura)
+     */
+    async configuradas(usuarioId: string): Promise<Set<NomeCredencial>> {
+        const linhas = await Database.query(
+            'SELECT nome FROM credenciais_cofre WHERE usuario_id = $1',
+            [usuarioId]
+        );
+        return new Set(linhas.map((linha: any) => linha.nome as NomeCredencial));
+    }
+
+    async listarAcessos(usuarioId: string, limite = 50): Promise<AcessoCofre[]> {
+        const linhas = await Database.query(`
+            SELECT nome, acao, origem, created_at
+            FROM credenciais_cofre_acessos
+            WHERE usuario_id = $1
+            ORDER BY created_at DESC
+            LIMIT $2
+        `, [usuarioId, limite]);
+
+        return linhas.map((linha: any) => ({
+            nome: linha.nome,
+            acao: linha.acao,
+            origem: linha.origem,
+            data: linha.created_at,
+        }));
+    }
+
+    /**
+     * Cifra um valor guardado fora do cofre (texto único com chave de dados própria)
+     * @param contexto onde o valor fica (ex.: 'sincronizacao_jobs.token_pat'); precisa ser o mesmo ao decifrar
+     */
+    cifrarTexto(valor: string, contexto: string): string {
+        const { atual } = this.carregarChaves();
+        const cifrado = this.cifrarEnvelope(valor, atual, contexto);
+        return `${PREFIXO_ENVELOPE}${atual.id}:${cifrado.chaveDados}:${cifrado.valor}`;
+    }
+
+    /**
+     * Valores gravados antes do cofre (sem o prefixo) voltam como estão
+     */
+    decifrarTexto(texto: string, contexto: string): string {
+        if (!texto.startsWith(PREFIXO_ENVELOPE)) {
+            return texto;
+        }
+        const [chaveMestraId, chaveDados, valor] = texto.substring(PREFIXO_ENVELOPE.length).split(':');
+        return this.decifrarEnvelope(chaveMestraId, chaveDados, valor, contexto);
+    }
+
+    /**
+     * Recifra com a chave mestra atual as chaves de dados cifradas com chaves anteriores
+     * Os segredos em si não mudam; depois disso as chaves anteriores podem sair do .env
+     */
+    async rotacionarChaveMestra(): Promise<{ credenciais: number; jobs: number }> {
+        const { atual } = this.carregarChaves();
+
+        const linhas = await Database.query(`
+            SELECT id, usuario_id, nome, chave_mestra_id, chave_dados_cifrada
+            FROM credenciais_cofre
+            WHERE chave_mestra_id <> $1
+        `, [atual.id]);
+
+        for (const linha of linhas) {
+            const contexto = this.contexto(linha.usuario_id, linha.nome);
+            const chaveDados = this.abrir(this.chaveMestra(linha.chave_mestra_id).chave, linha.chave_dados_cifrada, contexto);
+
+            await Database.query(`
+                UPDATE credenciais_cofre
+                SET chave_mestra_id = $2, chave_dados_cifrada = $3, updated_at = NOW()
+                WHERE id = $1
+            `, [linha.id, atual.id, this.selar(atual.chave, chaveDados, contexto)]);
+
+            await this.registrarAcessos(linha.usuario_id, [linha.nome], 'ROTACAO', 'rotacao-chave-mestra');
+        }
+
+        // Tokens do PAT guardados na fila de sincronização
+        const jobs = await Database.query(`
+            SELECT id, token_pat FROM sincronizacao_jobs
+            WHERE token_pat LIKE $1 AND token_pat NOT LIKE $2
+        `, [`${PREFIXO_ENVELOPE}%`, `${PREFIXO_ENVELOPE}${atual.id}:%`]);
+
+        for (const job of jobs) {
+            const token = this.decifrarTexto(job.token_pat, 'sincronizacao_jobs.token_pat');
+            await Database.query(
+                'UPDATE sincronizacao_jobs SET token_pat = $2 WHERE id = $1',
+                [job.id, this.cifrarTexto(token, 'sincronizacao_jobs.token_pat')]
+            );
+        }
+
+        logger.info(`[Cofre] 🔄 Chave mestra ${atual.id}: ${linhas.length} credencial(is) e ${jobs.length} job(s) recifrados`);
+        return { credenciais: linhas.length, jobs: jobs.length };
+    }
+
+    /**
+     * Troca a chave de dados de cada segredo (recifra o valor)
+     * @param usuarioId só os segredos desse escritório; sem ele, todos
+     */
+    async rotacionarChavesDados(usuarioId?: string): Promise<number> {
+        const { atual } = this.carregarChaves();
+        const linhas = await Database.query(`
+            SELECT id, usuario_id, nome, chave_mestra_id, chave_dados_cifrada, valor_cifrado
+            FROM credenciais_cofre
+            WHERE ($1::uuid IS NULL OR usuario_id = $1)
+        `, [usuarioId || null]);
+
+        for (const linha of linhas) {
+            const contexto = this.contexto(linha.usuario_id, linha.nome);
+            const valor = this.decifrarEnvelope(linha.chave_mestra_id, linha.chave_dados_cifrada, linha.valor_cifrado, contexto);
+            const cifrado = this.cifrarEnvelope(valor, atual, contexto);
+
+            await Database.query(`
+                UPDATE credenciais_cofre
+                SET chave_mestra_id = $2, chave_dados_cifrada = $3, valor_cifrado = $4, updated_at = NOW()
+                WHERE id = $1
+            `, [linha.id, atual.id, cifrado.chaveDados, cifrado.valor]);
+
+            await this.registrarAcessos(linha.usuario_id, [linha.nome], 'ROTACAO', 'rotacao-chaves-dados');
+        }
+
+        logger.info(`[Cofre] 🔄 ${linhas.length} chave(s) de dados trocada(s)`);
+        return linhas.length;
+    }
+
+    // =============== CRIPTOGRAFIA ===============
+
+    private cifrarEnvelope(valor: string, chaveMestra: ChaveMestra, contexto: string): { chaveDados: string; valor: string } {
+        const chaveDados = crypto.randomBytes(32);
+        return {
+            chaveDados: this.selar(chaveMestra.chave, chaveDados, contexto),
+            valor: this.selar(chaveDados, Buffer.from(valor, 'utf8'), contexto),
+        };
+    }
+
+    private decifrarEnvelope(chaveMestraId: string, chaveDadosCifrada: string, valorCifrado: string, contexto: string): string {
+        const chaveDados = this.abrir(this.chaveMestra(chaveMestraId).chave, chaveDadosCifrada, contexto);
+        return this.abrir(chaveDados, valorCifrado, contexto).toString('utf8');
+    }
+
+    /**
+     * AES-256-GCM: base64(iv | tag | texto cifrado); o contexto entra como dado autenticado,
+     * então um valor copiado para outro escritório ou outro campo não decifra
+     */
+    private selar(chave: Buffer, dados: Buffer, contexto: string): string {
+        const iv = crypto.randomBytes(TAMANHO_IV);
+        const cifra = crypto.createCipheriv(ALGORITMO, chave, iv);
+        cifra.setAAD(Buffer.from(contexto, 'utf8'));
+        const cifrado = Buffer.concat([cifra.update(dados), cifra.final()]);
+        return Buffer.concat([iv, cifra.getAuthTag(), cifrado]).toString('base64');
+    }
+
+    private abrir(chave: Buffer, selado: string, contexto: string): Buffer {
+        const bytes = Buffer.from(selado, 'base64');
+        const decifra = crypto.createDecipheriv(ALGORITMO, chave, bytes.subarray(0, TAMANHO_IV));
+        decifra.setAAD(Buffer.from(contexto, 'utf8'));
+        decifra.setAuthTag(bytes.subarray(TAMANHO_IV, TAMANHO_IV + TAMANHO_TAG));
+        return Buffer.concat([decifra.update(bytes.subarray(TAMANHO_IV + TAMANHO_TAG)), decifra.final()]);
+    }
+
+    private contexto(usuarioId: string, nome: string): string {
+        return `credenciais_cofre:${usuarioId}:${nome}`;
+    }
+
+    // =============== CHAVES MESTRAS ===============
+
+    private chaveMestra(id: string): ChaveMestra {
+        const chave = this.carregarChaves().todas.get(id);
+        if (!chave) {
+            throw new Error(`Chave mestra ${id} do cofre não configurada (falta em COFRE_CHAVES_ANTERIORES?)`);
+        }
+        return chave;
+    }
+
+    /**
+     * Chave atual (COFRE_CHAVE_MESTRA ou arquivo) e anteriores; fora de produção, o arquivo é criado se não existir
+     * @throws Error se não houver chave mestra ou se alguma chave não tiver 32 bytes
+     */
+    private carregarChaves(): { atual: ChaveMestra; todas: Map<string, ChaveMestra> } {
+        if (this.chaves) {
+            return this.chaves;
+        }
+
+        const atual = this.decodificarChave(config.cofre.chaveMestra || this.lerArquivoChave());
+        const todas = new Map<string, ChaveMestra>([[atual.id, atual]]);
+        for (const anterior of config.cofre.chavesAnteriores) {
+            const chave = this.decodificarChave(anterior);
+            todas.set(chave.id, chave);
+        }
+
+        this.chaves = { atual, todas };
+        return this.chaves;
+    }
+
+    private lerArquivoChave(): string {
+        const arquivo = path.resolve(config.cofre.arquivoChave);
+
+        if (fs.existsSync(arquivo)) {
+            return fs.readFileSync(arquivo, 'utf8').trim();
+        }
+
+        if (config.env === 'production') {
+            throw new Error('Cofre de credenciais sem chave mestra: configure COFRE_CHAVE_MESTRA ou COFRE_ARQUIVO_CHAVE');
+        }
+
+        const chave = crypto.randomBytes(32).toString('base64');
+        fs.mkdirSync(path.dirname(arquivo), { recursive: true });
+        fs.writeFileSync(arquivo, `${chave}\n`, { mode: 0o600 });
+        logger.warn(`[Cofre] ⚠️ Chave mestra criada em ${arquivo}: guarde uma cópia, sem ela as credenciais não podem ser lidas`);
+        return chave;
+    }
+
+    private decodificarChave(texto: string): ChaveMestra {
+        const valor = texto.trim();
+        const chave = /^[0-9a-f]{64}$/i.test(valor) ? Buffer.from(valor, 'hex') : Buffer.from(valor, 'base64');
+
+        if (chave.length !== 32) {
+            throw new Error('Chave mestra do cofre inválida: use 32 bytes em base64 (openssl rand -base64 32) ou hex');
+        }
+
+        return { id: crypto.createHash('sha256').update(chave).digest('hex').substring(0, 16), chave };
+    }
+
+    private async registrarAcessos(usuarioId: string, nomes: NomeCredencial[], acao: AcaoCofre, origem: string): Promise<void> {
+        await Database.query(`
+            INSERT INTO credenciais_cofre_acessos (usuario_id, nome, acao, origem)
+            SELECT $1, nome, $3, $4 FROM unnest($2::text[]) AS nome
+        `, [usuarioId, nomes, acao, origem]);
+    }
+}
+
+export default new CofreCredenciaisService();
@@ -0,0 +1,360 @@
+/**
+ * Acompanhamento do comparecimento a perícias e avaliações sociais
+ *
+ * A partir do dia seguinte ao agendamento, relê o protocolo no PAT (AgendamentosService)
+ * e marca o agendamento como CUMPRIDO ou NAO_COMPARECEU. Falta vira indeferimento por culpa
+ * semanas depois, então gera tarefa URGENTE de remarcação, nota no Tramitação e aviso
+ * ao escritório e ao parceiro responsável (canal preferido de cada um).
+ *
+ * Enquanto o PAT não atualiza o status ("Aguardando comparecimento"), tenta de novo a cada
+ * execução, até COMPARECIMENTO_MAX_TENTATIVAS.
+ *
+ * A conferência roda na fila do PAT (SincronizacaoFilaService), um job por escritório: navegador
+ * próprio, login com o token do PAT do cofre e nunca ao mesmo tempo que outro job da mesma conta.
+ */
+
+import cron from 'node-cron';
+import { Page } from 'puppeteer';
+import { format, isSameDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import TramitacaoService from './TramitacaoService';
+import ParceirosService from './ParceirosService';
+import AgendamentosService, { Agendamento } from './AgendamentosService';
+import canaisNotificacaoService from './canais';
+import templatesMensagemService from './TemplatesMensagemService';
+import sincronizacaoFilaService from './SincronizacaoFilaService';
+import cofreCredenciaisService from './CofreCredenciaisService';
+
+export type ResultadoComparecimento = 'CUMPRIDO' | 'NAO_COMPARECEU' | 'REMARCADO' | 'CANCELADO' | 'INDEFINIDO';
+
+interface AgendamentoPassado {
+    id: string;
+    processo_id: string;
+    protocolo_inss: string;
+    nome_segurado: string;
+    cpf_segurado: string;
+    tipo: 'PERICIA' | 'AVALIACAO_SOCIAL';
+    data_agendamento: Date;
+    hora_agendamento: string;
+    unidade: string;
+    tramitacao_cliente_id: number | null;
+    comparecimento_tentativas: number;
+}
+
+export interface ResumoComparecimento {
+    verificados: number;
+    cumpridos: number;
+    faltas: number;
+    remarcadosOuCancelados: number;
+    indefinidos: number;
+}
+
+const LINK_PAT = 'https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/';
+
+export class ComparecimentoAgendamentosService {
+    private tarefaCron: cron.ScheduledTask | null = null;
+    private processando = false;
+
+    /**
+     * Agenda a conferência (COMPARECIMENTO_CRON), uma vez por processo
+     */
+    iniciar(): void {
+        if (this.tarefaCron) {
+            return;
+        }
+
+        this.tarefaCron = cron.schedule(config.comparecimento.cron, () => {
+            this.enfileirar()
+                .catch((error: any) => logger.error(`[Comparecimento] ❌ Erro ao enfileirar a conferência: ${error.message}`));
+        });
+        logger.info(`[Comparecimento] Conferência de comparecimento agendada: ${config.comparecimento.cron}`);
+    }
+
+    /**
+     * Cria um job de conferência na fila do PAT para cada escritório com agendamentos vencidos
+     * (escritório sem token do PAT no cofre fica de fora)
+     * @returns ids dos jobs criados
+     */
+    async enfileirar(): Promise<string[]> {
+        const escritorios: { usuario_id: string }[] = await Database.query(`
+            SELECT DISTINCT COALESCE(p.usuario_extensao_id::text, NULLIF($2, '')) AS usuario_id
+            FROM agendamentos a
+            INNER JOIN processos p ON p.id = a.processo_id
+            WHERE a.status = 'AGENDADO'
+              AND a.data_agendamento < CURRENT_DATE
+              AND a.comparecimento_tentativas < $1
+              AND (a.comparecimento_verificado_em IS NULL OR a.comparecimento_verificado_em < CURRENT_DATE)
+        `, [config.comparecimento.maxTentativas, config.whatsapp.usuarioCentral]);
+
+        const jobs: string[] = [];
+        for (const { usuario_id: usuarioId } of escritorios) {
+            if (!usuarioId || await sincronizacaoFilaService.buscarJobAtivo(usuarioId, 'comparecimento')) {
+                continue;
+            }
+
+            const tokenPat = await cofreCredenciaisService.ler(usuarioId, 'pat_token', 'comparecimento');
+            if (!tokenPat) {
+                logger.warn(`[Comparecimento] ⚠️ Escritório ${usuarioId} sem token do PAT configurado: conferência adiada`);
+                continue;
+            }
+
+            const agora = new Date();
+            jobs.push(await sincronizacaoFilaService.criarJob({
+                usuarioId,
+                contaPat: await sincronizacaoFilaService.contaPatDoUsuario(usuarioId),
+                tokenPat,
+                dataInicio: agora,
+                dataFim: agora,
+                forcarExecucao: false,
+                tipo: 'comparecimento',
+            }));
+        }
+
+        logger.info(`[Comparecimento] ${jobs.length} conferência(s) enfileirada(s)`);
+        return jobs;
+    }
+
+    /**
+     * Confere os agendamentos vencidos do escritório ainda marcados como AGENDADO
+     * @param page aba do PAT já logada (job da fila)
+     * @param interromper lease do job perdido: para antes do próximo agendamento
+     */
+    async processar(usuarioId: string, page: Page, interromper?: AbortSignal): Promise<ResumoComparecimento> {
+        const resumo: ResumoComparecimento = { verificados: 0, cumpridos: 0, faltas: 0, remarcadosOuCancelados: 0, indefinidos: 0 };
+        if (this.processando) {
+            logger.warn('[Comparecimento] Conferência já em andamento, ignorando');
+            return resumo;
+        }
+        this.processando = true;
+
+        try {
+            const agendamentos = await this.buscarPendentes(usuarioId);
+            logger.info(`[Comparecimento] ${agendamentos.length} agendamento(s) passado(s) para conferir (escritório ${usuarioId})`);
+
+            for (const agendamento of agendamentos) {
+                if (interromper?.aborted) {
+                    logger.warn('[Comparecimento] Job assumido por outro processo, parando');
+                    break;
+                }
+
+                const resultado = await this.verificarNoPat(agendamento, page);
+                resumo.verificados++;
+
+                if (resultado === 'INDEFINIDO') {
+                    resumo.indefinidos++;
+                    await this.registrarTentativa(agendamento);
+                    continue;
+                }
+
+                await this.atualizarStatus(agendamento, resultado);
+                if (resultado === 'CUMPRIDO') {
+                    resumo.cumpridos++;
+                } else if (resultado === 'NAO_COMPARECEU') {
+                    resumo.faltas++;
+                    await this.tratarFalta(agendamento);
+                } else {
+                    resumo.remarcadosOuCancelados++;
+                }
+            }
+
+            logger.info(`[Comparecimento] Concluído: ${resumo.cumpridos} cumprido(s), ${resumo.faltas} falta(s), ${resumo.remarcadosOuCancelados} remarcado(s)/cancelado(s), ${resumo.indefinidos} sem status no PAT`);
+            return resumo;
+        } finally {
+            this.processando = false;
+        }
+    }
+
+    /**
+     * Agendamentos do escritório com data anterior a hoje, ainda AGENDADO, não conferidos hoje e
+     * dentro do limite de tentativas (processos sem escritório registrado ficam com o central)
+     */
+    async buscarPendentes(usuarioId: string): Promise<AgendamentoPassado[]> {
+        const result: any = await Database.query(`
+            SELECT
+                a.id,
+                a.processo_id,
+                a.protocolo_inss,
+                p.nome_segurado,
+                a.cpf_segurado,
+                a.tipo,
+                a.data_agendamento,
+                a.hora_agendamento,
+                a.unidade,
+                a.comparecimento_tentativas,
+                p.tramitacao_cliente_id
+            FROM agendamentos a
+            INNER JOIN processos p ON p.id = a.processo_id
+            WHERE a.status = 'AGENDADO'
+              AND a.data_agendamento < CURRENT_DATE
+              AND a.comparecimento_tentativas < $1
+              AND (a.comparecimento_verificado_em IS NULL OR a.comparecimento_verificado_em < CURRENT_DATE)
+              AND (p.usuario_extensao_id = $2 OR (p.usuario_extensao_id IS NULL AND $2::text = $3))
+            ORDER BY a.data_agendamento
+        `, [config.comparecimento.maxTentativas, usuarioId, config.whatsapp.usuarioCentral]);
+
+        return result.map((row: any) => ({
+            ...row,
+            data_agendamento: new Date(row.data_agendamento),
+        }));
+    }
+
+    /**
+     * Relê o agendamento no PAT: status da tela de detalhes e, sem ele, o da tabela
+     */
+    async verificarNoPat(agendamento: AgendamentoPassado, page: Page): Promise<ResultadoComparecimento> {
+        try {
+            await page.goto(`${LINK_PAT}${agendamento.protocolo_inss}`, { waitUntil: 'networkidle2' });
+            await page.waitForTimeout(2000);
+
+            const doPat = agendamento.tipo === 'PERICIA'
+                ? await AgendamentosService.extrairPericiasMedicas(page, agendamento.protocolo_inss, agendamento.cpf_segurado)
+                : await AgendamentosService.extrairAvaliacoesSociais(page, agendamento.protocolo_inss, agendamento.cpf_segurado);
+
+            const mesmoDia = doPat.filter(a => isSameDay(a.data, agendamento.data_agendamento));
+            const linha: Agendamento | undefined = mesmoDia.find(a => a.hora === agendamento.hora_agendamento) || mesmoDia[0];
+            if (!linha) {
+                logger.warn(`[Comparecimento] Agendamento de ${format(agendamento.data_agendamento, 'dd/MM/yyyy')} não encontrado no PAT (protocolo ${agendamento.protocolo_inss})`);
+                return 'INDEFINIDO';
+            }
+
+            const detalhado = await AgendamentosService.extrairDetalhesAgendamento(page, linha, { baixarComprovante: false });
+            const status = (detalhado?.statusDetalhe && AgendamentosService.classificarStatus(detalhado.statusDetalhe))
+                || linha.status;
+
+            logger.info(`[Comparecimento] Protocolo ${agendamento.protocolo_inss} (${agendamento.tipo}): ${detalhado?.statusDetalhe || linha.status} → ${status}`);
+            return status === 'AGENDADO' ? 'INDEFINIDO' : status;
+        } catch (error: any) {
+            logger.error(`[Comparecimento] Erro ao conferir protocolo ${agendamento.protocolo_inss}: ${error.message}`);
+            return 'INDEFINIDO';
+        }
+    }
+
+    private async atualizarStatus(agendamento: AgendamentoPassado, status: Exclude<ResultadoComparecimento, 'INDEFINIDO'>): Promise<void> {
+        await Database.query(`
+            UPDATE agendamentos
+            SET status = $2,
+                comparecimento_verificado_em = NOW(),
+                comparecimento_tentativas = comparecimento_tentativas + 1,
+                updated_at = NOW()
+            WHERE id = $1
+        `, [agendamento.id, status]);
+    }
+
+    private async registrarTentativa(agendamento: AgendamentoPassado): Promise<void> {
+        await Database.query(`
+            UPDATE agendamentos
+            SET comparecimento_verificado_em = NOW(),
+                comparecimento_tentativas = comparecimento_tentativas + 1
+            WHERE id = $1
+        `, [agendamento.id]);
+
+        if (agendamento.comparecimento_tentativas + 1 >= config.comparecimento.maxTentativas) {
+            logger.warn(`[Comparecimento] ⚠️ PAT sem status após ${config.comparecimento.maxTentativas} conferência(s): protocolo ${agendamento.protocolo_inss} precisa de conferência manual`);
+        }
+    }
+
+    /**
+     * Falta: tarefa URGENTE de remarcação, aviso ao escritório e ao parceiro, nota no Tramitação
+     */
+    private async tratarFalta(agendamento: AgendamentoPassado): Promise<void> {
+        const tipoTexto = agendamento.tipo === 'PERICIA' ? 'PERÍCIA MÉDICA' : 'AVALIAÇÃO SOCIAL';
+        const data = format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR });
+
+        // 1. Tarefa de remarcação
+        try {
+            const tarefa = await Database.query(`
+                INSERT INTO tarefas (
+                    processo_id, tipo, prioridade, status, titulo, descricao,
+                    responsavel_perfil, created_at, updated_at
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+                RETURNING id
+            `, [
+                agendamento.processo_id,
+                'AGENDAR_PERICIA',
+                'URGENTE',
+                'PENDENTE',
+                `Pedir remarcação - não compareceu à ${tipoTexto.toLowerCase()}`,
+                `Protocolo: ${agendamento.protocolo_inss}\nCliente: ${agendamento.nome_segurado}\nAgendamento perdido: ${data} às ${agendamento.hora_agendamento} (${agendamento.unidade})\n\nContatar o cliente, obter a justificativa da falta e pedir a remarcação no PAT antes que vire indeferimento.`,
+                'administrativo'
+            ]);
+
+            await Database.query(
+                'UPDATE agendamentos SET tarefa_remarcacao_id = $2 WHERE id = $1',
+                [agendamento.id, tarefa[0].id]
+            );
+            logger.info(`[Comparecimento] ✅ Tarefa URGENTE de remarcação criada (processo ${agendamento.processo_id})`);
+        } catch (error: any) {
+            logger.error(`[Comparecimento] Erro ao criar tarefa de remarcação: ${error.message}`);
+        }
+
+        // 2. Aviso ao escritório e ao parceiro (pelas tags do cliente no Tramitação)
+        let tagsCliente: string[] = [];
+        if (agendamento.tramitacao_cliente_id) {
+            try {
+                tagsCliente = await TramitacaoService.obterTagsCliente(agendamento.tramitacao_cliente_id);
+            } catch (error: any) {
+                logger.warn(`[Comparecimento] Erro ao buscar tags: ${error.message}`);
+            }
+        }
+
+        const parceiro = await ParceirosService.identificarParceiroPorTags(tagsCliente);
+        const destinatarios = await ParceirosService.obterDestinatarios(parceiro, 'AGENDAMENTO');
+
+        const cpfLimpo = agendamento.cpf_segurado.replace(/\D/g, '');
+        const dadosTemplate: Record<string, unknown> = {
+            tipo: tipoTexto,
+            cliente: agendamento.nome_segurado,
+            cpf: cpfLimpo.length === 11
+                ? `${cpfLimpo.substring(0, 3)}.XXX.X${cpfLimpo.substring(8, 9)}X-${cpfLimpo.substring(9, 11)}`
+                : agendamento.cpf_segurado,
+            protocolo: agendamento.protocolo_inss,
+            data,
+            hora: agendamento.hora_agendamento,
+            unidade: agendamento.unidade,
+            linkProcesso: `${LINK_PAT}${agendamento.protocolo_inss}`,
+            dataHora: format(new Date(), 'dd/MM/yyyy, HH:mm', { locale: ptBR }),
+        };
+
+        const { texto: mensagem } = await templatesMensagemService.renderizar('WHATSAPP_AGENDAMENTO_NAO_COMPARECIDO', dadosTemplate);
+        const avisados: string[] = [];
+
+        for (const destinatario of destinatarios) {
+            try {
+                const canal = await canaisNotificacaoService.enviar(destinatario, {
+                    assunto: `Falta na ${tipoTexto.toLowerCase()} de ${data} - ${agendamento.nome_segurado}`,
+                    mensagem,
+                    origem: 'comparecimento',
+                    tipo: 'AGENDAMENTO_NAO_COMPARECIDO',
+                    processoId: agendamento.processo_id,
+                    cidade: destinatario.tipo
+                });
+                avisados.push(`${destinatario.nome} (${canaisNotificacaoService.descreverDestino(destinatario, canal)})`);
+            } catch (error: any) {
+                logger.error(`[Comparecimento] Erro ao avisar ${destinatario.nome}: ${error.message}`);
+            }
+        }
+
+        // 3. Nota no Tramitação
+        if (agendamento.tramitacao_cliente_id) {
+            try {
+                const nota = await templatesMensagemService.renderizar('NOTA_AGENDAMENTO_NAO_COMPARECIDO', {
+                    ...dadosTemplate,
+                    destinatarios: avisados.join(', '),
+                });
+
+                await TramitacaoService.criarNota(agendamento.tramitacao_cliente_id.toString(), {
+                    titulo: nota.titulo,
+                    texto: nota.texto,
+                    tipo: 'URGENTE'
+                });
+            } catch (error: any) {
+                logger.warn(`[Comparecimento] ⚠️ Erro ao registrar nota: ${error.message}`);
+            }
+        }
+    }
+}
+
+export default new ComparecimentoAgendamentosService();
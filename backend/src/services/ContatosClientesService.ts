@@ -0,0 +1,128 @@
+/**
+ * Contato e canal preferido dos clientes (segurados) para notificações diretas
+ *
+ * Muitos clientes do BPC não usam WhatsApp: o escritório cadastra o canal (WhatsApp, e-mail ou SMS)
+ * e o contato. Cliente sem cadastro (ou inativo) não recebe notificações diretas.
+ */
+
+import Database from '../database';
+import logger from '../utils/logger';
+import { ContatoNotificacao, TIPOS_CANAL, TipoCanal } from './canais';
+
+export interface ContatoCliente {
+    id?: number;
+    cpf: string;
+    nome?: string | null;
+    canalPreferido: TipoCanal;
+    telefone?: string | null;
+    email?: string | null;
+    ativo: boolean;
+    observacoes?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export class ContatosClientesService {
+
+    async buscarPorCpf(cpf: string): Promise<ContatoCliente | null> {
+        const resultado = await Database.query('SELECT * FROM contatos_clientes WHERE cpf = $1', [this.normalizarCpf(cpf)]);
+        return resultado.length > 0 ? this.mapearParaBD(resultado[0]) : null;
+    }
+
+    /**
+     * Cria ou atualiza o contato do cliente
+     */
+    async salvar(cpf: string, dados: Partial<Omit<ContatoCliente, 'cpf'>>): Promise<ContatoCliente> {
+        const cpfNormalizado = this.normalizarCpf(cpf);
+        if (cpfNormalizado.length !== 11) {
+            throw new Error('CPF inválido');
+        }
+
+        const existente = await this.buscarPorCpf(cpfNormalizado);
+        const canal = dados.canalPreferido ?? existente?.canalPreferido ?? 'whatsapp';
+        const telefone = dados.telefone !== undefined ? dados.telefone?.replace(/\D/g, '') || null : existente?.telefone ?? null;
+        const email = dados.email !== undefined ? dados.email?.trim() || null : existente?.email ?? null;
+
+        if (!TIPOS_CANAL.includes(canal)) {
+            throw new Error(`Canal inválido. Use: ${TIPOS_CANAL.join(', ')}`);
+        }
+        if (canal === 'email' && !email) {
+            throw new Error('Informe o e-mail do cliente para o canal email');
+        }
+        if (canal !== 'email' && !telefone) {
+            throw new Error(`Informe o telefone do cliente para o canal ${canal}`);
+        }
+        if (telefone && (telefone.length < 10 || telefone.length > 15)) {
+            throw new Error('Telefone inválido. Use formato: 5577988887777');
+        }
+
+        const resultado = await Database.query(`
+            INSERT INTO contatos_clientes (cpf, nome, canal_preferido, telefone, email, ativo, observacoes)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (cpf) DO UPDATE SET
+                nome = $2, canal_preferido = $3, telefone = $4, email = $5, ativo = $6, observacoes = $7,
+                updated_at = NOW()
+            RETURNING *
+        `, [
+            cpfNormalizado,
+            dados.nome !== undefined ? dados.nome : existente?.nome ?? null,
+            canal,
+            telefone,
+            email,
+            dados.ativo ?? existente?.ativo ?? true,
+            dados.observacoes !== undefined ? dados.observacoes : existente?.observacoes ?? null,
+        ]);
+
+        logger.info(`[ContatosClientes] Contato do CPF ${cpfNormalizado.substring(0, 3)}*** salvo (canal: ${canal})`);
+        return this.mapearParaBD(resultado[0]);
+    }
+
+    async excluir(cpf: string): Promise<boolean> {
+        const resultado = await Database.query('DELETE FROM contatos_clientes WHERE cpf = $1 RETURNING id', [this.normalizarCpf(cpf)]);
+        return resultado.length > 0;
+    }
+
+    /**
+     * Contato do cliente para os canais de notificação (null = não notificar o cliente)
+     */
+    async contatoNotificacao(cpf: string, nomePadrao?: string): Promise<ContatoNotificacao | null> {
+        try {
+            const contato = await this.buscarPorCpf(cpf);
+            if (!contato || !contato.ativo) {
+                return null;
+            }
+
+            return {
+                tipo: 'CLIENTE',
+                nome: contato.nome || nomePadrao || 'Cliente',
+                canal: contato.canalPreferido,
+                telefone: contato.telefone,
+                email: contato.email,
+            };
+        } catch (error: any) {
+            logger.warn(`[ContatosClientes] ⚠️ Erro ao buscar contato do cliente: ${error.message}`);
+            return null;
+        }
+    }
+
+    private normalizarCpf(cpf: string): string {
+        return (cpf || '').replace(/\D/g, '');
+    }
+
+    private mapearParaBD(row: any): ContatoCliente {
+        return {
+            id: row.id,
+            cpf: row.cpf,
+            nome: row.nome,
+            canalPreferido: row.canal_preferido,
+            telefone: row.telefone,
+            email: row.email,
+            ativo: row.ativo,
+            observacoes: row.observacoes,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
+
+export default new ContatosClientesService();
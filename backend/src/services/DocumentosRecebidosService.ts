@@ -0,0 +1,164 @@
+/**
+ * Documentos recebidos (anexo no WhatsApp, upload no portal do parceiro ou pelo escritório)
+ *
+ * O arquivo vai para o armazenamento (e para documentos), vinculado à exigência aberta do processo
+ * e ao item do checklist que ele atende (ver ExigenciasItensService); uma tarefa ANEXAR_DOCUMENTO
+ * em aberto junta tudo o que chegar para o administrativo anexar no INSS.
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import armazenamentoService from './armazenamento';
+import exigenciasItensService from './ExigenciasItensService';
+import classificacaoDocumentosService from './ClassificacaoDocumentosService';
+
+export type OrigemDocumentoRecebido = 'WHATSAPP' | 'PORTAL' | 'ESCRITORIO';
+
+export interface DocumentoRecebido {
+    processoId: string;
+    /** Exigência preferida (a da notificação ou a escolhida no portal); se não estiver aberta, vale a de prazo mais próximo */
+    exigenciaId?: string | null;
+    dados: Buffer;
+    mimetype: string;
+    nomeArquivo: string;
+    /** Item do checklist da exigência que o documento atende (pela descrição) */
+    tipoDocumento?: string | null;
+    /** Item do checklist pelo id (tem precedência sobre tipoDocumento) */
+    exigenciaItemId?: string | null;
+    origem: OrigemDocumentoRecebido;
+    /** Quem enviou (telefone ou nome do parceiro), para a descrição da tarefa */
+    remetente: string;
+    observacoes: string;
+    parceiroId?: number | null;
+}
+
+export interface ResultadoDocumentoRecebido {
+    documentoId: string;
+    exigenciaId: string | null;
+    exigenciaItemId: string | null;
+    tarefaId: string;
+}
+
+export const EXTENSOES_DOCUMENTO: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic',
+};
+
+const ORIGENS: Record<OrigemDocumentoRecebido, { titulo: string; descricao: string }> = {
+    WHATSAPP: { titulo: 'por WhatsApp', descricao: 'pelo WhatsApp' },
+    PORTAL: { titulo: 'pelo portal do parceiro', descricao: 'pelo portal do parceiro' },
+    ESCRITORIO: { titulo: 'pelo escritório', descricao: 'pelo escritório' },
+};
+
+export class DocumentosRecebidosService {
+    /**
+     * Guarda o arquivo como documento da exigência aberta, marca o item do checklist como recebido
+     * e cria (ou reaproveita) a tarefa de anexar
+     */
+    async registrar(documento: DocumentoRecebido): Promise<ResultadoDocumentoRecebido> {
+        const exigencia = await this.buscarExigenciaAberta(documento.processoId, documento.exigenciaId || null);
+        const item = exigencia
+            ? await exigenciasItensService.buscarItem(exigencia.id, documento.exigenciaItemId, documento.tipoDocumento)
+            : null;
+
+        const arquivo = await armazenamentoService.salvar({
+            dados: documento.dados,
+            nomeArquivo: documento.nomeArquivo,
+            contentType: documento.mimetype,
+            origem: documento.origem,
+            processoId: documento.processoId,
+            exigenciaId: exigencia?.id || null,
+            exigenciaItemId: item?.id || null,
+            tipoDocumento: item?.descricao || documento.tipoDocumento,
+            observacoes: documento.observacoes,
+            parceiroId: documento.parceiroId,
+        });
+
+        const tarefaId = await this.obterTarefaAnexar(documento.processoId, exigencia, documento);
+        // Entra na fila de OCR + IA (tipo do documento, dados extraídos, conferência do CPF)
+        await Database.query(`
+            UPDATE documentos SET tarefa_id = $2, classificacao_status = $3 WHERE id = $1
+        `, [arquivo.documentoId, tarefaId, config.classificacaoDocumentos.ativo ? 'PENDENTE' : null]);
+
+        if (exigencia) {
+            await Database.query(`
+                INSERT INTO confirmacoes_documentos (exigencia_id, documentos_recebidos, data_recebimento)
+                VALUES ($1, true, NOW())
+                ON CONFLICT (exigencia_id) DO UPDATE
+                SET documentos_recebidos = true, data_recebimento = NOW()
+            `, [exigencia.id]);
+        }
+
+        if (item) {
+            await exigenciasItensService.marcarRecebido(item.id);
+        }
+
+        classificacaoDocumentosService.agendar();
+
+        logger.info(`[Documentos Recebidos] 📎 Documento de ${documento.remetente} salvo no processo ${documento.processoId} (${documento.origem})`);
+
+        return { documentoId: arquivo.documentoId, exigenciaId: exigencia?.id || null, exigenciaItemId: item?.id || null, tarefaId };
+    }
+
+    /**
+     * Exigência preferida, se ainda aberta; senão a exigência aberta de prazo mais próximo
+     */
+    private async buscarExigenciaAberta(processoId: string, exigenciaId: string | null): Promise<{ id: string; prazo: Date } | null> {
+        const result = await Database.query(`
+            SELECT id, prazo FROM exigencias
+            WHERE processo_id = $1 AND status IN ('PENDENTE', 'EM_ANDAMENTO')
+            ORDER BY (id = $2) IS TRUE DESC, prazo ASC
+            LIMIT 1
+        `, [processoId, exigenciaId]);
+
+        return result[0] || null;
+    }
+
+    /**
+     * Uma tarefa ANEXAR_DOCUMENTO em aberto por processo/exigência junta todos os anexos recebidos
+     */
+    private async obterTarefaAnexar(
+        processoId: string,
+        exigencia: { id: string; prazo: Date } | null,
+        documento: DocumentoRecebido
+    ): Promise<string> {
+        const existente = await Database.query(`
+            SELECT id FROM tarefas
+            WHERE processo_id = $1 AND tipo = 'ANEXAR_DOCUMENTO' AND status IN ('PENDENTE', 'EM_ANDAMENTO')
+              AND exigencia_id IS NOT DISTINCT FROM $2
+            ORDER BY created_at DESC
+            LIMIT 1
+        `, [processoId, exigencia?.id || null]);
+
+        if (existente.length > 0) {
+            return existente[0].id;
+        }
+
+        const origem = ORIGENS[documento.origem];
+        const processo = await Database.query('SELECT protocolo_inss, nome_segurado FROM processos WHERE id = $1', [processoId]);
+        const protocolo = processo[0]?.protocolo_inss || '';
+
+        const tarefa = await Database.query(`
+            INSERT INTO tarefas (
+                processo_id, exigencia_id, tipo, titulo, descricao, prioridade, responsavel_perfil, data_prazo
+            ) VALUES ($1, $2, 'ANEXAR_DOCUMENTO', $3, $4, $5, 'administrativo', $6)
+            RETURNING id
+        `, [
+            processoId,
+            exigencia?.id || null,
+            `Anexar documentos recebidos ${origem.titulo} - ${protocolo}`,
+            `Cliente: ${processo[0]?.nome_segurado || 'Não informado'}\nDocumentos enviados por ${documento.remetente} ${origem.descricao}. Conferir e anexar ao processo no INSS.`,
+            exigencia ? 'ALTA' : 'MEDIA',
+            exigencia?.prazo || null,
+        ]);
+
+        logger.info(`[Documentos Recebidos] 📋 Tarefa ANEXAR_DOCUMENTO criada para o processo ${processoId}`);
+        return tarefa[0].id;
+    }
+}
+
+export default new DocumentosRecebidosService();
@@ -0,0 +1,116 @@
+/**
+ * Registro de efeitos da sincronização INSS
+ *
+ * Cada efeito colateral de um protocolo (nota, etiquetas, atividade, WhatsApp, comprovante)
+ * fica em sincronizacao_efeitos, chaveado por protocolo + hash do estado do card no INSS.
+ * Se o job cair no meio de um protocolo, a retomada pula o que já foi feito; se o estado
+ * do INSS não mudou, reprocessar o protocolo não faz nada.
+ */
+
+import { createHash } from 'crypto';
+import Database from '../database';
+import logger from '../utils/logger';
+
+export type TipoEfeito = 'nota' | 'etiquetas' | 'atividade' | 'whatsapp' | 'comprovante' | 'protocolo_processado';
+
+/**
+ * Protocolo em processamento e o estado do card que originou os efeitos
+ */
+export interface ContextoEfeitos {
+    jobId: string;
+    protocolo: string;
+    hashCard: string;
+    /** Dry-run: o registro é ignorado (nada é lido nem gravado) para que todos os efeitos apareçam no relatório */
+    simulacao?: boolean;
+}
+
+export interface EfeitoExecutado<T> {
+    /** true quando o efeito já estava registrado e a ação não foi executada */
+    repetido: boolean;
+    valor: T | null;
+    referencia: string | null;
+}
+
+export class EfeitosSincronizacaoService {
+    // Mesma janela de cards que a IA analisa
+    private readonly CARDS_NO_HASH = 3;
+
+    /**
+     * Hash do estado do protocolo no INSS: status atual + últimos cards (data e texto)
+     */
+    calcularHashCard(detalhes: { statusAtual?: string; comentarios?: Array<{ data: Date | string; texto: string }> }): string {
+        const cards = (detalhes.comentarios || []).slice(-this.CARDS_NO_HASH).map(comentario => {
+            const data = comentario.data instanceof Date
+                ? comentario.data.toLocaleDateString('pt-BR')
+                : String(comentario.data);
+            return `${data}|${(comentario.texto || '').replace(/\s+/g, ' ').trim()}`;
+        });
+
+        const estado = [(detalhes.statusAtual || '').trim().toUpperCase(), ...cards].join('\n');
+        return createHash('sha256').update(estado).digest('hex');
+    }
+
+    /**
+     * Protocolo já foi processado por completo com este mesmo estado do card
+     */
+    async protocoloJaProcessado(contexto: ContextoEfeitos): Promise<boolean> {
+        const efeito = await this.buscar(contexto, 'protocolo_processado');
+        return efeito !== null;
+    }
+
+    async marcarProtocoloProcessado(contexto: ContextoEfeitos): Promise<void> {
+        await this.registrar(contexto, 'protocolo_processado');
+    }
+
+    async buscar(contexto: ContextoEfeitos, tipo: TipoEfeito, chave: string = ''): Promise<{ referencia: string | null } | null> {
+        if (contexto.simulacao) {
+            return null;
+        }
+        const rows = await Database.query(
+            `SELECT referencia FROM sincronizacao_efeitos
+             WHERE protocolo = $1 AND hash_card = $2 AND tipo = $3 AND chave = $4`,
+            [contexto.protocolo, contexto.hashCard, tipo, chave]
+        );
+        return rows.length > 0 ? { referencia: rows[0].referencia } : null;
+    }
+
+    async registrar(contexto: ContextoEfeitos, tipo: TipoEfeito, chave: string = '', referencia?: string | null): Promise<void> {
+        if (contexto.simulacao) {
+            return;
+        }
+        await Database.query(
+            `INSERT INTO sincronizacao_efeitos (protocolo, hash_card, tipo, chave, referencia, job_id)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (protocolo, hash_card, tipo, chave) DO NOTHING`,
+            [contexto.protocolo, contexto.hashCard, tipo, chave, referencia ?? null, contexto.jobId]
+        );
+    }
+
+    /**
+     * Executa a ação apenas se o efeito ainda não foi registrado para este estado do card.
+     * O efeito só é registrado quando a ação retorna valor truthy (falhas podem ser repetidas).
+     */
+    async executarUmaVez<T>(
+        contexto: ContextoEfeitos,
+        tipo: TipoEfeito,
+        chave: string,
+        acao: () => Promise<T>
+    ): Promise<EfeitoExecutado<T>> {
+        const existente = await this.buscar(contexto, tipo, chave);
+        if (existente) {
+            logger.info(`[Job ${contexto.jobId}] ⏭️ Efeito "${tipo}${chave ? `:${chave}` : ''}" já executado para este estado do protocolo ${contexto.protocolo}, pulando`);
+            return { repetido: true, valor: null, referencia: existente.referencia };
+        }
+
+        const valor = await acao();
+        if (!valor) {
+            return { repetido: false, valor, referencia: null };
+        }
+
+        const referencia = typeof valor === 'string' || typeof valor === 'number' ? String(valor) : null;
+        await this.registrar(contexto, tipo, chave, referencia);
+        return { repetido: false, valor, referencia };
+    }
+}
+
+export default new EfeitosSincronizacaoService();
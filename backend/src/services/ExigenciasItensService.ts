@@ -0,0 +1,294 @@
+/**
+ * Checklist de documentos das exigências
+ *
+ * Cada documento pedido pelo INSS (lista da IA ou incluído pelo escritório) é um item:
+ * PENDENTE → RECEBIDO (chegou arquivo pelo WhatsApp, portal ou extensão) → VALIDADO (conferido
+ * pelo escritório) → ANEXADO_INSS. Com todos os itens validados a exigência é cumprida; com todos
+ * anexados, as tarefas ANEXAR_DOCUMENTO da exigência são concluídas.
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import armazenamentoService from './armazenamento';
+
+export type StatusItemExigencia = 'PENDENTE' | 'RECEBIDO' | 'VALIDADO' | 'ANEXADO_INSS';
+
+export const STATUS_ITEM_EXIGENCIA: StatusItemExigencia[] = ['PENDENTE', 'RECEBIDO', 'VALIDADO', 'ANEXADO_INSS'];
+
+export interface DocumentoItemExigencia {
+    id: string;
+    nomeArquivo: string;
+    origem: string | null;
+    tamanhoBytes: number | null;
+    enviadoEm: Date;
+    /** Link assinado de download (expira) */
+    url: string;
+    /** Classificação por OCR + IA (ver ClassificacaoDocumentosService) */
+    classificacaoStatus: string | null;
+    tipoDetectado: string | null;
+    dadosExtraidos: Record<string, unknown> | null;
+    cpfDivergente: boolean;
+}
+
+export interface ItemExigencia {
+    id: string;
+    exigenciaId: string;
+    descricao: string;
+    ordem: number;
+    status: StatusItemExigencia;
+    observacao: string | null;
+    recebidoEm: Date | null;
+    validadoEm: Date | null;
+    validadoPor: string | null;
+    anexadoInssEm: Date | null;
+    documentos: DocumentoItemExigencia[];
+}
+
+export interface ExigenciaDetectada {
+    prazo: Date;
+    resumo: string;
+    documentos: string[];
+}
+
+export class ExigenciasItensService {
+    /**
+     * Registra a exigência detectada na sincronização (ou reaproveita a aberta com o mesmo prazo)
+     * e cria um item para cada documento pedido
+     * @returns id da exigência
+     */
+    async registrarExigencia(processoId: string, exigencia: ExigenciaDetectada): Promise<string> {
+        const documentos = exigencia.documentos.map(doc => doc.trim()).filter(Boolean);
+
+        const aberta = await Database.query(`
+            SELECT id FROM exigencias
+            WHERE processo_id = $1 AND status IN ('PENDENTE', 'EM_ANDAMENTO') AND prazo = $2::date
+            ORDER BY created_at DESC
+            LIMIT 1
+        `, [processoId, exigencia.prazo]);
+
+        let exigenciaId: string;
+        if (aberta.length > 0) {
+            exigenciaId = aberta[0].id;
+            await Database.query(`
+                UPDATE exigencias SET resumo_exigencia = $2, updated_at = NOW() WHERE id = $1
+            `, [exigenciaId, exigencia.resumo]);
+        } else {
+            const criada = await Database.query(`
+                INSERT INTO exigencias (processo_id, data_abertura, prazo, resumo_exigencia, itens_pendentes)
+                VALUES ($1, CURRENT_DATE, $2, $3, $4)
+                RETURNING id
+            `, [processoId, exigencia.prazo, exigencia.resumo, documentos]);
+            exigenciaId = criada[0].id;
+            logger.info(`[Exigências] 📋 Exigência ${exigenciaId} registrada para o processo ${processoId} (${documentos.length} documento(s))`);
+        }
+
+        await this.adicionarItens(exigenciaId, documentos);
+        return exigenciaId;
+    }
+
+    /**
+     * Inclui itens no fim da lista (descrições já existentes são ignoradas)
+     */
+    async adicionarItens(exigenciaId: string, descricoes: string[]): Promise<void> {
+        const itens = descricoes.map(descricao => descricao.trim()).filter(Boolean);
+        if (itens.length === 0) {
+            return;
+        }
+
+        await Database.query(`
+            INSERT INTO exigencias_itens (exigencia_id, descricao, ordem)
+            SELECT $1, item.descricao,
+                   COALESCE((SELECT MAX(ordem) + 1 FROM exigencias_itens WHERE exigencia_id = $1), 0) + item.posicao - 1
+            FROM unnest($2::text[]) WITH ORDINALITY AS item(descricao, posicao)
+            ON CONFLICT (exigencia_id, descricao) DO NOTHING
+        `, [exigenciaId, itens]);
+    }
+
+    /**
+     * Itens da exigência com os arquivos de cada um
+     */
+    async listar(exigenciaId: string): Promise<ItemExigencia[]> {
+        const itens = await Database.query(`
+            SELECT * FROM exigencias_itens WHERE exigencia_id = $1 ORDER BY ordem, created_at
+        `, [exigenciaId]);
+
+        const documentos = await Database.query(`
+            SELECT id, exigencia_item_id, nome_arquivo, origem, tamanho_bytes, created_at,
+                   classificacao_status, tipo_detectado, dados_extraidos, cpf_divergente
+            FROM documentos
+            WHERE exigencia_item_id = ANY($1::uuid[])
+            ORDER BY created_at
+        `, [itens.map((item: any) => item.id)]);
+
+        return itens.map((row: any) => ({
+            id: row.id,
+            exigenciaId: row.exigencia_id,
+            descricao: row.descricao,
+            ordem: row.ordem,
+            status: row.status,
+            observacao: row.observacao,
+            recebidoEm: row.recebido_em,
+            validadoEm: row.validado_em,
+            validadoPor: row.validado_por,
+            anexadoInssEm: row.anexado_inss_em,
+            documentos: documentos
+                .filter((doc: any) => doc.exigencia_item_id === row.id)
+                .map((doc: any) => ({
+                    id: doc.id,
+                    nomeArquivo: doc.nome_arquivo,
+                    origem: doc.origem,
+                    tamanhoBytes: doc.tamanho_bytes !== null ? Number(doc.tamanho_bytes) : null,
+                    enviadoEm: doc.created_at,
+                    url: armazenamentoService.gerarLink(doc.id).url,
+                    classificacaoStatus: doc.classificacao_status,
+                    tipoDetectado: doc.tipo_detectado,
+                    dadosExtraidos: doc.dados_extraidos,
+                    cpfDivergente: doc.cpf_divergente,
+                })),
+        }));
+    }
+
+    /**
+     * Item da exigência pelo id ou pela descrição (anexos do portal informam a descrição)
+     */
+    async buscarItem(exigenciaId: string, itemId?: string | null, descricao?: string | null): Promise<{ id: string; descricao: string } | null> {
+        if (!itemId && !descricao) {
+            return null;
+        }
+
+        const resultado = await Database.query(`
+            SELECT id, descricao FROM exigencias_itens
+            WHERE exigencia_id = $1 AND (id = $2::uuid OR descricao = $3)
+            ORDER BY (id = $2::uuid) IS TRUE DESC
+            LIMIT 1
+        `, [exigenciaId, itemId || null, descricao || null]);
+
+        return resultado[0] || null;
+    }
+
+    /**
+     * Chegou arquivo para o item: pendente vira recebido e a exigência entra em andamento
+     */
+    async marcarRecebido(itemId: string): Promise<void> {
+        const resultado = await Database.query(`
+            UPDATE exigencias_itens
+            SET status = 'RECEBIDO', recebido_em = NOW(), updated_at = NOW()
+            WHERE id = $1 AND status = 'PENDENTE'
+            RETURNING exigencia_id
+        `, [itemId]);
+
+        if (resultado.length > 0) {
+            await Database.query(`
+                UPDATE exigencias SET status = 'EM_ANDAMENTO', updated_at = NOW()
+                WHERE id = $1 AND status = 'PENDENTE'
+            `, [resultado[0].exigencia_id]);
+        }
+    }
+
+    /**
+     * Muda o status do item (validação, anexação no INSS ou devolução para pendente)
+     * @param responsavel quem validou (e-mail do usuário)
+     * @returns null se o item não existir; exigenciaCumprida indica que a exigência foi fechada agora
+     */
+    async atualizarStatus(
+        exigenciaId: string,
+        itemId: string,
+        status: StatusItemExigencia,
+        responsavel: string,
+        observacao?: string | null
+    ): Promise<{ item: ItemExigencia; exigenciaCumprida: boolean } | null> {
+        const resultado = await Database.query(`
+            UPDATE exigencias_itens
+            SET status = $3,
+                observacao = COALESCE($5, observacao),
+                recebido_em = CASE WHEN $3 = 'PENDENTE' THEN NULL ELSE COALESCE(recebido_em, NOW()) END,
+                validado_em = CASE WHEN $3 IN ('VALIDADO', 'ANEXADO_INSS') THEN COALESCE(validado_em, NOW()) END,
+                validado_por = CASE WHEN $3 IN ('VALIDADO', 'ANEXADO_INSS') THEN COALESCE(validado_por, $4) END,
+                anexado_inss_em = CASE WHEN $3 = 'ANEXADO_INSS' THEN COALESCE(anexado_inss_em, NOW()) END,
+                updated_at = NOW()
+            WHERE id = $2 AND exigencia_id = $1
+            RETURNING id
+        `, [exigenciaId, itemId, status, responsavel, observacao ?? null]);
+
+        if (resultado.length === 0) {
+            return null;
+        }
+
+        logger.info(`[Exigências] Item ${itemId} da exigência ${exigenciaId}: ${status} (${responsavel})`);
+
+        const exigenciaCumprida = await this.fecharSeConcluida(exigenciaId);
+        const itens = await this.listar(exigenciaId);
+        return { item: itens.find(item => item.id === itemId)!, exigenciaCumprida };
+    }
+
+    /**
+     * Processo da exigência, se ele é do escritório (processos sem escritório registrado só
+     * o escritório central, se configurado)
+     */
+    async buscarProcessoDoUsuario(exigenciaId: string, usuarioId: string): Promise<string | null> {
+        const resultado = await Database.query(`
+            SELECT p.id, p.usuario_extensao_id
+            FROM exigencias e
+            JOIN processos p ON p.id = e.processo_id
+            WHERE e.id = $1
+        `, [exigenciaId]);
+
+        if (resultado.length === 0) {
+            return null;
+        }
+
+        const { id, usuario_extensao_id: dono } = resultado[0];
+        if (dono) {
+            return dono === usuarioId ? id : null;
+        }
+
+        const central = config.whatsapp.usuarioCentral;
+        return central && central === usuarioId ? id : null;
+    }
+
+    /**
+     * Todos os itens validados → exigência cumprida; todos anexados → tarefas de anexar concluídas
+     * @returns true se a exigência foi cumprida nesta chamada
+     */
+    private async fecharSeConcluida(exigenciaId: string): Promise<boolean> {
+        const itens = await Database.query(`
+            SELECT
+                COUNT(*) AS total,
+                COUNT(*) FILTER (WHERE status IN ('VALIDADO', 'ANEXADO_INSS')) AS validados,
+                COUNT(*) FILTER (WHERE status = 'ANEXADO_INSS') AS anexados
+            FROM exigencias_itens
+            WHERE exigencia_id = $1
+        `, [exigenciaId]);
+
+        const total = Number(itens[0].total);
+        if (total === 0) {
+            return false;
+        }
+
+        if (Number(itens[0].anexados) === total) {
+            await Database.query(`
+                UPDATE tarefas
+                SET status = 'CONCLUIDA', data_conclusao = NOW(), updated_at = NOW()
+                WHERE exigencia_id = $1 AND tipo = 'ANEXAR_DOCUMENTO' AND status IN ('PENDENTE', 'EM_ANDAMENTO')
+            `, [exigenciaId]);
+        }
+
+        if (Number(itens[0].validados) < total) {
+            return false;
+        }
+
+        const cumprida = await Database.query(`
+            UPDATE exigencias SET status = 'CUMPRIDA', updated_at = NOW()
+            WHERE id = $1 AND status IN ('PENDENTE', 'EM_ANDAMENTO')
+            RETURNING id
+        `, [exigenciaId]);
+
+        if (cumprida.length > 0) {
+            logger.info(`[Exigências] ✅ Exigência ${exigenciaId} cumprida: todos os ${total} documento(s) validados`);
+        }
+        return cumprida.length > 0;
+    }
+}
+
+export default new ExigenciasItensService();
@@ -1,18 +1,30 @@
 /**
  * Serviço unificado para gerenciar lembretes de exigências e agendamentos
- * - Exigências: lembretes 7 dias antes do prazo
- * - Agendamentos: lembretes 30 e 7 dias antes da data
+ * - Etapas (D-30, D-7, D-1...), horário e fim de semana pela política do evento e do benefício
+ *   (PoliticasLembreteService; padrões: exigência D-7/D-3/D-1, agendamentos D-30/D-7/D-1 com a mensagem da véspera)
+ * - Cada etapa enviada ou pulada fica em lembretes_enviados (não repete, remarcação reinicia as etapas)
+ * - Envio pelo canal preferido de cada destinatário (WhatsApp, e-mail ou SMS, ver services/canais)
  */
 
 import Database from '../database';
 import logger from '../utils/logger';
 import TramitacaoService from './TramitacaoService';
-import ParceirosService from './ParceirosService';
-import whatsappService from './WhatsAppService';
+import ParceirosService, { ParceiroConfig } from './ParceirosService';
+import canaisNotificacaoService, { ContatoNotificacao } from './canais';
+import contatosClientesService from './ContatosClientesService';
+import templatesMensagemService from './TemplatesMensagemService';
+import politicasLembreteService from './PoliticasLembreteService';
 import AgendamentosService from './AgendamentosService';
+import armazenamentoService from './armazenamento';
 import PuppeteerService from './PuppeteerService';
-import { format, addDays, differenceInDays } from 'date-fns';
+import { format, addDays, differenceInCalendarDays } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import {
+    EtapaLembrete,
+    EventoLembrete,
+    dentroDaJanelaDeEnvio,
+    etapaDevida,
+} from '../utils/politicasLembrete';
 
 interface ExigenciaParaLembrete {
     id: string;
@@ -25,6 +37,8 @@ interface ExigenciaParaLembrete {
     documentos_exigidos: string[];
     tramitacao_cliente_id: number | null;
     email_unico: string | null;
+    tipo_beneficio: string | null;
+    dias_registrados: number[]; // etapas já enviadas/puladas para este prazo
 }
 
 interface AgendamentoParaLembrete {
@@ -39,6 +53,15 @@ interface AgendamentoParaLembrete {
     unidade: string;
     url_comprovante?: string | null;
     tramitacao_cliente_id: number | null;
+    tipo_beneficio: string | null;
+    dias_registrados: number[]; // etapas já enviadas/puladas para esta data
+}
+
+interface ResumoLembretes {
+    processadas: number;
+    enviadas: number;
+    puladas: number;
+    foraDoHorario: number; // etapas devidas que esperam a janela de envio
 }
 
 class LembretesService {
@@ -140,14 +163,14 @@ class LembretesService {
     }
 
     /**
-     * Busca exigências que precisam de lembrete (7 dias antes do prazo)
+     * Busca exigências pendentes com prazo dentro da maior antecedência das políticas
+     * (a etapa devida de cada uma é decidida em processarLembretes)
      */
     async buscarExigenciasParaLembrete(): Promise<ExigenciaParaLembrete[]> {
         try {
-            const hoje = new Date();
-            const seteDiasDepois = addDays(hoje, 7);
+            const hoje = format(new Date(), 'yyyy-MM-dd');
+            const limite = format(addDays(new Date(), await politicasLembreteService.maiorAntecedencia('EXIGENCIA')), 'yyyy-MM-dd');
 
-            // Buscar exigências pendentes com prazo entre hoje e 7 dias
             const result: any = await Database.query(`
                 SELECT 
                     e.id,
@@ -155,21 +178,26 @@ class LembretesService {
                     e.prazo,
                     e.resumo_exigencia,
                     e.documentos_exigidos,
-                    e.ultimo_lembrete_enviado,
                     p.protocolo_inss,
                     p.nome_segurado,
                     p.cpf_segurado,
                     p.tramitacao_cliente_id,
-                    p.email_unico
+                    p.email_unico,
+                    p.tipo_beneficio,
+                    COALESCE((
+                        SELECT array_agg(l.dias_antes)
+                        FROM lembretes_enviados l
+                        WHERE l.evento = 'EXIGENCIA'
+                          AND l.entidade_id = e.id
+                          AND l.data_referencia = e.prazo
+                    ), '{}') AS dias_registrados
                 FROM exigencias e
                 INNER JOIN processos p ON p.id = e.processo_id
                 WHERE e.status = 'PENDENTE'
                   AND e.data_cumprimento IS NULL
                   AND e.prazo >= $1
                   AND e.prazo <= $2
-                  AND (e.ultimo_lembrete_enviado IS NULL 
-                       OR e.ultimo_lembrete_enviado < $1)
-            `, [hoje, seteDiasDepois]);
+            `, [hoje, limite]);
 
             if (!result || result.length === 0) {
                 logger.info('[LembretesService] Nenhuma exigência encontrada para lembrete');
@@ -191,7 +219,9 @@ class LembretesService {
                     ? row.documentos_exigidos
                     : (row.documentos_exigidos ? JSON.parse(row.documentos_exigidos) : []),
                 tramitacao_cliente_id: row.tramitacao_cliente_id,
-                email_unico: row.email_unico
+                email_unico: row.email_unico,
+                tipo_beneficio: row.tipo_beneficio,
+                dias_registrados: (row.dias_registrados || []).map(Number)
             }));
 
             return exigencias;
@@ -202,9 +232,9 @@ class LembretesService {
     }
 
     /**
-     * Envia lembrete para uma exigência específica
+     * Envia a etapa de lembrete de uma exigência específica
      */
-    async enviarLembrete(exigencia: ExigenciaParaLembrete): Promise<boolean> {
+    async enviarLembrete(exigencia: ExigenciaParaLembrete, etapa: EtapaLembrete): Promise<boolean> {
         try {
             // Verificar se foi cumprida antes de enviar
             const foiCumprida = await this.verificarSeExigenciaFoiCumprida(exigencia);
@@ -212,12 +242,8 @@ class LembretesService {
             if (foiCumprida) {
                 logger.info(`[LembretesService] ⏭️ Exigência ${exigencia.id} já foi cumprida, pulando lembrete`);
 
-                // Atualizar ultimo_lembrete_enviado para evitar novas tentativas
-                await Database.query(`
-                    UPDATE exigencias
-                    SET ultimo_lembrete_enviado = NOW()
-                    WHERE id = $1
-                `, [exigencia.id]);
+                // Registrar a etapa como pulada para evitar novas tentativas
+                await this.registrarLembrete('EXIGENCIA', exigencia.id, exigencia.prazo, etapa.dias, 'PULADO', 0, 'Exigência cumprida');
 
                 return false;
             }
@@ -237,75 +263,55 @@ class LembretesService {
             // Identificar parceiro
             const parceiroIdentificado = await ParceirosService.identificarParceiroPorTags(tagsCliente);
 
-            // Obter destinatários
-            const destinatarios = ParceirosService.obterDestinatariosWhatsApp(parceiroIdentificado);
+            // Obter destinatários (escritório, parceiro e o cliente, se tem contato cadastrado)
+            const destinatarios = await this.obterDestinatarios(parceiroIdentificado, 'EXIGENCIA', exigencia.cpf_segurado, exigencia.nome_segurado);
 
             // Calcular dias restantes
-            const diasRestantes = differenceInDays(exigencia.prazo, new Date());
+            const diasRestantes = differenceInCalendarDays(exigencia.prazo, new Date());
 
-            // Formatar documentos exigidos
-            const documentosTexto = exigencia.documentos_exigidos && exigencia.documentos_exigidos.length > 0
-                ? exigencia.documentos_exigidos.map((doc, idx) => `> *${idx + 1}. ${doc}*`).join('%0A')
-                : 'Não especificados';
-
-            // Montar mensagem de lembrete
-            const mensagemLembrete = `⏰ *LEMBRETE: EXIGÊNCIA PRÓXIMA DO PRAZO* ⏰%0A%0A` +
-                `*Protocolo*: ${exigencia.protocolo_inss}%0A` +
-                `*Cliente*: ${exigencia.nome_segurado}%0A` +
+            // Montar mensagem de lembrete (template da etapa ou WHATSAPP_LEMBRETE_EXIGENCIA)
+            const { texto: mensagemLembrete } = await templatesMensagemService.renderizar(etapa.template || 'WHATSAPP_LEMBRETE_EXIGENCIA', {
+                cliente: exigencia.nome_segurado,
                 // Mascarar CPF para WhatsApp (padrão: 000.XXX.X0X-00)
-                `*CPF*: ${(() => {
+                cpf: (() => {
                     const cpfLimpo = exigencia.cpf_segurado.replace(/\D/g, '');
                     if (cpfLimpo.length !== 11) return exigencia.cpf_segurado;
                     return `${cpfLimpo.substring(0, 3)}.XXX.X${cpfLimpo.substring(8, 9)}X-${cpfLimpo.substring(9, 11)}`;
-                })()}%0A%0A` +
-                `*⚠️ ATENÇÃO: Faltam apenas ${diasRestantes} dia(s) para o prazo!*%0A%0A` +
-                `*Prazo limite*: ${format(exigencia.prazo, 'dd/MM/yyyy', { locale: ptBR })}%0A%0A` +
-                `*Exigência*: ${exigencia.resumo_exigencia}%0A%0A` +
-                `*Documentos exigidos*:%0A%0A${documentosTexto}%0A%0A`;
-
-            const mensagemComEmail = exigencia.email_unico
-                ? mensagemLembrete + `*ENVIE OS DOCUMENTOS PARA*:%0A%0A${exigencia.email_unico}%0A%0A` +
-                `*✅ Após enviar, responda "ENVIADO" neste chat*`
-                : mensagemLembrete + `*⚠️ Entre em contato com o escritório para enviar os documentos*`;
+                })(),
+                protocolo: exigencia.protocolo_inss,
+                diasRestantes,
+                prazo: exigencia.prazo,
+                exigencia: exigencia.resumo_exigencia,
+                documentos: exigencia.documentos_exigidos || [],
+                email: exigencia.email_unico,
+            });
 
             // Enviar para cada destinatário
             let sucesso = false;
+            let enviados = 0;
             for (const destinatario of destinatarios) {
                 try {
-                    const enviado = await whatsappService.enviar(
-                        destinatario.telefone,
-                        decodeURIComponent(mensagemComEmail)
-                    );
+                    const canal = await canaisNotificacaoService.enviar(destinatario, {
+                        assunto: `Lembrete: exigência do protocolo ${exigencia.protocolo_inss} vence em ${diasRestantes} dia(s)`,
+                        mensagem: mensagemLembrete,
+                        origem: 'lembrete',
+                        tipo: 'LEMBRETE_PRAZO',
+                        processoId: exigencia.processo_id,
+                        exigenciaId: exigencia.id,
+                        cidade: destinatario.tipo
+                    });
 
-                    if (enviado) {
-                        sucesso = true;
-                        logger.info(`[LembretesService] ✅ Lembrete enviado para ${destinatario.nome} (${destinatario.telefone})`);
-
-                        // Registrar notificação no banco
-                        await Database.query(`
-                            INSERT INTO notificacoes_whatsapp (
-                                processo_id, tipo, telefone_destino, cidade, mensagem, enviada, data_envio
-                            ) VALUES ($1, $2, $3, $4, $5, true, NOW())
-                        `, [
-                            exigencia.processo_id,
-                            'LEMBRETE_PRAZO',
-                            destinatario.telefone,
-                            destinatario.tipo === 'PARCEIRO' ? 'PARCEIRO' : 'ESCRITORIO',
-                            decodeURIComponent(mensagemComEmail)
-                        ]);
-                    }
+                    sucesso = true;
+                    enviados++;
+                    logger.info(`[LembretesService] ✅ Lembrete D-${etapa.dias} (${canal}) enviado para ${destinatario.nome}`);
                 } catch (error: any) {
                     logger.error(`[LembretesService] Erro ao enviar lembrete para ${destinatario.nome}: ${error.message}`);
                 }
             }
 
-            // Atualizar ultimo_lembrete_enviado
+            // Registrar a etapa (sem nenhum envio, tenta de novo na próxima execução)
             if (sucesso) {
-                await Database.query(`
-                    UPDATE exigencias
-                    SET ultimo_lembrete_enviado = NOW()
-                    WHERE id = $1
-                `, [exigencia.id]);
+                await this.registrarLembrete('EXIGENCIA', exigencia.id, exigencia.prazo, etapa.dias, 'ENVIADO', enviados);
             }
 
             return sucesso;
@@ -359,65 +365,17 @@ class LembretesService {
     }
 
     /**
-     * Busca agendamentos que precisam de lembrete (30 dias antes)
-     */
-    async buscarAgendamentosParaLembrete30d(): Promise<AgendamentoParaLembrete[]> {
-        try {
-            const hoje = new Date();
-            const trintaDiasDepois = addDays(hoje, 30);
-
-            const result: any = await Database.query(`
-                SELECT 
-                    a.id,
-                    a.processo_id,
-                    a.protocolo_inss,
-                    p.nome_segurado,
-                    a.cpf_segurado,
-                    a.tipo,
-                    a.data_agendamento,
-                    a.hora_agendamento,
-                    a.unidade,
-                    a.url_comprovante,
-                    p.tramitacao_cliente_id
-                FROM agendamentos a
-                INNER JOIN processos p ON p.id = a.processo_id
-                WHERE a.status = 'AGENDADO'
-                  AND a.data_agendamento >= $1
-                  AND a.data_agendamento <= $2
-                  AND (a.ultimo_lembrete_30d IS NULL 
-                       OR a.ultimo_lembrete_30d < $1)
-            `, [hoje, trintaDiasDepois]);
-
-            if (!result || result.length === 0) {
-                return [];
-            }
-
-            return result.map((row: any) => ({
-                id: row.id,
-                processo_id: row.processo_id,
-                protocolo_inss: row.protocolo_inss,
-                nome_segurado: row.nome_segurado,
-                cpf_segurado: row.cpf_segurado,
-                tipo: row.tipo,
-                data_agendamento: new Date(row.data_agendamento),
-                hora_agendamento: row.hora_agendamento,
-                unidade: row.unidade,
-                url_comprovante: row.url_comprovante,
-                tramitacao_cliente_id: row.tramitacao_cliente_id
-            }));
-        } catch (error: any) {
-            logger.error(`[LembretesService] Erro ao buscar agendamentos para lembrete 30d: ${error.message}`);
-            return [];
-        }
-    }
-
-    /**
-     * Busca agendamentos que precisam de lembrete (7 dias antes)
+     * Busca agendamentos ativos com data dentro da maior antecedência das políticas
+     * (a etapa devida de cada um é decidida em processarLembretes)
      */
-    async buscarAgendamentosParaLembrete7d(): Promise<AgendamentoParaLembrete[]> {
+    async buscarAgendamentosParaLembrete(): Promise<AgendamentoParaLembrete[]> {
         try {
-            const hoje = new Date();
-            const seteDiasDepois = addDays(hoje, 7);
+            const antecedencia = Math.max(
+                await politicasLembreteService.maiorAntecedencia('PERICIA'),
+                await politicasLembreteService.maiorAntecedencia('AVALIACAO_SOCIAL')
+            );
+            const hoje = format(new Date(), 'yyyy-MM-dd');
+            const limite = format(addDays(new Date(), antecedencia), 'yyyy-MM-dd');
 
             const result: any = await Database.query(`
                 SELECT 
@@ -431,15 +389,22 @@ class LembretesService {
                     a.hora_agendamento,
                     a.unidade,
                     a.url_comprovante,
-                    p.tramitacao_cliente_id
+                    a.comprovante_documento_id,
+                    p.tramitacao_cliente_id,
+                    p.tipo_beneficio,
+                    COALESCE((
+                        SELECT array_agg(l.dias_antes)
+                        FROM lembretes_enviados l
+                        WHERE l.evento = a.tipo
+                          AND l.entidade_id = a.id
+                          AND l.data_referencia = a.data_agendamento
+                    ), '{}') AS dias_registrados
                 FROM agendamentos a
                 INNER JOIN processos p ON p.id = a.processo_id
                 WHERE a.status = 'AGENDADO'
                   AND a.data_agendamento >= $1
                   AND a.data_agendamento <= $2
-                  AND (a.ultimo_lembrete_7d IS NULL 
-                       OR a.ultimo_lembrete_7d < $1)
-            `, [hoje, seteDiasDepois]);
+            `, [hoje, limite]);
 
             if (!result || result.length === 0) {
                 return [];
@@ -455,22 +420,26 @@ class LembretesService {
                 data_agendamento: new Date(row.data_agendamento),
                 hora_agendamento: row.hora_agendamento,
                 unidade: row.unidade,
-                url_comprovante: row.url_comprovante,
-                tramitacao_cliente_id: row.tramitacao_cliente_id
+                // Link novo a cada lembrete: o enviado na sincronização pode ter expirado
+                url_comprovante: armazenamentoService.linkOuUrl(row.comprovante_documento_id, row.url_comprovante),
+                tramitacao_cliente_id: row.tramitacao_cliente_id,
+                tipo_beneficio: row.tipo_beneficio,
+                dias_registrados: (row.dias_registrados || []).map(Number)
             }));
         } catch (error: any) {
-            logger.error(`[LembretesService] Erro ao buscar agendamentos para lembrete 7d: ${error.message}`);
+            logger.error(`[LembretesService] Erro ao buscar agendamentos para lembrete: ${error.message}`);
             return [];
         }
     }
 
     /**
-     * Envia lembrete para um agendamento específico
+     * Envia a etapa de lembrete de um agendamento específico
      */
     async enviarLembreteAgendamento(
         agendamento: AgendamentoParaLembrete,
-        diasAntes: 30 | 7
+        etapa: EtapaLembrete
     ): Promise<boolean> {
+        const diasAntes = etapa.dias;
         try {
             // Verificar se ainda está válido no PAT
             const aindaValido = await this.verificarAgendamentoValido(
@@ -488,6 +457,7 @@ class LembretesService {
                         updated_at = NOW()
                     WHERE id = $1
                 `, [agendamento.id]);
+                await this.registrarLembrete(agendamento.tipo, agendamento.id, agendamento.data_agendamento, diasAntes, 'PULADO', 0, 'Agendamento não está mais válido no PAT');
 
                 return false;
             }
@@ -506,10 +476,10 @@ class LembretesService {
 
             // Identificar parceiro (verificar se já tem tag de parceiro)
             const parceiroIdentificado = await ParceirosService.identificarParceiroPorTags(tagsCliente);
-            const destinatarios = ParceirosService.obterDestinatariosWhatsApp(parceiroIdentificado);
+            const destinatarios = await this.obterDestinatarios(parceiroIdentificado, 'AGENDAMENTO', agendamento.cpf_segurado, agendamento.nome_segurado);
 
             // Calcular dias restantes
-            const diasRestantes = differenceInDays(agendamento.data_agendamento, new Date());
+            const diasRestantes = differenceInCalendarDays(agendamento.data_agendamento, new Date());
 
             // Formatar tipo
             const tipoTexto = agendamento.tipo === 'PERICIA' ? 'PERÍCIA MÉDICA' : 'AVALIAÇÃO SOCIAL';
@@ -526,72 +496,61 @@ class LembretesService {
 
             // Enviar para cada destinatário e coletar informações para nota
             let sucesso = false;
-            const destinatariosNotificados: Array<{ nome: string; telefone: string }> = [];
+            let enviados = 0;
+            const destinatariosNotificados: Array<{ nome: string; contato: string }> = [];
             const dataHoraAtual = format(new Date(), 'dd/MM/yyyy, HH:mm', { locale: ptBR });
 
+            // Variáveis dos templates de lembrete de agendamento (WhatsApp e nota)
+            const dadosTemplate: Record<string, unknown> = {
+                tipo: tipoTexto,
+                cliente: agendamento.nome_segurado,
+                cpf: cpfMascarado,
+                protocolo: agendamento.protocolo_inss,
+                diasRestantes,
+                diasAntes,
+                pericia: agendamento.tipo === 'PERICIA',
+                amanha: diasRestantes === 1,
+                data: format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR }),
+                hora: agendamento.hora_agendamento,
+                unidade: agendamento.unidade,
+                linkComprovante: agendamento.url_comprovante,
+                linkProcesso: `https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${agendamento.protocolo_inss}`,
+                dataHora: dataHoraAtual,
+            };
+
             for (const destinatario of destinatarios) {
                 try {
-                    // Montar mensagem diferente para parceiro e escritório
-                    let mensagem: string;
-
-                    if (destinatario.tipo === 'PARCEIRO') {
-                        // Parceiro: SEM link do PAT, APENAS link do comprovante (se houver)
-                        mensagem = `⏰ *LEMBRETE: ${tipoTexto} PRÓXIMA* ⏰%0A%0A` +
-                            `*Cliente*: ${agendamento.nome_segurado}%0A` +
-                            `*CPF*: ${cpfMascarado}%0A%0A` +
-                            `*⚠️ ATENÇÃO: Faltam ${diasRestantes} dia(s) para a ${tipoTexto.toLowerCase()}!*%0A%0A` +
-                            `*Data e Hora*: ${format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR })} às ${agendamento.hora_agendamento}%0A` +
-                            `*Unidade*: ${agendamento.unidade}%0A`;
-
-                        if (agendamento.url_comprovante) {
-                            mensagem += `%0A*📄 Comprovante*:%0A${agendamento.url_comprovante}%0A`;
-                        }
-
-                        mensagem += `%0A*📅 Lembrete automático enviado em:* ${format(new Date(), 'dd/MM/yyyy, HH:mm', { locale: ptBR })}`;
-                    } else {
-                        // Escritório: COM link do PAT e comprovante (se houver)
-                        mensagem = `⏰ *LEMBRETE: ${tipoTexto} PRÓXIMA* ⏰%0A%0A` +
-                            `*Protocolo*: ${agendamento.protocolo_inss}%0A` +
-                            `*Cliente*: ${agendamento.nome_segurado}%0A` +
-                            `*CPF*: ${cpfMascarado}%0A%0A` +
-                            `*⚠️ ATENÇÃO: Faltam ${diasRestantes} dia(s) para a ${tipoTexto.toLowerCase()}!*%0A%0A` +
-                            `*Data e Hora*: ${format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR })} às ${agendamento.hora_agendamento}%0A` +
-                            `*Unidade*: ${agendamento.unidade}%0A`;
-
-                        if (agendamento.url_comprovante) {
-                            mensagem += `%0A*📄 Comprovante*:%0A${agendamento.url_comprovante}%0A`;
-                        }
-
-                        mensagem += `%0A*🔗 Acesse o processo diretamente*:%0A` +
-                            `https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${agendamento.protocolo_inss}%0A%0A` +
-                            `*📅 Lembrete automático enviado em:* ${format(new Date(), 'dd/MM/yyyy, HH:mm', { locale: ptBR })}`;
-                    }
-
-                    const enviado = await whatsappService.enviar(
-                        destinatario.telefone,
-                        decodeURIComponent(mensagem)
+                    // Parceiro e cliente: SEM link do PAT, APENAS link do comprovante (se houver); template da etapa, se tiver
+                    // Escritório: COM link do PAT e comprovante (se houver)
+                    const { texto: mensagem } = await templatesMensagemService.renderizar(
+                        destinatario.tipo === 'ESCRITORIO'
+                            ? 'WHATSAPP_LEMBRETE_AGENDAMENTO_ESCRITORIO'
+                            : etapa.template || 'WHATSAPP_LEMBRETE_AGENDAMENTO_PARCEIRO',
+                        dadosTemplate
                     );
 
-                    if (enviado) {
-                        sucesso = true;
-                        logger.info(`[LembretesService] ✅ Lembrete ${diasAntes}d enviado para ${destinatario.nome}`);
-                        destinatariosNotificados.push({
-                            nome: destinatario.nome,
-                            telefone: destinatario.telefone
-                        });
-
-                        await Database.query(`
-                            INSERT INTO notificacoes_whatsapp (
-                                processo_id, tipo, telefone_destino, cidade, mensagem, enviada, data_envio
-                            ) VALUES ($1, $2, $3, $4, $5, true, NOW())
-                        `, [
-                            agendamento.processo_id,
-                            `LEMBRETE_AGENDAMENTO_${diasAntes}D`,
-                            destinatario.telefone,
-                            destinatario.tipo === 'PARCEIRO' ? 'PARCEIRO' : 'ESCRITORIO',
-                            decodeURIComponent(mensagem)
-                        ]);
-                    }
+                    // Por e-mail o comprovante vai anexado
+                    const canal = await canaisNotificacaoService.enviar(destinatario, {
+                        assunto: `Lembrete: ${tipoTexto.toLowerCase()} em ${dadosTemplate.data} às ${agendamento.hora_agendamento}`,
+                        mensagem,
+                        anexos: agendamento.url_comprovante
+                            ? [{ nomeArquivo: `comprovante-${agendamento.protocolo_inss}.pdf`, url: agendamento.url_comprovante, contentType: 'application/pdf' }]
+                            : [],
+                        origem: 'lembrete',
+                        tipo: `LEMBRETE_AGENDAMENTO_${diasAntes}D`,
+                        processoId: agendamento.processo_id,
+                        cidade: destinatario.tipo
+                    });
+
+                    sucesso = true;
+                    enviados++;
+                    logger.info(`[LembretesService] ✅ Lembrete ${diasAntes}d (${canal}) enviado para ${destinatario.nome}`);
+                    destinatariosNotificados.push({
+                        nome: destinatario.nome,
+                        contato: canal === 'whatsapp'
+                            ? canaisNotificacaoService.descreverDestino(destinatario, canal)
+                            : `${canaisNotificacaoService.descreverDestino(destinatario, canal)} por ${canal === 'email' ? 'e-mail' : 'SMS'}`
+                    });
                 } catch (error: any) {
                     logger.error(`[LembretesService] Erro ao enviar para ${destinatario.nome}: ${error.message}`);
                 }
@@ -601,29 +560,17 @@ class LembretesService {
             if (sucesso && agendamento.tramitacao_cliente_id) {
                 try {
                     const destinatariosTexto = destinatariosNotificados.map(d =>
-                        `${d.nome} (${d.telefone})`
+                        `${d.nome} (${d.contato})`
                     ).join(', ');
 
-                    let conteudoNota = `*⏰ LEMBRETE: ${tipoTexto} PRÓXIMA*%0A%0A` +
-                        `*Protocolo*: ${agendamento.protocolo_inss}%0A` +
-                        `*Cliente*: ${agendamento.nome_segurado}%0A` +
-                        `*CPF*: ${cpfMascarado}%0A%0A` +
-                        `*⚠️ ATENÇÃO: Faltam ${diasRestantes} dia(s) para a ${tipoTexto.toLowerCase()}!*%0A%0A` +
-                        `*Data e Hora*: ${format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR })} às ${agendamento.hora_agendamento}%0A` +
-                        `*Unidade*: ${agendamento.unidade}%0A`;
-
-                    if (agendamento.url_comprovante) {
-                        conteudoNota += `%0A*📄 Comprovante*:%0A${agendamento.url_comprovante}%0A`;
-                    }
-
-                    conteudoNota += `%0A*📱 Notificação WhatsApp enviada para:* ${destinatariosTexto} em ${dataHoraAtual}%0A%0A` +
-                        `*🔗 Acesse o processo diretamente*:%0A` +
-                        `https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${agendamento.protocolo_inss}%0A%0A` +
-                        `---%0A%0A📅 Lembrete automático enviado em: ${dataHoraAtual}`;
+                    const nota = await templatesMensagemService.renderizar('NOTA_LEMBRETE_AGENDAMENTO', {
+                        ...dadosTemplate,
+                        destinatarios: destinatariosTexto,
+                    });
 
                     await TramitacaoService.criarNota(agendamento.tramitacao_cliente_id.toString(), {
-                        titulo: `⏰ Lembrete ${diasAntes}d - ${tipoTexto} - ${format(agendamento.data_agendamento, 'dd/MM/yyyy', { locale: ptBR })}`,
-                        texto: decodeURIComponent(conteudoNota),
+                        titulo: nota.titulo,
+                        texto: nota.texto,
                         tipo: 'ALERTA'
                     });
 
@@ -633,15 +580,9 @@ class LembretesService {
                 }
             }
 
-            // Atualizar último lembrete enviado
+            // Registrar a etapa (sem nenhum envio, tenta de novo na próxima execução)
             if (sucesso) {
-                const campoLembrete = diasAntes === 30 ? 'ultimo_lembrete_30d' : 'ultimo_lembrete_7d';
-                await Database.query(`
-                    UPDATE agendamentos
-                    SET ${campoLembrete} = NOW(),
-                        updated_at = NOW()
-                    WHERE id = $1
-                `, [agendamento.id]);
+                await this.registrarLembrete(agendamento.tipo, agendamento.id, agendamento.data_agendamento, diasAntes, 'ENVIADO', enviados);
             }
 
             return sucesso;
@@ -652,73 +593,108 @@ class LembretesService {
     }
 
     /**
-     * Processa todos os lembretes pendentes (exigências e agendamentos)
+     * Escritório e parceiro (ParceirosService) mais o cliente, quando tem contato cadastrado
      */
-    async processarLembretes(): Promise<{
-        exigencias: { processadas: number; enviadas: number; puladas: number };
-        agendamentos30d: { processadas: number; enviadas: number; puladas: number };
-        agendamentos7d: { processadas: number; enviadas: number; puladas: number };
-    }> {
-        logger.info('[LembretesService] Iniciando processamento de lembretes (exigências + agendamentos)...');
+    private async obterDestinatarios(
+        parceiro: ParceiroConfig | null,
+        tipoStatus: 'EXIGENCIA' | 'AGENDAMENTO',
+        cpfCliente: string,
+        nomeCliente: string
+    ): Promise<ContatoNotificacao[]> {
+        const destinatarios = await ParceirosService.obterDestinatarios(parceiro, tipoStatus);
+
+        const cliente = await contatosClientesService.contatoNotificacao(cpfCliente, nomeCliente);
+        if (cliente) {
+            destinatarios.push(cliente);
+        }
 
-        // 1. Processar lembretes de exigências (7 dias antes)
-        const exigencias = await this.buscarExigenciasParaLembrete();
-        let enviadasExigencias = 0;
-        let puladasExigencias = 0;
+        return destinatarios;
+    }
 
-        for (const exigencia of exigencias) {
-            const enviado = await this.enviarLembrete(exigencia);
-            if (enviado) enviadasExigencias++;
-            else puladasExigencias++;
-            await new Promise(resolve => setTimeout(resolve, 10000));
-        }
+    /**
+     * Registra uma etapa enviada ou pulada (a mesma etapa não é registrada duas vezes)
+     */
+    private async registrarLembrete(
+        evento: EventoLembrete,
+        entidadeId: string,
+        dataReferencia: Date,
+        diasAntes: number,
+        status: 'ENVIADO' | 'PULADO',
+        destinatarios: number,
+        motivo?: string
+    ): Promise<void> {
+        await Database.query(`
+            INSERT INTO lembretes_enviados (evento, entidade_id, data_referencia, dias_antes, status, destinatarios, motivo)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (evento, entidade_id, data_referencia, dias_antes) DO NOTHING
+        `, [evento, entidadeId, format(dataReferencia, 'yyyy-MM-dd'), diasAntes, status, destinatarios, motivo || null]);
+    }
 
-        // 2. Processar lembretes de agendamentos (30 dias antes)
-        const agendamentos30d = await this.buscarAgendamentosParaLembrete30d();
-        let enviadas30d = 0;
-        let puladas30d = 0;
+    /**
+     * Envia a etapa devida de cada item pela política do evento e do benefício
+     * Etapas atrasadas (ex.: agendamento descoberto a 3 dias, com D-30 e D-7 passadas) ficam como puladas
+     */
+    private async processarEtapas<T extends { id: string; tipo_beneficio: string | null; dias_registrados: number[] }>(
+        itens: T[],
+        evento: (item: T) => EventoLembrete,
+        dataEvento: (item: T) => Date,
+        enviar: (item: T, etapa: EtapaLembrete) => Promise<boolean>
+    ): Promise<ResumoLembretes> {
+        const resumo: ResumoLembretes = { processadas: 0, enviadas: 0, puladas: 0, foraDoHorario: 0 };
+        const agora = new Date();
+
+        for (const item of itens) {
+            const politica = await politicasLembreteService.obter(evento(item), item.tipo_beneficio);
+            const devida = etapaDevida(politica, dataEvento(item), agora, item.dias_registrados, politica.fimDeSemana);
+            if (!devida) continue;
+
+            if (!dentroDaJanelaDeEnvio(agora, politica.horarioInicio, politica.horarioFim, politica.fimDeSemana)) {
+                resumo.foraDoHorario++;
+                continue;
+            }
 
-        for (const agendamento of agendamentos30d) {
-            const enviado = await this.enviarLembreteAgendamento(agendamento, 30);
-            if (enviado) enviadas30d++;
-            else puladas30d++;
-            await new Promise(resolve => setTimeout(resolve, 10000));
+            for (const atrasada of devida.atrasadas) {
+                await this.registrarLembrete(evento(item), item.id, dataEvento(item), atrasada.dias, 'PULADO', 0, `Etapa atrasada (enviada a D-${devida.etapa.dias})`);
+            }
+
+            resumo.processadas++;
+            if (await enviar(item, devida.etapa)) resumo.enviadas++;
+            else resumo.puladas++;
         }
 
-        // 3. Processar lembretes de agendamentos (7 dias antes)
-        const agendamentos7d = await this.buscarAgendamentosParaLembrete7d();
-        let enviadas7d = 0;
-        let puladas7d = 0;
+        return resumo;
+    }
 
-        for (const agendamento of agendamentos7d) {
-            const enviado = await this.enviarLembreteAgendamento(agendamento, 7);
-            if (enviado) enviadas7d++;
-            else puladas7d++;
-            await new Promise(resolve => setTimeout(resolve, 10000));
-        }
+    /**
+     * Processa todos os lembretes pendentes (exigências e agendamentos)
+     */
+    async processarLembretes(): Promise<{
+        exigencias: ResumoLembretes;
+        agendamentos: ResumoLembretes;
+    }> {
+        logger.info('[LembretesService] Iniciando processamento de lembretes (exigências + agendamentos)...');
+
+        // 1. Exigências (etapas antes do prazo)
+        const exigencias = await this.processarEtapas(
+            await this.buscarExigenciasParaLembrete(),
+            () => 'EXIGENCIA',
+            exigencia => exigencia.prazo,
+            (exigencia, etapa) => this.enviarLembrete(exigencia, etapa)
+        );
+
+        // 2. Agendamentos (etapas antes da perícia/avaliação social)
+        const agendamentos = await this.processarEtapas(
+            await this.buscarAgendamentosParaLembrete(),
+            agendamento => agendamento.tipo,
+            agendamento => agendamento.data_agendamento,
+            (agendamento, etapa) => this.enviarLembreteAgendamento(agendamento, etapa)
+        );
 
         logger.info(`[LembretesService] Processamento concluído:`);
-        logger.info(`  - Exigências: ${enviadasExigencias} enviadas, ${puladasExigencias} puladas`);
-        logger.info(`  - Agendamentos 30d: ${enviadas30d} enviadas, ${puladas30d} puladas`);
-        logger.info(`  - Agendamentos 7d: ${enviadas7d} enviadas, ${puladas7d} puladas`);
-
-        return {
-            exigencias: {
-                processadas: exigencias.length,
-                enviadas: enviadasExigencias,
-                puladas: puladasExigencias
-            },
-            agendamentos30d: {
-                processadas: agendamentos30d.length,
-                enviadas: enviadas30d,
-                puladas: puladas30d
-            },
-            agendamentos7d: {
-                processadas: agendamentos7d.length,
-                enviadas: enviadas7d,
-                puladas: puladas7d
-            }
-        };
+        logger.info(`  - Exigências: ${exigencias.enviadas} enviadas, ${exigencias.puladas} puladas, ${exigencias.foraDoHorario} fora do horário`);
+        logger.info(`  - Agendamentos: ${agendamentos.enviadas} enviadas, ${agendamentos.puladas} puladas, ${agendamentos.foraDoHorario} fora do horário`);
+
+        return { exigencias, agendamentos };
     }
 }
 
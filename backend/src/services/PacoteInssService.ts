@@ -0,0 +1,316 @@
+/**
+ * Pacote de documentos da exigência pronto para anexar no INSS
+ *
+ * Junta as fotos, digitalizações e PDFs dos itens do checklist (ExigenciasItensService), na ordem
+ * dos itens, em PDF com capa (protocolo, segurado e lista de itens). Cada imagem é girada pelo EXIF,
+ * endireitada (inclinação estimada pelo perfil horizontal do texto) e comprimida em JPEG; as páginas
+ * dos PDFs entram como estão. O pacote é dividido em volumes abaixo de PACOTE_INSS_TAMANHO_MAXIMO_MB,
+ * e cada volume vira um registro em documentos (origem PACOTE_INSS).
+ */
+
+import sharp from 'sharp';
+import { format } from 'date-fns';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import { gerarPdf, lerPdf, estimarTamanhoPagina, quebrarTexto, LinhaPdf, PaginaPdf } from '../utils/pdf';
+import armazenamentoService from './armazenamento';
+
+export interface VolumePacoteInss {
+    documentoId: string;
+    nomeArquivo: string;
+    paginas: number;
+    tamanhoBytes: number;
+    /** Uma única página acima do limite do INSS: precisa ser comprimida à mão */
+    excedeLimite: boolean;
+    url: string;
+}
+
+export interface PacoteInss {
+    exigenciaId: string;
+    protocolo: string;
+    volumes: VolumePacoteInss[];
+    /** Arquivos que não puderam ser convertidos (formato não suportado, imagem corrompida, PDF com senha) */
+    ignorados: { documentoId: string; nomeArquivo: string; motivo: string }[];
+}
+
+interface ItemPacote {
+    descricao: string;
+    paginas: number;
+}
+
+// Tentativas de compressão por imagem: lado maior (A4 a ~150 dpi, depois menos) e qualidade JPEG
+const COMPRESSOES = [
+    { lado: 1754, qualidade: 72 },
+    { lado: 1400, qualidade: 60 },
+    { lado: 1100, qualidade: 50 },
+];
+
+// Busca da inclinação: ±5° em passos de 0,5°, sobre uma amostra de 500 px de largura
+const INCLINACAO_MAXIMA = 5;
+const PASSO_INCLINACAO = 0.5;
+
+// Margem para a estrutura do PDF (xref, fontes, info) em cada volume
+const FOLGA_VOLUME = 16 * 1024;
+
+export class PacoteInssService {
+    /**
+     * Monta e guarda o pacote da exigência
+     * @returns null se a exigência não existir
+     * @throws Error se a exigência não tiver documentos vinculados aos itens
+     */
+    async gerar(exigenciaId: string): Promise<PacoteInss | null> {
+        const resultado = await Database.query(`
+            SELECT e.id, e.prazo, e.resumo_exigencia, p.id AS processo_id, p.protocolo_inss, p.nome_segurado, p.cpf_segurado
+            FROM exigencias e
+            JOIN processos p ON p.id = e.processo_id
+            WHERE e.id = $1
+        `, [exigenciaId]);
+
+        if (resultado.length === 0) {
+            return null;
+        }
+        const exigencia = resultado[0];
+
+        const linhas = await Database.query(`
+            SELECT i.id AS item_id, i.descricao, d.id AS documento_id, d.nome_arquivo, d.content_type, d.tamanho_bytes
+            FROM exigencias_itens i
+            LEFT JOIN documentos d ON d.exigencia_item_id = i.id
+            WHERE i.exigencia_id = $1
+            ORDER BY i.ordem, i.created_at, d.created_at
+        `, [exigenciaId]);
+
+        if (!linhas.some((linha: any) => linha.documento_id)) {
+            throw new Error('Nenhum documento vinculado aos itens da exigência');
+        }
+
+        const limite = config.pacoteInss.tamanhoMaximoMb * 1024 * 1024;
+        const itens = new Map<string, ItemPacote>();
+        const paginas: PaginaPdf[] = [];
+        const pacote: PacoteInss = {
+            exigenciaId,
+            protocolo: exigencia.protocolo_inss,
+            volumes: [],
+            ignorados: [],
+        };
+
+        for (const linha of linhas) {
+            if (!itens.has(linha.item_id)) {
+                itens.set(linha.item_id, { descricao: linha.descricao, paginas: 0 });
+            }
+            const item = itens.get(linha.item_id)!;
+
+            if (!linha.documento_id) {
+                continue;
+            }
+
+            const contentType: string = linha.content_type || '';
+            const ehPdf = contentType === 'application/pdf';
+            if (!ehPdf && !contentType.startsWith('image/')) {
+                pacote.ignorados.push({ documentoId: linha.documento_id, nomeArquivo: linha.nome_arquivo, motivo: `Formato não suportado (${contentType || 'desconhecido'})` });
+                continue;
+            }
+
+            try {
+                const arquivo = await armazenamentoService.ler(linha.documento_id);
+                if (!arquivo) {
+                    continue;
+                }
+                const paginasArquivo = ehPdf
+                    ? await lerPdf(arquivo.dados)
+                    : [await this.prepararImagem(arquivo.dados, limite - FOLGA_VOLUME)];
+                paginas.push(...paginasArquivo);
+                item.paginas += paginasArquivo.length;
+            } catch (error: any) {
+                logger.warn(`[Pacote INSS] ⚠️ Arquivo ${linha.nome_arquivo} ignorado: ${error.message}`);
+                pacote.ignorados.push({ documentoId: linha.documento_id, nomeArquivo: linha.nome_arquivo, motivo: error.message });
+            }
+        }
+
+        // A capa entra no primeiro volume; o total de volumes só é conhecido depois da divisão
+        const tamanhoCapa = estimarTamanhoPagina(this.montarCapa(exigencia, [...itens.values()], 1, 9));
+        const volumes = await this.ajustarVolumes(this.dividirEmVolumes(paginas, limite, tamanhoCapa), limite, tamanhoCapa);
+        const protocolo = String(exigencia.protocolo_inss || 'sem-protocolo').replace(/\D/g, '') || 'sem-protocolo';
+
+        for (let indice = 0; indice < volumes.length; indice++) {
+            const paginasVolume = indice === 0
+                ? [this.montarCapa(exigencia, [...itens.values()], 1, volumes.length), ...volumes[indice]]
+                : volumes[indice];
+            const sufixo = volumes.length > 1 ? `-volume-${indice + 1}-de-${volumes.length}` : '';
+            const nomeArquivo = `exigencia-${protocolo}${sufixo}.pdf`;
+            const pdf = await gerarPdf(paginasVolume, `Exigência - protocolo ${exigencia.protocolo_inss}`);
+
+            const arquivo = await armazenamentoService.salvar({
+                dados: pdf,
+                nomeArquivo,
+                contentType: 'application/pdf',
+                origem: 'PACOTE_INSS',
+                processoId: exigencia.processo_id,
+                exigenciaId,
+                tipoDocumento: 'PACOTE_INSS',
+                observacoes: `Pacote para o INSS${volumes.length > 1 ? ` (volume ${indice + 1} de ${volumes.length})` : ''}: ${paginasVolume.length} página(s)`,
+            });
+
+            pacote.volumes.push({
+                documentoId: arquivo.documentoId,
+                nomeArquivo,
+                paginas: paginasVolume.length,
+                tamanhoBytes: arquivo.tamanhoBytes,
+                excedeLimite: pdf.length > limite,
+                url: armazenamentoService.gerarLink(arquivo.documentoId).url,
+            });
+        }
+
+        logger.info(`[Pacote INSS] 📚 Exigência ${exigenciaId}: ${pacote.volumes.length} volume(s), ${paginas.length} página(s)`);
+        return pacote;
+    }
+
+    /**
+     * Divide as páginas em volumes abaixo do limite, sem mudar a ordem
+     * O primeiro volume reserva espaço para a capa; sem imagens, sai só a capa
+     */
+    private dividirEmVolumes(paginas: PaginaPdf[], limite: number, tamanhoCapa: number): PaginaPdf[][] {
+        const volumes: PaginaPdf[][] = [[]];
+        let tamanhoAtual = tamanhoCapa + FOLGA_VOLUME;
+
+        for (const pagina of paginas) {
+            const tamanho = estimarTamanhoPagina(pagina);
+            const atual = volumes[volumes.length - 1];
+            if (atual.length > 0 && tamanhoAtual + tamanho > limite) {
+                volumes.push([pagina]);
+                tamanhoAtual = FOLGA_VOLUME + tamanho;
+            } else {
+                atual.push(pagina);
+                tamanhoAtual += tamanho;
+            }
+        }
+
+        return volumes;
+    }
+
+    /**
+     * Páginas de PDF entram pela média de bytes do arquivo: volume com PDF que, gerado, passou do
+     * limite é dividido ao meio até caber (uma página sozinha fica como está)
+     */
+    private async ajustarVolumes(volumes: PaginaPdf[][], limite: number, tamanhoCapa: number): Promise<PaginaPdf[][]> {
+        const ajustados: PaginaPdf[][] = [];
+        const pendentes = [...volumes];
+
+        while (pendentes.length > 0) {
+            const volume = pendentes.shift()!;
+            const limiteVolume = ajustados.length === 0 ? limite - tamanhoCapa : limite;
+
+            if (volume.length > 1 && volume.some(pagina => pagina.tipo === 'pdf') && (await gerarPdf(volume)).length > limiteVolume) {
+                const meio = Math.ceil(volume.length / 2);
+                pendentes.unshift(volume.slice(0, meio), volume.slice(meio));
+                continue;
+            }
+            ajustados.push(volume);
+        }
+
+        return ajustados;
+    }
+
+    private montarCapa(exigencia: any, itens: ItemPacote[], volume: number, totalVolumes: number): PaginaPdf {
+        const cpf = String(exigencia.cpf_segurado || '').replace(/\D/g, '');
+        const linhas: LinhaPdf[] = [
+            { texto: 'Documentos para cumprimento de exigência', tamanho: 16, negrito: true },
+            { texto: '' },
+            { texto: `Protocolo: ${exigencia.protocolo_inss || 'Não informado'}` },
+            { texto: `Segurado: ${exigencia.nome_segurado || 'Não informado'}` },
+            { texto: `CPF: ${cpf.length === 11 ? cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4') : 'Não informado'}` },
+        ];
+
+        if (exigencia.prazo) {
+            linhas.push({ texto: `Prazo: ${format(new Date(exigencia.prazo), 'dd/MM/yyyy')}` });
+        }
+        if (totalVolumes > 1) {
+            linhas.push({ texto: `Volume ${volume} de ${totalVolumes}` });
+        }
+
+        if (exigencia.resumo_exigencia) {
+            linhas.push({ texto: '' }, { texto: 'Exigência:', negrito: true });
+            linhas.push(...quebrarTexto(exigencia.resumo_exigencia, 95).slice(0, 8).map(texto => ({ texto })));
+        }
+
+        linhas.push({ texto: '' }, { texto: 'Documentos, na ordem em que aparecem:', negrito: true });
+        itens.forEach((item, indice) => {
+            const situacao = item.paginas > 0 ? `${item.paginas} página(s) neste pacote` : 'não enviado';
+            const [primeira, ...resto] = quebrarTexto(`${indice + 1}. ${item.descricao} - ${situacao}`, 95);
+            linhas.push({ texto: primeira }, ...resto.map(texto => ({ texto: `    ${texto}` })));
+        });
+
+        linhas.push({ texto: '' }, { texto: `Gerado em ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, tamanho: 9 });
+        return { tipo: 'texto', linhas };
+    }
+
+    /**
+     * Foto/digitalização → página JPEG: orientação do EXIF, fundo branco, inclinação corrigida e
+     * compressão progressiva até caber no limite
+     */
+    private async prepararImagem(dados: Buffer, limite: number): Promise<PaginaPdf> {
+        const orientada = await sharp(dados).rotate().flatten({ background: '#ffffff' }).toBuffer();
+        const angulo = await this.estimarInclinacao(orientada);
+        const endireitada = Math.abs(angulo) >= PASSO_INCLINACAO
+            ? await sharp(orientada).rotate(angulo, { background: '#ffffff' }).toBuffer()
+            : orientada;
+
+        let pagina: PaginaPdf | null = null;
+        for (const compressao of COMPRESSOES) {
+            const { data, info } = await sharp(endireitada)
+                .resize({ width: compressao.lado, height: compressao.lado, fit: 'inside', withoutEnlargement: true })
+                .toColourspace('srgb')
+                .jpeg({ quality: compressao.qualidade, mozjpeg: true })
+                .toBuffer({ resolveWithObject: true });
+
+            pagina = { tipo: 'imagem', jpeg: data, largura: info.width, altura: info.height };
+            if (data.length <= limite) {
+                break;
+            }
+        }
+
+        return pagina!;
+    }
+
+    /**
+     * Ângulo (graus) que deixa as linhas de texto na horizontal: com o texto alinhado, a contagem
+     * de pixels escuros por linha alterna bruscamente entre linhas de texto e entrelinhas
+     */
+    private async estimarInclinacao(imagem: Buffer): Promise<number> {
+        const amostra = await sharp(imagem)
+            .grayscale()
+            .resize({ width: 500, withoutEnlargement: true })
+            .normalize()
+            .png()
+            .toBuffer();
+
+        let melhor = { angulo: 0, pontuacao: -1 };
+        for (let angulo = -INCLINACAO_MAXIMA; angulo <= INCLINACAO_MAXIMA; angulo += PASSO_INCLINACAO) {
+            const { data, info } = await sharp(amostra)
+                .rotate(angulo, { background: '#ffffff' })
+                .raw()
+                .toBuffer({ resolveWithObject: true });
+
+            let anterior = 0;
+            let pontuacao = 0;
+            for (let y = 0; y < info.height; y++) {
+                let escuros = 0;
+                for (let x = 0; x < info.width; x++) {
+                    if (data[(y * info.width + x) * info.channels] < 128) {
+                        escuros++;
+                    }
+                }
+                pontuacao += (escuros - anterior) ** 2;
+                anterior = escuros;
+            }
+
+            if (pontuacao > melhor.pontuacao) {
+                melhor = { angulo, pontuacao };
+            }
+        }
+
+        return melhor.angulo;
+    }
+}
+
+export default new PacoteInssService();
@@ -7,6 +7,10 @@
 
 import Database from '../database';
 import logger from '../utils/logger';
+import config from '../config';
+import templatesMensagemService from './TemplatesMensagemService';
+import portalParceirosService from './PortalParceirosService';
+import { ContatoNotificacao, TIPOS_CANAL, TipoCanal } from './canais';
 
 export interface ParceiroConfig {
     id?: number;
@@ -15,6 +19,7 @@ export interface ParceiroConfig {
     nomeCompleto?: string;     // Ex: "Dr. Armênio Silva"
     telefone: string;          // Ex: "5577988887777"
     email?: string;
+    canalPreferido: TipoCanal;  // whatsapp, email ou sms
     notificarExigencia: boolean;
     notificarDeferido: boolean;
     notificarIndeferido: boolean;
@@ -98,14 +103,16 @@ class ParceirosService {
             throw new Error('Telefone inválido. Use formato: 5577988887777');
         }
 
+        this.validarCanal(parceiro.canalPreferido ?? 'whatsapp', parceiro.email);
+
         const query = `
             INSERT INTO parceiros_config (
                 user_id, nome_etiqueta, nome_completo, telefone, email,
                 notificar_exigencia, notificar_deferido, notificar_indeferido,
                 notificar_agendamento, notificar_em_analise, ativo,
                 incluir_link_processo, incluir_comprovantes, incluir_analise_ia,
-                observacoes
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+                observacoes, canal_preferido
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
             RETURNING *
         `;
 
@@ -124,7 +131,8 @@ class ParceirosService {
             parceiro.incluirLinkProcesso ?? false,
             parceiro.incluirComprovantes ?? true,
             parceiro.incluirAnaliseIA ?? true,
-            parceiro.observacoes || null
+            parceiro.observacoes || null,
+            parceiro.canalPreferido ?? 'whatsapp'
         ];
 
         const resultado = await Database.query(query, valores);
@@ -155,6 +163,10 @@ class ParceirosService {
             throw new Error('Telefone inválido');
         }
 
+        if (dados.canalPreferido || dados.email !== undefined) {
+            this.validarCanal(dados.canalPreferido ?? existente.canalPreferido, dados.email ?? existente.email);
+        }
+
         const query = `
             UPDATE parceiros_config SET
                 nome_etiqueta = COALESCE($3, nome_etiqueta),
@@ -171,6 +183,7 @@ class ParceirosService {
                 incluir_comprovantes = COALESCE($14, incluir_comprovantes),
                 incluir_analise_ia = COALESCE($15, incluir_analise_ia),
                 observacoes = COALESCE($16, observacoes),
+                canal_preferido = COALESCE($17, canal_preferido),
                 updated_at = NOW()
             WHERE user_id = $1 AND id = $2
             RETURNING *
@@ -192,7 +205,8 @@ class ParceirosService {
             dados.incluirLinkProcesso,
             dados.incluirComprovantes,
             dados.incluirAnaliseIA,
-            dados.observacoes
+            dados.observacoes,
+            dados.canalPreferido
         ];
 
         const resultado = await Database.query(query, valores);
@@ -284,10 +298,89 @@ class ParceirosService {
         return notificacoes;
     }
 
+    /**
+     * Parceiro da etiqueta PARCEIRO:NOME do cliente (o primeiro ativo encontrado)
+     * @param userId escritório; sem ele, o escritório central (WHATSAPP_USUARIO_CENTRAL) ou qualquer escritório
+     */
+    async identificarParceiroPorTags(
+        tagsCliente: string[],
+        userId: string | null = config.whatsapp.usuarioCentral || null
+    ): Promise<ParceiroConfig | null> {
+        const nomes = tagsCliente
+            .filter(tag => tag.toUpperCase().startsWith('PARCEIRO:'))
+            .map(tag => tag.substring(9).toUpperCase().trim())
+            .filter(Boolean);
+
+        for (const nome of nomes) {
+            const resultado = await Database.query(`
+                SELECT * FROM parceiros_config
+                WHERE UPPER(nome_etiqueta) = $1 AND ativo = true
+                  AND ($2::uuid IS NULL OR user_id = $2::uuid)
+                ORDER BY id
+                LIMIT 1
+            `, [nome, userId]);
+
+            if (resultado.length > 0) {
+                return this.mapearParaBD(resultado[0]);
+            }
+            logger.warn(`[Parceiros] Parceiro "${nome}" não encontrado ou inativo`);
+        }
+
+        return null;
+    }
+
+    /**
+     * Destinatários de lembretes: o escritório (WhatsApp configurado na extensão) e o parceiro, se notifica o tipo
+     * @param userId escritório; sem ele, o escritório central
+     */
+    async obterDestinatarios(
+        parceiro: ParceiroConfig | null,
+        tipoStatus: 'EXIGENCIA' | 'AGENDAMENTO',
+        userId: string | null = config.whatsapp.usuarioCentral || null
+    ): Promise<ContatoNotificacao[]> {
+        const destinatarios: ContatoNotificacao[] = [];
+
+        if (userId) {
+            const escritorio = await Database.query(`
+                SELECT nome, email, whatsapp_personalizado_ativo, whatsapp_numero_unico,
+                       whatsapp_exigencia, whatsapp_agendamento
+                FROM usuarios_extensao WHERE id = $1
+            `, [userId]);
+
+            const row = escritorio[0];
+            const telefone = row?.whatsapp_personalizado_ativo
+                ? (tipoStatus === 'EXIGENCIA' ? row.whatsapp_exigencia : row.whatsapp_agendamento) || row.whatsapp_numero_unico
+                : null;
+
+            if (telefone) {
+                destinatarios.push({ tipo: 'ESCRITORIO', nome: row.nome || 'Escritório', canal: 'whatsapp', telefone, email: row.email });
+            }
+        }
+
+        const notifica = tipoStatus === 'EXIGENCIA' ? parceiro?.notificarExigencia : parceiro?.notificarAgendamento;
+        if (parceiro && parceiro.ativo && notifica) {
+            destinatarios.push(this.contatoParceiro(parceiro));
+        }
+
+        return destinatarios;
+    }
+
+    contatoParceiro(parceiro: ParceiroConfig): ContatoNotificacao {
+        return {
+            tipo: 'PARCEIRO',
+            nome: parceiro.nomeCompleto || parceiro.nomeEtiqueta,
+            canal: parceiro.canalPreferido,
+            telefone: parceiro.telefone,
+            email: parceiro.email || null,
+            parceiroId: parceiro.id,
+        };
+    }
+
     /**
      * Gera mensagem personalizada para parceiro
+     * Texto do template WHATSAPP_PARCEIRO_ATUALIZACAO do escritório (ver TemplatesMensagemService)
      */
-    gerarMensagemParceiro(
+    async gerarMensagemParceiro(
         parceiro: ParceiroConfig,
         dados: {
             nomeCliente: string;
@@ -297,47 +390,28 @@ class ParceirosService {
             status: string;
             motivo?: string;
             sugestaoAcao?: string;
-            linkProcesso?: string;
+            /** Com incluirLinkProcesso, a mensagem leva o link do processo no portal do parceiro */
+            processoId?: string | null;
             comprovantes?: { tipo: string; url: string }[];
             analiseIA?: string;
         }
-    ): string {
-        let mensagem = `*Atualização de Processo*\n\n`;
-        mensagem += `*Cliente*: ${dados.nomeCliente}\n`;
-        mensagem += `*CPF*: ${dados.cpfMascarado}\n`;
-        mensagem += `*Protocolo*: ${dados.protocolo}\n`;
-        mensagem += `*Benefício*: ${dados.beneficio}\n`;
-        mensagem += `*Status*: ${dados.status}\n`;
-
-        if (dados.motivo) {
-            mensagem += `\n*Motivo*:\n${dados.motivo}\n`;
-        }
-
-        if (dados.sugestaoAcao) {
-            mensagem += `\n*Sugestão de Ação*:\n${dados.sugestaoAcao}\n`;
-        }
-
-        // Incluir análise da IA se configurado
-        if (parceiro.incluirAnaliseIA && dados.analiseIA) {
-            mensagem += `\n*Análise*:\n${dados.analiseIA}\n`;
-        }
-
-        // Incluir comprovantes se configurado
-        if (parceiro.incluirComprovantes && dados.comprovantes && dados.comprovantes.length > 0) {
-            mensagem += `\n*Comprovantes*:\n`;
-            for (const comp of dados.comprovantes) {
-                mensagem += `- ${comp.tipo}: ${comp.url}\n`;
-            }
-        }
-
-        // Incluir link do processo se configurado (apenas para parceiros com acesso)
-        if (parceiro.incluirLinkProcesso && dados.linkProcesso) {
-            mensagem += `\n*Link do Processo*:\n${dados.linkProcesso}\n`;
-        }
-
-        mensagem += `\n_Notificação automática - ${new Date().toLocaleString('pt-BR')}_`;
-
-        return mensagem;
+    ): Promise<string> {
+        const { texto } = await templatesMensagemService.renderizar('WHATSAPP_PARCEIRO_ATUALIZACAO', {
+            cliente: dados.nomeCliente,
+            cpf: dados.cpfMascarado,
+            protocolo: dados.protocolo,
+            beneficio: dados.beneficio,
+            status: dados.status,
+            motivo: dados.motivo,
+            sugestaoAcao: dados.sugestaoAcao,
+            // Análise, comprovantes e link só para parceiros configurados para recebê-los
+            analise: parceiro.incluirAnaliseIA ? dados.analiseIA : undefined,
+            comprovantes: parceiro.incluirComprovantes ? dados.comprovantes : undefined,
+            linkProcesso: parceiro.incluirLinkProcesso && dados.processoId ? portalParceirosService.linkProcesso(dados.processoId) : undefined,
+            dataHora: new Date().toLocaleString('pt-BR'),
+        }, parceiro.userId);
+
+        return texto;
     }
 
     // =============== HELPERS ===============
@@ -347,6 +421,15 @@ class ParceirosService {
         return /^[A-Z0-9_]+$/.test(nome) && nome.length >= 2 && nome.length <= 100;
     }
 
+    private validarCanal(canal: TipoCanal, email?: string | null): void {
+        if (!TIPOS_CANAL.includes(canal)) {
+            throw new Error(`Canal inválido. Use: ${TIPOS_CANAL.join(', ')}`);
+        }
+        if (canal === 'email' && !email) {
+            throw new Error('Informe o e-mail do parceiro para o canal email');
+        }
+    }
+
     private validarTelefone(telefone: string): boolean {
         const apenasNumeros = telefone.replace(/\D/g, '');
         // Deve ter entre 10 e 15 dígitos (incluindo código do país)
@@ -361,6 +444,7 @@ class ParceirosService {
             nomeCompleto: row.nome_completo,
             telefone: row.telefone,
             email: row.email,
+            canalPreferido: row.canal_preferido || 'whatsapp',
             notificarExigencia: row.notificar_exigencia,
             notificarDeferido: row.notificar_deferido,
             notificarIndeferido: row.notificar_indeferido,
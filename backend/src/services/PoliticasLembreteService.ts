@@ -0,0 +1,200 @@
+/**
+ * Serviço de Políticas de Lembrete
+ *
+ * Resolve a política de um evento (exigência, perícia, avaliação social) para o benefício do processo:
+ * política do benefício → política do evento para todos os benefícios (*) → padrão do código
+ * (utils/politicasLembrete.ts). Editável na tabela politicas_lembrete, sem redeploy (cache de 1 minuto).
+ * Horário e fim de semana não definidos na política vêm do .env (LEMBRETES_*).
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import {
+    EVENTOS_LEMBRETE,
+    EventoLembrete,
+    POLITICAS_LEMBRETE_PADRAO,
+    PoliticaLembrete,
+    TODOS_BENEFICIOS,
+    TratamentoFimDeSemana,
+    validarPoliticaLembrete,
+} from '../utils/politicasLembrete';
+
+export interface PoliticaLembreteResolvida extends PoliticaLembrete {
+    fimDeSemana: TratamentoFimDeSemana;
+    horarioInicio: string;
+    horarioFim: string;
+}
+
+export interface PoliticaLembreteConfigurada {
+    evento: EventoLembrete;
+    tipoBeneficio: string;
+    descricao: string;
+    politica: PoliticaLembreteResolvida;
+    personalizado: boolean; // true = política vinda do banco
+    atualizadoEm: Date | null;
+}
+
+export class PoliticasLembreteService {
+    private cache: Map<string, any> | null = null;
+    private cacheTimestamp = 0;
+    private cacheTTL = 60 * 1000; // 1 minuto
+
+    /**
+     * Política que vale para o evento e o benefício do processo
+     */
+    async obter(evento: EventoLembrete, tipoBeneficio?: string | null): Promise<PoliticaLembreteResolvida> {
+        const personalizadas = await this.carregarPersonalizadas();
+        const row = (tipoBeneficio && personalizadas.get(this.chave(evento, tipoBeneficio)))
+            || personalizadas.get(this.chave(evento, TODOS_BENEFICIOS));
+
+        return this.resolver(row ? this.politicaDaLinha(row) : POLITICAS_LEMBRETE_PADRAO[evento].politica);
+    }
+
+    /**
+     * Maior antecedência (dias) entre as políticas do evento: janela de busca dos lembretes
+     */
+    async maiorAntecedencia(evento: EventoLembrete): Promise<number> {
+        const politicas = [POLITICAS_LEMBRETE_PADRAO[evento].politica];
+        for (const row of (await this.carregarPersonalizadas()).values()) {
+            if (row.evento === evento) politicas.push(this.politicaDaLinha(row));
+        }
+        return Math.max(...politicas.flatMap(p => p.etapas.map(etapa => etapa.dias)));
+    }
+
+    async listar(): Promise<PoliticaLembreteConfigurada[]> {
+        this.limparCache();
+        const personalizadas = await this.carregarPersonalizadas();
+
+        const padroes: PoliticaLembreteConfigurada[] = EVENTOS_LEMBRETE.map(evento => {
+            const row = personalizadas.get(this.chave(evento, TODOS_BENEFICIOS));
+            return {
+                evento,
+                tipoBeneficio: TODOS_BENEFICIOS,
+                descricao: POLITICAS_LEMBRETE_PADRAO[evento].descricao,
+                politica: this.resolver(row ? this.politicaDaLinha(row) : POLITICAS_LEMBRETE_PADRAO[evento].politica),
+                personalizado: !!row,
+                atualizadoEm: row?.updated_at ?? null,
+            };
+        });
+
+        const porBeneficio: PoliticaLembreteConfigurada[] = Array.from(personalizadas.values())
+            .filter(row => row.tipo_beneficio !== TODOS_BENEFICIOS)
+            .map(row => ({
+                evento: row.evento,
+                tipoBeneficio: row.tipo_beneficio,
+                descricao: POLITICAS_LEMBRETE_PADRAO[row.evento as EventoLembrete].descricao,
+                politica: this.resolver(this.politicaDaLinha(row)),
+                personalizado: true,
+                atualizadoEm: row.updated_at ?? null,
+            }));
+
+        return [...padroes, ...porBeneficio];
+    }
+
+    /**
+     * Substitui a política do evento para o benefício (* = todos)
+     */
+    async salvar(evento: EventoLembrete, tipoBeneficio: string, politica: PoliticaLembrete, usuarioId?: string): Promise<void> {
+        const etapas = politica.etapas.map(({ dias, template }) => (template ? { dias, template } : { dias }));
+
+        await Database.query(`
+            INSERT INTO politicas_lembrete (evento, tipo_beneficio, etapas, fim_de_semana, horario_inicio, horario_fim, atualizado_por, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+            ON CONFLICT (evento, tipo_beneficio) DO UPDATE SET
+                etapas = $3, fim_de_semana = $4, horario_inicio = $5, horario_fim = $6,
+                atualizado_por = $7, updated_at = NOW()
+        `, [
+            evento,
+            tipoBeneficio,
+            JSON.stringify(etapas),
+            politica.fimDeSemana || null,
+            politica.horarioInicio || null,
+            politica.horarioFim || null,
+            usuarioId || null,
+        ]);
+
+        this.limparCache();
+        logger.info(`[PoliticasLembrete] ✏️ Política ${evento}/${tipoBeneficio} atualizada: ${etapas.map(e => `D-${e.dias}`).join(', ')}`);
+    }
+
+    /**
+     * Remove a política do benefício (ou a do evento, com *): volta a valer a mais geral
+     */
+    async restaurarPadrao(evento: EventoLembrete, tipoBeneficio: string): Promise<void> {
+        await Database.query(
+            'DELETE FROM politicas_lembrete WHERE evento = $1 AND tipo_beneficio = $2',
+            [evento, tipoBeneficio]
+        );
+        this.limparCache();
+    }
+
+    eventoExiste(evento: string): evento is EventoLembrete {
+        return EVENTOS_LEMBRETE.includes(evento as EventoLembrete);
+    }
+
+    validar(politica: unknown): string[] {
+        return validarPoliticaLembrete(politica);
+    }
+
+    limparCache(): void {
+        this.cache = null;
+        this.cacheTimestamp = 0;
+    }
+
+    private resolver(politica: PoliticaLembrete): PoliticaLembreteResolvida {
+        return {
+            etapas: [...politica.etapas].sort((a, b) => b.dias - a.dias),
+            fimDeSemana: politica.fimDeSemana || config.lembretes.fimDeSemana,
+            horarioInicio: politica.horarioInicio || config.lembretes.horarioInicio,
+            horarioFim: politica.horarioFim || config.lembretes.horarioFim,
+        };
+    }
+
+    private politicaDaLinha(row: any): PoliticaLembrete {
+        return {
+            etapas: row.etapas,
+            fimDeSemana: row.fim_de_semana || undefined,
+            horarioInicio: row.horario_inicio || undefined,
+            horarioFim: row.horario_fim || undefined,
+        };
+    }
+
+    private chave(evento: string, tipoBeneficio: string): string {
+        return `${evento}|${tipoBeneficio}`;
+    }
+
+    /**
+     * Políticas do banco por evento e benefício
+     * Linhas inválidas são ignoradas (vale a política mais geral); sem banco, os padrões do código continuam valendo
+     */
+    private async carregarPersonalizadas(): Promise<Map<string, any>> {
+        if (this.cache && Date.now() - this.cacheTimestamp < this.cacheTTL) {
+            return this.cache;
+        }
+
+        const mapa = new Map<string, any>();
+        try {
+            const rows = await Database.query(`
+                SELECT evento, tipo_beneficio, etapas, fim_de_semana, horario_inicio, horario_fim, updated_at
+                FROM politicas_lembrete
+            `);
+            for (const row of rows) {
+                const erros = validarPoliticaLembrete(this.politicaDaLinha(row));
+                if (!this.eventoExiste(row.evento) || erros.length > 0) {
+                    logger.warn(`[PoliticasLembrete] ⚠️ Política ${row.evento}/${row.tipo_beneficio} inválida (ignorada): ${erros.join('; ')}`);
+                    continue;
+                }
+                mapa.set(this.chave(row.evento, row.tipo_beneficio), row);
+            }
+        } catch (error: any) {
+            logger.warn(`[PoliticasLembrete] ⚠️ Erro ao carregar políticas do banco (usando padrões): ${error.message}`);
+        }
+
+        this.cache = mapa;
+        this.cacheTimestamp = Date.now();
+        return mapa;
+    }
+}
+
+export default new PoliticasLembreteService();
@@ -0,0 +1,426 @@
+/**
+ * Portal do parceiro
+ *
+ * O parceiro (parceiros_config) entra com um link mágico enviado ao telefone ou e-mail cadastrado
+ * pelo escritório e vê só os processos com a etiqueta PARCEIRO:NOME dele (processos.parceiro_id):
+ * histórico de status, exigências abertas com a lista de documentos, próximos agendamentos com
+ * comprovante e envio de documentos (ver DocumentosRecebidosService).
+ *
+ * O link vale uma vez e por poucos minutos; no banco fica só o hash do token.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import canaisNotificacaoService from './canais';
+import armazenamentoService from './armazenamento';
+import documentosRecebidosService, { EXTENSOES_DOCUMENTO, ResultadoDocumentoRecebido } from './DocumentosRecebidosService';
+import { StatusItemExigencia } from './ExigenciasItensService';
+
+// Sessões do portal só valem no portal (o middleware da equipe recusa tokens com `tipo`)
+const AUDIENCIA_SESSAO = 'portal-parceiros';
+
+export interface ProcessoPortal {
+    id: string;
+    protocolo: string;
+    nomeSegurado: string;
+    cpfMascarado: string;
+    tipoBeneficio: string;
+    der: Date | null;
+    statusInss: string;
+    classeFinal: string | null;
+    exigenciasAbertas: number;
+    proximoAgendamento: Date | null;
+    atualizadoEm: Date;
+}
+
+export interface ItemChecklistPortal {
+    item: string;
+    enviado: boolean;
+    status: StatusItemExigencia;
+}
+
+export interface DetalheProcessoPortal extends ProcessoPortal {
+    historico: { statusAnterior: string; statusNovo: string; data: Date }[];
+    exigencias: {
+        id: string;
+        prazo: Date | null;
+        resumo: string;
+        status: string;
+        checklist: ItemChecklistPortal[];
+    }[];
+    agendamentos: {
+        tipo: string;
+        data: Date;
+        hora: string | null;
+        unidade: string | null;
+        endereco: string | null;
+        urlComprovante: string | null;
+    }[];
+    documentosEnviados: { nomeArquivo: string; tipoDocumento: string | null; exigenciaId: string | null; enviadoEm: Date }[];
+}
+
+export interface DocumentoPortal {
+    dados: Buffer;
+    mimetype: string;
+    nomeArquivo: string;
+    exigenciaId?: string | null;
+    /** Item do checklist da exigência (descrição) */
+    item?: string | null;
+}
+
+// Links pedidos por parceiro dentro da validade de um link
+const MAX_LINKS_POR_JANELA = 3;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class PortalParceirosService {
+    /**
+     * Envia o link de acesso aos parceiros ativos com esse telefone ou e-mail
+     * A resposta para quem pediu é sempre a mesma (não revela se o contato está cadastrado)
+     * @returns quantidade de links enviados
+     */
+    async solicitarAcesso(contato: string, ip?: string): Promise<number> {
+        const valor = (contato || '').trim();
+        const porEmail = valor.includes('@');
+        const parceiros = porEmail ? await this.buscarPorEmail(valor) : await this.buscarPorTelefone(valor);
+
+        let enviados = 0;
+        for (const parceiro of parceiros) {
+            try {
+                if (await this.excedeuLimite(parceiro.id)) {
+                    logger.warn(`[Portal Parceiros] ⚠️ Limite de links atingido para o parceiro ${parceiro.id}`);
+                    continue;
+                }
+
+                const token = crypto.randomBytes(32).toString('hex');
+                const canal = porEmail ? 'email' : 'whatsapp';
+                const destino = porEmail ? parceiro.email : parceiro.telefone;
+
+                await Database.query(`
+                    INSERT INTO portal_parceiros_links (parceiro_id, token_hash, canal, destino, expira_em, ip)
+                    VALUES ($1, $2, $3, $4, NOW() + ($5 || ' minutes')::interval, $6)
+                `, [parceiro.id, this.hash(token), canal, destino, String(config.portal.validadeLinkMinutos), ip || null]);
+
+                const nome = parceiro.nome_completo || parceiro.nome_etiqueta;
+                const link = `${config.portal.url}/#/entrar/${token}`;
+
+                // Só o canal pelo qual o parceiro pediu: sem telefone não vai por WhatsApp, sem e-mail não vai por e-mail
+                await canaisNotificacaoService.enviar({
+                    tipo: 'PARCEIRO',
+                    nome,
+                    canal,
+                    telefone: porEmail ? null : parceiro.telefone,
+                    email: porEmail ? parceiro.email : null,
+                    parceiroId: parceiro.id,
+                }, {
+                    assunto: 'Acesso ao portal do parceiro',
+                    mensagem: `Olá, ${nome}!\n\nPara acessar o portal do parceiro e acompanhar os processos dos seus clientes, use o link abaixo (válido por ${config.portal.validadeLinkMinutos} minutos, uma única vez):\n\n${link}\n\nSe você não pediu o acesso, ignore esta mensagem.`,
+                    origem: 'portal',
+                    tipo: 'PORTAL_ACESSO',
+                    parceiroId: parceiro.id,
+                    usuarioId: parceiro.user_id,
+                });
+
+                enviados++;
+                logger.info(`[Portal Parceiros] 🔗 Link de acesso enviado ao parceiro ${parceiro.id} por ${canal}`);
+            } catch (error: any) {
+                logger.error(`[Portal Parceiros] ❌ Erro ao enviar link ao parceiro ${parceiro.id}: ${error.message}`);
+            }
+        }
+
+        return enviados;
+    }
+
+    /**
+     * Troca o link mágico pela sessão do portal
+     * @returns token da sessão, ou null se o link não existe, expirou ou já foi usado
+     */
+    async entrar(token: string): Promise<{ token: string; parceiro: { id: number; nome: string } } | null> {
+        if (!token) return null;
+
+        const resultado = await Database.query(`
+            UPDATE portal_parceiros_links l
+            SET usado_em = NOW()
+            FROM parceiros_config p
+            WHERE l.token_hash = $1 AND l.usado_em IS NULL AND l.expira_em > NOW()
+              AND p.id = l.parceiro_id AND p.ativo = true
+            RETURNING p.id, COALESCE(p.nome_completo, p.nome_etiqueta) AS nome
+        `, [this.hash(token)]);
+
+        if (resultado.length === 0) return null;
+        const parceiro = resultado[0];
+
+        await Database.query(
+            'UPDATE parceiros_config SET portal_ultimo_acesso_em = NOW() WHERE id = $1',
+            [parceiro.id]
+        );
+
+        const sessao = jwt.sign(
+            { parceiroId: parceiro.id, tipo: 'parceiro' },
+            config.jwt.secret,
+            { expiresIn: `${config.portal.validadeSessaoDias}d`, audience: AUDIENCIA_SESSAO }
+        );
+
+        logger.info(`[Portal Parceiros] ✅ Parceiro ${parceiro.id} entrou no portal`);
+        return { token: sessao, parceiro: { id: parceiro.id, nome: parceiro.nome } };
+    }
+
+    /**
+     * Sessão do portal; parceiro desativado perde o acesso na hora
+     */
+    async verificarToken(token: string): Promise<{ valid: boolean; parceiroId?: number }> {
+        try {
+            const decoded = jwt.verify(token, config.jwt.secret, { audience: AUDIENCIA_SESSAO }) as any;
+            if (decoded.tipo !== 'parceiro' || !decoded.parceiroId) {
+                return { valid: false };
+            }
+
+            const ativo = await Database.query(
+                'SELECT 1 FROM parceiros_config WHERE id = $1 AND ativo = true',
+                [decoded.parceiroId]
+            );
+            return ativo.length > 0 ? { valid: true, parceiroId: decoded.parceiroId } : { valid: false };
+        } catch {
+            return { valid: false };
+        }
+    }
+
+    async listarProcessos(parceiroId: number): Promise<ProcessoPortal[]> {
+        const resultado = await Database.query(`
+            ${this.sqlProcessos()}
+            WHERE p.parceiro_id = $1
+            ORDER BY p.updated_at DESC
+        `, [parceiroId]);
+
+        return resultado.map((row: any) => this.mapearProcesso(row));
+    }
+
+    /**
+     * Processo do parceiro com histórico, exigências, agendamentos e documentos enviados
+     * @returns null se o processo não é do parceiro
+     */
+    async detalharProcesso(parceiroId: number, processoId: string): Promise<DetalheProcessoPortal | null> {
+        if (!UUID.test(processoId)) return null;
+
+        const resultado = await Database.query(`
+            ${this.sqlProcessos()}
+            WHERE p.id = $1 AND p.parceiro_id = $2
+        `, [processoId, parceiroId]);
+
+        if (resultado.length === 0) return null;
+
+        const historico = await Database.query(`
+            SELECT status_anterior, status_novo, created_at
+            FROM historico_status
+            WHERE processo_id = $1 AND tipo = 'STATUS_INSS'
+            ORDER BY created_at DESC
+        `, [processoId]);
+
+        const exigencias = await Database.query(`
+            SELECT e.id, e.prazo, e.resumo_exigencia, e.status,
+                   COALESCE((
+                       SELECT json_agg(json_build_object('item', i.descricao, 'status', i.status) ORDER BY i.ordem, i.created_at)
+                       FROM exigencias_itens i
+                       WHERE i.exigencia_id = e.id
+                   ), '[]'::json) AS itens
+            FROM exigencias e
+            WHERE e.processo_id = $1 AND e.status IN ('PENDENTE', 'EM_ANDAMENTO')
+            ORDER BY e.prazo ASC
+        `, [processoId]);
+
+        const agendamentos = await Database.query(`
+            SELECT tipo, data_agendamento, hora_agendamento, unidade, endereco, url_comprovante, comprovante_documento_id
+            FROM agendamentos
+            WHERE processo_id = $1 AND status = 'AGENDADO' AND data_agendamento >= CURRENT_DATE
+            ORDER BY data_agendamento, hora_agendamento
+        `, [processoId]);
+
+        const documentos = await Database.query(`
+            SELECT nome_arquivo, tipo_documento, exigencia_id, created_at
+            FROM documentos
+            WHERE processo_id = $1 AND enviado_por_parceiro_id = $2
+            ORDER BY created_at DESC
+        `, [processoId, parceiroId]);
+
+        return {
+            ...this.mapearProcesso(resultado[0]),
+            historico: historico.map((row: any) => ({
+                statusAnterior: row.status_anterior,
+                statusNovo: row.status_novo,
+                data: row.created_at,
+            })),
+            exigencias: exigencias.map((row: any) => ({
+                id: row.id,
+                prazo: row.prazo,
+                resumo: row.resumo_exigencia,
+                status: row.status,
+                checklist: row.itens.map((item: { item: string; status: StatusItemExigencia }) => ({
+                    item: item.item,
+                    enviado: item.status !== 'PENDENTE',
+                    status: item.status,
+                })),
+            })),
+            agendamentos: agendamentos.map((row: any) => ({
+                tipo: row.tipo,
+                data: row.data_agendamento,
+                hora: row.hora_agendamento,
+                unidade: row.unidade,
+                endereco: row.endereco,
+                urlComprovante: armazenamentoService.linkOuUrl(row.comprovante_documento_id, row.url_comprovante),
+            })),
+            documentosEnviados: documentos.map((row: any) => ({
+                nomeArquivo: row.nome_arquivo,
+                tipoDocumento: row.tipo_documento,
+                exigenciaId: row.exigencia_id,
+                enviadoEm: row.created_at,
+            })),
+        };
+    }
+
+    /**
+     * Documento enviado pelo parceiro: vai para a exigência aberta e para a tarefa ANEXAR_DOCUMENTO
+     * @returns null se o processo não é do parceiro
+     * @throws Error se o arquivo ou o item da lista forem inválidos
+     */
+    async enviarDocumento(parceiroId: number, processoId: string, documento: DocumentoPortal): Promise<ResultadoDocumentoRecebido | null> {
+        if (!UUID.test(processoId)) return null;
+
+        const processo = await Database.query(`
+            SELECT p.id, COALESCE(pc.nome_completo, pc.nome_etiqueta) AS parceiro_nome
+            FROM processos p
+            JOIN parceiros_config pc ON pc.id = p.parceiro_id
+            WHERE p.id = $1 AND p.parceiro_id = $2
+        `, [processoId, parceiroId]);
+
+        if (processo.length === 0) return null;
+
+        const mimetype = documento.mimetype.split(';')[0].trim();
+        if (!EXTENSOES_DOCUMENTO[mimetype]) {
+            throw new Error('Envie o documento em PDF ou imagem (JPG, PNG, WEBP, HEIC)');
+        }
+        if (documento.dados.length === 0) {
+            throw new Error('Arquivo vazio');
+        }
+        if (documento.dados.length > config.portal.tamanhoMaximoUploadMb * 1024 * 1024) {
+            throw new Error(`Arquivo maior que ${config.portal.tamanhoMaximoUploadMb} MB`);
+        }
+
+        const exigenciaId = documento.exigenciaId && UUID.test(documento.exigenciaId) ? documento.exigenciaId : null;
+
+        let item: { id: string; exigencia_id: string } | null = null;
+        if (documento.item) {
+            const itens = await Database.query(`
+                SELECT i.id, i.exigencia_id
+                FROM exigencias_itens i
+                JOIN exigencias e ON e.id = i.exigencia_id
+                WHERE e.processo_id = $1 AND e.status IN ('PENDENTE', 'EM_ANDAMENTO')
+                  AND ($2::uuid IS NULL OR e.id = $2) AND i.descricao = $3
+                ORDER BY e.prazo ASC
+                LIMIT 1
+            `, [processoId, exigenciaId, documento.item]);
+
+            if (itens.length === 0) {
+                throw new Error('Item não encontrado nas exigências abertas do processo');
+            }
+            item = itens[0];
+        }
+
+        const parceiroNome: string = processo[0].parceiro_nome;
+        const nomeArquivo = (documento.nomeArquivo || '').trim() || `portal-${Date.now()}.${EXTENSOES_DOCUMENTO[mimetype]}`;
+
+        return documentosRecebidosService.registrar({
+            processoId,
+            exigenciaId: item?.exigencia_id || exigenciaId,
+            exigenciaItemId: item?.id || null,
+            dados: documento.dados,
+            mimetype,
+            nomeArquivo,
+            tipoDocumento: documento.item || null,
+            origem: 'PORTAL',
+            remetente: `o parceiro ${parceiroNome}`,
+            observacoes: `Enviado pelo parceiro ${parceiroNome} no portal${documento.item ? `: ${documento.item}` : ''}`,
+            parceiroId,
+        });
+    }
+
+    /**
+     * Link do processo no portal (mensagens dos parceiros com incluirLinkProcesso)
+     */
+    linkProcesso(processoId: string): string {
+        return `${config.portal.url}/#/processos/${processoId}`;
+    }
+
+    private sqlProcessos(): string {
+        return `
+            SELECT p.id, p.protocolo_inss, p.nome_segurado, p.cpf_segurado, p.tipo_beneficio, p.der,
+                   p.status_inss, p.classe_final, p.updated_at,
+                   (SELECT COUNT(*) FROM exigencias e
+                    WHERE e.processo_id = p.id AND e.status IN ('PENDENTE', 'EM_ANDAMENTO'))::int AS exigencias_abertas,
+                   (SELECT MIN(a.data_agendamento) FROM agendamentos a
+                    WHERE a.processo_id = p.id AND a.status = 'AGENDADO' AND a.data_agendamento >= CURRENT_DATE) AS proximo_agendamento
+            FROM processos p
+        `;
+    }
+
+    private async buscarPorEmail(email: string): Promise<any[]> {
+        return Database.query(`
+            SELECT id, user_id, nome_etiqueta, nome_completo, telefone, email
+            FROM parceiros_config
+            WHERE ativo = true AND LOWER(email) = LOWER($1)
+        `, [email]);
+    }
+
+    /**
+     * Aceita o número com ou sem o 55 e com ou sem o nono dígito
+     */
+    private async buscarPorTelefone(telefone: string): Promise<any[]> {
+        let numero = telefone.replace(/\D/g, '');
+        if (numero.length === 10 || numero.length === 11) {
+            numero = `55${numero}`;
+        }
+        if (numero.length < 12) return [];
+
+        return Database.query(`
+            SELECT id, user_id, nome_etiqueta, nome_completo, telefone, email
+            FROM parceiros_config
+            WHERE ativo = true
+              AND regexp_replace(regexp_replace(telefone, '[^0-9]', '', 'g'), '^(55[0-9]{2})9([0-9]{8})$', '\\1\\2')
+                = regexp_replace($1, '^(55[0-9]{2})9([0-9]{8})$', '\\1\\2')
+        `, [numero]);
+    }
+
+    private async excedeuLimite(parceiroId: number): Promise<boolean> {
+        const resultado = await Database.query(`
+            SELECT COUNT(*)::int AS total FROM portal_parceiros_links
+            WHERE parceiro_id = $1 AND created_at > NOW() - ($2 || ' minutes')::interval
+        `, [parceiroId, String(config.portal.validadeLinkMinutos)]);
+
+        return resultado[0].total >= MAX_LINKS_POR_JANELA;
+    }
+
+    private hash(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    private mapearProcesso(row: any): ProcessoPortal {
+        const cpf = String(row.cpf_segurado || '').replace(/\D/g, '');
+        return {
+            id: row.id,
+            protocolo: row.protocolo_inss,
+            nomeSegurado: row.nome_segurado,
+            // Formato: 000.XXX.X0X-00 (o mesmo das mensagens para parceiros)
+            cpfMascarado: cpf.length === 11 ? `${cpf.substring(0, 3)}.XXX.X${cpf.substring(8, 9)}X-${cpf.substring(9, 11)}` : '',
+            tipoBeneficio: row.tipo_beneficio,
+            der: row.der,
+            statusInss: row.status_inss,
+            classeFinal: row.classe_final,
+            exigenciasAbertas: row.exigencias_abertas,
+            proximoAgendamento: row.proximo_agendamento,
+            atualizadoEm: row.updated_at,
+        };
+    }
+}
+
+export default new PortalParceirosService();
@@ -1,6 +1,7 @@
 ﻿import puppeteer, { Browser, Page } from 'puppeteer';
 import config from '../config';
 import logger from '../utils/logger';
+import seletoresPatService from './SeletoresPatService';
 import { format, parse, addDays } from 'date-fns';
 
 interface ProcessoINSS {
@@ -2539,8 +2540,8 @@ export class PuppeteerService {
                 protocolo: getValor('Protocolo'),
                 cpf: getValor('CPF'),
                 nome: getValor('Nome Completo'),
-                beneficio: getValor('Servi�o'),
-                der: getValor('Data da Solicita��o'),
+                beneficio: getValor('Serviço'),
+                der: getValor('Data da Solicitação'),
                 status: getValor('Status'),
             };
 
@@ -2552,7 +2553,7 @@ export class PuppeteerService {
 
             const statusUpper = dados.status.toUpperCase();
             const isConcluidaOuCancelada =
-                statusUpper.includes('CONCLU�DA') ||
+                statusUpper.includes('CONCLUÍDA') ||
                 statusUpper.includes('CONCLUIDA') ||
                 statusUpper.includes('CANCELADA') ||
                 statusUpper.includes('CANCELADO');
@@ -2859,44 +2860,16 @@ export class PuppeteerService {
                     return item ? item.value : '';
                 };
 
-                let servicoExtraido = getValor('Serviço') || getValor('Servio');
-
-                // Se não encontrou pelo label, tentar extrair via XPath/CSS específico
-                if (!servicoExtraido || servicoExtraido.trim() === '') {
-                    try {
-                        logger.info('[Puppeteer] 🔍 Tentando extrair serviço via XPath/CSS específico...');
-
-                        // Tentar múltiplos seletores para robustez
-                        // 1. XPath relativo (mais robusto)
-                        let servicoXPath = await this.page.$x('//*[@id="detalhamento"]/section[1]/div/div[2]/div/div[1]/div/span');
-
-                        // 2. XPath absoluto (fallback)
-                        if (servicoXPath.length === 0) {
-                            servicoXPath = await this.page.$x('/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]/section[1]/div/div[2]/div/div[1]/div/span');
-                        }
-
-                        // 3. CSS Selector (fallback)
-                        if (servicoXPath.length === 0) {
-                            const servicoCss = await this.page.$('#detalhamento > section:nth-child(1) > div > div.dtp-datagrid-items-box > div > div:nth-child(1) > div > span');
-                            if (servicoCss) {
-                                servicoExtraido = await this.page.evaluate((el: any) => el.textContent?.trim() || '', servicoCss);
-                                logger.info(`[Puppeteer] ✅ Serviço extraído via CSS Selector: ${servicoExtraido}`);
-                            }
-                        } else {
-                            servicoExtraido = await this.page.evaluate((el: any) => el.textContent?.trim() || '', servicoXPath[0]);
-                            logger.info(`[Puppeteer] ✅ Serviço extraído via XPath: ${servicoExtraido}`);
-                        }
-                    } catch (error) {
-                        logger.warn('[Puppeteer] ⚠️ Erro ao extrair serviço via XPath/CSS:', error);
-                    }
-                }
+                // CPF e serviço pelo registro de seletores (label → valor, com fallbacks XPath/CSS)
+                const cpfExtraido = await seletoresPatService.lerTexto(this.page, 'detalhe.cpf');
+                const servicoExtraido = await seletoresPatService.lerTexto(this.page, 'detalhe.servico');
 
                 // Extrair data de nascimento
                 const dataNascimentoStr = getValor('Nascimento') || '';
 
                 const dadosBasicos = {
                     protocolo: getValor('Protocolo'),
-                    cpf: getValor('CPF'),
+                    cpf: cpfExtraido || getValor('CPF'),
                     nome: getValor('Nome Completo'),
                     servico: servicoExtraido || '',
                     dataSolicitacao: getValor('Data da Solicitação'),
@@ -2941,33 +2914,8 @@ export class PuppeteerService {
                         logger.warn('[Puppeteer] ⚠️ Comentários não apareceram no timeout, tentando extrair mesmo assim...');
                     }
 
-                    // Extrair todos os comentários (estrutura: .comentario-tarefa)
-                    comentarios = await this.page.evaluate(() => {
-                        const comentariosEls = document.querySelectorAll('.comentario-tarefa');
-
-                        return Array.from(comentariosEls).map(el => {
-                            const tituloEl = el.querySelector('.titulo');
-                            const textoEl = el.querySelector('.texto');
-
-                            const tituloTexto = tituloEl?.textContent?.trim() || '';
-
-                            // CORREÇÃO: Extrair texto LIMPO (sem HTML) para a IA analisar
-                            // Usar textContent ao invés de innerHTML para remover tags
-                            let texto = textoEl?.textContent?.trim() || '';
-
-                            // Limpar espaços duplos e quebras de linha excessivas
-                            texto = texto.replace(/\s\s+/g, ' ').replace(/\n\n+/g, '\n').trim();
-
-                            // Extrair data do título: "Enviado em 05/11/2025"
-                            const matchData = tituloTexto.match(/(\d{2}\/\d{2}\/\d{4})/);
-                            const dataStr = matchData ? matchData[1] : '';
-
-                            return {
-                                dataStr,
-                                texto
-                            };
-                        });
-                    });
+                    // Extrair todos os comentários (estrutura: .comentario-tarefa ou fallbacks do registro)
+                    comentarios = await this.extrairCardsComentarios();
 
                     logger.info(`[Puppeteer] 📊 ${comentarios.length} comentário(s) encontrado(s)`);
 
@@ -2977,19 +2925,7 @@ export class PuppeteerService {
                         await this.page.waitForTimeout(5000);
 
                         // Tentar novamente
-                        comentarios = await this.page.evaluate(() => {
-                            const comentariosEls = document.querySelectorAll('.comentario-tarefa');
-                            return Array.from(comentariosEls).map(el => {
-                                const tituloEl = el.querySelector('.titulo');
-                                const textoEl = el.querySelector('.texto');
-                                const tituloTexto = tituloEl?.textContent?.trim() || '';
-                                let texto = textoEl?.textContent?.trim() || '';
-                                texto = texto.replace(/\s\s+/g, ' ').replace(/\n\n+/g, '\n').trim();
-                                const matchData = tituloTexto.match(/(\d{2}\/\d{2}\/\d{4})/);
-                                const dataStr = matchData ? matchData[1] : '';
-                                return { dataStr, texto };
-                            });
-                        });
+                        comentarios = await this.extrairCardsComentarios();
                         logger.info(`[Puppeteer] 📊 Após segunda tentativa: ${comentarios.length} comentário(s) encontrado(s)`);
                     }
                 } else {
@@ -3096,6 +3032,39 @@ export class PuppeteerService {
         throw new Error(`Não foi possível extrair detalhes do protocolo ${protocolo} após ${maxTentativas} tentativa(s)`);
     }
 
+    /**
+     * Lê os cards de comentário/exigência da aba aberta (campo "detalhe.comentario" do registro de seletores)
+     * Título "Enviado em DD/MM/YYYY" em .titulo (ou primeiro filho) e texto em .texto (ou último filho)
+     */
+    private async extrairCardsComentarios(): Promise<Array<{ dataStr: string; texto: string }>> {
+        if (!this.page) return [];
+
+        const cards = await seletoresPatService.localizarTodos(this.page, 'detalhe.comentario');
+        const comentarios: Array<{ dataStr: string; texto: string }> = [];
+
+        for (const card of cards) {
+            comentarios.push(await card.evaluate(el => {
+                const tituloEl = el.querySelector('.titulo') || el.firstElementChild;
+                const textoEl = el.querySelector('.texto') || el.lastElementChild;
+
+                const tituloTexto = tituloEl?.textContent?.trim() || '';
+
+                // Texto LIMPO (sem HTML) para a IA analisar
+                let texto = textoEl?.textContent?.trim() || '';
+                texto = texto.replace(/\s\s+/g, ' ').replace(/\n\n+/g, '\n').trim();
+
+                // Extrair data do título: "Enviado em 05/11/2025"
+                const matchData = tituloTexto.match(/(\d{2}\/\d{2}\/\d{4})/);
+                const dataStr = matchData ? matchData[1] : '';
+
+                return { dataStr, texto };
+            }));
+            await card.dispose();
+        }
+
+        return comentarios;
+    }
+
     /**
      * ?? Captura o email exclusivo de um cliente no Tramita��o Inteligente
      * Navega at� a p�gina de emails do cliente e extrai o endere�o
@@ -0,0 +1,257 @@
+/**
+ * Serviço de Regras de Classificação
+ *
+ * Carrega as regras declarativas (tabela regras_classificacao) e aplica o motor
+ * de regras antes do LLM. As regras são editadas por administradores e ficam em
+ * cache por alguns segundos para não consultar o banco a cada protocolo.
+ */
+
+import Database from '../database';
+import logger from '../utils/logger';
+import { CLASSES_FINAIS } from './llm';
+import {
+    avaliarRegras,
+    CardInss,
+    ehPadraoRegex,
+    EscopoRegra,
+    RegraClassificacao,
+    ResultadoRegra,
+    validarPadraoRegex,
+} from '../utils/motorRegras';
+
+export interface DadosRegra {
+    nome: string;
+    descricao?: string | null;
+    classeFinal: string;
+    prioridade?: number;
+    confianca?: number;
+    escopo?: EscopoRegra;
+    padroesTodos?: string[];
+    padroesQualquer?: string[];
+    padroesExcluir?: string[];
+    motivo?: string | null;
+    documentos?: string[] | null;
+    prazoDiasPadrao?: number | null;
+    tipoIndeferimento?: 'CULPA' | 'MERITO' | 'AUTO' | null;
+    ativo?: boolean;
+}
+
+const COLUNAS = `
+    id, nome, descricao, classe_final, prioridade, confianca, escopo,
+    padroes_todos, padroes_qualquer, padroes_excluir, motivo, documentos,
+    prazo_dias_padrao, tipo_indeferimento, ativo, atualizado_por, created_at, updated_at
+`;
+
+// Campo da API → coluna do banco (usado no UPDATE dinâmico)
+const CAMPOS_COLUNAS: Record<keyof DadosRegra, string> = {
+    nome: 'nome',
+    descricao: 'descricao',
+    classeFinal: 'classe_final',
+    prioridade: 'prioridade',
+    confianca: 'confianca',
+    escopo: 'escopo',
+    padroesTodos: 'padroes_todos',
+    padroesQualquer: 'padroes_qualquer',
+    padroesExcluir: 'padroes_excluir',
+    motivo: 'motivo',
+    documentos: 'documentos',
+    prazoDiasPadrao: 'prazo_dias_padrao',
+    tipoIndeferimento: 'tipo_indeferimento',
+    ativo: 'ativo',
+};
+
+export class RegrasClassificacaoService {
+    private cache: RegraClassificacao[] | null = null;
+    private cacheTimestamp = 0;
+    private cacheTTL = 60 * 1000; // 1 minuto
+
+    /**
+     * Classifica os cards usando as regras ativas
+     * Erros de banco nunca travam a análise: retorna null e o LLM assume
+     */
+    async classificar(cards: CardInss[]): Promise<ResultadoRegra | null> {
+        try {
+            const regras = await this.obterRegrasAtivas();
+            return avaliarRegras(cards, regras);
+        } catch (error: any) {
+            logger.warn(`[Regras] ⚠️ Erro ao aplicar regras (usando IA): ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Testa as regras (ou uma lista de regras em edição) sem gravar nada
+     */
+    async testar(cards: CardInss[], regras?: RegraClassificacao[]): Promise<ResultadoRegra | null> {
+        return avaliarRegras(cards, regras || await this.obterRegrasAtivas());
+    }
+
+    async obterRegrasAtivas(): Promise<RegraClassificacao[]> {
+        if (this.cache && Date.now() - this.cacheTimestamp < this.cacheTTL) {
+            return this.cache;
+        }
+
+        const rows = await Database.query(
+            `SELECT ${COLUNAS} FROM regras_classificacao WHERE ativo = true ORDER BY prioridade DESC, id ASC`
+        );
+
+        this.cache = rows.map((row: any) => this.mapearRegra(row));
+        this.cacheTimestamp = Date.now();
+        return this.cache;
+    }
+
+    async listar(): Promise<any[]> {
+        return Database.query(`SELECT ${COLUNAS} FROM regras_classificacao ORDER BY prioridade DESC, id ASC`);
+    }
+
+    async criar(dados: DadosRegra, usuarioId?: string): Promise<any> {
+        const result = await Database.query(`
+            INSERT INTO regras_classificacao (
+                nome, descricao, classe_final, prioridade, confianca, escopo,
+                padroes_todos, padroes_qualquer, padroes_excluir, motivo, documentos,
+                prazo_dias_padrao, tipo_indeferimento, ativo, atualizado_por
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            RETURNING ${COLUNAS}
+        `, [
+            dados.nome.trim(),
+            dados.descricao || null,
+            dados.classeFinal,
+            dados.prioridade ?? 0,
+            dados.confianca ?? 0.9,
+            dados.escopo || 'ultimo_card',
+            dados.padroesTodos || [],
+            dados.padroesQualquer || [],
+            dados.padroesExcluir || [],
+            dados.motivo || null,
+            dados.documentos && dados.documentos.length > 0 ? dados.documentos : null,
+            dados.prazoDiasPadrao ?? null,
+            dados.tipoIndeferimento || null,
+            dados.ativo ?? true,
+            usuarioId || null,
+        ]);
+
+        this.limparCache();
+        logger.info(`[Regras] ➕ Regra "${dados.nome}" criada (${dados.classeFinal})`);
+        return result[0];
+    }
+
+    async atualizar(id: number, dados: Partial<DadosRegra>, usuarioId?: string): Promise<any | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [campo, coluna] of Object.entries(CAMPOS_COLUNAS)) {
+            const valor = dados[campo as keyof DadosRegra];
+            if (valor !== undefined) {
+                updates.push(`${coluna} = $${paramIndex++}`);
+                values.push(valor);
+            }
+        }
+
+        if (updates.length === 0) {
+            return null;
+        }
+
+        updates.push(`atualizado_por = $${paramIndex++}`);
+        values.push(usuarioId || null);
+        updates.push('updated_at = NOW()');
+        values.push(id);
+
+        const result = await Database.query(`
+            UPDATE regras_classificacao
+            SET ${updates.join(', ')}
+            WHERE id = $${paramIndex}
+            RETURNING ${COLUNAS}
+        `, values);
+
+        this.limparCache();
+        return result[0] || null;
+    }
+
+    async remover(id: number): Promise<boolean> {
+        const result = await Database.query('DELETE FROM regras_classificacao WHERE id = $1 RETURNING id', [id]);
+        this.limparCache();
+        return result.length > 0;
+    }
+
+    /**
+     * Valida os dados de uma regra
+     * @param parcial true em atualizações (campos ausentes não são exigidos)
+     * @returns lista de erros (vazia se válida)
+     */
+    validar(dados: Partial<DadosRegra>, parcial: boolean = false): string[] {
+        const erros: string[] = [];
+
+        if (!parcial || dados.nome !== undefined) {
+            if (typeof dados.nome !== 'string' || !dados.nome.trim()) erros.push('nome é obrigatório');
+        }
+        if (!parcial || dados.classeFinal !== undefined) {
+            if (!CLASSES_FINAIS.includes(dados.classeFinal as any)) {
+                erros.push(`classeFinal inválida. Use: ${CLASSES_FINAIS.join(', ')}`);
+            }
+        }
+        if (dados.confianca !== undefined && (typeof dados.confianca !== 'number' || dados.confianca < 0 || dados.confianca > 1)) {
+            erros.push('confianca deve ser um número entre 0 e 1');
+        }
+        if (dados.prioridade !== undefined && !Number.isInteger(dados.prioridade)) {
+            erros.push('prioridade deve ser um número inteiro');
+        }
+        if (dados.escopo !== undefined && !['ultimo_card', 'todos_cards'].includes(dados.escopo)) {
+            erros.push('escopo deve ser ultimo_card ou todos_cards');
+        }
+        if (dados.tipoIndeferimento !== undefined && dados.tipoIndeferimento !== null &&
+            !['CULPA', 'MERITO', 'AUTO'].includes(dados.tipoIndeferimento)) {
+            erros.push('tipoIndeferimento deve ser CULPA, MERITO ou AUTO');
+        }
+        if (dados.prazoDiasPadrao !== undefined && dados.prazoDiasPadrao !== null &&
+            (!Number.isInteger(dados.prazoDiasPadrao) || dados.prazoDiasPadrao <= 0)) {
+            erros.push('prazoDiasPadrao deve ser um inteiro positivo');
+        }
+
+        for (const campo of ['padroesTodos', 'padroesQualquer', 'padroesExcluir', 'documentos'] as const) {
+            const lista = dados[campo];
+            if (lista !== undefined && lista !== null &&
+                (!Array.isArray(lista) || lista.some(item => typeof item !== 'string' || !item.trim()))) {
+                erros.push(`${campo} deve ser uma lista de textos não vazios`);
+            }
+        }
+
+        for (const padrao of [...(dados.padroesTodos || []), ...(dados.padroesQualquer || []), ...(dados.padroesExcluir || [])]) {
+            if (typeof padrao === 'string' && ehPadraoRegex(padrao)) {
+                const erro = validarPadraoRegex(padrao);
+                if (erro) erros.push(erro);
+            }
+        }
+
+        if (!parcial && (dados.padroesTodos || []).length === 0 && (dados.padroesQualquer || []).length === 0) {
+            erros.push('Informe ao menos um padrão em padroesTodos ou padroesQualquer');
+        }
+
+        return erros;
+    }
+
+    limparCache(): void {
+        this.cache = null;
+        this.cacheTimestamp = 0;
+    }
+
+    private mapearRegra(row: any): RegraClassificacao {
+        return {
+            id: row.id,
+            nome: row.nome,
+            classeFinal: row.classe_final,
+            prioridade: row.prioridade,
+            confianca: parseFloat(row.confianca),
+            escopo: row.escopo,
+            padroesTodos: row.padroes_todos || [],
+            padroesQualquer: row.padroes_qualquer || [],
+            padroesExcluir: row.padroes_excluir || [],
+            motivo: row.motivo,
+            documentos: row.documentos,
+            prazoDiasPadrao: row.prazo_dias_padrao,
+            tipoIndeferimento: row.tipo_indeferimento,
+        };
+    }
+}
+
+export default new RegrasClassificacaoService();
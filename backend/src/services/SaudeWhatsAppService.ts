@@ -0,0 +1,392 @@
+/**
+ * Saúde das sessões WhatsApp
+ *
+ * Acompanha os eventos de cada sessão (conexão, queda, logout, recuperação esgotada, envios) e:
+ * - registra o histórico em whatsapp_sessoes_eventos (exibido em /extensao/whatsapp/status)
+ * - alerta o escritório por e-mail quando a sessão cai e não volta dentro da tolerância
+ *   (logout, falha de autenticação e recuperação esgotada alertam na hora: precisam de novo QR Code)
+ * - retoma as mensagens pausadas no outbox quando a sessão reconecta
+ *
+ * Enquanto a sessão está fora do ar, o worker do outbox pausa as mensagens dela em vez de
+ * tentar a cada ciclo; os produtores continuam só enfileirando.
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import whatsappService, { EventoSessaoWhatsApp, TipoEventoSessaoWhatsApp } from './WhatsAppService';
+import whatsappOutboxService from './WhatsAppOutboxService';
+import canaisNotificacaoService, { ContatoNotificacao } from './canais';
+
+export type EstadoSaudeWhatsApp = 'CONECTADA' | 'INSTAVEL' | 'DESCONECTADA' | 'DESCONHECIDA';
+
+export interface AlertaSaudeWhatsApp {
+    nivel: 'erro' | 'aviso';
+    mensagem: string;
+    desde: string;
+}
+
+export interface EventoSaudeRegistrado {
+    tipo: string;
+    detalhe: string | null;
+    ocorridoEm: Date;
+}
+
+export interface SaudeWhatsApp {
+    estado: EstadoSaudeWhatsApp;
+    conectadaDesde: string | null;
+    uptimeSegundos: number | null;
+    indisponivelDesde: string | null;
+    motivo: string | null;
+    requerReconexao: boolean;
+    ultimoEnvioEm: string | null;
+    falhasEnvioConsecutivas: number;
+    mensagensPausadas: number;
+    alerta: AlertaSaudeWhatsApp | null;
+    historico: EventoSaudeRegistrado[];
+}
+
+interface EstadoSessao {
+    usuarioId: string | null;
+    conectada: boolean;
+    conectadaDesde: Date | null;
+    indisponivelDesde: Date | null;
+    motivo: string | null;
+    // Logout, falha de autenticação ou recuperação esgotada: só volta com novo QR Code
+    requerReconexao: boolean;
+    ultimoEnvioEm: Date | null;
+    falhasEnvioConsecutivas: number;
+    alertadoEm: Date | null;
+}
+
+const EVENTOS_REQUEREM_RECONEXAO: TipoEventoSessaoWhatsApp[] = ['LOGOUT', 'FALHA_AUTENTICACAO', 'RECUPERACAO_ESGOTADA'];
+
+const DESCRICAO_EVENTO: Record<string, string> = {
+    DESCONECTADA: 'conexão perdida',
+    LOGOUT: 'sessão encerrada no celular (logout)',
+    FALHA_AUTENTICACAO: 'falha de autenticação',
+    ERRO_RECUPERAVEL: 'erro no navegador do WhatsApp',
+    RECUPERACAO_ESGOTADA: 'tentativas de reconexão esgotadas',
+};
+
+export class SaudeWhatsAppService {
+    private readonly estados = new Map<string, EstadoSessao>();
+    private readonly intervaloVerificacaoMs = 60 * 1000;
+    private readonly tamanhoHistorico = 20;
+    private timerVerificacao: NodeJS.Timeout | null = null;
+
+    /**
+     * Passa a acompanhar as sessões (antes de inicializá-las, para registrar a primeira conexão)
+     */
+    iniciar(): void {
+        if (this.timerVerificacao) {
+            return;
+        }
+
+        whatsappService.aoMudarEstadoSessao(evento => {
+            this.registrarEvento(evento)
+                .catch((error: any) => logger.warn(`[Saude WhatsApp] ⚠️ Erro ao registrar evento ${evento.tipo}: ${error.message}`));
+        });
+
+        this.timerVerificacao = setInterval(() => {
+            this.verificar()
+                .catch((error: any) => logger.warn(`[Saude WhatsApp] ⚠️ Erro na verificação: ${error.message}`));
+        }, this.intervaloVerificacaoMs);
+        this.timerVerificacao.unref();
+
+        logger.info(`[Saude WhatsApp] Monitoramento iniciado (alerta após ${config.whatsapp.saudeToleranciaMinutos} min fora do ar)`);
+    }
+
+    /**
+     * Saúde da sessão do escritório, com o alerta para a extensão e o histórico recente
+     * @param usuarioId escritório; null = sessão legada
+     */
+    async obterSaude(usuarioId: string | null): Promise<SaudeWhatsApp> {
+        const estado = this.estados.get(this.chave(usuarioId));
+        const mensagensPausadas = await whatsappOutboxService.contarPausadas(usuarioId);
+        const historico = await this.listarHistorico(usuarioId);
+
+        return {
+            estado: this.classificar(estado),
+            conectadaDesde: estado?.conectada ? estado.conectadaDesde?.toISOString() || null : null,
+            uptimeSegundos: estado?.conectada && estado.conectadaDesde
+                ? Math.floor((Date.now() - estado.conectadaDesde.getTime()) / 1000)
+                : null,
+            indisponivelDesde: estado?.indisponivelDesde?.toISOString() || null,
+            motivo: estado?.motivo || null,
+            requerReconexao: estado?.requerReconexao || false,
+            ultimoEnvioEm: estado?.ultimoEnvioEm?.toISOString() || null,
+            falhasEnvioConsecutivas: estado?.falhasEnvioConsecutivas || 0,
+            mensagensPausadas,
+            alerta: estado ? this.alertaExtensao(estado, mensagensPausadas) : null,
+            historico,
+        };
+    }
+
+    async listarHistorico(usuarioId: string | null): Promise<EventoSaudeRegistrado[]> {
+        const result = await Database.query(`
+            SELECT tipo, detalhe, created_at FROM whatsapp_sessoes_eventos
+            WHERE usuario_id IS NOT DISTINCT FROM $1
+            ORDER BY created_at DESC
+            LIMIT $2
+        `, [usuarioId, this.tamanhoHistorico]);
+
+        return result.map((row: any) => ({ tipo: row.tipo, detalhe: row.detalhe, ocorridoEm: row.created_at }));
+    }
+
+    private async registrarEvento(evento: EventoSessaoWhatsApp): Promise<void> {
+        const estado = this.obterEstado(evento.usuarioId);
+
+        switch (evento.tipo) {
+            case 'CONECTADA': {
+                const estavaFora = estado.indisponivelDesde !== null;
+                const alertado = estado.alertadoEm !== null;
+
+                estado.conectada = true;
+                estado.conectadaDesde = evento.ocorridoEm;
+                estado.indisponivelDesde = null;
+                estado.motivo = null;
+                estado.requerReconexao = false;
+                estado.falhasEnvioConsecutivas = 0;
+                estado.alertadoEm = null;
+
+                await this.gravar(evento.usuarioId, 'CONECTADA', evento.detalhe);
+                if (alertado) {
+                    await this.avisarRestabelecimento(estado);
+                }
+                if (estavaFora || alertado) {
+                    logger.info(`[Saude WhatsApp] ✅ Sessão ${this.rotulo(evento.usuarioId)} de volta`);
+                }
+
+                // Mensagens pausadas enquanto a sessão estava fora voltam para a fila
+                await whatsappOutboxService.retomarPausadas();
+                return;
+            }
+
+            case 'ENVIO_OK':
+                estado.ultimoEnvioEm = evento.ocorridoEm;
+                if (estado.falhasEnvioConsecutivas >= config.whatsapp.saudeMaxFalhasEnvio && estado.alertadoEm && estado.conectada) {
+                    estado.alertadoEm = null;
+                    await this.gravar(evento.usuarioId, 'ENVIOS_NORMALIZADOS', null);
+                    await this.avisarRestabelecimento(estado);
+                }
+                estado.falhasEnvioConsecutivas = 0;
+                return;
+
+            case 'ENVIO_FALHOU':
+                estado.falhasEnvioConsecutivas++;
+                // Só a falha que atinge o limite entra no histórico e alerta
+                if (estado.falhasEnvioConsecutivas === config.whatsapp.saudeMaxFalhasEnvio) {
+                    estado.motivo = `${estado.falhasEnvioConsecutivas} envios seguidos falharam${evento.detalhe ? `: ${evento.detalhe}` : ''}`;
+                    await this.gravar(evento.usuarioId, 'FALHAS_ENVIO', estado.motivo);
+                    if (!estado.alertadoEm) {
+                        await this.alertar(estado);
+                    }
+                }
+                return;
+
+            default:
+                estado.conectada = false;
+                estado.conectadaDesde = null;
+                estado.indisponivelDesde = estado.indisponivelDesde || evento.ocorridoEm;
+                estado.motivo = `${DESCRICAO_EVENTO[evento.tipo] || evento.tipo}${evento.detalhe ? ` (${evento.detalhe})` : ''}`;
+
+                await this.gravar(evento.usuarioId, evento.tipo, evento.detalhe);
+
+                if (EVENTOS_REQUEREM_RECONEXAO.includes(evento.tipo)) {
+                    estado.requerReconexao = true;
+                    if (!estado.alertadoEm) {
+                        await this.alertar(estado);
+                    }
+                }
+        }
+    }
+
+    /**
+     * Alerta as sessões fora do ar além da tolerância e passa a acompanhar as sessões salvas
+     * que não reconectaram no startup (nenhum evento até aqui)
+     */
+    private async verificar(): Promise<void> {
+        const agora = Date.now();
+
+        for (const status of await whatsappService.listarStatus()) {
+            const chave = this.chave(status.usuarioId);
+            if (!this.estados.has(chave) && status.temSessaoSalva && !status.isReady && !status.isConnecting) {
+                const estado = this.obterEstado(status.usuarioId);
+                estado.indisponivelDesde = new Date();
+                estado.motivo = 'sessão salva não reconectou';
+            }
+        }
+
+        const toleranciaMs = config.whatsapp.saudeToleranciaMinutos * 60 * 1000;
+        for (const estado of this.estados.values()) {
+            if (estado.indisponivelDesde && !estado.alertadoEm && agora - estado.indisponivelDesde.getTime() >= toleranciaMs) {
+                await this.alertar(estado);
+            }
+        }
+    }
+
+    /**
+     * E-mail para o escritório (e para o admin, se for a sessão central ou legada)
+     * O WhatsApp fora do ar não serve de canal: só e-mail
+     */
+    private async alertar(estado: EstadoSessao): Promise<void> {
+        estado.alertadoEm = new Date();
+
+        const mensagensPausadas = await whatsappOutboxService.contarPausadas(estado.usuarioId);
+        const desde = (estado.indisponivelDesde || estado.alertadoEm).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+        const instavel = estado.conectada;
+        const nome = await this.nomeEscritorio(estado.usuarioId);
+
+        logger.error(`[Saude WhatsApp] 🚨 Sessão ${this.rotulo(estado.usuarioId)} ${instavel ? 'instável' : 'fora do ar'}: ${estado.motivo}`);
+
+        const mensagem = [
+            instavel
+                ? `O WhatsApp do escritório *${nome}* está conectado, mas as mensagens não estão saindo.`
+                : `O WhatsApp do escritório *${nome}* está desconectado desde ${desde}.`,
+            '',
+            `Motivo: ${estado.motivo || 'não informado'}`,
+            `Mensagens aguardando envio: ${mensagensPausadas}`,
+            '',
+            estado.requerReconexao
+                ? 'Para reconectar, abra a extensão no PAT, vá em Configurações de Notificações WhatsApp, clique em "Reiniciar WhatsApp" e escaneie o QR Code.'
+                : 'O sistema continua tentando reconectar. Se não voltar, abra a extensão no PAT e clique em "Reiniciar WhatsApp" nas Configurações de Notificações WhatsApp.',
+            'As mensagens pendentes serão enviadas automaticamente quando a conexão voltar.',
+        ].join('\n');
+
+        const destinos = await this.enviarEmail(estado.usuarioId, nome, `⚠️ WhatsApp ${instavel ? 'com falhas de envio' : 'desconectado'} - ${nome}`, mensagem);
+        await this.gravar(estado.usuarioId, 'ALERTA_ENVIADO', destinos.length > 0 ? destinos.join(', ') : 'sem e-mail configurado');
+    }
+
+    private async avisarRestabelecimento(estado: EstadoSessao): Promise<void> {
+        const nome = await this.nomeEscritorio(estado.usuarioId);
+        await this.enviarEmail(
+            estado.usuarioId,
+            nome,
+            `✅ WhatsApp restabelecido - ${nome}`,
+            `O WhatsApp do escritório *${nome}* voltou a funcionar. As mensagens pendentes estão sendo enviadas.`
+        );
+    }
+
+    /**
+     * @returns e-mails que receberam o alerta
+     */
+    private async enviarEmail(usuarioId: string | null, nome: string, assunto: string, mensagem: string): Promise<string[]> {
+        const contatos = await this.contatosAlerta(usuarioId, nome);
+        const destinos: string[] = [];
+
+        for (const contato of contatos) {
+            try {
+                await canaisNotificacaoService.enviar(contato, {
+                    assunto,
+                    mensagem,
+                    origem: 'alerta',
+                    tipo: 'ALERTA_WHATSAPP',
+                });
+                destinos.push(contato.email!);
+            } catch (error: any) {
+                logger.warn(`[Saude WhatsApp] ⚠️ Erro ao enviar alerta para ${contato.email}: ${error.message}`);
+            }
+        }
+
+        return destinos;
+    }
+
+    /**
+     * E-mail do escritório; a sessão central ou legada também avisa ALERTAS_EMAIL_ADMIN
+     * Contatos sem telefone: o canal de e-mail é o único possível
+     */
+    private async contatosAlerta(usuarioId: string | null, nome: string): Promise<ContatoNotificacao[]> {
+        const emails = new Set<string>();
+
+        if (usuarioId) {
+            const result = await Database.query('SELECT email FROM usuarios_extensao WHERE id = $1', [usuarioId]);
+            if (result[0]?.email) emails.add(result[0].email);
+        }
+
+        const sessaoDoSistema = !usuarioId || usuarioId === config.whatsapp.usuarioCentral;
+        if (sessaoDoSistema && config.alertas.emailAdmin) {
+            emails.add(config.alertas.emailAdmin);
+        }
+
+        return Array.from(emails).map(email => ({ tipo: 'ESCRITORIO' as const, nome, canal: 'email' as const, email }));
+    }
+
+    private alertaExtensao(estado: EstadoSessao, mensagensPausadas: number): AlertaSaudeWhatsApp | null {
+        const pendentes = mensagensPausadas > 0 ? ` ${mensagensPausadas} mensagem(ns) aguardando envio.` : '';
+
+        if (!estado.conectada && estado.indisponivelDesde) {
+            const minutosFora = (Date.now() - estado.indisponivelDesde.getTime()) / 60000;
+            if (!estado.requerReconexao && minutosFora < config.whatsapp.saudeToleranciaMinutos) {
+                return null;
+            }
+
+            return {
+                nivel: 'erro',
+                mensagem: estado.requerReconexao
+                    ? `WhatsApp desconectado (${estado.motivo}). Reinicie o WhatsApp e escaneie o QR Code.${pendentes}`
+                    : `WhatsApp fora do ar (${estado.motivo}).${pendentes}`,
+                desde: estado.indisponivelDesde.toISOString(),
+            };
+        }
+
+        if (estado.conectada && estado.falhasEnvioConsecutivas >= config.whatsapp.saudeMaxFalhasEnvio) {
+            return {
+                nivel: 'aviso',
+                mensagem: `WhatsApp conectado, mas ${estado.falhasEnvioConsecutivas} envios seguidos falharam.${pendentes}`,
+                desde: (estado.alertadoEm || new Date()).toISOString(),
+            };
+        }
+
+        return null;
+    }
+
+    private classificar(estado: EstadoSessao | undefined): EstadoSaudeWhatsApp {
+        if (!estado) return 'DESCONHECIDA';
+        if (!estado.conectada) return estado.indisponivelDesde ? 'DESCONECTADA' : 'DESCONHECIDA';
+        return estado.falhasEnvioConsecutivas >= config.whatsapp.saudeMaxFalhasEnvio ? 'INSTAVEL' : 'CONECTADA';
+    }
+
+    private obterEstado(usuarioId: string | null): EstadoSessao {
+        const chave = this.chave(usuarioId);
+        let estado = this.estados.get(chave);
+        if (!estado) {
+            estado = {
+                usuarioId,
+                conectada: false,
+                conectadaDesde: null,
+                indisponivelDesde: null,
+                motivo: null,
+                requerReconexao: false,
+                ultimoEnvioEm: null,
+                falhasEnvioConsecutivas: 0,
+                alertadoEm: null,
+            };
+            this.estados.set(chave, estado);
+        }
+        return estado;
+    }
+
+    private async gravar(usuarioId: string | null, tipo: string, detalhe: string | null): Promise<void> {
+        await Database.query(
+            'INSERT INTO whatsapp_sessoes_eventos (usuario_id, tipo, detalhe) VALUES ($1, $2, $3)',
+            [usuarioId, tipo, detalhe]
+        );
+    }
+
+    private async nomeEscritorio(usuarioId: string | null): Promise<string> {
+        if (!usuarioId) return 'Central';
+        const result = await Database.query('SELECT nome FROM usuarios_extensao WHERE id = $1', [usuarioId]);
+        return result[0]?.nome || 'Escritório';
+    }
+
+    private chave(usuarioId: string | null): string {
+        return usuarioId || 'legada';
+    }
+
+    private rotulo(usuarioId: string | null): string {
+        return usuarioId ? usuarioId.substring(0, 8) : 'legada';
+    }
+}
+
+export default new SaudeWhatsAppService();
@@ -0,0 +1,330 @@
+/**
+ * Serviço de Seletores do PAT
+ *
+ * Resolve os campos lógicos do registro (utils/seletoresPat.ts) na página do Puppeteer,
+ * registra qual estratégia funcionou e alerta o admin quando a estratégia principal de
+ * um campo para de funcionar (drift do DOM do PAT). As estratégias podem ser substituídas
+ * por campo na tabela seletores_pat, sem redeploy (cache de 1 minuto).
+ */
+
+import { ElementHandle, Page } from 'puppeteer';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import auditLogger from '../utils/auditLogger';
+import whatsappOutboxService from './WhatsAppOutboxService';
+import {
+    CAMPOS_SELETORES_PAT,
+    EstrategiaSeletor,
+    SELETORES_PAT_PADRAO,
+    resolverSeletorNoNavegador,
+    validarEstrategias,
+} from '../utils/seletoresPat';
+
+export interface SeletorPatConfigurado {
+    campo: string;
+    descricao: string;
+    obrigatorio: boolean;
+    estrategias: EstrategiaSeletor[];
+    personalizado: boolean; // true = estratégias vindas do banco
+    padrao: EstrategiaSeletor[];
+    ultimaEstrategia: number | null;
+    ultimoMatchEm: Date | null;
+    primarioFalhouEm: Date | null;
+    alertadoEm: Date | null;
+    usosPorEstrategia: number[]; // desde que o processo subiu
+    semMatch: number;
+}
+
+interface EstadoSeletor {
+    ultimaEstrategia: number | null;
+    alertado: boolean;
+}
+
+const COLUNAS = `
+    campo, estrategias, ultima_estrategia, ultimo_match_em, primario_falhou_em,
+    alertado_em, atualizado_por, created_at, updated_at
+`;
+
+export class SeletoresPatService {
+    private cache: Map<string, any> | null = null;
+    private cacheTimestamp = 0;
+    private cacheTTL = 60 * 1000; // 1 minuto
+
+    private estados = new Map<string, EstadoSeletor>();
+    private usos = new Map<string, { porEstrategia: number[]; semMatch: number }>();
+
+    /**
+     * Primeiro elemento do campo (null se nenhuma estratégia encontrar)
+     */
+    async localizar(page: Page, campo: string): Promise<ElementHandle<Element> | null> {
+        const elementos = await this.resolver(page, campo, false);
+        return elementos[0] || null;
+    }
+
+    /**
+     * Todos os elementos do campo, usando a primeira estratégia que encontrar algum
+     */
+    async localizarTodos(page: Page, campo: string): Promise<ElementHandle<Element>[]> {
+        return this.resolver(page, campo, true);
+    }
+
+    /**
+     * Texto (trim) do primeiro elemento do campo; '' se não encontrado
+     */
+    async lerTexto(page: Page, campo: string): Promise<string> {
+        const elemento = await this.localizar(page, campo);
+        if (!elemento) return '';
+
+        const texto = await elemento.evaluate(el => el.textContent?.trim() || '');
+        await elemento.dispose();
+        return texto;
+    }
+
+    async obterEstrategias(campo: string): Promise<EstrategiaSeletor[]> {
+        const padrao = SELETORES_PAT_PADRAO[campo];
+        if (!padrao) {
+            throw new Error(`Campo de seletor desconhecido: ${campo}`);
+        }
+
+        const personalizados = await this.carregarPersonalizados();
+        return personalizados.get(campo)?.estrategias || padrao.estrategias;
+    }
+
+    private async resolver(page: Page, campo: string, todos: boolean): Promise<ElementHandle<Element>[]> {
+        const estrategias = await this.obterEstrategias(campo);
+
+        const resultado = await page.evaluateHandle(resolverSeletorNoNavegador, estrategias, todos);
+        const indice = await (await resultado.getProperty('indice')).jsonValue() as number;
+        const lista = await resultado.getProperty('elementos');
+        const propriedades = await lista.getProperties();
+        await resultado.dispose();
+
+        const elementos = Array.from(propriedades.values())
+            .map(handle => handle.asElement() as ElementHandle<Element> | null)
+            .filter((handle): handle is ElementHandle<Element> => handle !== null);
+
+        await this.registrarResultado(campo, indice, estrategias);
+        return elementos;
+    }
+
+    /**
+     * Contabiliza a estratégia usada e grava no banco só quando ela muda (evita um UPDATE por protocolo)
+     */
+    private async registrarResultado(campo: string, indice: number, estrategias: EstrategiaSeletor[]): Promise<void> {
+        const uso = this.usos.get(campo) || { porEstrategia: [], semMatch: 0 };
+        if (indice >= 0) {
+            uso.porEstrategia[indice] = (uso.porEstrategia[indice] || 0) + 1;
+        } else {
+            uso.semMatch++;
+        }
+        this.usos.set(campo, uso);
+
+        // Campo opcional sem match = elemento ausente na página (ex.: protocolo sem perícia), não é drift
+        if (indice === -1 && !SELETORES_PAT_PADRAO[campo].obrigatorio) {
+            return;
+        }
+
+        const estado = await this.obterEstado(campo);
+        if (estado.ultimaEstrategia === indice) {
+            return;
+        }
+        estado.ultimaEstrategia = indice;
+
+        try {
+            if (indice === 0) {
+                if (estado.alertado) {
+                    logger.info(`[SeletoresPat] ✅ Seletor principal de "${campo}" voltou a funcionar`);
+                }
+                estado.alertado = false;
+                await Database.query(`
+                    INSERT INTO seletores_pat (campo, ultima_estrategia, ultimo_match_em)
+                    VALUES ($1, 0, NOW())
+                    ON CONFLICT (campo) DO UPDATE SET
+                        ultima_estrategia = 0, ultimo_match_em = NOW(), primario_falhou_em = NULL, alertado_em = NULL
+                `, [campo]);
+                return;
+            }
+
+            await Database.query(`
+                INSERT INTO seletores_pat (campo, ultima_estrategia, ultimo_match_em, primario_falhou_em)
+                VALUES ($1, $2, CASE WHEN $2 >= 0 THEN NOW() END, NOW())
+                ON CONFLICT (campo) DO UPDATE SET
+                    ultima_estrategia = $2,
+                    ultimo_match_em = COALESCE(CASE WHEN $2 >= 0 THEN NOW() END, seletores_pat.ultimo_match_em),
+                    primario_falhou_em = COALESCE(seletores_pat.primario_falhou_em, NOW())
+            `, [campo, indice]);
+        } catch (error: any) {
+            logger.warn(`[SeletoresPat] ⚠️ Erro ao registrar estratégia de "${campo}": ${error.message}`);
+        }
+
+        if (!estado.alertado) {
+            estado.alertado = true;
+            await this.alertarDrift(campo, indice, estrategias);
+        }
+    }
+
+    private async obterEstado(campo: string): Promise<EstadoSeletor> {
+        let estado = this.estados.get(campo);
+        if (!estado) {
+            const personalizados = await this.carregarPersonalizados();
+            const row = personalizados.get(campo)?.row;
+            estado = {
+                ultimaEstrategia: row?.ultima_estrategia ?? null,
+                alertado: !!row?.alertado_em,
+            };
+            this.estados.set(campo, estado);
+        }
+        return estado;
+    }
+
+    /**
+     * Alerta o admin: log de erro, auditoria e WhatsApp (ALERTAS_WHATSAPP_ADMIN), uma vez por ocorrência
+     */
+    private async alertarDrift(campo: string, indice: number, estrategias: EstrategiaSeletor[]): Promise<void> {
+        const principal = estrategias[0];
+        const descricao = indice >= 0
+            ? `fallback #${indice} (${estrategias[indice].tipo}) assumiu`
+            : 'nenhuma estratégia encontrou o elemento';
+
+        logger.error(`[SeletoresPat] 🚨 Seletor principal de "${campo}" parou de funcionar: ${descricao}`);
+        auditLogger.logAdmin('SELETOR_PAT_DRIFT', undefined, undefined, { campo, indice, principal });
+
+        try {
+            await Database.query('UPDATE seletores_pat SET alertado_em = NOW() WHERE campo = $1', [campo]);
+        } catch (error: any) {
+            logger.warn(`[SeletoresPat] ⚠️ Erro ao marcar alerta de "${campo}": ${error.message}`);
+        }
+
+        const telefone = config.alertas.whatsappAdmin;
+        if (!telefone) {
+            return;
+        }
+
+        const mensagem = [
+            '🚨 *PAT mudou o layout*',
+            '',
+            `Campo: ${campo} (${SELETORES_PAT_PADRAO[campo].descricao})`,
+            `Situação: ${descricao}`,
+            `Seletor principal: ${principal.tipo} ${principal.valor}`,
+            '',
+            'Revise os seletores em /api/v1/seletores-pat.',
+        ].join('\n');
+
+        try {
+            await whatsappOutboxService.enfileirar({ telefone, mensagem, origem: 'alerta', tipo: 'ALERTA_SELETOR_PAT' });
+        } catch (error: any) {
+            logger.warn(`[SeletoresPat] ⚠️ Erro ao enfileirar alerta por WhatsApp: ${error.message}`);
+        }
+    }
+
+    /**
+     * Linhas da tabela seletores_pat (estratégias personalizadas e estado de drift)
+     * Sem banco, os padrões do código continuam valendo
+     */
+    private async carregarPersonalizados(): Promise<Map<string, { estrategias: EstrategiaSeletor[] | null; row: any }>> {
+        if (this.cache && Date.now() - this.cacheTimestamp < this.cacheTTL) {
+            return this.cache;
+        }
+
+        const mapa = new Map<string, { estrategias: EstrategiaSeletor[] | null; row: any }>();
+        try {
+            const rows = await Database.query(`SELECT ${COLUNAS} FROM seletores_pat`);
+            for (const row of rows) {
+                const estrategias = row.estrategias && validarEstrategias(row.estrategias).length === 0
+                    ? row.estrategias as EstrategiaSeletor[]
+                    : null;
+                mapa.set(row.campo, { estrategias, row });
+            }
+        } catch (error: any) {
+            logger.warn(`[SeletoresPat] ⚠️ Erro ao carregar seletores do banco (usando padrões): ${error.message}`);
+        }
+
+        this.cache = mapa;
+        this.cacheTimestamp = Date.now();
+        return mapa;
+    }
+
+    async listar(): Promise<SeletorPatConfigurado[]> {
+        this.limparCache();
+        const personalizados = await this.carregarPersonalizados();
+
+        return CAMPOS_SELETORES_PAT.map(campo => {
+            const padrao = SELETORES_PAT_PADRAO[campo];
+            const personalizado = personalizados.get(campo);
+            const row = personalizado?.row;
+            const uso = this.usos.get(campo);
+
+            return {
+                campo,
+                descricao: padrao.descricao,
+                obrigatorio: padrao.obrigatorio,
+                estrategias: personalizado?.estrategias || padrao.estrategias,
+                personalizado: !!personalizado?.estrategias,
+                padrao: padrao.estrategias,
+                ultimaEstrategia: row?.ultima_estrategia ?? null,
+                ultimoMatchEm: row?.ultimo_match_em ?? null,
+                primarioFalhouEm: row?.primario_falhou_em ?? null,
+                alertadoEm: row?.alertado_em ?? null,
+                usosPorEstrategia: uso ? Array.from(uso.porEstrategia, n => n || 0) : [],
+                semMatch: uso?.semMatch || 0,
+            };
+        });
+    }
+
+    /**
+     * Substitui as estratégias de um campo (a ordem define a principal)
+     */
+    async atualizar(campo: string, estrategias: EstrategiaSeletor[], usuarioId?: string): Promise<void> {
+        await Database.query(`
+            INSERT INTO seletores_pat (campo, estrategias, atualizado_por, updated_at)
+            VALUES ($1, $2, $3, NOW())
+            ON CONFLICT (campo) DO UPDATE SET
+                estrategias = $2, atualizado_por = $3, updated_at = NOW(),
+                ultima_estrategia = NULL, primario_falhou_em = NULL, alertado_em = NULL
+        `, [campo, JSON.stringify(estrategias), usuarioId || null]);
+
+        this.estados.delete(campo);
+        this.usos.delete(campo);
+        this.limparCache();
+        logger.info(`[SeletoresPat] ✏️ Estratégias de "${campo}" atualizadas (${estrategias.length})`);
+    }
+
+    /**
+     * Volta o campo para as estratégias padrão do código
+     */
+    async restaurarPadrao(campo: string, usuarioId?: string): Promise<void> {
+        await Database.query(`
+            UPDATE seletores_pat
+            SET estrategias = NULL, atualizado_por = $2, updated_at = NOW(),
+                ultima_estrategia = NULL, primario_falhou_em = NULL, alertado_em = NULL
+            WHERE campo = $1
+        `, [campo, usuarioId || null]);
+
+        this.estados.delete(campo);
+        this.usos.delete(campo);
+        this.limparCache();
+    }
+
+    campoExiste(campo: string): boolean {
+        return CAMPOS_SELETORES_PAT.includes(campo);
+    }
+
+    validar(estrategias: unknown): string[] {
+        return validarEstrategias(estrategias);
+    }
+
+    /**
+     * Uso das estratégias desde que o processo subiu (usado pelos testes de fixtures)
+     */
+    obterUso(): Record<string, { porEstrategia: number[]; semMatch: number }> {
+        return Object.fromEntries(this.usos);
+    }
+
+    limparCache(): void {
+        this.cache = null;
+        this.cacheTimestamp = 0;
+    }
+}
+
+export default new SeletoresPatService();
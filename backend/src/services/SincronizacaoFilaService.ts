@@ -0,0 +1,576 @@
+/**
+ * Fila durável de sincronização INSS
+ *
+ * Jobs e protocolos ficam no Postgres (sincronizacao_jobs / sincronizacao_itens):
+ * - lease: o processo que executa o job renova o lease; lease vencido = job órfão, volta para a fila
+ * - retomada: protocolos já processados não são repetidos quando o job é retomado
+ * - retentativas com backoff exponencial por protocolo e por job
+ * - no máximo um job rodando por conta do PAT (CPF do login; índice único parcial + SKIP LOCKED)
+ * - o token do PAT fica cifrado no banco (CofreCredenciaisService)
+ * - além da sincronização, a conferência de comparecimento (ComparecimentoAgendamentosService) e o
+ *   dry-run do worker INSS pedido pelo painel admin rodam como jobs
+ */
+
+import Database from '../database';
+import logger from '../utils/logger';
+import cofreCredenciaisService from './CofreCredenciaisService';
+import { EfeitoSimulado, RelatorioSimulacaoProtocolo } from './simulacao';
+import type { ResumoComparecimento } from './ComparecimentoAgendamentosService';
+
+const CONTEXTO_TOKEN_PAT = 'sincronizacao_jobs.token_pat';
+
+export type StatusJobSincronizacao = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type TipoJobSincronizacao = 'sincronizacao' | 'comparecimento' | 'worker';
+
+/** Conta do PAT dos jobs 'worker': o InssWorker entra com o login do .env */
+export const CONTA_PAT_WORKER = 'inss-worker';
+
+export interface ProgressoSincronizacao {
+    total: number;
+    processados: number;
+    sucesso: number;
+    erros: number;
+}
+
+export interface ResultadoSincronizacao {
+    protocolosProcessados: number;
+    clientesCriados: number;
+    clientesAtualizados: number;
+    notificacoesEnviadas: number;
+    erros: string[];
+    protocolosComErro?: string[];
+    /** Dry-run: o que teria sido feito em cada protocolo */
+    simulacao?: RelatorioSimulacaoProtocolo[];
+}
+
+/**
+ * Job 'worker': relatório do dry-run do InssWorker por protocolo
+ */
+export interface ResultadoWorker {
+    protocolos: RelatorioSimulacaoProtocolo[];
+}
+
+export interface ResultadoProtocolo {
+    clienteCriado?: boolean;
+    clienteAtualizado?: boolean;
+    notificacaoEnviada?: boolean;
+    simulacao?: EfeitoSimulado[];
+}
+
+/**
+ * Status do job como é devolvido em /inss/status/:jobId
+ */
+export interface JobSincronizacao {
+    jobId: string;
+    tipo: TipoJobSincronizacao;
+    status: StatusJobSincronizacao;
+    dryRun: boolean;
+    progress?: ProgressoSincronizacao;
+    resultado?: ResultadoSincronizacao;
+    /** Job de conferência de comparecimento: contagem do que foi conferido */
+    comparecimento?: ResumoComparecimento;
+    /** Job do worker INSS (painel admin): relatório do dry-run */
+    worker?: ResultadoWorker;
+    erro?: string;
+    dataInicio?: string;
+    dataFim?: string;
+    iniciadoEm?: Date;
+    finalizadoEm?: Date;
+    tentativas: number;
+    proximaTentativaEm?: Date;
+    cancelamentoSolicitado: boolean;
+    protocoloAtual?: string;
+}
+
+/**
+ * Job adquirido por um processo para execução
+ */
+export interface JobAdquirido {
+    id: string;
+    tipo: TipoJobSincronizacao;
+    /** null nos jobs 'worker' */
+    usuarioId: string | null;
+    tokenPat: string;
+    dataInicio: Date;
+    dataFim: Date;
+    tentativas: number;
+    dryRun: boolean;
+}
+
+export class SincronizacaoFilaService {
+    // Lease do job: renovado a cada terço deste tempo enquanto o processo estiver vivo
+    readonly LEASE_SEGUNDOS = 120;
+    // Backoff = base * 2^(tentativa - 1)
+    private readonly BACKOFF_BASE_SEGUNDOS = 30;
+    // Tentativas por protocolo (a extração já faz 10 tentativas internas em cada uma)
+    private readonly MAX_TENTATIVAS_PROTOCOLO = 2;
+
+    /**
+     * Job pendente ou em execução do usuário (usado para evitar jobs duplicados)
+     * @param usuarioId null para os jobs 'worker'
+     */
+    async buscarJobAtivo(
+        usuarioId: string | null,
+        tipo: TipoJobSincronizacao = 'sincronizacao'
+    ): Promise<{ id: string; status: StatusJobSincronizacao } | null> {
+        const result = await Database.query(
+            `SELECT id, status FROM sincronizacao_jobs
+             WHERE usuario_id IS NOT DISTINCT FROM $1 AND tipo = $2 AND status IN ('pending', 'running')
+             ORDER BY created_at ASC
+             LIMIT 1`,
+            [usuarioId, tipo]
+        );
+        return result[0] || null;
+    }
+
+    /**
+     * Conta do PAT do usuário: o CPF do login (escritórios com o mesmo login dividem a sessão)
+     * ou, sem ele, o próprio usuário
+     */
+    async contaPatDoUsuario(usuarioId: string): Promise<string> {
+        const result = await Database.query(
+            'SELECT conta_pat FROM usuarios_extensao WHERE id = $1',
+            [usuarioId]
+        );
+        return result[0]?.conta_pat || usuarioId;
+    }
+
+    /**
+     * @param dados.tokenPat vazio nos jobs 'worker' (o login do PAT vem do .env)
+     */
+    async criarJob(dados: {
+        usuarioId: string | null;
+        contaPat: string;
+        tokenPat: string;
+        dataInicio: Date;
+        dataFim: Date;
+        forcarExecucao: boolean;
+        dryRun?: boolean;
+        tipo?: TipoJobSincronizacao;
+    }): Promise<string> {
+        const tipo = dados.tipo || 'sincronizacao';
+        const result = await Database.query(`
+            INSERT INTO sincronizacao_jobs (usuario_id, conta_pat, token_pat, data_inicio, data_fim, forcar_execucao, progresso, dry_run, tipo)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING id
+        `, [
+            dados.usuarioId,
+            dados.contaPat,
+            dados.tokenPat ? cofreCredenciaisService.cifrarTexto(dados.tokenPat, CONTEXTO_TOKEN_PAT) : '',
+            dados.dataInicio,
+            dados.dataFim,
+            dados.forcarExecucao,
+            JSON.stringify({ total: 0, processados: 0, sucesso: 0, erros: 0 }),
+            dados.dryRun === true,
+            tipo,
+        ]);
+
+        logger.info(`[Fila INSS] ➕ Job ${result[0].id} enfileirado${tipo !== 'sincronizacao' ? ` (${tipo})` : ''}${dados.dryRun ? ' (dry-run)' : ''}`);
+        return result[0].id;
+    }
+
+    /**
+     * @param usuarioId dono do job; informado, o job de outro usuário volta como null
+     */
+    async obterJob(jobId: string, usuarioId?: string): Promise<JobSincronizacao | null> {
+        const result = await Database.query(`
+            SELECT j.*,
+                (SELECT protocolo FROM sincronizacao_itens i
+                 WHERE i.job_id = j.id AND i.status = 'running'
+                 ORDER BY i.updated_at DESC LIMIT 1) AS protocolo_atual
+            FROM sincronizacao_jobs j
+            WHERE j.id = $1${usuarioId !== undefined ? ' AND j.usuario_id = $2' : ''}
+        `, usuarioId !== undefined ? [jobId, usuarioId] : [jobId]);
+
+        if (result.length === 0) {
+            return null;
+        }
+
+        const row = result[0];
+        return {
+            jobId: row.id,
+            tipo: row.tipo,
+            status: row.status,
+            dryRun: row.dry_run,
+            progress: row.progresso || undefined,
+            resultado: row.tipo === 'sincronizacao' ? row.resultado || undefined : undefined,
+            comparecimento: row.tipo === 'comparecimento' ? row.resultado || undefined : undefined,
+            worker: row.tipo === 'worker' ? row.resultado || undefined : undefined,
+            erro: row.erro || undefined,
+            dataInicio: new Date(row.data_inicio).toISOString(),
+            dataFim: new Date(row.data_fim).toISOString(),
+            iniciadoEm: row.iniciado_em || undefined,
+            finalizadoEm: row.finalizado_em || undefined,
+            tentativas: row.tentativas,
+            proximaTentativaEm: row.proxima_tentativa_em || undefined,
+            cancelamentoSolicitado: row.cancelamento_solicitado,
+            protocoloAtual: row.protocolo_atual || undefined,
+        };
+    }
+
+    /**
+     * Devolve para a fila os jobs cujo processo morreu (lease vencido)
+     * O protocolo que estava em execução volta para pending e será refeito
+     */
+    async recuperarJobsOrfaos(): Promise<number> {
+        const jobs = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET status = 'pending', lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE status = 'running' AND lease_ate < NOW()
+            RETURNING id
+        `);
+
+        if (jobs.length === 0) {
+            return 0;
+        }
+
+        const ids = jobs.map((job: any) => job.id);
+        await Database.query(`
+            UPDATE sincronizacao_itens SET status = 'pending', updated_at = NOW()
+            WHERE job_id = ANY($1::uuid[]) AND status = 'running'
+        `, [ids]);
+
+        for (const id of ids) {
+            logger.warn(`[Fila INSS] 🧹 Job ${id} sem lease ativo (processo reiniciado?). Será retomado do último protocolo.`);
+        }
+        return ids.length;
+    }
+
+    /**
+     * Adquire o próximo job pendente cuja conta do PAT não tenha outro job rodando
+     * @returns null se não houver job disponível
+     */
+    async adquirirProximoJob(dono: string): Promise<JobAdquirido | null> {
+        try {
+            const result = await Database.query(`
+                UPDATE sincronizacao_jobs
+                SET status = 'running',
+                    lease_dono = $1,
+                    lease_ate = NOW() + make_interval(secs => $2),
+                    tentativas = tentativas + 1,
+                    proxima_tentativa_em = NULL,
+                    iniciado_em = COALESCE(iniciado_em, NOW()),
+                    updated_at = NOW()
+                WHERE id = (
+                    SELECT j.id FROM sincronizacao_jobs j
+                    WHERE j.status = 'pending'
+                      AND (j.proxima_tentativa_em IS NULL OR j.proxima_tentativa_em <= NOW())
+                      AND NOT EXISTS (
+                          SELECT 1 FROM sincronizacao_jobs r
+                          WHERE r.conta_pat = j.conta_pat AND r.status = 'running'
+                      )
+                    ORDER BY j.created_at ASC
+                    LIMIT 1
+                    FOR UPDATE SKIP LOCKED
+                )
+                RETURNING id, tipo, usuario_id, token_pat, data_inicio, data_fim, tentativas, dry_run
+            `, [dono, this.LEASE_SEGUNDOS]);
+
+            if (result.length === 0) {
+                return null;
+            }
+
+            const row = result[0];
+            logger.info(`[Fila INSS] ▶️ Job ${row.id} adquirido por ${dono} (execução ${row.tentativas})`);
+            return {
+                id: row.id,
+                tipo: row.tipo,
+                usuarioId: row.usuario_id,
+                tokenPat: cofreCredenciaisService.decifrarTexto(row.token_pat, CONTEXTO_TOKEN_PAT),
+                dataInicio: new Date(row.data_inicio),
+                dataFim: new Date(row.data_fim),
+                tentativas: row.tentativas,
+                dryRun: row.dry_run,
+            };
+        } catch (error: any) {
+            // Outro processo iniciou um job da mesma conta ao mesmo tempo (índice único)
+            if (error.code === '23505') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Renova o lease do job
+     * @returns false se o job não pertence mais a este processo
+     */
+    async renovarLease(jobId: string, dono: string): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET lease_ate = NOW() + make_interval(secs => $3), updated_at = NOW()
+            WHERE id = $1 AND lease_dono = $2 AND status = 'running'
+            RETURNING id
+        `, [jobId, dono, this.LEASE_SEGUNDOS]);
+        return result.length > 0;
+    }
+
+    async cancelamentoSolicitado(jobId: string): Promise<boolean> {
+        const result = await Database.query(
+            'SELECT cancelamento_solicitado FROM sincronizacao_jobs WHERE id = $1',
+            [jobId]
+        );
+        return result[0]?.cancelamento_solicitado === true;
+    }
+
+    /**
+     * Protocolos já registrados no job (retomada: não coleta de novo)
+     */
+    async contarProtocolos(jobId: string): Promise<number> {
+        const result = await Database.query(
+            'SELECT COUNT(*) AS total FROM sincronizacao_itens WHERE job_id = $1',
+            [jobId]
+        );
+        return parseInt(result[0].total, 10);
+    }
+
+    async registrarProtocolos(jobId: string, protocolos: string[]): Promise<void> {
+        await Database.query(`
+            INSERT INTO sincronizacao_itens (job_id, protocolo, ordem)
+            SELECT $1::uuid, protocolo, ordem FROM unnest($2::text[]) WITH ORDINALITY AS t(protocolo, ordem)
+            ON CONFLICT (job_id, protocolo) DO NOTHING
+        `, [jobId, protocolos]);
+    }
+
+    /**
+     * Marca o próximo protocolo pendente como em execução
+     * @returns null se não houver protocolo disponível agora (ver segundosAteProximoProtocolo)
+     */
+    async proximoProtocolo(jobId: string): Promise<{ protocolo: string; tentativa: number } | null> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_itens
+            SET status = 'running', tentativas = tentativas + 1, updated_at = NOW()
+            WHERE id = (
+                SELECT id FROM sincronizacao_itens
+                WHERE job_id = $1 AND status = 'pending'
+                  AND (proxima_tentativa_em IS NULL OR proxima_tentativa_em <= NOW())
+                ORDER BY ordem ASC
+                LIMIT 1
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING protocolo, tentativas
+        `, [jobId]);
+
+        return result[0] ? { protocolo: result[0].protocolo, tentativa: result[0].tentativas } : null;
+    }
+
+    /**
+     * Segundos até o próximo protocolo em backoff ficar disponível
+     * @returns null se não houver mais protocolos pendentes
+     */
+    async segundosAteProximoProtocolo(jobId: string): Promise<number | null> {
+        const result = await Database.query(`
+            SELECT COUNT(*) AS pendentes,
+                   EXTRACT(EPOCH FROM MIN(proxima_tentativa_em) - NOW()) AS segundos
+            FROM sincronizacao_itens
+            WHERE job_id = $1 AND status = 'pending'
+        `, [jobId]);
+
+        if (parseInt(result[0].pendentes, 10) === 0) {
+            return null;
+        }
+        return Math.max(0, Math.ceil(parseFloat(result[0].segundos) || 0));
+    }
+
+    async concluirProtocolo(
+        jobId: string,
+        protocolo: string,
+        status: 'done' | 'skipped',
+        resultado?: ResultadoProtocolo
+    ): Promise<void> {
+        await Database.query(`
+            UPDATE sincronizacao_itens
+            SET status = $3, resultado = $4, ultimo_erro = NULL, processado_em = NOW(), updated_at = NOW()
+            WHERE job_id = $1 AND protocolo = $2
+        `, [jobId, protocolo, status, resultado ? JSON.stringify(resultado) : null]);
+    }
+
+    /**
+     * Registra falha no protocolo; reagenda com backoff enquanto houver tentativas
+     * @returns true se o protocolo será tentado de novo
+     */
+    async falharProtocolo(jobId: string, protocolo: string, erro: string): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_itens
+            SET status = CASE WHEN tentativas < $3 THEN 'pending' ELSE 'failed' END,
+                proxima_tentativa_em = CASE
+                    WHEN tentativas < $3 THEN NOW() + make_interval(secs => $4 * power(2, tentativas - 1))
+                    ELSE NULL
+                END,
+                processado_em = CASE WHEN tentativas < $3 THEN NULL ELSE NOW() END,
+                ultimo_erro = $5,
+                updated_at = NOW()
+            WHERE job_id = $1 AND protocolo = $2
+            RETURNING status
+        `, [jobId, protocolo, this.MAX_TENTATIVAS_PROTOCOLO, this.BACKOFF_BASE_SEGUNDOS, erro]);
+
+        return result[0]?.status === 'pending';
+    }
+
+    /**
+     * Recalcula o progresso a partir dos protocolos e grava no job
+     */
+    async atualizarProgresso(jobId: string): Promise<ProgressoSincronizacao> {
+        const result = await Database.query(`
+            SELECT
+                COUNT(*) AS total,
+                COUNT(*) FILTER (WHERE status IN ('done', 'skipped', 'failed')) AS processados,
+                COUNT(*) FILTER (WHERE status IN ('done', 'skipped')) AS sucesso,
+                COUNT(*) FILTER (WHERE status = 'failed') AS erros
+            FROM sincronizacao_itens
+            WHERE job_id = $1
+        `, [jobId]);
+
+        const progresso: ProgressoSincronizacao = {
+            total: parseInt(result[0].total, 10),
+            processados: parseInt(result[0].processados, 10),
+            sucesso: parseInt(result[0].sucesso, 10),
+            erros: parseInt(result[0].erros, 10),
+        };
+
+        await this.gravarProgresso(jobId, progresso);
+        return progresso;
+    }
+
+    async gravarProgresso(jobId: string, progresso: ProgressoSincronizacao): Promise<void> {
+        await Database.query(
+            'UPDATE sincronizacao_jobs SET progresso = $2, updated_at = NOW() WHERE id = $1',
+            [jobId, JSON.stringify(progresso)]
+        );
+    }
+
+    /**
+     * Consolida o resultado do job a partir dos protocolos (inclui execuções anteriores à retomada)
+     */
+    async consolidarResultado(jobId: string): Promise<ResultadoSincronizacao> {
+        const itens = await Database.query(
+            'SELECT protocolo, status, resultado, ultimo_erro FROM sincronizacao_itens WHERE job_id = $1 ORDER BY ordem',
+            [jobId]
+        );
+
+        const falhos = itens.filter((item: any) => item.status === 'failed');
+        const simulados = itens.filter((item: any) => item.resultado?.simulacao);
+        return {
+            protocolosProcessados: itens.filter((item: any) => item.status !== 'pending' && item.status !== 'running').length,
+            clientesCriados: itens.filter((item: any) => item.resultado?.clienteCriado).length,
+            clientesAtualizados: itens.filter((item: any) => item.resultado?.clienteAtualizado).length,
+            notificacoesEnviadas: itens.filter((item: any) => item.resultado?.notificacaoEnviada).length,
+            erros: falhos.map((item: any) => `Erro ao processar protocolo ${item.protocolo}: ${item.ultimo_erro}`),
+            protocolosComErro: falhos.length > 0 ? falhos.map((item: any) => item.protocolo) : undefined,
+            simulacao: simulados.length > 0
+                ? simulados.map((item: any) => ({ protocolo: item.protocolo, efeitos: item.resultado.simulacao }))
+                : undefined,
+        };
+    }
+
+    /**
+     * @returns id do usuário dono do job (para auditoria)
+     */
+    async concluirJob(jobId: string, resultado: ResultadoSincronizacao | ResumoComparecimento | ResultadoWorker): Promise<string | undefined> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET status = 'completed', resultado = $2, erro = NULL, lease_dono = NULL, lease_ate = NULL,
+                finalizado_em = NOW(), updated_at = NOW()
+            WHERE id = $1
+            RETURNING usuario_id
+        `, [jobId, JSON.stringify(resultado)]);
+        return result[0]?.usuario_id;
+    }
+
+    /**
+     * Registra falha do job
+     * @param retentar false para erros que não se resolvem sozinhos (ex: token PAT expirado)
+     * @returns status final ('pending' = reagendado com backoff) e id do usuário dono do job
+     */
+    async falharJob(
+        jobId: string,
+        erro: string,
+        retentar: boolean
+    ): Promise<{ status: StatusJobSincronizacao; usuarioId?: string }> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET status = CASE WHEN $3 AND tentativas < max_tentativas THEN 'pending' ELSE 'failed' END,
+                proxima_tentativa_em = CASE
+                    WHEN $3 AND tentativas < max_tentativas THEN NOW() + make_interval(secs => $4 * power(2, tentativas - 1))
+                    ELSE NULL
+                END,
+                finalizado_em = CASE WHEN $3 AND tentativas < max_tentativas THEN NULL ELSE NOW() END,
+                erro = $2, lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE id = $1
+            RETURNING status, proxima_tentativa_em, usuario_id
+        `, [jobId, erro, retentar, this.BACKOFF_BASE_SEGUNDOS]);
+
+        const status = result[0]?.status || 'failed';
+        if (status === 'pending') {
+            logger.warn(`[Fila INSS] 🔁 Job ${jobId} reagendado para ${new Date(result[0].proxima_tentativa_em).toLocaleString('pt-BR')}`);
+        }
+        return { status, usuarioId: result[0]?.usuario_id };
+    }
+
+    /**
+     * @returns id do usuário dono do job (para auditoria)
+     */
+    async marcarCancelado(jobId: string): Promise<string | undefined> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET status = 'cancelled', lease_dono = NULL, lease_ate = NULL, finalizado_em = NOW(), updated_at = NOW()
+            WHERE id = $1
+            RETURNING usuario_id
+        `, [jobId]);
+        await Database.query(
+            `UPDATE sincronizacao_itens SET status = 'pending', updated_at = NOW() WHERE job_id = $1 AND status = 'running'`,
+            [jobId]
+        );
+        return result[0]?.usuario_id;
+    }
+
+    /**
+     * Pede o cancelamento do job
+     * Pendente é cancelado na hora; em execução para ao terminar o protocolo atual
+     * @returns status após o pedido, ou null se o job não existe/não pertence ao usuário/já terminou
+     */
+    async solicitarCancelamento(jobId: string, usuarioId: string): Promise<StatusJobSincronizacao | null> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET cancelamento_solicitado = true,
+                status = CASE WHEN status = 'pending' THEN 'cancelled' ELSE status END,
+                finalizado_em = CASE WHEN status = 'pending' THEN NOW() ELSE finalizado_em END,
+                updated_at = NOW()
+            WHERE id = $1 AND usuario_id = $2 AND status IN ('pending', 'running')
+            RETURNING status
+        `, [jobId, usuarioId]);
+        return result[0]?.status || null;
+    }
+
+    /**
+     * Recoloca na fila um job falho ou cancelado; continua do primeiro protocolo não concluído
+     * @param tokenPat token novo (o anterior pode ter expirado)
+     * @returns false se o job não existe, não pertence ao usuário ou não pode ser retomado
+     */
+    async retomarJob(jobId: string, usuarioId: string, tokenPat?: string): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE sincronizacao_jobs
+            SET status = 'pending', cancelamento_solicitado = false, tentativas = 0,
+                proxima_tentativa_em = NULL, erro = NULL, finalizado_em = NULL,
+                token_pat = COALESCE($3, token_pat), updated_at = NOW()
+            WHERE id = $1 AND usuario_id = $2 AND status IN ('failed', 'cancelled')
+            RETURNING id
+        `, [jobId, usuarioId, tokenPat ? cofreCredenciaisService.cifrarTexto(tokenPat, CONTEXTO_TOKEN_PAT) : null]);
+
+        if (result.length === 0) {
+            return false;
+        }
+
+        await Database.query(`
+            UPDATE sincronizacao_itens
+            SET status = 'pending', tentativas = 0, proxima_tentativa_em = NULL, updated_at = NOW()
+            WHERE job_id = $1 AND status IN ('failed', 'running')
+        `, [jobId]);
+
+        logger.info(`[Fila INSS] ⏯️ Job ${jobId} retomado`);
+        return true;
+    }
+}
+
+export default new SincronizacaoFilaService();
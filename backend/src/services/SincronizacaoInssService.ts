@@ -1,9 +1,9 @@
+import { Page } from 'puppeteer';
 import puppeteerService from './PuppeteerService';
 import { AIService } from './AIService';
+import { criarProvedorLLM, LLMProviderConfig } from './llm';
 import { TramitacaoService } from './TramitacaoService';
-import whatsappService from './WhatsAppService';
-import tramitacaoSyncService from './TramitacaoSyncService';
-import agendamentosService from './AgendamentosService';
+import agendamentosService, { Agendamento, AgendamentoDetalhado } from './AgendamentosService';
 import padroesEtiquetasService from './PadroesEtiquetasService';
 import parceirosService from './ParceirosService';
 import Database from '../database';
@@ -11,47 +11,65 @@ import logger from '../utils/logger';
 import config from '../config';
 import { mapearServicoParaTag, servicoEstaMapeado, normalizarServico } from '../utils/servicos-inss';
 import { analisarTipoIndeferimento } from '../utils/analisarIndeferimento';
+import { selecionarCardRelevante, extrairPrazo } from '../utils/motorRegras';
+import sincronizacaoFilaService, { ResultadoProtocolo, ResultadoSincronizacao } from './SincronizacaoFilaService';
+import efeitosSincronizacaoService, { ContextoEfeitos } from './EfeitosSincronizacaoService';
+import exigenciasItensService from './ExigenciasItensService';
+import armazenamentoService from './armazenamento';
+import {
+    criarServicosExternos,
+    RegistroSimulacao,
+    ServicoArmazenamento,
+    ServicoCanais,
+    ServicoTramitacaoSync,
+    ServicoWhatsApp
+} from './simulacao';
+
+type SuccessCallback = (jobId: string, resultado: ResultadoSincronizacao) => Promise<void> | void;
 
-type ProgressCallback = (jobId: string, progress: {
-    total: number;
-    processados: number;
-    sucesso: number;
-    erros: number;
-}) => void;
+/**
+ * @param retentar true quando o erro pode se resolver sozinho (o job volta para a fila com backoff)
+ */
+type ErrorCallback = (jobId: string, erro: string, retentar?: boolean) => Promise<void> | void;
 
-type SuccessCallback = (jobId: string, resultado: {
-    protocolosProcessados: number;
-    clientesCriados: number;
-    clientesAtualizados: number;
-    notificacoesEnviadas: number;
-    erros: string[];
-    protocolosComErro?: string[];
-}) => void;
+type CancelCallback = (jobId: string) => Promise<void> | void;
 
-type ErrorCallback = (jobId: string, erro: string) => void;
+// Referência do comprovante no ledger: id do documento (entradas antigas e simulações guardam a URL)
+const ID_DOCUMENTO = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * Serviço de sincronização INSS
  * Reutiliza a lógica do teste-fluxo mas com datas dinâmicas e todos os status
  */
 export class SincronizacaoInssService {
-    private onProgress: ProgressCallback;
     private onSuccess: SuccessCallback;
     private onError: ErrorCallback;
+    private onCancel: CancelCallback;
     private aiService: AIService;
     private tramitacaoService: TramitacaoService;
+    private whatsapp: ServicoWhatsApp;
+    private canais: ServicoCanais;
+    private tramitacaoSync: ServicoTramitacaoSync;
+    private armazenamento: ServicoArmazenamento;
+    // Registro da execução em dry-run (null = execução real)
+    private simulacao: RegistroSimulacao | null = null;
 
     constructor(
-        onProgress: ProgressCallback,
         onSuccess: SuccessCallback,
-        onError: ErrorCallback
+        onError: ErrorCallback,
+        onCancel: CancelCallback
     ) {
-        this.onProgress = onProgress;
         this.onSuccess = onSuccess;
         this.onError = onError;
+        this.onCancel = onCancel;
         // Instâncias padrão (serão substituídas se userConfig fornecer credenciais)
         this.aiService = new AIService();
-        this.tramitacaoService = new TramitacaoService();
+        const servicos = criarServicosExternos({});
+        this.tramitacaoService = servicos.tramitacao;
+        this.whatsapp = servicos.whatsapp;
+        this.canais = servicos.canais;
+        this.tramitacaoSync = servicos.tramitacaoSync;
+        this.armazenamento = servicos.armazenamento;
     }
 
     /**
@@ -116,6 +134,10 @@ export class SincronizacaoInssService {
 
     /**
      * Executa a sincronização completa
+     * Com dryRun = true, Tramitação, WhatsApp e armazenamento são trocados por simulações que só registram
+     * o que seria feito; o relatório de cada protocolo vai em resultado.simulacao
+     * @param interromper sinal de lease perdido: para no próximo protocolo, sem concluir nem falhar o job
+     *                    (ele já pertence a outro processo)
      */
     async executarSincronizacao(
         jobId: string,
@@ -128,7 +150,10 @@ export class SincronizacaoInssService {
             tramitacaoApiToken?: string;
             tramitacaoEmail?: string;
             tramitacaoSenha?: string;
-        }
+            llm?: LLMProviderConfig;
+        },
+        dryRun: boolean = false,
+        interromper?: AbortSignal
     ): Promise<void> {
         try {
             // ⚠️ SEGURANÇA: Sempre usar credenciais do usuário, nunca fallbacks
@@ -136,21 +161,39 @@ export class SincronizacaoInssService {
             if (!userConfig?.tramitacaoApiToken) {
                 const erro = 'Token do Tramitação é obrigatório. Configure nas configurações da extensão.';
                 logger.error(`❌ [Sincronização] ${erro}`);
-                this.onError(jobId, erro);
+                await this.onError(jobId, erro);
                 return;
             }
 
             // Configurar serviços APENAS com credenciais do usuário
-            if (userConfig?.geminiApiKey) {
-                this.aiService = new AIService(userConfig.geminiApiKey);
+            // Em dry-run as classificações não entram no histórico da IA
+            const opcoesIA = { registrarHistorico: !dryRun };
+            if (userConfig?.geminiApiKey || (userConfig?.llm?.provider && userConfig.llm.provider !== 'gemini')) {
+                this.aiService = new AIService(
+                    userConfig.geminiApiKey,
+                    criarProvedorLLM({ ...userConfig.llm, geminiApiKey: userConfig.geminiApiKey }),
+                    opcoesIA
+                );
+            } else {
+                this.aiService = new AIService(undefined, undefined, opcoesIA);
+            }
+            // IA é opcional - continuar sem se não fornecida
+
+            this.simulacao = dryRun ? new RegistroSimulacao() : null;
+            const servicos = criarServicosExternos({
+                apiToken: userConfig.tramitacaoApiToken,
+                email: userConfig.tramitacaoEmail,
+                senha: userConfig.tramitacaoSenha
+            }, this.simulacao, userId);
+            this.tramitacaoService = servicos.tramitacao;
+            this.whatsapp = servicos.whatsapp;
+            this.canais = servicos.canais;
+            this.tramitacaoSync = servicos.tramitacaoSync;
+            this.armazenamento = servicos.armazenamento;
+
+            if (dryRun) {
+                logger.info(`🧪 [Job ${jobId}] DRY-RUN: nada será gravado no Tramitação, WhatsApp ou armazenamento`);
             }
-            // Gemini é opcional - continuar sem se não fornecido
-
-            this.tramitacaoService = new TramitacaoService(
-                userConfig.tramitacaoApiToken,
-                userConfig.tramitacaoEmail,
-                userConfig.tramitacaoSenha
-            );
 
             // Validar token PAT rapidamente antes de iniciar Puppeteer
             const tokenValido = await this.validarTokenPatRapido(tokenPat);
@@ -158,7 +201,7 @@ export class SincronizacaoInssService {
             if (!tokenValido) {
                 const erro = 'Token PAT inválido ou expirado. Por favor, faça login no PAT novamente.';
                 logger.error(`❌ [Sincronização] ${erro}`);
-                this.onError(jobId, erro);
+                await this.onError(jobId, erro);
                 return;
             }
 
@@ -172,7 +215,7 @@ export class SincronizacaoInssService {
 
                 if (errorMsg.includes('Chrome não está rodando') || errorMsg.includes('remote debugging')) {
                     const erro = 'Chrome não está com remote debugging ativo. Por favor, abra o Chrome com: chrome.exe --remote-debugging-port=9222';
-                    this.onError(jobId, erro);
+                    await this.onError(jobId, erro, true);
                     return;
                 }
 
@@ -197,71 +240,87 @@ export class SincronizacaoInssService {
                     const erro = 'Token PAT inválido ou expirado. Por favor, faça login no PAT novamente.';
                     logger.error(`❌ [Job ${jobId}] ${erro}`);
                     await puppeteerService.close().catch(() => { });
-                    this.onError(jobId, erro);
+                    await this.onError(jobId, erro);
                     return;
                 }
                 // Se for outro erro, propagar
                 throw error;
             }
 
-            // Atualizar progresso inicial (coletando protocolos)
-            this.onProgress(jobId, {
-                total: 0,
-                processados: 0,
-                sucesso: 0,
-                erros: 0
-            });
+            // Coletar protocolos do período solicitado (ou retomar os já registrados na fila)
+            const protocolosRegistrados = await sincronizacaoFilaService.contarProtocolos(jobId);
 
-            // Coletar protocolos do período solicitado
-            // 🧪 MODO TESTE: Filtrando apenas EXIGÊNCIA
-            logger.info(`🔍 Coletando protocolos de ${dataInicio.toLocaleDateString('pt-BR')} a ${dataFim.toLocaleDateString('pt-BR')} (EXIGÊNCIA)...`);
-            const protocolos = await puppeteerService.coletarProtocolos(
-                dataInicio,
-                dataFim,
-                'EXIGENCIA' // 🧪 TESTE: Apenas exigências
-            );
+            if (protocolosRegistrados > 0) {
+                logger.info(`🔁 [Job ${jobId}] Retomando: ${protocolosRegistrados} protocolo(s) já registrados, continuando do primeiro não processado`);
+            } else {
+                // 🧪 MODO TESTE: Filtrando apenas EXIGÊNCIA
+                logger.info(`🔍 Coletando protocolos de ${dataInicio.toLocaleDateString('pt-BR')} a ${dataFim.toLocaleDateString('pt-BR')} (EXIGÊNCIA)...`);
+                const protocolos = await puppeteerService.coletarProtocolos(
+                    dataInicio,
+                    dataFim,
+                    'EXIGENCIA' // 🧪 TESTE: Apenas exigências
+                );
 
-            if (protocolos.length === 0) {
-                logger.warn(`⚠️ [Job ${jobId}] Nenhum protocolo encontrado no período`);
-                await puppeteerService.close();
-                this.onSuccess(jobId, {
-                    protocolosProcessados: 0,
-                    clientesCriados: 0,
-                    clientesAtualizados: 0,
-                    notificacoesEnviadas: 0,
-                    erros: []
-                });
-                return;
+                if (protocolos.length === 0) {
+                    logger.warn(`⚠️ [Job ${jobId}] Nenhum protocolo encontrado no período`);
+                    await puppeteerService.close();
+                    await this.onSuccess(jobId, {
+                        protocolosProcessados: 0,
+                        clientesCriados: 0,
+                        clientesAtualizados: 0,
+                        notificacoesEnviadas: 0,
+                        erros: []
+                    });
+                    return;
+                }
+
+                logger.info(`✅ [Job ${jobId}] ${protocolos.length} protocolo(s) encontrado(s)`);
+                await sincronizacaoFilaService.registrarProtocolos(jobId, protocolos);
             }
 
-            logger.info(`✅ [Job ${jobId}] ${protocolos.length} protocolo(s) encontrado(s)`);
+            // Atualizar progresso com total de protocolos registrados
+            await sincronizacaoFilaService.atualizarProgresso(jobId);
 
-            // Atualizar progresso com total de protocolos encontrados
-            this.onProgress(jobId, {
-                total: protocolos.length,
-                processados: 0,
-                sucesso: 0,
-                erros: 0
-            });
+            // Processar cada protocolo da fila
+            // Protocolos com erro voltam para a fila com backoff (substitui o antigo reprocessamento no final)
+            let processadosNestaExecucao = 0;
+
+            for (;;) {
+                if (interromper?.aborted) {
+                    logger.warn(`🛑 [Job ${jobId}] Lease perdido. Parando sem alterar o job (outro processo o executa).`);
+                    await puppeteerService.close();
+                    return;
+                }
 
-            // Estatísticas
-            let clientesCriados = 0;
-            let clientesAtualizados = 0;
-            let notificacoesEnviadas = 0;
-            const erros: string[] = [];
-            const protocolosComErro: string[] = []; // Protocolos que falharam e serão reprocessados no final
+                if (await sincronizacaoFilaService.cancelamentoSolicitado(jobId)) {
+                    logger.warn(`🛑 [Job ${jobId}] Cancelamento solicitado. Parando após o último protocolo concluído.`);
+                    await puppeteerService.close();
+                    await this.onCancel(jobId);
+                    return;
+                }
+
+                const item = await sincronizacaoFilaService.proximoProtocolo(jobId);
+
+                if (!item) {
+                    const espera = await sincronizacaoFilaService.segundosAteProximoProtocolo(jobId);
+                    if (espera === null) {
+                        break; // Todos os protocolos processados
+                    }
+                    logger.info(`⏳ [Job ${jobId}] Aguardando ${espera}s para tentar novamente protocolo(s) com erro...`);
+                    await new Promise(resolve => setTimeout(resolve, Math.max(espera, 1) * 1000));
+                    continue;
+                }
 
-            // Processar cada protocolo
-            for (let idx = 0; idx < protocolos.length; idx++) {
-                const protocolo = protocolos[idx];
+                const { protocolo, tentativa } = item;
+                this.simulacao?.iniciarProtocolo(protocolo);
 
                 try {
                     logger.info(`\n${'='.repeat(80)}`);
-                    logger.info(`📋 [Job ${jobId}] PROCESSANDO PROTOCOLO ${idx + 1}/${protocolos.length}: ${protocolo}`);
+                    logger.info(`📋 [Job ${jobId}] PROCESSANDO PROTOCOLO ${protocolo}${tentativa > 1 ? ` (tentativa ${tentativa})` : ''}`);
                     logger.info(`${'='.repeat(80)}\n`);
 
                     // Garantir que estamos na aba do PAT
-                    if (idx > 0) {
+                    if (processadosNestaExecucao > 0) {
                         const patPage = puppeteerService.getPage();
                         if (patPage) {
                             await patPage.bringToFront();
@@ -278,165 +337,44 @@ export class SincronizacaoInssService {
 
                     logger.info(`CPF: ${detalhes.cpf} | Nome: ${detalhes.nome} | Status: ${detalhes.statusAtual}`);
 
-                    // Verificar se tem comentários
-                    if (detalhes.comentarios.length === 0) {
-                        logger.warn(`⚠️ Protocolo ${protocolo} não tem comentários, pulando...`);
-                        // Atualizar progresso mesmo pulando
-                        this.onProgress(jobId, {
-                            total: protocolos.length,
-                            processados: idx + 1,
-                            sucesso: idx + 1 - erros.length,
-                            erros: erros.length
-                        });
-                        continue;
-                    }
-
-                    // ⚠️ NOVA LÓGICA: Se status for "Em Análise", processar de forma especial
-                    const statusUpper = (detalhes.statusAtual || '').toUpperCase();
-                    const ehEmAnalise = statusUpper.includes('EM ANÁLISE') || statusUpper.includes('EM ANALISE') || statusUpper.includes('PENDENTE');
-
-                    if (ehEmAnalise) {
-                        logger.info(`[Job ${jobId}] 📋 Status "Em Análise" detectado - processando de forma especial...`);
-                        const resultado = await this.processarProtocoloEmAnalise(
-                            jobId,
-                            protocolo,
-                            detalhes,
-                            userId,
-                            userConfig
-                        );
-
-                        if (resultado.clienteCriado) clientesCriados++;
-                        if (resultado.clienteAtualizado) clientesAtualizados++;
-
-                        // Atualizar progresso
-                        this.onProgress(jobId, {
-                            total: protocolos.length,
-                            processados: idx + 1,
-                            sucesso: idx + 1 - erros.length,
-                            erros: erros.length
-                        });
-
-                        // Continuar para próximo protocolo
-                        if (idx < protocolos.length - 1) {
-                            await new Promise(resolve => setTimeout(resolve, 3000));
-                        }
-                        continue;
-                    }
-
-                    // Processar protocolo normalmente (similar ao teste-fluxo)
-                    const resultado = await this.processarProtocolo(
+                    // Efeitos (notas, etiquetas, atividades, WhatsApp) ficam registrados por estado do card
+                    const efeitos: ContextoEfeitos = {
                         jobId,
                         protocolo,
-                        detalhes,
-                        dataInicio,
-                        dataFim,
-                        userId,
-                        userConfig
-                    );
-
-                    if (resultado.clienteCriado) clientesCriados++;
-                    if (resultado.clienteAtualizado) clientesAtualizados++;
-                    if (resultado.notificacaoEnviada) notificacoesEnviadas++;
-
-                    // Atualizar progresso após processar com sucesso
-                    this.onProgress(jobId, {
-                        total: protocolos.length,
-                        processados: idx + 1,
-                        sucesso: idx + 1 - erros.length,
-                        erros: erros.length
-                    });
-
-                    // ⚡ LIMITE DE PROTOCOLOS: Verificar se deve parar
-                    if (config.inss.limitProtocols && (idx + 1) >= config.inss.limitProtocols) {
-                        logger.info(`\n🛑 [Job ${jobId}] Limite de protocolos atingido (${idx + 1}/${protocolos.length}). Parando processamento.`);
-                        break; // Sair do loop
-                    }
-
-                    // Aguardar antes do próximo protocolo
-                    if (idx < protocolos.length - 1) {
-                        await new Promise(resolve => setTimeout(resolve, 3000));
-                    }
-                } catch (error: any) {
-                    const errorMsg = error.message || String(error);
-                    const isError406 = errorMsg.includes('406') ||
-                        errorMsg.includes('Not Acceptable') ||
-                        errorMsg.includes('não foi possível extrair detalhes');
-
-                    const erroMsg = `Erro ao processar protocolo ${protocolo}: ${errorMsg}`;
-                    logger.error(`❌ [Job ${jobId}] ${erroMsg}`);
+                        hashCard: efeitosSincronizacaoService.calcularHashCard(detalhes),
+                        simulacao: dryRun
+                    };
 
-                    // Se for erro 406 ou erro de extração após retries, mover para o final da lista
-                    if (isError406) {
-                        logger.warn(`[Job ${jobId}] ⚠️ Protocolo ${protocolo} falhou após 10 tentativas. Será reprocessado no final.`);
-                        protocolosComErro.push(protocolo);
+                    // Verificar se tem comentários
+                    if (detalhes.comentarios.length === 0) {
+                        logger.warn(`⚠️ Protocolo ${protocolo} não tem comentários, pulando...`);
+                        await sincronizacaoFilaService.concluirProtocolo(jobId, protocolo, 'skipped');
+                    } else if (await efeitosSincronizacaoService.protocoloJaProcessado(efeitos)) {
+                        logger.info(`[Job ${jobId}] ⏭️ Protocolo ${protocolo} já processado com este mesmo estado no INSS, pulando`);
+                        await sincronizacaoFilaService.concluirProtocolo(jobId, protocolo, 'skipped');
                     } else {
-                        erros.push(erroMsg);
-                    }
-
-                    // Atualizar progresso mesmo em caso de erro
-                    this.onProgress(jobId, {
-                        total: protocolos.length,
-                        processados: idx + 1,
-                        sucesso: idx + 1 - erros.length - protocolosComErro.length,
-                        erros: erros.length + protocolosComErro.length
-                    });
-                }
-            }
-
-            // Reprocessar protocolos que falharam (erro 406) no final
-            if (protocolosComErro.length > 0) {
-                logger.info(`\n${'='.repeat(80)}`);
-                logger.info(`🔄 [Job ${jobId}] REPROCESSANDO ${protocolosComErro.length} PROTOCOLO(S) QUE FALHARAM`);
-                logger.info(`${'='.repeat(80)}\n`);
-
-                for (let idx = 0; idx < protocolosComErro.length; idx++) {
-                    const protocolo = protocolosComErro[idx];
-
-                    try {
-                        logger.info(`\n${'='.repeat(80)}`);
-                        logger.info(`📋 [Job ${jobId}] REPROCESSANDO PROTOCOLO ${idx + 1}/${protocolosComErro.length}: ${protocolo}`);
-                        logger.info(`${'='.repeat(80)}\n`);
-
-                        // Garantir que estamos na aba do PAT
-                        const patPage = puppeteerService.getPage();
-                        if (patPage) {
-                            await patPage.bringToFront();
-                            await patPage.waitForTimeout(1000);
-                        }
-
-                        // Tentar extrair detalhes novamente (mais 10 tentativas)
-                        const detalhes = await puppeteerService.extrairDetalhesProtocolo(protocolo, {
-                            dataInicio,
-                            dataFim,
-                            status: 'TODOS'
-                        }, 10);
-
-                        logger.info(`CPF: ${detalhes.cpf} | Nome: ${detalhes.nome} | Status: ${detalhes.statusAtual}`);
-
-                        // Verificar se tem comentários
-                        if (detalhes.comentarios.length === 0) {
-                            logger.warn(`⚠️ Protocolo ${protocolo} não tem comentários, pulando...`);
-                            continue;
-                        }
-
-                        // Processar protocolo normalmente
+                        // ⚠️ NOVA LÓGICA: Se status for "Em Análise", processar de forma especial
                         const statusUpper = (detalhes.statusAtual || '').toUpperCase();
                         const ehEmAnalise = statusUpper.includes('EM ANÁLISE') || statusUpper.includes('EM ANALISE') || statusUpper.includes('PENDENTE');
 
-                        let resultado;
+                        let resultado: ResultadoProtocolo;
                         if (ehEmAnalise) {
+                            logger.info(`[Job ${jobId}] 📋 Status "Em Análise" detectado - processando de forma especial...`);
                             resultado = await this.processarProtocoloEmAnalise(
                                 jobId,
                                 protocolo,
                                 detalhes,
+                                efeitos,
                                 userId,
                                 userConfig
                             );
                         } else {
+                            // Processar protocolo normalmente (similar ao teste-fluxo)
                             resultado = await this.processarProtocolo(
                                 jobId,
                                 protocolo,
                                 detalhes,
+                                efeitos,
                                 dataInicio,
                                 dataFim,
                                 userId,
@@ -444,41 +382,60 @@ export class SincronizacaoInssService {
                             );
                         }
 
-                        if (resultado.clienteCriado) clientesCriados++;
-                        if (resultado.clienteAtualizado) clientesAtualizados++;
-                        // processarProtocoloEmAnalise não retorna notificacaoEnviada
-
-                        logger.info(`✅ [Job ${jobId}] Protocolo ${protocolo} reprocessado com sucesso!`);
+                        if (this.simulacao) {
+                            resultado.simulacao = this.simulacao.relatorioDoProtocolo(protocolo).efeitos;
+                        }
 
-                        // Aguardar antes do próximo protocolo
-                        if (idx < protocolosComErro.length - 1) {
-                            await new Promise(resolve => setTimeout(resolve, 3000));
+                        // Falhas críticas retornam sem cliente criado/atualizado: o protocolo pode ser refeito
+                        if (resultado.clienteCriado || resultado.clienteAtualizado) {
+                            await efeitosSincronizacaoService.marcarProtocoloProcessado(efeitos);
                         }
-                    } catch (error: any) {
-                        const erroMsg = `Não foi possível processar protocolo ${protocolo} mesmo após reprocessamento: ${error.message}`;
-                        logger.error(`❌ [Job ${jobId}] ${erroMsg}`);
-                        erros.push(erroMsg);
+
+                        await sincronizacaoFilaService.concluirProtocolo(jobId, protocolo, 'done', resultado);
+                    }
+                } catch (error: any) {
+                    const errorMsg = error.message || String(error);
+                    const vaiRetentar = await sincronizacaoFilaService.falharProtocolo(jobId, protocolo, errorMsg);
+
+                    logger.error(`❌ [Job ${jobId}] Erro ao processar protocolo ${protocolo}: ${errorMsg}`);
+                    if (vaiRetentar) {
+                        logger.warn(`[Job ${jobId}] ⚠️ Protocolo ${protocolo} será reprocessado após o intervalo de espera.`);
                     }
                 }
+
+                // Atualizar progresso (sucesso ou erro)
+                await sincronizacaoFilaService.atualizarProgresso(jobId);
+                processadosNestaExecucao++;
+
+                // ⚡ LIMITE DE PROTOCOLOS: Verificar se deve parar
+                if (config.inss.limitProtocols && processadosNestaExecucao >= config.inss.limitProtocols) {
+                    logger.info(`\n🛑 [Job ${jobId}] Limite de protocolos atingido (${processadosNestaExecucao}). Parando processamento.`);
+                    break; // Sair do loop
+                }
+
+                // Aguardar antes do próximo protocolo
+                await new Promise(resolve => setTimeout(resolve, 3000));
             }
 
             await puppeteerService.close();
 
+            if (interromper?.aborted) {
+                logger.warn(`🛑 [Job ${jobId}] Lease perdido. O job será concluído pelo processo que o assumiu.`);
+                return;
+            }
+
+            const resultado = await sincronizacaoFilaService.consolidarResultado(jobId);
+
             logger.info(`✅ [Job ${jobId}] Sincronização concluída`);
-            logger.info(`📊 Estatísticas: ${protocolos.length} processados, ${clientesCriados} criados, ${clientesAtualizados} atualizados, ${notificacoesEnviadas} notificações`);
-
-            this.onSuccess(jobId, {
-                protocolosProcessados: protocolos.length,
-                clientesCriados,
-                clientesAtualizados,
-                notificacoesEnviadas,
-                erros,
-                protocolosComErro: protocolosComErro.length > 0 ? protocolosComErro : undefined
-            });
+            logger.info(`📊 Estatísticas: ${resultado.protocolosProcessados} processados, ${resultado.clientesCriados} criados, ${resultado.clientesAtualizados} atualizados, ${resultado.notificacoesEnviadas} notificações`);
+
+            await this.onSuccess(jobId, resultado);
         } catch (error: any) {
             logger.error(`❌ [Job ${jobId}] Erro na sincronização: ${error.message}`, error);
             await puppeteerService.close().catch(() => { });
-            this.onError(jobId, error.message);
+            if (!interromper?.aborted) {
+                await this.onError(jobId, error.message, true);
+            }
         }
     }
 
@@ -491,6 +448,7 @@ export class SincronizacaoInssService {
         jobId: string,
         protocolo: string,
         detalhes: any,
+        efeitos: ContextoEfeitos,
         dataInicio: Date,
         dataFim: Date,
         userId?: string,
@@ -507,7 +465,7 @@ export class SincronizacaoInssService {
     }> {
         try {
             logger.info(`📋 [Job ${jobId}] Processando protocolo ${protocolo}...`);
-            logger.info(`   Usando AI Service: ${userConfig?.geminiApiKey ? 'Credenciais do usuário' : 'Credenciais padrão'}`);
+            logger.info(`   Usando AI Service: ${this.aiService.getProviderNome()} (${this.aiService.isConfigured() ? 'configurado' : 'sem credenciais'})`);
             logger.info(`   Usando Tramitação Service: ${userConfig?.tramitacaoApiToken ? 'Credenciais do usuário' : 'Credenciais padrão'}`);
 
             // Extrair últimos 3 comentários para análise com contexto
@@ -546,52 +504,25 @@ export class SincronizacaoInssService {
                 diasPrazo = Math.ceil((prazoFinal.getTime() - hoje.getTime()) / (1000 * 60 * 60 * 24));
                 logger.info(`[Job ${jobId}] 📅 Prazo calculado pela IA: ${prazoFinal.toLocaleDateString('pt-BR')} (${diasPrazo} dias restantes)`);
             } else {
-                // Procurar o card que contém a exigência real
-                let cardComExigencia = ultimosComentarios[ultimosComentarios.length - 1];
-
-                const ultimoTexto = cardComExigencia.texto.toLowerCase();
-                if (ultimoTexto.includes('transferida') ||
-                    ultimoTexto.includes('agendamento realizado') ||
-                    ultimoTexto.includes('perícia agendada') ||
-                    ultimoTexto.includes('avaliação agendada')) {
-                    // Procurar card anterior com exigência real
-                    for (let i = ultimosComentarios.length - 2; i >= 0; i--) {
-                        const textoCard = ultimosComentarios[i].texto.toLowerCase();
-                        if (textoCard.includes('exigência') ||
-                            textoCard.includes('prezado') ||
-                            textoCard.includes('nr:') ||
-                            textoCard.includes('documentos') ||
-                            textoCard.includes('prazo')) {
-                            cardComExigencia = ultimosComentarios[i];
-                            logger.info(`[Job ${jobId}] 📋 Exigência real encontrada no card anterior (${cardComExigencia.data.toLocaleDateString('pt-BR')})`);
-                            break;
-                        }
-                    }
+                // Procurar o card que contém a exigência real (ignora cards de andamento)
+                const cardComExigencia = selecionarCardRelevante<any>(ultimosComentarios);
+                if (cardComExigencia !== ultimosComentarios[ultimosComentarios.length - 1]) {
+                    logger.info(`[Job ${jobId}] 📋 Exigência real encontrada no card anterior (${cardComExigencia.data.toLocaleDateString('pt-BR')})`);
                 }
 
-                // Usar data do card com exigência + 30 dias (padrão)
-                prazoFinal = new Date(cardComExigencia.data);
-                prazoFinal.setDate(prazoFinal.getDate() + 30);
-                diasPrazo = 30;
-
-                // Tentar extrair prazo específico do texto
-                const textoExigencia = cardComExigencia.texto;
-                const matchPrazoEspecifico = textoExigencia.match(/(\d{1,3})\s*dias/);
-                const matchDataEspecifica = textoExigencia.match(/até\s+(\d{2}\/\d{2}\/\d{4})/i);
+                // Prazo do texto ("até DD/MM/YYYY" ou "N dias") ou data do card + 30 dias (padrão)
+                const prazo = extrairPrazo(cardComExigencia, 30)!;
+                prazoFinal = prazo.data;
 
-                if (matchDataEspecifica) {
-                    const [dia, mes, ano] = matchDataEspecifica[1].split('/').map(Number);
-                    prazoFinal = new Date(ano, mes - 1, dia);
+                if (prazo.origem === 'data') {
                     const hoje = new Date();
                     diasPrazo = Math.ceil((prazoFinal.getTime() - hoje.getTime()) / (1000 * 60 * 60 * 24));
                     logger.info(`[Job ${jobId}] 📅 Prazo específico encontrado no texto: ${prazoFinal.toLocaleDateString('pt-BR')}`);
-                } else if (matchPrazoEspecifico) {
-                    const diasMencionados = parseInt(matchPrazoEspecifico[1]);
-                    prazoFinal = new Date(cardComExigencia.data);
-                    prazoFinal.setDate(prazoFinal.getDate() + diasMencionados);
-                    diasPrazo = diasMencionados;
-                    logger.info(`[Job ${jobId}] 📅 Prazo específico encontrado: ${diasMencionados} dias a partir de ${cardComExigencia.data.toLocaleDateString('pt-BR')}`);
+                } else if (prazo.origem === 'dias') {
+                    diasPrazo = prazo.dias as number;
+                    logger.info(`[Job ${jobId}] 📅 Prazo específico encontrado: ${diasPrazo} dias a partir de ${cardComExigencia.data.toLocaleDateString('pt-BR')}`);
                 } else {
+                    diasPrazo = 30;
                     logger.info(`[Job ${jobId}] 📅 Usando prazo padrão: 30 dias a partir de ${cardComExigencia.data.toLocaleDateString('pt-BR')}`);
                 }
             }
@@ -848,7 +779,9 @@ export class SincronizacaoInssService {
 
                 // Aplicar tags ANTES de qualquer outra operação
                 logger.info(`[Job ${jobId}] 🏷️ Aplicando tags no Tramitação (OBRIGATÓRIO antes de continuar)...`);
-                const tagsAplicadas = await this.tramitacaoService.aplicarEtiquetas(idCliente, todasTags);
+                const efeitoTags = await efeitosSincronizacaoService.executarUmaVez(efeitos, 'etiquetas', this.chaveEtiquetas(todasTags),
+                    () => this.tramitacaoService.aplicarEtiquetas(idCliente, todasTags));
+                const tagsAplicadas = efeitoTags.repetido || efeitoTags.valor;
 
                 if (!tagsAplicadas) {
                     logger.error(`[Job ${jobId}] ❌ FALHA CRÍTICA: Não foi possível aplicar tags no Tramitação!`);
@@ -870,85 +803,107 @@ export class SincronizacaoInssService {
 
             // Salvar processo no banco (não crítico)
             let processoId: string | null = null;
-            try {
-                let dataSolicitacaoValida: Date;
-                if (detalhes.dataSolicitacao && detalhes.dataSolicitacao instanceof Date && !isNaN(detalhes.dataSolicitacao.getTime())) {
-                    dataSolicitacaoValida = detalhes.dataSolicitacao;
-                } else {
-                    dataSolicitacaoValida = new Date();
-                }
+            if (this.simulacao) {
+                logger.info(`[Job ${jobId}] 🧪 Dry-run: processo não será salvo no banco`);
+            } else {
+                try {
+                    let dataSolicitacaoValida: Date;
+                    if (detalhes.dataSolicitacao && detalhes.dataSolicitacao instanceof Date && !isNaN(detalhes.dataSolicitacao.getTime())) {
+                        dataSolicitacaoValida = detalhes.dataSolicitacao;
+                    } else {
+                        dataSolicitacaoValida = new Date();
+                    }
 
-                let classeFinalMapeada: string = analiseIA.classe_final || 'PENDENTE';
-                const classeFinalUpper = classeFinalMapeada.toUpperCase();
-                if (classeFinalUpper === 'EXIGENCIA' || classeFinalUpper === 'EXIGÊNCIA') {
-                    classeFinalMapeada = 'PENDENTE';
-                } else if (!['DEFERIDO', 'INDEFERIDO', 'DUPLICADO', 'CANCELADO', 'PENDENTE'].includes(classeFinalMapeada)) {
-                    classeFinalMapeada = 'PENDENTE';
-                }
+                    let classeFinalMapeada: string = analiseIA.classe_final || 'PENDENTE';
+                    const classeFinalUpper = classeFinalMapeada.toUpperCase();
+                    if (classeFinalUpper === 'EXIGENCIA' || classeFinalUpper === 'EXIGÊNCIA') {
+                        classeFinalMapeada = 'PENDENTE';
+                    } else if (!['DEFERIDO', 'INDEFERIDO', 'DUPLICADO', 'CANCELADO', 'PENDENTE'].includes(classeFinalMapeada)) {
+                        classeFinalMapeada = 'PENDENTE';
+                    }
 
-                let tipoBeneficioMapeado: string = detalhes.servico || 'APOSENTADORIAS';
-                const servicoLower = tipoBeneficioMapeado.toLowerCase();
-                if (servicoLower.includes('prestação continuada') || servicoLower.includes('prestacao continuada') ||
-                    servicoLower.includes('loas') || servicoLower.includes('bpc') ||
-                    servicoLower.includes('benefício assistencial') || servicoLower.includes('beneficio assistencial')) {
-                    tipoBeneficioMapeado = 'BPC';
-                } else if (servicoLower.includes('salário maternidade') || servicoLower.includes('salario maternidade')) {
-                    tipoBeneficioMapeado = 'SALÁRIO MATERNIDADE';
-                } else if (servicoLower.includes('pensão') || servicoLower.includes('pensao')) {
-                    tipoBeneficioMapeado = 'PENSÃO';
-                } else if (servicoLower.includes('aposentadoria')) {
-                    tipoBeneficioMapeado = 'APOSENTADORIAS';
-                } else if (servicoLower.includes('auxílio') || servicoLower.includes('auxilio') ||
-                    servicoLower.includes('incapacidade') || servicoLower.includes('doença') ||
-                    servicoLower.includes('doenca') || servicoLower.includes('acidente')) {
-                    tipoBeneficioMapeado = 'AUX DOENÇA';
-                } else {
-                    tipoBeneficioMapeado = 'APOSENTADORIAS';
-                }
+                    let tipoBeneficioMapeado: string = detalhes.servico || 'APOSENTADORIAS';
+                    const servicoLower = tipoBeneficioMapeado.toLowerCase();
+                    if (servicoLower.includes('prestação continuada') || servicoLower.includes('prestacao continuada') ||
+                        servicoLower.includes('loas') || servicoLower.includes('bpc') ||
+                        servicoLower.includes('benefício assistencial') || servicoLower.includes('beneficio assistencial')) {
+                        tipoBeneficioMapeado = 'BPC';
+                    } else if (servicoLower.includes('salário maternidade') || servicoLower.includes('salario maternidade')) {
+                        tipoBeneficioMapeado = 'SALÁRIO MATERNIDADE';
+                    } else if (servicoLower.includes('pensão') || servicoLower.includes('pensao')) {
+                        tipoBeneficioMapeado = 'PENSÃO';
+                    } else if (servicoLower.includes('aposentadoria')) {
+                        tipoBeneficioMapeado = 'APOSENTADORIAS';
+                    } else if (servicoLower.includes('auxílio') || servicoLower.includes('auxilio') ||
+                        servicoLower.includes('incapacidade') || servicoLower.includes('doença') ||
+                        servicoLower.includes('doenca') || servicoLower.includes('acidente')) {
+                        tipoBeneficioMapeado = 'AUX DOENÇA';
+                    } else {
+                        tipoBeneficioMapeado = 'APOSENTADORIAS';
+                    }
 
-                let statusInssMapeado = detalhes.statusAtual || 'CUMPRIMENTO_DE_EXIGENCIA';
-                const statusUpper = statusInssMapeado.toUpperCase();
-                if (!['PENDENTE', 'EM_ANALISE', 'CUMPRIMENTO_DE_EXIGENCIA', 'CONCLUIDA', 'CANCELADA'].includes(statusUpper)) {
-                    if (statusUpper.includes('EXIGENCIA') || statusUpper.includes('EXIGÊNCIA')) {
-                        statusInssMapeado = 'CUMPRIMENTO_DE_EXIGENCIA';
-                    } else if (statusUpper.includes('ANALISE') || statusUpper.includes('ANÁLISE')) {
-                        statusInssMapeado = 'EM_ANALISE';
-                    } else if (statusUpper.includes('CONCLUIDO') || statusUpper.includes('CONCLUÍDO')) {
-                        statusInssMapeado = 'CONCLUIDA';
+                    let statusInssMapeado = detalhes.statusAtual || 'CUMPRIMENTO_DE_EXIGENCIA';
+                    const statusUpper = statusInssMapeado.toUpperCase();
+                    if (!['PENDENTE', 'EM_ANALISE', 'CUMPRIMENTO_DE_EXIGENCIA', 'CONCLUIDA', 'CANCELADA'].includes(statusUpper)) {
+                        if (statusUpper.includes('EXIGENCIA') || statusUpper.includes('EXIGÊNCIA')) {
+                            statusInssMapeado = 'CUMPRIMENTO_DE_EXIGENCIA';
+                        } else if (statusUpper.includes('ANALISE') || statusUpper.includes('ANÁLISE')) {
+                            statusInssMapeado = 'EM_ANALISE';
+                        } else if (statusUpper.includes('CONCLUIDO') || statusUpper.includes('CONCLUÍDO')) {
+                            statusInssMapeado = 'CONCLUIDA';
+                        } else {
+                            statusInssMapeado = 'PENDENTE';
+                        }
                     } else {
-                        statusInssMapeado = 'PENDENTE';
+                        statusInssMapeado = statusUpper;
                     }
-                } else {
-                    statusInssMapeado = statusUpper;
-                }
 
-                const resultProcesso: any = await Database.query(`
-                    INSERT INTO processos (
-                        protocolo_inss, cpf_segurado, nome_segurado, tipo_beneficio, der,
-                        status_inss, classe_final, motivo_inss, tramitacao_cliente_id
-                    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-                    ON CONFLICT (protocolo_inss) DO UPDATE SET
-                        status_inss = EXCLUDED.status_inss,
-                        updated_at = NOW()
-                    RETURNING id
-                `, [
-                    protocolo,
-                    detalhes.cpf.replace(/\D/g, ''),
-                    detalhes.nome,
-                    tipoBeneficioMapeado,
-                    dataSolicitacaoValida,
-                    statusInssMapeado,
-                    classeFinalMapeada,
-                    analiseIA.motivo_ia || '',
-                    idCliente
-                ]);
-
-                if (Array.isArray(resultProcesso) && resultProcesso.length > 0) {
-                    processoId = resultProcesso[0].id;
-                    logger.info(`[Job ${jobId}] ✅ Processo salvo no banco (ID: ${processoId})`);
+                    // Parceiro pela etiqueta PARCEIRO:NOME (feeds de calendário do parceiro)
+                    const parceiroProcesso = await parceirosService.identificarParceiroPorTags(tagsCliente, userId || undefined);
+
+                    // Status anterior lido no mesmo comando (histórico do portal do parceiro)
+                    const resultProcesso: any = await Database.query(`
+                        WITH anterior AS (SELECT status_inss FROM processos WHERE protocolo_inss = $1)
+                        INSERT INTO processos (
+                            protocolo_inss, cpf_segurado, nome_segurado, tipo_beneficio, der,
+                            status_inss, classe_final, motivo_inss, tramitacao_cliente_id,
+                            usuario_extensao_id, parceiro_id
+                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                        ON CONFLICT (protocolo_inss) DO UPDATE SET
+                            status_inss = EXCLUDED.status_inss,
+                            usuario_extensao_id = COALESCE(EXCLUDED.usuario_extensao_id, processos.usuario_extensao_id),
+                            parceiro_id = EXCLUDED.parceiro_id,
+                            updated_at = NOW()
+                        RETURNING id, (SELECT status_inss FROM anterior) AS status_anterior
+                    `, [
+                        protocolo,
+                        detalhes.cpf.replace(/\D/g, ''),
+                        detalhes.nome,
+                        tipoBeneficioMapeado,
+                        dataSolicitacaoValida,
+                        statusInssMapeado,
+                        classeFinalMapeada,
+                        analiseIA.motivo_ia || '',
+                        idCliente,
+                        userId || null,
+                        parceiroProcesso?.id || null
+                    ]);
+
+                    if (Array.isArray(resultProcesso) && resultProcesso.length > 0) {
+                        processoId = resultProcesso[0].id;
+                        logger.info(`[Job ${jobId}] ✅ Processo salvo no banco (ID: ${processoId})`);
+
+                        const statusAnterior: string | null = resultProcesso[0].status_anterior;
+                        if (statusAnterior !== statusInssMapeado) {
+                            await Database.query(`
+                                INSERT INTO historico_status (processo_id, status_anterior, status_novo, tipo, observacao)
+                                VALUES ($1, $2, $3, 'STATUS_INSS', $4)
+                            `, [processoId, statusAnterior || 'NOVO', statusInssMapeado, `Sincronização (job ${jobId})`]);
+                        }
+                    }
+                } catch (error: any) {
+                    logger.warn(`[Job ${jobId}] ⚠️ Erro ao salvar processo no banco (não crítico, continuando): ${error.message}`);
                 }
-            } catch (error: any) {
-                logger.warn(`[Job ${jobId}] ⚠️ Erro ao salvar processo no banco (não crítico, continuando): ${error.message}`);
             }
 
             // Gerar email exclusivo via Tramitação
@@ -957,7 +912,7 @@ export class SincronizacaoInssService {
 
             try {
                 logger.info(`[Job ${jobId}] 🔍 Gerando email via TramitacaoSyncService (scraping)...`);
-                const resultadoSync = await tramitacaoSyncService.gerarEmailExclusivo(
+                const resultadoSync = await this.tramitacaoSync.gerarEmailExclusivo(
                     idCliente,
                     detalhes.nome,
                     userConfig?.tramitacaoEmail,
@@ -1038,6 +993,19 @@ export class SincronizacaoInssService {
                 });
             }
 
+            // Checklist de documentos da exigência (cada documento pedido vira um item)
+            if (ehExigencia && processoId) {
+                try {
+                    await exigenciasItensService.registrarExigencia(processoId, {
+                        prazo: prazoFinal,
+                        resumo: textoExigencia,
+                        documentos: analiseIA.documentos_exigidos || [],
+                    });
+                } catch (error: any) {
+                    logger.warn(`[Job ${jobId}] ⚠️ Erro ao registrar checklist da exigência (não crítico): ${error.message}`);
+                }
+            }
+
             const linkProcesso = `https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}`;
 
             logger.info(`[Job ${jobId}] 📊 Status detectado: ${ehExigencia ? 'EXIGÊNCIA' : ehDeferido ? 'DEFERIDO' : ehIndeferido ? 'INDEFERIDO' : 'OUTRO'}`);
@@ -1113,7 +1081,8 @@ export class SincronizacaoInssService {
                             }
 
                             if (tagsAgendar.length > 0) {
-                                await this.tramitacaoService.aplicarEtiquetas(idCliente, tagsAgendar);
+                                await efeitosSincronizacaoService.executarUmaVez(efeitos, 'etiquetas', this.chaveEtiquetas(tagsAgendar),
+                                    () => this.tramitacaoService.aplicarEtiquetas(idCliente, tagsAgendar));
                                 logger.info(`[Job ${jobId}] Tags aplicadas: ${tagsAgendar.join(', ')}`);
 
                                 // Enviar WhatsApp avisando que precisa agendar (se configurado)
@@ -1131,11 +1100,19 @@ export class SincronizacaoInssService {
                                     const numeroDestino = whatsappConfig.agendamento || whatsappConfig.numeroUnico;
                                     try {
                                         if (numeroDestino) {
-                                            await whatsappService.enviar(
-                                                numeroDestino,
-                                                decodeURIComponent(mensagemAgendar)
+                                            const envio = await efeitosSincronizacaoService.executarUmaVez(
+                                                efeitos,
+                                                'whatsapp',
+                                                `agendar:${numeroDestino}`,
+                                                () => this.whatsapp.enviar(numeroDestino, decodeURIComponent(mensagemAgendar), {
+                                                    tipo: 'AGENDAMENTO_NECESSARIO',
+                                                    processoId,
+                                                    cidade: 'ESCRITORIO'
+                                                })
                                             );
-                                            logger.info(`[Job ${jobId}] WhatsApp enviado sobre necessidade de agendamento`);
+                                            if (!envio.repetido) {
+                                                logger.info(`[Job ${jobId}] WhatsApp sobre necessidade de agendamento enfileirado`);
+                                            }
                                         }
                                     } catch (error: any) {
                                         logger.warn(`[Job ${jobId}] Erro ao enviar WhatsApp: ${error.message}`);
@@ -1158,8 +1135,8 @@ export class SincronizacaoInssService {
                                 for (const agendamento of agendadas) {
                                     logger.info(`[Job ${jobId}] 📅 Avaliação Social agendada: ${agendamento.data.toLocaleDateString('pt-BR')} às ${agendamento.hora}`);
 
-                                    // Extrair detalhes completos (incluindo download do PDF e upload para Backblaze)
-                                    const detalhesAgendamento = await agendamentosService.extrairDetalhesAgendamento(page, agendamento);
+                                    // Extrair detalhes completos (incluindo download do PDF e gravação no armazenamento)
+                                    const detalhesAgendamento = await this.extrairDetalhesAgendamento(page, agendamento, efeitos, processoId);
 
                                     if (detalhesAgendamento) {
                                         // Coletar link do comprovante se disponível
@@ -1174,8 +1151,12 @@ export class SincronizacaoInssService {
                                             });
                                         }
 
+                                        // Atividade cadastrada por uma execução anterior deste mesmo estado: retomar as etapas seguintes
+                                        const chaveAgendamento = this.chaveAgendamento('AVALIACAO_SOCIAL', detalhesAgendamento.data);
+                                        const atividadeRegistrada = await efeitosSincronizacaoService.buscar(efeitos, 'atividade', chaveAgendamento);
+
                                         // Verificar se já existe atividade com mesma data antes de criar
-                                        const jaExisteAtividade = await tramitacaoSyncService.verificarAtividadeExistente(
+                                        const jaExisteAtividade = !atividadeRegistrada && await this.tramitacaoSync.verificarAtividadeExistente(
                                             parseInt(idCliente),
                                             detalhesAgendamento.data,
                                             'AVALIACAO_SOCIAL',
@@ -1184,9 +1165,11 @@ export class SincronizacaoInssService {
                                         );
 
                                         let atividadeCriada: number | null = null;
-                                        if (!jaExisteAtividade) {
+                                        if (atividadeRegistrada) {
+                                            logger.info(`[Job ${jobId}] ⏭️ Atividade AVALIACAO_SOCIAL já cadastrada por esta sincronização, retomando etapas seguintes`);
+                                        } else if (!jaExisteAtividade) {
                                             // Cadastrar atividade no Tramitação apenas se não existir
-                                            atividadeCriada = await tramitacaoSyncService.cadastrarAtividade(
+                                            atividadeCriada = await this.tramitacaoSync.cadastrarAtividade(
                                                 parseInt(idCliente),
                                                 {
                                                     tipo: 'AVALIACAO_SOCIAL',
@@ -1200,15 +1183,19 @@ export class SincronizacaoInssService {
                                                 userConfig?.tramitacaoEmail,
                                                 userConfig?.tramitacaoSenha
                                             );
+                                            if (atividadeCriada) {
+                                                await efeitosSincronizacaoService.registrar(efeitos, 'atividade', chaveAgendamento, String(atividadeCriada));
+                                            }
                                         } else {
                                             logger.info(`[Job ${jobId}] ⏭️ Atividade AVALIACAO_SOCIAL com data ${detalhesAgendamento.data.toLocaleDateString('pt-BR')} já existe, pulando para evitar duplicidade`);
                                         }
 
-                                        if (atividadeCriada) {
+                                        if (atividadeCriada || atividadeRegistrada) {
                                             logger.info(`[Job ${jobId}] ✅ Atividade de AVALIAÇÃO SOCIAL cadastrada no Tramitação`);
 
                                             // Aplicar tag
-                                            await this.tramitacaoService.aplicarEtiquetas(idCliente, ['AVALIACAO_AGENDADA']);
+                                            await efeitosSincronizacaoService.executarUmaVez(efeitos, 'etiquetas', this.chaveEtiquetas(['AVALIACAO_AGENDADA']),
+                                                () => this.tramitacaoService.aplicarEtiquetas(idCliente, ['AVALIACAO_AGENDADA']));
 
                                             // Salvar no banco
                                             if (processoId) {
@@ -1217,14 +1204,15 @@ export class SincronizacaoInssService {
                                                         INSERT INTO agendamentos (
                                                             processo_id, protocolo_inss, cpf_segurado, tipo,
                                                             data_agendamento, hora_agendamento, unidade, endereco,
-                                                            status, servico, url_comprovante
-                                                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                                                            status, servico, url_comprovante, comprovante_documento_id
+                                                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                                                         ON CONFLICT (processo_id, tipo, data_agendamento) DO UPDATE SET
                                                             hora_agendamento = EXCLUDED.hora_agendamento,
                                                             unidade = EXCLUDED.unidade,
                                                             endereco = EXCLUDED.endereco,
                                                             status = EXCLUDED.status,
                                                             url_comprovante = EXCLUDED.url_comprovante,
+                                                            comprovante_documento_id = COALESCE(EXCLUDED.comprovante_documento_id, agendamentos.comprovante_documento_id),
                                                             updated_at = NOW()
                                                     `, [
                                                         processoId,
@@ -1237,8 +1225,10 @@ export class SincronizacaoInssService {
                                                         detalhesAgendamento.endereco || null,
                                                         'AGENDADO',
                                                         detalhesAgendamento.servico || null,
-                                                        detalhesAgendamento.urlComprovante || null
+                                                        detalhesAgendamento.urlComprovante || null,
+                                                        detalhesAgendamento.comprovanteDocumentoId || null
                                                     ]);
+                                                    await this.marcarAgendamentosRemarcados(processoId, 'AVALIACAO_SOCIAL', detalhesAgendamento.data);
                                                     logger.info(`[Job ${jobId}] ✅ Agendamento salvo no banco`);
                                                 } catch (error: any) {
                                                     logger.warn(`[Job ${jobId}] ⚠️ Erro ao salvar agendamento no banco: ${error.message}`);
@@ -1273,11 +1263,11 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                             );
 
                                             if (!notaAvaliacaoSimilar) {
-                                                await this.tramitacaoService.criarNota(idCliente, {
+                                                await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', chaveAgendamento, () => this.tramitacaoService.criarNota(idCliente, {
                                                     titulo: `📅 AVALIAÇÃO SOCIAL Agendada - ${dataFormatadaAvaliacao}`,
                                                     texto: conteudoNotaAvaliacao,
                                                     tipo: 'INFORMACAO'
-                                                });
+                                                }));
                                                 logger.info(`[Job ${jobId}] ✅ Nota de avaliação social criada separadamente`);
                                             } else {
                                                 logger.info(`[Job ${jobId}] ⏭️ Nota de avaliação social similar já existe, pulando para evitar duplicidade`);
@@ -1285,6 +1275,7 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
 
                                             // Enviar notificação WhatsApp para escritório
                                             await this.enviarNotificacaoAgendamento(
+                                                efeitos,
                                                 idCliente,
                                                 detalhes.nome,
                                                 detalhes.cpf,
@@ -1319,8 +1310,8 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                 for (const agendamento of agendadas) {
                                     logger.info(`[Job ${jobId}] 📅 Perícia Médica agendada: ${agendamento.data.toLocaleDateString('pt-BR')} às ${agendamento.hora}`);
 
-                                    // Extrair detalhes completos (incluindo download do PDF e upload para Backblaze)
-                                    const detalhesAgendamento = await agendamentosService.extrairDetalhesAgendamento(page, agendamento);
+                                    // Extrair detalhes completos (incluindo download do PDF e gravação no armazenamento)
+                                    const detalhesAgendamento = await this.extrairDetalhesAgendamento(page, agendamento, efeitos, processoId);
 
                                     if (detalhesAgendamento) {
                                         // Coletar link do comprovante se disponível
@@ -1335,8 +1326,12 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                             });
                                         }
 
+                                        // Atividade cadastrada por uma execução anterior deste mesmo estado: retomar as etapas seguintes
+                                        const chaveAgendamento = this.chaveAgendamento('PERICIA', detalhesAgendamento.data);
+                                        const atividadeRegistrada = await efeitosSincronizacaoService.buscar(efeitos, 'atividade', chaveAgendamento);
+
                                         // Verificar se já existe atividade com mesma data antes de criar
-                                        const jaExisteAtividade = await tramitacaoSyncService.verificarAtividadeExistente(
+                                        const jaExisteAtividade = !atividadeRegistrada && await this.tramitacaoSync.verificarAtividadeExistente(
                                             parseInt(idCliente),
                                             detalhesAgendamento.data,
                                             'PERICIA',
@@ -1345,9 +1340,11 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                         );
 
                                         let atividadeCriada: number | null = null;
-                                        if (!jaExisteAtividade) {
+                                        if (atividadeRegistrada) {
+                                            logger.info(`[Job ${jobId}] ⏭️ Atividade PERICIA já cadastrada por esta sincronização, retomando etapas seguintes`);
+                                        } else if (!jaExisteAtividade) {
                                             // Cadastrar atividade no Tramitação apenas se não existir
-                                            atividadeCriada = await tramitacaoSyncService.cadastrarAtividade(
+                                            atividadeCriada = await this.tramitacaoSync.cadastrarAtividade(
                                                 parseInt(idCliente),
                                                 {
                                                     tipo: 'PERICIA',
@@ -1361,15 +1358,19 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                                 userConfig?.tramitacaoEmail,
                                                 userConfig?.tramitacaoSenha
                                             );
+                                            if (atividadeCriada) {
+                                                await efeitosSincronizacaoService.registrar(efeitos, 'atividade', chaveAgendamento, String(atividadeCriada));
+                                            }
                                         } else {
                                             logger.info(`[Job ${jobId}] ⏭️ Atividade PERICIA com data ${detalhesAgendamento.data.toLocaleDateString('pt-BR')} já existe, pulando para evitar duplicidade`);
                                         }
 
-                                        if (atividadeCriada) {
+                                        if (atividadeCriada || atividadeRegistrada) {
                                             logger.info(`[Job ${jobId}] ✅ Atividade de PERÍCIA MÉDICA cadastrada no Tramitação`);
 
                                             // Aplicar tag
-                                            await this.tramitacaoService.aplicarEtiquetas(idCliente, ['PERICIA_AGENDADA']);
+                                            await efeitosSincronizacaoService.executarUmaVez(efeitos, 'etiquetas', this.chaveEtiquetas(['PERICIA_AGENDADA']),
+                                                () => this.tramitacaoService.aplicarEtiquetas(idCliente, ['PERICIA_AGENDADA']));
 
                                             // Salvar no banco
                                             if (processoId) {
@@ -1378,14 +1379,15 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                                         INSERT INTO agendamentos (
                                                             processo_id, protocolo_inss, cpf_segurado, tipo,
                                                             data_agendamento, hora_agendamento, unidade, endereco,
-                                                            status, servico, url_comprovante
-                                                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                                                            status, servico, url_comprovante, comprovante_documento_id
+                                                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                                                         ON CONFLICT (processo_id, tipo, data_agendamento) DO UPDATE SET
                                                             hora_agendamento = EXCLUDED.hora_agendamento,
                                                             unidade = EXCLUDED.unidade,
                                                             endereco = EXCLUDED.endereco,
                                                             status = EXCLUDED.status,
                                                             url_comprovante = EXCLUDED.url_comprovante,
+                                                            comprovante_documento_id = COALESCE(EXCLUDED.comprovante_documento_id, agendamentos.comprovante_documento_id),
                                                             updated_at = NOW()
                                                     `, [
                                                         processoId,
@@ -1398,8 +1400,10 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                                         detalhesAgendamento.endereco || null,
                                                         'AGENDADO',
                                                         detalhesAgendamento.servico || null,
-                                                        detalhesAgendamento.urlComprovante || null
+                                                        detalhesAgendamento.urlComprovante || null,
+                                                        detalhesAgendamento.comprovanteDocumentoId || null
                                                     ]);
+                                                    await this.marcarAgendamentosRemarcados(processoId, 'PERICIA', detalhesAgendamento.data);
                                                     logger.info(`[Job ${jobId}] ✅ Agendamento salvo no banco`);
                                                 } catch (error: any) {
                                                     logger.warn(`[Job ${jobId}] ⚠️ Erro ao salvar agendamento no banco: ${error.message}`);
@@ -1434,11 +1438,11 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
                                             );
 
                                             if (!notaPericiaSimilar) {
-                                                await this.tramitacaoService.criarNota(idCliente, {
+                                                await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', chaveAgendamento, () => this.tramitacaoService.criarNota(idCliente, {
                                                     titulo: `📅 PERÍCIA MÉDICA Agendada - ${dataFormatadaPericia}`,
                                                     texto: conteudoNotaPericia,
                                                     tipo: 'INFORMACAO'
-                                                });
+                                                }));
                                                 logger.info(`[Job ${jobId}] ✅ Nota de perícia médica criada separadamente`);
                                             } else {
                                                 logger.info(`[Job ${jobId}] ⏭️ Nota de perícia médica similar já existe, pulando para evitar duplicidade`);
@@ -1446,6 +1450,7 @@ https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}
 
                                             // Enviar notificação WhatsApp para escritório
                                             await this.enviarNotificacaoAgendamento(
+                                                efeitos,
                                                 idCliente,
                                                 detalhes.nome,
                                                 detalhes.cpf,
@@ -1603,13 +1608,15 @@ ${textoExigencia || analiseIA.motivo_ia || 'Nenhuma informação adicional'}
             }
 
             // Criar nota
-            const notaCriada = await this.tramitacaoService.criarNota(idCliente, {
-                titulo: tituloNota,
-                texto: conteudoNota,
-                tipo: tipoNota,
-            });
-
-            if (!notaCriada) {
+            const nota = await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', 'atualizacao',
+                () => this.tramitacaoService.criarNota(idCliente, {
+                    titulo: tituloNota,
+                    texto: conteudoNota,
+                    tipo: tipoNota,
+                }));
+            const notaCriada = nota.valor || nota.referencia;
+
+            if (!nota.repetido && !notaCriada) {
                 logger.error(`[Job ${jobId}] ❌ FALHA CRÍTICA: Não foi possível criar nota no Tramitação!`);
                 return {
                     clienteCriado: false,
@@ -1813,11 +1820,11 @@ ${linkProcesso}
                 logger.warn(`[Job ${jobId}] ⚠️ Nenhum destinatário configurado para este tipo de status. Pulando envio de WhatsApp.`);
             } else {
                 // Verificar se WhatsApp está pronto (aguardar se necessário)
-                let whatsappPronto = whatsappService.isConfigured();
+                let whatsappPronto = this.whatsapp.isConfigured();
 
                 if (!whatsappPronto) {
                     logger.warn(`[Job ${jobId}] ⏳ WhatsApp ainda não está pronto, aguardando até 10s...`);
-                    whatsappPronto = await whatsappService.aguardarPronto(10000);
+                    whatsappPronto = await this.whatsapp.aguardarPronto(10000);
                 }
 
                 if (!whatsappPronto) {
@@ -1830,7 +1837,7 @@ ${linkProcesso}
                         try {
                             logger.info(`[Job ${jobId}] 📱 Enviando para ${destinatario.nome} (${destinatario.telefone})...`);
 
-                            const enviado = await whatsappService.enviar(
+                            const enviado = await this.whatsapp.enviar(
                                 destinatario.telefone,
                                 destinatario.mensagem
                             );
@@ -1870,7 +1877,7 @@ ${linkProcesso}
             logger.info(`[Job ${jobId}] 📱 Notificações para parceiros desabilitadas temporariamente`);
 
             /*
-            if (userId && whatsappService.isConfigured()) {
+            if (userId) {
                 try {
                     // Determinar tipo de status para notificação de parceiros
                     let tipoStatusParceiro: 'EXIGENCIA' | 'DEFERIDO' | 'INDEFERIDO' | 'AGENDAMENTO' | 'EM_ANALISE' = 'EXIGENCIA';
@@ -1893,7 +1900,7 @@ ${linkProcesso}
                         for (const { parceiro } of parceirosAtivos) {
                             try {
                                 // Montar mensagem personalizada para o parceiro
-                                const mensagemParceiro = parceirosService.gerarMensagemParceiro(parceiro, {
+                                const mensagemParceiro = await parceirosService.gerarMensagemParceiro(parceiro, {
                                     nomeCliente: detalhes.nome || 'Não informado',
                                     cpfMascarado,
                                     protocolo,
@@ -1903,21 +1910,29 @@ ${linkProcesso}
                                     sugestaoAcao: ehIndeferido ? (tipoIndeferimento === 'CULPA'
                                         ? 'Fazer nova entrada administrativa'
                                         : 'Processo convertido para fase JUDICIAL') : undefined,
-                                    linkProcesso: parceiro.incluirLinkProcesso ? linkProcesso : undefined,
+                                    processoId,
                                     comprovantes: comprovantesAgendamentos.map(c => ({ tipo: c.tipo, url: c.url })),
                                     analiseIA: analiseIA.motivo_ia
                                 });
 
-                                logger.info(`[Job ${jobId}] Enviando para parceiro: ${parceiro.nomeEtiqueta} (${parceiro.telefone})`);
-
-                                const enviado = await whatsappService.enviar(
-                                    parceiro.telefone,
-                                    mensagemParceiro
-                                );
+                                logger.info(`[Job ${jobId}] Enviando para parceiro: ${parceiro.nomeEtiqueta} (canal: ${parceiro.canalPreferido})`);
+
+                                // Canal preferido do parceiro; por e-mail os comprovantes vão anexados
+                                const canal = await this.canais.enviar(parceirosService.contatoParceiro(parceiro), {
+                                    assunto: `Atualização do processo ${protocolo} - ${detalhes.nome || 'Cliente'}`,
+                                    mensagem: mensagemParceiro,
+                                    anexos: parceiro.incluirComprovantes
+                                        ? comprovantesAgendamentos.map(c => ({ nomeArquivo: `${c.tipo}-${protocolo}.pdf`, url: c.url, contentType: 'application/pdf' }))
+                                        : [],
+                                    usuarioId: userId,
+                                    origem: 'sincronizacao',
+                                    tipo: `PARCEIRO_${tipoStatusParceiro}`,
+                                    processoId,
+                                    parceiroId: parceiro.id,
+                                    cidade: 'PARCEIRO'
+                                });
 
-                                if (enviado) {
-                                    logger.info(`[Job ${jobId}] Mensagem enviada para parceiro ${parceiro.nomeEtiqueta}`);
-                                }
+                                logger.info(`[Job ${jobId}] Mensagem (${canal}) enviada para parceiro ${parceiro.nomeEtiqueta}`);
                             } catch (erroParceiro: any) {
                                 logger.warn(`[Job ${jobId}] Erro ao notificar parceiro ${parceiro.nomeEtiqueta}: ${erroParceiro.message}`);
                             }
@@ -1946,6 +1961,7 @@ ${linkProcesso}
      * Agora suporta configurações personalizadas de WhatsApp do usuário
      */
     private async enviarNotificacaoAgendamento(
+        efeitos: ContextoEfeitos,
         clienteId: string,
         nomeCliente: string,
         cpfCliente: string,
@@ -1969,6 +1985,7 @@ ${linkProcesso}
     ): Promise<void> {
         try {
             const tipoTexto = tipo === 'PERICIA' ? 'PERÍCIA MÉDICA' : 'AVALIAÇÃO SOCIAL';
+            const chaveAgendamento = this.chaveAgendamento(tipo, data);
             // Mascarar CPF para WhatsApp (padrão: 000.XXX.X0X-00)
             const mascararCpfWhatsApp = (cpf: string): string => {
                 const cpfLimpo = cpf.replace(/\D/g, '');
@@ -2026,11 +2043,12 @@ ${linkProcesso}
                     (urlComprovante ? `%0A*📄 Comprovante*:%0A${urlComprovante}%0A` : '') +
                     `%0A📅 Extraído automaticamente do PAT via IA em: ${dataHoraAtual}`;
 
-                await this.tramitacaoService.criarNota(clienteId, {
-                    titulo: `📅 ${tipoTexto} Agendada - ${dataFormatada}`,
-                    texto: decodeURIComponent(conteudoNota),
-                    tipo: 'INFORMACAO'
-                });
+                await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', `notificacao:${chaveAgendamento}`,
+                    () => this.tramitacaoService.criarNota(clienteId, {
+                        titulo: `📅 ${tipoTexto} Agendada - ${dataFormatada}`,
+                        texto: decodeURIComponent(conteudoNota),
+                        tipo: 'INFORMACAO'
+                    }));
 
                 return;
             }
@@ -2054,13 +2072,22 @@ ${linkProcesso}
                 return;
             }
 
-            const enviado = await whatsappService.enviar(
-                telefoneDestino,
-                decodeURIComponent(mensagemWhatsApp)
+            const envio = await efeitosSincronizacaoService.executarUmaVez(
+                efeitos,
+                'whatsapp',
+                `${chaveAgendamento}:${telefoneDestino}`,
+                () => this.whatsapp.enviar(telefoneDestino, decodeURIComponent(mensagemWhatsApp), {
+                    tipo: 'AGENDAMENTO_CADASTRO',
+                    processoId,
+                    cidade: 'ESCRITORIO'
+                })
             );
 
-            if (enviado) {
-                logger.info(`✅ Notificação de ${tipoTexto} enviada para ${nomeDestinatario} (${telefoneDestino})`);
+            // Mensagem já enfileirada antes: só garante a nota (também registrada no ledger)
+            if (envio.repetido || envio.valor) {
+                if (envio.valor) {
+                    logger.info(`✅ Notificação de ${tipoTexto} enfileirada para ${nomeDestinatario} (${telefoneDestino})`);
+                }
 
                 // Registrar nas notas
                 const conteudoNota = `*📅 ${tipoTexto} AGENDADA*%0A%0A` +
@@ -2076,30 +2103,12 @@ ${linkProcesso}
                     `https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/${protocolo}%0A%0A` +
                     `---%0A%0A📅 Extraído automaticamente do PAT via IA em: ${dataHoraAtual}`;
 
-                await this.tramitacaoService.criarNota(clienteId, {
-                    titulo: `📅 ${tipoTexto} Agendada - ${dataFormatada}`,
-                    texto: decodeURIComponent(conteudoNota),
-                    tipo: 'INFORMACAO'
-                });
-
-                // Salvar notificação no banco
-                if (processoId) {
-                    try {
-                        await Database.query(`
-                            INSERT INTO notificacoes_whatsapp (
-                                processo_id, tipo, telefone_destino, cidade, mensagem, enviada, data_envio
-                            ) VALUES ($1, $2, $3, $4, $5, true, NOW())
-                        `, [
-                            processoId,
-                            'AGENDAMENTO_CADASTRO',
-                            telefoneDestino,
-                            'ESCRITORIO',
-                            decodeURIComponent(mensagemWhatsApp)
-                        ]);
-                    } catch (error: any) {
-                        logger.warn(`⚠️ Erro ao salvar notificação no banco: ${error.message}`);
-                    }
-                }
+                await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', `notificacao:${chaveAgendamento}`,
+                    () => this.tramitacaoService.criarNota(clienteId, {
+                        titulo: `📅 ${tipoTexto} Agendada - ${dataFormatada}`,
+                        texto: decodeURIComponent(conteudoNota),
+                        tipo: 'INFORMACAO'
+                    }));
             } else {
                 logger.warn(`⚠️ Falha ao enviar notificação de ${tipoTexto} para ${nomeDestinatario}`);
             }
@@ -2119,6 +2128,7 @@ ${linkProcesso}
         jobId: string,
         protocolo: string,
         detalhes: any,
+        efeitos: ContextoEfeitos,
         userId?: string,
         userConfig?: {
             geminiApiKey?: string;
@@ -2133,10 +2143,8 @@ ${linkProcesso}
         try {
             logger.info(`📋 [Job ${jobId}] Processando protocolo ${protocolo} em "Em Análise"...`);
 
-            // Usar token do usuário se fornecido
-            const tramitacaoService = userConfig?.tramitacaoApiToken
-                ? new TramitacaoService(userConfig.tramitacaoApiToken)
-                : this.tramitacaoService;
+            // Já configurado com as credenciais do usuário (ou simulado em dry-run)
+            const tramitacaoService = this.tramitacaoService;
 
             // 1. Verificar se cliente existe no Tramitação via API
             logger.info(`[Job ${jobId}] 🔍 Verificando se cliente existe no Tramitação via API...`);
@@ -2229,7 +2237,8 @@ ${linkProcesso}
                         });
 
                         // Aplicar tags atualizadas
-                        await tramitacaoService.aplicarEtiquetas(idCliente, tagsValidas);
+                        await efeitosSincronizacaoService.executarUmaVez(efeitos, 'etiquetas', this.chaveEtiquetas(tagsValidas),
+                            () => tramitacaoService.aplicarEtiquetas(idCliente, tagsValidas));
                         logger.info(`[Job ${jobId}] ✅ Tags atualizadas: ${tagsValidas.join(', ')}`);
                     } else {
                         logger.info(`[Job ${jobId}] ✅ Tags já estão atualizadas`);
@@ -2258,12 +2267,15 @@ ${linkProcesso}
 
             if (!notaSimilar) {
                 try {
-                    await tramitacaoService.criarNota(idCliente, {
-                        titulo: `Protocolo INSS ${protocolo} - Em Análise`,
-                        texto: conteudoNota,
-                        tipo: 'INFORMACAO'
-                    });
-                    logger.info(`[Job ${jobId}] ✅ Nota adicionada com sucesso`);
+                    const nota = await efeitosSincronizacaoService.executarUmaVez(efeitos, 'nota', 'em_analise',
+                        () => tramitacaoService.criarNota(idCliente, {
+                            titulo: `Protocolo INSS ${protocolo} - Em Análise`,
+                            texto: conteudoNota,
+                            tipo: 'INFORMACAO'
+                        }));
+                    if (!nota.repetido) {
+                        logger.info(`[Job ${jobId}] ✅ Nota adicionada com sucesso`);
+                    }
                 } catch (error: any) {
                     logger.warn(`[Job ${jobId}] ⚠️ Erro ao criar nota (não crítico): ${error.message}`);
                 }
@@ -2291,7 +2303,7 @@ ${linkProcesso}
                         for (const agendamento of agendadas) {
                             try {
                                 // Verificar se já existe atividade com mesma data
-                                const jaExiste = await tramitacaoSyncService.verificarAtividadeExistente(
+                                const jaExiste = await this.tramitacaoSync.verificarAtividadeExistente(
                                     idCliente,
                                     agendamento.data,
                                     agendamento.tipo,
@@ -2312,19 +2324,29 @@ ${linkProcesso}
                                 const horaStr = agendamento.hora; // Já está no formato HH:mm
 
                                 // Criar atividade via TramitacaoSyncService
-                                const atividadeId = await tramitacaoSyncService.cadastrarAtividade(
-                                    idCliente,
-                                    {
-                                        tipo,
-                                        data: dataAgendamento,
-                                        hora: horaStr,
-                                        unidade: agendamento.unidade || 'Não informado',
-                                        endereco: agendamento.endereco,
-                                        servico: detalhes.servico
-                                    },
-                                    userConfig?.tramitacaoEmail,
-                                    userConfig?.tramitacaoSenha
+                                const atividade = await efeitosSincronizacaoService.executarUmaVez(
+                                    efeitos,
+                                    'atividade',
+                                    this.chaveAgendamento(tipo, dataAgendamento),
+                                    () => this.tramitacaoSync.cadastrarAtividade(
+                                        idCliente,
+                                        {
+                                            tipo,
+                                            data: dataAgendamento,
+                                            hora: horaStr,
+                                            unidade: agendamento.unidade || 'Não informado',
+                                            endereco: agendamento.endereco,
+                                            servico: detalhes.servico
+                                        },
+                                        userConfig?.tramitacaoEmail,
+                                        userConfig?.tramitacaoSenha
+                                    )
                                 );
+                                const atividadeId = atividade.valor;
+
+                                if (atividade.repetido) {
+                                    continue;
+                                }
 
                                 if (atividadeId) {
                                     logger.info(`[Job ${jobId}] ✅ Atividade criada com sucesso (ID: ${atividadeId})`);
@@ -2356,5 +2378,77 @@ ${linkProcesso}
             };
         }
     }
-}
 
+    /**
+     * Chave do efeito de etiquetas: mesmo conjunto de tags, independente da ordem
+     */
+    private chaveEtiquetas(tags: string[]): string {
+        return tags.map(tag => tag.toUpperCase()).sort().join(',');
+    }
+
+    /**
+     * Chave dos efeitos de um agendamento (atividade, nota, comprovante, WhatsApp)
+     */
+    private chaveAgendamento(tipo: 'PERICIA' | 'AVALIACAO_SOCIAL', data: Date): string {
+        return `${tipo}:${data.toLocaleDateString('pt-BR')}`;
+    }
+
+    /**
+     * Nova data agendada para o processo: as datas anteriores ainda AGENDADO viram REMARCADO
+     * (o feed de calendário atualiza o evento em vez de duplicar)
+     */
+    private async marcarAgendamentosRemarcados(
+        processoId: string,
+        tipo: 'PERICIA' | 'AVALIACAO_SOCIAL',
+        novaData: Date
+    ): Promise<void> {
+        await Database.query(`
+            UPDATE agendamentos
+            SET status = 'REMARCADO',
+                updated_at = NOW()
+            WHERE processo_id = $1
+              AND tipo = $2
+              AND status = 'AGENDADO'
+              AND data_agendamento <> $3
+        `, [processoId, tipo, novaData]);
+    }
+
+    /**
+     * Extrai detalhes do agendamento sem repetir o upload de um comprovante já registrado
+     * para este estado do card
+     * O ledger guarda o id do documento: o link assinado expira e é gerado de novo a cada uso
+     */
+    private async extrairDetalhesAgendamento(
+        page: Page,
+        agendamento: Agendamento,
+        efeitos: ContextoEfeitos,
+        processoId: string | null
+    ): Promise<AgendamentoDetalhado | null> {
+        const chave = this.chaveAgendamento(agendamento.tipo, agendamento.data);
+        const comprovante = await efeitosSincronizacaoService.buscar(efeitos, 'comprovante', chave);
+
+        const detalhesAgendamento = await agendamentosService.extrairDetalhesAgendamento(page, agendamento, {
+            baixarComprovante: !comprovante,
+            armazenamento: this.armazenamento,
+            processoId
+        });
+        if (!detalhesAgendamento) {
+            return null;
+        }
+
+        if (comprovante) {
+            const documentoId = comprovante.referencia && ID_DOCUMENTO.test(comprovante.referencia) ? comprovante.referencia : null;
+            detalhesAgendamento.comprovanteDocumentoId = documentoId || undefined;
+            detalhesAgendamento.urlComprovante = armazenamentoService.linkOuUrl(documentoId, documentoId ? null : comprovante.referencia) || undefined;
+        } else if (detalhesAgendamento.urlComprovante) {
+            await efeitosSincronizacaoService.registrar(
+                efeitos,
+                'comprovante',
+                chave,
+                detalhesAgendamento.comprovanteDocumentoId || detalhesAgendamento.urlComprovante
+            );
+        }
+
+        return detalhesAgendamento;
+    }
+}
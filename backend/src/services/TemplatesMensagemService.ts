@@ -0,0 +1,201 @@
+/**
+ * Serviço de Templates de Mensagens
+ *
+ * Monta os textos de WhatsApp e das notas do Tramitação a partir dos templates
+ * (utils/templatesMensagem.ts). Cada escritório pode substituir o template de um evento
+ * na tabela templates_mensagem, sem redeploy (cache de 1 minuto).
+ *
+ * Ordem de busca: template do escritório → template do escritório central
+ * (WHATSAPP_USUARIO_CENTRAL, usado nas mensagens sem escritório, como os lembretes) → padrão do código.
+ * Template personalizado com erro cai no padrão (e registra o erro no log).
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import {
+    DefinicaoTemplateMensagem,
+    EVENTOS_TEMPLATE_MENSAGEM,
+    TEMPLATES_MENSAGEM_PADRAO,
+    TemplateMensagem,
+    renderizarTemplate,
+    validarTemplateMensagem,
+} from '../utils/templatesMensagem';
+
+export interface MensagemRenderizada {
+    titulo: string;
+    texto: string;
+}
+
+export interface TemplateMensagemConfigurado {
+    evento: string;
+    descricao: string;
+    canal: DefinicaoTemplateMensagem['canal'];
+    variaveis: Record<string, string>;
+    titulo: string | null;
+    conteudo: string;
+    personalizado: boolean; // true = template do escritório
+    padrao: TemplateMensagem;
+    atualizadoEm: Date | null;
+}
+
+export class TemplatesMensagemService {
+    private cache = new Map<string, { templates: Map<string, any>; timestamp: number }>();
+    private cacheTTL = 60 * 1000; // 1 minuto
+
+    /**
+     * Título e texto do evento com os dados informados
+     * @param usuarioId escritório (usuário da extensão); sem ele, vale o escritório central
+     */
+    async renderizar(evento: string, dados: Record<string, unknown>, usuarioId?: string | null): Promise<MensagemRenderizada> {
+        const definicao = this.obterDefinicao(evento);
+
+        for (const dono of this.donosPossiveis(usuarioId)) {
+            const row = (await this.carregarPersonalizados(dono)).get(evento);
+            if (!row) continue;
+
+            try {
+                return {
+                    titulo: renderizarTemplate(row.titulo || definicao.titulo || '', dados),
+                    texto: renderizarTemplate(row.conteudo, dados),
+                };
+            } catch (error: any) {
+                logger.warn(`[TemplatesMensagem] ⚠️ Template "${evento}" do usuário ${dono} inválido (usando padrão): ${error.message}`);
+                break;
+            }
+        }
+
+        return {
+            titulo: renderizarTemplate(definicao.titulo || '', dados),
+            texto: renderizarTemplate(definicao.conteudo, dados),
+        };
+    }
+
+    /**
+     * Renderiza um template (o informado, ou o atual do escritório) com os dados de exemplo do evento
+     * @param dados sobrescrevem os dados de exemplo
+     */
+    async preview(
+        evento: string,
+        usuarioId: string,
+        template?: Partial<TemplateMensagem>,
+        dados?: Record<string, unknown>
+    ): Promise<MensagemRenderizada> {
+        const definicao = this.obterDefinicao(evento);
+        const atual = (await this.carregarPersonalizados(usuarioId)).get(evento);
+
+        const conteudo = template?.conteudo ?? atual?.conteudo ?? definicao.conteudo;
+        const titulo = template?.titulo ?? atual?.titulo ?? definicao.titulo ?? '';
+        const valores = { ...definicao.exemplo, ...(dados || {}) };
+
+        return {
+            titulo: renderizarTemplate(titulo, valores),
+            texto: renderizarTemplate(conteudo, valores),
+        };
+    }
+
+    async listar(usuarioId: string): Promise<TemplateMensagemConfigurado[]> {
+        this.limparCache(usuarioId);
+        const personalizados = await this.carregarPersonalizados(usuarioId);
+
+        return EVENTOS_TEMPLATE_MENSAGEM.map(evento => {
+            const definicao = TEMPLATES_MENSAGEM_PADRAO[evento];
+            const row = personalizados.get(evento);
+
+            return {
+                evento,
+                descricao: definicao.descricao,
+                canal: definicao.canal,
+                variaveis: definicao.variaveis,
+                titulo: row?.titulo ?? definicao.titulo ?? null,
+                conteudo: row?.conteudo ?? definicao.conteudo,
+                personalizado: !!row,
+                padrao: { titulo: definicao.titulo ?? null, conteudo: definicao.conteudo },
+                atualizadoEm: row?.updated_at ?? null,
+            };
+        });
+    }
+
+    /**
+     * Substitui o template do evento para o escritório
+     */
+    async salvar(usuarioId: string, evento: string, template: TemplateMensagem): Promise<void> {
+        const definicao = this.obterDefinicao(evento);
+
+        await Database.query(`
+            INSERT INTO templates_mensagem (user_id, evento, titulo, conteudo, updated_at)
+            VALUES ($1, $2, $3, $4, NOW())
+            ON CONFLICT (user_id, evento) DO UPDATE SET
+                titulo = $3, conteudo = $4, updated_at = NOW()
+        `, [usuarioId, evento, definicao.canal === 'nota' ? template.titulo || null : null, template.conteudo]);
+
+        this.limparCache(usuarioId);
+        logger.info(`[TemplatesMensagem] ✏️ Template "${evento}" atualizado pelo usuário ${usuarioId}`);
+    }
+
+    /**
+     * Volta o evento para o template padrão do código
+     */
+    async restaurarPadrao(usuarioId: string, evento: string): Promise<void> {
+        await Database.query('DELETE FROM templates_mensagem WHERE user_id = $1 AND evento = $2', [usuarioId, evento]);
+        this.limparCache(usuarioId);
+    }
+
+    eventoExiste(evento: string): boolean {
+        return EVENTOS_TEMPLATE_MENSAGEM.includes(evento);
+    }
+
+    validar(evento: string, template: Partial<TemplateMensagem>): string[] {
+        return validarTemplateMensagem(evento, template);
+    }
+
+    limparCache(usuarioId?: string): void {
+        if (usuarioId) {
+            this.cache.delete(usuarioId);
+        } else {
+            this.cache.clear();
+        }
+    }
+
+    private obterDefinicao(evento: string): DefinicaoTemplateMensagem {
+        const definicao = TEMPLATES_MENSAGEM_PADRAO[evento];
+        if (!definicao) {
+            throw new Error(`Evento de template desconhecido: ${evento}`);
+        }
+        return definicao;
+    }
+
+    private donosPossiveis(usuarioId?: string | null): string[] {
+        const donos = [usuarioId, config.whatsapp.usuarioCentral].filter((id): id is string => !!id);
+        return Array.from(new Set(donos));
+    }
+
+    /**
+     * Templates do escritório por evento
+     * Sem banco, os padrões do código continuam valendo
+     */
+    private async carregarPersonalizados(usuarioId: string): Promise<Map<string, any>> {
+        const emCache = this.cache.get(usuarioId);
+        if (emCache && Date.now() - emCache.timestamp < this.cacheTTL) {
+            return emCache.templates;
+        }
+
+        const templates = new Map<string, any>();
+        try {
+            const rows = await Database.query(
+                'SELECT evento, titulo, conteudo, updated_at FROM templates_mensagem WHERE user_id = $1',
+                [usuarioId]
+            );
+            for (const row of rows) {
+                templates.set(row.evento, row);
+            }
+        } catch (error: any) {
+            logger.warn(`[TemplatesMensagem] ⚠️ Erro ao carregar templates do banco (usando padrões): ${error.message}`);
+        }
+
+        this.cache.set(usuarioId, { templates, timestamp: Date.now() });
+        return templates;
+    }
+}
+
+export default new TemplatesMensagemService();
@@ -3,8 +3,9 @@ import config from '../config';
 import logger from '../utils/logger';
 import { organizarTagsComCores, tagsParaStrings, extrairNomesTags } from '../utils/tags-organizer';
 import tramitacaoSyncService from './TramitacaoSyncService';
+import templatesMensagemService from './TemplatesMensagemService';
 
-type ClienteTramitacaoBasico = {
+export type ClienteTramitacaoBasico = {
     id: string;
     nome: string;
     cpf: string;
@@ -36,7 +37,10 @@ export class TramitacaoService {
     private tramitacaoEmail: string | null = null;
     private tramitacaoSenha: string | null = null;
 
-    constructor(apiToken?: string, email?: string, senha?: string) {
+    // Escritório dono do token: define os templates das notas (TemplatesMensagemService)
+    private usuarioId: string | null = null;
+
+    constructor(apiToken?: string, email?: string, senha?: string, usuarioId?: string) {
         // ⚠️ SEGURANÇA: NUNCA usar fallback de token padrão
         // Token deve ser sempre fornecido pelo usuário
         // Warnings só serão exibidos quando o serviço for realmente usado sem credenciais
@@ -46,6 +50,7 @@ export class TramitacaoService {
         // Armazenar credenciais para o SyncService
         this.tramitacaoEmail = email || null;
         this.tramitacaoSenha = senha || null;
+        this.usuarioId = usuarioId || null;
     }
 
     /**
@@ -861,7 +866,7 @@ export class TramitacaoService {
      * @param tag Nome da tag
      * @returns true se a tag é do sistema
      */
-    private isTagDoSistema(tag: string): boolean {
+    protected isTagDoSistema(tag: string): boolean {
         const tagUpper = tag.toUpperCase().trim();
 
         // Fases
@@ -1256,23 +1261,19 @@ export class TramitacaoService {
             }
 
             // 2. Criar nota informativa
-            const textoNota = `🔔 **NOVA EXIGÊNCIA INSS** - Protocolo ${dados.protocolo}
-
-**Benefício:** ${dados.beneficio}
-**Prazo limite:** ${dados.prazo.toLocaleDateString('pt-BR')}
-**Dias restantes:** ${Math.ceil((dados.prazo.getTime() - Date.now()) / (1000 * 60 * 60 * 24))} dias
-
-📄 **Documentos exigidos:**
-${dados.documentos.map((doc, i) => `${i + 1}. ${doc}`).join('\n')}
-
-📝 **Observações:**
-${dados.motivo}
-
-⚠️ **AÇÃO NECESSÁRIA:** Solicitar documentos à Cíntia para cumprimento da exigência.`;
+            const nota = await templatesMensagemService.renderizar('NOTA_EXIGENCIA', {
+                cliente: dados.nome,
+                protocolo: dados.protocolo,
+                beneficio: dados.beneficio,
+                prazo: dados.prazo,
+                diasRestantes: Math.ceil((dados.prazo.getTime() - Date.now()) / (1000 * 60 * 60 * 24)),
+                documentos: dados.documentos,
+                motivo: dados.motivo,
+            }, this.usuarioId);
 
             await this.criarNota(cliente.id, {
-                titulo: `Exigência INSS - ${dados.protocolo}`,
-                texto: textoNota,
+                titulo: nota.titulo,
+                texto: nota.texto,
                 tipo: 'ALERTA',
             });
 
@@ -1337,25 +1338,16 @@ ${dados.documentos.map((doc) => `• ${doc}`).join('\n')}`,
             }
 
             // Criar nota urgente
-            const textoNota = `🚨 **PROCESSO INDEFERIDO - URGENTE**
-
-🔢 **Protocolo:** ${dados.protocolo}
-🏛️ **Benefício:** ${dados.beneficio}
-👤 **Cliente:** ${dados.nome}
-
-❌ **Motivo do indeferimento:**
-${dados.motivo}
-
-⚠️ **AÇÃO IMEDIATA NECESSÁRIA:**
-1. Analisar viabilidade de recurso administrativo
-2. Avaliar necessidade de judicialização
-3. Entrar em contato com o cliente para informar e orientar
-
-⏳ **Prazo:** Recurso deve ser protocolado em até 30 dias.`;
+            const nota = await templatesMensagemService.renderizar('NOTA_INDEFERIMENTO', {
+                cliente: dados.nome,
+                protocolo: dados.protocolo,
+                beneficio: dados.beneficio,
+                motivo: dados.motivo,
+            }, this.usuarioId);
 
             await this.criarNota(cliente.id, {
-                titulo: `🚨 INDEFERIMENTO INSS - ${dados.protocolo}`,
-                texto: textoNota,
+                titulo: nota.titulo,
+                texto: nota.texto,
                 tipo: 'URGENTE',
             });
 
@@ -1430,26 +1422,19 @@ ${dados.motivo}
             }
 
             // Criar nota informativa
-            const textoNota = `📅 **PERÍCIA ${dados.tipo.toUpperCase()} AGENDADA**
-
-🔢 **Protocolo:** ${dados.protocolo}
-🏛️ **Benefício:** ${dados.beneficio}
-👤 **Cliente:** ${dados.nome}
-
-⏰ **Data da Perícia:** ${dados.dataPericia.toLocaleDateString('pt-BR')} às ${dados.dataPericia.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
-${dados.local ? `📍 **Local:** ${dados.local}` : ''}
-
-📝 **Orientações ao cliente:**
-1. Comparecer com 30 minutos de antecedência
-2. Levar documento com foto (RG ou CNH)
-3. Levar todos os exames e laudos médicos
-4. Levar lista de medicamentos em uso
-
-⚠️ **IMPORTANTE:** Confirmar comparecimento com o cliente com antecedência.`;
+            const nota = await templatesMensagemService.renderizar('NOTA_PERICIA', {
+                cliente: dados.nome,
+                protocolo: dados.protocolo,
+                beneficio: dados.beneficio,
+                tipo: dados.tipo,
+                data: dados.dataPericia.toLocaleDateString('pt-BR'),
+                hora: dados.dataPericia.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }),
+                unidade: dados.local,
+            }, this.usuarioId);
 
             await this.criarNota(cliente.id, {
-                titulo: `Perícia ${dados.tipo} agendada - ${dados.protocolo}`,
-                texto: textoNota,
+                titulo: nota.titulo,
+                texto: nota.texto,
                 tipo: 'ALERTA',
             });
 
@@ -1510,25 +1495,16 @@ ${dados.local ? `📍 **Local:** ${dados.local}` : ''}
                 return false;
             }
 
-            const textoNota = `🎉 **BENEFÍCIO DEFERIDO - SUCESSO!**
-
-🔢 **Protocolo:** ${dados.protocolo}
-🏛️ **Benefício:** ${dados.beneficio}
-👤 **Cliente:** ${dados.nome}
-
-✅ **Status:** Processo deferido pelo INSS
-
-${dados.motivo}
-
-🚀 **Próximos passos:**
-1. Informar o cliente sobre o deferimento
-2. Orientar sobre início do pagamento
-3. Solicitar carta de concessão (se necessário)
-4. Arquivar documentação do processo`;
+            const nota = await templatesMensagemService.renderizar('NOTA_DEFERIMENTO', {
+                cliente: dados.nome,
+                protocolo: dados.protocolo,
+                beneficio: dados.beneficio,
+                motivo: dados.motivo,
+            }, this.usuarioId);
 
             await this.criarNota(cliente.id, {
-                titulo: `✅ Benefício DEFERIDO - ${dados.protocolo}`,
-                texto: textoNota,
+                titulo: nota.titulo,
+                texto: nota.texto,
                 tipo: 'INFORMACAO',
             });
 
@@ -0,0 +1,180 @@
+/**
+ * Mensagens WhatsApp recebidas
+ *
+ * Quem responde a uma notificação é identificado pela última mensagem enviada ao telefone pela
+ * sessão que recebeu a resposta (WhatsAppOutboxService.buscarPorTelefone, a mesma busca de
+ * /notificacoes/whatsapp/buscar-por-telefone):
+ * - anexo (foto do RG, PDF) → documentos vinculado à exigência aberta + tarefa ANEXAR_DOCUMENTO
+ *   (mesmos formatos e limite de tamanho do portal do parceiro)
+ * - palavra-chave ("ok, recebi", "enviado") → confirmação da notificação (confirmacoes_documentos)
+ * - outro texto, ou com negação ("não recebi", "mandei não") → guardado como resposta da notificação
+ *
+ * Cada mensagem fica registrada em whatsapp_mensagens_recebidas (e é tratada uma única vez)
+ */
+
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import whatsappService, { MensagemRecebidaWhatsApp } from './WhatsAppService';
+import whatsappOutboxService, { SESSAO_LEGADA } from './WhatsAppOutboxService';
+import documentosRecebidosService, { EXTENSOES_DOCUMENTO } from './DocumentosRecebidosService';
+
+export type AcaoMensagemRecebida = 'CONFIRMACAO' | 'DOCUMENTO' | 'RESPOSTA' | 'SEM_VINCULO' | 'ERRO';
+
+// Respostas que confirmam o recebimento da notificação
+const PALAVRAS_CONFIRMACAO = ['ok', 'okay', 'recebi', 'recebido', 'ciente', 'confirmo', 'confirmado', 'certo', 'entendi', 'sim'];
+
+// Respostas que avisam que os documentos da exigência foram enviados
+const PALAVRAS_DOCUMENTOS_ENVIADOS = ['enviado', 'enviados', 'enviei', 'mandei', 'mandado', 'mandados'];
+
+// Com qualquer uma delas a mensagem não confirma nada ("ainda não enviei", "recebi não", "falta o RG")
+const PALAVRAS_NEGACAO = ['nao', 'nem', 'nunca', 'falta', 'faltam', 'faltou', 'faltando'];
+
+export class WhatsAppEntradaService {
+    private iniciado = false;
+
+    /**
+     * Passa a tratar as mensagens recebidas por todas as sessões WhatsApp
+     */
+    iniciar(): void {
+        if (this.iniciado) {
+            return;
+        }
+        this.iniciado = true;
+
+        whatsappService.aoReceberMensagem((mensagem) => {
+            this.processarMensagem(mensagem)
+                .catch((error: any) => logger.error(`[WhatsApp Entrada] ❌ Erro ao tratar mensagem de ${mensagem.telefone}: ${error.message}`));
+        });
+    }
+
+    async processarMensagem(mensagem: MensagemRecebidaWhatsApp): Promise<AcaoMensagemRecebida | null> {
+        // Mesma mensagem entregue de novo (reconexão): ignora
+        const registro = await Database.query(`
+            INSERT INTO whatsapp_mensagens_recebidas (
+                usuario_id, whatsapp_mensagem_id, telefone_origem, texto, tem_midia, recebida_em
+            ) VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (whatsapp_mensagem_id) DO NOTHING
+            RETURNING id
+        `, [mensagem.usuarioId, mensagem.mensagemId, mensagem.telefone, mensagem.texto || null, mensagem.temMidia, mensagem.recebidaEm]);
+
+        if (registro.length === 0) {
+            return null;
+        }
+        const registroId: number = registro[0].id;
+
+        // Só notificações que saíram pelo número que recebeu a resposta
+        const notificacao = await whatsappOutboxService.buscarPorTelefone(
+            mensagem.telefone,
+            'ENVIADA',
+            mensagem.usuarioId ?? SESSAO_LEGADA
+        );
+        if (!notificacao) {
+            await this.registrarAcao(registroId, 'SEM_VINCULO');
+            logger.info(`[WhatsApp Entrada] 📩 Mensagem de ${mensagem.telefone} sem notificação correspondente`);
+            return 'SEM_VINCULO';
+        }
+
+        try {
+            if (mensagem.temMidia && notificacao.processo_id) {
+                return await this.salvarDocumento(registroId, mensagem, notificacao);
+            }
+
+            const palavras = this.normalizar(mensagem.texto).split(/[^a-z]+/).filter(Boolean);
+            const negacao = palavras.some(p => PALAVRAS_NEGACAO.includes(p));
+            const documentosEnviados = !negacao && palavras.some(p => PALAVRAS_DOCUMENTOS_ENVIADOS.includes(p));
+            const confirmacao = !negacao && (documentosEnviados || palavras.some(p => PALAVRAS_CONFIRMACAO.includes(p)));
+
+            if (confirmacao) {
+                await whatsappOutboxService.registrarConfirmacao(notificacao.id, mensagem.texto, documentosEnviados);
+                await this.registrarAcao(registroId, 'CONFIRMACAO', notificacao);
+                logger.info(`[WhatsApp Entrada] ✅ ${mensagem.telefone} confirmou a notificação ${notificacao.id}`);
+                return 'CONFIRMACAO';
+            }
+
+            await Database.query(`
+                UPDATE whatsapp_outbox SET resposta = $2, updated_at = NOW() WHERE id = $1
+            `, [notificacao.id, mensagem.texto]);
+            await this.registrarAcao(registroId, 'RESPOSTA', notificacao);
+            logger.info(`[WhatsApp Entrada] 💬 Resposta de ${mensagem.telefone} à notificação ${notificacao.id}`);
+            return 'RESPOSTA';
+        } catch (error: any) {
+            await this.registrarAcao(registroId, 'ERRO', notificacao, { erro: error.message });
+            throw error;
+        }
+    }
+
+    /**
+     * Guarda o anexo como documento da exigência aberta (ver DocumentosRecebidosService)
+     * Formato fora de PDF/imagem ou acima do limite fica só registrado como ERRO, sem arquivo
+     */
+    private async salvarDocumento(registroId: number, mensagem: MensagemRecebidaWhatsApp, notificacao: any): Promise<AcaoMensagemRecebida> {
+        const midia = await mensagem.baixarMidia();
+        if (!midia) {
+            throw new Error('Não foi possível baixar o anexo');
+        }
+
+        const mimetype = midia.mimetype.split(';')[0].trim();
+        const extensao = EXTENSOES_DOCUMENTO[mimetype];
+        const limiteBytes = config.portal.tamanhoMaximoUploadMb * 1024 * 1024;
+        if (!extensao || midia.dados.length > limiteBytes) {
+            const erro = !extensao
+                ? `Formato não aceito: ${mimetype || 'desconhecido'}`
+                : `Arquivo acima de ${config.portal.tamanhoMaximoUploadMb} MB`;
+            await this.registrarAcao(registroId, 'ERRO', notificacao, { mimetype, erro });
+            logger.warn(`[WhatsApp Entrada] ⚠️ Anexo de ${mensagem.telefone} descartado: ${erro}`);
+            return 'ERRO';
+        }
+
+        const resultado = await documentosRecebidosService.registrar({
+            processoId: notificacao.processo_id,
+            exigenciaId: notificacao.exigencia_id,
+            dados: midia.dados,
+            mimetype,
+            nomeArquivo: midia.nomeArquivo || `whatsapp-${mensagem.telefone}-${Date.now()}.${extensao}`,
+            origem: 'WHATSAPP',
+            remetente: mensagem.telefone,
+            observacoes: `Recebido por WhatsApp de ${mensagem.telefone}${mensagem.texto ? `: ${mensagem.texto}` : ''}`,
+        });
+
+        await this.registrarAcao(registroId, 'DOCUMENTO', notificacao, {
+            exigenciaId: resultado.exigenciaId,
+            documentoId: resultado.documentoId,
+            tarefaId: resultado.tarefaId,
+            mimetype,
+        });
+
+        logger.info(`[WhatsApp Entrada] 📎 Documento de ${mensagem.telefone} salvo no processo ${notificacao.processo_id}`);
+        return 'DOCUMENTO';
+    }
+
+    private async registrarAcao(
+        registroId: number,
+        acao: AcaoMensagemRecebida,
+        notificacao?: any,
+        extras: { exigenciaId?: string | null; documentoId?: string; tarefaId?: string; mimetype?: string; erro?: string } = {}
+    ): Promise<void> {
+        await Database.query(`
+            UPDATE whatsapp_mensagens_recebidas
+            SET acao = $2, notificacao_id = $3, processo_id = $4, exigencia_id = $5,
+                documento_id = $6, tarefa_id = $7, mimetype = $8, erro = $9
+            WHERE id = $1
+        `, [
+            registroId,
+            acao,
+            notificacao?.id || null,
+            notificacao?.processo_id || null,
+            extras.exigenciaId !== undefined ? extras.exigenciaId : (notificacao?.exigencia_id || null),
+            extras.documentoId || null,
+            extras.tarefaId || null,
+            extras.mimetype || null,
+            extras.erro || null,
+        ]);
+    }
+
+    private normalizar(texto: string): string {
+        return (texto || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    }
+}
+
+export default new WhatsAppEntradaService();
@@ -0,0 +1,482 @@
+/**
+ * Outbox de mensagens WhatsApp
+ *
+ * Produtores (sincronização, lembretes, alertas) só enfileiram em whatsapp_outbox; o worker
+ * deste serviço envia pela sessão do escritório (ou pela central):
+ * - lease: mensagem em 'sending' com lease vencido volta para a fila
+ * - retentativas com backoff exponencial
+ * - sessão fora do ar pausa a mensagem sem gastar tentativa; a reconexão retoma as pausadas
+ * - intervalo mínimo entre mensagens para o mesmo número
+ * - acks do whatsapp-web.js: sent → delivered → read
+ */
+
+import os from 'os';
+import Database from '../database';
+import config from '../config';
+import logger from '../utils/logger';
+import whatsappService from './WhatsAppService';
+
+// sessao_envio da sessão sem usuário (clientId padrão, sem WHATSAPP_USUARIO_CENTRAL)
+export const SESSAO_LEGADA = 'legada';
+
+export type StatusMensagemWhatsApp = 'pending' | 'paused' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
+
+/**
+ * Dados da mensagem além do texto (processo, exigência e destinatário para consultas e relatórios)
+ */
+export interface DadosMensagemWhatsApp {
+    tipo: string;
+    processoId?: string | null;
+    exigenciaId?: string | null;
+    parceiroId?: number | null;
+    cidade?: string;
+}
+
+export interface NovaMensagemWhatsApp extends DadosMensagemWhatsApp {
+    telefone: string;
+    mensagem: string;
+    /** Sessão que envia; sem usuário (ou sem sessão própria) sai pela central */
+    usuarioId?: string | null;
+    origem: string;
+}
+
+export interface MensagemWhatsApp {
+    id: number;
+    usuarioId: string | null;
+    origem: string;
+    tipo: string;
+    telefone: string;
+    status: StatusMensagemWhatsApp;
+    tentativas: number;
+    ack: number | null;
+    ultimoErro: string | null;
+    proximaTentativaEm: Date | null;
+    enviadaEm: Date | null;
+    entregueEm: Date | null;
+    lidaEm: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * Produtor vinculado a um usuário e a uma origem: enviar() só enfileira
+ * Mesmo contrato de envio da sessão, para a sincronização não depender do WhatsApp conectado
+ */
+export class ProdutorWhatsApp {
+    constructor(
+        private readonly outbox: WhatsAppOutboxService,
+        private readonly origem: string,
+        private readonly usuarioId?: string
+    ) { }
+
+    /**
+     * Enfileira a mensagem
+     * @returns true quando a mensagem entrou no outbox (o envio acontece no worker)
+     */
+    async enviar(telefoneDestino: string, mensagem: string, dados?: DadosMensagemWhatsApp): Promise<boolean> {
+        await this.outbox.enfileirar({
+            telefone: telefoneDestino,
+            mensagem,
+            usuarioId: this.usuarioId,
+            origem: this.origem,
+            tipo: dados?.tipo || 'MENSAGEM',
+            processoId: dados?.processoId,
+            exigenciaId: dados?.exigenciaId,
+            parceiroId: dados?.parceiroId,
+            cidade: dados?.cidade,
+        });
+        return true;
+    }
+
+    /**
+     * O outbox sempre aceita mensagens; o worker espera a sessão conectar
+     */
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async aguardarPronto(): Promise<boolean> {
+        return true;
+    }
+}
+
+export class WhatsAppOutboxService {
+    // Lease de uma mensagem em envio (o envio em si leva segundos)
+    private readonly LEASE_SEGUNDOS = 120;
+    // Backoff = base * 2^(tentativa - 1)
+    private readonly BACKOFF_BASE_SEGUNDOS = 30;
+    private readonly intervaloWorkerMs = 5 * 1000;
+    private readonly workerId = `${os.hostname()}:${process.pid}`;
+    private timerWorker: NodeJS.Timeout | null = null;
+    private processando = false;
+
+    /**
+     * Produtor para quem só precisa enviar (sincronização, InssWorker)
+     */
+    produtor(origem: string, usuarioId?: string): ProdutorWhatsApp {
+        return new ProdutorWhatsApp(this, origem, usuarioId);
+    }
+
+    async enfileirar(nova: NovaMensagemWhatsApp): Promise<number> {
+        const telefone = nova.telefone.replace(/\D/g, '');
+        if (!telefone) {
+            throw new Error(`Telefone inválido para WhatsApp: ${nova.telefone}`);
+        }
+
+        const result = await Database.query(`
+            INSERT INTO whatsapp_outbox (
+                usuario_id, origem, tipo, processo_id, exigencia_id, parceiro_id, cidade, telefone_destino, mensagem
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING id
+        `, [
+            nova.usuarioId || null,
+            nova.origem,
+            nova.tipo,
+            nova.processoId || null,
+            nova.exigenciaId || null,
+            nova.parceiroId || null,
+            nova.cidade || null,
+            telefone,
+            nova.mensagem,
+        ]);
+
+        logger.info(`[Outbox WhatsApp] ➕ Mensagem ${result[0].id} (${nova.tipo}) enfileirada para ${telefone}`);
+        return result[0].id;
+    }
+
+    async obterMensagem(id: number): Promise<MensagemWhatsApp | null> {
+        const result = await Database.query('SELECT * FROM whatsapp_outbox WHERE id = $1', [id]);
+        if (result.length === 0) {
+            return null;
+        }
+
+        const row = result[0];
+        return {
+            id: row.id,
+            usuarioId: row.usuario_id,
+            origem: row.origem,
+            tipo: row.tipo,
+            telefone: row.telefone_destino,
+            status: row.status,
+            tentativas: row.tentativas,
+            ack: row.ack,
+            ultimoErro: row.ultimo_erro,
+            proximaTentativaEm: row.proxima_tentativa_em,
+            enviadaEm: row.enviada_em,
+            entregueEm: row.entregue_em,
+            lidaEm: row.lida_em,
+            createdAt: row.created_at,
+        };
+    }
+
+    /**
+     * Inicia o worker (uma vez por processo)
+     * Também passa a registrar os acks das sessões WhatsApp
+     */
+    iniciarWorker(): void {
+        if (this.timerWorker) {
+            return;
+        }
+
+        whatsappService.aoAtualizarAck((mensagemId, ack) => {
+            this.registrarAck(mensagemId, ack)
+                .catch((error: any) => logger.warn(`[Outbox WhatsApp] ⚠️ Erro ao registrar ack: ${error.message}`));
+        });
+
+        this.timerWorker = setInterval(() => this.processarFila(), this.intervaloWorkerMs);
+        this.timerWorker.unref();
+        this.processarFila();
+    }
+
+    /**
+     * Envia as mensagens disponíveis, uma de cada vez
+     */
+    async processarFila(): Promise<void> {
+        if (this.processando) {
+            return;
+        }
+        this.processando = true;
+
+        try {
+            await this.recuperarOrfas();
+            await this.expirarAntigas();
+
+            let mensagem = await this.adquirirProxima();
+            while (mensagem) {
+                await this.enviarMensagem(mensagem);
+                mensagem = await this.adquirirProxima();
+            }
+        } catch (error: any) {
+            logger.error(`[Outbox WhatsApp] ❌ Erro ao processar fila: ${error.message}`, error);
+        } finally {
+            this.processando = false;
+        }
+    }
+
+    private async enviarMensagem(mensagem: { id: number; usuario_id: string | null; telefone_destino: string; mensagem: string }): Promise<void> {
+        const sessao = whatsappService.sessaoParaEnvio(mensagem.usuario_id || undefined);
+
+        if (!sessao.isConfigured()) {
+            await this.pausar(mensagem.id, 'WhatsApp não está conectado');
+            return;
+        }
+
+        const resultado = await sessao.enviarMensagem(mensagem.telefone_destino, mensagem.mensagem);
+        if (resultado.enviado) {
+            await this.concluirEnvio(mensagem.id, resultado.mensagemId || null, sessao.usuarioId ?? SESSAO_LEGADA);
+        } else {
+            await this.registrarFalha(mensagem.id, resultado.erro || 'Falha ao enviar');
+        }
+    }
+
+    /**
+     * Devolve para a fila mensagens cujo processo morreu durante o envio
+     */
+    private async recuperarOrfas(): Promise<void> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'pending', lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE status = 'sending' AND lease_ate < NOW()
+            RETURNING id
+        `);
+
+        for (const row of result) {
+            logger.warn(`[Outbox WhatsApp] 🧹 Mensagem ${row.id} sem lease ativo voltou para a fila`);
+        }
+    }
+
+    /**
+     * Mensagens que não saíram dentro da validade deixam de ser enviadas (aviso velho confunde o cliente)
+     */
+    private async expirarAntigas(): Promise<void> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'failed', ultimo_erro = COALESCE(ultimo_erro || ' | ', '') || 'Expirada sem envio', updated_at = NOW()
+            WHERE status IN ('pending', 'paused') AND created_at < NOW() - make_interval(hours => $1)
+            RETURNING id
+        `, [config.whatsapp.validadeMensagemHoras]);
+
+        if (result.length > 0) {
+            logger.warn(`[Outbox WhatsApp] ⌛ ${result.length} mensagem(ns) expirada(s) sem envio`);
+        }
+    }
+
+    /**
+     * Próxima mensagem pendente cujo número não recebeu mensagem há menos do intervalo mínimo
+     */
+    private async adquirirProxima(): Promise<{ id: number; usuario_id: string | null; telefone_destino: string; mensagem: string } | null> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'sending',
+                lease_dono = $1,
+                lease_ate = NOW() + make_interval(secs => $2),
+                updated_at = NOW()
+            WHERE id = (
+                SELECT o.id FROM whatsapp_outbox o
+                WHERE o.status = 'pending'
+                  AND (o.proxima_tentativa_em IS NULL OR o.proxima_tentativa_em <= NOW())
+                  AND NOT EXISTS (
+                      SELECT 1 FROM whatsapp_outbox r
+                      WHERE r.telefone_destino = o.telefone_destino
+                        AND r.id <> o.id
+                        AND (r.status = 'sending' OR r.enviada_em > NOW() - make_interval(secs => $3))
+                  )
+                ORDER BY o.created_at ASC
+                LIMIT 1
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING id, usuario_id, telefone_destino, mensagem
+        `, [this.workerId, this.LEASE_SEGUNDOS, config.whatsapp.intervaloPorNumeroSegundos]);
+
+        return result[0] || null;
+    }
+
+    private async concluirEnvio(id: number, mensagemId: string | null, sessaoEnvio: string): Promise<void> {
+        await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'sent', ack = COALESCE(ack, 1), whatsapp_mensagem_id = $2, enviada_em = NOW(), sessao_envio = $3,
+                tentativas = tentativas + 1, ultimo_erro = NULL, lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE id = $1
+        `, [id, mensagemId, sessaoEnvio]);
+
+        logger.info(`[Outbox WhatsApp] ✅ Mensagem ${id} enviada`);
+    }
+
+    /**
+     * Sessão indisponível: a mensagem espera a reconexão sem gastar tentativa
+     */
+    private async pausar(id: number, motivo: string): Promise<void> {
+        await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'paused', proxima_tentativa_em = NULL, ultimo_erro = $2,
+                lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE id = $1
+        `, [id, motivo]);
+    }
+
+    /**
+     * Sessão reconectada: as mensagens pausadas voltam para a fila, na ordem original
+     * As que ainda dependem de outra sessão fora do ar são pausadas de novo pelo worker
+     * @returns quantidade de mensagens retomadas
+     */
+    async retomarPausadas(): Promise<number> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'pending', proxima_tentativa_em = NULL, updated_at = NOW()
+            WHERE status = 'paused'
+            RETURNING id
+        `);
+
+        if (result.length > 0) {
+            logger.info(`[Outbox WhatsApp] ▶️ ${result.length} mensagem(ns) pausada(s) de volta à fila`);
+            this.processarFila();
+        }
+        return result.length;
+    }
+
+    /**
+     * Mensagens pausadas do escritório (usuarioId null = sem escritório, enviadas pela central)
+     */
+    async contarPausadas(usuarioId: string | null): Promise<number> {
+        const result = await Database.query(`
+            SELECT COUNT(*)::int AS total FROM whatsapp_outbox
+            WHERE status = 'paused' AND usuario_id IS NOT DISTINCT FROM $1
+        `, [usuarioId]);
+        return result[0]?.total || 0;
+    }
+
+    /**
+     * Registra falha de envio; reagenda com backoff enquanto houver tentativas
+     * Também usado por quem envia por fora do worker (rota /notificacoes/whatsapp/:id/erro)
+     * @returns true se a mensagem será tentada de novo
+     */
+    async registrarFalha(id: number, erro: string): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET tentativas = tentativas + 1,
+                status = CASE WHEN tentativas + 1 < max_tentativas THEN 'pending' ELSE 'failed' END,
+                proxima_tentativa_em = CASE
+                    WHEN tentativas + 1 < max_tentativas THEN NOW() + make_interval(secs => $3 * power(2, tentativas))
+                    ELSE NULL
+                END,
+                ultimo_erro = $2,
+                lease_dono = NULL,
+                lease_ate = NULL,
+                updated_at = NOW()
+            WHERE id = $1 AND status IN ('pending', 'sending')
+            RETURNING status
+        `, [id, erro, this.BACKOFF_BASE_SEGUNDOS]);
+
+        const retentar = result[0]?.status === 'pending';
+        logger.warn(`[Outbox WhatsApp] ⚠️ Falha na mensagem ${id}: ${erro}${retentar ? ' (nova tentativa agendada)' : ''}`);
+        return retentar;
+    }
+
+    /**
+     * Marca como enviada uma mensagem entregue por fora do worker (ex.: N8N)
+     * @returns false se a mensagem não existe ou já foi enviada
+     */
+    async marcarEnviada(id: number): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET status = 'sent', enviada_em = NOW(), lease_dono = NULL, lease_ate = NULL, updated_at = NOW()
+            WHERE id = $1 AND status IN ('pending', 'paused', 'sending', 'failed')
+            RETURNING id
+        `, [id]);
+        return result.length > 0;
+    }
+
+    /**
+     * Última notificação enviada para o telefone (identifica quem respondeu)
+     * Celulares brasileiros chegam do WhatsApp com ou sem o nono dígito: os dois formatos casam
+     * @param status 'ENVIADA' (já saiu) ou 'CONFIRMADA' (já confirmada); sem status, qualquer uma
+     * @param sessaoEnvio só mensagens enviadas por esta sessão (id do usuário dono ou SESSAO_LEGADA)
+     */
+    async buscarPorTelefone(telefone: string, status?: 'ENVIADA' | 'CONFIRMADA' | null, sessaoEnvio?: string): Promise<any | null> {
+        const result = await Database.query(`
+            SELECT nw.id, nw.processo_id, nw.exigencia_id, nw.tipo,
+                   nw.telefone_destino, nw.cidade, nw.mensagem,
+                   nw.enviada, nw.data_envio, nw.status, nw.usuario_id,
+                   nw.confirmacao_recebida, nw.data_confirmacao
+            FROM notificacoes_whatsapp nw
+            WHERE regexp_replace(nw.telefone_destino, '^(55[0-9]{2})9([0-9]{8})$', '\\1\\2')
+                = regexp_replace(regexp_replace($1, '[^0-9]', '', 'g'), '^(55[0-9]{2})9([0-9]{8})$', '\\1\\2')
+              AND ($2::text IS NULL OR (
+                CASE WHEN $2 = 'ENVIADA' THEN nw.enviada = true
+                     WHEN $2 = 'CONFIRMADA' THEN nw.confirmacao_recebida = true
+                     ELSE true
+                END
+              ))
+              AND ($3::text IS NULL OR nw.sessao_envio = $3)
+            ORDER BY nw.created_at DESC
+            LIMIT 1
+        `, [telefone, status || null, sessaoEnvio || null]);
+
+        return result[0] || null;
+    }
+
+    /**
+     * Registra a resposta do destinatário e, se ele avisou que enviou os documentos, a confirmação da exigência
+     * @param documentosEnviados sem valor, vale a regra do N8N: a resposta contém "enviado"
+     * @returns false se a notificação não existe
+     */
+    async registrarConfirmacao(id: number, resposta: string, documentosEnviados?: boolean): Promise<boolean> {
+        const result = await Database.query(`
+            UPDATE whatsapp_outbox
+            SET confirmacao_recebida = true,
+                data_confirmacao = NOW(),
+                resposta = $2,
+                updated_at = NOW()
+            WHERE id = $1
+            RETURNING exigencia_id
+        `, [id, resposta]);
+
+        if (result.length === 0) {
+            return false;
+        }
+
+        const exigenciaId = result[0].exigencia_id;
+        const enviou = documentosEnviados ?? (resposta?.toLowerCase().includes('enviado') || false);
+        if (exigenciaId && enviou) {
+            await Database.query(`
+                INSERT INTO confirmacoes_documentos (exigencia_id, parceiro_enviou, data_envio_parceiro)
+                VALUES ($1, true, NOW())
+                ON CONFLICT (exigencia_id) DO UPDATE
+                SET parceiro_enviou = true, data_envio_parceiro = NOW()
+            `, [exigenciaId]);
+
+            logger.info(`[Outbox WhatsApp] Parceiro confirmou envio de documentos para exigência ${exigenciaId}`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Atualiza o status a partir do ack do whatsapp-web.js (nunca regride: lida não volta para entregue)
+     */
+    async registrarAck(mensagemId: string, ack: number): Promise<void> {
+        if (ack < 0) {
+            await Database.query(`
+                UPDATE whatsapp_outbox
+                SET status = 'failed', ack = $2, ultimo_erro = 'WhatsApp recusou a mensagem (ACK_ERROR)', updated_at = NOW()
+                WHERE whatsapp_mensagem_id = $1 AND status = 'sent'
+            `, [mensagemId, ack]);
+            return;
+        }
+
+        await Database.query(`
+            UPDATE whatsapp_outbox
+            SET ack = GREATEST(COALESCE(ack, 0), $2),
+                status = CASE
+                    WHEN $2 >= 3 THEN 'read'
+                    WHEN $2 = 2 AND status = 'sent' THEN 'delivered'
+                    ELSE status
+                END,
+                entregue_em = CASE WHEN $2 >= 2 THEN COALESCE(entregue_em, NOW()) ELSE entregue_em END,
+                lida_em = CASE WHEN $2 >= 3 THEN COALESCE(lida_em, NOW()) ELSE lida_em END,
+                updated_at = NOW()
+            WHERE whatsapp_mensagem_id = $1 AND status IN ('sent', 'delivered', 'read')
+        `, [mensagemId, ack]);
+    }
+}
+
+export default new WhatsAppOutboxService();
@@ -1,45 +1,58 @@
 /**
- * WhatsApp Service - whatsapp-web.js
- * 
- * Gerencia conexão com WhatsApp Web usando whatsapp-web.js
- * QR Code é armazenado em memória para exibição na extensão Chrome
- * 
- * Recursos de resiliência:
- * - Auto-recovery silencioso para sessões corrompidas
- * - Detecção inteligente de corrupção de sessão (lock files, journals)
- * - Graceful shutdown para evitar corrupção ao fechar servidor
- * - Retry com backoff exponencial (3s → 6s → 12s)
- * - SEGURO: Não mata processos do sistema, apenas gerencia arquivos
+ * WhatsApp Service - gerenciador de sessões whatsapp-web.js
+ *
+ * Cada escritório (usuário da extensão em usuarios_extensao) conecta o próprio número:
+ * uma SessaoWhatsApp por usuário, com LocalAuth isolado por clientId, QR Code,
+ * status, recuperação e limite de envio próprios
+ *
+ * A sessão "central" envia as mensagens do sistema que não pertencem a um escritório
+ * (lembretes, alertas operacionais). É a sessão de WHATSAPP_USUARIO_CENTRAL ou,
+ * sem essa variável, a sessão legada sem clientId em .wwebjs_auth/session
+ *
+ * Os métodos sem usuário (enviar, isConfigured, obterStatus...) operam na sessão central
+ * Acks, mensagens recebidas e eventos de saúde de todas as sessões chegam aos ouvintes registrados aqui
  */
 
-import { Client, LocalAuth } from 'whatsapp-web.js';
 import logger from '../utils/logger';
+import config from '../config';
+import Database from '../database';
 import path from 'path';
 import fs from 'fs';
+import {
+    SessaoWhatsApp,
+    StatusSessaoWhatsApp,
+    ResultadoEnvioWhatsApp,
+    OuvinteAckWhatsApp,
+    OuvinteMensagemWhatsApp,
+    MensagemRecebidaWhatsApp,
+    MidiaWhatsApp,
+    EventoSessaoWhatsApp,
+    OuvinteEventoSessaoWhatsApp,
+    TipoEventoSessaoWhatsApp,
+    PREFIXO_CLIENT_ID
+} from './whatsapp/SessaoWhatsApp';
+
+export {
+    SessaoWhatsApp,
+    StatusSessaoWhatsApp,
+    ResultadoEnvioWhatsApp,
+    OuvinteAckWhatsApp,
+    OuvinteMensagemWhatsApp,
+    MensagemRecebidaWhatsApp,
+    MidiaWhatsApp,
+    EventoSessaoWhatsApp,
+    OuvinteEventoSessaoWhatsApp,
+    TipoEventoSessaoWhatsApp
+};
 
 class WhatsAppService {
-    private client: Client | null = null;
-    private isReady: boolean = false;
-    private isConnecting: boolean = false;
     private readonly sessionPath: string;
-    private readonly delayBetweenMessages = 2000;
-
-    // Armazenar QR code em memória para a extensão
-    private currentQrCode: string | null = null;
-    private qrCodeTimestamp: number | null = null;
-    private readonly qrCodeExpirationMs = 20000;
-
-    // Timestamps para controle de sessão
-    private lastAuthenticatedAt: Date | null = null;
-    private lastReadyAt: Date | null = null;
-    private sessionStartedAt: Date | null = null;
-
-    // Controle de retry e recuperação
-    private recoveryAttempts: number = 0;
-    private readonly maxRecoveryAttempts: number = 3;
-    private lastErrorTime: number = 0;
-    private isRecovering: boolean = false;
+    private readonly sessoes = new Map<string, SessaoWhatsApp>();
+    private sessaoLegada: SessaoWhatsApp | null = null;
     private isShuttingDown: boolean = false;
+    private readonly ouvintesAck: OuvinteAckWhatsApp[] = [];
+    private readonly ouvintesMensagem: OuvinteMensagemWhatsApp[] = [];
+    private readonly ouvintesEvento: OuvinteEventoSessaoWhatsApp[] = [];
 
     constructor() {
         this.sessionPath = path.join(process.cwd(), '.wwebjs_auth');
@@ -53,23 +66,15 @@ class WhatsAppService {
     }
 
     /**
-     * Registra handlers para encerramento gracioso do Puppeteer
-     * Evita que a sessão WhatsApp seja corrompida quando o servidor fecha
+     * Registra handlers para encerramento gracioso do Puppeteer de todas as sessões
+     * Evita que as sessões WhatsApp sejam corrompidas quando o servidor fecha
      */
     private registrarShutdownHandlers(): void {
         const gracefulShutdown = async () => {
             if (this.isShuttingDown) return;
             this.isShuttingDown = true;
 
-            try {
-                if (this.client) {
-                    await this.delay(300);
-                    await this.client.destroy().catch(() => { });
-                    this.client = null;
-                }
-            } catch (e) {
-                // Ignorar erros no shutdown
-            }
+            await Promise.all(this.todasSessoes().map(sessao => sessao.encerrar()));
         };
 
         // Capturar sinais de encerramento
@@ -79,626 +84,210 @@ class WhatsAppService {
     }
 
     /**
-     * Verifica se já existe uma sessão salva E se está íntegra
+     * Acompanha os acks das mensagens de todas as sessões (inclusive as criadas depois)
      */
-    private verificarSessaoExistente(): boolean {
-        try {
-            const sessionDir = path.join(this.sessionPath, 'Default');
-            if (!fs.existsSync(sessionDir)) return false;
-
-            const files = fs.readdirSync(sessionDir);
-
-            // Verificar se tem os arquivos essenciais
-            const hasLocalStorage = files.some((f: string) => f.includes('Local Storage'));
-            const hasIndexedDB = files.some((f: string) => f.includes('IndexedDB'));
-
-            if (!hasLocalStorage || !hasIndexedDB) return false;
-
-            // Verificar integridade - se IndexedDB tem conteúdo
-            const indexedDBPath = path.join(sessionDir, 'IndexedDB');
-            if (fs.existsSync(indexedDBPath)) {
-                const dbFiles = fs.readdirSync(indexedDBPath);
-                // Se IndexedDB existe mas está vazio, sessão está corrompida
-                if (dbFiles.length === 0) {
-                    return false;
-                }
-            }
-
-            return true;
-        } catch (error) {
-            return false;
+    aoAtualizarAck(ouvinte: OuvinteAckWhatsApp): void {
+        this.ouvintesAck.push(ouvinte);
+        for (const sessao of this.todasSessoes()) {
+            sessao.aoAtualizarAck(ouvinte);
         }
     }
 
     /**
-     * Verifica sinais de corrupção REAL na sessão
-     * 
-     * IMPORTANTE: Arquivos de lock (lockfile, SingletonLock) NÃO são corrupção!
-     * Eles apenas indicam que o Chrome não encerrou graciosamente.
-     * A sessão em si (cookies, LocalStorage, IndexedDB) pode estar perfeita.
-     * 
-     * Só consideramos corrupção REAL quando:
-     * - Arquivo de journal existe sem o arquivo principal (transação incompleta)
-     * - IndexedDB está vazio quando deveria ter dados
+     * Recebe as mensagens de contatos de todas as sessões (inclusive as criadas depois)
      */
-    private verificarCorrupcaoSessao(): boolean {
-        try {
-            const sessionDir = path.join(this.sessionPath, 'Default');
-            if (!fs.existsSync(sessionDir)) return false;
-
-            // NÃO verificar arquivos de lock - eles serão limpos naturalmente
-            // Lock files NÃO indicam corrupção, apenas crash anterior
-
-            // Verificar se Cookies-journal existe sem Cookies (transação incompleta)
-            const cookiesJournal = path.join(sessionDir, 'Cookies-journal');
-            const cookies = path.join(sessionDir, 'Cookies');
-            if (fs.existsSync(cookiesJournal) && !fs.existsSync(cookies)) {
-                logger.warn('[WhatsApp] Corrupção detectada: Cookies-journal sem Cookies');
-                return true;
-            }
-
-            // Verificar se IndexedDB está corrompido (existe mas vazio)
-            const indexedDBPath = path.join(sessionDir, 'IndexedDB');
-            if (fs.existsSync(indexedDBPath)) {
-                const dbFiles = fs.readdirSync(indexedDBPath);
-                // Se tem pasta IndexedDB mas está completamente vazia = problema
-                if (dbFiles.length === 0) {
-                    logger.warn('[WhatsApp] Corrupção detectada: IndexedDB vazio');
-                    return true;
-                }
-            }
-
-            return false;
-        } catch (error) {
-            // Em caso de erro de leitura, NÃO assumir corrupção
-            // Apenas logar e continuar tentando usar a sessão
-            logger.warn('[WhatsApp] Erro ao verificar sessão, tentando usar mesmo assim');
-            return false;
+    aoReceberMensagem(ouvinte: OuvinteMensagemWhatsApp): void {
+        this.ouvintesMensagem.push(ouvinte);
+        for (const sessao of this.todasSessoes()) {
+            sessao.aoReceberMensagem(ouvinte);
         }
     }
 
     /**
-     * Limpa arquivos de lock stale da sessão
-     * SEGURO: Não mata processos do sistema, apenas remove arquivos de lock
-     * que podem ter ficado após crash anterior
+     * Acompanha conexão, quedas e envios de todas as sessões (inclusive as criadas depois)
      */
-    private limparLocksStale(): void {
-        try {
-            const sessionDir = path.join(this.sessionPath, 'Default');
-            if (!fs.existsSync(sessionDir)) return;
-
-            // Arquivos de lock que o Chrome/Puppeteer cria
-            const lockFiles = ['lockfile', 'SingletonLock', 'SingletonCookie', 'SingletonSocket'];
-
-            for (const lockFile of lockFiles) {
-                const lockPath = path.join(sessionDir, lockFile);
-                if (fs.existsSync(lockPath)) {
-                    try {
-                        fs.unlinkSync(lockPath);
-                    } catch (e) {
-                        // Arquivo em uso = Chrome ainda está rodando (ok, não é stale)
-                    }
-                }
-            }
-        } catch (e) {
-            // Ignorar erros
+    aoMudarEstadoSessao(ouvinte: OuvinteEventoSessaoWhatsApp): void {
+        this.ouvintesEvento.push(ouvinte);
+        for (const sessao of this.todasSessoes()) {
+            sessao.aoMudarEstado(ouvinte);
         }
     }
 
-    /**
-     * Recuperação silenciosa de sessão corrompida
-     * NÃO mata processos do sistema - apenas limpa arquivos
-     */
-    private async recuperarSessaoSilenciosamente(): Promise<boolean> {
-        if (this.isRecovering) return false;
-
-        this.isRecovering = true;
-
-        try {
-            // Destruir cliente atual de forma limpa (libera Puppeteer)
-            if (this.client) {
-                try {
-                    await this.client.destroy().catch(() => { });
-                } catch (e) { }
-                this.client = null;
-            }
-
-            // Aguardar Puppeteer liberar arquivos naturalmente
-            await this.delay(2000);
-
-            // Tentar limpar apenas locks stale (seguro)
-            this.limparLocksStale();
-            await this.delay(500);
-
-            // Tentar limpar sessão
-            if (fs.existsSync(this.sessionPath)) {
-                try {
-                    fs.rmSync(this.sessionPath, { recursive: true, force: true });
-                } catch (e) {
-                    // Se não conseguir apagar (arquivo em uso), renomear
-                    const backupPath = `${this.sessionPath}_backup_${Date.now()}`;
-                    try {
-                        fs.renameSync(this.sessionPath, backupPath);
-                        // Agendar limpeza do backup em 2 minutos
-                        setTimeout(() => {
-                            try {
-                                fs.rmSync(backupPath, { recursive: true, force: true });
-                            } catch (e) { }
-                        }, 120000);
-                    } catch (e2) {
-                        // Se nem renomear conseguir, a sessão está bloqueada
-                        // Próxima inicialização vai tentar novamente
-                    }
-                }
-            }
-
-            this.isReady = false;
-            this.isConnecting = false;
-            this.currentQrCode = null;
-            this.qrCodeTimestamp = null;
-
-            return true;
-        } finally {
-            this.isRecovering = false;
+    private criarSessao(usuarioId: string | null): SessaoWhatsApp {
+        const sessao = new SessaoWhatsApp(usuarioId, this.sessionPath, {
+            intervaloMs: config.whatsapp.intervaloEnvioMs,
+            maxPorMinuto: config.whatsapp.maxMensagensPorMinuto
+        });
+        for (const ouvinte of this.ouvintesAck) {
+            sessao.aoAtualizarAck(ouvinte);
+        }
+        for (const ouvinte of this.ouvintesMensagem) {
+            sessao.aoReceberMensagem(ouvinte);
         }
+        for (const ouvinte of this.ouvintesEvento) {
+            sessao.aoMudarEstado(ouvinte);
+        }
+        return sessao;
     }
 
-    /**
-     * Limpa a sessão atual do WhatsApp (silencioso)
-     */
-    async limparSessao(forcarLimpeza: boolean = false): Promise<void> {
-        try {
-            if (this.client) {
-                try {
-                    await this.client.destroy().catch(() => { });
-                    this.client = null;
-                } catch (e) { }
-            }
-
-            this.isReady = false;
-            this.isConnecting = false;
-            this.currentQrCode = null;
-            this.qrCodeTimestamp = null;
-
-            await this.delay(1000);
-
-            if (fs.existsSync(this.sessionPath)) {
-                let tentativas = 0;
-                const maxTentativas = 3;
-
-                while (tentativas < maxTentativas) {
-                    try {
-                        fs.rmSync(this.sessionPath, { recursive: true, force: true });
-                        break;
-                    } catch (error: any) {
-                        tentativas++;
-                        if (tentativas < maxTentativas) {
-                            await this.delay(1000 * tentativas);
-                        } else if (forcarLimpeza) {
-                            // Última tentativa: renomear em vez de deletar
-                            try {
-                                fs.renameSync(this.sessionPath, `${this.sessionPath}_old_${Date.now()}`);
-                            } catch (e) { }
-                        }
-                    }
-                }
-            }
-        } catch (error: any) {
-            if (!forcarLimpeza) throw error;
-        }
+    private todasSessoes(): SessaoWhatsApp[] {
+        const sessoes = Array.from(this.sessoes.values());
+        if (this.sessaoLegada) sessoes.push(this.sessaoLegada);
+        return sessoes;
     }
 
     /**
-     * Inicializa o cliente WhatsApp
-     * Com detecção inteligente de corrupção e auto-recovery silencioso
+     * Sessão do usuário da extensão (criada sob demanda, ainda não inicializada)
      */
-    async inicializar(): Promise<void> {
-        if (this.client && this.isReady) return;
-        if (this.isConnecting || this.isRecovering) return;
-
-        this.isConnecting = true;
-
-        try {
-            // Limpar arquivos de lock stale PRIMEIRO (não apaga sessão, só locks)
-            this.limparLocksStale();
-
-            // Verificar se há sessão existente
-            const temSessao = this.verificarSessaoExistente();
-
-            // APENAS verificar corrupção REAL (não locks!)
-            const sessaoCorreompida = this.verificarCorrupcaoSessao();
-
-            if (sessaoCorreompida) {
-                // Só limpar se REALMENTE corrompida (journal incompleto, IndexedDB vazio)
-                logger.warn('[WhatsApp] Sessão corrompida detectada, limpando...');
-                await this.recuperarSessaoSilenciosamente();
-            } else if (temSessao) {
-                // Sessão existe e parece OK - tentar usar!
-                logger.info('[WhatsApp] Sessão existente encontrada, tentando reconectar...');
-            } else {
-                // Sem sessão - vai precisar de QR Code
-                logger.info('[WhatsApp] Aguardando escaneamento do QR Code');
-            }
-
-            this.client = new Client({
-                authStrategy: new LocalAuth({
-                    dataPath: this.sessionPath
-                }),
-                puppeteer: {
-                    headless: true,
-                    args: [
-                        '--no-sandbox',
-                        '--disable-setuid-sandbox',
-                        '--disable-dev-shm-usage',
-                        '--disable-accelerated-2d-canvas',
-                        '--no-first-run',
-                        '--no-zygote',
-                        '--single-process',
-                        '--disable-gpu'
-                    ]
-                }
-            });
-
-            // Event: QR Code gerado - silencioso, só armazena
-            this.client.on('qr', (qr) => {
-                this.currentQrCode = qr;
-                this.qrCodeTimestamp = Date.now();
-                this.recoveryAttempts = 0; // Reset ao receber QR válido
-            });
-
-            // Event: Autenticação concluída
-            this.client.on('authenticated', () => {
-                logger.info('[WhatsApp] Autenticado com sucesso');
-                this.currentQrCode = null;
-                this.qrCodeTimestamp = null;
-                this.lastAuthenticatedAt = new Date();
-                this.recoveryAttempts = 0;
-            });
-
-            // Event: Autenticação falhou - recovery silencioso
-            this.client.on('auth_failure', async (msg) => {
-                this.isReady = false;
-                this.isConnecting = false;
-                this.currentQrCode = null;
-                this.qrCodeTimestamp = null;
-
-                // Recovery silencioso - só limpa e deixa pronto para novo QR
-                await this.recuperarSessaoSilenciosamente();
-            });
-
-            // Event: Cliente está pronto
-            this.client.on('ready', () => {
-                logger.info('[WhatsApp] Conectado e pronto');
-                this.isReady = true;
-                this.isConnecting = false;
-                this.currentQrCode = null;
-                this.qrCodeTimestamp = null;
-                this.lastReadyAt = new Date();
-                this.recoveryAttempts = 0;
-                if (!this.sessionStartedAt) {
-                    this.sessionStartedAt = new Date();
-                }
-            });
-
-            // Event: Cliente desconectado
-            this.client.on('disconnected', async (reason) => {
-                const reasonStr = String(reason);
-                this.isReady = false;
-                this.currentQrCode = null;
-                this.qrCodeTimestamp = null;
-
-                const foiLogout = reasonStr === 'LOGOUT' || reasonStr.includes('LOGOUT');
-
-                if (foiLogout) {
-                    logger.info('[WhatsApp] Logout detectado - sessão será limpa');
-                    await this.recuperarSessaoSilenciosamente();
-                }
-
-                // Reconectar silenciosamente
-                const delayReconnect = foiLogout ? 10000 : 5000;
-                setTimeout(() => {
-                    if (!this.isReady && !this.isConnecting) {
-                        this.inicializar().catch(() => { });
-                    }
-                }, delayReconnect);
-            });
-
-            // Event: Erro - recovery inteligente com backoff
-            this.client.on('error', async (error) => {
-                this.isReady = false;
-
-                const isRecoverableError =
-                    error.message.includes('Target closed') ||
-                    error.message.includes('Protocol error') ||
-                    error.message.includes('Execution context') ||
-                    error.message.includes('browser has disconnected');
-
-                if (isRecoverableError) {
-                    await this.handleRecoverableError();
-                }
-            });
-
-            // Inicializar cliente
-            await this.client.initialize();
-
-        } catch (error: any) {
-            this.isConnecting = false;
-
-            const isRecoverableError =
-                error.message.includes('Target closed') ||
-                error.message.includes('Protocol error') ||
-                error.message.includes('Execution context') ||
-                error.message.includes('browser has disconnected');
-
-            if (isRecoverableError) {
-                await this.handleRecoverableError();
-            } else {
-                logger.error(`[WhatsApp] Erro crítico: ${error.message}`);
-            }
+    sessao(usuarioId: string): SessaoWhatsApp {
+        let sessao = this.sessoes.get(usuarioId);
+        if (!sessao) {
+            sessao = this.criarSessao(usuarioId);
+            this.sessoes.set(usuarioId, sessao);
         }
+        return sessao;
     }
 
     /**
-     * Trata erros recuperáveis com backoff exponencial
+     * Por que o escritório não pode abrir (conectar, gerar QR Code) a sessão: licença vencida ou
+     * limite de sessões iniciadas atingido (cada uma é um Chromium); null = pode abrir
      */
-    private async handleRecoverableError(): Promise<void> {
-        // Evitar spam de recovery
-        const agora = Date.now();
-        if (agora - this.lastErrorTime < 5000) return;
-        this.lastErrorTime = agora;
-
-        this.recoveryAttempts++;
-        this.isConnecting = false;
-
-        if (this.recoveryAttempts > this.maxRecoveryAttempts) {
-            logger.warn('[WhatsApp] Máximo de tentativas atingido - aguardando intervenção manual');
-            this.recoveryAttempts = 0;
-            return;
+    async motivoRecusaSessao(usuarioId: string): Promise<string | null> {
+        const resultado = await Database.query(
+            'SELECT licenca_valida_ate > NOW() AS licenca_valida FROM usuarios_extensao WHERE id = $1',
+            [usuarioId]
+        );
+        if (!resultado[0]?.licenca_valida) {
+            return 'Licença expirada. Entre em contato com o suporte.';
         }
 
-        // Backoff exponencial: 3s, 6s, 12s
-        const delay = 3000 * Math.pow(2, this.recoveryAttempts - 1);
-
-        await this.recuperarSessaoSilenciosamente();
+        // Sessão já iniciada não ocupa vaga nova
+        if (this.sessoes.get(usuarioId)?.isAtiva()) {
+            return null;
+        }
 
-        setTimeout(() => {
-            if (!this.isReady && !this.isConnecting) {
-                this.inicializar().catch(() => { });
-            }
-        }, delay);
+        const iniciadas = this.todasSessoes().filter(sessao => sessao.isAtiva()).length;
+        if (iniciadas >= config.whatsapp.maxSessoes) {
+            return `Limite de ${config.whatsapp.maxSessoes} sessões WhatsApp atingido. Entre em contato com o suporte.`;
+        }
+        return null;
     }
 
     /**
-     * Obtém o QR code atual (se disponível)
+     * Sessão usada para mensagens do sistema
      */
-    obterQrCode(): { qr: string | null; expiresIn: number | null } {
-        if (!this.currentQrCode || !this.qrCodeTimestamp) {
-            return { qr: null, expiresIn: null };
+    sessaoCentral(): SessaoWhatsApp {
+        if (config.whatsapp.usuarioCentral) {
+            return this.sessao(config.whatsapp.usuarioCentral);
         }
 
-        const elapsed = Date.now() - this.qrCodeTimestamp;
-        const remaining = this.qrCodeExpirationMs - elapsed;
-
-        if (remaining <= 0) {
-            // QR code expirado
-            this.currentQrCode = null;
-            this.qrCodeTimestamp = null;
-            return { qr: null, expiresIn: null };
+        if (!this.sessaoLegada) {
+            this.sessaoLegada = this.criarSessao(null);
         }
-
-        return {
-            qr: this.currentQrCode,
-            expiresIn: remaining
-        };
+        return this.sessaoLegada;
     }
 
     /**
-     * Obtém o status completo da conexão WhatsApp
-     * Inclui informações de sessão para o admin verificar
+     * Sessão que envia em nome do usuário: a do próprio escritório se ele já conectou
+     * um número (sessão iniciada ou salva em disco), senão a central
      */
-    async obterStatus(): Promise<{
-        isReady: boolean;
-        isConnecting: boolean;
-        numeroConectado: string | null;
-        temSessaoSalva: boolean;
-        lastAuthenticatedAt: string | null;
-        lastReadyAt: string | null;
-        sessionStartedAt: string | null;
-        temQrCodePendente: boolean;
-    }> {
-        const numeroConectado = this.isReady ? await this.obterNumeroConectado() : null;
-        const temSessaoSalva = this.verificarSessaoExistente();
-        const qrInfo = this.obterQrCode();
-
-        return {
-            isReady: this.isReady,
-            isConnecting: this.isConnecting,
-            numeroConectado,
-            temSessaoSalva,
-            lastAuthenticatedAt: this.lastAuthenticatedAt?.toISOString() || null,
-            lastReadyAt: this.lastReadyAt?.toISOString() || null,
-            sessionStartedAt: this.sessionStartedAt?.toISOString() || null,
-            temQrCodePendente: !!qrInfo.qr
-        };
+    sessaoParaEnvio(usuarioId?: string): SessaoWhatsApp {
+        if (usuarioId) {
+            const sessao = this.sessoes.get(usuarioId);
+            if (sessao && (sessao.isAtiva() || sessao.verificarSessaoExistente())) {
+                return sessao;
+            }
+        }
+        return this.sessaoCentral();
     }
 
     /**
-     * Verifica se o serviço está pronto para enviar mensagens
+     * Ids dos usuários com sessão salva em .wwebjs_auth (session-usuario-<id>)
      */
-    isConfigured(): boolean {
-        return this.isReady && this.client !== null;
+    private listarUsuariosComSessaoSalva(): string[] {
+        try {
+            const prefixo = `session-${PREFIXO_CLIENT_ID}`;
+            return fs.readdirSync(this.sessionPath, { withFileTypes: true })
+                .filter(entrada => entrada.isDirectory() && entrada.name.startsWith(prefixo))
+                .map(entrada => entrada.name.substring(prefixo.length))
+                .filter(usuarioId => /^[\w-]+$/.test(usuarioId));
+        } catch (error) {
+            return [];
+        }
     }
 
     /**
-     * Aguarda o WhatsApp ficar pronto (com timeout)
-     * Útil após autenticação recente quando o evento 'ready' ainda não disparou
+     * Startup: inicializa a sessão central e reconecta as sessões salvas dos escritórios
+     * Sequencial para não abrir vários Chromium ao mesmo tempo
      */
-    async aguardarPronto(timeoutMs: number = 10000): Promise<boolean> {
-        const inicio = Date.now();
+    async inicializarSessoesSalvas(): Promise<void> {
+        const central = this.sessaoCentral();
+        await central.inicializar();
 
-        while (Date.now() - inicio < timeoutMs) {
-            if (this.isConfigured()) {
-                logger.info('[WhatsAppService] ✅ WhatsApp está pronto para enviar');
-                return true;
-            }
+        for (const usuarioId of this.listarUsuariosComSessaoSalva()) {
+            const sessao = this.sessao(usuarioId);
+            if (sessao === central || !sessao.verificarSessaoExistente()) continue;
 
-            // Log apenas a cada 2 segundos para não poluir
-            if ((Date.now() - inicio) % 2000 < 100) {
-                logger.info('[WhatsAppService] ⏳ Aguardando WhatsApp ficar pronto...');
+            try {
+                const motivo = await this.motivoRecusaSessao(usuarioId);
+                if (motivo) {
+                    logger.warn(`[WhatsApp] Sessão do usuário ${usuarioId} não reconectada: ${motivo}`);
+                    continue;
+                }
+                await sessao.inicializar();
+            } catch (error: any) {
+                logger.warn(`[WhatsApp] Falha ao reconectar sessão do usuário ${usuarioId}: ${error.message}`);
             }
-
-            await new Promise(resolve => setTimeout(resolve, 500));
         }
-
-        logger.error(`[WhatsAppService] ❌ Timeout (${timeoutMs}ms) aguardando WhatsApp ficar pronto`);
-        logger.error(`[WhatsAppService]    isReady: ${this.isReady}, client: ${this.client !== null}`);
-        return false;
     }
 
     /**
-     * Obtém o número do WhatsApp conectado
+     * Status de todas as sessões abertas (visão do admin)
      */
-    async obterNumeroConectado(): Promise<string | null> {
-        if (!this.client || !this.isReady) {
-            return null;
-        }
-
-        try {
-            const info = await this.client.info;
-            return info.wid.user || null;
-        } catch (error: any) {
-            return null;
-        }
+    async listarStatus(): Promise<StatusSessaoWhatsApp[]> {
+        return Promise.all(this.todasSessoes().map(sessao => sessao.obterStatus()));
     }
 
-    /**
-     * Normaliza número de telefone brasileiro
-     * Aceita: 557798812345, 77988123456, 5577988123456, 557734243214 (fixo)
-     * Retorna: 5577988123456 (formato WhatsApp sem @c.us)
-     */
-    private normalizarTelefone(telefone: string): string {
-        // Remove tudo que não é número
-        let numero = telefone.replace(/\D/g, '');
+    // ===== Sessão central =====
 
-        // Se já tem código do país (55), remover para reprocessar
-        if (numero.startsWith('55')) {
-            numero = numero.substring(2);
-        }
+    async limparSessao(forcarLimpeza: boolean = false): Promise<void> {
+        return this.sessaoCentral().limparSessao(forcarLimpeza);
+    }
 
-        // Agora numero tem apenas DDD + número
-        // Pode ser: 77988123456 (11 dígitos - móvel com 9)
-        //          7798812345 (10 dígitos - móvel sem 9)
-        //          7734243214 (10 dígitos - fixo)
-        //          773424321 (9 dígitos - fixo sem DDD completo - erro)
-
-        if (numero.length === 11) {
-            // Móvel com 9: 77988123456 -> 5577988123456
-            return '55' + numero;
-        } else if (numero.length === 10) {
-            // Pode ser móvel sem 9 ou fixo
-            const ddd = numero.substring(0, 2);
-            const primeiroDigito = numero.charAt(2);
-
-            // Se começa com 9, 8 ou 7, é móvel (adicionar 9)
-            // Se começa com 2, 3, 4, 5, é fixo (manter)
-            if (['9', '8', '7'].includes(primeiroDigito)) {
-                // Móvel sem 9: 7798812345 -> 5577988123456
-                return '55' + ddd + '9' + numero.substring(2);
-            } else {
-                // Fixo: 7734243214 -> 557734243214
-                return '55' + numero;
-            }
-        } else if (numero.length === 9) {
-            // Número sem DDD - assumir DDD 77 (Bahia) como padrão
-            return '5577' + numero;
-        }
+    async inicializar(): Promise<void> {
+        return this.sessaoCentral().inicializar();
+    }
 
-        // Retornar como está se não se encaixar nos padrões
-        return '55' + numero;
+    obterQrCode(): { qr: string | null; expiresIn: number | null } {
+        return this.sessaoCentral().obterQrCode();
     }
 
-    /**
-     * Envia mensagem WhatsApp
-     */
-    async enviar(telefoneDestino: string, mensagem: string): Promise<boolean> {
-        if (!this.isReady || !this.client) {
-            return false;
-        }
+    async obterStatus(): Promise<StatusSessaoWhatsApp> {
+        return this.sessaoCentral().obterStatus();
+    }
 
-        try {
-            const numeroFormatado = this.normalizarTelefone(telefoneDestino);
-            let numeroCompleto = `${numeroFormatado}@c.us`;
+    isConfigured(): boolean {
+        return this.sessaoCentral().isConfigured();
+    }
 
-            try {
-                // Tentativa 1: Formato padrão com DDI
-                const resultado = await this.client.sendMessage(numeroCompleto, mensagem);
-                if (resultado && resultado.id) {
-                    logger.info(`[WhatsAppService] ✅ Mensagem enviada!`);
-                    return true;
-                }
-            } catch (error: any) {
-                // Se erro "No LID for user", tentar formato sem DDI
-                if (error.message && error.message.includes('No LID for user')) {
-                    logger.warn(`[WhatsAppService] ⚠️ Erro "No LID" com formato DDI, tentando sem DDI...`);
-
-                    // Remover '55' do início
-                    const numeroSemDDI = numeroFormatado.startsWith('55')
-                        ? numeroFormatado.substring(2)
-                        : numeroFormatado;
-
-                    numeroCompleto = `${numeroSemDDI}@c.us`;
-
-                    const resultado2 = await this.client.sendMessage(numeroCompleto, mensagem);
-                    if (resultado2 && resultado2.id) {
-                        logger.info(`[WhatsAppService] ✅ Mensagem enviada (formato sem DDI)!`);
-                        return true;
-                    }
-                } else {
-                    throw error;
-                }
-            }
+    async aguardarPronto(timeoutMs: number = 10000): Promise<boolean> {
+        return this.sessaoCentral().aguardarPronto(timeoutMs);
+    }
 
-            return false;
+    async obterNumeroConectado(): Promise<string | null> {
+        return this.sessaoCentral().obterNumeroConectado();
+    }
 
-        } catch (error: any) {
-            logger.error(`[WhatsAppService] ❌ Erro ao enviar para ${telefoneDestino}: ${error.message}`);
-            return false;
-        }
+    async enviar(telefoneDestino: string, mensagem: string): Promise<boolean> {
+        return this.sessaoCentral().enviar(telefoneDestino, mensagem);
     }
 
-    /**
-     * Desconecta o cliente WhatsApp
-     */
     async desconectar(): Promise<void> {
-        if (this.client) {
-            try {
-                await this.client.destroy();
-            } catch (error: any) {
-                // Ignorar erros de destruição
-            }
-            this.client = null;
-            this.isReady = false;
-            this.isConnecting = false;
-            this.currentQrCode = null;
-            this.qrCodeTimestamp = null;
-        }
+        return this.sessaoCentral().desconectar();
     }
 
-    /**
-     * Reinicializa forçadamente (gera novo QR Code)
-     */
     async reinicializar(): Promise<void> {
-        logger.info('[WhatsApp] Reinicializando...');
-        await this.recuperarSessaoSilenciosamente();
-        await this.delay(1000);
-        await this.inicializar();
-    }
-
-    /**
-     * Delay helper
-     */
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+        return this.sessaoCentral().reinicializar();
     }
 }
 
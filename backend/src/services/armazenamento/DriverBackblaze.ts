@@ -0,0 +1,94 @@
+import B2 from 'backblaze-b2';
+import logger from '../../utils/logger';
+import { DriverArmazenamento } from './tipos';
+
+export interface ConfigBackblaze {
+    applicationKeyId: string;
+    applicationKey: string;
+    bucketId: string;
+    bucketName: string;
+}
+
+/**
+ * Bucket privado do Backblaze B2 (API nativa do SDK backblaze-b2)
+ */
+export class DriverBackblaze implements DriverArmazenamento {
+    readonly tipo = 'backblaze' as const;
+
+    private b2: B2;
+    private configuracao: ConfigBackblaze;
+    private autorizado: boolean = false;
+
+    constructor(configuracao: ConfigBackblaze) {
+        this.configuracao = configuracao;
+        this.b2 = new B2({
+            applicationKeyId: configuracao.applicationKeyId,
+            applicationKey: configuracao.applicationKey
+        });
+    }
+
+    estaConfigurado(): boolean {
+        return !!this.configuracao.applicationKeyId && !!this.configuracao.applicationKey
+            && !!this.configuracao.bucketId && !!this.configuracao.bucketName;
+    }
+
+    async gravar(chave: string, dados: Buffer, contentType: string): Promise<void> {
+        await this.autorizar();
+
+        const uploadUrl = await this.b2.getUploadUrl({ bucketId: this.configuracao.bucketId });
+        await this.b2.uploadFile({
+            uploadUrl: uploadUrl.data.uploadUrl,
+            uploadAuthToken: uploadUrl.data.authorizationToken,
+            fileName: chave,
+            data: dados,
+            contentLength: dados.length,
+            contentType
+        });
+    }
+
+    async ler(chave: string): Promise<Buffer> {
+        await this.autorizar();
+
+        const resposta = await this.b2.downloadFileByName({
+            bucketName: this.configuracao.bucketName,
+            fileName: chave,
+            responseType: 'arraybuffer'
+        });
+        return Buffer.from(resposta.data);
+    }
+
+    async remover(chave: string): Promise<void> {
+        await this.autorizar();
+
+        const lista = await this.b2.listFileNames({
+            bucketId: this.configuracao.bucketId,
+            startFileName: chave,
+            maxFileCount: 1
+        });
+
+        const arquivo = lista.data.files.find(f => f.fileName === chave);
+        if (!arquivo) {
+            return;
+        }
+
+        await this.b2.deleteFileVersion({ fileId: arquivo.fileId, fileName: chave });
+    }
+
+    /**
+     * O token do authorize vale 24h: a autorização é refeita antes de expirar
+     */
+    private async autorizar(): Promise<void> {
+        if (this.autorizado) {
+            return;
+        }
+
+        if (!this.estaConfigurado()) {
+            throw new Error('Backblaze B2 não configurado (BACKBLAZE_*)');
+        }
+
+        await this.b2.authorize();
+        this.autorizado = true;
+        setTimeout(() => { this.autorizado = false; }, 23 * 60 * 60 * 1000).unref();
+        logger.info('[Armazenamento] ✅ Conectado ao Backblaze B2');
+    }
+}
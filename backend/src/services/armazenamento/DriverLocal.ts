@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DriverArmazenamento } from './tipos';
+
+/**
+ * Arquivos no disco do servidor (desenvolvimento ou instalação sem bucket)
+ */
+export class DriverLocal implements DriverArmazenamento {
+    readonly tipo = 'local' as const;
+
+    private diretorio: string;
+
+    constructor(diretorio: string) {
+        this.diretorio = path.resolve(diretorio);
+    }
+
+    estaConfigurado(): boolean {
+        return !!this.diretorio;
+    }
+
+    async gravar(chave: string, dados: Buffer): Promise<void> {
+        const caminho = this.caminho(chave);
+        await fs.mkdir(path.dirname(caminho), { recursive: true });
+        await fs.writeFile(caminho, dados, { mode: 0o600 });
+    }
+
+    async ler(chave: string): Promise<Buffer> {
+        return fs.readFile(this.caminho(chave));
+    }
+
+    async remover(chave: string): Promise<void> {
+        await fs.rm(this.caminho(chave), { force: true });
+    }
+
+    /**
+     * Caminho do arquivo dentro do diretório (chaves com ".." não escapam dele)
+     */
+    private caminho(chave: string): string {
+        const caminho = path.resolve(this.diretorio, chave);
+        if (!caminho.startsWith(this.diretorio + path.sep)) {
+            throw new Error(`Chave de arquivo inválida: ${chave}`);
+        }
+        return caminho;
+    }
+}
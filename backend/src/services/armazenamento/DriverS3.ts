@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { DriverArmazenamento } from './tipos';
+
+export interface ConfigS3 {
+    /** Ex.: https://s3.sa-east-1.amazonaws.com, http://localhost:9000 (MinIO), https://s3.us-west-004.backblazeb2.com */
+    endpoint: string;
+    regiao: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+/**
+ * Bucket privado em qualquer serviço compatível com S3 (AWS, MinIO, API S3 do B2, R2)
+ * Requisições assinadas com AWS Signature V4 e endereçamento por caminho (endpoint/bucket/chave),
+ * que o MinIO e os demais aceitam sem DNS por bucket
+ */
+export class DriverS3 implements DriverArmazenamento {
+    readonly tipo = 's3' as const;
+
+    private configuracao: ConfigS3;
+
+    constructor(configuracao: ConfigS3) {
+        this.configuracao = { ...configuracao, endpoint: (configuracao.endpoint || '').replace(/\/+$/, '') };
+    }
+
+    estaConfigurado(): boolean {
+        return !!this.configuracao.endpoint && !!this.configuracao.bucket
+            && !!this.configuracao.accessKeyId && !!this.configuracao.secretAccessKey;
+    }
+
+    async gravar(chave: string, dados: Buffer, contentType: string): Promise<void> {
+        const resposta = await this.requisitar('PUT', chave, dados, { 'Content-Type': contentType });
+        if (!resposta.ok) {
+            throw new Error(`S3 respondeu ${resposta.status} ao gravar ${chave}: ${await resposta.text()}`);
+        }
+    }
+
+    async ler(chave: string): Promise<Buffer> {
+        const resposta = await this.requisitar('GET', chave);
+        if (!resposta.ok) {
+            throw new Error(`S3 respondeu ${resposta.status} ao ler ${chave}`);
+        }
+        return Buffer.from(await resposta.arrayBuffer());
+    }
+
+    async remover(chave: string): Promise<void> {
+        const resposta = await this.requisitar('DELETE', chave);
+        if (!resposta.ok && resposta.status !== 404) {
+            throw new Error(`S3 respondeu ${resposta.status} ao remover ${chave}`);
+        }
+    }
+
+    private async requisitar(
+        metodo: 'GET' | 'PUT' | 'DELETE',
+        chave: string,
+        corpo?: Buffer,
+        cabecalhos: Record<string, string> = {}
+    ): Promise<Response> {
+        if (!this.estaConfigurado()) {
+            throw new Error('Armazenamento S3 não configurado (ARMAZENAMENTO_S3_*)');
+        }
+
+        const caminho = `/${this.configuracao.bucket}/${chave.split('/').map(codificarSegmento).join('/')}`;
+        const url = new URL(this.configuracao.endpoint + caminho);
+
+        return fetch(url, {
+            method: metodo,
+            headers: { ...cabecalhos, ...this.assinar(metodo, url, corpo || Buffer.alloc(0)) },
+            body: corpo ? new Uint8Array(corpo) : undefined,
+        });
+    }
+
+    /**
+     * Cabeçalhos de autenticação da AWS Signature V4 (serviço s3, sem query string)
+     */
+    private assinar(metodo: string, url: URL, corpo: Buffer): Record<string, string> {
+        const agora = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const data = agora.slice(0, 8);
+        const hashCorpo = sha256(corpo);
+        const escopo = `${data}/${this.configuracao.regiao}/s3/aws4_request`;
+
+        const cabecalhosAssinados = 'host;x-amz-content-sha256;x-amz-date';
+        const requisicaoCanonica = [
+            metodo,
+            url.pathname,
+            '',
+            `host:${url.host}\nx-amz-content-sha256:${hashCorpo}\nx-amz-date:${agora}\n`,
+            cabecalhosAssinados,
+            hashCorpo,
+        ].join('\n');
+
+        const textoAssinar = ['AWS4-HMAC-SHA256', agora, escopo, sha256(requisicaoCanonica)].join('\n');
+
+        const chaveAssinatura = [data, this.configuracao.regiao, 's3', 'aws4_request']
+            .reduce<Buffer | string>((chave, parte) => hmac(chave, parte), `AWS4${this.configuracao.secretAccessKey}`);
+        const assinatura = crypto.createHmac('sha256', chaveAssinatura).update(textoAssinar).digest('hex');
+
+        return {
+            'x-amz-content-sha256': hashCorpo,
+            'x-amz-date': agora,
+            Authorization: `AWS4-HMAC-SHA256 Credential=${this.configuracao.accessKeyId}/${escopo}, SignedHeaders=${cabecalhosAssinados}, Signature=${assinatura}`,
+        };
+    }
+}
+
+function sha256(dados: Buffer | string): string {
+    return crypto.createHash('sha256').update(dados).digest('hex');
+}
+
+function hmac(chave: Buffer | string, dados: string): Buffer {
+    return crypto.createHmac('sha256', chave).update(dados).digest();
+}
+
+/**
+ * Codificação de URI da AWS: como encodeURIComponent, mas também codifica !'()*
+ */
+function codificarSegmento(segmento: string): string {
+    return encodeURIComponent(segmento).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
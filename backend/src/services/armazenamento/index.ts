@@ -0,0 +1,220 @@
+/**
+ * Armazenamento de arquivos: comprovantes do PAT e documentos recebidos
+ *
+ * O arquivo vai para o driver configurado (disco, Backblaze B2 ou S3/MinIO) e documentos é o
+ * índice de tudo o que foi guardado (driver, chave, hash e tamanho). Os buckets são privados:
+ * quem recebe o arquivo ganha um link assinado da API (/api/v1/arquivos/:id) que expira.
+ */
+
+import crypto from 'crypto';
+import Database from '../../database';
+import config from '../../config';
+import logger from '../../utils/logger';
+import { DriverLocal } from './DriverLocal';
+import { DriverBackblaze } from './DriverBackblaze';
+import { DriverS3 } from './DriverS3';
+import {
+    ArquivoArmazenado,
+    ComprovanteArmazenado,
+    ConteudoArquivo,
+    DriverArmazenamento,
+    LinkArquivo,
+    NovoArquivo,
+    OrigemArquivo,
+    TipoDriverArmazenamento,
+} from './tipos';
+
+export * from './tipos';
+export { DriverLocal, DriverBackblaze, DriverS3 };
+
+const PASTAS: Record<OrigemArquivo, string> = {
+    COMPROVANTE: 'comprovantes',
+    WHATSAPP: 'whatsapp',
+    PORTAL: 'portal',
+    ESCRITORIO: 'escritorio',
+    PACOTE_INSS: 'pacotes-inss',
+};
+
+export class ArmazenamentoService {
+    private drivers: Record<TipoDriverArmazenamento, DriverArmazenamento>;
+
+    constructor(drivers?: Partial<Record<TipoDriverArmazenamento, DriverArmazenamento>>) {
+        this.drivers = {
+            local: drivers?.local || new DriverLocal(config.armazenamento.diretorioLocal),
+            backblaze: drivers?.backblaze || new DriverBackblaze(config.backblaze),
+            s3: drivers?.s3 || new DriverS3(config.armazenamento.s3),
+        };
+    }
+
+    /**
+     * Confere o segredo dos links assinados (chamado na inicialização do servidor)
+     * @throws Error sem ARMAZENAMENTO_SEGREDO_LINKS ou com ele igual ao JWT_SECRET
+     */
+    validarConfiguracao(): void {
+        const segredo = config.armazenamento.segredoLinks;
+        if (!segredo) {
+            throw new Error('ARMAZENAMENTO_SEGREDO_LINKS não configurado: sem ele os links de download podem ser forjados');
+        }
+        if (segredo === config.jwt.secret) {
+            throw new Error('ARMAZENAMENTO_SEGREDO_LINKS não pode ser igual ao JWT_SECRET');
+        }
+    }
+
+    /**
+     * Grava o arquivo no driver atual e o registra em documentos
+     * @throws Error se o driver não estiver configurado ou a gravação falhar
+     */
+    async salvar(arquivo: NovoArquivo): Promise<ArquivoArmazenado> {
+        const driver = this.drivers[config.armazenamento.driver];
+        if (!driver?.estaConfigurado()) {
+            throw new Error(`Armazenamento "${config.armazenamento.driver}" não configurado`);
+        }
+
+        const hash = crypto.createHash('sha256').update(arquivo.dados).digest('hex');
+        const nomeSeguro = arquivo.nomeArquivo.replace(/[^\w.-]/g, '_');
+        const chave = `${PASTAS[arquivo.origem]}/${arquivo.processoId || 'sem-processo'}/${Date.now()}-${nomeSeguro}`;
+
+        await driver.gravar(chave, arquivo.dados, arquivo.contentType);
+
+        const resultado = await Database.query(`
+            INSERT INTO documentos (
+                processo_id, exigencia_id, tarefa_id, nome_arquivo, tipo_documento, caminho_arquivo,
+                armazenamento, content_type, origem, tamanho_bytes, hash_arquivo, observacoes, enviado_por_parceiro_id,
+                exigencia_item_id
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+            RETURNING id
+        `, [
+            arquivo.processoId || null,
+            arquivo.exigenciaId || null,
+            arquivo.tarefaId || null,
+            arquivo.nomeArquivo,
+            arquivo.tipoDocumento || null,
+            chave,
+            driver.tipo,
+            arquivo.contentType,
+            arquivo.origem,
+            arquivo.dados.length,
+            hash,
+            arquivo.observacoes || null,
+            arquivo.parceiroId || null,
+            arquivo.exigenciaItemId || null,
+        ]);
+
+        logger.info(`[Armazenamento] 📦 ${chave} gravado (${driver.tipo}, ${(arquivo.dados.length / 1024).toFixed(2)} KB)`);
+
+        return { documentoId: resultado[0].id, chave, hash, tamanhoBytes: arquivo.dados.length };
+    }
+
+    /**
+     * Guarda o PDF do comprovante de perícia/avaliação social e devolve o link assinado
+     * @returns null se a gravação falhar (a sincronização segue sem o comprovante)
+     */
+    async salvarComprovante(dados: Buffer, nomeArquivo: string, processoId?: string | null): Promise<ComprovanteArmazenado | null> {
+        try {
+            const arquivo = await this.salvar({
+                dados,
+                nomeArquivo,
+                contentType: 'application/pdf',
+                origem: 'COMPROVANTE',
+                processoId,
+            });
+            const link = this.gerarLink(arquivo.documentoId);
+            return { documentoId: arquivo.documentoId, url: link.url };
+        } catch (error: any) {
+            logger.error(`[Armazenamento] ❌ Erro ao guardar comprovante ${nomeArquivo}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Conteúdo do arquivo, lido do driver em que foi gravado
+     * @returns null se o documento não existir
+     */
+    async ler(documentoId: string): Promise<ConteudoArquivo | null> {
+        const resultado = await Database.query(`
+            SELECT nome_arquivo, caminho_arquivo, armazenamento, content_type
+            FROM documentos
+            WHERE id = $1
+        `, [documentoId]);
+
+        if (resultado.length === 0) {
+            return null;
+        }
+
+        const documento = resultado[0];
+        const driver = this.drivers[documento.armazenamento as TipoDriverArmazenamento];
+        if (!driver) {
+            throw new Error(`Documento ${documentoId} em armazenamento desconhecido: ${documento.armazenamento}`);
+        }
+
+        return {
+            dados: await driver.ler(documento.caminho_arquivo),
+            nomeArquivo: documento.nome_arquivo,
+            contentType: documento.content_type || 'application/octet-stream',
+        };
+    }
+
+    /**
+     * Link de download assinado (HMAC do id e da expiração), sem consulta ao banco
+     */
+    gerarLink(documentoId: string, validadeHoras: number = config.armazenamento.validadeLinkHoras): LinkArquivo {
+        const expira = Math.floor(Date.now() / 1000) + validadeHoras * 60 * 60;
+        const url = `${config.armazenamento.urlDownload}/${documentoId}?expira=${expira}&assinatura=${this.assinar(documentoId, expira)}`;
+        return { url, expiraEm: new Date(expira * 1000) };
+    }
+
+    /**
+     * Link de um documento, se houver; senão a URL antiga (comprovantes anteriores ao armazenamento privado)
+     */
+    linkOuUrl(documentoId: string | null | undefined, url?: string | null): string | null {
+        return documentoId ? this.gerarLink(documentoId).url : (url || null);
+    }
+
+    /**
+     * Confere assinatura e validade de um link gerado por gerarLink
+     */
+    verificarLink(documentoId: string, expira: string | number, assinatura: string): boolean {
+        const expiraEm = Number(expira);
+        if (!Number.isInteger(expiraEm) || expiraEm * 1000 < Date.now() || !assinatura) {
+            return false;
+        }
+
+        const esperada = Buffer.from(this.assinar(documentoId, expiraEm));
+        const recebida = Buffer.from(String(assinatura));
+        return esperada.length === recebida.length && crypto.timingSafeEqual(esperada, recebida);
+    }
+
+    /**
+     * O escritório acessa os documentos dos processos sincronizados por ele (processos sem
+     * escritório registrado, e arquivos sem processo, só o escritório central, se configurado)
+     */
+    async podeAcessar(documentoId: string, usuarioId: string): Promise<boolean> {
+        const resultado = await Database.query(`
+            SELECT p.usuario_extensao_id
+            FROM documentos d
+            LEFT JOIN processos p ON p.id = d.processo_id
+            WHERE d.id = $1
+        `, [documentoId]);
+
+        if (resultado.length === 0) {
+            return false;
+        }
+
+        const dono = resultado[0].usuario_extensao_id;
+        if (dono) {
+            return dono === usuarioId;
+        }
+
+        const central = config.whatsapp.usuarioCentral;
+        return !!central && central === usuarioId;
+    }
+
+    private assinar(documentoId: string, expira: number): string {
+        this.validarConfiguracao();
+        return crypto.createHmac('sha256', config.armazenamento.segredoLinks)
+            .update(`${documentoId}.${expira}`)
+            .digest('base64url');
+    }
+}
+
+export default new ArmazenamentoService();
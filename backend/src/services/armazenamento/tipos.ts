@@ -0,0 +1,66 @@
+export type TipoDriverArmazenamento = 'local' | 'backblaze' | 's3';
+
+export const TIPOS_DRIVER_ARMAZENAMENTO: TipoDriverArmazenamento[] = ['local', 'backblaze', 's3'];
+
+/**
+ * De onde veio o arquivo guardado em documentos
+ */
+export type OrigemArquivo = 'COMPROVANTE' | 'WHATSAPP' | 'PORTAL' | 'ESCRITORIO' | 'PACOTE_INSS';
+
+/**
+ * Onde os arquivos ficam de fato (disco, bucket B2, bucket S3/MinIO)
+ * Os buckets são privados: o download sempre passa pela API (/api/v1/arquivos)
+ */
+export interface DriverArmazenamento {
+    readonly tipo: TipoDriverArmazenamento;
+    /** Driver com diretório/bucket e credenciais configurados */
+    estaConfigurado(): boolean;
+    /** @throws Error se a gravação falhar */
+    gravar(chave: string, dados: Buffer, contentType: string): Promise<void>;
+    /** @throws Error se o arquivo não existir ou a leitura falhar */
+    ler(chave: string): Promise<Buffer>;
+    /** Arquivo inexistente não é erro */
+    remover(chave: string): Promise<void>;
+}
+
+export interface NovoArquivo {
+    dados: Buffer;
+    nomeArquivo: string;
+    contentType: string;
+    origem: OrigemArquivo;
+    /** Arquivo sem processo (ex.: comprovante de protocolo ainda não cadastrado) fica com processo_id nulo */
+    processoId?: string | null;
+    exigenciaId?: string | null;
+    tarefaId?: string | null;
+    exigenciaItemId?: string | null;
+    tipoDocumento?: string | null;
+    observacoes?: string | null;
+    parceiroId?: number | null;
+}
+
+export interface ArquivoArmazenado {
+    documentoId: string;
+    chave: string;
+    hash: string;
+    tamanhoBytes: number;
+}
+
+export interface ConteudoArquivo {
+    dados: Buffer;
+    nomeArquivo: string;
+    contentType: string;
+}
+
+export interface LinkArquivo {
+    url: string;
+    expiraEm: Date;
+}
+
+/**
+ * Comprovante do PAT guardado pela sincronização
+ * documentoId é nulo na simulação (nada é gravado)
+ */
+export interface ComprovanteArmazenado {
+    documentoId: string | null;
+    url: string;
+}
@@ -0,0 +1,78 @@
+import axios from 'axios';
+import nodemailer, { Transporter } from 'nodemailer';
+import config from '../../config';
+import logger from '../../utils/logger';
+import { AnexoNotificacao, CanalNotificacao, ContatoNotificacao, NotificacaoCanal, textoSemFormatacao } from './tipos';
+
+// Anexo maior que isso segue só como link no texto
+const TAMANHO_MAXIMO_ANEXO = 10 * 1024 * 1024;
+
+/**
+ * E-mail por SMTP, com os comprovantes (PDF do armazenamento) anexados
+ * Para testar localmente basta um SMTP de captura (Mailpit/MailHog em localhost:1025)
+ */
+export class CanalEmail implements CanalNotificacao {
+    readonly tipo = 'email' as const;
+    private transporter: Transporter | null = null;
+
+    estaConfigurado(): boolean {
+        return !!config.email.host;
+    }
+
+    atende(contato: ContatoNotificacao): boolean {
+        return !!contato.email;
+    }
+
+    async enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<void> {
+        const anexos = await this.baixarAnexos(notificacao.anexos || []);
+
+        const info = await this.obterTransporter().sendMail({
+            from: config.email.remetente,
+            to: contato.nome ? { name: contato.nome, address: contato.email! } : contato.email!,
+            subject: notificacao.assunto,
+            text: textoSemFormatacao(notificacao.mensagem),
+            attachments: anexos,
+        });
+
+        logger.info(`[Canal E-mail] ✉️ E-mail enviado para ${contato.email} (${info.messageId}, ${anexos.length} anexo(s))`);
+    }
+
+    private obterTransporter(): Transporter {
+        if (!this.transporter) {
+            this.transporter = nodemailer.createTransport({
+                host: config.email.host,
+                port: config.email.port,
+                secure: config.email.seguro,
+                auth: config.email.usuario ? { user: config.email.usuario, pass: config.email.senha } : undefined,
+            });
+        }
+        return this.transporter;
+    }
+
+    /**
+     * Anexo que não baixa não impede o envio (o link já está no texto)
+     */
+    private async baixarAnexos(anexos: AnexoNotificacao[]): Promise<{ filename: string; content: Buffer; contentType?: string }[]> {
+        const baixados: { filename: string; content: Buffer; contentType?: string }[] = [];
+
+        for (const anexo of anexos) {
+            try {
+                const response = await axios.get(anexo.url, {
+                    responseType: 'arraybuffer',
+                    timeout: 30000,
+                    maxContentLength: TAMANHO_MAXIMO_ANEXO,
+                });
+
+                baixados.push({
+                    filename: anexo.nomeArquivo,
+                    content: Buffer.from(response.data),
+                    contentType: anexo.contentType || response.headers['content-type'] || undefined,
+                });
+            } catch (error: any) {
+                logger.warn(`[Canal E-mail] ⚠️ Não foi possível anexar ${anexo.url}: ${error.message}`);
+            }
+        }
+
+        return baixados;
+    }
+}
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import config from '../../config';
+import logger from '../../utils/logger';
+import { CanalNotificacao, ContatoNotificacao, NotificacaoCanal, textoSemFormatacao } from './tipos';
+
+/**
+ * SMS por gateway HTTP genérico
+ * POST {SMS_GATEWAY_URL} com JSON { [campoTelefone]: '5577...', [campoMensagem]: 'texto', remetente? }
+ */
+export class CanalSms implements CanalNotificacao {
+    readonly tipo = 'sms' as const;
+
+    estaConfigurado(): boolean {
+        return !!config.sms.url;
+    }
+
+    atende(contato: ContatoNotificacao): boolean {
+        return !!contato.telefone;
+    }
+
+    async enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<void> {
+        const telefone = contato.telefone!.replace(/\D/g, '');
+
+        const corpo: Record<string, string> = {
+            [config.sms.campoTelefone]: telefone,
+            [config.sms.campoMensagem]: this.montarTexto(notificacao.mensagem),
+        };
+        if (config.sms.remetente) {
+            corpo.remetente = config.sms.remetente;
+        }
+
+        await axios.post(config.sms.url, corpo, {
+            headers: config.sms.token ? { Authorization: `Bearer ${config.sms.token}` } : {},
+            timeout: 15000,
+        });
+
+        logger.info(`[Canal SMS] 📲 SMS enviado para ${telefone}`);
+    }
+
+    /**
+     * Sem formatação nem emojis (que forçam codificação UCS-2 e encurtam cada SMS), no limite configurado
+     */
+    private montarTexto(mensagem: string): string {
+        const texto = textoSemFormatacao(mensagem)
+            .replace(/\p{Extended_Pictographic}\uFE0F?/gu, '')
+            .replace(/[ \t]+/g, ' ')
+            .replace(/^ /gm, '')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+
+        return texto.length > config.sms.maxCaracteres
+            ? `${texto.slice(0, config.sms.maxCaracteres - 3)}...`
+            : texto;
+    }
+}
@@ -0,0 +1,31 @@
+import whatsappOutboxService from '../WhatsAppOutboxService';
+import { CanalNotificacao, ContatoNotificacao, NotificacaoCanal } from './tipos';
+
+/**
+ * WhatsApp pelo outbox (envio assíncrono com retentativas, na sessão do escritório)
+ */
+export class CanalWhatsApp implements CanalNotificacao {
+    readonly tipo = 'whatsapp' as const;
+
+    estaConfigurado(): boolean {
+        return true;
+    }
+
+    atende(contato: ContatoNotificacao): boolean {
+        return !!contato.telefone;
+    }
+
+    async enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<void> {
+        await whatsappOutboxService.enfileirar({
+            telefone: contato.telefone!,
+            mensagem: notificacao.mensagem,
+            usuarioId: notificacao.usuarioId,
+            origem: notificacao.origem,
+            tipo: notificacao.tipo,
+            processoId: notificacao.processoId,
+            exigenciaId: notificacao.exigenciaId,
+            parceiroId: notificacao.parceiroId ?? contato.parceiroId,
+            cidade: notificacao.cidade,
+        });
+    }
+}
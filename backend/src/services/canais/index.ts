@@ -0,0 +1,75 @@
+/**
+ * Canais de notificação: WhatsApp (outbox), e-mail (SMTP) e SMS (gateway HTTP)
+ *
+ * Cada contato tem um canal preferido (parceiros_config.canal_preferido, contatos_clientes).
+ * Canal sem configuração no servidor, ou contato sem o endereço do canal, cai no próximo da ordem
+ * preferido → WhatsApp → e-mail.
+ */
+
+import logger from '../../utils/logger';
+import { CanalEmail } from './CanalEmail';
+import { CanalSms } from './CanalSms';
+import { CanalWhatsApp } from './CanalWhatsApp';
+import { CanalNotificacao, ContatoNotificacao, NotificacaoCanal, TipoCanal } from './tipos';
+
+export * from './tipos';
+export { CanalWhatsApp, CanalEmail, CanalSms };
+
+export class CanaisNotificacaoService {
+    private canais: Record<TipoCanal, CanalNotificacao>;
+
+    constructor(canais?: Partial<Record<TipoCanal, CanalNotificacao>>) {
+        this.canais = {
+            whatsapp: canais?.whatsapp || new CanalWhatsApp(),
+            email: canais?.email || new CanalEmail(),
+            sms: canais?.sms || new CanalSms(),
+        };
+    }
+
+    /**
+     * Envia pelo canal preferido do contato (ou pelo primeiro disponível)
+     * @returns canal usado
+     * @throws Error se nenhum canal atender o contato ou se o envio falhar
+     */
+    async enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<TipoCanal> {
+        const canal = this.escolherCanal(contato);
+        if (!canal) {
+            throw new Error(`Nenhum canal disponível para ${contato.nome} (preferido: ${contato.canal})`);
+        }
+
+        if (canal.tipo !== contato.canal) {
+            logger.info(`[Canais] ${contato.nome}: canal ${contato.canal} indisponível, usando ${canal.tipo}`);
+        }
+
+        await canal.enviar(contato, notificacao);
+        return canal.tipo;
+    }
+
+    /**
+     * Canais com servidor/gateway configurado
+     */
+    canaisDisponiveis(): TipoCanal[] {
+        return (Object.keys(this.canais) as TipoCanal[]).filter(tipo => this.canais[tipo].estaConfigurado());
+    }
+
+    /**
+     * Endereço usado para o contato no canal (telefone ou e-mail)
+     */
+    descreverDestino(contato: ContatoNotificacao, canal: TipoCanal = contato.canal): string {
+        return (canal === 'email' ? contato.email : contato.telefone) || '';
+    }
+
+    private escolherCanal(contato: ContatoNotificacao): CanalNotificacao | null {
+        const ordem = Array.from(new Set<TipoCanal>([contato.canal, 'whatsapp', 'email']));
+
+        for (const tipo of ordem) {
+            const canal = this.canais[tipo];
+            if (canal.estaConfigurado() && canal.atende(contato)) {
+                return canal;
+            }
+        }
+        return null;
+    }
+}
+
+export default new CanaisNotificacaoService();
@@ -0,0 +1,58 @@
+import type { DadosMensagemWhatsApp } from '../WhatsAppOutboxService';
+
+export type TipoCanal = 'whatsapp' | 'email' | 'sms';
+
+export const TIPOS_CANAL: TipoCanal[] = ['whatsapp', 'email', 'sms'];
+
+/**
+ * Quem recebe a notificação e por qual canal prefere receber
+ */
+export interface ContatoNotificacao {
+    tipo: 'ESCRITORIO' | 'PARCEIRO' | 'CLIENTE';
+    nome: string;
+    canal: TipoCanal;
+    telefone?: string | null;
+    email?: string | null;
+    parceiroId?: number;
+}
+
+export interface AnexoNotificacao {
+    nomeArquivo: string;
+    url: string;
+    contentType?: string;
+}
+
+/**
+ * Conteúdo da notificação, igual para todos os canais
+ * mensagem usa a formatação do WhatsApp (*negrito*); e-mail e SMS recebem o texto sem ela
+ */
+export interface NotificacaoCanal extends DadosMensagemWhatsApp {
+    assunto: string;
+    mensagem: string;
+    /** Só o e-mail anexa; nos outros canais o link continua no texto */
+    anexos?: AnexoNotificacao[];
+    /** Escritório: sessão WhatsApp usada no envio */
+    usuarioId?: string | null;
+    origem: string;
+}
+
+export interface CanalNotificacao {
+    readonly tipo: TipoCanal;
+    /** Canal com servidor/gateway configurado */
+    estaConfigurado(): boolean;
+    /** Contato tem o endereço que o canal usa (telefone ou e-mail) */
+    atende(contato: ContatoNotificacao): boolean;
+    /** @throws Error se o envio falhar */
+    enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<void>;
+}
+
+/**
+ * Texto da mensagem sem a formatação do WhatsApp (*negrito*, _itálico_, ~riscado~, > citação)
+ */
+export function textoSemFormatacao(mensagem: string): string {
+    return mensagem
+        .replace(/^> ?/gm, '')
+        .replace(/\*([^*\n]+)\*/g, '$1')
+        .replace(/~([^~\n]+)~/g, '$1')
+        .replace(/(^|\s)_([^_\n]+)_(?=\s|$)/g, '$1$2');
+}
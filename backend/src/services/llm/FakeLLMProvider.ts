@@ -0,0 +1,110 @@
+import { LLMProvider, LLMRequest } from './LLMProvider';
+
+type Responder = (requisicao: LLMRequest) => string;
+
+/**
+ * Provedor determinístico para testes e simulações
+ *
+ * - Respostas enfileiradas com `enfileirar()` são devolvidas primeiro, em ordem
+ * - Sem fila, usa o `responder` informado no construtor
+ * - Sem responder, classifica o texto do INSS por palavras-chave (pedidos JSON)
+ *   e devolve string vazia para o resto, acionando os fallbacks do AIService
+ *
+ * Todas as chamadas ficam registradas em `chamadas` para asserções.
+ */
+export class FakeLLMProvider implements LLMProvider {
+    readonly nome = 'fake' as const;
+    readonly modeloEmbedding = 'fake:hash-64';
+
+    readonly chamadas: LLMRequest[] = [];
+    private fila: string[] = [];
+    private responder: Responder;
+
+    constructor(responder?: Responder) {
+        this.responder = responder || FakeLLMProvider.responderPadrao;
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    enfileirar(...respostas: string[]): this {
+        this.fila.push(...respostas);
+        return this;
+    }
+
+    async gerar(requisicao: LLMRequest): Promise<string> {
+        this.chamadas.push(requisicao);
+        const proxima = this.fila.shift();
+        return proxima !== undefined ? proxima : this.responder(requisicao);
+    }
+
+    /**
+     * Embedding determinístico: contagem de palavras espalhada em 64 posições por hash
+     * Textos com o mesmo vocabulário ficam próximos (suficiente para testar a busca)
+     */
+    async gerarEmbedding(texto: string): Promise<number[]> {
+        const vetor = new Array(64).fill(0);
+        const palavras = texto
+            .toLowerCase()
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .split(/[^a-z0-9]+/)
+            .filter(p => p.length > 3);
+
+        for (const palavra of palavras) {
+            let hash = 0;
+            for (let i = 0; i < palavra.length; i++) {
+                hash = (hash * 31 + palavra.charCodeAt(i)) >>> 0;
+            }
+            vetor[hash % 64] += 1;
+        }
+
+        const norma = Math.sqrt(vetor.reduce((soma, v) => soma + v * v, 0)) || 1;
+        return vetor.map(v => v / norma);
+    }
+
+    /**
+     * Classificação por palavras-chave sobre o trecho "TEXTO DO INSS" do prompt
+     */
+    static responderPadrao(requisicao: LLMRequest): string {
+        if (!requisicao.json && !requisicao.schema) {
+            return '';
+        }
+
+        const trecho = requisicao.prompt.match(/TEXTO DO INSS:\s*---([\s\S]*?)---\s*Retorne/);
+        const texto = (trecho ? trecho[1] : requisicao.prompt)
+            .toLowerCase()
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '');
+
+        let resultado: Record<string, any>;
+        if (texto.includes('indeferido')) {
+            const culpa = ['nao compareceu', 'nao cumpriu', 'nao apresentou', 'desistencia'].some(p => texto.includes(p));
+            resultado = {
+                classe_final: 'INDEFERIDO',
+                motivo_ia: 'Requerimento indeferido pelo INSS.',
+                tipo_indeferimento: culpa ? 'CULPA' : 'MERITO',
+            };
+        } else if (texto.includes('deferido') || texto.includes('concedido')) {
+            resultado = { classe_final: 'DEFERIDO', motivo_ia: 'Requerimento deferido. Benefício concedido.' };
+        } else if (texto.includes('exigencia') || texto.includes('nr:')) {
+            resultado = {
+                classe_final: 'EXIGENCIA',
+                motivo_ia: 'Cumprir exigência: apresentar documentos solicitados.',
+                documentos_exigidos: ['Documentos solicitados pelo INSS'],
+            };
+        } else if (texto.includes('pericia') || texto.includes('avaliacao social')) {
+            resultado = { classe_final: 'PERICIA', motivo_ia: 'Perícia ou avaliação social agendada.' };
+        } else {
+            resultado = { classe_final: 'EM_ANALISE', motivo_ia: 'Processo em análise pelo INSS.' };
+        }
+
+        return JSON.stringify({
+            documentos_exigidos: null,
+            data_evento: null,
+            confianca: 0.9,
+            ...resultado,
+        });
+    }
+}
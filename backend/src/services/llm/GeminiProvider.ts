@@ -0,0 +1,143 @@
+import { LLMProvider, LLMRequest } from './LLMProvider';
+import { JsonSchema } from './jsonSchema';
+
+/**
+ * Converte JSON Schema para o subconjunto OpenAPI aceito em responseSchema
+ * (sem arrays em `type`: nulo vira `nullable: true`)
+ */
+function paraSchemaGemini(schema: JsonSchema): Record<string, any> {
+    const { type, properties, items, ...resto } = schema;
+    const resultado: Record<string, any> = { ...resto };
+
+    const tipos = Array.isArray(type) ? type : type ? [type] : [];
+    const tipoPrincipal = tipos.find(t => t !== 'null');
+    if (tipoPrincipal) resultado.type = tipoPrincipal;
+    if (tipos.includes('null')) resultado.nullable = true;
+    if (resultado.enum) resultado.enum = resultado.enum.filter((valor: unknown) => valor !== null);
+
+    if (properties) {
+        resultado.properties = Object.fromEntries(
+            Object.entries(properties).map(([chave, valor]) => [chave, paraSchemaGemini(valor)])
+        );
+    }
+    if (items) {
+        resultado.items = paraSchemaGemini(items);
+    }
+    return resultado;
+}
+
+/**
+ * Provedor Google Gemini (generativelanguage.googleapis.com)
+ */
+export class GeminiProvider implements LLMProvider {
+    readonly nome = 'gemini' as const;
+
+    private apiKey: string;
+    private model: string;
+    private visionModel: string;
+    private embeddingModel: string;
+
+    constructor(apiKey: string, model: string, visionModel?: string, embeddingModel?: string) {
+        this.apiKey = apiKey || '';
+        this.model = model;
+        this.visionModel = visionModel || model;
+        this.embeddingModel = embeddingModel || 'text-embedding-004';
+    }
+
+    get modeloEmbedding(): string {
+        return `gemini:${this.embeddingModel}`;
+    }
+
+    isConfigured(): boolean {
+        return !!this.apiKey && this.apiKey !== 'your-google-gemini-api-key';
+    }
+
+    async gerar(requisicao: LLMRequest): Promise<string> {
+        const modelo = requisicao.tarefa === 'visao' ? this.visionModel : this.model;
+
+        const parts: any[] = [{ text: requisicao.prompt }];
+        if (requisicao.imagem) {
+            parts.push({
+                inline_data: {
+                    mime_type: requisicao.imagem.mimeType,
+                    data: requisicao.imagem.data.toString('base64'),
+                },
+            });
+        }
+
+        const generationConfig: Record<string, any> = {
+            temperature: requisicao.temperatura ?? 0.1,
+            topK: requisicao.tarefa === 'visao' ? 1 : 20,
+            topP: requisicao.tarefa === 'visao' ? 0.1 : 0.8,
+            maxOutputTokens: requisicao.maxTokens ?? 2048,
+        };
+        if (requisicao.json || requisicao.schema) {
+            generationConfig.responseMimeType = 'application/json'; // Forçar resposta JSON
+        }
+        if (requisicao.schema) {
+            generationConfig.responseSchema = paraSchemaGemini(requisicao.schema);
+        }
+
+        const response = await fetch(
+            `https://generativelanguage.googleapis.com/v1beta/models/${modelo}:generateContent?key=${this.apiKey}`,
+            {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    contents: [{ parts }],
+                    generationConfig,
+                    safetySettings: [
+                        {
+                            category: 'HARM_CATEGORY_HARASSMENT',
+                            threshold: 'BLOCK_NONE',
+                        },
+                        {
+                            category: 'HARM_CATEGORY_HATE_SPEECH',
+                            threshold: 'BLOCK_NONE',
+                        },
+                        {
+                            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+                            threshold: 'BLOCK_NONE',
+                        },
+                        {
+                            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+                            threshold: 'BLOCK_NONE',
+                        },
+                    ],
+                }),
+            }
+        );
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`Gemini API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    }
+
+    async gerarEmbedding(texto: string): Promise<number[]> {
+        const response = await fetch(
+            `https://generativelanguage.googleapis.com/v1beta/models/${this.embeddingModel}:embedContent?key=${this.apiKey}`,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: `models/${this.embeddingModel}`,
+                    content: { parts: [{ text: texto }] },
+                }),
+            }
+        );
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`Gemini embedding error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.embedding?.values || [];
+    }
+}
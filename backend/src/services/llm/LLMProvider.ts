@@ -0,0 +1,76 @@
+import config from '../../config';
+import { JsonSchema } from './jsonSchema';
+
+/**
+ * Contrato comum dos provedores de LLM usados pelo AIService
+ *
+ * Cada provedor só precisa saber transformar uma requisição de geração
+ * em texto. Prompts, parse e normalização continuam no AIService.
+ */
+
+export type LLMProviderNome = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+// 'fake' (respostas fixas, sem rede) só pode ser escolhido com NODE_ENV=test
+export const LLM_PROVIDERS: LLMProviderNome[] = config.env === 'test'
+    ? ['gemini', 'openai', 'ollama', 'fake']
+    : ['gemini', 'openai', 'ollama'];
+
+/**
+ * Tipo de tarefa da requisição
+ * - texto: análise/classificação de texto (modelo padrão)
+ * - visao: leitura de imagem, como CAPTCHA (modelo de visão, se o provedor tiver um separado)
+ */
+export type LLMTarefa = 'texto' | 'visao';
+
+export interface LLMRequest {
+    prompt: string;
+    tarefa?: LLMTarefa;
+    temperatura?: number;
+    maxTokens?: number;
+    /** Pede ao provedor que responda apenas JSON (quando suportado) */
+    json?: boolean;
+    /** Schema da resposta JSON (implica `json`); provedores sem suporte ignoram */
+    schema?: JsonSchema;
+    imagem?: {
+        data: Buffer;
+        mimeType: string;
+    };
+}
+
+export interface LLMProvider {
+    readonly nome: LLMProviderNome;
+
+    /**
+     * Gera a resposta em texto para o prompt
+     * Lança erro se o provedor responder com falha HTTP
+     */
+    gerar(requisicao: LLMRequest): Promise<string>;
+
+    /**
+     * Indica se o provedor tem o mínimo necessário para ser chamado
+     */
+    isConfigured(): boolean;
+
+    /**
+     * Identificador do modelo de embeddings (ex: "gemini:text-embedding-004")
+     * Vetores de modelos diferentes não são comparáveis entre si
+     */
+    readonly modeloEmbedding?: string;
+
+    /**
+     * Gera o vetor de embedding do texto (busca de exemplos similares)
+     */
+    gerarEmbedding?(texto: string): Promise<number[]>;
+}
+
+/**
+ * Configuração do provedor escolhida por usuário (usuarios_extensao)
+ */
+export interface LLMProviderConfig {
+    provider?: LLMProviderNome;
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string;
+    geminiApiKey?: string;
+    embeddingModel?: string;
+}
@@ -0,0 +1,77 @@
+import { LLMProvider, LLMRequest } from './LLMProvider';
+
+/**
+ * Provedor para servidor Ollama local (/api/generate)
+ * Permite rodar a análise sem que CPFs e textos do INSS saiam do escritório
+ */
+export class OllamaProvider implements LLMProvider {
+    readonly nome = 'ollama' as const;
+
+    private baseUrl: string;
+    private model: string;
+    private embeddingModel: string;
+
+    constructor(baseUrl: string, model: string, embeddingModel?: string) {
+        this.baseUrl = (baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+        this.model = model;
+        this.embeddingModel = embeddingModel || 'nomic-embed-text';
+    }
+
+    get modeloEmbedding(): string {
+        return `ollama:${this.embeddingModel}`;
+    }
+
+    isConfigured(): boolean {
+        return !!this.model;
+    }
+
+    async gerar(requisicao: LLMRequest): Promise<string> {
+        const body: Record<string, any> = {
+            model: this.model,
+            prompt: requisicao.prompt,
+            stream: false,
+            options: {
+                temperature: requisicao.temperatura ?? 0.1,
+                num_predict: requisicao.maxTokens ?? 2048,
+            },
+        };
+        if (requisicao.schema) {
+            body.format = requisicao.schema; // Ollama >= 0.5 aceita JSON Schema em `format`
+        } else if (requisicao.json) {
+            body.format = 'json';
+        }
+        if (requisicao.imagem) {
+            body.images = [requisicao.imagem.data.toString('base64')];
+        }
+
+        const response = await fetch(`${this.baseUrl}/api/generate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`Ollama API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.response || '';
+    }
+
+    async gerarEmbedding(texto: string): Promise<number[]> {
+        const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: this.embeddingModel, prompt: texto }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`Ollama embedding error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.embedding || [];
+    }
+}
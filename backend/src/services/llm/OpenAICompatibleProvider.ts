@@ -0,0 +1,97 @@
+import { LLMProvider, LLMRequest } from './LLMProvider';
+
+/**
+ * Provedor para qualquer endpoint compatível com a API OpenAI (/chat/completions)
+ * Serve para OpenAI, Azure, OpenRouter, vLLM e o servidor do llama.cpp
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly nome = 'openai' as const;
+
+    private baseUrl: string;
+    private apiKey: string;
+    private model: string;
+    private embeddingModel: string;
+
+    constructor(baseUrl: string, model: string, apiKey?: string, embeddingModel?: string) {
+        this.baseUrl = (baseUrl || '').replace(/\/+$/, '');
+        this.model = model;
+        this.apiKey = apiKey || '';
+        this.embeddingModel = embeddingModel || 'text-embedding-3-small';
+    }
+
+    get modeloEmbedding(): string {
+        return `openai:${this.embeddingModel}`;
+    }
+
+    isConfigured(): boolean {
+        // Servidores locais (llama.cpp, vLLM) costumam não exigir chave
+        return !!this.baseUrl && !!this.model;
+    }
+
+    async gerar(requisicao: LLMRequest): Promise<string> {
+        const content: any = requisicao.imagem
+            ? [
+                { type: 'text', text: requisicao.prompt },
+                {
+                    type: 'image_url',
+                    image_url: {
+                        url: `data:${requisicao.imagem.mimeType};base64,${requisicao.imagem.data.toString('base64')}`,
+                    },
+                },
+            ]
+            : requisicao.prompt;
+
+        const body: Record<string, any> = {
+            model: this.model,
+            messages: [{ role: 'user', content }],
+            temperature: requisicao.temperatura ?? 0.1,
+            max_tokens: requisicao.maxTokens ?? 2048,
+        };
+        if (requisicao.schema) {
+            body.response_format = {
+                type: 'json_schema',
+                json_schema: { name: 'resposta', schema: requisicao.schema },
+            };
+        } else if (requisicao.json) {
+            body.response_format = { type: 'json_object' };
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    async gerarEmbedding(texto: string): Promise<number[]> {
+        const response = await fetch(`${this.baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify({ model: this.embeddingModel, input: texto }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => '');
+            throw new Error(`OpenAI-compatible embedding error: ${response.status} ${response.statusText} ${errorText}`.trim());
+        }
+
+        const data: any = await response.json();
+        return data.data?.[0]?.embedding || [];
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { zodParaJsonSchema } from './jsonSchema';
+
+/**
+ * Classes possíveis para um protocolo analisado pela IA
+ */
+export const CLASSES_FINAIS = [
+    'DEFERIDO',
+    'INDEFERIDO',
+    'EXIGENCIA',
+    'PERICIA',
+    'RECURSO',
+    'CANCELADO',
+    'EM_ANALISE',
+    'PENDENTE',
+    'DUPLICADO',
+] as const;
+
+/**
+ * Contrato da resposta da análise de texto do INSS (AIService.analisarTextoInss)
+ *
+ * É enviado ao provedor como schema de resposta e validado no retorno.
+ * Respostas fora do contrato são reparadas uma vez e, se continuarem inválidas,
+ * ficam registradas em ia_respostas_rejeitadas.
+ */
+export const respostaAnaliseSchema = z.object({
+    classe_final: z.enum(CLASSES_FINAIS).describe('Status atual do requerimento'),
+    motivo_ia: z.string().trim().min(1, 'motivo_ia não pode ser vazio').describe('Explicação em 1-2 frases do status atual'),
+    documentos_exigidos: z.array(z.string()).max(10).nullable().optional().describe('Documentos pedidos na exigência'),
+    data_evento: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}/, 'data_evento deve estar no formato YYYY-MM-DD')
+        .nullable()
+        .optional()
+        .describe('Data do evento (perícia, prazo) no formato YYYY-MM-DD'),
+    confianca: z.number().min(0).max(1).describe('Confiança da classificação entre 0 e 1'),
+    tipo_indeferimento: z.enum(['CULPA', 'MERITO']).nullable().optional().describe('Apenas quando classe_final for INDEFERIDO'),
+});
+
+export type RespostaAnaliseIA = z.infer<typeof respostaAnaliseSchema>;
+
+export const respostaAnaliseJsonSchema = zodParaJsonSchema(respostaAnaliseSchema);
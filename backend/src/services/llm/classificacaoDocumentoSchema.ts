@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { zodParaJsonSchema } from './jsonSchema';
+
+/**
+ * Tipos de documento reconhecidos nos arquivos enviados pelos clientes
+ */
+export const TIPOS_DOCUMENTO_CLIENTE = [
+    'RG',
+    'CPF',
+    'CNH',
+    'CERTIDAO',
+    'COMPROVANTE_RESIDENCIA',
+    'LAUDO_MEDICO',
+    'CADUNICO',
+    'AUTODECLARACAO',
+    'PROCURACAO',
+    'OUTRO',
+] as const;
+
+/**
+ * Contrato da resposta da classificação de documento (AIService.classificarDocumento)
+ *
+ * A IA recebe o texto do OCR (ou o próprio arquivo, no provedor com visão) e a lista de itens
+ * pendentes da exigência; item_exigencia deve ser copiado exatamente da lista.
+ */
+export const respostaClassificacaoDocumentoSchema = z.object({
+    tipo_documento: z.enum(TIPOS_DOCUMENTO_CLIENTE).describe('Tipo do documento'),
+    nome: z.string().nullable().optional().describe('Nome completo da pessoa titular do documento'),
+    cpf: z.string().nullable().optional().describe('CPF do titular, apenas números'),
+    datas: z
+        .array(z.object({
+            descricao: z.string().describe('O que é a data (nascimento, emissão, validade, consulta)'),
+            data: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'data deve estar no formato YYYY-MM-DD').describe('Data no formato YYYY-MM-DD'),
+        }))
+        .max(10)
+        .describe('Datas relevantes do documento'),
+    cids: z.array(z.string()).max(10).describe('Códigos CID do laudo (ex: F32.2); vazio se não for laudo'),
+    item_exigencia: z.string().nullable().optional().describe('Item da lista de pendências que o documento atende, copiado exatamente, ou null'),
+    confianca: z.number().min(0).max(1).describe('Confiança da classificação entre 0 e 1'),
+});
+
+export type RespostaClassificacaoDocumento = z.infer<typeof respostaClassificacaoDocumentoSchema>;
+
+export const respostaClassificacaoDocumentoJsonSchema = zodParaJsonSchema(respostaClassificacaoDocumentoSchema);
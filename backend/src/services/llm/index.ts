@@ -0,0 +1,60 @@
+import config from '../../config';
+import logger from '../../utils/logger';
+import { LLMProvider, LLMProviderConfig, LLMProviderNome, LLM_PROVIDERS } from './LLMProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { FakeLLMProvider } from './FakeLLMProvider';
+
+export * from './LLMProvider';
+export * from './jsonSchema';
+export * from './analiseSchema';
+export * from './classificacaoDocumentoSchema';
+export { GeminiProvider, OpenAICompatibleProvider, OllamaProvider, FakeLLMProvider };
+
+/**
+ * Verifica se o nome informado é um provedor suportado
+ */
+export function isLLMProviderValido(nome: unknown): nome is LLMProviderNome {
+    return typeof nome === 'string' && (LLM_PROVIDERS as string[]).includes(nome);
+}
+
+/**
+ * Cria o provedor de LLM a partir da configuração do usuário
+ * Campos ausentes caem nos padrões do .env (LLM_PROVIDER, LLM_BASE_URL, LLM_MODEL)
+ */
+export function criarProvedorLLM(opcoes: LLMProviderConfig = {}): LLMProvider {
+    const nome = opcoes.provider || config.llm.provider;
+
+    switch (nome) {
+        case 'openai':
+            return new OpenAICompatibleProvider(
+                opcoes.baseUrl || config.llm.baseUrl || 'https://api.openai.com/v1',
+                opcoes.model || config.llm.model || 'gpt-4o-mini',
+                opcoes.apiKey || config.llm.apiKey,
+                opcoes.embeddingModel || config.llm.embeddingModel || undefined
+            );
+        case 'ollama':
+            return new OllamaProvider(
+                opcoes.baseUrl || config.llm.baseUrl || 'http://localhost:11434',
+                opcoes.model || config.llm.model || 'llama3.1',
+                opcoes.embeddingModel || config.llm.embeddingModel || undefined
+            );
+        case 'fake':
+            if (LLM_PROVIDERS.includes('fake')) {
+                return new FakeLLMProvider();
+            }
+            logger.warn('[LLM] Provedor "fake" só vale com NODE_ENV=test, usando Gemini');
+            return criarProvedorLLM({ ...opcoes, provider: 'gemini' });
+        case 'gemini':
+            return new GeminiProvider(
+                opcoes.geminiApiKey || opcoes.apiKey || '',
+                opcoes.model || config.gemini.model || 'gemini-2.0-flash',
+                config.gemini.captchaModel || 'gemini-2.0-flash-lite',
+                opcoes.embeddingModel || config.llm.embeddingModel || undefined
+            );
+        default:
+            logger.warn(`[LLM] Provedor desconhecido "${nome}", usando Gemini`);
+            return criarProvedorLLM({ ...opcoes, provider: 'gemini' });
+    }
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+/**
+ * JSON Schema (subconjunto) enviado aos provedores como schema de resposta
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    description?: string;
+    enum?: Array<string | number | null>;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+function tornarNulo(schema: JsonSchema): JsonSchema {
+    const tipos = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const resultado: JsonSchema = { ...schema, type: [...tipos.filter(t => t !== 'null'), 'null'] };
+    if (schema.enum && !schema.enum.includes(null)) {
+        resultado.enum = [...schema.enum, null];
+    }
+    return resultado;
+}
+
+/**
+ * Converte um schema zod em JSON Schema
+ *
+ * Cobre apenas os tipos usados nos contratos de resposta da IA
+ * (objeto, string, número, booleano, enum, array, opcional e nulo).
+ * O zod continua sendo a fonte da verdade: a validação final é sempre feita por ele.
+ */
+export function zodParaJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    let resultado: JsonSchema;
+
+    if (schema instanceof z.ZodEffects) {
+        resultado = zodParaJsonSchema(schema._def.schema);
+    } else if (schema instanceof z.ZodOptional) {
+        resultado = zodParaJsonSchema(schema.unwrap());
+    } else if (schema instanceof z.ZodNullable) {
+        resultado = tornarNulo(zodParaJsonSchema(schema.unwrap()));
+    } else if (schema instanceof z.ZodObject) {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        for (const [chave, campo] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+            properties[chave] = zodParaJsonSchema(campo);
+            if (!campo.isOptional()) {
+                required.push(chave);
+            }
+        }
+        resultado = { type: 'object', properties, required };
+    } else if (schema instanceof z.ZodEnum) {
+        resultado = { type: 'string', enum: [...schema.options] };
+    } else if (schema instanceof z.ZodArray) {
+        resultado = { type: 'array', items: zodParaJsonSchema(schema.element) };
+        if (schema._def.minLength) resultado.minItems = schema._def.minLength.value;
+        if (schema._def.maxLength) resultado.maxItems = schema._def.maxLength.value;
+    } else if (schema instanceof z.ZodNumber) {
+        resultado = { type: 'number' };
+        for (const check of schema._def.checks) {
+            if (check.kind === 'min') resultado.minimum = check.value;
+            if (check.kind === 'max') resultado.maximum = check.value;
+        }
+    } else if (schema instanceof z.ZodBoolean) {
+        resultado = { type: 'boolean' };
+    } else {
+        resultado = { type: 'string' };
+    }
+
+    if (schema.description) {
+        resultado.description = schema.description;
+    }
+    return resultado;
+}
+
+/**
+ * Formata os erros do zod em linhas legíveis ("campo: mensagem")
+ * Usado no prompt de reparo e no registro de respostas rejeitadas
+ */
+export function formatarErrosZod(erro: z.ZodError): string[] {
+    return erro.issues.map(issue => {
+        const caminho = issue.path.length > 0 ? issue.path.join('.') : '(raiz)';
+        return `${caminho}: ${issue.message}`;
+    });
+}
@@ -0,0 +1,29 @@
+import { QueryResult, QueryResultRow } from 'pg';
+import Database from '../../database';
+import logger from '../../utils/logger';
+
+/**
+ * Banco em modo simulação: consultas (SELECT/WITH) vão para o Postgres real,
+ * escritas são descartadas e devolvem resultado vazio
+ */
+export class BancoSomenteLeitura {
+    private ehLeitura(text: string): boolean {
+        return /^\s*(SELECT|WITH)\b/i.test(text);
+    }
+
+    async query<T = any>(text: string, params?: any[]): Promise<T[]> {
+        if (this.ehLeitura(text)) {
+            return Database.query<T>(text, params);
+        }
+        logger.debug('[Simulação] Escrita no banco ignorada', { text });
+        return [];
+    }
+
+    async queryFull<T extends QueryResultRow = QueryResultRow>(text: string, params?: any[]): Promise<QueryResult<T>> {
+        if (this.ehLeitura(text)) {
+            return Database.queryFull<T>(text, params);
+        }
+        logger.debug('[Simulação] Escrita no banco ignorada', { text });
+        return { command: '', rowCount: 0, oid: 0, fields: [], rows: [] };
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Efeito que a sincronização teria executado fora do INSS (Tramitação, WhatsApp, e-mail/SMS, armazenamento de arquivos)
+ */
+export type EfeitoSimulado =
+    | { tipo: 'cliente_criado'; clienteId: string; nome: string; cpf: string }
+    | { tipo: 'etiquetas'; clienteId: string; adicionadas: string[]; removidas: string[]; finais: string[] }
+    | { tipo: 'nota'; clienteId: string; titulo: string; texto: string; categoria?: string }
+    | { tipo: 'atividade'; clienteId: string; dados: Record<string, any> }
+    | { tipo: 'agendamento'; clienteId: string; dados: Record<string, any> }
+    | { tipo: 'email_exclusivo'; clienteId: string; email: string }
+    | { tipo: 'whatsapp'; telefone: string; mensagem: string }
+    | { tipo: 'notificacao'; canal: string; destino: string; assunto: string; mensagem: string; anexos: string[] }
+    | { tipo: 'comprovante'; arquivo: string; tamanhoBytes: number; url: string };
+
+export interface RelatorioSimulacaoProtocolo {
+    protocolo: string;
+    efeitos: EfeitoSimulado[];
+}
+
+// Efeitos registrados fora de um protocolo (ex.: aprendizado de padrões antes do loop)
+const SEM_PROTOCOLO = '(sem protocolo)';
+
+/**
+ * Acumula, por protocolo, os efeitos registrados pelos serviços simulados
+ */
+export class RegistroSimulacao {
+    private relatorios = new Map<string, EfeitoSimulado[]>();
+    private protocoloAtual = SEM_PROTOCOLO;
+
+    iniciarProtocolo(protocolo: string): void {
+        this.protocoloAtual = protocolo;
+        if (!this.relatorios.has(protocolo)) {
+            this.relatorios.set(protocolo, []);
+        }
+    }
+
+    registrar(efeito: EfeitoSimulado): void {
+        const efeitos = this.relatorios.get(this.protocoloAtual) || [];
+        efeitos.push(efeito);
+        this.relatorios.set(this.protocoloAtual, efeitos);
+    }
+
+    relatorioDoProtocolo(protocolo: string): RelatorioSimulacaoProtocolo {
+        return { protocolo, efeitos: [...(this.relatorios.get(protocolo) || [])] };
+    }
+
+    obterRelatorio(): RelatorioSimulacaoProtocolo[] {
+        return Array.from(this.relatorios.entries()).map(([protocolo, efeitos]) => ({ protocolo, efeitos }));
+    }
+}
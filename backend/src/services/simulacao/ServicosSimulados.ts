@@ -0,0 +1,133 @@
+import logger from '../../utils/logger';
+import { RegistroSimulacao } from './RegistroSimulacao';
+import { ContatoNotificacao, NotificacaoCanal, TipoCanal } from '../canais';
+import type { ComprovanteArmazenado } from '../armazenamento';
+import { ServicoArmazenamento, ServicoCanais, ServicoTramitacaoSync, ServicoWhatsApp } from './servicos';
+
+/**
+ * WhatsApp em modo simulação: nenhuma mensagem sai, o texto completo fica no relatório
+ */
+export class WhatsAppServiceSimulado implements ServicoWhatsApp {
+    private registro: RegistroSimulacao;
+
+    constructor(registro: RegistroSimulacao) {
+        this.registro = registro;
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async aguardarPronto(): Promise<boolean> {
+        return true;
+    }
+
+    async enviar(telefoneDestino: string, mensagem: string): Promise<boolean> {
+        logger.info(`[Simulação] 📱 WhatsApp seria enviado para ${telefoneDestino}`);
+        this.registro.registrar({ tipo: 'whatsapp', telefone: telefoneDestino, mensagem });
+        return true;
+    }
+}
+
+/**
+ * Canais de notificação em modo simulação: nada sai, o destino e o texto ficam no relatório
+ */
+export class CanaisNotificacaoSimulado implements ServicoCanais {
+    private registro: RegistroSimulacao;
+
+    constructor(registro: RegistroSimulacao) {
+        this.registro = registro;
+    }
+
+    async enviar(contato: ContatoNotificacao, notificacao: NotificacaoCanal): Promise<TipoCanal> {
+        const destino = (contato.canal === 'email' ? contato.email : contato.telefone) || '';
+        logger.info(`[Simulação] 📨 Notificação (${contato.canal}) seria enviada para ${destino}`);
+        this.registro.registrar({
+            tipo: 'notificacao',
+            canal: contato.canal,
+            destino,
+            assunto: notificacao.assunto,
+            mensagem: notificacao.mensagem,
+            anexos: (notificacao.anexos || []).map(anexo => anexo.nomeArquivo),
+        });
+        return contato.canal;
+    }
+}
+
+/**
+ * Armazenamento de comprovantes em modo simulação: o PDF é baixado do PAT mas não é guardado
+ */
+export class ArmazenamentoSimulado implements ServicoArmazenamento {
+    private registro: RegistroSimulacao;
+
+    constructor(registro: RegistroSimulacao) {
+        this.registro = registro;
+    }
+
+    async salvarComprovante(fileBuffer: Buffer, fileName: string): Promise<ComprovanteArmazenado | null> {
+        const url = `simulacao://comprovantes/${fileName}`;
+        logger.info(`[Simulação] 📄 Comprovante seria guardado no armazenamento: ${fileName}`);
+        this.registro.registrar({ tipo: 'comprovante', arquivo: fileName, tamanhoBytes: fileBuffer.length, url });
+        return { documentoId: null, url };
+    }
+}
+
+/**
+ * Automação do Tramitação (Puppeteer) em modo simulação
+ * A verificação de atividade existente continua sendo feita no Tramitação real (só leitura)
+ */
+export class TramitacaoSyncServiceSimulado implements ServicoTramitacaoSync {
+    private registro: RegistroSimulacao;
+    private real: ServicoTramitacaoSync;
+    private atividadesSimuladas = new Set<string>();
+
+    constructor(registro: RegistroSimulacao, real: ServicoTramitacaoSync) {
+        this.registro = registro;
+        this.real = real;
+    }
+
+    private chaveAtividade(clienteId: string | number, data: Date, tipo: string): string {
+        return `${clienteId}:${tipo}:${data.toLocaleDateString('pt-BR')}`;
+    }
+
+    async gerarEmailExclusivo(clienteId: string | number): Promise<{ success: boolean; data?: any; error?: string }> {
+        const email = `simulado-${String(clienteId).replace('-', 'n')}@simulacao.local`;
+        this.registro.registrar({ tipo: 'email_exclusivo', clienteId: String(clienteId), email });
+        return { success: true, data: { email } };
+    }
+
+    async cadastrarAtividade(
+        clienteId: string | number,
+        agendamento: {
+            tipo: 'PERICIA' | 'AVALIACAO_SOCIAL';
+            data: Date;
+            hora: string;
+            unidade: string;
+            endereco?: string;
+            servico?: string;
+            urlComprovante?: string;
+        }
+    ): Promise<number | null> {
+        this.atividadesSimuladas.add(this.chaveAtividade(clienteId, agendamento.data, agendamento.tipo));
+
+        logger.info(`[Simulação] 📌 Atividade ${agendamento.tipo} seria cadastrada no cliente ${clienteId}`);
+        this.registro.registrar({ tipo: 'atividade', clienteId: String(clienteId), dados: agendamento });
+        return -this.atividadesSimuladas.size;
+    }
+
+    async verificarAtividadeExistente(
+        clienteId: string | number,
+        data: Date,
+        tipo: 'PERICIA' | 'AVALIACAO_SOCIAL',
+        tramitacaoEmail?: string,
+        tramitacaoPassword?: string
+    ): Promise<boolean> {
+        if (this.atividadesSimuladas.has(this.chaveAtividade(clienteId, data, tipo))) {
+            return true;
+        }
+        if (Number(clienteId) < 0) {
+            return false;
+        }
+        return this.real.verificarAtividadeExistente(clienteId, data, tipo, tramitacaoEmail, tramitacaoPassword);
+    }
+}
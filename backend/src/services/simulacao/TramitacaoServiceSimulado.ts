@@ -0,0 +1,157 @@
+import { ClienteTramitacaoBasico, TramitacaoService } from '../TramitacaoService';
+import logger from '../../utils/logger';
+import { RegistroSimulacao } from './RegistroSimulacao';
+
+/**
+ * Tramitação em modo simulação (dry-run)
+ *
+ * Leituras (buscar cliente, tags, notas, aprendizado de etiquetas) vão para a API real;
+ * escritas são apenas registradas no RegistroSimulacao. Clientes, tags e notas "criados"
+ * ficam em memória para que o restante do fluxo enxergue o estado que teria resultado.
+ * Clientes simulados recebem IDs negativos.
+ */
+export class TramitacaoServiceSimulado extends TramitacaoService {
+    private registro: RegistroSimulacao;
+    private clientesSimulados = new Map<string, ClienteTramitacaoBasico>();
+    private tagsSimuladas = new Map<string, string[]>();
+    private notasSimuladas = new Map<string, any[]>();
+    private proximoId = -1;
+
+    constructor(registro: RegistroSimulacao, apiToken?: string, email?: string, senha?: string, usuarioId?: string) {
+        super(apiToken, email, senha, usuarioId);
+        this.registro = registro;
+    }
+
+    private ehClienteSimulado(clienteId: string | number): boolean {
+        return Number(clienteId) < 0;
+    }
+
+    async buscarCliente(cpf: string): Promise<ClienteTramitacaoBasico | null> {
+        const simulado = this.clientesSimulados.get(cpf.replace(/\D/g, ''));
+        return simulado || super.buscarCliente(cpf);
+    }
+
+    async criarCliente(dadosCliente: {
+        nome: string;
+        cpf: string;
+        protocolo: string;
+        servico: string;
+    }): Promise<ClienteTramitacaoBasico | null> {
+        const cliente: ClienteTramitacaoBasico = {
+            id: String(this.proximoId--),
+            nome: dadosCliente.nome,
+            cpf: dadosCliente.cpf,
+            raw: { simulado: true },
+        };
+        this.clientesSimulados.set(dadosCliente.cpf.replace(/\D/g, ''), cliente);
+
+        logger.info(`[Simulação] 👤 Cliente seria criado: ${cliente.nome} (ID simulado ${cliente.id})`);
+        this.registro.registrar({ tipo: 'cliente_criado', clienteId: cliente.id, nome: cliente.nome, cpf: cliente.cpf });
+        return cliente;
+    }
+
+    async obterTagsCliente(clienteId: number | string): Promise<string[]> {
+        const simuladas = this.tagsSimuladas.get(String(clienteId));
+        if (simuladas) {
+            return [...simuladas];
+        }
+        return this.ehClienteSimulado(clienteId) ? [] : super.obterTagsCliente(clienteId);
+    }
+
+    /**
+     * Mesmo merge do serviço real: mantém tags manuais e substitui as do sistema
+     */
+    async aplicarEtiquetas(clienteId: string, etiquetas: string[]): Promise<boolean> {
+        const atuais = await this.obterTagsCliente(clienteId);
+        const manuais = atuais.filter(tag => !this.isTagDoSistema(tag));
+        const novasDoSistema = etiquetas.filter(tag => this.isTagDoSistema(tag));
+        const finais = [...new Set([...manuais, ...novasDoSistema])];
+
+        this.registrarEtiquetas(clienteId, atuais, finais);
+        return true;
+    }
+
+    async aplicarEtiqueta(clienteId: string, etiqueta: string): Promise<boolean> {
+        const atuais = await this.obterTagsCliente(clienteId);
+        const finais = atuais.includes(etiqueta) ? atuais : [...atuais, etiqueta];
+
+        this.registrarEtiquetas(clienteId, atuais, finais);
+        return true;
+    }
+
+    private registrarEtiquetas(clienteId: string, atuais: string[], finais: string[]): void {
+        const adicionadas = finais.filter(tag => !atuais.includes(tag));
+        const removidas = atuais.filter(tag => !finais.includes(tag));
+        this.tagsSimuladas.set(String(clienteId), finais);
+
+        logger.info(`[Simulação] 🏷️ Etiquetas do cliente ${clienteId}: +[${adicionadas.join(', ')}] -[${removidas.join(', ')}]`);
+        this.registro.registrar({ tipo: 'etiquetas', clienteId: String(clienteId), adicionadas, removidas, finais });
+    }
+
+    async criarNota(
+        clienteId: string,
+        nota: {
+            titulo: string;
+            texto: string;
+            tipo?: 'INFORMACAO' | 'ALERTA' | 'URGENTE';
+        }
+    ): Promise<string | null> {
+        const notas = this.notasSimuladas.get(String(clienteId)) || [];
+        const id = `simulada-${notas.length + 1}`;
+        notas.push({ id, content: `**${nota.titulo}**\n\n${nota.texto}`, created_at: new Date().toISOString() });
+        this.notasSimuladas.set(String(clienteId), notas);
+
+        logger.info(`[Simulação] 📝 Nota seria criada no cliente ${clienteId}: ${nota.titulo}`);
+        this.registro.registrar({ tipo: 'nota', clienteId: String(clienteId), titulo: nota.titulo, texto: nota.texto, categoria: nota.tipo });
+        return id;
+    }
+
+    /**
+     * Notas reais + notas simuladas nesta execução (verificarNotaSimilar usa esta lista)
+     */
+    async listarNotasCliente(clienteId: string | number): Promise<any[]> {
+        const reais = this.ehClienteSimulado(clienteId) ? [] : await super.listarNotasCliente(clienteId);
+        return [...reais, ...(this.notasSimuladas.get(String(clienteId)) || [])];
+    }
+
+    async criarAtividade(
+        clienteId: string,
+        atividade: {
+            titulo: string;
+            descricao: string;
+            responsavel?: string;
+            prazo?: Date;
+            prioridade?: 'BAIXA' | 'MEDIA' | 'ALTA' | 'URGENTE';
+        }
+    ): Promise<string | null> {
+        logger.info(`[Simulação] 📌 Atividade seria criada no cliente ${clienteId}: ${atividade.titulo}`);
+        this.registro.registrar({ tipo: 'atividade', clienteId: String(clienteId), dados: atividade });
+        return 'simulada';
+    }
+
+    async criarAgendamento(
+        clienteId: string,
+        agendamento: {
+            titulo: string;
+            descricao: string;
+            data: Date;
+            hora?: string;
+            local?: string;
+        }
+    ): Promise<string | null> {
+        logger.info(`[Simulação] 📅 Agendamento seria criado no cliente ${clienteId}: ${agendamento.titulo}`);
+        this.registro.registrar({ tipo: 'agendamento', clienteId: String(clienteId), dados: agendamento });
+        return 'simulado';
+    }
+
+    async atualizarStatus(clienteId: string, status: string): Promise<boolean> {
+        logger.info(`[Simulação] 🔄 Status do cliente ${clienteId} seria atualizado para ${status}`);
+        return true;
+    }
+
+    async criarEmailExclusivo(clienteId: string): Promise<string | null> {
+        const email = `simulado-${String(clienteId).replace('-', 'n')}@simulacao.local`;
+        this.registro.registrar({ tipo: 'email_exclusivo', clienteId: String(clienteId), email });
+        return email;
+    }
+}
@@ -0,0 +1,56 @@
+import whatsappOutboxService from '../WhatsAppOutboxService';
+import armazenamentoService from '../armazenamento';
+import tramitacaoSyncService from '../TramitacaoSyncService';
+import canaisNotificacaoService from '../canais';
+import { TramitacaoService } from '../TramitacaoService';
+import { RegistroSimulacao } from './RegistroSimulacao';
+import { TramitacaoServiceSimulado } from './TramitacaoServiceSimulado';
+import { ArmazenamentoSimulado, CanaisNotificacaoSimulado, TramitacaoSyncServiceSimulado, WhatsAppServiceSimulado } from './ServicosSimulados';
+import { ServicoArmazenamento, ServicoCanais, ServicoTramitacaoSync, ServicoWhatsApp } from './servicos';
+import { BancoSomenteLeitura } from './BancoSomenteLeitura';
+
+export * from './RegistroSimulacao';
+export * from './servicos';
+export { TramitacaoServiceSimulado, WhatsAppServiceSimulado, CanaisNotificacaoSimulado, ArmazenamentoSimulado, TramitacaoSyncServiceSimulado, BancoSomenteLeitura };
+
+/**
+ * Serviços com efeitos fora do INSS usados pela sincronização
+ */
+export interface ServicosExternos {
+    tramitacao: TramitacaoService;
+    whatsapp: ServicoWhatsApp;
+    /** Notificações pelo canal preferido do contato (WhatsApp, e-mail, SMS) */
+    canais: ServicoCanais;
+    tramitacaoSync: ServicoTramitacaoSync;
+    armazenamento: ServicoArmazenamento;
+}
+
+/**
+ * Serviços reais, ou simulados quando há registro de simulação (dry-run)
+ * @param credenciais credenciais do Tramitação do usuário (leituras continuam reais na simulação)
+ * @param usuarioId usuário da extensão: o WhatsApp é enfileirado para a sessão do escritório (sem ela, a central)
+ *        e as notas do Tramitação usam os templates do escritório
+ */
+export function criarServicosExternos(
+    credenciais: { apiToken?: string; email?: string; senha?: string },
+    registro?: RegistroSimulacao | null,
+    usuarioId?: string
+): ServicosExternos {
+    if (!registro) {
+        return {
+            tramitacao: new TramitacaoService(credenciais.apiToken, credenciais.email, credenciais.senha, usuarioId),
+            whatsapp: whatsappOutboxService.produtor('sincronizacao', usuarioId),
+            canais: canaisNotificacaoService,
+            tramitacaoSync: tramitacaoSyncService,
+            armazenamento: armazenamentoService,
+        };
+    }
+
+    return {
+        tramitacao: new TramitacaoServiceSimulado(registro, credenciais.apiToken, credenciais.email, credenciais.senha, usuarioId),
+        whatsapp: new WhatsAppServiceSimulado(registro),
+        canais: new CanaisNotificacaoSimulado(registro),
+        tramitacaoSync: new TramitacaoSyncServiceSimulado(registro, tramitacaoSyncService),
+        armazenamento: new ArmazenamentoSimulado(registro),
+    };
+}
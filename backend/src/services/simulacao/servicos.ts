@@ -0,0 +1,19 @@
+import type { ProdutorWhatsApp } from '../WhatsAppOutboxService';
+import type { CanaisNotificacaoService } from '../canais';
+import type { ArmazenamentoService } from '../armazenamento';
+import type tramitacaoSyncService from '../TramitacaoSyncService';
+
+/**
+ * Partes dos serviços externos usadas pela sincronização
+ * Os serviços reais (singletons) e os simulados atendem os mesmos contratos
+ */
+export type ServicoWhatsApp = Pick<ProdutorWhatsApp, 'enviar' | 'isConfigured' | 'aguardarPronto'>;
+
+export type ServicoCanais = Pick<CanaisNotificacaoService, 'enviar'>;
+
+export type ServicoArmazenamento = Pick<ArmazenamentoService, 'salvarComprovante'>;
+
+export type ServicoTramitacaoSync = Pick<
+    typeof tramitacaoSyncService,
+    'gerarEmailExclusivo' | 'cadastrarAtividade' | 'verificarAtividadeExistente'
+>;
@@ -0,0 +1,975 @@
+/**
+ * Sessão WhatsApp de um escritório - whatsapp-web.js
+ *
+ * Cada usuário da extensão (escritório) tem o próprio Client, com LocalAuth
+ * isolado por clientId, QR Code, status, recuperação e limite de envio
+ *
+ * Recursos de resiliência:
+ * - Auto-recovery silencioso para sessões corrompidas
+ * - Detecção inteligente de corrupção de sessão (lock files, journals)
+ * - Retry com backoff exponencial (3s → 6s → 12s)
+ * - Eventos de conexão, queda e envio para a saúde da sessão (SaudeWhatsAppService)
+ * - SEGURO: Não mata processos do sistema, apenas gerencia arquivos da própria sessão
+ */
+
+import { Client, LocalAuth } from 'whatsapp-web.js';
+import logger from '../../utils/logger';
+import path from 'path';
+import fs from 'fs';
+
+export interface StatusSessaoWhatsApp {
+    usuarioId: string | null;
+    isReady: boolean;
+    isConnecting: boolean;
+    numeroConectado: string | null;
+    temSessaoSalva: boolean;
+    lastAuthenticatedAt: string | null;
+    lastReadyAt: string | null;
+    sessionStartedAt: string | null;
+    temQrCodePendente: boolean;
+    ultimoEnvioEm: string | null;
+    falhasEnvioConsecutivas: number;
+}
+
+/**
+ * Resultado de um envio: id da mensagem no WhatsApp para acompanhar os acks
+ */
+export interface ResultadoEnvioWhatsApp {
+    enviado: boolean;
+    mensagemId?: string;
+    erro?: string;
+}
+
+/**
+ * Ack do whatsapp-web.js (MessageAck): -1 erro, 0 pendente, 1 servidor, 2 entregue, 3 lida, 4 reproduzida
+ */
+export type OuvinteAckWhatsApp = (mensagemId: string, ack: number) => void;
+
+/**
+ * Arquivo anexado a uma mensagem recebida
+ */
+export interface MidiaWhatsApp {
+    mimetype: string;
+    nomeArquivo: string | null;
+    dados: Buffer;
+}
+
+/**
+ * Mensagem recebida de um contato (grupos, status e mensagens da própria sessão ficam de fora)
+ */
+export interface MensagemRecebidaWhatsApp {
+    // Sessão que recebeu (null = sessão legada)
+    usuarioId: string | null;
+    mensagemId: string;
+    // Só dígitos, com DDI (ex.: 5577988887777)
+    telefone: string;
+    texto: string;
+    temMidia: boolean;
+    recebidaEm: Date;
+    baixarMidia(): Promise<MidiaWhatsApp | null>;
+}
+
+export type OuvinteMensagemWhatsApp = (mensagem: MensagemRecebidaWhatsApp) => void;
+
+/**
+ * Mudanças de estado da sessão acompanhadas pela saúde do WhatsApp (SaudeWhatsAppService)
+ */
+export type TipoEventoSessaoWhatsApp =
+    | 'CONECTADA'
+    | 'DESCONECTADA'
+    | 'LOGOUT'
+    | 'FALHA_AUTENTICACAO'
+    | 'ERRO_RECUPERAVEL'
+    | 'RECUPERACAO_ESGOTADA'
+    | 'ENVIO_OK'
+    | 'ENVIO_FALHOU';
+
+export interface EventoSessaoWhatsApp {
+    // Sessão do evento (null = sessão legada)
+    usuarioId: string | null;
+    tipo: TipoEventoSessaoWhatsApp;
+    detalhe: string | null;
+    ocorridoEm: Date;
+}
+
+export type OuvinteEventoSessaoWhatsApp = (evento: EventoSessaoWhatsApp) => void;
+
+export interface LimitesEnvioWhatsApp {
+    // Intervalo mínimo entre duas mensagens da mesma sessão
+    intervaloMs: number;
+    // Máximo de mensagens da mesma sessão numa janela de 60s
+    maxPorMinuto: number;
+}
+
+/**
+ * Prefixo do clientId do LocalAuth para sessões de usuários da extensão
+ * O LocalAuth grava cada sessão em <dataPath>/session-<clientId>
+ */
+export const PREFIXO_CLIENT_ID = 'usuario-';
+
+export class SessaoWhatsApp {
+    readonly usuarioId: string | null;
+
+    private client: Client | null = null;
+    private isReady: boolean = false;
+    private isConnecting: boolean = false;
+    private readonly clientId: string | undefined;
+    private readonly dataPath: string;
+    private readonly sessionDir: string;
+    private readonly rotulo: string;
+    private readonly limites: LimitesEnvioWhatsApp;
+
+    // Armazenar QR code em memória para a extensão
+    private currentQrCode: string | null = null;
+    private qrCodeTimestamp: number | null = null;
+    private readonly qrCodeExpirationMs = 20000;
+
+    // Timestamps para controle de sessão
+    private lastAuthenticatedAt: Date | null = null;
+    private lastReadyAt: Date | null = null;
+    private sessionStartedAt: Date | null = null;
+
+    // Controle de retry e recuperação
+    private recoveryAttempts: number = 0;
+    private readonly maxRecoveryAttempts: number = 3;
+    private lastErrorTime: number = 0;
+    private isRecovering: boolean = false;
+    private isShuttingDown: boolean = false;
+
+    // Saúde da sessão: último envio bem-sucedido e falhas seguidas desde então
+    private ultimoEnvioEm: Date | null = null;
+    private falhasEnvioConsecutivas: number = 0;
+
+    // Limite de envio: envios da sessão são serializados nesta fila
+    private filaEnvio: Promise<unknown> = Promise.resolve();
+    private enviosRecentes: number[] = [];
+
+    private readonly ouvintesAck: OuvinteAckWhatsApp[] = [];
+    private readonly ouvintesMensagem: OuvinteMensagemWhatsApp[] = [];
+    private readonly ouvintesEvento: OuvinteEventoSessaoWhatsApp[] = [];
+
+    /**
+     * @param usuarioId id do usuário da extensão; null = sessão legada sem clientId
+     * @param dataPath pasta base do LocalAuth (.wwebjs_auth)
+     */
+    constructor(usuarioId: string | null, dataPath: string, limites: LimitesEnvioWhatsApp) {
+        if (usuarioId !== null && !/^[\w-]+$/.test(usuarioId)) {
+            throw new Error(`Id de usuário inválido para sessão WhatsApp: ${usuarioId}`);
+        }
+
+        this.usuarioId = usuarioId;
+        this.clientId = usuarioId ? `${PREFIXO_CLIENT_ID}${usuarioId}` : undefined;
+        this.dataPath = dataPath;
+        this.sessionDir = path.join(dataPath, this.clientId ? `session-${this.clientId}` : 'session');
+        this.rotulo = usuarioId ? `WhatsApp:${usuarioId.substring(0, 8)}` : 'WhatsApp';
+        this.limites = limites;
+    }
+
+    /**
+     * Registra quem acompanha os acks (enviada/entregue/lida) das mensagens desta sessão
+     */
+    aoAtualizarAck(ouvinte: OuvinteAckWhatsApp): void {
+        this.ouvintesAck.push(ouvinte);
+    }
+
+    /**
+     * Registra quem trata as mensagens recebidas de contatos nesta sessão
+     */
+    aoReceberMensagem(ouvinte: OuvinteMensagemWhatsApp): void {
+        this.ouvintesMensagem.push(ouvinte);
+    }
+
+    /**
+     * Registra quem acompanha conexão, quedas e resultado dos envios desta sessão
+     */
+    aoMudarEstado(ouvinte: OuvinteEventoSessaoWhatsApp): void {
+        this.ouvintesEvento.push(ouvinte);
+    }
+
+    private emitirEvento(tipo: TipoEventoSessaoWhatsApp, detalhe: string | null = null): void {
+        const evento: EventoSessaoWhatsApp = { usuarioId: this.usuarioId, tipo, detalhe, ocorridoEm: new Date() };
+
+        for (const ouvinte of this.ouvintesEvento) {
+            try {
+                ouvinte(evento);
+            } catch (error: any) {
+                logger.warn(`[${this.rotulo}] Erro ao registrar evento ${tipo}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Verifica se já existe uma sessão salva E se está íntegra
+     */
+    verificarSessaoExistente(): boolean {
+        try {
+            const sessionDir = path.join(this.sessionDir, 'Default');
+            if (!fs.existsSync(sessionDir)) return false;
+
+            const files = fs.readdirSync(sessionDir);
+
+            // Verificar se tem os arquivos essenciais
+            const hasLocalStorage = files.some((f: string) => f.includes('Local Storage'));
+            const hasIndexedDB = files.some((f: string) => f.includes('IndexedDB'));
+
+            if (!hasLocalStorage || !hasIndexedDB) return false;
+
+            // Verificar integridade - se IndexedDB tem conteúdo
+            const indexedDBPath = path.join(sessionDir, 'IndexedDB');
+            if (fs.existsSync(indexedDBPath)) {
+                const dbFiles = fs.readdirSync(indexedDBPath);
+                // Se IndexedDB existe mas está vazio, sessão está corrompida
+                if (dbFiles.length === 0) {
+                    return false;
+                }
+            }
+
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Verifica sinais de corrupção REAL na sessão
+     *
+     * IMPORTANTE: Arquivos de lock (lockfile, SingletonLock) NÃO são corrupção!
+     * Eles apenas indicam que o Chrome não encerrou graciosamente.
+     * A sessão em si (cookies, LocalStorage, IndexedDB) pode estar perfeita.
+     *
+     * Só consideramos corrupção REAL quando:
+     * - Arquivo de journal existe sem o arquivo principal (transação incompleta)
+     * - IndexedDB está vazio quando deveria ter dados
+     */
+    private verificarCorrupcaoSessao(): boolean {
+        try {
+            const sessionDir = path.join(this.sessionDir, 'Default');
+            if (!fs.existsSync(sessionDir)) return false;
+
+            // NÃO verificar arquivos de lock - eles serão limpos naturalmente
+            // Lock files NÃO indicam corrupção, apenas crash anterior
+
+            // Verificar se Cookies-journal existe sem Cookies (transação incompleta)
+            const cookiesJournal = path.join(sessionDir, 'Cookies-journal');
+            const cookies = path.join(sessionDir, 'Cookies');
+            if (fs.existsSync(cookiesJournal) && !fs.existsSync(cookies)) {
+                logger.warn(`[${this.rotulo}] Corrupção detectada: Cookies-journal sem Cookies`);
+                return true;
+            }
+
+            // Verificar se IndexedDB está corrompido (existe mas vazio)
+            const indexedDBPath = path.join(sessionDir, 'IndexedDB');
+            if (fs.existsSync(indexedDBPath)) {
+                const dbFiles = fs.readdirSync(indexedDBPath);
+                // Se tem pasta IndexedDB mas está completamente vazia = problema
+                if (dbFiles.length === 0) {
+                    logger.warn(`[${this.rotulo}] Corrupção detectada: IndexedDB vazio`);
+                    return true;
+                }
+            }
+
+            return false;
+        } catch (error) {
+            // Em caso de erro de leitura, NÃO assumir corrupção
+            // Apenas logar e continuar tentando usar a sessão
+            logger.warn(`[${this.rotulo}] Erro ao verificar sessão, tentando usar mesmo assim`);
+            return false;
+        }
+    }
+
+    /**
+     * Limpa arquivos de lock stale da sessão
+     * SEGURO: Não mata processos do sistema, apenas remove arquivos de lock
+     * que podem ter ficado após crash anterior
+     */
+    private limparLocksStale(): void {
+        try {
+            // O Chrome cria os Singleton* na raiz do perfil e o lockfile em Default
+            const pastas = [this.sessionDir, path.join(this.sessionDir, 'Default')];
+            const lockFiles = ['lockfile', 'SingletonLock', 'SingletonCookie', 'SingletonSocket'];
+
+            for (const pasta of pastas) {
+                if (!fs.existsSync(pasta)) continue;
+
+                for (const lockFile of lockFiles) {
+                    const lockPath = path.join(pasta, lockFile);
+                    if (fs.existsSync(lockPath)) {
+                        try {
+                            fs.unlinkSync(lockPath);
+                        } catch (e) {
+                            // Arquivo em uso = Chrome ainda está rodando (ok, não é stale)
+                        }
+                    }
+                }
+            }
+        } catch (e) {
+            // Ignorar erros
+        }
+    }
+
+    /**
+     * Remove a pasta desta sessão (as sessões dos outros escritórios ficam intactas)
+     * Se estiver em uso, renomeia para backup e agenda a remoção
+     */
+    private apagarPastaSessao(): void {
+        if (!fs.existsSync(this.sessionDir)) return;
+
+        try {
+            fs.rmSync(this.sessionDir, { recursive: true, force: true });
+        } catch (e) {
+            // Se não conseguir apagar (arquivo em uso), renomear
+            const backupPath = `${this.sessionDir}_backup_${Date.now()}`;
+            try {
+                fs.renameSync(this.sessionDir, backupPath);
+                // Agendar limpeza do backup em 2 minutos
+                setTimeout(() => {
+                    try {
+                        fs.rmSync(backupPath, { recursive: true, force: true });
+                    } catch (e) {
+                        // Ignorar erros
+                    }
+                }, 120000);
+            } catch (e2) {
+                // Se nem renomear conseguir, a sessão está bloqueada
+                // Próxima inicialização vai tentar novamente
+            }
+        }
+    }
+
+    /**
+     * Recuperação silenciosa de sessão corrompida
+     * NÃO mata processos do sistema - apenas limpa arquivos
+     */
+    private async recuperarSessaoSilenciosamente(): Promise<boolean> {
+        if (this.isRecovering) return false;
+
+        this.isRecovering = true;
+
+        try {
+            // Destruir cliente atual de forma limpa (libera Puppeteer)
+            if (this.client) {
+                try {
+                    await this.client.destroy().catch(() => { });
+                } catch (e) {
+                    // Ignorar erros
+                }
+                this.client = null;
+            }
+
+            // Aguardar Puppeteer liberar arquivos naturalmente
+            await this.delay(2000);
+
+            // Tentar limpar apenas locks stale (seguro)
+            this.limparLocksStale();
+            await this.delay(500);
+
+            this.apagarPastaSessao();
+
+            this.isReady = false;
+            this.isConnecting = false;
+            this.currentQrCode = null;
+            this.qrCodeTimestamp = null;
+
+            return true;
+        } finally {
+            this.isRecovering = false;
+        }
+    }
+
+    /**
+     * Limpa a sessão atual do WhatsApp (silencioso)
+     */
+    async limparSessao(forcarLimpeza: boolean = false): Promise<void> {
+        try {
+            if (this.client) {
+                try {
+                    await this.client.destroy().catch(() => { });
+                    this.client = null;
+                } catch (e) {
+                    // Ignorar erros
+                }
+            }
+
+            this.isReady = false;
+            this.isConnecting = false;
+            this.currentQrCode = null;
+            this.qrCodeTimestamp = null;
+
+            await this.delay(1000);
+
+            if (fs.existsSync(this.sessionDir)) {
+                let tentativas = 0;
+                const maxTentativas = 3;
+
+                while (tentativas < maxTentativas) {
+                    try {
+                        fs.rmSync(this.sessionDir, { recursive: true, force: true });
+                        break;
+                    } catch (error: any) {
+                        tentativas++;
+                        if (tentativas < maxTentativas) {
+                            await this.delay(1000 * tentativas);
+                        } else if (forcarLimpeza) {
+                            // Última tentativa: renomear em vez de deletar
+                            try {
+                                fs.renameSync(this.sessionDir, `${this.sessionDir}_old_${Date.now()}`);
+                            } catch (e) {
+                                // Ignorar erros
+                            }
+                        }
+                    }
+                }
+            }
+        } catch (error: any) {
+            if (!forcarLimpeza) throw error;
+        }
+    }
+
+    /**
+     * Inicializa o cliente WhatsApp
+     * Com detecção inteligente de corrupção e auto-recovery silencioso
+     */
+    async inicializar(): Promise<void> {
+        if (this.client && this.isReady) return;
+        if (this.isConnecting || this.isRecovering || this.isShuttingDown) return;
+
+        this.isConnecting = true;
+
+        try {
+            // Limpar arquivos de lock stale PRIMEIRO (não apaga sessão, só locks)
+            this.limparLocksStale();
+
+            // Verificar se há sessão existente
+            const temSessao = this.verificarSessaoExistente();
+
+            // APENAS verificar corrupção REAL (não locks!)
+            const sessaoCorreompida = this.verificarCorrupcaoSessao();
+
+            if (sessaoCorreompida) {
+                // Só limpar se REALMENTE corrompida (journal incompleto, IndexedDB vazio)
+                logger.warn(`[${this.rotulo}] Sessão corrompida detectada, limpando...`);
+                await this.recuperarSessaoSilenciosamente();
+            } else if (temSessao) {
+                // Sessão existe e parece OK - tentar usar!
+                logger.info(`[${this.rotulo}] Sessão existente encontrada, tentando reconectar...`);
+            } else {
+                // Sem sessão - vai precisar de QR Code
+                logger.info(`[${this.rotulo}] Aguardando escaneamento do QR Code`);
+            }
+
+            this.client = new Client({
+                authStrategy: new LocalAuth({
+                    clientId: this.clientId,
+                    dataPath: this.dataPath
+                }),
+                puppeteer: {
+                    headless: true,
+                    args: [
+                        '--no-sandbox',
+                        '--disable-setuid-sandbox',
+                        '--disable-dev-shm-usage',
+                        '--disable-accelerated-2d-canvas',
+                        '--no-first-run',
+                        '--no-zygote',
+                        '--single-process',
+                        '--disable-gpu'
+                    ]
+                }
+            });
+
+            // Event: QR Code gerado - silencioso, só armazena
+            this.client.on('qr', (qr) => {
+                this.currentQrCode = qr;
+                this.qrCodeTimestamp = Date.now();
+                this.recoveryAttempts = 0; // Reset ao receber QR válido
+            });
+
+            // Event: Autenticação concluída
+            this.client.on('authenticated', () => {
+                logger.info(`[${this.rotulo}] Autenticado com sucesso`);
+                this.currentQrCode = null;
+                this.qrCodeTimestamp = null;
+                this.lastAuthenticatedAt = new Date();
+                this.recoveryAttempts = 0;
+            });
+
+            // Event: Autenticação falhou - recovery silencioso
+            this.client.on('auth_failure', async () => {
+                this.isReady = false;
+                this.isConnecting = false;
+                this.currentQrCode = null;
+                this.qrCodeTimestamp = null;
+                this.emitirEvento('FALHA_AUTENTICACAO');
+
+                // Recovery silencioso - só limpa e deixa pronto para novo QR
+                await this.recuperarSessaoSilenciosamente();
+            });
+
+            // Event: Cliente está pronto
+            this.client.on('ready', () => {
+                logger.info(`[${this.rotulo}] Conectado e pronto`);
+                this.isReady = true;
+                this.isConnecting = false;
+                this.currentQrCode = null;
+                this.qrCodeTimestamp = null;
+                this.lastReadyAt = new Date();
+                this.recoveryAttempts = 0;
+                if (!this.sessionStartedAt) {
+                    this.sessionStartedAt = new Date();
+                }
+                this.emitirEvento('CONECTADA');
+            });
+
+            // Event: Cliente desconectado
+            this.client.on('disconnected', async (reason) => {
+                const reasonStr = String(reason);
+                this.isReady = false;
+                this.currentQrCode = null;
+                this.qrCodeTimestamp = null;
+
+                if (this.isShuttingDown) return;
+
+                const foiLogout = reasonStr === 'LOGOUT' || reasonStr.includes('LOGOUT');
+                this.emitirEvento(foiLogout ? 'LOGOUT' : 'DESCONECTADA', reasonStr);
+
+                if (foiLogout) {
+                    logger.info(`[${this.rotulo}] Logout detectado - sessão será limpa`);
+                    await this.recuperarSessaoSilenciosamente();
+                }
+
+                // Reconectar silenciosamente
+                const delayReconnect = foiLogout ? 10000 : 5000;
+                setTimeout(() => {
+                    if (!this.isReady && !this.isConnecting) {
+                        this.inicializar().catch(() => { });
+                    }
+                }, delayReconnect);
+            });
+
+            // Event: Ack de mensagem enviada (servidor, entregue, lida)
+            this.client.on('message_ack', (msg, ack) => {
+                const mensagemId = msg?.id?._serialized;
+                if (!mensagemId) return;
+
+                for (const ouvinte of this.ouvintesAck) {
+                    try {
+                        ouvinte(mensagemId, Number(ack));
+                    } catch (error: any) {
+                        logger.warn(`[${this.rotulo}] Erro ao registrar ack: ${error.message}`);
+                    }
+                }
+            });
+
+            // Event: Mensagem recebida de um contato
+            this.client.on('message', (msg) => {
+                // Apenas conversas individuais (grupos são @g.us, status é status@broadcast)
+                if (msg.fromMe || !msg.from?.endsWith('@c.us')) return;
+
+                const mensagem: MensagemRecebidaWhatsApp = {
+                    usuarioId: this.usuarioId,
+                    mensagemId: msg.id._serialized,
+                    telefone: msg.from.replace(/@c\.us$/, '').replace(/\D/g, ''),
+                    texto: msg.body || '',
+                    temMidia: msg.hasMedia,
+                    recebidaEm: new Date(msg.timestamp * 1000),
+                    baixarMidia: async () => {
+                        const midia = await msg.downloadMedia();
+                        if (!midia) return null;
+                        return {
+                            mimetype: midia.mimetype,
+                            nomeArquivo: midia.filename || null,
+                            dados: Buffer.from(midia.data, 'base64'),
+                        };
+                    },
+                };
+
+                for (const ouvinte of this.ouvintesMensagem) {
+                    try {
+                        ouvinte(mensagem);
+                    } catch (error: any) {
+                        logger.warn(`[${this.rotulo}] Erro ao tratar mensagem recebida: ${error.message}`);
+                    }
+                }
+            });
+
+            // Event: Erro - recovery inteligente com backoff
+            this.client.on('error', async (error) => {
+                this.isReady = false;
+
+                if (this.isErroRecuperavel(error)) {
+                    await this.handleRecoverableError();
+                }
+            });
+
+            // Inicializar cliente
+            await this.client.initialize();
+
+        } catch (error: any) {
+            this.isConnecting = false;
+
+            if (this.isErroRecuperavel(error)) {
+                await this.handleRecoverableError();
+            } else {
+                logger.error(`[${this.rotulo}] Erro crítico: ${error.message}`);
+            }
+        }
+    }
+
+    private isErroRecuperavel(error: any): boolean {
+        const mensagem = String(error?.message || '');
+        return mensagem.includes('Target closed') ||
+            mensagem.includes('Protocol error') ||
+            mensagem.includes('Execution context') ||
+            mensagem.includes('browser has disconnected');
+    }
+
+    /**
+     * Trata erros recuperáveis com backoff exponencial
+     */
+    private async handleRecoverableError(): Promise<void> {
+        // Evitar spam de recovery
+        const agora = Date.now();
+        if (agora - this.lastErrorTime < 5000) return;
+        this.lastErrorTime = agora;
+
+        this.recoveryAttempts++;
+        this.isConnecting = false;
+
+        if (this.recoveryAttempts > this.maxRecoveryAttempts) {
+            logger.warn(`[${this.rotulo}] Máximo de tentativas atingido - aguardando intervenção manual`);
+            this.recoveryAttempts = 0;
+            this.emitirEvento('RECUPERACAO_ESGOTADA', `${this.maxRecoveryAttempts} tentativas de recuperação`);
+            return;
+        }
+
+        this.emitirEvento('ERRO_RECUPERAVEL', `tentativa ${this.recoveryAttempts}/${this.maxRecoveryAttempts}`);
+
+        // Backoff exponencial: 3s, 6s, 12s
+        const delay = 3000 * Math.pow(2, this.recoveryAttempts - 1);
+
+        await this.recuperarSessaoSilenciosamente();
+
+        setTimeout(() => {
+            if (!this.isReady && !this.isConnecting) {
+                this.inicializar().catch(() => { });
+            }
+        }, delay);
+    }
+
+    /**
+     * Obtém o QR code atual (se disponível)
+     */
+    obterQrCode(): { qr: string | null; expiresIn: number | null } {
+        if (!this.currentQrCode || !this.qrCodeTimestamp) {
+            return { qr: null, expiresIn: null };
+        }
+
+        const elapsed = Date.now() - this.qrCodeTimestamp;
+        const remaining = this.qrCodeExpirationMs - elapsed;
+
+        if (remaining <= 0) {
+            // QR code expirado
+            this.currentQrCode = null;
+            this.qrCodeTimestamp = null;
+            return { qr: null, expiresIn: null };
+        }
+
+        return {
+            qr: this.currentQrCode,
+            expiresIn: remaining
+        };
+    }
+
+    /**
+     * Obtém o status completo da conexão WhatsApp desta sessão
+     */
+    async obterStatus(): Promise<StatusSessaoWhatsApp> {
+        const numeroConectado = this.isReady ? await this.obterNumeroConectado() : null;
+        const temSessaoSalva = this.verificarSessaoExistente();
+        const qrInfo = this.obterQrCode();
+
+        return {
+            usuarioId: this.usuarioId,
+            isReady: this.isReady,
+            isConnecting: this.isConnecting,
+            numeroConectado,
+            temSessaoSalva,
+            lastAuthenticatedAt: this.lastAuthenticatedAt?.toISOString() || null,
+            lastReadyAt: this.lastReadyAt?.toISOString() || null,
+            sessionStartedAt: this.sessionStartedAt?.toISOString() || null,
+            temQrCodePendente: !!qrInfo.qr,
+            ultimoEnvioEm: this.ultimoEnvioEm?.toISOString() || null,
+            falhasEnvioConsecutivas: this.falhasEnvioConsecutivas
+        };
+    }
+
+    /**
+     * Verifica se a sessão está pronta para enviar mensagens
+     */
+    isConfigured(): boolean {
+        return this.isReady && this.client !== null;
+    }
+
+    /**
+     * Indica se a sessão já foi iniciada (cliente criado ou conectando)
+     */
+    isAtiva(): boolean {
+        return this.client !== null || this.isConnecting || this.isRecovering;
+    }
+
+    /**
+     * Aguarda o WhatsApp ficar pronto (com timeout)
+     * Útil após autenticação recente quando o evento 'ready' ainda não disparou
+     */
+    async aguardarPronto(timeoutMs: number = 10000): Promise<boolean> {
+        const inicio = Date.now();
+
+        while (Date.now() - inicio < timeoutMs) {
+            if (this.isConfigured()) {
+                logger.info(`[${this.rotulo}] ✅ WhatsApp está pronto para enviar`);
+                return true;
+            }
+
+            // Log apenas a cada 2 segundos para não poluir
+            if ((Date.now() - inicio) % 2000 < 100) {
+                logger.info(`[${this.rotulo}] ⏳ Aguardando WhatsApp ficar pronto...`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+
+        logger.error(`[${this.rotulo}] ❌ Timeout (${timeoutMs}ms) aguardando WhatsApp ficar pronto`);
+        logger.error(`[${this.rotulo}]    isReady: ${this.isReady}, client: ${this.client !== null}`);
+        return false;
+    }
+
+    /**
+     * Obtém o número do WhatsApp conectado
+     */
+    async obterNumeroConectado(): Promise<string | null> {
+        if (!this.client || !this.isReady) {
+            return null;
+        }
+
+        try {
+            const info = await this.client.info;
+            return info.wid.user || null;
+        } catch (error: any) {
+            return null;
+        }
+    }
+
+    /**
+     * Normaliza número de telefone brasileiro
+     * Aceita: 557798812345, 77988123456, 5577988123456, 557734243214 (fixo)
+     * Retorna: 5577988123456 (formato WhatsApp sem @c.us)
+     */
+    private normalizarTelefone(telefone: string): string {
+        // Remove tudo que não é número
+        let numero = telefone.replace(/\D/g, '');
+
+        // Se já tem código do país (55), remover para reprocessar
+        if (numero.startsWith('55')) {
+            numero = numero.substring(2);
+        }
+
+        // Agora numero tem apenas DDD + número
+        // Pode ser: 77988123456 (11 dígitos - móvel com 9)
+        //          7798812345 (10 dígitos - móvel sem 9)
+        //          7734243214 (10 dígitos - fixo)
+        //          773424321 (9 dígitos - fixo sem DDD completo - erro)
+
+        if (numero.length === 11) {
+            // Móvel com 9: 77988123456 -> 5577988123456
+            return '55' + numero;
+        } else if (numero.length === 10) {
+            // Pode ser móvel sem 9 ou fixo
+            const ddd = numero.substring(0, 2);
+            const primeiroDigito = numero.charAt(2);
+
+            // Se começa com 9, 8 ou 7, é móvel (adicionar 9)
+            // Se começa com 2, 3, 4, 5, é fixo (manter)
+            if (['9', '8', '7'].includes(primeiroDigito)) {
+                // Móvel sem 9: 7798812345 -> 5577988123456
+                return '55' + ddd + '9' + numero.substring(2);
+            } else {
+                // Fixo: 7734243214 -> 557734243214
+                return '55' + numero;
+            }
+        } else if (numero.length === 9) {
+            // Número sem DDD - assumir DDD 77 (Bahia) como padrão
+            return '5577' + numero;
+        }
+
+        // Retornar como está se não se encaixar nos padrões
+        return '55' + numero;
+    }
+
+    /**
+     * Aguarda até a sessão poder enviar de novo sem passar dos limites
+     * (intervalo mínimo entre mensagens e máximo por minuto)
+     */
+    private async aguardarVagaEnvio(): Promise<void> {
+        const janelaMs = 60000;
+
+        for (;;) {
+            const agora = Date.now();
+            this.enviosRecentes = this.enviosRecentes.filter(t => agora - t < janelaMs);
+
+            const ultimo = this.enviosRecentes[this.enviosRecentes.length - 1];
+            const esperaIntervalo = ultimo ? this.limites.intervaloMs - (agora - ultimo) : 0;
+            const esperaJanela = this.enviosRecentes.length >= this.limites.maxPorMinuto
+                ? janelaMs - (agora - this.enviosRecentes[0])
+                : 0;
+
+            const espera = Math.max(esperaIntervalo, esperaJanela);
+            if (espera <= 0) break;
+
+            if (esperaJanela > 0) {
+                logger.info(`[${this.rotulo}] ⏳ Limite de ${this.limites.maxPorMinuto} mensagens/min atingido, aguardando ${Math.ceil(espera / 1000)}s`);
+            }
+            await this.delay(espera);
+        }
+
+        this.enviosRecentes.push(Date.now());
+    }
+
+    /**
+     * Envia mensagem WhatsApp respeitando o limite de envio da sessão
+     */
+    async enviar(telefoneDestino: string, mensagem: string): Promise<boolean> {
+        const resultado = await this.enviarMensagem(telefoneDestino, mensagem);
+        return resultado.enviado;
+    }
+
+    /**
+     * Envia e devolve o id da mensagem (para acompanhar os acks) ou o erro
+     * Envios simultâneos da mesma sessão entram em fila
+     */
+    async enviarMensagem(telefoneDestino: string, mensagem: string): Promise<ResultadoEnvioWhatsApp> {
+        const envio = this.filaEnvio.then(async (): Promise<ResultadoEnvioWhatsApp> => {
+            if (!this.isReady || !this.client) {
+                return { enviado: false, erro: 'WhatsApp não está conectado' };
+            }
+
+            await this.aguardarVagaEnvio();
+            const resultado = await this.enviarAgora(telefoneDestino, mensagem);
+            this.registrarResultadoEnvio(resultado);
+            return resultado;
+        });
+
+        this.filaEnvio = envio.catch(() => { });
+        return envio;
+    }
+
+    private registrarResultadoEnvio(resultado: ResultadoEnvioWhatsApp): void {
+        if (resultado.enviado) {
+            this.ultimoEnvioEm = new Date();
+            this.falhasEnvioConsecutivas = 0;
+            this.emitirEvento('ENVIO_OK');
+        } else {
+            this.falhasEnvioConsecutivas++;
+            this.emitirEvento('ENVIO_FALHOU', resultado.erro || null);
+        }
+    }
+
+    private async enviarAgora(telefoneDestino: string, mensagem: string): Promise<ResultadoEnvioWhatsApp> {
+        if (!this.isReady || !this.client) {
+            return { enviado: false, erro: 'WhatsApp não está conectado' };
+        }
+
+        try {
+            const numeroFormatado = this.normalizarTelefone(telefoneDestino);
+            let numeroCompleto = `${numeroFormatado}@c.us`;
+
+            try {
+                // Tentativa 1: Formato padrão com DDI
+                const resultado = await this.client.sendMessage(numeroCompleto, mensagem);
+                if (resultado && resultado.id) {
+                    logger.info(`[${this.rotulo}] ✅ Mensagem enviada!`);
+                    return { enviado: true, mensagemId: resultado.id._serialized };
+                }
+            } catch (error: any) {
+                // Se erro "No LID for user", tentar formato sem DDI
+                if (error.message && error.message.includes('No LID for user')) {
+                    logger.warn(`[${this.rotulo}] ⚠️ Erro "No LID" com formato DDI, tentando sem DDI...`);
+
+                    // Remover '55' do início
+                    const numeroSemDDI = numeroFormatado.startsWith('55')
+                        ? numeroFormatado.substring(2)
+                        : numeroFormatado;
+
+                    numeroCompleto = `${numeroSemDDI}@c.us`;
+
+                    const resultado2 = await this.client.sendMessage(numeroCompleto, mensagem);
+                    if (resultado2 && resultado2.id) {
+                        logger.info(`[${this.rotulo}] ✅ Mensagem enviada (formato sem DDI)!`);
+                        return { enviado: true, mensagemId: resultado2.id._serialized };
+                    }
+                } else {
+                    throw error;
+                }
+            }
+
+            return { enviado: false, erro: 'WhatsApp não devolveu o id da mensagem' };
+
+        } catch (error: any) {
+            logger.error(`[${this.rotulo}] ❌ Erro ao enviar para ${telefoneDestino}: ${error.message}`);
+            return { enviado: false, erro: error.message };
+        }
+    }
+
+    /**
+     * Desconecta o cliente WhatsApp (mantém a sessão salva)
+     */
+    async desconectar(): Promise<void> {
+        if (this.client) {
+            try {
+                await this.client.destroy();
+            } catch (error: any) {
+                // Ignorar erros de destruição
+            }
+            this.client = null;
+            this.isReady = false;
+            this.isConnecting = false;
+            this.currentQrCode = null;
+            this.qrCodeTimestamp = null;
+        }
+    }
+
+    /**
+     * Reinicializa forçadamente (apaga a sessão e gera novo QR Code)
+     */
+    async reinicializar(): Promise<void> {
+        logger.info(`[${this.rotulo}] Reinicializando...`);
+        await this.recuperarSessaoSilenciosamente();
+        await this.delay(1000);
+        await this.inicializar();
+    }
+
+    /**
+     * Encerramento gracioso do Puppeteer (servidor fechando)
+     * Evita que a sessão seja corrompida e impede reconexões automáticas
+     */
+    async encerrar(): Promise<void> {
+        if (this.isShuttingDown) return;
+        this.isShuttingDown = true;
+
+        try {
+            if (this.client) {
+                await this.delay(300);
+                await this.client.destroy().catch(() => { });
+                this.client = null;
+            }
+        } catch (e) {
+            // Ignorar erros no shutdown
+        }
+    }
+
+    /**
+     * Delay helper
+     */
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
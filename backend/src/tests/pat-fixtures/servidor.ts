@@ -0,0 +1,136 @@
+/**
+ * Servidor local com páginas capturadas (anonimizadas) do PAT
+ *
+ * Reproduz as rotas usadas pelos scrapers para que PuppeteerService e AgendamentosService
+ * rodem contra o DOM capturado apontando config.inss.url (ou INSS_URL) para ele:
+ *   GET /                                     lista de tarefas (filtros + tabela)
+ *   GET /tarefas/detalhar_tarefa/:protocolo   detalhe da tarefa (comentários, avaliação social, perícia)
+ *   GET /captcha                              modal "Desafio Recaptcha"
+ *   GET /fixtures/api/tarefas                 busca usada pelo botão "Buscar" da lista
+ *
+ * Execute: npm run pat:fixtures  (porta em PAT_FIXTURES_PORT, padrão 4010)
+ */
+
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { parse } from 'date-fns';
+
+export const DIRETORIO_FIXTURES_PAT = path.resolve(__dirname, '../../../fixtures/pat');
+
+export interface TarefaFixture {
+    protocolo: string;
+    servico: string;
+    status: string; // value do filtro de status do PAT (CUMPRIMENTO_DE_EXIGENCIA, PENDENTE, ...)
+    data: string; // dd/MM/yyyy
+}
+
+export interface ServidorFixturesPat {
+    url: string;
+    fechar: () => Promise<void>;
+}
+
+function carregarTarefas(): TarefaFixture[] {
+    return JSON.parse(fs.readFileSync(path.join(DIRETORIO_FIXTURES_PAT, 'tarefas.json'), 'utf-8'));
+}
+
+function parseData(valor: unknown): Date | null {
+    if (typeof valor !== 'string' || !/^\d{2}\/\d{2}\/\d{4}$/.test(valor)) {
+        return null;
+    }
+    return parse(valor, 'dd/MM/yyyy', new Date());
+}
+
+/**
+ * Mesmo filtro da tela "Consultar Tarefas": status exato (vazio = todos) e período inclusivo
+ */
+export function filtrarTarefas(
+    tarefas: TarefaFixture[],
+    filtro: { status?: string; dataInicial?: string; dataFinal?: string }
+): TarefaFixture[] {
+    const inicio = parseData(filtro.dataInicial);
+    const fim = parseData(filtro.dataFinal);
+
+    return tarefas.filter(tarefa => {
+        if (filtro.status && tarefa.status !== filtro.status) return false;
+
+        const data = parseData(tarefa.data);
+        if (!data) return false;
+        if (inicio && data < inicio) return false;
+        if (fim && data > fim) return false;
+        return true;
+    });
+}
+
+export function criarAppFixturesPat(): express.Express {
+    const app = express();
+    const paginas = path.join(DIRETORIO_FIXTURES_PAT, 'paginas');
+
+    app.use('/assets', express.static(path.join(DIRETORIO_FIXTURES_PAT, 'assets')));
+
+    app.get('/', (_req, res) => {
+        res.sendFile(path.join(paginas, 'tarefas.html'));
+    });
+
+    app.get('/captcha', (_req, res) => {
+        res.sendFile(path.join(paginas, 'captcha.html'));
+    });
+
+    app.get('/tarefas/detalhar_tarefa/:protocolo', (req, res) => {
+        const { protocolo } = req.params;
+        const arquivo = path.join(paginas, 'detalhar_tarefa', `${protocolo}.html`);
+
+        if (!/^\d+$/.test(protocolo) || !fs.existsSync(arquivo)) {
+            res.status(404).send(`<html><body><h1>Tarefa ${protocolo.replace(/\W/g, '')} não encontrada</h1></body></html>`);
+            return;
+        }
+        res.sendFile(arquivo);
+    });
+
+    app.get('/fixtures/api/tarefas', (req, res) => {
+        const filtro = {
+            status: typeof req.query.status === 'string' ? req.query.status : '',
+            dataInicial: req.query.dataInicial as string | undefined,
+            dataFinal: req.query.dataFinal as string | undefined,
+        };
+        res.json(filtrarTarefas(carregarTarefas(), filtro));
+    });
+
+    return app;
+}
+
+/**
+ * Sobe o servidor de fixtures (porta 0 = porta livre escolhida pelo sistema)
+ */
+export function iniciarServidorFixturesPat(porta: number = 0): Promise<ServidorFixturesPat> {
+    const app = criarAppFixturesPat();
+
+    return new Promise((resolve, reject) => {
+        const server: Server = app.listen(porta, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                fechar: () => new Promise<void>((resolveFechar, rejectFechar) => {
+                    server.close(error => (error ? rejectFechar(error) : resolveFechar()));
+                }),
+            });
+        });
+        server.on('error', reject);
+    });
+}
+
+if (require.main === module) {
+    const porta = parseInt(process.env.PAT_FIXTURES_PORT || '4010', 10);
+
+    iniciarServidorFixturesPat(porta)
+        .then(({ url }) => {
+            console.log(`🧪 Fixtures do PAT em ${url}`);
+            console.log(`   Use INSS_URL=${url} para apontar os scrapers para as fixtures`);
+        })
+        .catch(error => {
+            console.error('❌ Erro ao iniciar servidor de fixtures do PAT:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,201 @@
+/**
+ * Testes da análise de textos do INSS com o provedor fake (services/llm/FakeLLMProvider)
+ *
+ * Roda a mesma análise da sincronização (AIService.analisarTextoInss) sem rede, sem banco e sem
+ * motor de regras: classificação, extração de documentos, reparo de resposta fora do schema e
+ * fallback EM_ANALISE. O provedor fake só é aceito com NODE_ENV=test.
+ *
+ * Execute: npm run test:ia  (a partir de backend/)
+ */
+
+// Antes de carregar config: o provedor fake só existe com NODE_ENV=test
+process.env.NODE_ENV = 'test';
+
+import type { AIService as ServicoIA, ResultadoAnaliseIA } from '../services/AIService';
+import type { FakeLLMProvider as ProvedorFake } from '../services/llm';
+
+const TEXTO_EXIGENCIA = `NR:
+
+Prezado(a) Senhor(a),
+
+Para dar andamento ao processo 553678613, solicitamos o envio eletrônico dos documentos descritos abaixo:
+
+-PREENCHER A AUTODECLARAÇÃO DO SEGURADO ESPECIAL NO SISTEMA MEU INSS.
+
+O não atendimento desta exigência ou a ausência de manifestação até o dia 05/12/2025 (30 dias de prazo) poderá acarretar desistência do processo.`;
+
+const TEXTO_INDEFERIMENTO = 'Benefício indeferido: o requerente não compareceu à perícia médica agendada.';
+
+let AIService: typeof ServicoIA;
+let FakeLLMProvider: typeof ProvedorFake;
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+/**
+ * AIService como a sincronização usa, só com o LLM (sem regras, exemplos nem histórico no banco)
+ */
+function criarServico(provedor: ProvedorFake): ServicoIA {
+    return new AIService(undefined, provedor, { usarRegras: false, usarExemplos: false, registrarHistorico: false });
+}
+
+function resumir(resultado: ResultadoAnaliseIA): Record<string, unknown> {
+    return {
+        classe_final: resultado.classe_final,
+        tipo_indeferimento: resultado.tipo_indeferimento,
+        documentos_exigidos: resultado.documentos_exigidos,
+        confianca: resultado.confianca,
+        origem: resultado.origem,
+    };
+}
+
+/**
+ * Teste 1: provedor escolhido pelo escritório ("fake") e classificação por palavras-chave
+ */
+async function testarClassificacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Classificação com o provedor fake');
+    console.log('========================================\n');
+
+    const { criarProvedorLLM, LLM_PROVIDERS } = await import('../services/llm');
+    let ok = conferir('provedor fake com NODE_ENV=test', { disponivel: true, nome: 'fake' }, {
+        disponivel: LLM_PROVIDERS.includes('fake'),
+        nome: criarProvedorLLM({ provider: 'fake' }).nome,
+    });
+
+    const provedor = new FakeLLMProvider();
+    const servico = criarServico(provedor);
+
+    const exigencia = await servico.analisarTextoInss(TEXTO_EXIGENCIA, '553678613');
+    ok = conferir('exigência', {
+        classe_final: 'EXIGENCIA',
+        documentos_exigidos: ['Documentos solicitados pelo INSS'],
+        confianca: 0.9,
+        origem: 'ia',
+    }, resumir(exigencia)) && ok;
+
+    const indeferimento = await servico.analisarTextoInss([{ data: '01/10/2025', texto: TEXTO_INDEFERIMENTO }], '553678614');
+    ok = conferir('indeferimento por culpa', {
+        classe_final: 'INDEFERIDO',
+        tipo_indeferimento: 'CULPA',
+        origem: 'ia',
+    }, resumir(indeferimento)) && ok;
+
+    ok = conferir('uma chamada por análise, pedindo JSON', { chamadas: 2, json: [true, true] }, {
+        chamadas: provedor.chamadas.length,
+        json: provedor.chamadas.map(chamada => chamada.json),
+    }) && ok;
+
+    return ok;
+}
+
+/**
+ * Teste 2: resposta fora do schema é reparada com uma segunda chamada
+ */
+async function testarReparo(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Reparo de resposta fora do schema');
+    console.log('========================================\n');
+
+    const provedor = new FakeLLMProvider().enfileirar(
+        '{"classe_final": "TALVEZ", "motivo_ia": "?"}',
+        JSON.stringify({
+            classe_final: 'DEFERIDO',
+            motivo_ia: 'Benefício concedido.',
+            documentos_exigidos: null,
+            data_evento: null,
+            confianca: 0.95,
+        })
+    );
+
+    const resultado = await criarServico(provedor).analisarTextoInss(TEXTO_EXIGENCIA, '553678615');
+
+    return conferir('resposta reparada', {
+        classe_final: 'DEFERIDO',
+        confianca: 0.95,
+        chamadas: 2,
+        reparoCitaResposta: true,
+    }, {
+        ...resumir(resultado),
+        chamadas: provedor.chamadas.length,
+        reparoCitaResposta: provedor.chamadas[1]?.prompt.includes('"TALVEZ"'),
+    });
+}
+
+/**
+ * Teste 3: reparo também inválido cai no fallback EM_ANALISE com confiança 0
+ */
+async function testarFallback(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Fallback após reparo inválido');
+    console.log('========================================\n');
+
+    const provedor = new FakeLLMProvider().enfileirar('não é JSON', '{"classe_final": null}');
+    const resultado = await criarServico(provedor).analisarTextoInss(TEXTO_EXIGENCIA, '553678616');
+
+    return conferir('fallback', { classe_final: 'EM_ANALISE', confianca: 0, chamadas: 2 }, {
+        ...resumir(resultado),
+        chamadas: provedor.chamadas.length,
+    });
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  ANÁLISE IA - PROVEDOR FAKE            ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    ({ AIService } = await import('../services/AIService'));
+    ({ FakeLLMProvider } = await import('../services/llm'));
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Classificação', testarClassificacao);
+    await executar('Reparo', testarReparo);
+    await executar('Fallback', testarFallback);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes de análise:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,294 @@
+/**
+ * Testes do cofre de credenciais (services/CofreCredenciaisService)
+ *
+ * Cifra e decifra (envelope AES-256-GCM com contexto autenticado), gravação e leitura dos segredos
+ * e rotação da chave mestra e das chaves de dados. Sem PostgreSQL: Database.query é trocado por
+ * um banco em memória com as tabelas credenciais_cofre, credenciais_cofre_acessos e
+ * sincronizacao_jobs; as chaves mestras são geradas a cada execução.
+ *
+ * Execute: npm run test:cofre  (a partir de backend/)
+ */
+
+import crypto from 'crypto';
+import Database from '../database';
+import config from '../config';
+import { CofreCredenciaisService } from '../services/CofreCredenciaisService';
+
+const ESCRITORIO = '11111111-1111-1111-1111-111111111111';
+const OUTRO_ESCRITORIO = '22222222-2222-2222-2222-222222222222';
+const CONTEXTO_JOB = 'sincronizacao_jobs.token_pat';
+
+interface LinhaCofre {
+    id: number;
+    usuario_id: string;
+    nome: string;
+    chave_mestra_id: string;
+    chave_dados_cifrada: string;
+    valor_cifrado: string;
+}
+
+/**
+ * Banco em memória: só as consultas que o CofreCredenciaisService faz
+ */
+const banco = {
+    credenciais: [] as LinhaCofre[],
+    acessos: [] as { usuario_id: string; nome: string; acao: string }[],
+    jobs: [] as { id: number; token_pat: string }[],
+};
+
+async function consultar(sql: string, params: any[] = []): Promise<any[]> {
+    if (sql.includes('INSERT INTO credenciais_cofre_acessos')) {
+        for (const nome of params[1]) banco.acessos.push({ usuario_id: params[0], nome, acao: params[2] });
+        return [];
+    }
+    if (sql.includes('DELETE FROM credenciais_cofre')) {
+        const removidas = banco.credenciais.filter(linha => linha.usuario_id === params[0] && linha.nome === params[1]);
+        banco.credenciais = banco.credenciais.filter(linha => !removidas.includes(linha));
+        return removidas.map(linha => ({ id: linha.id }));
+    }
+    if (sql.includes('INSERT INTO credenciais_cofre')) {
+        const [usuario_id, nome, chave_mestra_id, chave_dados_cifrada, valor_cifrado] = params;
+        banco.credenciais = banco.credenciais.filter(linha => !(linha.usuario_id === usuario_id && linha.nome === nome));
+        banco.credenciais.push({ id: banco.credenciais.length + 1, usuario_id, nome, chave_mestra_id, chave_dados_cifrada, valor_cifrado });
+        return [];
+    }
+    if (sql.includes('UPDATE credenciais_cofre')) {
+        const linha = banco.credenciais.find(item => item.id === params[0])!;
+        linha.chave_mestra_id = params[1];
+        linha.chave_dados_cifrada = params[2];
+        if (params.length > 3) linha.valor_cifrado = params[3];
+        return [];
+    }
+    if (sql.includes('WHERE usuario_id = $1 AND nome = ANY($2)')) {
+        return banco.credenciais.filter(linha => linha.usuario_id === params[0] && params[1].includes(linha.nome));
+    }
+    if (sql.includes('WHERE chave_mestra_id <> $1')) {
+        return banco.credenciais.filter(linha => linha.chave_mestra_id !== params[0]);
+    }
+    if (sql.includes('FROM credenciais_cofre') && sql.includes('$1::uuid IS NULL')) {
+        return banco.credenciais.filter(linha => !params[0] || linha.usuario_id === params[0]);
+    }
+    if (sql.includes('SELECT id, token_pat FROM sincronizacao_jobs')) {
+        const [prefixo, atual] = params.map((padrao: string) => padrao.replace(/%$/, ''));
+        return banco.jobs.filter(job => job.token_pat.startsWith(prefixo) && !job.token_pat.startsWith(atual));
+    }
+    if (sql.includes('UPDATE sincronizacao_jobs')) {
+        banco.jobs.find(job => job.id === params[0])!.token_pat = params[1];
+        return [];
+    }
+    throw new Error(`Consulta não prevista no banco em memória: ${sql.trim().split('\n')[0]}`);
+}
+
+/**
+ * Cofre novo (as chaves mestras ficam em cache por instância) com as chaves informadas
+ */
+function cofreCom(chaveMestra: string, chavesAnteriores: string[] = []): CofreCredenciaisService {
+    config.cofre.chaveMestra = chaveMestra;
+    config.cofre.chavesAnteriores = chavesAnteriores;
+    return new CofreCredenciaisService();
+}
+
+function novaChave(): string {
+    return crypto.randomBytes(32).toString('base64');
+}
+
+/**
+ * Mensagem do erro lançado (null se não lançar)
+ */
+async function erroDe(acao: () => unknown): Promise<string | null> {
+    try {
+        await acao();
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+/**
+ * Teste 1: cifrarTexto/decifrarTexto, contexto autenticado e adulteração
+ */
+async function testarCifra(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Cifra e decifra');
+    console.log('========================================\n');
+
+    const cofre = cofreCom(novaChave());
+    const token = 'token-PAT çãé 🔐';
+    const cifrado = cofre.cifrarTexto(token, CONTEXTO_JOB);
+
+    const partes = cifrado.split(':');
+    const valor = Buffer.from(partes[3], 'base64');
+    valor[valor.length - 1] ^= 1;
+    const adulterado = [...partes.slice(0, 3), valor.toString('base64')].join(':');
+
+    return conferir('cifrarTexto', {
+        prefixo: true,
+        semTextoAberto: true,
+        ivAleatorio: true,
+        decifra: token,
+        legado: 'token-antigo-em-texto',
+        outroContexto: 'Unsupported state or unable to authenticate data',
+        adulterado: 'Unsupported state or unable to authenticate data',
+    }, {
+        prefixo: cifrado.startsWith('cofre:v1:'),
+        semTextoAberto: !cifrado.includes('token-PAT'),
+        ivAleatorio: cofre.cifrarTexto(token, CONTEXTO_JOB) !== cifrado,
+        decifra: cofre.decifrarTexto(cifrado, CONTEXTO_JOB),
+        legado: cofre.decifrarTexto('token-antigo-em-texto', CONTEXTO_JOB),
+        outroContexto: await erroDe(() => cofre.decifrarTexto(cifrado, 'outro.campo')),
+        adulterado: await erroDe(() => cofre.decifrarTexto(adulterado, CONTEXTO_JOB)),
+    });
+}
+
+/**
+ * Teste 2: gravar, ler, remover e registro de acessos
+ */
+async function testarGravacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Gravação e leitura');
+    console.log('========================================\n');
+
+    const cofre = cofreCom(novaChave());
+    await cofre.gravar(ESCRITORIO, 'gemini_api_key', 'AIza-chave-secreta', 'teste');
+    await cofre.gravar(ESCRITORIO, 'tramitacao_senha', 'senha-do-escritorio', 'teste');
+
+    const linha = banco.credenciais.find(item => item.nome === 'gemini_api_key')!;
+    const lidas = await cofre.lerVarias(ESCRITORIO, ['gemini_api_key', 'tramitacao_senha', 'pat_token'], 'teste');
+
+    // Segredo copiado para outro escritório não decifra (o contexto entra na autenticação)
+    banco.credenciais.push({ ...linha, id: 99, usuario_id: OUTRO_ESCRITORIO });
+    const copiado = await erroDe(() => cofre.ler(OUTRO_ESCRITORIO, 'gemini_api_key', 'teste'));
+    banco.credenciais = banco.credenciais.filter(item => item.id !== 99);
+
+    await cofre.gravar(ESCRITORIO, 'tramitacao_senha', '', 'teste');
+
+    return conferir('gravar/ler', {
+        semTextoAberto: true,
+        lidas: { gemini_api_key: 'AIza-chave-secreta', tramitacao_senha: 'senha-do-escritorio' },
+        copiado: 'Unsupported state or unable to authenticate data',
+        removida: null,
+        acessos: ['GRAVACAO', 'GRAVACAO', 'LEITURA', 'LEITURA', 'REMOCAO'],
+    }, {
+        semTextoAberto: !JSON.stringify(linha).includes('AIza'),
+        lidas,
+        copiado,
+        removida: await cofre.ler(ESCRITORIO, 'tramitacao_senha', 'teste'),
+        acessos: banco.acessos.filter(acesso => acesso.usuario_id === ESCRITORIO).map(acesso => acesso.acao),
+    });
+}
+
+/**
+ * Teste 3: rotação da chave mestra (credenciais e tokens da fila) e das chaves de dados
+ */
+async function testarRotacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Rotação de chaves');
+    console.log('========================================\n');
+
+    banco.credenciais = [];
+    banco.jobs = [];
+    const chaveAntiga = novaChave();
+    const chaveNova = crypto.randomBytes(32).toString('hex');
+
+    const antigo = cofreCom(chaveAntiga);
+    await antigo.gravar(ESCRITORIO, 'pat_token', 'token-do-pat', 'teste');
+    banco.jobs.push({ id: 1, token_pat: antigo.cifrarTexto('token-do-job', CONTEXTO_JOB) });
+    const idAntigo = banco.credenciais[0].chave_mestra_id;
+
+    const semAnterior = await erroDe(() => cofreCom(chaveNova).ler(ESCRITORIO, 'pat_token', 'teste'));
+
+    const rotacao = await cofreCom(chaveNova, [chaveAntiga]).rotacionarChaveMestra();
+    const aposRotacao = banco.credenciais[0];
+
+    // Depois da rotação, a chave antiga pode sair do .env
+    const novo = cofreCom(chaveNova);
+    const valorAntes = aposRotacao.valor_cifrado;
+    const chavesDados = await novo.rotacionarChavesDados(ESCRITORIO);
+
+    return conferir('rotação', {
+        semAnterior: `Chave mestra ${idAntigo} do cofre não configurada (falta em COFRE_CHAVES_ANTERIORES?)`,
+        rotacao: { credenciais: 1, jobs: 1 },
+        chaveTrocada: true,
+        segredoLido: 'token-do-pat',
+        jobLido: 'token-do-job',
+        repetirNaoMudaNada: { credenciais: 0, jobs: 0 },
+        chavesDados: 1,
+        valorRecifrado: true,
+        segredoAposChavesDados: 'token-do-pat',
+        chaveInvalida: 'Chave mestra do cofre inválida: use 32 bytes em base64 (openssl rand -base64 32) ou hex',
+    }, {
+        semAnterior,
+        rotacao,
+        chaveTrocada: aposRotacao.chave_mestra_id !== idAntigo,
+        segredoLido: await novo.ler(ESCRITORIO, 'pat_token', 'teste'),
+        jobLido: novo.decifrarTexto(banco.jobs[0].token_pat, CONTEXTO_JOB),
+        repetirNaoMudaNada: await novo.rotacionarChaveMestra(),
+        chavesDados,
+        valorRecifrado: banco.credenciais[0].valor_cifrado !== valorAntes,
+        segredoAposChavesDados: await novo.ler(ESCRITORIO, 'pat_token', 'teste'),
+        chaveInvalida: await erroDe(() => cofreCom('curta').cifrarTexto('x', CONTEXTO_JOB)),
+    });
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  COFRE DE CREDENCIAIS                  ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    (Database as any).query = consultar;
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Cifra', testarCifra);
+    await executar('Gravação', testarGravacao);
+    await executar('Rotação', testarRotacao);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes do cofre:', error);
+        process.exit(1);
+    });
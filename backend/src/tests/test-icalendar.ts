@@ -0,0 +1,207 @@
+/**
+ * Testes da geração de calendários iCalendar (utils/icalendar)
+ *
+ * Função pura: estrutura do .ics, dobra de linhas em 75 octetos sem partir caracteres
+ * multibyte, escape de texto, eventos de dia inteiro, cancelamento e alarmes.
+ *
+ * Execute: npm run test:calendario  (a partir de backend/)
+ */
+
+import { Calendario, EventoCalendario, gerarCalendario } from '../utils/icalendar';
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+function calendario(eventos: EventoCalendario[]): Calendario {
+    return { nome: 'Agenda INSS, Escritório', fusoHorario: 'America/Sao_Paulo', deslocamento: '-0300', eventos };
+}
+
+function evento(dados: Partial<EventoCalendario>): EventoCalendario {
+    return {
+        uid: 'agendamento-1@inss-manager',
+        resumo: 'Perícia médica - Maria da Silva',
+        inicio: new Date(2026, 10, 20, 9, 30),
+        status: 'CONFIRMED',
+        sequencia: 0,
+        atualizadoEm: new Date(Date.UTC(2026, 9, 18, 12, 0, 5)),
+        ...dados,
+    };
+}
+
+/**
+ * Linhas lógicas do .ics (desfaz a dobra: CRLF seguido de espaço)
+ */
+function desdobrar(ics: string): string[] {
+    return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+/**
+ * Linhas do VEVENT (entre BEGIN e END), sem o calendário em volta
+ */
+function linhasDoEvento(ics: string): string[] {
+    const linhas = desdobrar(ics);
+    return linhas.slice(linhas.indexOf('BEGIN:VEVENT') + 1, linhas.indexOf('END:VEVENT'));
+}
+
+/**
+ * Teste 1: estrutura do calendário e do evento com hora marcada
+ */
+async function testarEstrutura(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Estrutura do calendário');
+    console.log('========================================\n');
+
+    const ics = gerarCalendario(calendario([evento({ duracaoMinutos: 45, url: 'https://exemplo.com/arquivos/1?assinatura=a;b' })]));
+    const linhas = desdobrar(ics);
+
+    return conferir('gerarCalendario', {
+        inicio: 'BEGIN:VCALENDAR',
+        fim: 'END:VCALENDAR',
+        terminaComCrlf: true,
+        semLfSolto: true,
+        nome: true,
+        evento: [
+            'UID:agendamento-1@inss-manager',
+            'DTSTAMP:20261018T120005Z',
+            'LAST-MODIFIED:20261018T120005Z',
+            'SEQUENCE:0',
+            'STATUS:CONFIRMED',
+            'SUMMARY:Perícia médica - Maria da Silva',
+            'DTSTART;TZID=America/Sao_Paulo:20261120T093000',
+            'DTEND;TZID=America/Sao_Paulo:20261120T101500',
+            'URL:https://exemplo.com/arquivos/1?assinatura=a;b',
+        ],
+    }, {
+        inicio: linhas[0],
+        fim: linhas[linhas.length - 1],
+        terminaComCrlf: ics.endsWith('END:VCALENDAR\r\n'),
+        semLfSolto: !/[^\r]\n/.test(ics),
+        nome: linhas.includes('X-WR-CALNAME:Agenda INSS\\, Escritório'),
+        evento: linhasDoEvento(ics),
+    });
+}
+
+/**
+ * Teste 2: escape de texto e dobra de linhas longas
+ */
+async function testarEscapeEDobra(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Escape e dobra de linhas');
+    console.log('========================================\n');
+
+    const descricao = 'Levar: RG; CPF, laudos\\exames\nChegar 30 min antes. ' + 'Observação çãõé '.repeat(12);
+    const ics = gerarCalendario(calendario([evento({ descricao, local: 'APS Vitória da Conquista, BA' })]));
+    const fisicas = ics.split('\r\n').filter(Boolean);
+    const linhaDescricao = linhasDoEvento(ics).find(linha => linha.startsWith('DESCRIPTION:'));
+
+    return conferir('escape e dobra', {
+        local: true,
+        escape: 'DESCRIPTION:Levar: RG\\; CPF\\, laudos\\\\exames\\nChegar 30 min antes. Observação',
+        desdobradaIgual: true,
+        dobrou: true,
+        ate75Octetos: true,
+        continuacaoComEspaco: true,
+    }, {
+        local: linhasDoEvento(ics).includes('LOCATION:APS Vitória da Conquista\\, BA'),
+        escape: linhaDescricao?.substring(0, 77),
+        // Dobra por caractere: desfeita, a linha volta inteira (nenhum ç/ã partido entre as partes)
+        desdobradaIgual: linhaDescricao === `DESCRIPTION:${descricao
+            .replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n')}`,
+        dobrou: fisicas.some(linha => linha.startsWith(' ')),
+        ate75Octetos: fisicas.every(linha => Buffer.byteLength(linha) <= 75),
+        continuacaoComEspaco: fisicas.every(linha => /^[A-Z ]/.test(linha)),
+    });
+}
+
+/**
+ * Teste 3: dia inteiro, alarmes e cancelamento
+ */
+async function testarDiaInteiroEAlarmes(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Dia inteiro, alarmes e cancelamento');
+    console.log('========================================\n');
+
+    const alarmes = [
+        { antecedenciaMinutos: 1440, descricao: 'Amanhã' },
+        { antecedenciaMinutos: 90, descricao: 'Em 1h30' },
+        { antecedenciaMinutos: 1470, descricao: 'Véspera' },
+        { antecedenciaMinutos: 0, descricao: 'Agora' },
+    ];
+
+    const prazo = linhasDoEvento(gerarCalendario(calendario([
+        evento({ uid: 'exigencia-1@inss-manager', inicio: new Date(2026, 11, 31, 15), diaInteiro: true, alarmes }),
+    ])));
+    const cancelado = linhasDoEvento(gerarCalendario(calendario([
+        evento({ status: 'CANCELLED', sequencia: 3, alarmes }),
+    ])));
+
+    return conferir('dia inteiro e alarmes', {
+        datas: ['DTSTART;VALUE=DATE:20261231', 'DTEND;VALUE=DATE:20270101', 'TRANSP:TRANSPARENT'],
+        gatilhos: ['TRIGGER:-P1D', 'TRIGGER:-PT1H30M', 'TRIGGER:-P1DT30M', 'TRIGGER:-PT0M'],
+        canceladoSemAlarme: false,
+        canceladoStatus: ['SEQUENCE:3', 'STATUS:CANCELLED'],
+    }, {
+        datas: prazo.filter(linha => /^(DTSTART|DTEND|TRANSP)/.test(linha)),
+        gatilhos: prazo.filter(linha => linha.startsWith('TRIGGER:')),
+        canceladoSemAlarme: cancelado.includes('BEGIN:VALARM'),
+        canceladoStatus: cancelado.filter(linha => /^(SEQUENCE|STATUS):/.test(linha)),
+    });
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  CALENDÁRIOS ICALENDAR                 ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Estrutura', testarEstrutura);
+    await executar('Escape e dobra', testarEscapeEDobra);
+    await executar('Dia inteiro e alarmes', testarDiaInteiroEAlarmes);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes de calendário:', error);
+        process.exit(1);
+    });
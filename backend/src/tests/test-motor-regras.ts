@@ -0,0 +1,210 @@
+/**
+ * Testes do motor de regras (utils/motorRegras) e da validação dos padrões "/regex/"
+ *
+ * Funções puras: sem banco, rede ou IA. Os padrões são editados por administradores e rodam em
+ * todo despacho, então expressões com backtracking exponencial (ReDoS) precisam ser recusadas ao
+ * salvar e ignoradas se já estiverem gravadas.
+ *
+ * Execute: npm run test:regras  (a partir de backend/)
+ */
+
+import { avaliarRegras, normalizarTexto, padraoCasa, RegraClassificacao, validarPadraoRegex } from '../utils/motorRegras';
+import { RegrasClassificacaoService } from '../services/RegrasClassificacaoService';
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+function regra(dados: Partial<RegraClassificacao> & Pick<RegraClassificacao, 'id' | 'nome' | 'classeFinal'>): RegraClassificacao {
+    return {
+        prioridade: 10,
+        confianca: 0.9,
+        escopo: 'ultimo_card',
+        padroesTodos: [],
+        padroesQualquer: [],
+        padroesExcluir: [],
+        ...dados,
+    };
+}
+
+/**
+ * Teste 1: padrões de texto casam só no início de palavra; regex seguras funcionam
+ */
+async function testarPadroes(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Padrões de texto e regex');
+    console.log('========================================\n');
+
+    const texto = normalizarTexto('Benefício INDEFERIDO. Direito reconhecido? Não. Prazo de 30 dias.');
+
+    return conferir('padraoCasa', {
+        deferidoDentroDeIndeferido: false,
+        indeferido: true,
+        prefixoDePalavra: true,
+        regexSegura: true,
+        regexSemCasamento: false,
+    }, {
+        deferidoDentroDeIndeferido: padraoCasa(texto, 'deferido'),
+        indeferido: padraoCasa(texto, 'Indeferido'),
+        prefixoDePalavra: padraoCasa(texto, 'reconhec'),
+        regexSegura: padraoCasa(texto, '/prazo de \\d+ dias/'),
+        regexSemCasamento: padraoCasa(texto, '/prazo de \\d+ meses/'),
+    });
+}
+
+/**
+ * Teste 2: validarPadraoRegex recusa expressões perigosas e aceita as comuns
+ */
+async function testarValidacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Validação de padrões regex');
+    console.log('========================================\n');
+
+    const aceitos = [
+        '/prazo de \\d+ dias/',
+        '/(?:nao|sem) comparec/',
+        '/(ab)+c*/',
+        '/[(+]+x/',
+        '/exigencia.{0,40}documentos/',
+    ];
+    const recusados = [
+        '/(a+)+$/',
+        '/(a|aa)*/',
+        '/((ab)*c)+/',
+        '/(\\w+\\s?)*$/',
+        '/(x)\\1/',
+        '/(/',
+        `/${'a'.repeat(201)}/`,
+    ];
+
+    let ok = conferir('aceitos', { erros: aceitos.map(() => null) }, { erros: aceitos.map(validarPadraoRegex) });
+    ok = conferir('recusados', { recusados: recusados.map(() => true) }, {
+        recusados: recusados.map(padrao => validarPadraoRegex(padrao) !== null),
+    }) && ok;
+
+    // A mesma validação barra o cadastro pela API
+    const erros = new RegrasClassificacaoService().validar({
+        nome: 'Regra perigosa',
+        classeFinal: 'EXIGENCIA',
+        padroesTodos: ['exigencia', '/(a+)+$/'],
+    });
+    ok = conferir('validar() da regra', { erros: 1, menciona: true }, {
+        erros: erros.length,
+        menciona: erros.some(erro => erro.includes('(a+)+$')),
+    }) && ok;
+
+    return ok;
+}
+
+/**
+ * Teste 3: regex perigosa já gravada não roda (nem trava o despacho)
+ */
+async function testarRegexGravada(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Regex perigosa gravada antes da validação');
+    console.log('========================================\n');
+
+    const texto = `${'a'.repeat(40)}!`;
+    const inicio = Date.now();
+    const casou = padraoCasa(texto, '/(a+)+$/');
+    const duracaoMs = Date.now() - inicio;
+
+    return conferir('padrão ignorado', { casou: false, rapido: true }, { casou, rapido: duracaoMs < 100 });
+}
+
+/**
+ * Teste 4: regra vencedora por prioridade, conflito e regra com regex recusada
+ */
+async function testarAvaliacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 4: Avaliação das regras');
+    console.log('========================================\n');
+
+    const cards = [
+        { data: '01/10/2025', texto: 'Tarefa criada.' },
+        { data: '02/10/2025', texto: 'NR: Prezado, apresente os documentos: - RG do requerente; - Comprovante de residência. Prazo de 30 dias.' },
+    ];
+
+    const regras = [
+        regra({ id: 1, nome: 'Exigência', classeFinal: 'EXIGENCIA', padroesQualquer: ['nr:', '/apresent(e|ar) os documentos/'], prazoDiasPadrao: 30 }),
+        regra({ id: 2, nome: 'Perigosa', classeFinal: 'INDEFERIDO', prioridade: 50, padroesTodos: ['/(p+)+$/'] }),
+        regra({ id: 3, nome: 'Baixa prioridade', classeFinal: 'EM_ANALISE', prioridade: 1, padroesTodos: ['prezado'] }),
+    ];
+
+    const resultado = avaliarRegras(cards, regras);
+    let ok = conferir('vencedora', { regraId: 1, classe_final: 'EXIGENCIA', confianca: 0.9, temPrazo: true }, {
+        regraId: resultado?.regraId,
+        classe_final: resultado?.classe_final,
+        confianca: resultado?.confianca,
+        temPrazo: resultado?.data_evento instanceof Date,
+    });
+
+    const empate = avaliarRegras(cards, [
+        ...regras,
+        regra({ id: 4, nome: 'Empate', classeFinal: 'PERICIA', confianca: 0.8, padroesTodos: ['prazo'] }),
+    ]);
+    ok = conferir('conflito na mesma prioridade', { regraId: 1, confianca: 0.45 }, {
+        regraId: empate?.regraId,
+        confianca: empate?.confianca,
+    }) && ok;
+
+    return ok;
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  MOTOR DE REGRAS                       ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Padrões', testarPadroes);
+    await executar('Validação regex', testarValidacao);
+    await executar('Regex gravada', testarRegexGravada);
+    await executar('Avaliação', testarAvaliacao);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes do motor de regras:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,245 @@
+/**
+ * Testes das políticas de lembrete (utils/politicasLembrete)
+ *
+ * Funções puras: dia de envio de cada etapa com o tratamento de fim de semana, etapa devida
+ * (atrasadas e já registradas), janela de envio e validação das políticas vindas da API.
+ * Datas em outubro de 2026: 16 é sexta, 17 sábado, 18 domingo, 19 segunda.
+ *
+ * Execute: npm run test:lembretes  (a partir de backend/)
+ */
+
+import { format } from 'date-fns';
+import {
+    dataEnvioEtapa,
+    dentroDaJanelaDeEnvio,
+    etapaDevida,
+    PoliticaLembrete,
+    TratamentoFimDeSemana,
+    validarPoliticaLembrete,
+} from '../utils/politicasLembrete';
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+/** Dia de outubro de 2026, no horário informado */
+function outubro(dia: number, hora = 0): Date {
+    return new Date(2026, 9, dia, hora);
+}
+
+function envio(diaEvento: number, dias: number, fimDeSemana: TratamentoFimDeSemana): string {
+    return format(dataEnvioEtapa(outubro(diaEvento, 9), { dias }, fimDeSemana), 'dd/MM EEE');
+}
+
+/**
+ * Como o LembretesService roda: às 10h de cada dia, envia a etapa devida se estiver na janela
+ * @returns dia do envio de cada etapa (dias antes → "dd/MM EEE")
+ */
+function simularEnvios(politica: PoliticaLembrete, diaEvento: number, fimDeSemana: TratamentoFimDeSemana): Record<string, string> {
+    const registrados: number[] = [];
+    const enviados: Record<string, string> = {};
+
+    for (let dia = diaEvento - 10; dia <= diaEvento + 3; dia++) {
+        const agora = outubro(dia, 10);
+        const devida = etapaDevida(politica, outubro(diaEvento, 9), agora, registrados, fimDeSemana);
+        if (!devida || !dentroDaJanelaDeEnvio(agora, '08:00', '18:00', fimDeSemana)) continue;
+
+        registrados.push(...devida.atrasadas.map(etapa => etapa.dias), devida.etapa.dias);
+        enviados[`D-${devida.etapa.dias}`] = format(agora, 'dd/MM EEE');
+    }
+    return enviados;
+}
+
+/**
+ * Teste 1: dia de envio de cada etapa por tratamento de fim de semana
+ */
+async function testarDataEnvio(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Dia de envio das etapas');
+    console.log('========================================\n');
+
+    let ok = conferir('etapa no domingo (evento na quarta 21)', {
+        enviar: '18/10 Sun',
+        antecipar: '16/10 Fri',
+        adiar: '19/10 Mon',
+    }, {
+        enviar: envio(21, 3, 'enviar'),
+        antecipar: envio(21, 3, 'antecipar'),
+        adiar: envio(21, 3, 'adiar'),
+    });
+
+    ok = conferir('adiar com o evento no fim de semana', {
+        vesperaNoProprioDiaDoEvento: '19/10 Mon',
+        prazoNoSabado: '16/10 Fri',
+        vesperaDoSabado: '16/10 Fri',
+        prazoNoDomingo: '16/10 Fri',
+        diaUtil: '15/10 Thu',
+    }, {
+        vesperaNoProprioDiaDoEvento: envio(19, 1, 'adiar'),
+        prazoNoSabado: envio(17, 0, 'adiar'),
+        vesperaDoSabado: envio(17, 1, 'adiar'),
+        prazoNoDomingo: envio(18, 0, 'adiar'),
+        diaUtil: envio(17, 2, 'adiar'),
+    }) && ok;
+
+    return ok;
+}
+
+/**
+ * Teste 2: etapa devida, etapas atrasadas e etapas já registradas
+ */
+async function testarEtapaDevida(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Etapa devida');
+    console.log('========================================\n');
+
+    const politica: PoliticaLembrete = { etapas: [{ dias: 30 }, { dias: 7 }, { dias: 1 }] };
+    const resumir = (hoje: Date, registrados: number[]) => {
+        const devida = etapaDevida(politica, outubro(21), hoje, registrados, 'enviar');
+        return devida ? { etapa: devida.etapa.dias, atrasadas: devida.atrasadas.map(etapa => etapa.dias) } : null;
+    };
+
+    return conferir('etapaDevida (evento em 21/10)', {
+        antesDaPrimeira: null,
+        descobertoNaVespera: { etapa: 1, atrasadas: [7, 30] },
+        jaEnviada: null,
+        proximaEtapa: { etapa: 1, atrasadas: [] },
+        eventoPassado: null,
+        noDiaDoEvento: { etapa: 1, atrasadas: [] },
+    }, {
+        antesDaPrimeira: resumir(new Date(2026, 8, 20), []),
+        descobertoNaVespera: resumir(outubro(20, 15), []),
+        jaEnviada: resumir(outubro(15), [7]),
+        proximaEtapa: resumir(outubro(20), [30, 7]),
+        eventoPassado: resumir(outubro(22), [30, 7]),
+        noDiaDoEvento: resumir(outubro(21, 23), [30, 7]),
+    });
+}
+
+/**
+ * Teste 3: janela de envio e o caminho completo (etapa devida + janela) dia a dia
+ */
+async function testarJanelaEnvio(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Janela de envio');
+    console.log('========================================\n');
+
+    let ok = conferir('dentroDaJanelaDeEnvio', {
+        sextaNoHorario: true,
+        sextaAntes: false,
+        sextaNoFim: false,
+        sabadoEnviar: true,
+        sabadoAdiar: false,
+        sabadoAntecipar: false,
+    }, {
+        sextaNoHorario: dentroDaJanelaDeEnvio(outubro(16, 10), '08:00', '18:00', 'adiar'),
+        sextaAntes: dentroDaJanelaDeEnvio(outubro(16, 7), '08:00', '18:00', 'adiar'),
+        sextaNoFim: dentroDaJanelaDeEnvio(outubro(16, 18), '08:00', '18:00', 'adiar'),
+        sabadoEnviar: dentroDaJanelaDeEnvio(outubro(17, 10), '08:00', '18:00', 'enviar'),
+        sabadoAdiar: dentroDaJanelaDeEnvio(outubro(17, 10), '08:00', '18:00', 'adiar'),
+        sabadoAntecipar: dentroDaJanelaDeEnvio(outubro(17, 10), '08:00', '18:00', 'antecipar'),
+    });
+
+    // Prazo no sábado: com adiar, D-1 e D-0 não podem esperar a segunda (o prazo já passou) e saem
+    // na sexta; como no antecipar, só a etapa mais próxima do prazo é enviada e a D-1 fica pulada
+    const politica: PoliticaLembrete = { etapas: [{ dias: 3 }, { dias: 1 }, { dias: 0 }] };
+    ok = conferir('prazo no sábado 17/10', {
+        enviar: { 'D-3': '14/10 Wed', 'D-1': '16/10 Fri', 'D-0': '17/10 Sat' },
+        antecipar: { 'D-3': '14/10 Wed', 'D-0': '16/10 Fri' },
+        adiar: { 'D-3': '14/10 Wed', 'D-0': '16/10 Fri' },
+    }, {
+        enviar: simularEnvios(politica, 17, 'enviar'),
+        antecipar: simularEnvios(politica, 17, 'antecipar'),
+        adiar: simularEnvios(politica, 17, 'adiar'),
+    }) && ok;
+
+    return ok;
+}
+
+/**
+ * Teste 4: validação das políticas vindas da API
+ */
+async function testarValidacao(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 4: Validação das políticas');
+    console.log('========================================\n');
+
+    return conferir('validarPoliticaLembrete', {
+        valida: [],
+        semEtapas: ['etapas deve ser uma lista com pelo menos uma etapa'],
+        etapas: ['etapas[1].dias: etapa D-3 repetida', 'etapas[2].dias: inteiro entre 0 e 90', 'etapas[3].template: template de WhatsApp desconhecido'],
+        horario: ['fimDeSemana: use enviar, antecipar, adiar', 'horarioFim: formato HH:mm'],
+        janelaInvertida: ['horarioInicio deve ser antes de horarioFim'],
+    }, {
+        valida: validarPoliticaLembrete({
+            etapas: [{ dias: 7 }, { dias: 0, template: 'WHATSAPP_LEMBRETE_VESPERA_AGENDAMENTO' }],
+            fimDeSemana: 'adiar',
+            horarioInicio: '08:00',
+            horarioFim: '18:30',
+        }),
+        semEtapas: validarPoliticaLembrete({ etapas: [] }),
+        etapas: validarPoliticaLembrete({
+            etapas: [{ dias: 3 }, { dias: 3 }, { dias: 91 }, { dias: 1, template: 'NOTA_EXIGENCIA' }],
+        }),
+        horario: validarPoliticaLembrete({ etapas: [{ dias: 1 }], fimDeSemana: 'domingo', horarioFim: '24:00' }),
+        janelaInvertida: validarPoliticaLembrete({ etapas: [{ dias: 1 }], horarioInicio: '18:00', horarioFim: '08:00' }),
+    });
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  POLÍTICAS DE LEMBRETE                 ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Dia de envio', testarDataEnvio);
+    await executar('Etapa devida', testarEtapaDevida);
+    await executar('Janela de envio', testarJanelaEnvio);
+    await executar('Validação', testarValidacao);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes de lembretes:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,306 @@
+/**
+ * Testes de scraping do PAT contra as fixtures locais (fixtures/pat)
+ *
+ * Sobe o servidor de fixtures, aponta config.inss.url para ele e roda os scrapers reais
+ * (PuppeteerService + AgendamentosService) comparando o resultado com fixtures/pat/esperado.json.
+ * Mudanças no DOM do PAT devem ser capturadas nas fixtures: o teste falha em vez de perder dados.
+ *
+ * Execute: npm run test:scraping  (a partir de backend/, usa Chrome headless do Puppeteer)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { format, parse } from 'date-fns';
+import config from '../config';
+import { PuppeteerService } from '../services/PuppeteerService';
+import agendamentosService, { Agendamento } from '../services/AgendamentosService';
+import seletoresPatService from '../services/SeletoresPatService';
+import logger from '../utils/logger';
+import { DIRETORIO_FIXTURES_PAT, ServidorFixturesPat, TarefaFixture, iniciarServidorFixturesPat } from './pat-fixtures/servidor';
+
+interface AgendamentoEsperado {
+    id: string;
+    data: string;
+    hora: string;
+    unidade: string;
+    status: string;
+    etapa: string;
+}
+
+interface ProtocoloEsperado {
+    cpf: string;
+    nome: string;
+    servico: string;
+    dataSolicitacao: string;
+    statusAtual: string;
+    dataNascimento: string;
+    comentarios: Array<{ data: string; texto: string }>;
+    avaliacoesSociais: AgendamentoEsperado[];
+    periciasMedicas: AgendamentoEsperado[];
+    botoesAgendar: string[];
+}
+
+interface ResultadosEsperados {
+    coletas: Array<{ dataInicio: string; dataFim: string; status: string; protocolos: string[] }>;
+    protocolos: Record<string, ProtocoloEsperado>;
+    processos: Record<string, { cpf: string; nome: string; beneficio: string; der: string; status: string; textoCompleto: string }>;
+}
+
+const esperado: ResultadosEsperados = JSON.parse(
+    fs.readFileSync(path.join(DIRETORIO_FIXTURES_PAT, 'esperado.json'), 'utf-8')
+);
+const tarefas: TarefaFixture[] = JSON.parse(
+    fs.readFileSync(path.join(DIRETORIO_FIXTURES_PAT, 'tarefas.json'), 'utf-8')
+);
+
+const formatarData = (data: Date): string => format(data, 'dd/MM/yyyy');
+const lerData = (data: string): Date => parse(data, 'dd/MM/yyyy', new Date());
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperadoCampos: Record<string, unknown>, obtidoCampos: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperadoCampos)) {
+        const valorEsperado = JSON.stringify(esperadoCampos[campo]);
+        const valorObtido = JSON.stringify(obtidoCampos[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+function resumirAgendamentos(agendamentos: Agendamento[]): AgendamentoEsperado[] {
+    return agendamentos.map(ag => ({
+        id: ag.id,
+        data: formatarData(ag.data),
+        hora: ag.hora,
+        unidade: ag.unidade,
+        status: ag.status,
+        etapa: ag.etapa,
+    }));
+}
+
+/**
+ * Teste 1: Lista de tarefas (filtros, tabela e serviços por protocolo)
+ */
+async function testarColetaProtocolos(puppeteer: PuppeteerService): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Coleta de protocolos');
+    console.log('========================================\n');
+
+    let ok = true;
+    for (const coleta of esperado.coletas) {
+        const protocolos = await puppeteer.coletarProtocolos(lerData(coleta.dataInicio), lerData(coleta.dataFim), coleta.status);
+        const servicos = protocolos.map(p => puppeteer.obterServicoPorProtocolo(p));
+
+        ok = conferir(
+            `coleta ${coleta.status} ${coleta.dataInicio}-${coleta.dataFim}`,
+            { protocolos: coleta.protocolos, servicos: coleta.protocolos.map(p => tarefas.find(t => t.protocolo === p)?.servico) },
+            { protocolos, servicos }
+        ) && ok;
+    }
+    return ok;
+}
+
+/**
+ * Teste 2: Detalhe da tarefa (ProtocoloDetalhado) + agendamentos da mesma página
+ */
+async function testarDetalhesProtocolos(puppeteer: PuppeteerService): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Detalhes dos protocolos e agendamentos');
+    console.log('========================================\n');
+
+    const page = puppeteer.getPage();
+    if (!page) return false;
+
+    let ok = true;
+    for (const [protocolo, dados] of Object.entries(esperado.protocolos)) {
+        const detalhes = await puppeteer.extrairDetalhesProtocolo(protocolo, {
+            dataInicio: new Date(),
+            dataFim: new Date(),
+            status: 'TODOS',
+        });
+
+        ok = conferir(`protocolo ${protocolo}`, {
+            protocolo,
+            cpf: dados.cpf,
+            nome: dados.nome,
+            servico: dados.servico,
+            dataSolicitacao: dados.dataSolicitacao,
+            statusAtual: dados.statusAtual,
+            dataNascimento: dados.dataNascimento,
+            comentarios: dados.comentarios,
+        }, {
+            protocolo: detalhes.protocolo,
+            cpf: detalhes.cpf,
+            nome: detalhes.nome,
+            servico: detalhes.servico,
+            dataSolicitacao: formatarData(detalhes.dataSolicitacao),
+            statusAtual: detalhes.statusAtual,
+            dataNascimento: detalhes.dataNascimento,
+            comentarios: detalhes.comentarios.map(c => ({ data: formatarData(c.data), texto: c.texto })),
+        }) && ok;
+
+        const avaliacoes = await agendamentosService.extrairAvaliacoesSociais(page, protocolo, detalhes.cpf);
+        const pericias = await agendamentosService.extrairPericiasMedicas(page, protocolo, detalhes.cpf);
+        const botoesAgendar = await agendamentosService.verificarBotoesAgendar(page);
+
+        ok = conferir(`agendamentos ${protocolo}`, {
+            avaliacoesSociais: dados.avaliacoesSociais,
+            periciasMedicas: dados.periciasMedicas,
+            botoesAgendar: dados.botoesAgendar,
+        }, {
+            avaliacoesSociais: resumirAgendamentos(avaliacoes),
+            periciasMedicas: resumirAgendamentos(pericias),
+            botoesAgendar,
+        }) && ok;
+    }
+    return ok;
+}
+
+/**
+ * Teste 3: extrairDetalhesProcesso (ProcessoINSS usado pelo worker)
+ */
+async function testarDetalhesProcesso(puppeteer: PuppeteerService): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Detalhes do processo (ProcessoINSS)');
+    console.log('========================================\n');
+
+    let ok = true;
+    for (const [protocolo, dados] of Object.entries(esperado.processos)) {
+        const processo = await puppeteer.extrairDetalhesProcesso(protocolo);
+
+        ok = conferir(`processo ${protocolo}`, { protocolo, ...dados }, {
+            protocolo: processo.protocolo,
+            cpf: processo.cpf,
+            nome: processo.nome,
+            beneficio: processo.beneficio,
+            der: formatarData(processo.der),
+            status: processo.status,
+            textoCompleto: processo.textoCompleto,
+        }) && ok;
+    }
+    return ok;
+}
+
+/**
+ * Teste 4: Detecção do modal de CAPTCHA (a resolução depende de OCR via LLM e fica de fora)
+ */
+async function testarDeteccaoCaptcha(puppeteer: PuppeteerService, servidor: ServidorFixturesPat): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 4: Detecção de CAPTCHA');
+    console.log('========================================\n');
+
+    const page = puppeteer.getPage();
+    if (!page) return false;
+
+    const semCaptcha = await puppeteer.detectarCaptcha();
+
+    await page.goto(`${servidor.url}/captcha`, { waitUntil: 'networkidle2', timeout: 30000 });
+    const comCaptcha = await puppeteer.detectarCaptcha();
+
+    return conferir('captcha', { semCaptcha: false, comCaptcha: true }, { semCaptcha, comCaptcha });
+}
+
+/**
+ * Teste 5: Seletores do registro (rodar depois dos testes 2 e 3)
+ * Nas fixtures todo campo encontrado deve ter usado a estratégia principal; fallback = drift
+ */
+async function testarSeletoresPrincipais(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 5: Seletores principais do PAT');
+    console.log('========================================\n');
+
+    const uso = seletoresPatService.obterUso();
+    const esperadoUso: Record<string, unknown> = {};
+    const obtidoUso: Record<string, unknown> = {};
+
+    for (const [campo, { porEstrategia }] of Object.entries(uso)) {
+        esperadoUso[campo] = 0;
+        obtidoUso[campo] = porEstrategia.slice(1).reduce((total, n) => total + (n || 0), 0);
+    }
+
+    return conferir('fallbacks usados', esperadoUso, obtidoUso)
+        && conferir('seletores obrigatórios', { cpf: 0, servico: 0 }, {
+            cpf: uso['detalhe.cpf']?.semMatch ?? 0,
+            servico: uso['detalhe.servico']?.semMatch ?? 0,
+        });
+}
+
+/**
+ * Executar todos os testes
+ */
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  SCRAPING PAT - FIXTURES LOCAIS        ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    const servidor = await iniciarServidorFixturesPat();
+    const urlOriginal = config.inss.url;
+    config.inss.url = servidor.url;
+    console.log(`\n🧪 Fixtures do PAT em ${servidor.url}`);
+
+    const puppeteer = new PuppeteerService();
+    const resultados: { [key: string]: boolean } = {};
+
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    try {
+        await puppeteer.initialize();
+        await puppeteer.login('AT-fixture-pat');
+
+        await executar('Coleta de protocolos', () => testarColetaProtocolos(puppeteer));
+        await executar('Detalhes dos protocolos', () => testarDetalhesProtocolos(puppeteer));
+        await executar('Detalhes do processo', () => testarDetalhesProcesso(puppeteer));
+        await executar('Detecção de CAPTCHA', () => testarDeteccaoCaptcha(puppeteer, servidor));
+        await executar('Seletores principais', () => testarSeletoresPrincipais());
+    } finally {
+        await puppeteer.close();
+        await servidor.fechar();
+        config.inss.url = urlOriginal;
+    }
+
+    // Resumo final
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        const status = passou ? '✅ PASSOU' : '❌ FALHOU';
+        console.log(`${status} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    if (totalPassou === total) {
+        console.log('\n🎉 Scrapers compatíveis com as fixtures do PAT.');
+    } else {
+        console.log('\n⚠️ Scrapers divergem das fixtures: o DOM do PAT mudou ou a extração regrediu.');
+    }
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        logger.error('Erro fatal durante execução dos testes de scraping:', error);
+        process.exit(1);
+    });
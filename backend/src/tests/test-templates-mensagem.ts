@@ -0,0 +1,229 @@
+/**
+ * Testes dos templates de mensagens (utils/templatesMensagem)
+ *
+ * Funções puras: compilação (erros de sintaxe), renderização (valores, filtros, #if, #each e
+ * linhas das tags de bloco) e os templates padrão de cada evento com os dados de exemplo.
+ *
+ * Execute: npm run test:templates  (a partir de backend/)
+ */
+
+import {
+    compilarTemplate,
+    EVENTOS_TEMPLATE_MENSAGEM,
+    renderizarTemplate,
+    TEMPLATES_MENSAGEM_PADRAO,
+    validarTemplate,
+    validarTemplateMensagem,
+} from '../utils/templatesMensagem';
+
+/**
+ * Compara campo a campo (via JSON) e imprime as diferenças
+ */
+function conferir(contexto: string, esperado: Record<string, unknown>, obtido: Record<string, unknown>): boolean {
+    let ok = true;
+    for (const campo of Object.keys(esperado)) {
+        const valorEsperado = JSON.stringify(esperado[campo]);
+        const valorObtido = JSON.stringify(obtido[campo]);
+        if (valorEsperado !== valorObtido) {
+            console.log(`❌ ${contexto}.${campo}\n   esperado: ${valorEsperado}\n   obtido:   ${valorObtido}`);
+            ok = false;
+        }
+    }
+    if (ok) {
+        console.log(`✅ ${contexto}`);
+    }
+    return ok;
+}
+
+/**
+ * Mensagem do erro de compilação (null se compilar)
+ */
+function erroDeCompilacao(texto: string): string | null {
+    try {
+        compilarTemplate(texto);
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+/**
+ * Teste 1: valores, filtros, datas, listas e caminhos aninhados
+ */
+async function testarValores(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 1: Valores e filtros');
+    console.log('========================================\n');
+
+    const dados = {
+        cliente: 'Maria da Silva',
+        tipo: 'Médica',
+        prazo: new Date(2026, 10, 5),
+        documentos: ['RG', 'CPF'],
+        processo: { protocolo: '123456789' },
+        vazio: null,
+    };
+
+    return conferir('renderizarTemplate', {
+        simples: 'Olá, Maria da Silva!',
+        filtros: 'MÉDICA médica',
+        data: 'Prazo: 05/11/2026',
+        lista: 'RG, CPF',
+        aninhado: '123456789',
+        ausente: '[][]',
+        espacosNoFim: 'fim',
+    }, {
+        simples: renderizarTemplate('Olá, {{cliente}}!', dados),
+        filtros: renderizarTemplate('{{tipo | maiusculas}} {{ tipo|minusculas }}', dados),
+        data: renderizarTemplate('Prazo: {{prazo}}', dados),
+        lista: renderizarTemplate('{{documentos}}', dados),
+        aninhado: renderizarTemplate('{{processo.protocolo}}', dados),
+        ausente: renderizarTemplate('[{{vazio}}][{{processo.numero}}]', dados),
+        espacosNoFim: renderizarTemplate('fim{{vazio}}\n\n  ', dados),
+    });
+}
+
+/**
+ * Teste 2: #if/else, #each com @numero/this/campos do item e linhas das tags de bloco
+ */
+async function testarBlocos(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 2: Blocos #if e #each');
+    console.log('========================================\n');
+
+    const lista = [
+        '*Documentos*:',
+        '{{#each documentos}}',
+        '{{@numero}}. {{this}}',
+        '{{/each}}',
+        'Fim',
+    ].join('\n');
+
+    const itens = '{{#each arquivos}}[{{@index}}:{{tipo}} de {{cliente}}]{{/each}}';
+    const condicao = '{{#if motivo}}Motivo: {{motivo}}{{else}}Sem motivo{{/if}}';
+
+    return conferir('blocos', {
+        lista: '*Documentos*:\n1. RG\n2. Comprovante de residência\nFim',
+        listaVazia: '*Documentos*:\nFim',
+        itens: '[0:laudo de Maria][1:CadÚnico de Maria]',
+        comMotivo: 'Motivo: falta de carência',
+        semMotivo: 'Sem motivo',
+        espacosSaoFalsos: 'Sem motivo',
+        zeroEhFalso: 'não',
+    }, {
+        lista: renderizarTemplate(lista, { documentos: ['RG', 'Comprovante de residência'] }),
+        listaVazia: renderizarTemplate(lista, { documentos: [] }),
+        itens: renderizarTemplate(itens, { cliente: 'Maria', arquivos: [{ tipo: 'laudo' }, { tipo: 'CadÚnico' }] }),
+        comMotivo: renderizarTemplate(condicao, { motivo: 'falta de carência' }),
+        semMotivo: renderizarTemplate(condicao, {}),
+        espacosSaoFalsos: renderizarTemplate(condicao, { motivo: '   ' }),
+        zeroEhFalso: renderizarTemplate('{{#if dias}}sim{{else}}não{{/if}}', { dias: 0 }),
+    });
+}
+
+/**
+ * Teste 3: erros de sintaxe e variáveis desconhecidas
+ */
+async function testarErros(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 3: Erros de sintaxe e validação');
+    console.log('========================================\n');
+
+    let ok = conferir('compilarTemplate', {
+        semFechamento: '{{#if motivo}} sem {{/if}}',
+        fechamentoTrocado: '{{/each}} sem o {{#each}} correspondente',
+        elseSolto: '{{else}} fora de um {{#if}}',
+        filtro: 'Filtro desconhecido: reverso (disponíveis: maiusculas, minusculas)',
+        expressao: 'Variável inválida: {{cliente.nome()}}',
+        grande: 'Template maior que 10000 caracteres',
+    }, {
+        semFechamento: erroDeCompilacao('{{#if motivo}}texto'),
+        fechamentoTrocado: erroDeCompilacao('{{#if motivo}}texto{{/each}}'),
+        elseSolto: erroDeCompilacao('a{{else}}b'),
+        filtro: erroDeCompilacao('{{cliente | reverso}}'),
+        expressao: erroDeCompilacao('{{cliente.nome()}}'),
+        grande: erroDeCompilacao('x'.repeat(10001)),
+    });
+
+    const variaveis = { cliente: 'Nome', documentos: 'Lista' };
+    ok = conferir('validarTemplate', {
+        valido: [],
+        vazio: ['O template não pode ser vazio'],
+        desconhecida: ['Variável desconhecida: protocolo'],
+        campoDoItem: [],
+    }, {
+        valido: validarTemplate('Olá {{cliente}}', variaveis),
+        vazio: validarTemplate('  ', variaveis),
+        desconhecida: validarTemplate('{{protocolo}} {{protocolo}}', variaveis),
+        campoDoItem: validarTemplate('{{#each documentos}}{{tipo}}{{/each}}', variaveis),
+    }) && ok;
+
+    return ok;
+}
+
+/**
+ * Teste 4: todos os templates padrão são válidos e renderizam o exemplo sem tags sobrando
+ */
+async function testarPadroes(): Promise<boolean> {
+    console.log('\n========================================');
+    console.log('TESTE 4: Templates padrão');
+    console.log('========================================\n');
+
+    let ok = true;
+    for (const evento of EVENTOS_TEMPLATE_MENSAGEM) {
+        const definicao = TEMPLATES_MENSAGEM_PADRAO[evento];
+        const conteudo = renderizarTemplate(definicao.conteudo, definicao.exemplo);
+        const titulo = definicao.titulo ? renderizarTemplate(definicao.titulo, definicao.exemplo) : '';
+
+        ok = conferir(evento, { erros: [], tagsSobrando: false, linhaEmBrancoNoFim: false }, {
+            erros: validarTemplateMensagem(evento, { titulo: definicao.titulo, conteudo: definicao.conteudo }),
+            tagsSobrando: /\{\{|\}\}/.test(conteudo + titulo),
+            linhaEmBrancoNoFim: /\s$/.test(conteudo),
+        }) && ok;
+    }
+
+    return ok;
+}
+
+async function executarTodos(): Promise<boolean> {
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  TEMPLATES DE MENSAGEM                 ║');
+    console.log('╚════════════════════════════════════════╝');
+
+    const resultados: { [key: string]: boolean } = {};
+    const executar = async (nome: string, teste: () => Promise<boolean>): Promise<void> => {
+        try {
+            resultados[nome] = await teste();
+        } catch (error: any) {
+            console.log(`❌ ${nome}: ${error.message}`);
+            resultados[nome] = false;
+        }
+    };
+
+    await executar('Valores', testarValores);
+    await executar('Blocos', testarBlocos);
+    await executar('Erros', testarErros);
+    await executar('Templates padrão', testarPadroes);
+
+    console.log('\n╔════════════════════════════════════════╗');
+    console.log('║  RESUMO DOS TESTES                     ║');
+    console.log('╚════════════════════════════════════════╝\n');
+
+    for (const [teste, passou] of Object.entries(resultados)) {
+        console.log(`${passou ? '✅ PASSOU' : '❌ FALHOU'} - ${teste}`);
+    }
+
+    const totalPassou = Object.values(resultados).filter(r => r).length;
+    const total = Object.keys(resultados).length;
+    console.log(`\nTotal: ${totalPassou}/${total} testes passaram`);
+
+    return totalPassou === total;
+}
+
+// Executar
+executarTodos()
+    .then(passou => process.exit(passou ? 0 : 1))
+    .catch((error) => {
+        console.error('Erro fatal durante execução dos testes de templates:', error);
+        process.exit(1);
+    });
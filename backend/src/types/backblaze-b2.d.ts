@@ -78,6 +78,11 @@ declare module 'backblaze-b2' {
             fileId: string;
             fileName: string;
         }): Promise<any>;
+        downloadFileByName(params: {
+            bucketName: string;
+            fileName: string;
+            responseType?: 'arraybuffer' | 'stream' | 'json' | 'text';
+        }): Promise<{ data: any; headers: Record<string, string> }>;
     }
 
     export = B2;
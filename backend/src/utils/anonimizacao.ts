@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+
+/**
+ * Anonimização de textos do INSS antes de saírem do banco (ex: corpus de avaliação)
+ *
+ * Remove CPF, NIT, telefones, e-mails e nomes de pessoas. Os nomes conhecidos do
+ * processo (nome_segurado) são removidos em qualquer grafia; os demais são
+ * detectados pelo contexto ("Prezado(a) Sr(a).", "segurado(a)", "requerente"...).
+ */
+
+export const NOME_ANONIMO = 'FULANO DE TAL';
+export const CPF_ANONIMO = '000.000.000-00';
+
+const REGEX_CPF = /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g;
+const REGEX_NIT = /\b\d{3}\.\d{5}\.\d{2}-\d\b/g;
+const REGEX_EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const REGEX_TELEFONE = /(\(?\b\d{2}\)?\s?)?\b9?\d{4}-\d{4}\b/g;
+
+// Palavras que antecedem um nome próprio nos despachos (sem classes de caracteres: ver semCaixa)
+const PREFIXOS_NOME = [
+    'prezad(?:o|a)(?:\\(a\\))?\\s+(?:sr(?:\\(a\\)|a)?\\.?\\s*)?',
+    'sr(?:\\(a\\)|a)?\\.?',
+    'segurad(?:o|a)(?:\\(a\\))?',
+    'requerente',
+    'interessad(?:o|a)(?:\\(a\\))?',
+    'titular',
+    'instituidor(?:\\(a\\)|a)?',
+    'nome:',
+];
+
+/**
+ * Torna as letras do padrão indiferentes a maiúsculas ("sr" → "[sS][rR]")
+ * O nome em si precisa continuar sensível à caixa para não engolir o resto da frase
+ */
+function semCaixa(padrao: string): string {
+    return padrao.replace(/(\\.)|([a-z])/g, (_trecho, escape: string, letra: string) =>
+        escape || `[${letra}${letra.toUpperCase()}]`
+    );
+}
+
+// Sequência de 2+ palavras com inicial maiúscula, aceitando conectivos (da, de, dos...)
+const PALAVRA_NOME = "[A-ZÀ-Ý][A-Za-zÀ-ÿ'-]+";
+const REGEX_NOME_CONTEXTO = new RegExp(
+    `(\\b(?:${PREFIXOS_NOME.map(semCaixa).join('|')})\\s*)(${PALAVRA_NOME}(?:\\s+(?:(?:d(?:a|e|o)s?|e)\\s+)?${PALAVRA_NOME})+)`,
+    'g'
+);
+
+function escaparRegex(texto: string): string {
+    return texto.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex que casa o nome em maiúsculas/minúsculas e com ou sem acento
+ */
+function regexNomeConhecido(nome: string): RegExp {
+    const semAcento = nome.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+    const padrao = escaparRegex(semAcento)
+        .split(/\s+/)
+        .map(palavra => palavra.replace(/[aeiouc]/gi, letra => `[${letra}${letra.toUpperCase()}\\u00C0-\\u00FF]`))
+        .join('\\s+');
+    return new RegExp(`\\b${padrao}\\b`, 'gi');
+}
+
+/**
+ * Anonimiza um texto
+ * @param nomesConhecidos nomes que certamente aparecem no texto (ex: nome do segurado)
+ */
+export function anonimizarTexto(texto: string, nomesConhecidos: string[] = []): string {
+    let resultado = texto;
+
+    for (const nome of nomesConhecidos) {
+        if (nome && nome.trim().split(/\s+/).length >= 2) {
+            resultado = resultado.replace(regexNomeConhecido(nome), NOME_ANONIMO);
+        }
+    }
+
+    return resultado
+        .replace(REGEX_NIT, '000.00000.00-0')
+        .replace(REGEX_CPF, CPF_ANONIMO)
+        .replace(REGEX_EMAIL, 'email@exemplo.com')
+        .replace(REGEX_TELEFONE, '(00) 00000-0000')
+        .replace(REGEX_NOME_CONTEXTO, (_trecho, prefixo: string) => `${prefixo}${NOME_ANONIMO}`);
+}
+
+/**
+ * Identificador estável e não reversível (ex: protocolo → id do caso)
+ */
+export function pseudonimo(valor: string, tamanho: number = 10): string {
+    return createHash('sha256').update(valor).digest('hex').substring(0, tamanho);
+}
@@ -0,0 +1,397 @@
+import fs from 'fs';
+import path from 'path';
+import { normalizarTexto } from './motorRegras';
+
+/**
+ * Avaliação offline da classificação de despachos do INSS
+ *
+ * O corpus fica em backend/corpus/classificacao/casos (um caso por arquivo JSON):
+ * cards do protocolo + classificação esperada. O script avaliar-classificacao
+ * reexecuta o corpus pelo motor de regras ou pelo AIService e usa estas funções
+ * para calcular as métricas e comparar com o último baseline salvo.
+ */
+
+export const CLASSE_SEM_REGRA = 'SEM_REGRA';
+
+export type ModoAvaliacao = 'regras' | 'ia' | 'completo';
+
+export interface CasoCorpus {
+    id: string;
+    descricao?: string;
+    /** manual = escrito à mão; historico = exportado de exigencias_ia_historico */
+    origem?: 'manual' | 'historico';
+    cards: Array<{ data: string; texto: string }>; // data em DD/MM/YYYY
+    esperado: {
+        classe_final: string;
+        documentos_exigidos?: string[];
+        data_evento?: string; // YYYY-MM-DD
+        tipo_indeferimento?: 'CULPA' | 'MERITO';
+    };
+}
+
+export interface PredicaoCaso {
+    classe_final: string;
+    documentos_exigidos?: string[];
+    data_evento?: Date;
+    tipo_indeferimento?: 'CULPA' | 'MERITO';
+    origem?: string;
+    erro?: string;
+}
+
+export interface MetricasClasse {
+    suporte: number; // casos com esta classe esperada
+    previstos: number; // casos classificados nesta classe
+    acertos: number;
+    precisao: number | null;
+    recall: number | null;
+    f1: number | null;
+}
+
+export interface MetricasCampo {
+    avaliados: number;
+    acertos: number;
+    taxa: number | null;
+}
+
+export interface ResultadoCasoAvaliado {
+    esperado: string;
+    obtido: string;
+    acertou: boolean;
+}
+
+export interface RelatorioAvaliacao {
+    modo: ModoAvaliacao;
+    geradoEm: string;
+    totalCasos: number;
+    acuracia: number;
+    /** Fração de casos em que alguma regra disparou (modo regras) */
+    cobertura?: number;
+    porClasse: Record<string, MetricasClasse>;
+    documentos: MetricasCampo;
+    prazo: MetricasCampo;
+    tipoIndeferimento: MetricasCampo;
+    casos: Record<string, ResultadoCasoAvaliado>;
+}
+
+export interface DiferencaBaseline {
+    baselineGeradoEm: string;
+    variacaoAcuracia: number;
+    variacaoPorClasse: Record<string, { precisao: number | null; recall: number | null }>;
+    regressoes: Array<{ id: string; esperado: string; antes: string; depois: string }>;
+    correcoes: Array<{ id: string; esperado: string; antes: string; depois: string }>;
+    casosNovos: string[];
+}
+
+/**
+ * Valida a estrutura de um caso do corpus
+ * @returns lista de erros (vazia se válido)
+ */
+export function validarCaso(caso: any, classesValidas: readonly string[]): string[] {
+    const erros: string[] = [];
+
+    if (typeof caso?.id !== 'string' || !caso.id.trim()) {
+        erros.push('id é obrigatório');
+    }
+    if (!Array.isArray(caso?.cards) || caso.cards.length === 0) {
+        erros.push('cards deve ser uma lista não vazia');
+    } else if (caso.cards.some((card: any) => typeof card?.texto !== 'string' || !/^\d{2}\/\d{2}\/\d{4}$/.test(card?.data || ''))) {
+        erros.push('cada card precisa de data (DD/MM/YYYY) e texto');
+    }
+    if (!classesValidas.includes(caso?.esperado?.classe_final)) {
+        erros.push(`esperado.classe_final inválida. Use: ${classesValidas.join(', ')}`);
+    }
+    if (caso?.esperado?.documentos_exigidos !== undefined && !Array.isArray(caso.esperado.documentos_exigidos)) {
+        erros.push('esperado.documentos_exigidos deve ser uma lista');
+    }
+    if (caso?.esperado?.data_evento !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(caso.esperado.data_evento)) {
+        erros.push('esperado.data_evento deve estar no formato YYYY-MM-DD');
+    }
+    if (caso?.esperado?.tipo_indeferimento !== undefined && !['CULPA', 'MERITO'].includes(caso.esperado.tipo_indeferimento)) {
+        erros.push('esperado.tipo_indeferimento deve ser CULPA ou MERITO');
+    }
+
+    return erros;
+}
+
+/**
+ * Carrega todos os casos (*.json) do diretório, ordenados por id
+ * Lança erro listando todos os arquivos inválidos ou ids duplicados
+ */
+export function carregarCorpus(diretorio: string, classesValidas: readonly string[]): CasoCorpus[] {
+    const arquivos = fs.readdirSync(diretorio).filter(arquivo => arquivo.endsWith('.json')).sort();
+    const casos: CasoCorpus[] = [];
+    const problemas: string[] = [];
+    const ids = new Set<string>();
+
+    for (const arquivo of arquivos) {
+        let caso: any;
+        try {
+            caso = JSON.parse(fs.readFileSync(path.join(diretorio, arquivo), 'utf8'));
+        } catch (error: any) {
+            problemas.push(`${arquivo}: JSON inválido (${error.message})`);
+            continue;
+        }
+
+        const erros = validarCaso(caso, classesValidas);
+        if (erros.length > 0) {
+            problemas.push(`${arquivo}: ${erros.join('; ')}`);
+            continue;
+        }
+        if (ids.has(caso.id)) {
+            problemas.push(`${arquivo}: id duplicado "${caso.id}"`);
+            continue;
+        }
+
+        ids.add(caso.id);
+        casos.push(caso);
+    }
+
+    if (problemas.length > 0) {
+        throw new Error(`Corpus inválido:\n- ${problemas.join('\n- ')}`);
+    }
+
+    return casos.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Separa o texto_bruto gravado pelo AIService ("[CARD n - DD/MM/YYYY]:\ntexto" unidos por "---")
+ * de volta em cards, do mais antigo para o mais recente
+ * Textos sem marcação viram um único card com a data padrão
+ */
+export function separarCardsTextoBruto(textoBruto: string, dataPadrao: string): CasoCorpus['cards'] {
+    const cards = textoBruto
+        .split(/\n\n---\n\n/)
+        .map(bloco => bloco.match(/^\[CARD \d+ - ([^\]]+)\]:\n([\s\S]*)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => ({ data: match[1].trim().substring(0, 10), texto: match[2].trim() }));
+
+    if (cards.length === 0 || cards.some(card => !/^\d{2}\/\d{2}\/\d{4}$/.test(card.data))) {
+        return [{ data: dataPadrao, texto: textoBruto.trim() }];
+    }
+    return cards;
+}
+
+/**
+ * Todos os documentos esperados precisam aparecer entre os obtidos
+ * (comparação sem acentos; um texto contido no outro conta como acerto)
+ */
+export function documentosConferem(esperados: string[], obtidos: string[] = []): boolean {
+    const obtidosNormalizados = obtidos.map(normalizarTexto);
+    return esperados.every(documento => {
+        const alvo = normalizarTexto(documento);
+        return obtidosNormalizados.some(obtido => obtido.includes(alvo) || alvo.includes(obtido));
+    });
+}
+
+/**
+ * Compara a data esperada (YYYY-MM-DD) com a data obtida
+ * O motor de regras gera datas no horário local e o LLM em UTC (new Date('YYYY-MM-DD')),
+ * então qualquer uma das duas leituras conta como acerto
+ */
+export function prazoConfere(esperado: string, obtido?: Date): boolean {
+    if (!obtido || isNaN(obtido.getTime())) {
+        return false;
+    }
+    const local = `${obtido.getFullYear()}-${String(obtido.getMonth() + 1).padStart(2, '0')}-${String(obtido.getDate()).padStart(2, '0')}`;
+    return esperado === local || esperado === obtido.toISOString().substring(0, 10);
+}
+
+function razao(numerador: number, denominador: number): number | null {
+    return denominador > 0 ? numerador / denominador : null;
+}
+
+function metricaCampo(avaliados: number, acertos: number): MetricasCampo {
+    return { avaliados, acertos, taxa: razao(acertos, avaliados) };
+}
+
+/**
+ * Calcula acurácia, precisão/recall por classe e acerto de documentos, prazo e tipo de indeferimento
+ * @param predicoes predição por id do caso (ausente = caso não avaliado, conta como erro)
+ */
+export function calcularMetricas(
+    modo: ModoAvaliacao,
+    casos: CasoCorpus[],
+    predicoes: Map<string, PredicaoCaso>
+): RelatorioAvaliacao {
+    const porClasse: Record<string, MetricasClasse> = {};
+    const resultados: Record<string, ResultadoCasoAvaliado> = {};
+    const documentos = { avaliados: 0, acertos: 0 };
+    const prazo = { avaliados: 0, acertos: 0 };
+    const tipo = { avaliados: 0, acertos: 0 };
+    let acertosClasse = 0;
+    let cobertos = 0;
+
+    const metricasDaClasse = (classe: string): MetricasClasse => {
+        if (!porClasse[classe]) {
+            porClasse[classe] = { suporte: 0, previstos: 0, acertos: 0, precisao: null, recall: null, f1: null };
+        }
+        return porClasse[classe];
+    };
+
+    for (const caso of casos) {
+        const predicao = predicoes.get(caso.id);
+        const esperado = caso.esperado.classe_final;
+        const obtido = predicao?.erro ? 'ERRO' : predicao?.classe_final || CLASSE_SEM_REGRA;
+        const acertou = obtido === esperado;
+
+        metricasDaClasse(esperado).suporte++;
+        metricasDaClasse(obtido).previstos++;
+        if (obtido !== CLASSE_SEM_REGRA && obtido !== 'ERRO') {
+            cobertos++;
+        }
+        if (acertou) {
+            acertosClasse++;
+            metricasDaClasse(esperado).acertos++;
+        }
+        resultados[caso.id] = { esperado, obtido, acertou };
+
+        // Campos secundários só contam quando a classe está certa e o caso define o valor esperado
+        if (!acertou || !predicao) {
+            continue;
+        }
+        if (caso.esperado.documentos_exigidos && caso.esperado.documentos_exigidos.length > 0) {
+            documentos.avaliados++;
+            if (documentosConferem(caso.esperado.documentos_exigidos, predicao.documentos_exigidos)) documentos.acertos++;
+        }
+        if (caso.esperado.data_evento) {
+            prazo.avaliados++;
+            if (prazoConfere(caso.esperado.data_evento, predicao.data_evento)) prazo.acertos++;
+        }
+        if (caso.esperado.tipo_indeferimento) {
+            tipo.avaliados++;
+            if (predicao.tipo_indeferimento === caso.esperado.tipo_indeferimento) tipo.acertos++;
+        }
+    }
+
+    for (const metricas of Object.values(porClasse)) {
+        metricas.precisao = razao(metricas.acertos, metricas.previstos);
+        metricas.recall = razao(metricas.acertos, metricas.suporte);
+        metricas.f1 = metricas.precisao !== null && metricas.recall !== null && metricas.precisao + metricas.recall > 0
+            ? (2 * metricas.precisao * metricas.recall) / (metricas.precisao + metricas.recall)
+            : null;
+    }
+
+    const relatorio: RelatorioAvaliacao = {
+        modo,
+        geradoEm: new Date().toISOString(),
+        totalCasos: casos.length,
+        acuracia: razao(acertosClasse, casos.length) ?? 0,
+        porClasse,
+        documentos: metricaCampo(documentos.avaliados, documentos.acertos),
+        prazo: metricaCampo(prazo.avaliados, prazo.acertos),
+        tipoIndeferimento: metricaCampo(tipo.avaliados, tipo.acertos),
+        casos: resultados,
+    };
+    if (modo === 'regras') {
+        relatorio.cobertura = razao(cobertos, casos.length) ?? 0;
+    }
+    return relatorio;
+}
+
+function variacao(atual: number | null, anterior: number | null | undefined): number | null {
+    return atual !== null && anterior !== null && anterior !== undefined ? atual - anterior : null;
+}
+
+/**
+ * Compara o relatório atual com o baseline salvo
+ * Regressão = caso que acertava e passou a errar; correção = o contrário
+ */
+export function compararComBaseline(atual: RelatorioAvaliacao, baseline: RelatorioAvaliacao): DiferencaBaseline {
+    const diferenca: DiferencaBaseline = {
+        baselineGeradoEm: baseline.geradoEm,
+        variacaoAcuracia: atual.acuracia - baseline.acuracia,
+        variacaoPorClasse: {},
+        regressoes: [],
+        correcoes: [],
+        casosNovos: [],
+    };
+
+    for (const [classe, metricas] of Object.entries(atual.porClasse)) {
+        const anterior = baseline.porClasse[classe];
+        diferenca.variacaoPorClasse[classe] = {
+            precisao: variacao(metricas.precisao, anterior?.precisao),
+            recall: variacao(metricas.recall, anterior?.recall),
+        };
+    }
+
+    for (const [id, resultado] of Object.entries(atual.casos)) {
+        const anterior = baseline.casos[id];
+        if (!anterior) {
+            diferenca.casosNovos.push(id);
+        } else if (anterior.acertou && !resultado.acertou) {
+            diferenca.regressoes.push({ id, esperado: resultado.esperado, antes: anterior.obtido, depois: resultado.obtido });
+        } else if (!anterior.acertou && resultado.acertou) {
+            diferenca.correcoes.push({ id, esperado: resultado.esperado, antes: anterior.obtido, depois: resultado.obtido });
+        }
+    }
+
+    return diferenca;
+}
+
+function percentual(valor: number | null): string {
+    return valor === null ? '   -  ' : `${(valor * 100).toFixed(1).padStart(5)}%`;
+}
+
+function delta(valor: number | null): string {
+    if (valor === null || Math.abs(valor) < 0.0005) {
+        return '';
+    }
+    return ` (${valor > 0 ? '+' : ''}${(valor * 100).toFixed(1)})`;
+}
+
+/**
+ * Monta o relatório em texto para o console
+ */
+export function formatarRelatorio(relatorio: RelatorioAvaliacao, diferenca?: DiferencaBaseline | null): string[] {
+    const linhas: string[] = [];
+
+    linhas.push(`Modo: ${relatorio.modo} | Casos: ${relatorio.totalCasos}`);
+    linhas.push(`Acurácia: ${percentual(relatorio.acuracia)}${delta(diferenca?.variacaoAcuracia ?? null)}`);
+    if (relatorio.cobertura !== undefined) {
+        linhas.push(`Cobertura das regras: ${percentual(relatorio.cobertura)}`);
+    }
+    linhas.push('');
+    linhas.push('Classe        Suporte  Previstos  Precisão   Recall      F1');
+
+    for (const [classe, metricas] of Object.entries(relatorio.porClasse).sort(([a], [b]) => a.localeCompare(b))) {
+        const variacoes = diferenca?.variacaoPorClasse[classe];
+        linhas.push(
+            `${classe.padEnd(13)} ${String(metricas.suporte).padStart(7)}  ${String(metricas.previstos).padStart(9)}  ` +
+            `${percentual(metricas.precisao)}${delta(variacoes?.precisao ?? null)}  ` +
+            `${percentual(metricas.recall)}${delta(variacoes?.recall ?? null)}  ${percentual(metricas.f1)}`
+        );
+    }
+
+    linhas.push('');
+    linhas.push(`Documentos: ${percentual(relatorio.documentos.taxa)} (${relatorio.documentos.acertos}/${relatorio.documentos.avaliados})`);
+    linhas.push(`Prazo: ${percentual(relatorio.prazo.taxa)} (${relatorio.prazo.acertos}/${relatorio.prazo.avaliados})`);
+    linhas.push(`Tipo de indeferimento: ${percentual(relatorio.tipoIndeferimento.taxa)} (${relatorio.tipoIndeferimento.acertos}/${relatorio.tipoIndeferimento.avaliados})`);
+
+    const erros = Object.entries(relatorio.casos).filter(([, resultado]) => !resultado.acertou);
+    if (erros.length > 0) {
+        linhas.push('');
+        linhas.push('Casos com classe errada:');
+        for (const [id, resultado] of erros) {
+            linhas.push(`  - ${id}: esperado ${resultado.esperado}, obtido ${resultado.obtido}`);
+        }
+    }
+
+    if (diferenca) {
+        linhas.push('');
+        linhas.push(`Comparação com baseline de ${diferenca.baselineGeradoEm}:`);
+        if (diferenca.regressoes.length === 0 && diferenca.correcoes.length === 0) {
+            linhas.push('  Nenhuma mudança de classificação');
+        }
+        for (const item of diferenca.regressoes) {
+            linhas.push(`  ❌ Regressão ${item.id}: ${item.antes} → ${item.depois} (esperado ${item.esperado})`);
+        }
+        for (const item of diferenca.correcoes) {
+            linhas.push(`  ✅ Corrigido ${item.id}: ${item.antes} → ${item.depois}`);
+        }
+        if (diferenca.casosNovos.length > 0) {
+            linhas.push(`  ➕ Casos novos: ${diferenca.casosNovos.join(', ')}`);
+        }
+    }
+
+    return linhas;
+}
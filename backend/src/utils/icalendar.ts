@@ -0,0 +1,163 @@
+/**
+ * Geração de calendários iCalendar (RFC 5545) para os feeds assinados no celular
+ *
+ * Cada evento tem UID estável: o mesmo UID com SEQUENCE maior atualiza o evento já importado
+ * (remarcação) e STATUS:CANCELLED o remove, sem duplicar.
+ */
+
+import { format } from 'date-fns';
+
+export interface AlarmeCalendario {
+    /** Minutos antes do início do evento */
+    antecedenciaMinutos: number;
+    descricao: string;
+}
+
+export interface EventoCalendario {
+    uid: string;
+    resumo: string;
+    /** Data/hora local (fuso do calendário); com diaInteiro, só a data vale */
+    inicio: Date;
+    duracaoMinutos?: number;
+    diaInteiro?: boolean;
+    descricao?: string;
+    local?: string;
+    url?: string;
+    status: 'CONFIRMED' | 'CANCELLED';
+    /** Versão do evento: precisa crescer a cada alteração */
+    sequencia: number;
+    atualizadoEm: Date;
+    alarmes?: AlarmeCalendario[];
+}
+
+export interface Calendario {
+    nome: string;
+    /** Fuso IANA (ex.: America/Sao_Paulo); Brasil sem horário de verão desde 2019 */
+    fusoHorario: string;
+    /** Deslocamento fixo do fuso, formato +HHMM/-HHMM */
+    deslocamento: string;
+    eventos: EventoCalendario[];
+}
+
+const PRODID = '-//INSS Manager//Calendario//PT-BR';
+const TAMANHO_LINHA = 75;
+
+/**
+ * Texto do arquivo .ics (quebras CRLF e linhas dobradas em 75 octetos)
+ */
+export function gerarCalendario(calendario: Calendario): string {
+    const linhas: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapar(calendario.nome)}`,
+        `X-WR-TIMEZONE:${calendario.fusoHorario}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+        'BEGIN:VTIMEZONE',
+        `TZID:${calendario.fusoHorario}`,
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        `TZOFFSETFROM:${calendario.deslocamento}`,
+        `TZOFFSETTO:${calendario.deslocamento}`,
+        'END:STANDARD',
+        'END:VTIMEZONE',
+    ];
+
+    for (const evento of calendario.eventos) {
+        linhas.push(...linhasEvento(evento, calendario.fusoHorario));
+    }
+
+    linhas.push('END:VCALENDAR');
+    return linhas.map(dobrarLinha).join('\r\n') + '\r\n';
+}
+
+function linhasEvento(evento: EventoCalendario, fusoHorario: string): string[] {
+    const linhas = [
+        'BEGIN:VEVENT',
+        `UID:${evento.uid}`,
+        `DTSTAMP:${formatarUtc(evento.atualizadoEm)}`,
+        `LAST-MODIFIED:${formatarUtc(evento.atualizadoEm)}`,
+        `SEQUENCE:${evento.sequencia}`,
+        `STATUS:${evento.status}`,
+        `SUMMARY:${escapar(evento.resumo)}`,
+    ];
+
+    if (evento.diaInteiro) {
+        const fim = new Date(evento.inicio.getFullYear(), evento.inicio.getMonth(), evento.inicio.getDate() + 1);
+        linhas.push(`DTSTART;VALUE=DATE:${format(evento.inicio, 'yyyyMMdd')}`);
+        linhas.push(`DTEND;VALUE=DATE:${format(fim, 'yyyyMMdd')}`);
+        linhas.push('TRANSP:TRANSPARENT');
+    } else {
+        const fim = new Date(evento.inicio.getTime() + (evento.duracaoMinutos ?? 60) * 60 * 1000);
+        linhas.push(`DTSTART;TZID=${fusoHorario}:${format(evento.inicio, "yyyyMMdd'T'HHmmss")}`);
+        linhas.push(`DTEND;TZID=${fusoHorario}:${format(fim, "yyyyMMdd'T'HHmmss")}`);
+    }
+
+    if (evento.local) linhas.push(`LOCATION:${escapar(evento.local)}`);
+    if (evento.descricao) linhas.push(`DESCRIPTION:${escapar(evento.descricao)}`);
+    if (evento.url) linhas.push(`URL:${evento.url}`);
+
+    if (evento.status !== 'CANCELLED') {
+        for (const alarme of evento.alarmes || []) {
+            linhas.push(
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                `DESCRIPTION:${escapar(alarme.descricao)}`,
+                `TRIGGER:-${duracao(alarme.antecedenciaMinutos)}`,
+                'END:VALARM'
+            );
+        }
+    }
+
+    linhas.push('END:VEVENT');
+    return linhas;
+}
+
+function formatarUtc(data: Date): string {
+    return data.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Duração ISO 8601 (P1D, PT2H, P1DT30M...)
+ */
+function duracao(minutos: number): string {
+    const dias = Math.floor(minutos / 1440);
+    const horas = Math.floor((minutos % 1440) / 60);
+    const resto = minutos % 60;
+
+    const tempo = `${horas ? `${horas}H` : ''}${resto ? `${resto}M` : ''}`;
+    const periodo = `${dias ? `${dias}D` : ''}${tempo ? `T${tempo}` : ''}`;
+    return periodo ? `P${periodo}` : 'PT0M';
+}
+
+function escapar(texto: string): string {
+    return texto
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Dobra a linha em 75 octetos (UTF-8), sem partir caracteres multibyte
+ */
+function dobrarLinha(linha: string): string {
+    if (Buffer.byteLength(linha) <= TAMANHO_LINHA) return linha;
+
+    const partes: string[] = [];
+    let atual = '';
+    let limite = TAMANHO_LINHA;
+    for (const caractere of linha) {
+        if (Buffer.byteLength(atual + caractere) > limite) {
+            partes.push(atual);
+            atual = '';
+            limite = TAMANHO_LINHA - 1; // continuação começa com espaço
+        }
+        atual += caractere;
+    }
+    partes.push(atual);
+    return partes.join('\r\n ');
+}
@@ -0,0 +1,331 @@
+import { analisarTipoIndeferimento } from './analisarIndeferimento';
+
+/**
+ * Motor de regras determinístico para classificar despachos do INSS
+ *
+ * Funções puras (sem banco, sem IA): recebem os últimos cards do protocolo e as
+ * regras ativas e devolvem a classificação, o prazo e os documentos.
+ * O AIService só chama o LLM quando nenhuma regra dispara com confiança suficiente.
+ */
+
+export type EscopoRegra = 'ultimo_card' | 'todos_cards';
+
+export interface CardInss {
+    data: Date | string; // Date ou DD/MM/YYYY
+    texto: string;
+}
+
+export interface RegraClassificacao {
+    id: number;
+    nome: string;
+    classeFinal: string;
+    prioridade: number;
+    confianca: number;
+    escopo: EscopoRegra;
+    /** Todos precisam aparecer no texto */
+    padroesTodos: string[];
+    /** Pelo menos um precisa aparecer (vazio = não exige) */
+    padroesQualquer: string[];
+    /** Nenhum pode aparecer */
+    padroesExcluir: string[];
+    /** Motivo fixo; vazio = primeira frase do card */
+    motivo?: string | null;
+    /** Documentos fixos; vazio = extraídos das listas do texto */
+    documentos?: string[] | null;
+    /** Prazo padrão em dias a partir da data do card (null = não calcula prazo) */
+    prazoDiasPadrao?: number | null;
+    /** CULPA/MERITO fixo ou AUTO (usa analisarTipoIndeferimento) */
+    tipoIndeferimento?: 'CULPA' | 'MERITO' | 'AUTO' | null;
+}
+
+export interface ResultadoRegra {
+    regraId: number;
+    regraNome: string;
+    classe_final: string;
+    motivo_ia: string;
+    documentos_exigidos?: string[];
+    data_evento?: Date;
+    confianca: number;
+    tipo_indeferimento?: 'CULPA' | 'MERITO';
+}
+
+// Cards que só registram andamento e escondem a exigência real do card anterior
+const PADROES_CARD_PROCEDIMENTAL = ['transferida', 'agendamento realizado', 'pericia agendada', 'avaliacao agendada'];
+const PADROES_CARD_EXIGENCIA = ['exigencia', 'prezado', 'nr:', 'documentos', 'prazo'];
+
+// Padrões "/regex/" são editados por administradores e rodam em todo despacho: limite de tamanho
+// e sem construções de backtracking exponencial (ReDoS)
+const TAMANHO_MAXIMO_REGEX = 200;
+const regexCompiladas = new Map<string, RegExp | null>();
+
+/**
+ * Minúsculas, sem acentos e com espaços simples
+ */
+export function normalizarTexto(texto: string): string {
+    return (texto || '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Padrão escrito como "/regex/"
+ */
+export function ehPadraoRegex(padrao: string): boolean {
+    return padrao.length > 2 && padrao.startsWith('/') && padrao.endsWith('/');
+}
+
+/**
+ * Motivo para recusar um padrão "/regex/" (null = pode ser usado)
+ * Recusa: expressão longa, inválida, com referência a grupo (\1) ou com grupo repetido que
+ * já tem repetição ou alternativa dentro, como (a+)+ e (a|aa)*
+ */
+export function validarPadraoRegex(padrao: string): string | null {
+    const corpo = padrao.slice(1, -1);
+    if (corpo.length > TAMANHO_MAXIMO_REGEX) {
+        return `Expressão regular com mais de ${TAMANHO_MAXIMO_REGEX} caracteres: ${padrao}`;
+    }
+
+    try {
+        new RegExp(corpo);
+    } catch {
+        return `Expressão regular inválida: ${padrao}`;
+    }
+
+    if (/\\[1-9]|\\k</.test(corpo)) {
+        return `Expressão regular com referência a grupo não é permitida: ${padrao}`;
+    }
+
+    // Para cada grupo aberto: já tem repetição ou alternativa dentro?
+    const grupos: boolean[] = [];
+    let repeticaoNoGrupo = false;
+    for (let i = 0; i < corpo.length; i++) {
+        const c = corpo[i];
+        if (c === '\\') {
+            i++;
+        } else if (c === '[') {
+            // Classe de caracteres: pula até o ] sem escape
+            for (i++; i < corpo.length && corpo[i] !== ']'; i++) {
+                if (corpo[i] === '\\') i++;
+            }
+        } else if (c === '(') {
+            grupos.push(repeticaoNoGrupo);
+            repeticaoNoGrupo = false;
+        } else if (c === ')') {
+            const internoArriscado: boolean = repeticaoNoGrupo;
+            const repetido = /[*+{]/.test(corpo[i + 1] || '');
+            if (internoArriscado && repetido) {
+                return `Expressão regular com repetição aninhada não é permitida: ${padrao}`;
+            }
+            repeticaoNoGrupo = (grupos.pop() ?? false) || internoArriscado || repetido;
+        } else if (c === '*' || c === '+' || c === '{' || c === '|') {
+            repeticaoNoGrupo = true;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Regex do padrão, compilada uma vez; null se for recusada por validarPadraoRegex
+ * (regras gravadas antes da validação não rodam)
+ */
+function compilarPadraoRegex(padrao: string): RegExp | null {
+    if (!regexCompiladas.has(padrao)) {
+        regexCompiladas.set(padrao, validarPadraoRegex(padrao) ? null : new RegExp(padrao.slice(1, -1), 'i'));
+    }
+    return regexCompiladas.get(padrao)!;
+}
+
+/**
+ * Verifica se o padrão aparece no texto normalizado
+ * - "/regex/" é tratado como expressão regular (ver validarPadraoRegex)
+ * - demais padrões precisam começar no início de uma palavra
+ *   ("deferido" não casa com "indeferido", "reconhec" casa com "reconhecido")
+ */
+export function padraoCasa(textoNormalizado: string, padrao: string): boolean {
+    if (ehPadraoRegex(padrao)) {
+        const regex = compilarPadraoRegex(padrao);
+        return regex ? regex.test(textoNormalizado) : false;
+    }
+
+    const alvo = normalizarTexto(padrao);
+    if (!alvo) {
+        return false;
+    }
+
+    let indice = textoNormalizado.indexOf(alvo);
+    while (indice !== -1) {
+        if (indice === 0 || !/[a-z0-9]/.test(textoNormalizado[indice - 1])) {
+            return true;
+        }
+        indice = textoNormalizado.indexOf(alvo, indice + 1);
+    }
+    return false;
+}
+
+export function converterDataCard(data: Date | string): Date {
+    if (data instanceof Date) {
+        return new Date(data.getTime());
+    }
+    const match = data.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+    if (match) {
+        return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+    }
+    return new Date(data);
+}
+
+/**
+ * Escolhe o card que contém o despacho real
+ * Se o último card for apenas andamento (transferência, agendamento), volta para
+ * o card anterior que menciona exigência/documentos/prazo
+ */
+export function selecionarCardRelevante<T extends CardInss>(cards: T[]): T {
+    let card = cards[cards.length - 1];
+
+    const ultimoTexto = normalizarTexto(card.texto);
+    if (PADROES_CARD_PROCEDIMENTAL.some(padrao => ultimoTexto.includes(padrao))) {
+        for (let i = cards.length - 2; i >= 0; i--) {
+            const textoCard = normalizarTexto(cards[i].texto);
+            if (PADROES_CARD_EXIGENCIA.some(padrao => textoCard.includes(padrao))) {
+                card = cards[i];
+                break;
+            }
+        }
+    }
+
+    return card;
+}
+
+/**
+ * Extrai o prazo do texto do card
+ * - "até DD/MM/YYYY" → data explícita
+ * - "N dias" → data do card + N dias
+ * - senão → data do card + prazoDiasPadrao (se informado)
+ */
+export function extrairPrazo(card: CardInss, prazoDiasPadrao?: number | null): { data: Date; dias: number | null; origem: 'data' | 'dias' | 'padrao' } | null {
+    const matchDataEspecifica = card.texto.match(/até\s+(\d{2}\/\d{2}\/\d{4})/i);
+    if (matchDataEspecifica) {
+        return { data: converterDataCard(matchDataEspecifica[1]), dias: null, origem: 'data' };
+    }
+
+    const matchPrazoEspecifico = card.texto.match(/(\d{1,3})\s*dias/);
+    if (matchPrazoEspecifico) {
+        const dias = parseInt(matchPrazoEspecifico[1], 10);
+        const data = converterDataCard(card.data);
+        data.setDate(data.getDate() + dias);
+        return { data, dias, origem: 'dias' };
+    }
+
+    if (prazoDiasPadrao) {
+        const data = converterDataCard(card.data);
+        data.setDate(data.getDate() + prazoDiasPadrao);
+        return { data, dias: prazoDiasPadrao, origem: 'padrao' };
+    }
+
+    return null;
+}
+
+/**
+ * Extrai itens de listas do texto (linhas com "1)", "a)", "-", "•")
+ * Retorna no máximo 5 itens curtos e únicos
+ */
+export function extrairDocumentos(texto: string): string[] {
+    const itens = texto
+        .split(/\r?\n|;|(?=\s\d{1,2}[).-]\s)/)
+        .map(linha => linha.trim())
+        .filter(linha => /^(\d{1,2}|[a-z])[).-]\s+|^[-•*]\s+/i.test(linha))
+        .map(linha => linha.replace(/^(\d{1,2}|[a-z])[).-]\s+|^[-•*]\s+/i, '').replace(/[.;:,]+$/, '').trim())
+        .filter(linha => linha.length > 3)
+        // Documentos condicionais não valem para todos os segurados
+        .filter(linha => !/^(caso|se for|se )/i.test(linha))
+        .map(linha => (linha.length > 60 ? `${linha.substring(0, 57).trim()}...` : linha));
+
+    return [...new Set(itens)].slice(0, 5);
+}
+
+function primeiraFrase(texto: string): string {
+    const limpo = texto.replace(/\s+/g, ' ').trim();
+    const frase = limpo.split(/(?<=[.!?])\s/)[0] || limpo;
+    return frase.length > 140 ? `${frase.substring(0, 137).trim()}...` : frase;
+}
+
+function regraDispara(regra: RegraClassificacao, textoNormalizado: string): boolean {
+    if (regra.padroesTodos.length === 0 && regra.padroesQualquer.length === 0) {
+        return false; // Regra sem padrões nunca dispara
+    }
+    if (!regra.padroesTodos.every(padrao => padraoCasa(textoNormalizado, padrao))) {
+        return false;
+    }
+    if (regra.padroesQualquer.length > 0 && !regra.padroesQualquer.some(padrao => padraoCasa(textoNormalizado, padrao))) {
+        return false;
+    }
+    return !regra.padroesExcluir.some(padrao => padraoCasa(textoNormalizado, padrao));
+}
+
+/**
+ * Avalia as regras sobre os cards e devolve a classificação da regra vencedora
+ *
+ * Vence a regra de maior prioridade (empate: maior confiança). Se duas regras de
+ * mesma prioridade apontarem classes diferentes, a confiança cai pela metade para
+ * que o LLM decida.
+ *
+ * @returns null se nenhuma regra disparar
+ */
+export function avaliarRegras(cards: CardInss[], regras: RegraClassificacao[]): ResultadoRegra | null {
+    if (cards.length === 0 || regras.length === 0) {
+        return null;
+    }
+
+    const cardRelevante = selecionarCardRelevante(cards);
+    const textoUltimo = normalizarTexto(cardRelevante.texto);
+    const textoTodos = normalizarTexto(cards.map(card => card.texto).join('\n'));
+
+    const disparadas = regras
+        .filter(regra => regraDispara(regra, regra.escopo === 'todos_cards' ? textoTodos : textoUltimo))
+        .sort((a, b) => b.prioridade - a.prioridade || b.confianca - a.confianca);
+
+    if (disparadas.length === 0) {
+        return null;
+    }
+
+    const vencedora = disparadas[0];
+    const conflito = disparadas.some(
+        regra => regra.prioridade === vencedora.prioridade && regra.classeFinal !== vencedora.classeFinal
+    );
+
+    const resultado: ResultadoRegra = {
+        regraId: vencedora.id,
+        regraNome: vencedora.nome,
+        classe_final: vencedora.classeFinal,
+        motivo_ia: vencedora.motivo || primeiraFrase(cardRelevante.texto),
+        confianca: conflito ? vencedora.confianca / 2 : vencedora.confianca,
+    };
+
+    const documentos = vencedora.documentos && vencedora.documentos.length > 0
+        ? vencedora.documentos
+        : vencedora.classeFinal === 'EXIGENCIA' ? extrairDocumentos(cardRelevante.texto) : [];
+    if (documentos.length > 0) {
+        resultado.documentos_exigidos = documentos;
+        if (!vencedora.motivo && vencedora.classeFinal === 'EXIGENCIA') {
+            resultado.motivo_ia = `Cumprir exigência: apresentar ${documentos.join(', ')}`;
+        }
+    }
+
+    if (vencedora.prazoDiasPadrao !== undefined && vencedora.prazoDiasPadrao !== null) {
+        const prazo = extrairPrazo(cardRelevante, vencedora.prazoDiasPadrao);
+        if (prazo) {
+            resultado.data_evento = prazo.data;
+        }
+    }
+
+    if (vencedora.tipoIndeferimento === 'AUTO') {
+        resultado.tipo_indeferimento = analisarTipoIndeferimento(cardRelevante.texto);
+    } else if (vencedora.tipoIndeferimento) {
+        resultado.tipo_indeferimento = vencedora.tipoIndeferimento;
+    }
+
+    return resultado;
+}
@@ -7,6 +7,7 @@
  */
 
 import { createWorker, PSM } from 'tesseract.js';
+import sharp from 'sharp';
 import type { CandidataProcessada } from './color-preprocess';
 import fs from 'fs';
 import path from 'path';
@@ -421,6 +422,78 @@ export async function ocrMelhorDe(candidatasB64: string[]): Promise<{ texto: str
     return { texto: resultado.texto, conf: resultado.confianca, idx: resultado.candidataIndex };
 }
 
+/**
+ * Resultado do OCR de página inteira (documentos enviados pelos clientes)
+ */
+export interface ResultadoOCRDocumento {
+    texto: string;
+    confianca: number;
+    candidataVencedora: string;
+}
+
+/**
+ * OCR de documento (RG, comprovante de residência, laudo, CadÚnico): português, página inteira
+ *
+ * Testa a foto original (girada pelo EXIF) e uma versão em tons de cinza ampliada e normalizada,
+ * e fica com a de maior confiança. Formatos que o sharp não lê (ex.: HEIC sem libheif) vão crus.
+ */
+export async function ocrDocumento(imagem: Buffer): Promise<ResultadoOCRDocumento> {
+    const candidatas: { nome: string; buffer: Buffer }[] = [];
+    try {
+        candidatas.push({ nome: 'Original', buffer: await sharp(imagem).rotate().png().toBuffer() });
+        candidatas.push({
+            nome: 'Cinza-Normalizada',
+            buffer: await sharp(imagem)
+                .rotate()
+                .resize({ width: 2000, withoutEnlargement: false })
+                .grayscale()
+                .normalize()
+                .png()
+                .toBuffer(),
+        });
+    } catch (error: any) {
+        console.warn(`[OCR Documento] ⚠️ Pré-processamento falhou, usando imagem original: ${error.message}`);
+        if (candidatas.length === 0) {
+            candidatas.push({ nome: 'Bruta', buffer: imagem });
+        }
+    }
+
+    const worker = await createWorker('por', 1, { logger: () => { } });
+    let melhor: ResultadoOCRDocumento = { texto: '', confianca: 0, candidataVencedora: 'Nenhuma' };
+
+    try {
+        await worker.setParameters({
+            tessedit_pageseg_mode: PSM.AUTO,
+            user_defined_dpi: '300',
+        });
+
+        for (const candidata of candidatas) {
+            try {
+                const { data } = await worker.recognize(candidata.buffer);
+                const texto = (data.text || '').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+                const confianca = (data as any).confidence || 0;
+
+                console.log(`[OCR Documento] ${candidata.nome}: ${texto.length} caracteres, confiança=${confianca.toFixed(1)}%`);
+
+                if (texto && confianca > melhor.confianca) {
+                    melhor = { texto, confianca, candidataVencedora: candidata.nome };
+                }
+            } catch (error: any) {
+                console.error(`[OCR Documento] ❌ Erro OCR ${candidata.nome}: ${error.message}`);
+            }
+        }
+    } finally {
+        try {
+            await worker.terminate();
+        } catch (terminateError) {
+            const reason = terminateError instanceof Error ? terminateError.message : String(terminateError);
+            console.warn(`[OCR Documento] Erro ao finalizar worker: ${reason}`);
+        }
+    }
+
+    return melhor;
+}
+
 export function validarCaptcha(texto: string, _confiancaMinima: number = 65): boolean {
     // CAPTCHAs sempre têm exatamente 4 caracteres
     return /^[A-Z0-9]{4}$/.test(texto);
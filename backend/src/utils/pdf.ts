@@ -0,0 +1,155 @@
+/**
+ * Geração de PDF (pdf-lib) com páginas de texto, de imagem JPEG e páginas de PDFs existentes
+ *
+ * Usado nos pacotes de documentos enviados ao INSS: capa em Helvetica (WinAnsi, cobre os acentos
+ * do português), uma foto/digitalização por página, embutida como JPEG sem recompressão, e as
+ * páginas dos PDFs enviados pelos clientes, copiadas como estão.
+ */
+
+import { EncryptedPDFError, PDFDocument, PDFPage, StandardFonts } from 'pdf-lib';
+
+/** A4 em pontos (1/72 polegada) */
+export const A4 = { largura: 595, altura: 842 };
+
+const MARGEM = 28;
+
+export interface LinhaPdf {
+    texto: string;
+    tamanho?: number;
+    negrito?: boolean;
+}
+
+export type PaginaPdf =
+    | { tipo: 'texto'; linhas: LinhaPdf[] }
+    /** JPEG em RGB; largura/altura em pixels (a página A4 ajusta a escala) */
+    | { tipo: 'imagem'; jpeg: Buffer; largura: number; altura: number }
+    /** Página `indice` de um PDF aberto por lerPdf; `tamanho` é a média de bytes por página do arquivo */
+    | { tipo: 'pdf'; origem: PDFDocument; indice: number; tamanho: number };
+
+/**
+ * Abre um PDF existente e devolve uma PaginaPdf para cada página dele
+ * @throws Error se o arquivo for protegido por senha ou não for um PDF legível
+ */
+export async function lerPdf(dados: Buffer): Promise<PaginaPdf[]> {
+    let origem: PDFDocument;
+    try {
+        origem = await PDFDocument.load(dados, { updateMetadata: false });
+    } catch (error: any) {
+        throw new Error(error instanceof EncryptedPDFError ? 'PDF protegido por senha' : `PDF ilegível: ${error.message}`);
+    }
+
+    const total = origem.getPageCount();
+    const tamanho = Math.ceil(dados.length / Math.max(total, 1));
+    return origem.getPageIndices().map(indice => ({ tipo: 'pdf', origem, indice, tamanho }));
+}
+
+/**
+ * Tamanho aproximado que a página ocupa no PDF (para dividir o pacote em volumes)
+ */
+export function estimarTamanhoPagina(pagina: PaginaPdf): number {
+    const estrutura = 400;
+    if (pagina.tipo === 'imagem') {
+        return pagina.jpeg.length + estrutura;
+    }
+    if (pagina.tipo === 'pdf') {
+        return pagina.tamanho + estrutura;
+    }
+    return pagina.linhas.reduce((soma, linha) => soma + linha.texto.length + 30, estrutura);
+}
+
+/**
+ * Quebra o texto em linhas de até `largura` caracteres (Helvetica não é monoespaçada: é aproximado)
+ */
+export function quebrarTexto(texto: string, largura: number): string[] {
+    const linhas: string[] = [];
+    let atual = '';
+
+    for (const palavra of texto.split(/\s+/).filter(Boolean)) {
+        if (atual && (atual.length + 1 + palavra.length) > largura) {
+            linhas.push(atual);
+            atual = palavra;
+        } else {
+            atual = atual ? `${atual} ${palavra}` : palavra;
+        }
+    }
+
+    if (atual) {
+        linhas.push(atual);
+    }
+    return linhas;
+}
+
+/**
+ * Monta o PDF com os itens de `paginas`, na ordem (texto e imagem em A4; páginas de PDF no tamanho original)
+ */
+export async function gerarPdf(paginas: PaginaPdf[], titulo?: string): Promise<Buffer> {
+    const pdf = await PDFDocument.create();
+    pdf.setProducer('INSS Manager');
+    if (titulo) {
+        pdf.setTitle(paraWinAnsi(titulo));
+    }
+
+    const fonte = await pdf.embedFont(StandardFonts.Helvetica);
+    const fonteNegrito = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+    for (let indice = 0; indice < paginas.length; indice++) {
+        const pagina = paginas[indice];
+
+        if (pagina.tipo === 'pdf') {
+            // Páginas seguidas do mesmo arquivo são copiadas juntas (recursos compartilhados entram uma vez)
+            const indices = [pagina.indice];
+            while (indice + 1 < paginas.length) {
+                const proxima = paginas[indice + 1];
+                if (proxima.tipo !== 'pdf' || proxima.origem !== pagina.origem) break;
+                indices.push(proxima.indice);
+                indice++;
+            }
+            const copias = await pdf.copyPages(pagina.origem, indices);
+            copias.forEach(copia => pdf.addPage(copia));
+            continue;
+        }
+
+        const pdfPagina: PDFPage = pdf.addPage([A4.largura, A4.altura]);
+
+        if (pagina.tipo === 'imagem') {
+            // Imagem centralizada, ocupando o máximo da área útil sem distorcer
+            const imagem = await pdf.embedJpg(pagina.jpeg);
+            const escala = Math.min((A4.largura - 2 * MARGEM) / pagina.largura, (A4.altura - 2 * MARGEM) / pagina.altura);
+            const largura = pagina.largura * escala;
+            const altura = pagina.altura * escala;
+            pdfPagina.drawImage(imagem, {
+                x: (A4.largura - largura) / 2,
+                y: (A4.altura - altura) / 2,
+                width: largura,
+                height: altura,
+            });
+            continue;
+        }
+
+        let y = A4.altura - 2 * MARGEM;
+        for (const linha of pagina.linhas) {
+            const corpo = linha.tamanho || 11;
+            y -= corpo * 1.45;
+            pdfPagina.drawText(paraWinAnsi(linha.texto), {
+                x: MARGEM * 2,
+                y,
+                size: corpo,
+                font: linha.negrito ? fonteNegrito : fonte,
+            });
+        }
+    }
+
+    return Buffer.from(await pdf.save());
+}
+
+/**
+ * Texto que a Helvetica padrão (WinAnsi) consegue escrever: troca o que não existe em latin1
+ */
+function paraWinAnsi(texto: string): string {
+    return texto
+        .replace(/[‘’]/g, '\'')
+        .replace(/[“”]/g, '"')
+        .replace(/[–—]/g, '-')
+        .replace(/…/g, '...')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
@@ -0,0 +1,203 @@
+/**
+ * Políticas de lembrete (exigências, perícias e avaliações sociais)
+ *
+ * Cada evento tem etapas em dias antes da data (D-15, D-3, D-1, 0 = no próprio dia),
+ * a janela de horário em que os lembretes podem sair e o tratamento de fim de semana:
+ * - enviar:    envia no sábado/domingo normalmente
+ * - antecipar: etapa que cairia no fim de semana sai na sexta
+ * - adiar:     etapa que cairia no fim de semana sai na segunda; se o evento cai antes disso
+ *              (prazo no sábado ou domingo), sai na sexta anterior
+ *
+ * Os padrões abaixo podem ser substituídos por evento e por benefício (processos.tipo_beneficio)
+ * na tabela politicas_lembrete. Horário e fim de semana vazios = LEMBRETES_* do .env.
+ */
+
+import { addDays, differenceInCalendarDays, isWeekend, startOfDay, subDays } from 'date-fns';
+import { TEMPLATES_MENSAGEM_PADRAO } from './templatesMensagem';
+
+export type EventoLembrete = 'EXIGENCIA' | 'PERICIA' | 'AVALIACAO_SOCIAL';
+
+export type TratamentoFimDeSemana = 'enviar' | 'antecipar' | 'adiar';
+
+export interface EtapaLembrete {
+    /** Dias antes da data do evento (0 = no próprio dia) */
+    dias: number;
+    /**
+     * Template de WhatsApp da etapa (padrão: o do evento).
+     * Em agendamentos vale para parceiro e cliente; o escritório recebe sempre o template do escritório.
+     */
+    template?: string;
+}
+
+export interface PoliticaLembrete {
+    etapas: EtapaLembrete[];
+    fimDeSemana?: TratamentoFimDeSemana;
+    /** Janela de envio (HH:mm, horário do servidor); fora dela os lembretes esperam a próxima execução */
+    horarioInicio?: string;
+    horarioFim?: string;
+}
+
+export interface DefinicaoEventoLembrete {
+    descricao: string;
+    politica: PoliticaLembrete;
+}
+
+export interface EtapaDevida {
+    etapa: EtapaLembrete;
+    /** Etapas anteriores que passaram sem envio (ex.: agendamento descoberto na véspera); não são mais enviadas */
+    atrasadas: EtapaLembrete[];
+}
+
+/** tipo_beneficio da política que vale para todos os benefícios do evento */
+export const TODOS_BENEFICIOS = '*';
+
+export const TRATAMENTOS_FIM_DE_SEMANA: TratamentoFimDeSemana[] = ['enviar', 'antecipar', 'adiar'];
+
+export const MAXIMO_DIAS_ANTES = 90;
+
+const HORARIO_VALIDO = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const POLITICAS_LEMBRETE_PADRAO: Record<EventoLembrete, DefinicaoEventoLembrete> = {
+    EXIGENCIA: {
+        descricao: 'Prazo de exigência pendente',
+        politica: {
+            etapas: [{ dias: 7 }, { dias: 3 }, { dias: 1 }],
+        },
+    },
+    PERICIA: {
+        descricao: 'Perícia médica agendada',
+        politica: {
+            etapas: [{ dias: 30 }, { dias: 7 }, { dias: 1, template: 'WHATSAPP_LEMBRETE_VESPERA_AGENDAMENTO' }],
+        },
+    },
+    AVALIACAO_SOCIAL: {
+        descricao: 'Avaliação social agendada',
+        politica: {
+            etapas: [{ dias: 30 }, { dias: 7 }, { dias: 1, template: 'WHATSAPP_LEMBRETE_VESPERA_AGENDAMENTO' }],
+        },
+    },
+};
+
+export const EVENTOS_LEMBRETE = Object.keys(POLITICAS_LEMBRETE_PADRAO) as EventoLembrete[];
+
+/**
+ * Dia em que a etapa sai, já com o tratamento de fim de semana
+ */
+export function dataEnvioEtapa(dataEvento: Date, etapa: EtapaLembrete, fimDeSemana: TratamentoFimDeSemana): Date {
+    const evento = startOfDay(dataEvento);
+    let data = subDays(evento, etapa.dias);
+
+    if (fimDeSemana === 'antecipar') {
+        while (isWeekend(data)) data = subDays(data, 1);
+    } else if (fimDeSemana === 'adiar' && isWeekend(data)) {
+        let segunda = data;
+        while (isWeekend(segunda)) segunda = addDays(segunda, 1);
+        // Os lembretes não saem no fim de semana: com o evento antes da segunda, adiar seria não enviar
+        if (segunda <= evento) return segunda;
+        while (isWeekend(data)) data = subDays(data, 1);
+    }
+    return data;
+}
+
+/**
+ * Etapa que deve sair hoje: a mais próxima do evento entre as que já chegaram e não foram registradas
+ * (etapas mais distantes que uma já registrada não saem mais)
+ * @param diasRegistrados etapas (dias) já enviadas ou puladas para esta data do evento
+ * @returns null quando não há etapa devida ou o evento já passou
+ */
+export function etapaDevida(
+    politica: PoliticaLembrete,
+    dataEvento: Date,
+    hoje: Date,
+    diasRegistrados: number[],
+    fimDeSemana: TratamentoFimDeSemana
+): EtapaDevida | null {
+    if (differenceInCalendarDays(dataEvento, hoje) < 0) return null;
+
+    const menorRegistrada = Math.min(...diasRegistrados);
+    const pendentes = politica.etapas
+        .filter(etapa => etapa.dias < menorRegistrada)
+        .filter(etapa => differenceInCalendarDays(dataEnvioEtapa(dataEvento, etapa, fimDeSemana), hoje) <= 0)
+        .sort((a, b) => a.dias - b.dias);
+
+    if (pendentes.length === 0) return null;
+
+    const [etapa, ...atrasadas] = pendentes;
+    return { etapa, atrasadas };
+}
+
+/**
+ * Agora está dentro da janela de envio (horário e fim de semana)?
+ */
+export function dentroDaJanelaDeEnvio(
+    agora: Date,
+    horarioInicio: string,
+    horarioFim: string,
+    fimDeSemana: TratamentoFimDeSemana
+): boolean {
+    if (fimDeSemana !== 'enviar' && isWeekend(agora)) return false;
+
+    const minutos = agora.getHours() * 60 + agora.getMinutes();
+    return minutos >= emMinutos(horarioInicio) && minutos < emMinutos(horarioFim);
+}
+
+function emMinutos(horario: string): number {
+    const [horas, minutos] = horario.split(':').map(Number);
+    return horas * 60 + minutos;
+}
+
+/**
+ * Valida uma política vinda da API ou do banco
+ * @returns lista de erros (vazia = válida)
+ */
+export function validarPoliticaLembrete(politica: unknown): string[] {
+    if (!politica || typeof politica !== 'object') {
+        return ['Política deve ser um objeto'];
+    }
+
+    const { etapas, fimDeSemana, horarioInicio, horarioFim } = politica as Record<string, unknown>;
+    const erros: string[] = [];
+
+    if (!Array.isArray(etapas) || etapas.length === 0) {
+        erros.push('etapas deve ser uma lista com pelo menos uma etapa');
+    } else {
+        const dias = new Set<number>();
+        etapas.forEach((etapa, i) => {
+            if (!etapa || typeof etapa !== 'object') {
+                erros.push(`etapas[${i}]: deve ser um objeto`);
+                return;
+            }
+            const { dias: d, template } = etapa as Record<string, unknown>;
+            if (typeof d !== 'number' || !Number.isInteger(d) || d < 0 || d > MAXIMO_DIAS_ANTES) {
+                erros.push(`etapas[${i}].dias: inteiro entre 0 e ${MAXIMO_DIAS_ANTES}`);
+            } else if (dias.has(d)) {
+                erros.push(`etapas[${i}].dias: etapa D-${d} repetida`);
+            } else {
+                dias.add(d);
+            }
+            if (template !== undefined && template !== null) {
+                const definicao = typeof template === 'string' ? TEMPLATES_MENSAGEM_PADRAO[template] : undefined;
+                if (!definicao || definicao.canal !== 'whatsapp') {
+                    erros.push(`etapas[${i}].template: template de WhatsApp desconhecido`);
+                }
+            }
+        });
+    }
+
+    if (fimDeSemana !== undefined && fimDeSemana !== null && !TRATAMENTOS_FIM_DE_SEMANA.includes(fimDeSemana as TratamentoFimDeSemana)) {
+        erros.push(`fimDeSemana: use ${TRATAMENTOS_FIM_DE_SEMANA.join(', ')}`);
+    }
+
+    for (const [campo, valor] of Object.entries({ horarioInicio, horarioFim })) {
+        if (valor !== undefined && valor !== null && (typeof valor !== 'string' || !HORARIO_VALIDO.test(valor))) {
+            erros.push(`${campo}: formato HH:mm`);
+        }
+    }
+    if (typeof horarioInicio === 'string' && typeof horarioFim === 'string'
+        && HORARIO_VALIDO.test(horarioInicio) && HORARIO_VALIDO.test(horarioFim)
+        && emMinutos(horarioInicio) >= emMinutos(horarioFim)) {
+        erros.push('horarioInicio deve ser antes de horarioFim');
+    }
+
+    return erros;
+}
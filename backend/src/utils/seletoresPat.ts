@@ -0,0 +1,203 @@
+/**
+ * Registro de seletores do PAT com estratégias em ordem de preferência
+ *
+ * Cada campo lógico (tabela de perícias, etapa, card de comentário, CPF, serviço...)
+ * tem uma lista de estratégias: a primeira é a principal e as demais são fallbacks.
+ * Quando a principal para de encontrar o elemento e um fallback assume, o DOM do PAT
+ * mudou (drift): o SeletoresPatService registra e alerta o admin.
+ *
+ * Os padrões abaixo podem ser substituídos por campo na tabela seletores_pat.
+ */
+
+export type TipoEstrategiaSeletor = 'xpath' | 'css' | 'texto' | 'aria';
+
+export interface EstrategiaSeletor {
+    tipo: TipoEstrategiaSeletor;
+    /** XPath, seletor CSS, texto visível (texto) ou nome acessível (aria) */
+    valor: string;
+    /** Só para texto: seletor CSS dos candidatos (padrão: qualquer elemento) */
+    escopo?: string;
+    /** A partir do elemento encontrado: ancestral mais próximo que casa com este seletor */
+    subir?: string;
+    /** Depois de subir: próximo elemento irmão (label → valor) */
+    irmao?: boolean;
+    /** Por último: descendente que casa com este seletor */
+    alvo?: string;
+}
+
+export interface DefinicaoSeletorPat {
+    descricao: string;
+    /** Campo sempre presente na página: nenhuma estratégia encontrar também é drift */
+    obrigatorio: boolean;
+    estrategias: EstrategiaSeletor[];
+}
+
+export interface ResultadoResolucaoSeletor {
+    elementos: Element[];
+    /** Índice da estratégia que encontrou o elemento (-1 = nenhuma) */
+    indice: number;
+}
+
+const DETALHAMENTO_ABSOLUTO = '/html/body/div[1]/div[2]/div/div[2]/main/div/div[2]/div[2]/div/div[1]';
+const DETALHAMENTO_RELATIVO = '//*[@id="detalhamento"]';
+
+const CABECALHOS = 'h1, h2, h3, h4, h5, h6, legend';
+
+function seletoresAgendamento(secao: number, titulo: string, nome: string): Record<string, DefinicaoSeletorPat> {
+    const prefixo = secao === 7 ? 'avaliacao_social' : 'pericia';
+
+    return {
+        [`${prefixo}.tabela`]: {
+            descricao: `Corpo da tabela de agendamentos de ${nome}`,
+            obrigatorio: false,
+            estrategias: [
+                { tipo: 'xpath', valor: `${DETALHAMENTO_ABSOLUTO}/section[${secao}]/div[3]/div[2]/div[1]/div/table/tbody` },
+                { tipo: 'xpath', valor: `${DETALHAMENTO_RELATIVO}/section[${secao}]/div[3]/div[2]/div[1]/div/table/tbody` },
+                { tipo: 'texto', valor: titulo, escopo: CABECALHOS, subir: 'section', alvo: 'table tbody' },
+            ],
+        },
+        [`${prefixo}.etapa`]: {
+            descricao: `Etapa de ${nome} (ex.: "Aguardando comparecimento")`,
+            obrigatorio: false,
+            estrategias: [
+                { tipo: 'xpath', valor: `${DETALHAMENTO_ABSOLUTO}/section[${secao}]/div[2]/div` },
+                { tipo: 'xpath', valor: `${DETALHAMENTO_RELATIVO}/section[${secao}]/div[2]/div` },
+            ],
+        },
+        [`${prefixo}.botao_agendar`]: {
+            descricao: `Botão "Agendar" de ${nome} (só existe quando falta agendar)`,
+            obrigatorio: false,
+            estrategias: [
+                { tipo: 'xpath', valor: `${DETALHAMENTO_ABSOLUTO}/section[${secao}]/div[1]/button` },
+                { tipo: 'xpath', valor: `${DETALHAMENTO_RELATIVO}/section[${secao}]/div[1]/button` },
+            ],
+        },
+    };
+}
+
+export const SELETORES_PAT_PADRAO: Record<string, DefinicaoSeletorPat> = {
+    'detalhe.cpf': {
+        descricao: 'CPF do requerente no detalhe da tarefa',
+        obrigatorio: true,
+        estrategias: [
+            { tipo: 'texto', valor: 'CPF', escopo: '.dtp-datagrid-label', irmao: true },
+            { tipo: 'texto', valor: 'CPF', escopo: 'label, dt, th', irmao: true },
+            { tipo: 'aria', valor: 'CPF' },
+        ],
+    },
+    'detalhe.servico': {
+        descricao: 'Serviço (benefício) no detalhe da tarefa',
+        obrigatorio: true,
+        estrategias: [
+            { tipo: 'texto', valor: 'Serviço', escopo: '.dtp-datagrid-label', irmao: true },
+            { tipo: 'xpath', valor: `${DETALHAMENTO_RELATIVO}/section[1]/div/div[2]/div/div[1]/div/span` },
+            { tipo: 'xpath', valor: `${DETALHAMENTO_ABSOLUTO}/section[1]/div/div[2]/div/div[1]/div/span` },
+            { tipo: 'css', valor: '#detalhamento > section:nth-child(1) > div > div.dtp-datagrid-items-box > div > div:nth-child(1) > div > span' },
+            { tipo: 'texto', valor: 'Serviço', escopo: 'label, dt, th', irmao: true },
+        ],
+    },
+    'detalhe.comentario': {
+        descricao: 'Cards de comentário/exigência (abas Exigência e Comentários)',
+        obrigatorio: false,
+        estrategias: [
+            { tipo: 'css', valor: '.comentario-tarefa' },
+            { tipo: 'xpath', valor: '//*[starts-with(normalize-space(.), "Enviado em") and not(*[starts-with(normalize-space(.), "Enviado em")])]/..' },
+        ],
+    },
+    ...seletoresAgendamento(7, 'Avaliação Social', 'avaliação social'),
+    ...seletoresAgendamento(8, 'Perícia Médica', 'perícia médica'),
+};
+
+export const CAMPOS_SELETORES_PAT = Object.keys(SELETORES_PAT_PADRAO);
+
+/**
+ * Valida uma lista de estratégias editada pelo admin
+ * @returns lista de erros (vazia se válida)
+ */
+export function validarEstrategias(estrategias: unknown): string[] {
+    if (!Array.isArray(estrategias) || estrategias.length === 0) {
+        return ['estrategias deve ser uma lista com ao menos uma estratégia'];
+    }
+
+    const erros: string[] = [];
+    estrategias.forEach((estrategia: any, i) => {
+        if (!estrategia || !['xpath', 'css', 'texto', 'aria'].includes(estrategia.tipo)) {
+            erros.push(`estrategias[${i}].tipo deve ser xpath, css, texto ou aria`);
+        }
+        if (typeof estrategia?.valor !== 'string' || !estrategia.valor.trim()) {
+            erros.push(`estrategias[${i}].valor é obrigatório`);
+        }
+        for (const campo of ['escopo', 'subir', 'alvo']) {
+            if (estrategia?.[campo] !== undefined && typeof estrategia[campo] !== 'string') {
+                erros.push(`estrategias[${i}].${campo} deve ser texto`);
+            }
+        }
+        if (estrategia?.irmao !== undefined && typeof estrategia.irmao !== 'boolean') {
+            erros.push(`estrategias[${i}].irmao deve ser booleano`);
+        }
+    });
+    return erros;
+}
+
+/**
+ * Executa as estratégias NO NAVEGADOR (page.evaluateHandle), na ordem, até uma encontrar elementos
+ * Precisa ser autocontida: não pode referenciar nada fora da própria função
+ */
+export function resolverSeletorNoNavegador(
+    estrategias: EstrategiaSeletor[],
+    todos: boolean
+): ResultadoResolucaoSeletor {
+    for (let i = 0; i < estrategias.length; i++) {
+        const estrategia = estrategias[i];
+        let encontrados: Element[] = [];
+
+        try {
+            if (estrategia.tipo === 'xpath') {
+                const resultado = document.evaluate(estrategia.valor, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+                for (let j = 0; j < resultado.snapshotLength; j++) {
+                    const node = resultado.snapshotItem(j);
+                    if (node instanceof Element) encontrados.push(node);
+                }
+            } else if (estrategia.tipo === 'css') {
+                encontrados = Array.from(document.querySelectorAll(estrategia.valor));
+            } else if (estrategia.tipo === 'texto') {
+                // Âncora de texto: elemento mais interno cujo texto é o valor (ignora acento, caixa e espaços)
+                const procurado = estrategia.valor.replace(/\s+/g, ' ').trim();
+                encontrados = Array.from(document.querySelectorAll(estrategia.escopo || '*')).filter(el =>
+                    (el.textContent || '').replace(/\s+/g, ' ').trim().localeCompare(procurado, 'pt-BR', { sensitivity: 'base' }) === 0 &&
+                    !Array.from(el.children).some(filho =>
+                        (filho.textContent || '').replace(/\s+/g, ' ').trim().localeCompare(procurado, 'pt-BR', { sensitivity: 'base' }) === 0
+                    )
+                );
+            } else if (estrategia.tipo === 'aria') {
+                const procurado = estrategia.valor.replace(/\s+/g, ' ').trim();
+                encontrados = Array.from(document.querySelectorAll('[aria-label], [aria-labelledby]')).filter(el => {
+                    const rotulo = el.getAttribute('aria-label') ||
+                        (el.getAttribute('aria-labelledby') || '').split(/\s+/)
+                            .map(id => document.getElementById(id)?.textContent || '')
+                            .join(' ');
+                    return rotulo.replace(/\s+/g, ' ').trim().localeCompare(procurado, 'pt-BR', { sensitivity: 'base' }) === 0;
+                });
+            }
+        } catch {
+            // XPath/CSS inválido conta como estratégia que não encontrou nada
+            encontrados = [];
+        }
+
+        encontrados = encontrados
+            .map(el => {
+                let atual: Element | null = el;
+                if (atual && estrategia.subir) atual = atual.parentElement?.closest(estrategia.subir) || null;
+                if (atual && estrategia.irmao) atual = atual.nextElementSibling;
+                if (atual && estrategia.alvo) atual = atual.querySelector(estrategia.alvo);
+                return atual;
+            })
+            .filter((el): el is Element => el !== null);
+
+        if (encontrados.length > 0) {
+            return { elementos: todos ? encontrados : [encontrados[0]], indice: i };
+        }
+    }
+
+    return { elementos: [], indice: -1 };
+}
@@ -0,0 +1,765 @@
+/**
+ * Templates de mensagens (WhatsApp e notas do Tramitação)
+ *
+ * Sintaxe (sem execução de código, só leitura dos dados do evento):
+ * - {{cliente}}, {{processo.protocolo}}    valor (datas saem como dd/MM/yyyy, listas separadas por vírgula)
+ * - {{tipo | maiusculas}}                  filtros: maiusculas, minusculas
+ * - {{#if motivo}}...{{else}}...{{/if}}    condição (vazio, false, 0 e lista vazia são falsos)
+ * - {{#each documentos}}...{{/each}}       repetição; dentro: {{this}}, {{@numero}} (1, 2...), {{@index}} (0, 1...)
+ *                                          e os campos do item ({{tipo}}, {{url}})
+ *
+ * Uma tag de bloco sozinha na linha não deixa linha em branco no resultado.
+ *
+ * Os padrões abaixo podem ser substituídos por escritório na tabela templates_mensagem.
+ */
+
+export type CanalTemplate = 'whatsapp' | 'nota';
+
+export interface DefinicaoTemplateMensagem {
+    descricao: string;
+    canal: CanalTemplate;
+    /** Variáveis disponíveis e o que contêm */
+    variaveis: Record<string, string>;
+    /** Título da nota (só canal nota) */
+    titulo?: string;
+    conteudo: string;
+    /** Dados de exemplo para preview e envio de teste */
+    exemplo: Record<string, unknown>;
+}
+
+export interface TemplateMensagem {
+    titulo?: string | null;
+    conteudo: string;
+}
+
+type NoTemplate =
+    | { tipo: 'texto'; valor: string }
+    | { tipo: 'valor'; caminho: string; filtros: string[] }
+    | { tipo: 'if'; caminho: string; entao: NoTemplate[]; senao: NoTemplate[] }
+    | { tipo: 'each'; caminho: string; corpo: NoTemplate[] };
+
+const FILTROS: Record<string, (valor: string) => string> = {
+    maiusculas: valor => valor.toUpperCase(),
+    minusculas: valor => valor.toLowerCase(),
+};
+
+const TAMANHO_MAXIMO = 10000;
+const CAMINHO_VALIDO = /^(this|@index|@numero|[A-Za-z_]\w*)(\.[A-Za-z_]\w*)*$/;
+const TAG = /\{\{\s*(.*?)\s*\}\}/g;
+// Tag de bloco sozinha na linha: some junto com a quebra de linha
+const TAG_BLOCO_ISOLADA = /^[ \t]*(\{\{\s*(?:#if|#each|else|\/if|\/each)\b[^}]*\}\})[ \t]*\r?\n/gm;
+
+/**
+ * Converte o texto do template em árvore
+ * @throws Error com a descrição do problema (tag desconhecida, bloco sem fechamento...)
+ */
+export function compilarTemplate(texto: string): NoTemplate[] {
+    if (texto.length > TAMANHO_MAXIMO) {
+        throw new Error(`Template maior que ${TAMANHO_MAXIMO} caracteres`);
+    }
+
+    const fonte = texto.replace(TAG_BLOCO_ISOLADA, '$1');
+    const raiz: NoTemplate[] = [];
+    // Pilha de blocos abertos: onde os próximos nós entram
+    const pilha: { no: NoTemplate | null; destino: NoTemplate[] }[] = [{ no: null, destino: raiz }];
+
+    let posicao = 0;
+    for (const match of fonte.matchAll(TAG)) {
+        const atual = pilha[pilha.length - 1];
+        if (match.index! > posicao) {
+            atual.destino.push({ tipo: 'texto', valor: fonte.substring(posicao, match.index) });
+        }
+        posicao = match.index! + match[0].length;
+
+        const conteudo = match[1];
+        const bloco = /^#(if|each)\s+(\S+)$/.exec(conteudo);
+
+        if (bloco) {
+            const caminho = validarCaminho(bloco[2]);
+            const no: NoTemplate = bloco[1] === 'if'
+                ? { tipo: 'if', caminho, entao: [], senao: [] }
+                : { tipo: 'each', caminho, corpo: [] };
+            atual.destino.push(no);
+            pilha.push({ no, destino: no.tipo === 'if' ? no.entao : no.corpo });
+        } else if (conteudo === 'else') {
+            if (atual.no?.tipo !== 'if' || atual.destino !== atual.no.entao) {
+                throw new Error('{{else}} fora de um {{#if}}');
+            }
+            atual.destino = atual.no.senao;
+        } else if (conteudo === '/if' || conteudo === '/each') {
+            if (atual.no?.tipo !== conteudo.substring(1)) {
+                throw new Error(`{{${conteudo}}} sem o {{#${conteudo.substring(1)}}} correspondente`);
+            }
+            pilha.pop();
+        } else {
+            const [caminho, ...filtros] = conteudo.split('|').map(parte => parte.trim());
+            for (const filtro of filtros) {
+                if (!FILTROS[filtro]) {
+                    throw new Error(`Filtro desconhecido: ${filtro} (disponíveis: ${Object.keys(FILTROS).join(', ')})`);
+                }
+            }
+            atual.destino.push({ tipo: 'valor', caminho: validarCaminho(caminho), filtros });
+        }
+    }
+
+    if (pilha.length > 1) {
+        const aberto = pilha[pilha.length - 1].no!;
+        throw new Error(`{{#${aberto.tipo} ${(aberto as any).caminho}}} sem {{/${aberto.tipo}}}`);
+    }
+
+    if (posicao < fonte.length) {
+        raiz.push({ tipo: 'texto', valor: fonte.substring(posicao) });
+    }
+    return raiz;
+}
+
+function validarCaminho(caminho: string): string {
+    if (!CAMINHO_VALIDO.test(caminho)) {
+        throw new Error(`Variável inválida: {{${caminho}}}`);
+    }
+    return caminho;
+}
+
+/**
+ * Erros de sintaxe e variáveis que o evento não oferece
+ */
+export function validarTemplate(texto: unknown, variaveis: Record<string, string>): string[] {
+    if (typeof texto !== 'string' || !texto.trim()) {
+        return ['O template não pode ser vazio'];
+    }
+
+    let arvore: NoTemplate[];
+    try {
+        arvore = compilarTemplate(texto);
+    } catch (error: any) {
+        return [error.message];
+    }
+
+    const erros: string[] = [];
+    const verificar = (nos: NoTemplate[], dentroDeEach: boolean) => {
+        for (const no of nos) {
+            if (no.tipo === 'texto') continue;
+
+            // Dentro do each qualquer nome pode ser campo do item
+            const raiz = no.caminho.split('.')[0];
+            const conhecida = Object.prototype.hasOwnProperty.call(variaveis, raiz) || dentroDeEach;
+            if (!conhecida && !erros.includes(`Variável desconhecida: ${raiz}`)) {
+                erros.push(`Variável desconhecida: ${raiz}`);
+            }
+
+            if (no.tipo === 'if') {
+                verificar(no.entao, dentroDeEach);
+                verificar(no.senao, dentroDeEach);
+            } else if (no.tipo === 'each') {
+                verificar(no.corpo, true);
+            }
+        }
+    };
+    verificar(arvore, false);
+    return erros;
+}
+
+/**
+ * Aplica os dados ao template (sem espaços/quebras de linha sobrando no fim)
+ * @throws Error se o template tiver erro de sintaxe
+ */
+export function renderizarTemplate(texto: string, dados: Record<string, unknown>): string {
+    return renderizarNos(compilarTemplate(texto), [dados]).replace(/\s+$/, '');
+}
+
+function renderizarNos(nos: NoTemplate[], escopos: unknown[]): string {
+    let saida = '';
+
+    for (const no of nos) {
+        if (no.tipo === 'texto') {
+            saida += no.valor;
+        } else if (no.tipo === 'valor') {
+            saida += no.filtros.reduce((valor, filtro) => FILTROS[filtro](valor), formatarValor(resolver(no.caminho, escopos)));
+        } else if (no.tipo === 'if') {
+            saida += renderizarNos(verdadeiro(resolver(no.caminho, escopos)) ? no.entao : no.senao, escopos);
+        } else {
+            const lista = resolver(no.caminho, escopos);
+            if (!Array.isArray(lista)) continue;
+
+            lista.forEach((item, indice) => {
+                saida += renderizarNos(no.corpo, [{ '@index': indice, '@numero': indice + 1, this: item }, item, ...escopos]);
+            });
+        }
+    }
+
+    return saida;
+}
+
+/**
+ * Procura a variável do escopo mais interno (item do each) para o mais externo (dados do evento)
+ */
+function resolver(caminho: string, escopos: unknown[]): unknown {
+    const [raiz, ...resto] = caminho.split('.');
+
+    for (const escopo of escopos) {
+        if (escopo === null || typeof escopo !== 'object' || !Object.prototype.hasOwnProperty.call(escopo, raiz)) {
+            continue;
+        }
+
+        let valor: unknown = (escopo as Record<string, unknown>)[raiz];
+        for (const parte of resto) {
+            if (valor === null || typeof valor !== 'object' || !Object.prototype.hasOwnProperty.call(valor, parte)) {
+                return undefined;
+            }
+            valor = (valor as Record<string, unknown>)[parte];
+        }
+        return valor;
+    }
+
+    return undefined;
+}
+
+function verdadeiro(valor: unknown): boolean {
+    if (Array.isArray(valor)) return valor.length > 0;
+    if (typeof valor === 'string') return valor.trim().length > 0;
+    return !!valor;
+}
+
+function formatarValor(valor: unknown): string {
+    if (valor === null || valor === undefined) return '';
+    if (valor instanceof Date) return valor.toLocaleDateString('pt-BR');
+    if (Array.isArray(valor)) return valor.map(formatarValor).join(', ');
+    if (typeof valor === 'object') return '';
+    return String(valor);
+}
+
+const LINK_PAT = 'https://atendimento.inss.gov.br/tarefas/detalhar_tarefa/';
+
+const EXEMPLO_AGENDAMENTO = {
+    tipo: 'PERÍCIA MÉDICA',
+    cliente: 'Maria da Silva',
+    cpf: '123.XXX.X8X-01',
+    protocolo: '123456789',
+    diasRestantes: 7,
+    diasAntes: 7,
+    data: '20/11/2026',
+    hora: '09:30',
+    unidade: 'APS Vitória da Conquista',
+    linkComprovante: 'https://arquivos.exemplo.com/comprovante-123456789.pdf',
+    linkProcesso: `${LINK_PAT}123456789`,
+    dataHora: '13/11/2026, 08:00',
+};
+
+const VARIAVEIS_AGENDAMENTO = {
+    tipo: 'PERÍCIA MÉDICA ou AVALIAÇÃO SOCIAL',
+    cliente: 'Nome do segurado',
+    cpf: 'CPF mascarado (000.XXX.X0X-00)',
+    protocolo: 'Protocolo INSS',
+    diasRestantes: 'Dias até o agendamento',
+    data: 'Data do agendamento (dd/MM/yyyy)',
+    hora: 'Hora do agendamento',
+    unidade: 'Unidade do INSS',
+    linkComprovante: 'Link do comprovante de agendamento (pode estar vazio)',
+    dataHora: 'Data e hora do envio',
+};
+
+const VARIAVEIS_NAO_COMPARECIMENTO = {
+    tipo: 'PERÍCIA MÉDICA ou AVALIAÇÃO SOCIAL',
+    cliente: 'Nome do segurado',
+    cpf: 'CPF mascarado (000.XXX.X0X-00)',
+    protocolo: 'Protocolo INSS',
+    data: 'Data do agendamento perdido (dd/MM/yyyy)',
+    hora: 'Hora do agendamento',
+    unidade: 'Unidade do INSS',
+    dataHora: 'Data e hora da conferência',
+};
+
+const EXEMPLO_NAO_COMPARECIMENTO = {
+    tipo: 'PERÍCIA MÉDICA',
+    cliente: 'Maria da Silva',
+    cpf: '123.XXX.X8X-01',
+    protocolo: '123456789',
+    data: '20/11/2026',
+    hora: '09:30',
+    unidade: 'APS Vitória da Conquista',
+    dataHora: '21/11/2026, 10:00',
+};
+
+export const TEMPLATES_MENSAGEM_PADRAO: Record<string, DefinicaoTemplateMensagem> = {
+    WHATSAPP_PARCEIRO_ATUALIZACAO: {
+        descricao: 'WhatsApp para parceiro quando o processo muda de status',
+        canal: 'whatsapp',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            cpf: 'CPF mascarado',
+            protocolo: 'Protocolo INSS',
+            beneficio: 'Benefício',
+            status: 'EXIGÊNCIA, DEFERIDO, INDEFERIDO...',
+            motivo: 'Motivo (exigência/indeferimento)',
+            sugestaoAcao: 'Sugestão de ação',
+            analise: 'Análise da IA (se o parceiro recebe)',
+            comprovantes: 'Lista de comprovantes ({{tipo}}, {{url}}) se o parceiro recebe',
+            linkProcesso: 'Link do processo no portal do parceiro',
+            dataHora: 'Data e hora do envio',
+        },
+        conteudo: [
+            '*Atualização de Processo*',
+            '',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '*Protocolo*: {{protocolo}}',
+            '*Benefício*: {{beneficio}}',
+            '*Status*: {{status}}',
+            '{{#if motivo}}',
+            '',
+            '*Motivo*:',
+            '{{motivo}}',
+            '{{/if}}',
+            '{{#if sugestaoAcao}}',
+            '',
+            '*Sugestão de Ação*:',
+            '{{sugestaoAcao}}',
+            '{{/if}}',
+            '{{#if analise}}',
+            '',
+            '*Análise*:',
+            '{{analise}}',
+            '{{/if}}',
+            '{{#if comprovantes}}',
+            '',
+            '*Comprovantes*:',
+            '{{#each comprovantes}}',
+            '- {{tipo}}: {{url}}',
+            '{{/each}}',
+            '{{/if}}',
+            '{{#if linkProcesso}}',
+            '',
+            '*Link do Processo*:',
+            '{{linkProcesso}}',
+            '{{/if}}',
+            '',
+            '_Notificação automática - {{dataHora}}_',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            cpf: '123.XXX.X8X-01',
+            protocolo: '123456789',
+            beneficio: 'Aposentadoria por Idade',
+            status: 'EXIGÊNCIA',
+            motivo: 'Apresentar certidão de nascimento dos filhos',
+            comprovantes: [{ tipo: 'Perícia', url: 'https://arquivos.exemplo.com/comprovante-123456789.pdf' }],
+            linkProcesso: 'https://escritorio.exemplo.com/portal/#/processos/6f1c2a4e-8b3d-4f5a-9c7e-1d2b3a4c5e6f',
+            dataHora: '13/11/2026 08:00:00',
+        },
+    },
+
+    WHATSAPP_LEMBRETE_EXIGENCIA: {
+        descricao: 'WhatsApp de lembrete de exigência perto do prazo',
+        canal: 'whatsapp',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            cpf: 'CPF mascarado',
+            protocolo: 'Protocolo INSS',
+            diasRestantes: 'Dias até o prazo',
+            prazo: 'Prazo limite (data)',
+            exigencia: 'Resumo da exigência',
+            documentos: 'Lista de documentos exigidos',
+            email: 'E-mail exclusivo do processo para envio dos documentos (pode estar vazio)',
+        },
+        conteudo: [
+            '⏰ *LEMBRETE: EXIGÊNCIA PRÓXIMA DO PRAZO* ⏰',
+            '',
+            '*Protocolo*: {{protocolo}}',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            '*⚠️ ATENÇÃO: Faltam apenas {{diasRestantes}} dia(s) para o prazo!*',
+            '',
+            '*Prazo limite*: {{prazo}}',
+            '',
+            '*Exigência*: {{exigencia}}',
+            '',
+            '*Documentos exigidos*:',
+            '',
+            '{{#if documentos}}',
+            '{{#each documentos}}',
+            '> *{{@numero}}. {{this}}*',
+            '{{/each}}',
+            '{{else}}',
+            'Não especificados',
+            '{{/if}}',
+            '',
+            '{{#if email}}',
+            '*ENVIE OS DOCUMENTOS PARA*:',
+            '',
+            '{{email}}',
+            '',
+            '*✅ Após enviar, responda "ENVIADO" neste chat*',
+            '{{else}}',
+            '*⚠️ Entre em contato com o escritório para enviar os documentos*',
+            '{{/if}}',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            cpf: '123.XXX.X8X-01',
+            protocolo: '123456789',
+            diasRestantes: 5,
+            prazo: new Date(2026, 10, 20),
+            exigencia: 'Apresentar documentos pessoais e comprovante de residência',
+            documentos: ['RG e CPF', 'Comprovante de residência atualizado'],
+            email: 'processo-123456789@exemplo.com',
+        },
+    },
+
+    WHATSAPP_LEMBRETE_AGENDAMENTO_ESCRITORIO: {
+        descricao: 'WhatsApp de lembrete de perícia/avaliação social para o escritório',
+        canal: 'whatsapp',
+        variaveis: { ...VARIAVEIS_AGENDAMENTO, linkProcesso: 'Link do processo no PAT' },
+        conteudo: [
+            '⏰ *LEMBRETE: {{tipo}} PRÓXIMA* ⏰',
+            '',
+            '*Protocolo*: {{protocolo}}',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            '*⚠️ ATENÇÃO: Faltam {{diasRestantes}} dia(s) para a {{tipo | minusculas}}!*',
+            '',
+            '*Data e Hora*: {{data}} às {{hora}}',
+            '*Unidade*: {{unidade}}',
+            '{{#if linkComprovante}}',
+            '',
+            '*📄 Comprovante*:',
+            '{{linkComprovante}}',
+            '{{/if}}',
+            '',
+            '*🔗 Acesse o processo diretamente*:',
+            '{{linkProcesso}}',
+            '',
+            '*📅 Lembrete automático enviado em:* {{dataHora}}',
+        ].join('\n'),
+        exemplo: EXEMPLO_AGENDAMENTO,
+    },
+
+    WHATSAPP_LEMBRETE_AGENDAMENTO_PARCEIRO: {
+        descricao: 'WhatsApp de lembrete de perícia/avaliação social para o parceiro (sem link do PAT)',
+        canal: 'whatsapp',
+        variaveis: VARIAVEIS_AGENDAMENTO,
+        conteudo: [
+            '⏰ *LEMBRETE: {{tipo}} PRÓXIMA* ⏰',
+            '',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            '*⚠️ ATENÇÃO: Faltam {{diasRestantes}} dia(s) para a {{tipo | minusculas}}!*',
+            '',
+            '*Data e Hora*: {{data}} às {{hora}}',
+            '*Unidade*: {{unidade}}',
+            '{{#if linkComprovante}}',
+            '',
+            '*📄 Comprovante*:',
+            '{{linkComprovante}}',
+            '{{/if}}',
+            '',
+            '*📅 Lembrete automático enviado em:* {{dataHora}}',
+        ].join('\n'),
+        exemplo: EXEMPLO_AGENDAMENTO,
+    },
+
+    WHATSAPP_LEMBRETE_VESPERA_AGENDAMENTO: {
+        descricao: 'WhatsApp da véspera da perícia/avaliação social para parceiro e cliente (o que levar)',
+        canal: 'whatsapp',
+        variaveis: {
+            ...VARIAVEIS_AGENDAMENTO,
+            pericia: 'Verdadeiro quando é perícia médica',
+            amanha: 'Verdadeiro quando o agendamento é amanhã (com fim de semana antecipado, a véspera pode ser sexta)',
+        },
+        conteudo: [
+            '{{#if amanha}}',
+            '📅 *AMANHÃ: {{tipo}}* 📅',
+            '{{else}}',
+            '📅 *PRÓXIMA {{tipo}}: {{data}}* 📅',
+            '{{/if}}',
+            '',
+            '*Cliente*: {{cliente}}',
+            '*Data e Hora*: {{data}} às {{hora}}',
+            '*Unidade*: {{unidade}}',
+            '',
+            '*O que levar*:',
+            '- Documento oficial com foto',
+            '{{#if pericia}}',
+            '- Laudos, atestados e exames médicos (originais)',
+            '- Receitas e relatórios dos médicos que acompanham o tratamento',
+            '{{else}}',
+            '- Comprovante de residência e documentos de quem mora com o segurado',
+            '- Comprovantes de renda e de despesas da família',
+            '{{/if}}',
+            '{{#if linkComprovante}}',
+            '',
+            '*📄 Comprovante*:',
+            '{{linkComprovante}}',
+            '{{/if}}',
+            '',
+            'Chegue com 30 minutos de antecedência.',
+            '',
+            '*📅 Lembrete automático enviado em:* {{dataHora}}',
+        ].join('\n'),
+        exemplo: { ...EXEMPLO_AGENDAMENTO, diasRestantes: 1, diasAntes: 1, pericia: true, amanha: true },
+    },
+
+    NOTA_LEMBRETE_AGENDAMENTO: {
+        descricao: 'Nota no Tramitação registrando o lembrete de perícia/avaliação social',
+        canal: 'nota',
+        variaveis: {
+            ...VARIAVEIS_AGENDAMENTO,
+            diasAntes: 'Etapa da política de lembretes (dias antes: 30, 7, 1...)',
+            linkProcesso: 'Link do processo no PAT',
+            destinatarios: 'Quem recebeu o WhatsApp: "Nome (telefone)", separados por vírgula',
+        },
+        titulo: '⏰ Lembrete {{diasAntes}}d - {{tipo}} - {{data}}',
+        conteudo: [
+            '*⏰ LEMBRETE: {{tipo}} PRÓXIMA*',
+            '',
+            '*Protocolo*: {{protocolo}}',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            '*⚠️ ATENÇÃO: Faltam {{diasRestantes}} dia(s) para a {{tipo | minusculas}}!*',
+            '',
+            '*Data e Hora*: {{data}} às {{hora}}',
+            '*Unidade*: {{unidade}}',
+            '{{#if linkComprovante}}',
+            '',
+            '*📄 Comprovante*:',
+            '{{linkComprovante}}',
+            '{{/if}}',
+            '',
+            '*📱 Notificação WhatsApp enviada para:* {{destinatarios}} em {{dataHora}}',
+            '',
+            '*🔗 Acesse o processo diretamente*:',
+            '{{linkProcesso}}',
+            '',
+            '---',
+            '',
+            '📅 Lembrete automático enviado em: {{dataHora}}',
+        ].join('\n'),
+        exemplo: { ...EXEMPLO_AGENDAMENTO, destinatarios: 'Escritório (5577999998888)' },
+    },
+
+    WHATSAPP_AGENDAMENTO_NAO_COMPARECIDO: {
+        descricao: 'WhatsApp para escritório e parceiro quando o segurado faltou à perícia/avaliação social',
+        canal: 'whatsapp',
+        variaveis: VARIAVEIS_NAO_COMPARECIMENTO,
+        conteudo: [
+            '🚨 *FALTA NA {{tipo}}* 🚨',
+            '',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            'O PAT indica que o segurado *não compareceu* à {{tipo | minusculas}} de {{data}} às {{hora}} ({{unidade}}).',
+            '',
+            'Sem remarcação, o benefício tende a ser *indeferido*. Procure o cliente hoje para saber o motivo da falta e reunir o comprovante (atestado, internação...) para pedir a remarcação.',
+            '',
+            '_Notificação automática - {{dataHora}}_',
+        ].join('\n'),
+        exemplo: EXEMPLO_NAO_COMPARECIMENTO,
+    },
+
+    NOTA_AGENDAMENTO_NAO_COMPARECIDO: {
+        descricao: 'Nota no Tramitação registrando a falta à perícia/avaliação social e a tarefa de remarcação',
+        canal: 'nota',
+        variaveis: {
+            ...VARIAVEIS_NAO_COMPARECIMENTO,
+            linkProcesso: 'Link do processo no PAT',
+            destinatarios: 'Quem foi avisado: "Nome (contato)", separados por vírgula',
+        },
+        titulo: '🚨 Não compareceu - {{tipo}} - {{data}}',
+        conteudo: [
+            '*🚨 SEGURADO NÃO COMPARECEU À {{tipo}}*',
+            '',
+            '*Protocolo*: {{protocolo}}',
+            '*Cliente*: {{cliente}}',
+            '*CPF*: {{cpf}}',
+            '',
+            '*Data e Hora*: {{data}} às {{hora}}',
+            '*Unidade*: {{unidade}}',
+            '',
+            '*Ação*: tarefa URGENTE de remarcação criada para o administrativo.',
+            '{{#if destinatarios}}',
+            '*Avisados*: {{destinatarios}}',
+            '{{/if}}',
+            '',
+            '*🔗 Acesse o processo diretamente*:',
+            '{{linkProcesso}}',
+            '',
+            '---',
+            '',
+            '📅 Conferência automática em: {{dataHora}}',
+        ].join('\n'),
+        exemplo: { ...EXEMPLO_NAO_COMPARECIMENTO, linkProcesso: `${LINK_PAT}123456789`, destinatarios: 'Escritório (5577999998888)' },
+    },
+
+    NOTA_EXIGENCIA: {
+        descricao: 'Nota no Tramitação para nova exigência do INSS',
+        canal: 'nota',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            protocolo: 'Protocolo INSS',
+            beneficio: 'Benefício',
+            prazo: 'Prazo limite (data)',
+            diasRestantes: 'Dias até o prazo',
+            documentos: 'Lista de documentos exigidos',
+            motivo: 'Observações da exigência',
+        },
+        titulo: 'Exigência INSS - {{protocolo}}',
+        conteudo: [
+            '🔔 **NOVA EXIGÊNCIA INSS** - Protocolo {{protocolo}}',
+            '',
+            '**Benefício:** {{beneficio}}',
+            '**Prazo limite:** {{prazo}}',
+            '**Dias restantes:** {{diasRestantes}} dias',
+            '',
+            '📄 **Documentos exigidos:**',
+            '{{#each documentos}}',
+            '{{@numero}}. {{this}}',
+            '{{/each}}',
+            '',
+            '📝 **Observações:**',
+            '{{motivo}}',
+            '',
+            '⚠️ **AÇÃO NECESSÁRIA:** Solicitar documentos à Cíntia para cumprimento da exigência.',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            protocolo: '123456789',
+            beneficio: 'Aposentadoria por Idade',
+            prazo: new Date(2026, 10, 20),
+            diasRestantes: 30,
+            documentos: ['RG e CPF', 'Comprovante de residência atualizado'],
+            motivo: 'Documentos pessoais ilegíveis',
+        },
+    },
+
+    NOTA_INDEFERIMENTO: {
+        descricao: 'Nota urgente no Tramitação para indeferimento',
+        canal: 'nota',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            protocolo: 'Protocolo INSS',
+            beneficio: 'Benefício',
+            motivo: 'Motivo do indeferimento',
+        },
+        titulo: '🚨 INDEFERIMENTO INSS - {{protocolo}}',
+        conteudo: [
+            '🚨 **PROCESSO INDEFERIDO - URGENTE**',
+            '',
+            '🔢 **Protocolo:** {{protocolo}}',
+            '🏛️ **Benefício:** {{beneficio}}',
+            '👤 **Cliente:** {{cliente}}',
+            '',
+            '❌ **Motivo do indeferimento:**',
+            '{{motivo}}',
+            '',
+            '⚠️ **AÇÃO IMEDIATA NECESSÁRIA:**',
+            '1. Analisar viabilidade de recurso administrativo',
+            '2. Avaliar necessidade de judicialização',
+            '3. Entrar em contato com o cliente para informar e orientar',
+            '',
+            '⏳ **Prazo:** Recurso deve ser protocolado em até 30 dias.',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            protocolo: '123456789',
+            beneficio: 'Aposentadoria por Idade',
+            motivo: 'Falta de período de carência',
+        },
+    },
+
+    NOTA_PERICIA: {
+        descricao: 'Nota no Tramitação para perícia agendada',
+        canal: 'nota',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            protocolo: 'Protocolo INSS',
+            beneficio: 'Benefício',
+            tipo: 'médica ou social',
+            data: 'Data da perícia (dd/MM/yyyy)',
+            hora: 'Hora da perícia',
+            unidade: 'Local da perícia (pode estar vazio)',
+        },
+        titulo: 'Perícia {{tipo}} agendada - {{protocolo}}',
+        conteudo: [
+            '📅 **PERÍCIA {{tipo | maiusculas}} AGENDADA**',
+            '',
+            '🔢 **Protocolo:** {{protocolo}}',
+            '🏛️ **Benefício:** {{beneficio}}',
+            '👤 **Cliente:** {{cliente}}',
+            '',
+            '⏰ **Data da Perícia:** {{data}} às {{hora}}',
+            '{{#if unidade}}',
+            '📍 **Local:** {{unidade}}',
+            '{{/if}}',
+            '',
+            '📝 **Orientações ao cliente:**',
+            '1. Comparecer com 30 minutos de antecedência',
+            '2. Levar documento com foto (RG ou CNH)',
+            '3. Levar todos os exames e laudos médicos',
+            '4. Levar lista de medicamentos em uso',
+            '',
+            '⚠️ **IMPORTANTE:** Confirmar comparecimento com o cliente com antecedência.',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            protocolo: '123456789',
+            beneficio: 'Auxílio por Incapacidade Temporária',
+            tipo: 'médica',
+            data: '20/11/2026',
+            hora: '09:30',
+            unidade: 'APS Vitória da Conquista',
+        },
+    },
+
+    NOTA_DEFERIMENTO: {
+        descricao: 'Nota no Tramitação para benefício deferido',
+        canal: 'nota',
+        variaveis: {
+            cliente: 'Nome do segurado',
+            protocolo: 'Protocolo INSS',
+            beneficio: 'Benefício',
+            motivo: 'Detalhes do deferimento',
+        },
+        titulo: '✅ Benefício DEFERIDO - {{protocolo}}',
+        conteudo: [
+            '🎉 **BENEFÍCIO DEFERIDO - SUCESSO!**',
+            '',
+            '🔢 **Protocolo:** {{protocolo}}',
+            '🏛️ **Benefício:** {{beneficio}}',
+            '👤 **Cliente:** {{cliente}}',
+            '',
+            '✅ **Status:** Processo deferido pelo INSS',
+            '',
+            '{{motivo}}',
+            '',
+            '🚀 **Próximos passos:**',
+            '1. Informar o cliente sobre o deferimento',
+            '2. Orientar sobre início do pagamento',
+            '3. Solicitar carta de concessão (se necessário)',
+            '4. Arquivar documentação do processo',
+        ].join('\n'),
+        exemplo: {
+            cliente: 'Maria da Silva',
+            protocolo: '123456789',
+            beneficio: 'Aposentadoria por Idade',
+            motivo: 'Benefício concedido a partir da DER.',
+        },
+    },
+};
+
+export const EVENTOS_TEMPLATE_MENSAGEM = Object.keys(TEMPLATES_MENSAGEM_PADRAO);
+
+/**
+ * Valida título (notas) e conteúdo de um template do evento
+ */
+export function validarTemplateMensagem(evento: string, template: Partial<TemplateMensagem>): string[] {
+    const definicao = TEMPLATES_MENSAGEM_PADRAO[evento];
+    const erros = validarTemplate(template.conteudo, definicao.variaveis).map(erro => `conteudo: ${erro}`);
+
+    if (definicao.canal === 'nota' && template.titulo !== undefined && template.titulo !== null) {
+        erros.push(...validarTemplate(template.titulo, definicao.variaveis).map(erro => `titulo: ${erro}`));
+    }
+    return erros;
+}
@@ -3,13 +3,21 @@ import { QueryResult } from 'pg';
 import config from '../config';
 import logger from '../utils/logger';
 import Database from '../database';
-import aiService from '../services/AIService';
+import aiService, { AIService } from '../services/AIService';
 import puppeteerService from '../services/PuppeteerService';
-import tramitacaoService from '../services/TramitacaoService';
-import whatsappService from '../services/WhatsAppService';
+import tramitacaoService, { TramitacaoService } from '../services/TramitacaoService';
 import agendamentosService from '../services/AgendamentosService';
 import tramitacaoSyncService from '../services/TramitacaoSyncService';
 import parceirosService from '../services/ParceirosService';
+import {
+    BancoSomenteLeitura,
+    criarServicosExternos,
+    RegistroSimulacao,
+    RelatorioSimulacaoProtocolo,
+    ServicoArmazenamento,
+    ServicoTramitacaoSync,
+    ServicoWhatsApp
+} from '../services/simulacao';
 import { StatusINSS, ClasseFinal } from '@inss-manager/shared';
 
 /**
@@ -26,10 +34,21 @@ import { StatusINSS, ClasseFinal } from '@inss-manager/shared';
  */
 export class InssWorker {
     private isRunning = false;
-    private db: typeof Database;
+    private db: Pick<typeof Database, 'query' | 'queryFull'>;
+    // Serviços externos: trocados pelos simulados durante o dry-run
+    private aiService: AIService = aiService;
+    private tramitacaoService: TramitacaoService = tramitacaoService;
+    private whatsapp: ServicoWhatsApp;
+    private tramitacaoSync: ServicoTramitacaoSync;
+    private armazenamento: ServicoArmazenamento;
+    private simulacao: RegistroSimulacao | null = null;
 
     constructor() {
         this.db = Database;
+        const servicos = criarServicosExternos({});
+        this.whatsapp = servicos.whatsapp;
+        this.tramitacaoSync = servicos.tramitacaoSync;
+        this.armazenamento = servicos.armazenamento;
     }
 
     /**
@@ -40,7 +59,7 @@ export class InssWorker {
         logger.info('[InssWorker] Iniciando Worker...');
 
         // Valida configurações
-        if (!aiService.isConfigured()) {
+        if (!this.aiService.isConfigured()) {
             logger.error(
                 '[InssWorker] API do Gemini não configurada. Configure GEMINI_API_KEY no .env'
             );
@@ -65,10 +84,46 @@ export class InssWorker {
 
     /**
      * Execução manual do Worker (para testes)
+     * Com dryRun, nada é escrito no Tramitação, WhatsApp, armazenamento ou banco;
+     * retorna o relatório por protocolo do que teria sido feito
      */
-    async runManual(): Promise<void> {
-        logger.info('[InssWorker] Execução manual iniciada');
-        await this.run();
+    async runManual(opcoes: { dryRun?: boolean } = {}): Promise<RelatorioSimulacaoProtocolo[] | null> {
+        if (!opcoes.dryRun) {
+            logger.info('[InssWorker] Execução manual iniciada');
+            await this.run();
+            return null;
+        }
+
+        if (this.isRunning) {
+            logger.warn('[InssWorker] Worker já está em execução. Ignorando dry-run...');
+            return null;
+        }
+
+        logger.info('[InssWorker] 🧪 Execução manual em DRY-RUN iniciada');
+        const registro = new RegistroSimulacao();
+        const servicos = criarServicosExternos({}, registro);
+
+        this.simulacao = registro;
+        this.db = new BancoSomenteLeitura();
+        this.aiService = new AIService(undefined, undefined, { registrarHistorico: false });
+        this.tramitacaoService = servicos.tramitacao;
+        this.whatsapp = servicos.whatsapp;
+        this.tramitacaoSync = servicos.tramitacaoSync;
+        this.armazenamento = servicos.armazenamento;
+
+        try {
+            await this.run();
+            return registro.obterRelatorio();
+        } finally {
+            const reais = criarServicosExternos({});
+            this.simulacao = null;
+            this.db = Database;
+            this.aiService = aiService;
+            this.tramitacaoService = tramitacaoService;
+            this.whatsapp = reais.whatsapp;
+            this.tramitacaoSync = reais.tramitacaoSync;
+            this.armazenamento = reais.armazenamento;
+        }
     }
 
     /**
@@ -111,6 +166,7 @@ export class InssWorker {
             let mudancas = 0;
 
             for (const protocolo of protocolos) {
+                this.simulacao?.iniciarProtocolo(protocolo);
                 try {
                     const houveMudanca = await this.processarProtocolo(protocolo);
                     if (houveMudanca) mudancas++;
@@ -169,7 +225,7 @@ export class InssWorker {
             );
 
             // 3. Analisar texto com IA
-            const analiseIA = await aiService.analisarTextoInss(
+            const analiseIA = await this.aiService.analisarTextoInss(
                 dadosInss.textoCompleto,
                 protocolo
             );
@@ -260,7 +316,7 @@ export class InssWorker {
 
         try {
             // ✨ NOVO: Buscar ou criar cliente no Tramitação (Upsert)
-            const cliente = await tramitacaoService.buscarOuCriarCliente({
+            const cliente = await this.tramitacaoService.buscarOuCriarCliente({
                 nome: dadosInss.nome,
                 cpf: dadosInss.cpf,
                 protocolo: protocolo,
@@ -289,7 +345,7 @@ export class InssWorker {
 
             // Aplicar tags no Tramitação
             if (tags.length > 0) {
-                await tramitacaoService.aplicarEtiquetas(clienteId, tags);
+                await this.tramitacaoService.aplicarEtiquetas(clienteId, tags);
             }
 
             // 2. Ações específicas por tipo de status
@@ -320,7 +376,7 @@ export class InssWorker {
 
                 default:
                     // Status genérico (EM_ANALISE, RECURSO, etc)
-                    await tramitacaoService.criarNota(clienteId, {
+                    await this.tramitacaoService.criarNota(clienteId, {
                         titulo: `📋 Atualização - Protocolo ${protocolo}`,
                         texto: `Status: ${classeFinal}\n\n${analiseIA.motivo_ia}`,
                         tipo: 'INFORMACAO',
@@ -443,7 +499,7 @@ export class InssWorker {
         const cpfCliente = processoDb?.cpf_segurado || dadosInss?.cpf || '';
 
         // 🏷️ 1. Obter tags do cliente no Tramitação (para identificar parceiro)
-        const tagsCliente = await tramitacaoService.obterTagsCliente(clienteId);
+        const tagsCliente = await this.tramitacaoService.obterTagsCliente(clienteId);
         const tagsNomes = tagsCliente.map((tag: any) => typeof tag === 'string' ? tag : tag.name || tag.nome || '');
 
         // 👥 2. Identificar parceiro usando ParceirosService
@@ -457,7 +513,7 @@ export class InssWorker {
         // 📧 3. Gerar email exclusivo via TramitacaoSyncService
         let emailExclusivo: string | null = null;
         try {
-            const resultadoSync = await tramitacaoSyncService.gerarEmailExclusivo(
+            const resultadoSync = await this.tramitacaoSync.gerarEmailExclusivo(
                 parseInt(clienteId),
                 nomeCliente
             );
@@ -524,41 +580,24 @@ ${emailExclusivo ? `*ENVIE OS DOCUMENTOS PARA*:\n\n${emailExclusivo}\n\n` : ''}*
         // 📤 8. Enviar WhatsApp para cada destinatário
         for (const destinatario of destinatarios) {
             try {
-                await whatsappService.enviar(
-                    destinatario.telefone,
-                    mensagemWhatsApp
-                );
-
-                logger.info(`[InssWorker] ✅ WhatsApp enviado para ${destinatario.nome}`);
+                await this.whatsapp.enviar(destinatario.telefone, mensagemWhatsApp, {
+                    tipo: 'EXIGENCIA_DETECTADA',
+                    processoId: processoDb?.id,
+                    cidade: 'ESCRITORIO'
+                });
 
-                // Tentar salvar no banco (não bloquear se falhar)
-                if (processoDb?.id) {
-                    await this.db.query(`
-                        INSERT INTO notificacoes_whatsapp (
-                            processo_id, parceiro_id, tipo, telefone_destino, cidade, mensagem, enviada, data_envio
-                        ) VALUES ($1, $2, $3, $4, $5, $6, true, NOW())
-                    `, [
-                        processoDb.id,
-                        destinatario.nome === 'Escritório' ? null : null, // Sempre null (parceiro_id não existe para escritório)
-                        'EXIGENCIA_DETECTADA',
-                        destinatario.telefone,
-                        'ESCRITORIO',
-                        mensagemWhatsApp
-                    ]).catch((err: any) => {
-                        logger.warn(`[InssWorker] ⚠️ Erro ao salvar notificação no banco (não crítico): ${err.message}`);
-                    });
-                }
+                logger.info(`[InssWorker] ✅ WhatsApp enfileirado para ${destinatario.nome}`);
             } catch (error: any) {
                 logger.error(`[InssWorker] Erro ao enviar WhatsApp para ${destinatario.nome}: ${error.message}`);
             }
         }
 
         // 🏷️ 9. Aplicar tags no Tramitação (já aplicado no handleStatusChange, mas garantir GERALDO)
-        const responsavelExigencia = tramitacaoService.identificarResponsavel(tipoBeneficio, 'EXIGENCIA');
+        const responsavelExigencia = this.tramitacaoService.identificarResponsavel(tipoBeneficio, 'EXIGENCIA');
         const { mapearServicoParaTag } = await import('../utils/servicos-inss');
         const servicoTag = mapearServicoParaTag(tipoBeneficio || '');
 
-        await tramitacaoService.aplicarEtiquetas(clienteId, [
+        await this.tramitacaoService.aplicarEtiquetas(clienteId, [
             'CLIENTE_INSS',
             'ESCRITÓRIO',
             'ADMINISTRATIVO',
@@ -593,7 +632,7 @@ ${emailExclusivo || 'Email não disponível'}
 
 📅 Extraído automaticamente do PAT via IA em: ${new Date().toLocaleString('pt-BR')}`;
 
-        await tramitacaoService.criarNota(clienteId, {
+        await this.tramitacaoService.criarNota(clienteId, {
             titulo: `🔔 NOVA EXIGÊNCIA INSS - Protocolo ${protocolo} - DER: ${derFormatado} 🔔`,
             texto: conteudoNota,
             tipo: 'ALERTA',
@@ -613,14 +652,14 @@ ${emailExclusivo || 'Email não disponível'}
         logger.info(`[InssWorker] Tratando DEFERIDO para cliente ${clienteId}`);
 
         // 1. Criar nota de sucesso
-        await tramitacaoService.criarNota(clienteId, {
+        await this.tramitacaoService.criarNota(clienteId, {
             titulo: `🎉 REQUERIMENTO DEFERIDO - Protocolo ${protocolo}`,
             texto: `Motivo: ${analiseIA.motivo_ia}\n\nO benefício foi concedido!`,
             tipo: 'INFORMACAO',
         });
 
         // 2. Aplicar etiqueta
-        await tramitacaoService.aplicarEtiqueta(clienteId, 'Resultado: Deferido');
+        await this.tramitacaoService.aplicarEtiqueta(clienteId, 'Resultado: Deferido');
     }
 
     /**
@@ -659,20 +698,20 @@ ${emailExclusivo || 'Email não disponível'}
             // ⚠️ FALHA PROCESSUAL → Nova Entrada com Cíntia (intermediacao)
             logger.info(`[InssWorker] Indeferimento por FALHA PROCESSUAL - delegando para Intermediação`);
 
-            await tramitacaoService.criarNota(clienteId, {
+            await this.tramitacaoService.criarNota(clienteId, {
                 titulo: `⚠️ INDEFERIDO por Falha Processual - Protocolo ${protocolo}`,
                 texto: `Motivo: ${analiseIA.motivo_ia}\n\n⚠️ Providenciar NOVA ENTRADA no INSS.`,
                 tipo: 'ALERTA',
             });
 
-            await tramitacaoService.criarAtividade(clienteId, {
+            await this.tramitacaoService.criarAtividade(clienteId, {
                 titulo: `Nova Entrada INSS - Indeferimento Processual`,
                 descricao: `Protocolo anterior: ${protocolo}\n\nMotivo do indeferimento:\n${analiseIA.motivo_ia}\n\nAção: Contatar cliente e dar nova entrada no INSS.`,
                 responsavel: 'intermediacao',
                 prioridade: 'ALTA',
             });
 
-            await tramitacaoService.aplicarEtiquetas(clienteId, [
+            await this.tramitacaoService.aplicarEtiquetas(clienteId, [
                 'Resultado: Indeferido',
                 'Status: Nova Entrada Necessária',
                 'Responsável: Intermediação'
@@ -706,12 +745,12 @@ ${emailExclusivo || 'Email não disponível'}
             logger.info(`[InssWorker] Indeferimento de MÉRITO - convertendo para JUDICIAL`);
 
             // Define responsável jurídico baseado no tipo de benefício
-            const responsavelJudicial = tramitacaoService.identificarResponsavel(tipoBeneficio, 'JUDICIAL');
+            const responsavelJudicial = this.tramitacaoService.identificarResponsavel(tipoBeneficio, 'JUDICIAL');
 
             logger.info(`[InssWorker] 👨‍⚖️ Responsável judicial: ${responsavelJudicial}`);
 
             // 🏷️ Remover tag ADMINISTRATIVO e adicionar JUDICIAL
-            const tagsAtuais = await tramitacaoService.obterTagsCliente(clienteId);
+            const tagsAtuais = await this.tramitacaoService.obterTagsCliente(clienteId);
             const tagsFiltradasSemAdmin = tagsAtuais.filter(
                 tag => !tag.toUpperCase().includes('ADMINISTRATIVO')
             );
@@ -728,10 +767,10 @@ ${emailExclusivo || 'Email não disponível'}
                 servicoTag // Tag do serviço normalizada
             ];
 
-            await tramitacaoService.aplicarEtiquetas(clienteId, novasTags);
+            await this.tramitacaoService.aplicarEtiquetas(clienteId, novasTags);
 
             // 📝 Criar nota detalhada no Tramitação
-            await tramitacaoService.criarNota(clienteId, {
+            await this.tramitacaoService.criarNota(clienteId, {
                 titulo: `⚖️ INDEFERIDO - Convertido para JUDICIAL - Protocolo ${protocolo}`,
                 texto: `*Tipo de Benefício:* ${tipoBeneficio}\n\n*Motivo do Indeferimento:*\n${analiseIA.motivo_ia}\n\n*Ação:*\nProcesso convertido para fase JUDICIAL.\n\n*Responsável:* ${responsavelJudicial}\n\n*Próximos passos:*\n1. Analisar viabilidade da ação judicial\n2. Preparar documentação necessária\n3. Aguardar orientação do jurídico`,
                 tipo: 'ALERTA',
@@ -789,7 +828,7 @@ ${emailExclusivo || 'Email não disponível'}
         const tipoBeneficio = processoDb?.tipo_beneficio || analiseIA.tipo_beneficio || 'Não identificado';
 
         // 1. Criar agendamento
-        await tramitacaoService.criarAgendamento(clienteId, {
+        await this.tramitacaoService.criarAgendamento(clienteId, {
             titulo: `Perícia/Avaliação INSS - Protocolo ${protocolo}`,
             descricao: analiseIA.motivo_ia,
             data: analiseIA.data_evento,
@@ -797,14 +836,14 @@ ${emailExclusivo || 'Email não disponível'}
         });
 
         // 2. Criar nota informativa
-        await tramitacaoService.criarNota(clienteId, {
+        await this.tramitacaoService.criarNota(clienteId, {
             titulo: `📅 Perícia Agendada - ${analiseIA.data_evento.toLocaleDateString('pt-BR')}`,
             texto: `Protocolo: ${protocolo}\nTipo: ${tipoBeneficio}\n\n${analiseIA.motivo_ia}`,
             tipo: 'ALERTA',
         });
 
         // 3. Criar atividade para função Administrativo
-        await tramitacaoService.criarAtividade(clienteId, {
+        await this.tramitacaoService.criarAtividade(clienteId, {
             titulo: `Preparar Cliente para Perícia/Avaliação`,
             descricao: `Protocolo: ${protocolo}\nTipo de Benefício: ${tipoBeneficio}\nData: ${analiseIA.data_evento.toLocaleDateString('pt-BR')}\n\n${analiseIA.motivo_ia}\n\nAção: Contatar cliente e orientar sobre a perícia/avaliação.`,
             responsavel: 'administrativo',
@@ -812,7 +851,7 @@ ${emailExclusivo || 'Email não disponível'}
         });
 
         // 4. Aplicar etiquetas (usa função, não nome de pessoa)
-        await tramitacaoService.aplicarEtiquetas(clienteId, [
+        await this.tramitacaoService.aplicarEtiquetas(clienteId, [
             'Status: Perícia Agendada',
             'Responsável: Administrativo',
             `Benefício: ${tipoBeneficio}`,
@@ -855,14 +894,14 @@ ${emailExclusivo || 'Email não disponível'}
         logger.info(`[InssWorker] Tratando CANCELADO para cliente ${clienteId}`);
 
         // 1. Criar nota informativa
-        await tramitacaoService.criarNota(clienteId, {
+        await this.tramitacaoService.criarNota(clienteId, {
             titulo: `🚫 PROCESSO CANCELADO - Protocolo ${protocolo}`,
             texto: `Motivo: ${analiseIA.motivo_ia}\n\nO processo foi cancelado/excluído do sistema INSS.`,
             tipo: 'INFORMACAO',
         });
 
         // 2. Aplicar etiqueta
-        await tramitacaoService.aplicarEtiqueta(clienteId, 'Status: Cancelado');
+        await this.tramitacaoService.aplicarEtiqueta(clienteId, 'Status: Cancelado');
     }
 
     /**
@@ -876,14 +915,14 @@ ${emailExclusivo || 'Email não disponível'}
         logger.info(`[InssWorker] Tratando DUPLICADO para cliente ${clienteId}`);
 
         // 1. Criar nota de alerta
-        await tramitacaoService.criarNota(clienteId, {
+        await this.tramitacaoService.criarNota(clienteId, {
             titulo: `⚠️ PROCESSO DUPLICADO - Protocolo ${protocolo}`,
             texto: `${analiseIA.motivo_ia}\n\nEsse protocolo é duplicado. Verificar protocolo correto com o cliente.`,
             tipo: 'ALERTA',
         });
 
         // 2. Criar atividade para intermediação
-        await tramitacaoService.criarAtividade(clienteId, {
+        await this.tramitacaoService.criarAtividade(clienteId, {
             titulo: `Verificar Protocolo Duplicado - INSS`,
             descricao: `Protocolo duplicado: ${protocolo}\n\n${analiseIA.motivo_ia}\n\nAção: Verificar com cliente qual é o protocolo correto.`,
             responsavel: 'intermediacao',
@@ -891,7 +930,7 @@ ${emailExclusivo || 'Email não disponível'}
         });
 
         // 3. Aplicar etiqueta
-        await tramitacaoService.aplicarEtiqueta(clienteId, 'Status: Duplicado');
+        await this.tramitacaoService.aplicarEtiqueta(clienteId, 'Status: Duplicado');
     }
 
     /**
@@ -1174,7 +1213,7 @@ ${emailExclusivo || 'Email não disponível'}
                 }
 
                 if (tagsAgendar.length > 0) {
-                    await tramitacaoService.aplicarEtiquetas(clienteIdTramitacao.toString(), tagsAgendar);
+                    await this.tramitacaoService.aplicarEtiquetas(clienteIdTramitacao.toString(), tagsAgendar);
                     logger.info(`[InssWorker] 🏷️ Tags aplicadas: ${tagsAgendar.join(', ')}`);
 
                     // Enviar WhatsApp para Geraldo
@@ -1189,11 +1228,12 @@ ${emailExclusivo || 'Email não disponível'}
                         `*📅 Extraído automaticamente do PAT via IA em:* ${new Date().toLocaleString('pt-BR')}`;
 
                     try {
-                        await whatsappService.enviar(
+                        await this.whatsapp.enviar(
                             '557788682628',
-                            decodeURIComponent(mensagemAgendar)
+                            decodeURIComponent(mensagemAgendar),
+                            { tipo: 'AGENDAMENTO_NECESSARIO' }
                         );
-                        logger.info('[InssWorker] ✅ WhatsApp enviado para Geraldo sobre necessidade de agendamento');
+                        logger.info('[InssWorker] ✅ WhatsApp para Geraldo sobre necessidade de agendamento enfileirado');
                     } catch (error: any) {
                         logger.warn(`[InssWorker] ⚠️ Erro ao enviar WhatsApp para Geraldo: ${error.message}`);
                     }
@@ -1294,7 +1334,10 @@ ${emailExclusivo || 'Email não disponível'}
             if (!page) return;
 
             // Extrair detalhes completos
-            const detalhesAgendamento = await agendamentosService.extrairDetalhesAgendamento(page, agendamento);
+            const detalhesAgendamento = await agendamentosService.extrairDetalhesAgendamento(page, agendamento, {
+                armazenamento: this.armazenamento,
+                processoId
+            });
 
             if (!detalhesAgendamento) {
                 logger.warn(`[InssWorker] ⚠️ Não foi possível extrair detalhes do agendamento`);
@@ -1331,6 +1374,7 @@ ${emailExclusivo || 'Email não disponível'}
                         status = $4,
                         servico = $5,
                         url_comprovante = $6,
+                        comprovante_documento_id = COALESCE($8, comprovante_documento_id),
                         updated_at = NOW()
                     WHERE id = $7
                 `, [
@@ -1340,13 +1384,14 @@ ${emailExclusivo || 'Email não disponível'}
                     'AGENDADO',
                     detalhesAgendamento.servico || null,
                     detalhesAgendamento.urlComprovante || null,
-                    agendamentoExistente[0].id
+                    agendamentoExistente[0].id,
+                    detalhesAgendamento.comprovanteDocumentoId || null
                 ]);
             } else {
                 // Criar nova atividade
                 logger.info(`[InssWorker] ➕ Criando nova atividade de ${tipo}`);
 
-                const atividadeCriada = await tramitacaoSyncService.cadastrarAtividade(
+                const atividadeCriada = await this.tramitacaoSync.cadastrarAtividade(
                     parseInt(clienteId),
                     {
                         tipo,
@@ -1362,15 +1407,15 @@ ${emailExclusivo || 'Email não disponível'}
                 if (atividadeCriada) {
                     // Aplicar tag
                     const tag = tipo === 'PERICIA' ? 'PERICIA_AGENDADA' : 'AVALIACAO_AGENDADA';
-                    await tramitacaoService.aplicarEtiquetas(clienteId, [tag]);
+                    await this.tramitacaoService.aplicarEtiquetas(clienteId, [tag]);
 
                     // Salvar no banco
                     await this.db.query(`
                         INSERT INTO agendamentos (
                             processo_id, protocolo_inss, cpf_segurado, tipo,
                             data_agendamento, hora_agendamento, unidade, endereco,
-                            status, servico, url_comprovante
-                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                            status, servico, url_comprovante, comprovante_documento_id
+                        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                         ON CONFLICT (processo_id, tipo, data_agendamento) DO UPDATE SET
                             hora_agendamento = EXCLUDED.hora_agendamento,
                             unidade = EXCLUDED.unidade,
@@ -1388,7 +1433,8 @@ ${emailExclusivo || 'Email não disponível'}
                         detalhesAgendamento.endereco || null,
                         'AGENDADO',
                         detalhesAgendamento.servico || null,
-                        detalhesAgendamento.urlComprovante || null
+                        detalhesAgendamento.urlComprovante || null,
+                        detalhesAgendamento.comprovanteDocumentoId || null
                     ]);
 
                     logger.info(`[InssWorker] ✅ Agendamento salvo no banco`);
@@ -1423,7 +1469,10 @@ ${emailExclusivo || 'Email não disponível'}
                 if (!page) return;
 
                 // Extrair detalhes do novo agendamento
-                const detalhesNovo = await agendamentosService.extrairDetalhesAgendamento(page, novoAgendamento);
+                const detalhesNovo = await agendamentosService.extrairDetalhesAgendamento(page, novoAgendamento, {
+                    armazenamento: this.armazenamento,
+                    processoId
+                });
 
                 if (detalhesNovo) {
                     logger.info(`[InssWorker] 🔄 Agendamento REMARCADO detectado, atualizando atividade`);
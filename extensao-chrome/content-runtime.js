@@ -500,6 +500,105 @@ function runContent(apiBaseUrl) {
         return toast;
     }
 
+    // ===== SAÚDE DO WHATSAPP =====
+
+    const INTERVALO_SAUDE_WHATSAPP_MS = 5 * 60 * 1000;
+    const CHAVE_BANNER_WHATSAPP_DISPENSADO = 'extensao-whatsapp-banner-dispensado';
+
+    // Banner fixo no topo enquanto a sessão WhatsApp do escritório está fora do ar ou falhando
+    // Fechado pelo usuário, só volta numa nova queda (alerta.desde diferente)
+    function exibirBannerSaudeWhatsApp(alerta) {
+        if (!document.body) return;
+        const existente = document.getElementById('extensao-whatsapp-banner');
+
+        if (!alerta || sessionStorage.getItem(CHAVE_BANNER_WHATSAPP_DISPENSADO) === alerta.desde) {
+            if (existente) existente.remove();
+            return;
+        }
+
+        const cor = alerta.nivel === 'erro'
+            ? { bg: '#FEE2E2', border: '#DC2626', texto: '#991B1B' }
+            : { bg: '#FEF3C7', border: '#F59E0B', texto: '#92400E' };
+
+        const banner = existente || document.createElement('div');
+        banner.id = 'extensao-whatsapp-banner';
+        banner.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            right: 0;
+            background: ${cor.bg};
+            color: ${cor.texto};
+            border-bottom: 2px solid ${cor.border};
+            padding: 10px 16px;
+            z-index: 10001;
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            font-family: "Helvetica Neue", Helvetica, Arial, sans-serif;
+            font-size: 13px;
+            line-height: 1.4;
+        `;
+
+        banner.innerHTML = `
+            <span id="extensao-whatsapp-banner-texto" style="flex: 1; font-weight: 500;"></span>
+            <button type="button" id="extensao-whatsapp-banner-abrir" style="
+                padding: 6px 12px;
+                font-size: 12px;
+                background: white;
+                color: ${cor.texto};
+                border: 1px solid ${cor.border};
+                border-radius: 6px;
+                cursor: pointer;
+                font-weight: 600;
+            ">Abrir WhatsApp</button>
+            <button type="button" id="extensao-whatsapp-banner-fechar" title="Fechar" style="
+                background: transparent;
+                border: none;
+                color: ${cor.texto};
+                cursor: pointer;
+                padding: 4px 8px;
+                font-size: 18px;
+                line-height: 1;
+            ">×</button>
+        `;
+        // Texto vem do servidor (motivo da queda): textContent, não HTML
+        banner.querySelector('#extensao-whatsapp-banner-texto').textContent = `⚠️ ${alerta.mensagem}`;
+
+        banner.querySelector('#extensao-whatsapp-banner-abrir').onclick = () => {
+            banner.remove();
+            exibirModalConfiguracaoWhatsApp();
+        };
+        banner.querySelector('#extensao-whatsapp-banner-fechar').onclick = () => {
+            sessionStorage.setItem(CHAVE_BANNER_WHATSAPP_DISPENSADO, alerta.desde);
+            banner.remove();
+        };
+
+        if (!existente) {
+            document.body.appendChild(banner);
+        }
+    }
+
+    async function verificarSaudeWhatsApp() {
+        try {
+            const token = await obterTokenAuth();
+            if (!token) {
+                exibirBannerSaudeWhatsApp(null);
+                return;
+            }
+
+            const response = await fazerRequisicao(`${API_BASE_URL}/extensao/whatsapp/status`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) return;
+
+            const data = await response.json();
+            exibirBannerSaudeWhatsApp(data?.saude?.alerta || null);
+        } catch (error) {
+            console.warn('[Extensão] Erro ao verificar saúde do WhatsApp:', error);
+        }
+    }
+
     function mostrarConfirmacao(titulo, mensagem, opcoes = {}) {
         return new Promise((resolve) => {
             const { textoConfirmar = 'Confirmar', textoCancelar = 'Cancelar', tipo = 'info' } = opcoes;
@@ -1972,33 +2071,29 @@ function runContent(apiBaseUrl) {
                 }
 
                 try {
-                    // Buscar configurações de WhatsApp (inclui flag isAdmin do backend)
+                    // Buscar configurações de WhatsApp
                     const whatsappData = await obterConfiguracoesWhatsApp();
-
-                    // ⚠️ SEGURANÇA: isAdmin vem exclusivamente do backend
-                    const isAdmin = whatsappData?.isAdmin === true;
                     const configs = whatsappData?.config || {};
 
-                    // Se for admin (validado pelo backend), buscar status de conexão
+                    // Status da sessão WhatsApp do próprio escritório (cada usuário conecta o seu número)
                     let statusData = null;
-                    if (isAdmin) {
-                        try {
-                            const r = await fazerRequisicao(`${API_BASE_URL}/extensao/whatsapp/status`, {
-                                headers: { 'Authorization': `Bearer ${token}` }
-                            });
-                            statusData = await r.json();
-                        } catch (e) {
-                            statusData = { status: { isReady: false, numeroConectado: null } };
-                        }
+                    try {
+                        const r = await fazerRequisicao(`${API_BASE_URL}/extensao/whatsapp/status`, {
+                            headers: { 'Authorization': `Bearer ${token}` }
+                        });
+                        statusData = await r.json();
+                    } catch (e) {
+                        statusData = { status: { isReady: false, numeroConectado: null } };
                     }
 
-                    // Dados do status (apenas se admin - validado pelo backend)
+                    // Dados do status da sessão do usuário
                     const isConnected = statusData?.status?.isReady || false;
                     const isConnecting = statusData?.status?.isConnecting || false;
                     const numeroConectado = statusData?.status?.numeroConectado || null;
                     const temSessaoSalva = statusData?.status?.temSessaoSalva || false;
                     const lastReadyAt = statusData?.status?.lastReadyAt || null;
                     const sessionStartedAt = statusData?.status?.sessionStartedAt || null;
+                    const saude = statusData?.saude || null;
 
                     // Formatar data do último login para exibição
                     const formatarDataLogin = (isoString) => {
@@ -2019,6 +2114,24 @@ function runContent(apiBaseUrl) {
                     const ultimoLoginFormatado = formatarDataLogin(lastReadyAt);
                     const sessaoInicioFormatado = formatarDataLogin(sessionStartedAt);
 
+                    // Saúde da sessão: último envio, falhas seguidas, mensagens pausadas e histórico
+                    const ROTULOS_EVENTO_WHATSAPP = {
+                        CONECTADA: 'Conectado',
+                        DESCONECTADA: 'Conexão perdida',
+                        LOGOUT: 'Logout no celular',
+                        FALHA_AUTENTICACAO: 'Falha de autenticação',
+                        ERRO_RECUPERAVEL: 'Erro no navegador',
+                        RECUPERACAO_ESGOTADA: 'Reconexão esgotada',
+                        FALHAS_ENVIO: 'Falhas de envio',
+                        ENVIOS_NORMALIZADOS: 'Envios normalizados',
+                        ALERTA_ENVIADO: 'Alerta por e-mail'
+                    };
+                    const escaparTexto = (texto) => String(texto ?? '').replace(/[&<>"']/g, c => ({
+                        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+                    }[c]));
+                    const ultimoEnvioFormatado = formatarDataLogin(saude?.ultimoEnvioEm);
+                    const historicoSaude = (saude?.historico || []).slice(0, 10);
+
                     // Configurações do usuário
                     const ativo = configs?.ativo || false;
                     const numeroUnico = configs?.numeroUnico || '';
@@ -2040,7 +2153,6 @@ function runContent(apiBaseUrl) {
                         O sistema enviará notificações automáticas via WhatsApp quando houver mudanças no status dos processos. Configure abaixo os números que receberão as mensagens para cada tipo de atualização.
                     </div>
 
-                    ${isAdmin ? `
                     <div style="margin: 12px 0; border-top: 1px solid #E5E7EB; padding-top: 12px;">
                         <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 10px;">
                             <h3 style="margin: 0; color: var(--text-main); font-size: 14px; font-weight: 600;">
@@ -2102,6 +2214,35 @@ function runContent(apiBaseUrl) {
                         </div>
                         `}
                         
+                        ${saude ? `
+                        <div style="margin-top: 10px; padding: 10px; background: #F9FAFB; border: 1px solid #E5E7EB; border-radius: 8px; font-size: 11px; color: #6B7280;">
+                            ${saude.alerta ? `
+                            <div style="margin-bottom: 8px; font-weight: 600; color: ${saude.alerta.nivel === 'erro' ? '#991B1B' : '#92400E'};">
+                                ${escaparTexto(saude.alerta.mensagem)}
+                            </div>
+                            ` : ''}
+                            <div style="display: flex; flex-wrap: wrap; gap: 12px;">
+                                <div><span style="font-weight: 500;">Último envio:</span> ${ultimoEnvioFormatado || '—'}</div>
+                                <div><span style="font-weight: 500;">Falhas seguidas:</span> ${saude.falhasEnvioConsecutivas}</div>
+                                <div><span style="font-weight: 500;">Aguardando envio:</span> ${saude.mensagensPausadas}</div>
+                            </div>
+                            ${historicoSaude.length > 0 ? `
+                            <details style="margin-top: 8px;">
+                                <summary style="cursor: pointer; font-weight: 500; color: var(--text-main);">Histórico da conexão</summary>
+                                <div style="margin-top: 6px; display: flex; flex-direction: column; gap: 4px;">
+                                    ${historicoSaude.map(evento => `
+                                    <div>
+                                        <span style="font-weight: 500;">${formatarDataLogin(evento.ocorridoEm) || ''}</span>
+                                        · ${ROTULOS_EVENTO_WHATSAPP[evento.tipo] || escaparTexto(evento.tipo)}
+                                        ${evento.detalhe ? `<span style="color: #9CA3AF;">(${escaparTexto(evento.detalhe)})</span>` : ''}
+                                    </div>
+                                    `).join('')}
+                                </div>
+                            </details>
+                            ` : ''}
+                        </div>
+                        ` : ''}
+
                         <!-- QR Code Container (aparece quando clica em Conectar) -->
                         <div id="extensao-whatsapp-qr-container" style="display: none; margin-top: 12px; text-align: center;">
                             <div style="margin-bottom: 8px; color: var(--text-main); font-size: 12px; font-weight: 500;">
@@ -2122,7 +2263,6 @@ function runContent(apiBaseUrl) {
                             "></div>
                         </div>
                     </div>
-                    ` : ''}
 
                     <form id="extensao-whatsapp-form" style="display: flex; flex-direction: column; gap: 12px;">
                         <!-- Toggle Ativar Notificações -->
@@ -2736,7 +2876,7 @@ function runContent(apiBaseUrl) {
                         // ========================================
                         // AUTO-INICIALIZAR QR CODE SE JÁ ESTÁ CONECTANDO
                         // ========================================
-                        if (isAdmin && isConnecting && !isConnected && qrContainer && qrCodeDiv && qrStatusDiv) {
+                        if (isConnecting && !isConnected && qrContainer && qrCodeDiv && qrStatusDiv) {
                             console.log('[Extensão] WhatsApp já está conectando, buscando QR Code automaticamente...');
 
                             // Mostrar container e iniciar busca
@@ -4753,6 +4893,10 @@ function runContent(apiBaseUrl) {
                 tentarCriarBotao();
             }
 
+            // Banner de saúde do WhatsApp (sessão fora do ar ou falhando)
+            verificarSaudeWhatsApp();
+            setInterval(verificarSaudeWhatsApp, INTERVALO_SAUDE_WHATSAPP_MS);
+
             // Observer para detectar mudanças no DOM e recriar o botão se necessário
             const observer = new MutationObserver(() => {
                 if (!document.getElementById('btn-sincronizar-inss')) {